@@ -3,6 +3,8 @@ import Layout from './components/Layout';
 import Dashboard from './pages/Dashboard';
 import InvoiceCreate from './pages/InvoiceCreate';
 import TiqueteCreate from './pages/TiqueteCreate';
+import ExportInvoiceCreate from './pages/ExportInvoiceCreate';
+import PurchaseInvoiceCreate from './pages/PurchaseInvoiceCreate';
 import InvoiceHistory from './pages/InvoiceHistory';
 import NewClients from './pages/NewClients';
 import Products from './pages/Products';
@@ -10,6 +12,13 @@ import UserSettings from './pages/UserSettings';
 import Login from './pages/Login';
 import DatabaseAdmin from './pages/DatabaseAdmin';
 import Pagos from './pages/Pagos';
+import HaciendaOutbox from './pages/HaciendaOutbox';
+import SupplierInbox from './pages/SupplierInbox';
+import CuentasPorCobrar from './pages/CuentasPorCobrar';
+import ConciliacionBancaria from './pages/ConciliacionBancaria';
+import Caja from './pages/Caja';
+import Sucursales from './pages/Sucursales';
+import AuditoriaConsecutivos from './pages/AuditoriaConsecutivos';
 import { useAuth } from './hooks/useAuth';
 
 function App() {
@@ -40,6 +49,10 @@ function App() {
         <Route index element={<TiqueteCreate />} />
       </Route>
       
+      <Route path="/factura-exportacion" element={user ? <Layout /> : <Navigate to="/login" />}>
+        <Route index element={<ExportInvoiceCreate />} />
+      </Route>
+      
       <Route path="/historial" element={user ? <Layout /> : <Navigate to="/login" />}>
         <Route index element={<InvoiceHistory />} />
       </Route>
@@ -56,6 +69,37 @@ function App() {
         <Route index element={<Pagos />} />
       </Route>
 
+      <Route path="/cuentas-por-cobrar" element={user ? <Layout /> : <Navigate to="/login" />}>
+        <Route index element={<CuentasPorCobrar />} />
+      </Route>
+
+      <Route path="/conciliacion-bancaria" element={user ? <Layout /> : <Navigate to="/login" />}>
+        <Route index element={<ConciliacionBancaria />} />
+      </Route>
+      <Route path="/caja" element={user ? <Layout /> : <Navigate to="/login" />}>
+        <Route index element={<Caja />} />
+      </Route>
+
+      <Route path="/sucursales" element={user ? <Layout /> : <Navigate to="/login" />}>
+        <Route index element={<Sucursales />} />
+      </Route>
+
+      <Route path="/auditoria-consecutivos" element={user ? <Layout /> : <Navigate to="/login" />}>
+        <Route index element={<AuditoriaConsecutivos />} />
+      </Route>
+
+      <Route path="/cola-envios" element={user ? <Layout /> : <Navigate to="/login" />}>
+        <Route index element={<HaciendaOutbox />} />
+      </Route>
+
+      <Route path="/factura-compra" element={user ? <Layout /> : <Navigate to="/login" />}>
+        <Route index element={<PurchaseInvoiceCreate />} />
+      </Route>
+
+      <Route path="/comprobantes-recibidos" element={user ? <Layout /> : <Navigate to="/login" />}>
+        <Route index element={<SupplierInbox />} />
+      </Route>
+      
       <Route path="/configuracion" element={user ? <Layout /> : <Navigate to="/login" />}>
         <Route index element={<UserSettings />} />
       </Route>
@@ -0,0 +1,88 @@
+import { useState, useEffect } from 'react';
+import { AlertTriangle, WifiOff } from 'lucide-react';
+import { situacionesComprobante } from '../types/invoice';
+import { ComprobanteProvisional, SituacionComprobante } from '../services/contingencyService';
+
+export interface ContingencyPanelProps {
+  situacion: SituacionComprobante;
+  onSituacionChange: (situacion: SituacionComprobante) => void;
+  provisional: ComprobanteProvisional;
+  onProvisionalChange: (provisional: ComprobanteProvisional) => void;
+}
+
+export default function ContingencyPanel({
+  situacion,
+  onSituacionChange,
+  provisional,
+  onProvisionalChange
+}: ContingencyPanelProps) {
+  const [online, setOnline] = useState(navigator.onLine);
+
+  // Seguir el estado de la conexión para sugerir el modo sin internet
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  return (
+    <div className={`glass-card p-4 space-y-3 ${situacion !== '1' ? 'border border-yellow-500/50' : ''}`}>
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+        <div className="flex items-center">
+          <AlertTriangle className={`w-5 h-5 mr-2 ${situacion !== '1' ? 'text-yellow-400' : 'text-gray-400'}`} />
+          <div>
+            <h3 className="font-medium">Situación del comprobante</h3>
+            <p className="text-xs text-gray-400">
+              Los comprobantes emitidos en contingencia o sin internet se envían a Hacienda automáticamente al recuperar la conexión.
+            </p>
+          </div>
+        </div>
+        <select
+          className="form-select md:max-w-xs"
+          value={situacion}
+          onChange={(e) => onSituacionChange(e.target.value as SituacionComprobante)}
+        >
+          {situacionesComprobante.map(s => (
+            <option key={s.codigo} value={s.codigo}>{s.codigo} - {s.descripcion}</option>
+          ))}
+        </select>
+      </div>
+
+      {!online && situacion === '1' && (
+        <div className="flex items-center p-2 rounded-md bg-yellow-500/20 text-yellow-300 text-sm">
+          <WifiOff className="w-4 h-4 mr-2" />
+          No hay conexión a internet. Cambie a "Sin internet" para emitir y enviar después.
+        </div>
+      )}
+
+      {situacion === '2' && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="form-label">Número del comprobante provisional</label>
+            <input
+              type="text"
+              className="form-input"
+              maxLength={50}
+              value={provisional.numero}
+              onChange={(e) => onProvisionalChange({ ...provisional, numero: e.target.value })}
+              placeholder="Número impreso en el comprobante en papel"
+            />
+          </div>
+          <div>
+            <label className="form-label">Fecha del comprobante provisional</label>
+            <input
+              type="datetime-local"
+              className="form-input"
+              value={provisional.fechaEmision}
+              onChange={(e) => onProvisionalChange({ ...provisional, fechaEmision: e.target.value })}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+import { useState } from 'react';
+import { AlertTriangle, CheckCircle, ShieldCheck, Loader2, X } from 'lucide-react';
+import { AutorizacionCredito, EvaluacionCredito } from '../services/creditControlService';
+import { supabaseAuthService } from '../services/supabaseAuthService';
+import { supabaseCreditOverrideService } from '../services/supabaseCreditOverrideService';
+
+export interface CreditCheckPanelProps {
+  cliente: { id?: string; name: string; identification_number: string };
+  evaluacion: EvaluacionCredito;
+  autorizacion: AutorizacionCredito | null;
+  onAutorizar: (autorizacion: AutorizacionCredito) => void;
+  companyId: string;
+}
+
+const formatColones = (monto: number) =>
+  `₡${monto.toLocaleString('es-CR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export default function CreditCheckPanel({
+  cliente,
+  evaluacion,
+  autorizacion,
+  onAutorizar,
+  companyId
+}: CreditCheckPanelProps) {
+  const [modalAbierto, setModalAbierto] = useState(false);
+  const [usuario, setUsuario] = useState('');
+  const [contrasena, setContrasena] = useState('');
+  const [notas, setNotas] = useState('');
+  const [verificando, setVerificando] = useState(false);
+  const [error, setError] = useState('');
+
+  const autorizada = !!autorizacion && autorizacion.clienteId === cliente.identification_number;
+  const colores = evaluacion.estado === 'bloqueado' && !autorizada
+    ? 'border-red-500/50'
+    : evaluacion.estado === 'aprobado' ? '' : 'border-yellow-500/50';
+
+  // Verificar al supervisor y registrar la autorización antes de habilitar la emisión
+  const autorizar = async () => {
+    setVerificando(true);
+    setError('');
+    try {
+      const verificacion = await supabaseAuthService.verifySupervisor(usuario, contrasena);
+      if (!verificacion.success || !verificacion.user) {
+        throw new Error(verificacion.error || 'No se pudo verificar al supervisor');
+      }
+
+      const registro = await supabaseCreditOverrideService.logOverride({
+        client_id: cliente.id || undefined,
+        client_identification: cliente.identification_number,
+        invoice_total: evaluacion.montoFactura,
+        outstanding_balance: evaluacion.saldoPendiente,
+        credit_limit: evaluacion.limite ?? null,
+        reasons: evaluacion.motivos.join('; '),
+        supervisor_id: verificacion.user.id,
+        supervisor_username: verificacion.user.username,
+        requested_by: supabaseAuthService.getCurrentUser()?.username,
+        notes: notas || undefined
+      }, companyId);
+      if (!registro.success) {
+        throw new Error(`No se pudo registrar la autorización: ${registro.error}`);
+      }
+
+      onAutorizar({
+        clienteId: cliente.identification_number,
+        montoAutorizado: evaluacion.montoFactura,
+        supervisor: verificacion.user.username
+      });
+      setModalAbierto(false);
+      setContrasena('');
+      setNotas('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al autorizar la venta');
+    } finally {
+      setVerificando(false);
+    }
+  };
+
+  return (
+    <div className={`glass-card p-4 space-y-3 border ${colores}`}>
+      <div className="flex items-center">
+        {evaluacion.estado === 'aprobado' ? (
+          <CheckCircle className="w-5 h-5 mr-2 text-green-400" />
+        ) : (
+          <AlertTriangle className={`w-5 h-5 mr-2 ${evaluacion.estado === 'bloqueado' ? 'text-red-400' : 'text-yellow-400'}`} />
+        )}
+        <h3 className="font-medium">Crédito de {cliente.name}</h3>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+        <div>
+          <div className="text-xs text-gray-400">Saldo pendiente</div>
+          <div>{formatColones(evaluacion.saldoPendiente)}</div>
+        </div>
+        <div>
+          <div className="text-xs text-gray-400">Saldo vencido</div>
+          <div className={evaluacion.saldoVencido > 0 ? 'text-red-300' : ''}>{formatColones(evaluacion.saldoVencido)}</div>
+        </div>
+        <div>
+          <div className="text-xs text-gray-400">Límite</div>
+          <div>{evaluacion.limite !== undefined ? formatColones(evaluacion.limite) : 'Sin límite'}</div>
+        </div>
+        <div>
+          <div className="text-xs text-gray-400">Disponible</div>
+          <div>{evaluacion.disponible !== undefined ? formatColones(evaluacion.disponible) : '-'}</div>
+        </div>
+      </div>
+
+      {evaluacion.motivos.length > 0 && (
+        <ul className="text-sm space-y-1">
+          {evaluacion.motivos.map(motivo => (
+            <li key={motivo} className={evaluacion.estado === 'bloqueado' ? 'text-red-300' : 'text-yellow-300'}>
+              {motivo}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {autorizada ? (
+        <div className="flex items-center p-2 rounded-md bg-green-500/20 text-green-300 text-sm">
+          <ShieldCheck className="w-4 h-4 mr-2" />
+          Venta autorizada por {autorizacion?.supervisor} hasta {formatColones(autorizacion?.montoAutorizado || 0)}
+        </div>
+      ) : evaluacion.estado === 'bloqueado' && (
+        evaluacion.montoFactura > 0 ? (
+          <button type="button" className="btn-primary flex items-center text-sm" onClick={() => setModalAbierto(true)}>
+            <ShieldCheck className="w-4 h-4 mr-1" />
+            Solicitar autorización de supervisor
+          </button>
+        ) : (
+          <p className="text-xs text-gray-400">
+            La factura no se emitirá sin la autorización de un supervisor, que se solicita al generarla.
+          </p>
+        )
+      )}
+
+      {modalAbierto && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-4">
+          <div className="glass-card max-w-md w-full p-6 space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-semibold">Autorización de supervisor</h3>
+              <button type="button" className="btn-ghost p-1" onClick={() => setModalAbierto(false)}>
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+            <p className="text-sm text-gray-300">
+              Factura por {formatColones(evaluacion.montoFactura)} a {cliente.name}. La autorización queda registrada.
+            </p>
+            <div>
+              <label className="form-label">Usuario del supervisor</label>
+              <input className="form-input" value={usuario} onChange={(e) => setUsuario(e.target.value)} autoComplete="off" />
+            </div>
+            <div>
+              <label className="form-label">Contraseña</label>
+              <input type="password" className="form-input" value={contrasena} onChange={(e) => setContrasena(e.target.value)} autoComplete="off" />
+            </div>
+            <div>
+              <label className="form-label">Justificación</label>
+              <textarea className="form-input" rows={2} value={notas} onChange={(e) => setNotas(e.target.value)} />
+            </div>
+            {error && <p className="form-error">{error}</p>}
+            <div className="flex justify-end space-x-2">
+              <button type="button" className="btn-ghost" onClick={() => setModalAbierto(false)}>Cancelar</button>
+              <button
+                type="button"
+                className="btn-primary flex items-center"
+                onClick={autorizar}
+                disabled={verificando || !usuario || !contrasena}
+              >
+                {verificando && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+                Autorizar
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
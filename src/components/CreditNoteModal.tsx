@@ -0,0 +1,281 @@
+import { useState, useMemo } from 'react';
+import { X, FileMinus } from 'lucide-react';
+import { StoredInvoice } from '../hooks/useInvoiceHistory';
+import { useUserSettings } from '../hooks/useUserSettings';
+import { Party, codigosReferencia } from '../types/invoice';
+import {
+  buildCreditNote,
+  buildEmisorFromSettings,
+  getCantidadesAcreditadas,
+  toStoredCreditNote
+} from '../services/creditNoteService';
+import { generateSequence, getDraftSequence } from '../services/sequenceService';
+import { getPuntoVenta } from '../services/branchService';
+import { generateCreditNoteXML, downloadXML } from '../services/xmlService';
+import { validateComprobanteXml, formatXsdErrors } from '../services/xsdValidationService';
+import { signXml, loadSignatureKeys } from '../services/signatureService';
+import { sendXMLToHacienda } from '../services/haciendaApiService';
+import { generatePDF, downloadPDF } from '../services/pdfService';
+
+export interface CreditNoteModalProps {
+  invoice: StoredInvoice;
+  invoices: StoredInvoice[];
+  onClose: () => void;
+  onCreated: (creditNote: StoredInvoice) => void;
+  onReceived: (creditNote: StoredInvoice) => void;
+}
+
+// Códigos de referencia aplicables a una nota de crédito
+const CODIGOS_NOTA_CREDITO = ['01', '02', '03', '06', '09', '99'];
+
+export default function CreditNoteModal({ invoice, invoices, onClose, onCreated, onReceived }: CreditNoteModalProps) {
+  const { settings } = useUserSettings();
+
+  // Cantidades ya acreditadas por notas de crédito anteriores
+  const acreditadas = useMemo(() => getCantidadesAcreditadas(invoice, invoices), [invoice, invoices]);
+  const disponibles = invoice.detalleServicio.map((linea, index) =>
+    Math.max(0, linea.cantidad - (acreditadas[index] || 0))
+  );
+  const tieneNotasPrevias = Object.keys(acreditadas).length > 0;
+
+  const [cantidades, setCantidades] = useState<number[]>(disponibles);
+  const [codigoReferencia, setCodigoReferencia] = useState(tieneNotasPrevias ? '03' : '01');
+  const [razon, setRazon] = useState('');
+  const [receptor, setReceptor] = useState<Party>(invoice.receptor || {
+    nombre: invoice.client,
+    identificacion: { tipo: '01', numero: '' }
+  });
+  const [message, setMessage] = useState('');
+  const [processing, setProcessing] = useState(false);
+
+  const moneda = invoice.moneda || 'CRC';
+  const montoAcreditado = invoice.detalleServicio.reduce((sum, linea, index) => {
+    const precioNeto = linea.cantidad > 0 ? linea.subtotal / linea.cantidad : linea.precioUnitario;
+    return sum + (cantidades[index] || 0) * precioNeto;
+  }, 0);
+
+  const handleCodigoChange = (codigo: string) => {
+    setCodigoReferencia(codigo);
+    // La anulación siempre revierte el documento completo
+    if (codigo === '01') {
+      setCantidades(invoice.detalleServicio.map(linea => linea.cantidad));
+    }
+  };
+
+  const handleCantidadChange = (index: number, value: string) => {
+    const cantidad = Math.min(Math.max(0, parseFloat(value) || 0), disponibles[index]);
+    setCantidades(prev => prev.map((c, i) => (i === index ? cantidad : c)));
+  };
+
+  const handleSubmit = async () => {
+    if (!settings) {
+      setMessage('Error: no se encontró la configuración de la empresa');
+      return;
+    }
+
+    setProcessing(true);
+    setMessage('');
+
+    try {
+      const emisor = buildEmisorFromSettings(settings);
+      const companyId = localStorage.getItem('selected_company') || 'innova';
+
+      // La nota de crédito usa su propia serie de consecutivos (03)
+      const { terminal, sucursal } = getPuntoVenta(companyId);
+
+      // Validar el borrador contra el esquema antes de consumir un consecutivo
+      const lineas = cantidades.map((cantidad, index) => ({ index, cantidad }));
+      const borrador = buildCreditNote({
+        original: invoice,
+        emisor,
+        receptor,
+        lineas,
+        codigoReferencia,
+        razon,
+        sequence: getDraftSequence(emisor.identificacion.numero, '03', terminal, sucursal)
+      });
+      const validacion = validateComprobanteXml(generateCreditNoteXML(borrador));
+      if (!validacion.valid) {
+        throw new Error(`El XML no cumple el esquema v4.4 de Hacienda:\n${formatXsdErrors(validacion.errors)}`);
+      }
+      const keys = await loadSignatureKeys(companyId);
+
+      const sequence = await generateSequence(companyId, emisor.identificacion.numero, '03', terminal, sucursal);
+
+      const creditNote = buildCreditNote({
+        original: invoice,
+        emisor,
+        receptor,
+        lineas,
+        codigoReferencia,
+        razon,
+        sequence
+      });
+
+      const xmlFirmado = await signXml(generateCreditNoteXML(creditNote), keys);
+      downloadXML(xmlFirmado, creditNote.numeroConsecutivo);
+      downloadPDF(generatePDF(creditNote), creditNote.numeroConsecutivo);
+
+      // El consecutivo ya se usó: la nota se guarda aunque Hacienda no la reciba
+      const storedNote = toStoredCreditNote(creditNote, invoice, xmlFirmado);
+      const envio = await sendXMLToHacienda(creditNote, xmlFirmado, undefined, storedNote.id);
+      onCreated(storedNote);
+      if (envio.success) {
+        // Consultar en segundo plano si Hacienda aceptó o rechazó la nota
+        onReceived(storedNote);
+      } else if (envio.encolado) {
+        alert('Hacienda no está disponible. La nota de crédito quedó en la cola de envíos y se reintentará automáticamente.');
+      } else {
+        alert(`Hacienda no recibió la nota de crédito ${storedNote.numeroConsecutivo}: ${envio.errorCause || envio.error || 'Error desconocido'}`);
+      }
+      onClose();
+    } catch (error) {
+      console.error('Error al generar la nota de crédito:', error);
+      setMessage(`Error: ${error instanceof Error ? error.message : 'Error desconocido'}`);
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4">
+      <div className="glass-card w-full max-w-4xl max-h-[90vh] overflow-y-auto p-0">
+        <div className="p-4 border-b border-gray-700 flex items-center justify-between">
+          <h2 className="text-xl font-semibold flex items-center">
+            <FileMinus className="w-5 h-5 mr-2 text-orange-400" />
+            Nota de Crédito sobre {invoice.id}
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-1.5 bg-red-500/20 text-red-400 rounded-md hover:bg-red-500/40 transition-colors"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {message && (
+            <div className="p-3 rounded-md bg-red-500/20 text-red-300 whitespace-pre-line">
+              {message}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="form-label">Código de referencia</label>
+              <select
+                className="form-select"
+                value={codigoReferencia}
+                onChange={(e) => handleCodigoChange(e.target.value)}
+              >
+                {codigosReferencia
+                  .filter(c => CODIGOS_NOTA_CREDITO.includes(c.codigo))
+                  .map(c => (
+                    <option key={c.codigo} value={c.codigo} disabled={c.codigo === '01' && tieneNotasPrevias}>
+                      {c.codigo} - {c.descripcion}
+                    </option>
+                  ))}
+              </select>
+            </div>
+            <div>
+              <label className="form-label">Razón</label>
+              <input
+                type="text"
+                className="form-input"
+                maxLength={180}
+                value={razon}
+                onChange={(e) => setRazon(e.target.value)}
+                placeholder="Motivo de la nota de crédito"
+              />
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-lg font-medium mb-2">Receptor</h3>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="form-label">Nombre</label>
+                <input
+                  type="text"
+                  className="form-input"
+                  value={receptor.nombre}
+                  onChange={(e) => setReceptor({ ...receptor, nombre: e.target.value })}
+                />
+              </div>
+              <div>
+                <label className="form-label">Tipo de identificación</label>
+                <select
+                  className="form-select"
+                  value={receptor.identificacion.tipo}
+                  onChange={(e) => setReceptor({ ...receptor, identificacion: { ...receptor.identificacion, tipo: e.target.value } })}
+                >
+                  <option value="01">Física</option>
+                  <option value="02">Jurídica</option>
+                  <option value="03">DIMEX</option>
+                  <option value="04">NITE</option>
+                </select>
+              </div>
+              <div>
+                <label className="form-label">Número de identificación</label>
+                <input
+                  type="text"
+                  className="form-input"
+                  value={receptor.identificacion.numero}
+                  onChange={(e) => setReceptor({ ...receptor, identificacion: { ...receptor.identificacion, numero: e.target.value } })}
+                />
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-lg font-medium mb-2">Líneas a acreditar</h3>
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-gray-700">
+                  <th className="table-header">Detalle</th>
+                  <th className="table-header">Facturado</th>
+                  <th className="table-header">Acreditado</th>
+                  <th className="table-header">Cantidad a acreditar</th>
+                </tr>
+              </thead>
+              <tbody>
+                {invoice.detalleServicio.map((linea, index) => (
+                  <tr key={index} className="table-row">
+                    <td className="table-cell">{linea.detalle}</td>
+                    <td className="table-cell">{linea.cantidad}</td>
+                    <td className="table-cell">{acreditadas[index] || 0}</td>
+                    <td className="table-cell">
+                      <input
+                        type="number"
+                        className="form-input w-28"
+                        min={0}
+                        max={disponibles[index]}
+                        step="any"
+                        value={cantidades[index]}
+                        disabled={codigoReferencia === '01' || disponibles[index] === 0}
+                        onChange={(e) => handleCantidadChange(index, e.target.value)}
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="text-right mt-3 text-gray-300">
+              Subtotal a acreditar: <span className="font-semibold">{moneda} {montoAcreditado.toLocaleString('es-CR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+            </p>
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-gray-700 flex justify-end space-x-3">
+          <button className="btn-ghost" onClick={onClose} disabled={processing}>
+            Cancelar
+          </button>
+          <button className="btn-primary flex items-center" onClick={handleSubmit} disabled={processing}>
+            <FileMinus className="w-4 h-4 mr-2" />
+            {processing ? 'Generando...' : 'Generar Nota de Crédito'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
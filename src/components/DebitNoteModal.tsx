@@ -0,0 +1,286 @@
+import { useState } from 'react';
+import { X, FilePlus, Plus, Trash } from 'lucide-react';
+import { StoredInvoice } from '../hooks/useInvoiceHistory';
+import { useUserSettings } from '../hooks/useUserSettings';
+import { OtrosCargos, Party, codigosReferencia, tiposCargos } from '../types/invoice';
+import { buildEmisorFromSettings } from '../services/creditNoteService';
+import { buildDebitNote, toStoredDebitNote } from '../services/debitNoteService';
+import { generateSequence, getDraftSequence } from '../services/sequenceService';
+import { getPuntoVenta } from '../services/branchService';
+import { generateDebitNoteXML, downloadXML } from '../services/xmlService';
+import { validateComprobanteXml, formatXsdErrors } from '../services/xsdValidationService';
+import { signXml, loadSignatureKeys } from '../services/signatureService';
+import { sendXMLToHacienda } from '../services/haciendaApiService';
+import { generatePDF, downloadPDF } from '../services/pdfService';
+
+export interface DebitNoteModalProps {
+  invoice: StoredInvoice;
+  onClose: () => void;
+  onCreated: (debitNote: StoredInvoice) => void;
+  onReceived: (debitNote: StoredInvoice) => void;
+}
+
+// Códigos de referencia aplicables a una nota de débito
+const CODIGOS_NOTA_DEBITO = ['03', '04', '10', '99'];
+
+export default function DebitNoteModal({ invoice, onClose, onCreated, onReceived }: DebitNoteModalProps) {
+  const { settings } = useUserSettings();
+
+  const [codigoReferencia, setCodigoReferencia] = useState('10');
+  const [razon, setRazon] = useState('');
+  const [plazoCredito, setPlazoCredito] = useState<number>(parseInt(invoice.plazoCredito || '') || 30);
+  const [cargos, setCargos] = useState<OtrosCargos[]>([
+    { tipoCargo: '10', descripcionCargo: 'Intereses moratorios', montoCargo: 0 }
+  ]);
+  const [ajustes, setAjustes] = useState<number[]>(invoice.detalleServicio.map(() => 0));
+  const [receptor] = useState<Party>(invoice.receptor || {
+    nombre: invoice.client,
+    identificacion: { tipo: '01', numero: '' }
+  });
+  const [message, setMessage] = useState('');
+  const [processing, setProcessing] = useState(false);
+
+  const moneda = invoice.moneda || 'CRC';
+  const totalCargos = cargos.reduce((sum, cargo) => sum + (cargo.montoCargo || 0), 0);
+  const totalAjustes = invoice.detalleServicio.reduce((sum, linea, index) => sum + linea.cantidad * (ajustes[index] || 0), 0);
+
+  const updateCargo = (index: number, cambios: Partial<OtrosCargos>) => {
+    setCargos(prev => prev.map((cargo, i) => (i === index ? { ...cargo, ...cambios } : cargo)));
+  };
+
+  const handleSubmit = async () => {
+    if (!settings) {
+      setMessage('Error: no se encontró la configuración de la empresa');
+      return;
+    }
+
+    setProcessing(true);
+    setMessage('');
+
+    try {
+      const emisor = buildEmisorFromSettings(settings);
+      const companyId = localStorage.getItem('selected_company') || 'innova';
+      const options = {
+        original: invoice,
+        emisor,
+        receptor,
+        ajustes: invoice.detalleServicio.map((linea, index) => ({
+          index,
+          cantidad: linea.cantidad,
+          montoUnitario: ajustes[index] || 0
+        })),
+        cargos,
+        codigoReferencia,
+        razon,
+        plazoCredito
+      };
+
+      // La nota de débito usa su propia serie de consecutivos (02)
+      const { terminal, sucursal } = getPuntoVenta(companyId);
+
+      // Validar el borrador contra el esquema antes de consumir un consecutivo
+      const borrador = buildDebitNote({ ...options, sequence: getDraftSequence(emisor.identificacion.numero, '02', terminal, sucursal) });
+      const validacion = validateComprobanteXml(generateDebitNoteXML(borrador));
+      if (!validacion.valid) {
+        throw new Error(`El XML no cumple el esquema v4.4 de Hacienda:\n${formatXsdErrors(validacion.errors)}`);
+      }
+      const keys = await loadSignatureKeys(companyId);
+
+      const sequence = await generateSequence(companyId, emisor.identificacion.numero, '02', terminal, sucursal);
+      const debitNote = buildDebitNote({ ...options, sequence });
+
+      const xmlFirmado = await signXml(generateDebitNoteXML(debitNote), keys);
+      downloadXML(xmlFirmado, debitNote.numeroConsecutivo);
+      downloadPDF(generatePDF(debitNote), debitNote.numeroConsecutivo);
+
+      // El consecutivo ya se usó: la nota se guarda aunque Hacienda no la reciba
+      const storedNote = toStoredDebitNote(debitNote, invoice, xmlFirmado);
+      const envio = await sendXMLToHacienda(debitNote, xmlFirmado, undefined, storedNote.id);
+      onCreated(storedNote);
+      if (envio.success) {
+        // Consultar en segundo plano si Hacienda aceptó o rechazó la nota
+        onReceived(storedNote);
+      } else if (envio.encolado) {
+        alert('Hacienda no está disponible. La nota de débito quedó en la cola de envíos y se reintentará automáticamente.');
+      } else {
+        alert(`Hacienda no recibió la nota de débito ${storedNote.numeroConsecutivo}: ${envio.errorCause || envio.error || 'Error desconocido'}`);
+      }
+      onClose();
+    } catch (error) {
+      console.error('Error al generar la nota de débito:', error);
+      setMessage(`Error: ${error instanceof Error ? error.message : 'Error desconocido'}`);
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4">
+      <div className="glass-card w-full max-w-4xl max-h-[90vh] overflow-y-auto p-0">
+        <div className="p-4 border-b border-gray-700 flex items-center justify-between">
+          <h2 className="text-xl font-semibold flex items-center">
+            <FilePlus className="w-5 h-5 mr-2 text-yellow-400" />
+            Nota de Débito sobre {invoice.id}
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-1.5 bg-red-500/20 text-red-400 rounded-md hover:bg-red-500/40 transition-colors"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {message && (
+            <div className="p-3 rounded-md bg-red-500/20 text-red-300 whitespace-pre-line">
+              {message}
+            </div>
+          )}
+
+          <div className="space-y-1">
+            <p><span className="text-gray-400">Cliente:</span> {receptor.nombre}</p>
+            <p className="break-all"><span className="text-gray-400">Clave de referencia:</span> {invoice.claveNumerica}</p>
+            <p><span className="text-gray-400">Fecha del documento:</span> {new Date(invoice.date).toLocaleDateString()}</p>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="form-label">Código de referencia</label>
+              <select
+                className="form-select"
+                value={codigoReferencia}
+                onChange={(e) => setCodigoReferencia(e.target.value)}
+              >
+                {codigosReferencia
+                  .filter(c => CODIGOS_NOTA_DEBITO.includes(c.codigo))
+                  .map(c => (
+                    <option key={c.codigo} value={c.codigo}>{c.codigo} - {c.descripcion}</option>
+                  ))}
+              </select>
+            </div>
+            <div>
+              <label className="form-label">Razón</label>
+              <input
+                type="text"
+                className="form-input"
+                maxLength={180}
+                value={razon}
+                onChange={(e) => setRazon(e.target.value)}
+                placeholder="Motivo de la nota de débito"
+              />
+            </div>
+            <div>
+              <label className="form-label">Plazo de crédito (días)</label>
+              <input
+                type="number"
+                className="form-input"
+                min={1}
+                value={plazoCredito}
+                onChange={(e) => setPlazoCredito(parseInt(e.target.value) || 0)}
+              />
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-lg font-medium">Otros cargos</h3>
+              <button
+                className="btn-ghost flex items-center text-sm"
+                onClick={() => setCargos(prev => [...prev, { tipoCargo: '09', descripcionCargo: '', montoCargo: 0 }])}
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Agregar cargo
+              </button>
+            </div>
+            <div className="space-y-2">
+              {cargos.map((cargo, index) => (
+                <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                  <select
+                    className="form-select col-span-4"
+                    value={cargo.tipoCargo}
+                    onChange={(e) => updateCargo(index, { tipoCargo: e.target.value })}
+                  >
+                    {tiposCargos.map(tipo => (
+                      <option key={tipo.codigo} value={tipo.codigo}>{tipo.codigo} - {tipo.descripcion}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="text"
+                    className="form-input col-span-4"
+                    value={cargo.descripcionCargo || ''}
+                    onChange={(e) => updateCargo(index, { descripcionCargo: e.target.value })}
+                    placeholder="Detalle"
+                  />
+                  <input
+                    type="number"
+                    className="form-input col-span-3"
+                    min={0}
+                    step="any"
+                    value={cargo.montoCargo}
+                    onChange={(e) => updateCargo(index, { montoCargo: parseFloat(e.target.value) || 0 })}
+                  />
+                  <button
+                    className="p-1.5 rounded-md bg-red-500/20 text-red-400 hover:bg-red-500/40 transition-colors col-span-1 justify-self-center"
+                    title="Eliminar cargo"
+                    onClick={() => setCargos(prev => prev.filter((_, i) => i !== index))}
+                  >
+                    <Trash className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-lg font-medium mb-2">Ajustes de precio</h3>
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-gray-700">
+                  <th className="table-header">Detalle</th>
+                  <th className="table-header">Cantidad</th>
+                  <th className="table-header">Precio original</th>
+                  <th className="table-header">Aumento por unidad</th>
+                </tr>
+              </thead>
+              <tbody>
+                {invoice.detalleServicio.map((linea, index) => (
+                  <tr key={index} className="table-row">
+                    <td className="table-cell">{linea.detalle}</td>
+                    <td className="table-cell">{linea.cantidad}</td>
+                    <td className="table-cell">{linea.precioUnitario.toLocaleString('es-CR', { minimumFractionDigits: 2 })}</td>
+                    <td className="table-cell">
+                      <input
+                        type="number"
+                        className="form-input w-32"
+                        min={0}
+                        step="any"
+                        value={ajustes[index]}
+                        onChange={(e) => {
+                          const valor = Math.max(0, parseFloat(e.target.value) || 0);
+                          setAjustes(prev => prev.map((a, i) => (i === index ? valor : a)));
+                        }}
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="text-right mt-3 text-gray-300">
+              Total a cobrar (antes de IVA): <span className="font-semibold">{moneda} {(totalCargos + totalAjustes).toLocaleString('es-CR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+            </p>
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-gray-700 flex justify-end space-x-3">
+          <button className="btn-ghost" onClick={onClose} disabled={processing}>
+            Cancelar
+          </button>
+          <button className="btn-primary flex items-center" onClick={handleSubmit} disabled={processing}>
+            <FilePlus className="w-4 h-4 mr-2" />
+            {processing ? 'Generando...' : 'Generar Nota de Débito'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+import { RefObject, useState } from 'react';
+import { ScanBarcode } from 'lucide-react';
+
+export interface FastCheckoutLine {
+  detalle: string;
+  cantidad: number;
+  precioUnitario: number;
+  descuento?: { montoDescuento: number };
+}
+
+export interface FastCheckoutPanelProps {
+  inputRef: RefObject<HTMLInputElement>;
+  lineas: FastCheckoutLine[];
+  lineaSeleccionada: number;
+  onSeleccionar: (index: number) => void;
+  onScan: (entrada: string) => void;
+  total: number;
+  moneda: string;
+  multiplicador: number | null;
+  onLimpiar: () => void;
+  mensaje: { texto: string; error?: boolean } | null;
+}
+
+// Atajos de la caja rápida; las teclas de función se atienden en TiqueteCreate
+const ATAJOS = [
+  ['F2', 'Escanear'],
+  ['↑ ↓', 'Seleccionar línea'],
+  ['F4', 'Descuento'],
+  ['F8', 'Anular línea'],
+  ['F9', 'Cobrar'],
+  ['F10', 'Emitir'],
+  ['Esc', 'Limpiar'],
+];
+
+export default function FastCheckoutPanel({
+  inputRef,
+  lineas,
+  lineaSeleccionada,
+  onSeleccionar,
+  onScan,
+  total,
+  moneda,
+  multiplicador,
+  onLimpiar,
+  mensaje,
+}: FastCheckoutPanelProps) {
+  const [entrada, setEntrada] = useState('');
+
+  const formatMonto = (monto: number) =>
+    monto.toLocaleString('es-CR', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      // Evitar que el Enter del lector envíe el formulario del tiquete
+      e.preventDefault();
+      onScan(entrada);
+      setEntrada('');
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      setEntrada('');
+      onLimpiar();
+    } else if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+      e.preventDefault();
+      if (lineas.length === 0) return;
+      const siguiente = lineaSeleccionada + (e.key === 'ArrowUp' ? -1 : 1);
+      onSeleccionar(Math.min(Math.max(siguiente, 0), lineas.length - 1));
+    }
+  };
+
+  return (
+    <div className="glass-card p-4 grid grid-cols-1 lg:grid-cols-3 gap-4">
+      <div className="lg:col-span-2 space-y-3">
+        <div className="flex items-center">
+          <ScanBarcode className="w-6 h-6 mr-2 text-primary-400" />
+          <input
+            ref={inputRef}
+            className="form-input text-lg"
+            value={entrada}
+            onChange={(e) => setEntrada(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Escanee o digite el código (3* para multiplicar)"
+            autoFocus
+          />
+          {multiplicador !== null && (
+            <span className="ml-2 px-2 py-1 rounded bg-primary-500/30 text-primary-200 font-semibold">x{multiplicador}</span>
+          )}
+        </div>
+        {mensaje && (
+          <p className={`text-sm ${mensaje.error ? 'text-red-300' : 'text-green-300'}`}>{mensaje.texto}</p>
+        )}
+        <div className="max-h-64 overflow-y-auto">
+          <table className="w-full text-sm">
+            <tbody>
+              {lineas.map((linea, index) => (
+                <tr
+                  key={index}
+                  className={`border-t border-gray-700/50 cursor-pointer ${index === lineaSeleccionada ? 'bg-primary-500/20' : ''}`}
+                  onClick={() => onSeleccionar(index)}
+                >
+                  <td className="py-1">{linea.detalle}</td>
+                  <td className="py-1 text-right whitespace-nowrap">{linea.cantidad} x {formatMonto(linea.precioUnitario)}</td>
+                  <td className="py-1 text-right whitespace-nowrap">
+                    {formatMonto(linea.cantidad * linea.precioUnitario - (linea.descuento?.montoDescuento || 0))}
+                    {linea.descuento?.montoDescuento ? <span className="text-xs text-yellow-300 ml-1">(-{formatMonto(linea.descuento.montoDescuento)})</span> : null}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="flex flex-col justify-between">
+        <div className="text-right">
+          <div className="text-gray-400 text-sm">Total ({lineas.length} {lineas.length === 1 ? 'línea' : 'líneas'})</div>
+          <div className="text-5xl font-bold tabular-nums">{moneda} {formatMonto(total)}</div>
+        </div>
+        <div className="grid grid-cols-2 gap-1 text-xs text-gray-400 mt-4">
+          {ATAJOS.map(([tecla, accion]) => (
+            <div key={tecla}>
+              <kbd className="px-1 rounded bg-gray-700 text-gray-200 mr-1">{tecla}</kbd>
+              {accion}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { Menu, Search, Bell } from 'lucide-react';
+import { Menu, Search, Bell, Wifi, WifiOff, Store } from 'lucide-react';
 import { useState, useEffect } from 'react';
 // Optional: install framer-motion to enable animations
 // import { AnimatePresence } from 'framer-motion';
@@ -6,13 +6,17 @@ import UserMenu from './UserMenu';
 import ThemeToggle from './ThemeToggle';
 import { useUserSettings } from '../hooks/useUserSettings';
 import { useAuth } from '../hooks/useAuth';
+import { useOnlineStatus } from '../hooks/useOnlineStatus';
 import { envService } from '../services/envService';
+import { describirPuntoVenta, PuntoVenta } from '../services/branchService';
 
 interface HeaderProps {
   openSidebar: () => void;
+  puntoVenta: PuntoVenta;
+  onCambiarPuntoVenta: () => void;
 }
 
-const Header = ({ openSidebar }: HeaderProps) => {
+const Header = ({ openSidebar, puntoVenta, onCambiarPuntoVenta }: HeaderProps) => {
   const [userMenuOpen, setUserMenuOpen] = useState(false);
   const [companyInfo, setCompanyInfo] = useState({
     name: '',
@@ -22,6 +26,7 @@ const Header = ({ openSidebar }: HeaderProps) => {
   });
   const { settings } = useUserSettings();
   const { user } = useAuth();
+  const { online, pendientes, conflictos } = useOnlineStatus();
   
   // Efecto para obtener y actualizar la información de la empresa
   useEffect(() => {
@@ -72,6 +77,25 @@ const Header = ({ openSidebar }: HeaderProps) => {
       </div>
       
       <div className="flex items-center space-x-3">
+        {/* Sucursal y terminal con las que emite este dispositivo */}
+        <button
+          onClick={onCambiarPuntoVenta}
+          className="hidden sm:flex items-center px-3 py-1 rounded-full text-xs font-medium bg-primary-500/20 text-primary-400 hover:bg-primary-500/30 transition-colors"
+          title="Cambiar el punto de venta de este dispositivo"
+        >
+          <Store className="h-4 w-4 mr-1" />
+          {describirPuntoVenta(puntoVenta)}
+        </button>
+        {/* Indicador de conexión y de ventas pendientes de sincronizar */}
+        <div
+          className={`flex items-center px-3 py-1 rounded-full text-xs font-medium ${online ? 'bg-green-500/20 text-green-500' : 'bg-red-500/20 text-red-500'}`}
+          title={online ? 'Conectado a internet' : 'Sin conexión: las ventas se guardan en este dispositivo y se sincronizan al volver la conexión'}
+        >
+          {online ? <Wifi className="h-4 w-4 mr-1" /> : <WifiOff className="h-4 w-4 mr-1" />}
+          {online ? 'En línea' : 'Sin conexión'}
+          {pendientes > 0 && <span className="ml-2">· {pendientes} por sincronizar</span>}
+          {conflictos > 0 && <span className="ml-2 text-yellow-500">· {conflictos} en conflicto</span>}
+        </div>
         <ThemeToggle />
         <button className="p-2 rounded-full hover:bg-white/10 transition-colors relative">
           <Bell className="h-6 w-6 dark:text-white text-gray-800" />
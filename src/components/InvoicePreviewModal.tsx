@@ -2,6 +2,7 @@ import { X } from 'lucide-react';
 import React, { useEffect, useState } from 'react';
 import { Invoice } from '../types/invoice';
 import { getUserSecurityCode } from '../services/sequenceService';
+import { getTipoDocumento } from '../services/xmlService';
 
 interface InvoicePreviewModalProps {
   isOpen: boolean;
@@ -82,7 +83,7 @@ const InvoicePreviewModal = ({ isOpen, onClose, invoice, totals }: InvoicePrevie
   }, [invoice]);
 
   // Determinar si es factura o tiquete basado en el número consecutivo
-  const isTiquete = invoice.numeroConsecutivo?.startsWith('04');
+  const isTiquete = getTipoDocumento(invoice.numeroConsecutivo || '') === '04';
   const documentType = isTiquete ? 'Tiquete' : 'Factura';
   
   // Validar el formato del número consecutivo (debe tener 20 dígitos)
@@ -94,7 +95,7 @@ const InvoicePreviewModal = ({ isOpen, onClose, invoice, totals }: InvoicePrevie
       }
       
       // Verificar que el tipo de documento en el número consecutivo sea coherente
-      const tipoDocEnConsecutivo = invoice.numeroConsecutivo.substring(0, 2);
+      const tipoDocEnConsecutivo = getTipoDocumento(invoice.numeroConsecutivo);
       if ((isTiquete && tipoDocEnConsecutivo !== '04') || (!isTiquete && tipoDocEnConsecutivo !== '01')) {
         console.warn(`El tipo de documento en el consecutivo (${tipoDocEnConsecutivo}) no coincide con el tipo de documento esperado (${isTiquete ? '04' : '01'})`);
       }
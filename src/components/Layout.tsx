@@ -2,9 +2,18 @@ import { useState, useEffect } from 'react';
 import { Outlet } from 'react-router-dom';
 import Sidebar from './Sidebar';
 import Header from './Header';
+import PuntoVentaModal from './PuntoVentaModal';
+import { outboxService } from '../services/outboxService';
+import { syncService } from '../services/syncService';
+import { getPuntoVenta, requiereSeleccionPuntoVenta } from '../services/branchService';
 
 const Layout = () => {
   const [sidebarOpen, setSidebarOpen] = useState(false);
+  const companyId = localStorage.getItem('selected_company') || 'innova';
+  const [puntoVenta, setPuntoVentaActual] = useState(() => getPuntoVenta(companyId));
+  // Al iniciar sesión (o si el dispositivo no tiene terminal) se pide elegir el punto de venta
+  const [seleccionObligatoria, setSeleccionObligatoria] = useState(() => requiereSeleccionPuntoVenta(companyId));
+  const [selectorAbierto, setSelectorAbierto] = useState(seleccionObligatoria);
   
   // Verificar el tema al cargar el componente
   useEffect(() => {
@@ -18,12 +27,26 @@ const Layout = () => {
     }
   }, []);
 
+  // Reintentar en segundo plano los comprobantes que Hacienda no recibió
+  useEffect(() => {
+    return outboxService.startWorker();
+  }, []);
+
+  // Sincronizar con Supabase lo registrado sin conexión y mantener la caché local al día
+  useEffect(() => {
+    return syncService.startWorker();
+  }, []);
+
   return (
     <div className="flex h-screen overflow-hidden dark:bg-dark-500 bg-gray-50">
       <Sidebar isOpen={sidebarOpen} setIsOpen={setSidebarOpen} />
       
       <div className="flex flex-col flex-1 overflow-hidden">
-        <Header openSidebar={() => setSidebarOpen(true)} />
+        <Header
+          openSidebar={() => setSidebarOpen(true)}
+          puntoVenta={puntoVenta}
+          onCambiarPuntoVenta={() => setSelectorAbierto(true)}
+        />
         
         <main className="flex-1 overflow-y-auto p-4 md:p-6 dark:bg-dark-500 bg-gray-50">
           <div className="max-w-7xl mx-auto">
@@ -31,6 +54,19 @@ const Layout = () => {
           </div>
         </main>
       </div>
+
+      {selectorAbierto && (
+        <PuntoVentaModal
+          companyId={companyId}
+          obligatorio={seleccionObligatoria}
+          onConfirm={(seleccionado) => {
+            setPuntoVentaActual(seleccionado);
+            setSeleccionObligatoria(false);
+            setSelectorAbierto(false);
+          }}
+          onClose={() => setSelectorAbierto(false)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,99 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Monitor, Store } from 'lucide-react';
+import { FiltroPuntoVenta, getConsecutivoDocumento, parseConsecutivo, Sucursal, Terminal } from '../services/branchService';
+import { supabaseBranchService } from '../services/supabaseBranchService';
+
+interface PuntoVentaFilterProps {
+  value: FiltroPuntoVenta;
+  onChange: (filtro: FiltroPuntoVenta) => void;
+  // Documentos del reporte: se ofrecen también las sucursales y terminales que aparecen en ellos
+  documentos?: { id: string; numeroConsecutivo?: string; consecutive?: string }[];
+}
+
+/**
+ * Filtro de reportes por sucursal y terminal
+ */
+const PuntoVentaFilter = ({ value, onChange, documentos = [] }: PuntoVentaFilterProps) => {
+  const companyId = localStorage.getItem('selected_company') || 'innova';
+  const [sucursales, setSucursales] = useState<Sucursal[]>([]);
+  const [terminales, setTerminales] = useState<Terminal[]>([]);
+
+  useEffect(() => {
+    Promise.all([
+      supabaseBranchService.getBranches(companyId),
+      supabaseBranchService.getTerminals(companyId)
+    ]).then(([resultadoSucursales, resultadoTerminales]) => {
+      setSucursales(resultadoSucursales.data || []);
+      setTerminales(resultadoTerminales.data || []);
+    });
+  }, [companyId]);
+
+  // Códigos registrados más los que aparecen en los documentos (p. ej. emitidos antes de configurar sucursales)
+  const opciones = useMemo(() => {
+    const nombresSucursal = new Map(sucursales.map(s => [s.codigo, s.nombre]));
+    const puntos = terminales.map(t => ({
+      sucursal: sucursales.find(s => s.id === t.sucursalId)?.codigo || '',
+      terminal: t.codigo,
+      nombre: t.nombre
+    }));
+    documentos.forEach(doc => {
+      const partes = parseConsecutivo(getConsecutivoDocumento(doc));
+      if (partes && !puntos.some(p => p.sucursal === partes.sucursal && p.terminal === partes.terminal)) {
+        puntos.push({ sucursal: partes.sucursal, terminal: partes.terminal, nombre: '' });
+      }
+    });
+
+    const codigosSucursal = Array.from(new Set([...nombresSucursal.keys(), ...puntos.map(p => p.sucursal)]))
+      .filter(Boolean)
+      .sort();
+    const terminalesFiltradas = puntos.filter(p => !value.sucursal || p.sucursal === value.sucursal);
+    const codigosTerminal = Array.from(new Set(terminalesFiltradas.map(p => p.terminal))).sort();
+
+    return {
+      sucursales: codigosSucursal.map(codigo => ({ codigo, nombre: nombresSucursal.get(codigo) || '' })),
+      terminales: codigosTerminal.map(codigo => ({
+        codigo,
+        // El nombre solo es inequívoco con una sucursal elegida
+        nombre: value.sucursal ? terminalesFiltradas.find(p => p.terminal === codigo)?.nombre || '' : ''
+      }))
+    };
+  }, [sucursales, terminales, documentos, value.sucursal]);
+
+  return (
+    <>
+      <div className="relative">
+        <Store className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+        <select
+          className="form-select pl-10 min-w-32"
+          value={value.sucursal || ''}
+          onChange={(e) => onChange({ sucursal: e.target.value || undefined, terminal: undefined })}
+        >
+          <option value="">Todas las sucursales</option>
+          {opciones.sucursales.map(sucursal => (
+            <option key={sucursal.codigo} value={sucursal.codigo}>
+              {sucursal.codigo}{sucursal.nombre ? ` · ${sucursal.nombre}` : ''}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="relative">
+        <Monitor className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+        <select
+          className="form-select pl-10 min-w-32"
+          value={value.terminal || ''}
+          onChange={(e) => onChange({ ...value, terminal: e.target.value || undefined })}
+        >
+          <option value="">Todas las terminales</option>
+          {opciones.terminales.map(terminal => (
+            <option key={terminal.codigo} value={terminal.codigo}>
+              {terminal.codigo}{terminal.nombre ? ` · ${terminal.nombre}` : ''}
+            </option>
+          ))}
+        </select>
+      </div>
+    </>
+  );
+};
+
+export default PuntoVentaFilter;
@@ -0,0 +1,162 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Store, X } from 'lucide-react';
+import { getPuntoVenta, PuntoVenta, setPuntoVenta, Sucursal, Terminal } from '../services/branchService';
+import { supabaseBranchService } from '../services/supabaseBranchService';
+
+interface PuntoVentaModalProps {
+  companyId: string;
+  // Al iniciar sesión la terminal se debe confirmar antes de continuar
+  obligatorio?: boolean;
+  onConfirm: (puntoVenta: PuntoVenta) => void;
+  onClose: () => void;
+}
+
+/**
+ * Selección de la sucursal y terminal con las que emite este dispositivo
+ */
+const PuntoVentaModal = ({ companyId, obligatorio = false, onConfirm, onClose }: PuntoVentaModalProps) => {
+  const actual = getPuntoVenta(companyId);
+  const [sucursales, setSucursales] = useState<Sucursal[]>([]);
+  const [terminales, setTerminales] = useState<Terminal[]>([]);
+  const [sucursalId, setSucursalId] = useState('');
+  const [terminalId, setTerminalId] = useState('');
+  const [cargando, setCargando] = useState(true);
+  const [mensaje, setMensaje] = useState('');
+
+  useEffect(() => {
+    const cargar = async () => {
+      const [resultadoSucursales, resultadoTerminales] = await Promise.all([
+        supabaseBranchService.getBranches(companyId),
+        supabaseBranchService.getTerminals(companyId)
+      ]);
+      if (!resultadoSucursales.success || !resultadoTerminales.success) {
+        setMensaje('No se pudieron cargar las sucursales. Se mantiene el punto de venta guardado en este dispositivo.');
+      }
+      const activas = (resultadoSucursales.data || []).filter(s => s.activa);
+      const terminalesActivas = (resultadoTerminales.data || []).filter(t => t.activa);
+      setSucursales(activas);
+      setTerminales(terminalesActivas);
+
+      // Preseleccionar la terminal guardada en este dispositivo
+      const guardado = getPuntoVenta(companyId);
+      const sucursal = activas.find(s => s.codigo === guardado.sucursal) || activas[0];
+      const terminal = terminalesActivas.find(t => t.sucursalId === sucursal?.id && t.codigo === guardado.terminal)
+        || terminalesActivas.find(t => t.sucursalId === sucursal?.id);
+      setSucursalId(sucursal?.id || '');
+      setTerminalId(terminal?.id || '');
+      setCargando(false);
+    };
+    cargar();
+  }, [companyId]);
+
+  const terminalesSucursal = useMemo(
+    () => terminales.filter(t => t.sucursalId === sucursalId),
+    [terminales, sucursalId]
+  );
+
+  const handleSucursal = (id: string) => {
+    setSucursalId(id);
+    setTerminalId(terminales.find(t => t.sucursalId === id)?.id || '');
+  };
+
+  const handleConfirm = () => {
+    let puntoVenta: PuntoVenta = actual;
+    if (sucursales.length > 0) {
+      const sucursal = sucursales.find(s => s.id === sucursalId);
+      const terminal = terminalesSucursal.find(t => t.id === terminalId);
+      if (!sucursal || !terminal) {
+        setMensaje('Seleccione la sucursal y la terminal de este dispositivo');
+        return;
+      }
+      puntoVenta = {
+        sucursal: sucursal.codigo,
+        terminal: terminal.codigo,
+        sucursalNombre: sucursal.nombre,
+        terminalNombre: terminal.nombre,
+        ubicacion: {
+          provincia: sucursal.provincia,
+          canton: sucursal.canton,
+          distrito: sucursal.distrito,
+          barrio: sucursal.barrio,
+          otrasSenas: sucursal.otrasSenas
+        }
+      };
+    }
+    setPuntoVenta(companyId, puntoVenta);
+    onConfirm(puntoVenta);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4">
+      <div className="glass-card w-full max-w-md p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-semibold flex items-center">
+            <Store className="w-5 h-5 mr-2 text-primary-400" />
+            Punto de venta
+          </h2>
+          {!obligatorio && (
+            <button
+              onClick={onClose}
+              className="p-1.5 bg-red-500/20 text-red-400 rounded-md hover:bg-red-500/40 transition-colors"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+
+        <p className="text-sm text-gray-400">
+          Los comprobantes de este dispositivo llevan la sucursal y la terminal elegidas en su número consecutivo.
+        </p>
+
+        {cargando ? (
+          <p className="text-sm text-gray-400">Cargando sucursales...</p>
+        ) : sucursales.length === 0 ? (
+          <div className="text-sm bg-white/5 rounded-md p-3">
+            No hay sucursales configuradas. Se usa la sucursal {actual.sucursal}, terminal {actual.terminal}.
+            Puede registrarlas en Sucursales y Terminales.
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <div>
+              <label className="form-label" htmlFor="punto-venta-sucursal">Sucursal</label>
+              <select
+                id="punto-venta-sucursal"
+                className="form-select w-full"
+                value={sucursalId}
+                onChange={(e) => handleSucursal(e.target.value)}
+              >
+                {sucursales.map(sucursal => (
+                  <option key={sucursal.id} value={sucursal.id}>{sucursal.codigo} · {sucursal.nombre}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="form-label" htmlFor="punto-venta-terminal">Terminal</label>
+              <select
+                id="punto-venta-terminal"
+                className="form-select w-full"
+                value={terminalId}
+                onChange={(e) => setTerminalId(e.target.value)}
+              >
+                {terminalesSucursal.length === 0 && <option value="">Sin terminales activas</option>}
+                {terminalesSucursal.map(terminal => (
+                  <option key={terminal.id} value={terminal.id}>{terminal.codigo} · {terminal.nombre}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+        )}
+
+        {mensaje && <p className="text-sm text-yellow-400">{mensaje}</p>}
+
+        <div className="flex justify-end">
+          <button className="btn-primary" onClick={handleConfirm} disabled={cargando}>
+            Usar este punto de venta
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PuntoVentaModal;
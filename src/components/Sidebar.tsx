@@ -10,7 +10,16 @@ import {
   BarChart,
   LogOut,
   Package,
-  Database
+  Database,
+  Send,
+  Inbox,
+  Globe,
+  ShoppingCart,
+  Wallet,
+  Landmark,
+  Calculator,
+  Store,
+  ListChecks
 } from 'lucide-react';
 import logoSvg from '../assets/logo-cube.svg';
 
@@ -31,10 +40,19 @@ const Sidebar = ({ isOpen, setIsOpen }: SidebarProps) => {
     { path: '/', label: 'Dashboard', icon: <LayoutDashboard className="w-5 h-5" /> },
     { path: '/crear-factura', label: 'Crear Factura', icon: <FileText className="w-5 h-5" /> },
     { path: '/crear-tiquete', label: 'Crear Tiquete', icon: <FileText className="w-5 h-5" /> },
+    { path: '/factura-exportacion', label: 'Factura de Exportación', icon: <Globe className="w-5 h-5" /> },
     { path: '/historial', label: 'Historial', icon: <History className="w-5 h-5" /> },
     { path: '/clientes', label: 'Clientes', icon: <Users className="w-5 h-5" /> },
     { path: '/productos', label: 'Productos o Servicios', icon: <Package className="w-5 h-5" /> },
     { path: '/pagos', label: 'Pagos', icon: <CreditCard className="w-5 h-5" /> },
+    { path: '/cuentas-por-cobrar', label: 'Cuentas por Cobrar', icon: <Wallet className="w-5 h-5" /> },
+    { path: '/conciliacion-bancaria', label: 'Conciliación Bancaria', icon: <Landmark className="w-5 h-5" /> },
+    { path: '/caja', label: 'Caja', icon: <Calculator className="w-5 h-5" /> },
+    { path: '/sucursales', label: 'Sucursales y Terminales', icon: <Store className="w-5 h-5" /> },
+    { path: '/auditoria-consecutivos', label: 'Auditoría de Consecutivos', icon: <ListChecks className="w-5 h-5" /> },
+    { path: '/factura-compra', label: 'Factura de Compra', icon: <ShoppingCart className="w-5 h-5" /> },
+    { path: '/comprobantes-recibidos', label: 'Comprobantes Recibidos', icon: <Inbox className="w-5 h-5" /> },
+    { path: '/cola-envios', label: 'Cola de Envíos', icon: <Send className="w-5 h-5" /> },
     { path: '/reportes', label: 'Reportes', icon: <BarChart className="w-5 h-5" /> },
     { path: '/configuracion', label: 'Configuración', icon: <Settings className="w-5 h-5" /> },
     { path: '/admin/database', label: 'Admin. Base de Datos', icon: <Database className="w-5 h-5" /> },
@@ -0,0 +1,153 @@
+import { Plus, Trash2, Banknote } from 'lucide-react';
+import { MedioPagoDetalle } from '../types/invoice';
+import { MEDIOS_PAGO_CAJA, MAX_MEDIOS_PAGO, calcularMediosPago } from '../services/tenderService';
+
+export interface TenderPanelProps {
+  mediosPago: MedioPagoDetalle[];
+  onChange: (mediosPago: MedioPagoDetalle[]) => void;
+  total: number;
+  moneda: string;
+}
+
+export default function TenderPanel({ mediosPago, onChange, total, moneda }: TenderPanelProps) {
+  const resumen = calcularMediosPago(mediosPago, total);
+
+  const formatMonto = (monto: number) =>
+    `${moneda} ${monto.toLocaleString('es-CR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+  const actualizar = (index: number, cambios: Partial<MedioPagoDetalle>) =>
+    onChange(mediosPago.map((mp, i) => (i === index ? { ...mp, ...cambios } : mp)));
+
+  // Nuevo medio de pago con el monto que falta por cobrar
+  const agregar = () => {
+    const usados = mediosPago.map(mp => mp.medioPago);
+    const siguiente = MEDIOS_PAGO_CAJA.find(m => !usados.includes(m.codigo))?.codigo || '01';
+    onChange([...mediosPago, { medioPago: siguiente, monto: resumen.pendiente }]);
+  };
+
+  return (
+    <div className="p-4 glass-card space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold flex items-center">
+          <Banknote className="w-5 h-5 mr-2" />
+          Cobro
+        </h3>
+        <button
+          type="button"
+          className="btn-ghost flex items-center text-sm"
+          onClick={agregar}
+          disabled={resumen.medioPago.length >= MAX_MEDIOS_PAGO}
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Dividir pago
+        </button>
+      </div>
+
+      {mediosPago.map((mp, index) => {
+        const medio = MEDIOS_PAGO_CAJA.find(m => m.codigo === mp.medioPago);
+        return (
+          <div key={index} className="grid grid-cols-1 md:grid-cols-12 gap-2 items-end">
+            <div className="md:col-span-3">
+              <label className="form-label">Medio de pago</label>
+              <select
+                className="form-select"
+                value={mp.medioPago}
+                onChange={(e) => actualizar(index, { medioPago: e.target.value, referencia: undefined, autorizacion: undefined, ultimosDigitos: undefined })}
+              >
+                {MEDIOS_PAGO_CAJA.map(m => (
+                  <option key={m.codigo} value={m.codigo}>{m.descripcion}</option>
+                ))}
+              </select>
+            </div>
+            <div className="md:col-span-3">
+              <label className="form-label">{mp.medioPago === '01' ? 'Monto recibido' : 'Monto'}</label>
+              <div className="flex">
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  className="form-input"
+                  value={mp.monto || ''}
+                  onChange={(e) => actualizar(index, { monto: parseFloat(e.target.value) || 0 })}
+                />
+                <button
+                  type="button"
+                  className="btn-ghost text-xs ml-1 whitespace-nowrap"
+                  onClick={() => actualizar(index, { monto: (Number(mp.monto) || 0) + resumen.pendiente })}
+                  disabled={resumen.pendiente <= 0}
+                  title="Completar con el monto pendiente"
+                >
+                  Saldo
+                </button>
+              </div>
+            </div>
+            {medio?.requiereAutorizacion ? (
+              <>
+                <div className="md:col-span-3">
+                  <label className="form-label">Código de autorización</label>
+                  <input
+                    className="form-input"
+                    value={mp.autorizacion || ''}
+                    onChange={(e) => actualizar(index, { autorizacion: e.target.value })}
+                  />
+                </div>
+                <div className="md:col-span-2">
+                  <label className="form-label">Últimos 4 dígitos</label>
+                  <input
+                    className="form-input"
+                    maxLength={4}
+                    value={mp.ultimosDigitos || ''}
+                    onChange={(e) => actualizar(index, { ultimosDigitos: e.target.value.replace(/\D/g, '') })}
+                  />
+                </div>
+              </>
+            ) : mp.medioPago !== '01' ? (
+              <div className="md:col-span-5">
+                <label className="form-label">
+                  {mp.medioPago === '06' ? 'Número de referencia SINPE' : 'Referencia'}
+                </label>
+                <input
+                  className="form-input"
+                  value={mp.referencia || ''}
+                  onChange={(e) => actualizar(index, { referencia: e.target.value })}
+                />
+              </div>
+            ) : (
+              <div className="md:col-span-5" />
+            )}
+            <div className="md:col-span-1">
+              <button
+                type="button"
+                className="btn-ghost p-2"
+                onClick={() => onChange(mediosPago.filter((_, i) => i !== index))}
+                disabled={mediosPago.length === 1}
+                title="Quitar medio de pago"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        );
+      })}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm pt-2 border-t border-gray-700/50">
+        <div>
+          <div className="text-gray-400">Total</div>
+          <div className="font-semibold">{formatMonto(resumen.total)}</div>
+        </div>
+        <div>
+          <div className="text-gray-400">Recibido</div>
+          <div className="font-semibold">{formatMonto(resumen.recibido)}</div>
+        </div>
+        <div>
+          <div className="text-gray-400">Pendiente</div>
+          <div className={`font-semibold ${resumen.pendiente > 0 ? 'text-red-300' : ''}`}>{formatMonto(resumen.pendiente)}</div>
+        </div>
+        <div>
+          <div className="text-gray-400">Vuelto</div>
+          <div className="font-semibold text-green-300">{formatMonto(resumen.vuelto)}</div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import { useEffect, useState } from 'react';
+import { RefreshCw, X } from 'lucide-react';
+import { pwaService } from '../services/pwaService';
+
+// Aviso de versión nueva: se actualiza solo cuando el usuario lo decide, para no recargar a mitad de una venta
+export default function UpdatePrompt() {
+  const [disponible, setDisponible] = useState(false);
+  const [descartado, setDescartado] = useState(false);
+
+  useEffect(() => pwaService.onUpdateAvailable(setDisponible), []);
+
+  if (!disponible || descartado) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 glass-card p-4 shadow-lg max-w-sm flex items-start">
+      <RefreshCw className="w-5 h-5 mr-3 mt-0.5 text-primary-400 flex-shrink-0" />
+      <div className="flex-1">
+        <p className="font-medium">Hay una nueva versión disponible</p>
+        <p className="text-xs text-gray-400 mt-1">Termine la venta en curso antes de actualizar.</p>
+        <div className="flex gap-2 mt-3">
+          <button type="button" className="btn-primary text-sm py-1 px-3" onClick={() => pwaService.applyUpdate()}>
+            Actualizar
+          </button>
+          <button type="button" className="btn-ghost text-sm py-1 px-3" onClick={() => setDescartado(true)}>
+            Más tarde
+          </button>
+        </div>
+      </div>
+      <button type="button" className="ml-2 text-gray-400 hover:text-white" onClick={() => setDescartado(true)} aria-label="Cerrar">
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import { AlertTriangle, X } from 'lucide-react';
+import { XsdValidationError } from '../services/xsdValidationService';
+
+export interface XmlValidationErrorsProps {
+  errors: XsdValidationError[];
+  onClose: () => void;
+}
+
+export default function XmlValidationErrors({ errors, onClose }: XmlValidationErrorsProps) {
+  if (errors.length === 0) return null;
+
+  return (
+    <div className="glass-card p-4 space-y-3 border border-red-500/50">
+      <div className="flex items-start justify-between">
+        <div className="flex items-center">
+          <AlertTriangle className="w-5 h-5 mr-2 text-red-400" />
+          <div>
+            <h3 className="font-medium text-red-300">El comprobante no cumple el esquema v4.4 de Hacienda</h3>
+            <p className="text-xs text-gray-400">
+              No se envió ni se firmó. Corrija los datos indicados y vuelva a generar el comprobante.
+            </p>
+          </div>
+        </div>
+        <button type="button" className="btn-ghost p-1" onClick={onClose}>
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <ul className="space-y-1 max-h-64 overflow-y-auto text-sm">
+        {errors.map((error, index) => (
+          <li key={`${error.path}-${index}`} className="p-2 rounded-md bg-red-500/10">
+            <div className="font-mono text-xs text-red-300 break-all">{error.path}</div>
+            <div className="text-gray-200">{error.message}</div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { useNavigate } from 'react-router-dom';
 import { useUserSettings } from './useUserSettings';
 import { getAvailableCompanies, selectCompany, loadCompanyEnvironment } from '../services/companyService';
 import { envService } from '../services/envService';
+import { solicitarSeleccionPuntoVenta } from '../services/branchService';
 
 // Comprobar si estamos en modo migración o si debemos usar Supabase
 const isLocalMode = false; // Permitir conexión a Supabase para la migración
@@ -195,6 +196,9 @@ export function useAuth() {
             idNumber: foundCompany.idNumber
           });
           
+          // Confirmar la sucursal y terminal de este dispositivo al entrar
+          solicitarSeleccionPuntoVenta();
+          
           // Navegar al dashboard
           navigate('/dashboard');
           
@@ -17,6 +17,9 @@ interface Client {
   address: string | null;
   economic_activity_code: string | null;
   economic_activity_desc: string | null;
+  credit_limit?: number | null;
+  default_credit_days?: number | null;
+  credit_blocked?: boolean;
   created_at: string;
   updated_at?: string;
 }
@@ -62,6 +65,9 @@ export function useClients() {
         address: client.address || null,
         economic_activity_code: client.economic_activity_code || null,
         economic_activity_desc: client.economic_activity_desc || null,
+        credit_limit: client.credit_limit ?? null,
+        default_credit_days: client.default_credit_days ?? null,
+        credit_blocked: client.credit_blocked || false,
         created_at: client.created_at || new Date().toISOString()
       }));
       
@@ -96,6 +102,9 @@ export function useClients() {
         address: client.address || undefined,
         economic_activity_code: client.economic_activity_code || undefined,
         economic_activity_desc: client.economic_activity_desc || undefined,
+        credit_limit: client.credit_limit ?? null,
+        default_credit_days: client.default_credit_days ?? null,
+        credit_blocked: client.credit_blocked || false,
         tax_status: 'Activo', // Por defecto
         is_active: true
       } as SupabaseClient;
@@ -122,6 +131,9 @@ export function useClients() {
         address: result.data.address || null,
         economic_activity_code: result.data.economic_activity_code || null,
         economic_activity_desc: result.data.economic_activity_desc || null,
+        credit_limit: result.data.credit_limit ?? null,
+        default_credit_days: result.data.default_credit_days ?? null,
+        credit_blocked: result.data.credit_blocked || false,
         created_at: result.data.created_at || new Date().toISOString()
       };
 
@@ -161,7 +173,10 @@ export function useClients() {
         district: updates.district || undefined,
         address: updates.address || undefined,
         economic_activity_code: updates.economic_activity_code || undefined,
-        economic_activity_desc: updates.economic_activity_desc || undefined
+        economic_activity_desc: updates.economic_activity_desc || undefined,
+        credit_limit: updates.credit_limit,
+        default_credit_days: updates.default_credit_days,
+        credit_blocked: updates.credit_blocked
       } as Partial<SupabaseClient>;
       
       // Actualizar en Supabase
@@ -185,7 +200,10 @@ export function useClients() {
           district: result.data.district || null,
           address: result.data.address || null,
           economic_activity_code: result.data.economic_activity_code || null,
-          economic_activity_desc: result.data.economic_activity_desc || null
+          economic_activity_desc: result.data.economic_activity_desc || null,
+          credit_limit: result.data.credit_limit ?? null,
+          default_credit_days: result.data.default_credit_days ?? null,
+          credit_blocked: result.data.credit_blocked || false
         }
       };
 
@@ -5,6 +5,7 @@ import { supabaseProductService } from '../services/supabaseProductService';
 import { useAuth } from './useAuth';
 import { getCompanyUuid } from '../services/uuidMappingService';
 import { StoredInvoice } from './useInvoiceHistory';
+import { FiltroPuntoVenta, filtrarPorPuntoVenta } from '../services/branchService';
 
 // Interfaz para datos de venta diaria
 interface DailySalesData {
@@ -37,6 +38,8 @@ interface DashboardStats {
   };
   // Facturas recientes
   recentInvoices: StoredInvoice[];
+  // Todos los documentos sin filtrar, para ofrecer las sucursales y terminales que aparecen en ellos
+  documentos: StoredInvoice[];
   // Datos de ventas diarias para el gráfico
   dailySales: DailySalesData[];
   // Estado de carga
@@ -44,19 +47,25 @@ interface DashboardStats {
   error: string | null;
 }
 
-export function useDashboardStats(): DashboardStats {
+/**
+ * Estadísticas del dashboard
+ * @param filtro Sucursal y terminal de los documentos a incluir; sin valores incluye todos
+ */
+export function useDashboardStats(filtro: FiltroPuntoVenta = {}): DashboardStats {
   const [stats, setStats] = useState<DashboardStats>({
     invoicesCount: { current: 0, previous: 0, percentChange: 0 },
     monthlyIncome: { current: 0, previous: 0, percentChange: 0 },
     clientsCount: { current: 0, previous: 0, percentChange: 0 },
     productsCount: { current: 0, previous: 0, percentChange: 0 },
     recentInvoices: [],
+    documentos: [],
     dailySales: [],
     loading: true,
     error: null
   });
 
   const { currentCompany } = useAuth();
+  const { sucursal, terminal } = filtro;
 
   // Función para calcular el cambio porcentual
   const calculatePercentChange = (current: number, previous: number): number => {
@@ -82,8 +91,10 @@ export function useDashboardStats(): DashboardStats {
         let productsData = null;
 
         // 1. Obtener todas las facturas
-        const { invoices: allInvoices, error: invoicesError } = await supabaseInvoiceService.getInvoicesData('innova');
+        const { invoices: documentos, error: invoicesError } = await supabaseInvoiceService.getInvoicesData('innova');
         if (invoicesError) throw new Error('Error al cargar facturas: ' + invoicesError);
+        // Solo los documentos de la sucursal y terminal elegidas
+        const allInvoices = filtrarPorPuntoVenta(documentos, { sucursal, terminal });
 
         console.log(`📝 Total de facturas encontradas: ${allInvoices.length}`);
 
@@ -281,6 +292,7 @@ export function useDashboardStats(): DashboardStats {
             percentChange: clientsPercentChange
           },
           recentInvoices,
+          documentos,
           dailySales,
           loading: false,
           error: null
@@ -289,16 +301,16 @@ export function useDashboardStats(): DashboardStats {
         console.log('✅ Estadísticas del dashboard cargadas correctamente');
       } catch (error) {
         console.error('❌ Error al obtener estadísticas del dashboard:', error);
-        setStats({
-          ...stats,
+        setStats(prev => ({
+          ...prev,
           loading: false,
           error: error instanceof Error ? error.message : 'Error desconocido'
-        });
+        }));
       }
     };
 
     fetchDashboardStats();
-  }, [currentCompany]);
+  }, [currentCompany, sucursal, terminal]);
 
   return stats;
 }
@@ -2,6 +2,36 @@ import { useState, useEffect } from 'react';
 import { supabaseInvoiceService } from '../services/supabaseInvoiceService';
 import { useAuth } from './useAuth';
 import { getCompanyUuid } from '../services/uuidMappingService';
+import { refreshInvoiceHaciendaStatus } from '../services/haciendaStatusService';
+import { isOnline } from '../services/offlineCacheService';
+import { syncService } from '../services/syncService';
+import { getCurrentEnvironment } from '../services/sequenceService';
+import { MedioPagoDetalle, Party, Reference } from '../types/invoice';
+
+// Recibo Electrónico de Pago (tipo 10) emitido por un pago o abono de una factura a crédito
+export interface ReciboPago {
+  clave: string;
+  numeroConsecutivo: string;
+  fechaEmision: string;
+  estadoEnvio: 'pendiente' | 'enviado' | 'en_cola' | 'error'; // pendiente: firmado y guardado, aún sin enviar
+  error?: string;
+  xmlContent?: string;
+}
+
+// Pago o abono registrado sobre una factura (tabla invoice_payments)
+export interface PagoFactura {
+  id?: string;
+  fechaPago: string;
+  monto: number;
+  medioPago: string;
+  cuentaBancaria?: string;
+  banco?: string;
+  referencia?: string; // Número de transferencia, cheque, comprobante SINPE, etc.
+  notas?: string;
+  recibo?: ReciboPago;
+  movimientoBancarioId?: string; // Depósito del estado de cuenta conciliado con el pago
+  fechaRegistro?: string;
+}
 
 export interface StoredInvoice {
   id: string;
@@ -13,9 +43,24 @@ export interface StoredInvoice {
   claveNumerica: string;
   consecutive?: string; // Número consecutivo de la factura
   numeroConsecutivo?: string; // Alternativa para el consecutivo
+  tipoDocumento?: string; // 01 Factura, 02 Nota de débito, 03 Nota de crédito, 04 Tiquete, 08 Compra, 09 Exportación
+  situacion?: string; // 1 Normal, 2 Contingencia, 3 Sin internet
+  ambiente?: 'test' | 'prod'; // Ambiente de Hacienda en el que se emitió (cada uno tiene su serie de consecutivos)
+  // Datos completos del receptor para emitir notas de crédito/débito sobre el documento
+  receptor?: Party;
+  // Referencias a otros comprobantes (notas de crédito/débito)
+  informacionReferencia?: Reference[];
+  // ID en el historial del documento al que hace referencia esta nota
+  documentoReferenciaId?: string;
   // Campos adicionales para análisis de datos
   condicionVenta: string;
   medioPago: string[];
+  // Montos por medio de pago y pagos recibidos en caja (tiquetes)
+  totalMedioPago?: number[];
+  mediosPagoDetalle?: MedioPagoDetalle[];
+  vuelto?: number;
+  // Sesión de caja en la que se emitió el documento
+  sesionCajaId?: string;
   // Campo para plazo de crédito en días
   plazoCredito?: string;
   // Campos para moneda y tipo de cambio
@@ -30,7 +75,7 @@ export interface StoredInvoice {
     porcentajeExoneracion: number;
     montoExoneracion?: number;
   };
-  // Información de pago para facturas a crédito
+  // Información de pago para facturas a crédito; fechaPago y medioPago corresponden al último pago
   infoPago?: {
     pagada: boolean;
     fechaPago?: string;
@@ -38,6 +83,9 @@ export interface StoredInvoice {
     cuentaBancaria?: string;
     banco?: string;
     notas?: string;
+    // Pagos y abonos en orden cronológico, cada uno con su Recibo Electrónico de Pago
+    pagos?: PagoFactura[];
+    saldoPendiente?: number;
   };
   detalleServicio: {
     codigoCabys: string;
@@ -45,6 +93,8 @@ export interface StoredInvoice {
     cantidad: number;
     precioUnitario: number;
     subtotal: number;
+    unidadMedida?: string;
+    tarifaImpuesto?: number; // Porcentaje de IVA aplicado a la línea
   }[];
   // Otros cargos adicionales
   otrosCargos?: {
@@ -58,6 +108,11 @@ export interface StoredInvoice {
   totalOtrosCargos?: number;
   total: number;
   xmlContent?: string;
+  // Estado de recepción en Hacienda (ind-estado) y respuesta MensajeHacienda
+  haciendaEstado?: 'recibido' | 'procesando' | 'aceptado' | 'rechazado' | 'error';
+  haciendaMensaje?: string;
+  respuestaHaciendaXml?: string;
+  haciendaUltimaConsulta?: string;
   // Campos para información de correo electrónico
   emailInfo?: {
     destinatario: string;
@@ -206,8 +261,12 @@ export function useInvoiceHistory() {
   }, [loading, invoices]);
 
   // Añadir una nueva factura
-  const addInvoice = (invoice: StoredInvoice) => {
-    console.log('⚠️ AÑADIENDO NUEVA FACTURA AL HISTORIAL:', invoice.id);
+  const addInvoice = (documento: StoredInvoice) => {
+    console.log('⚠️ AÑADIENDO NUEVA FACTURA AL HISTORIAL:', documento.id);
+    // Registrar el ambiente de emisión para la auditoría de consecutivos
+    const invoice: StoredInvoice = documento.ambiente
+      ? documento
+      : { ...documento, ambiente: getCurrentEnvironment(localStorage.getItem('selected_company') || 'innova') };
     
     // 1. Primero verificar si las facturas ya existen en localStorage
     const existingInvoicesJSON = localStorage.getItem('invoices');
@@ -238,8 +297,13 @@ export function useInvoiceHistory() {
     // 4. Actualizar el estado de React
     setInvoices(updatedInvoices);
     
-    // 5. Intentar guardar en Supabase
+    // 5. Intentar guardar en Supabase; sin conexión o si falla, queda en la cola de sincronización
     const saveToSupabase = async () => {
+      if (!isOnline()) {
+        await syncService.enqueueFactura(invoice, 'innova', 'Sin conexión a internet')
+          .catch(queueError => console.error('No se pudo encolar la factura para sincronizar:', queueError));
+        return;
+      }
       try {
         // Siempre usar el UUID correcto de INNOVA desde nuestro servicio centralizado
         const companyUuid = getCompanyUuid('innova');
@@ -249,11 +313,14 @@ export function useInvoiceHistory() {
         
         if (error) {
           console.error(`❌ Error al guardar factura ${invoice.id} en Supabase:`, error);
+          await syncService.enqueueFactura(invoice, 'innova', error.message);
         } else {
           console.log(`✅ Factura ${invoice.id} guardada en Supabase con éxito.`);
         }
       } catch (error) {
         console.error(`❌ Error al procesar guardado de factura ${invoice.id}:`, error);
+        await syncService.enqueueFactura(invoice, 'innova', error instanceof Error ? error.message : undefined)
+          .catch(queueError => console.error('No se pudo encolar la factura para sincronizar:', queueError));
       }
     };
     
@@ -295,6 +362,35 @@ export function useInvoiceHistory() {
     }
   };
 
+  // Consultar el estado del comprobante en Hacienda y guardar su respuesta
+  const refreshHaciendaStatus = async (invoiceId: string) => {
+    const invoice = invoices.find(inv => inv.id === invoiceId);
+    if (!invoice) {
+      throw new Error(`No se encontró el comprobante ${invoiceId}`);
+    }
+    if (!invoice.claveNumerica) {
+      throw new Error('El comprobante no tiene clave numérica para consultar en Hacienda');
+    }
+
+    const refresh = await refreshInvoiceHaciendaStatus(invoice);
+    setInvoices(prev => prev.map(inv => (inv.id === invoiceId ? refresh.invoice : inv)));
+    return refresh;
+  };
+
+  // Seguir en segundo plano el estado de un comprobante recién aceptado para recepción
+  const trackHaciendaStatus = async (invoice: StoredInvoice) => {
+    if (!invoice.claveNumerica) return;
+    try {
+      const refresh = await refreshInvoiceHaciendaStatus(invoice);
+      setInvoices(prev => prev.map(inv => (inv.id === invoice.id ? refresh.invoice : inv)));
+      if (refresh.syncError) {
+        console.error(`No se guardó el estado de Hacienda de ${invoice.id}:`, refresh.syncError);
+      }
+    } catch (error) {
+      console.error(`Error al consultar el estado de ${invoice.id} en Hacienda:`, error);
+    }
+  };
+
   // Actualizar la información de correo de una factura
   const updateInvoiceEmailInfo = (
     invoiceId: string,
@@ -457,6 +553,8 @@ export function useInvoiceHistory() {
     loading,
     addInvoice,
     updateInvoiceStatus,
+    refreshHaciendaStatus,
+    trackHaciendaStatus,
     updateInvoiceEmailInfo,
     deleteInvoice,
     getDashboardData,
@@ -0,0 +1,25 @@
+import { useEffect, useState } from 'react';
+import { isOnline } from '../services/offlineCacheService';
+import { syncService, SyncResumen } from '../services/syncService';
+
+// Estado de la conexión y de la cola de sincronización, para el indicador del encabezado
+export function useOnlineStatus() {
+  const [online, setOnline] = useState(isOnline());
+  const [resumen, setResumen] = useState<SyncResumen>({ pendientes: 0, conflictos: 0 });
+
+  useEffect(() => {
+    const onOnline = () => setOnline(true);
+    const onOffline = () => setOnline(false);
+    window.addEventListener('online', onOnline);
+    window.addEventListener('offline', onOffline);
+    const unsubscribe = syncService.subscribe(setResumen);
+
+    return () => {
+      window.removeEventListener('online', onOnline);
+      window.removeEventListener('offline', onOffline);
+      unsubscribe();
+    };
+  }, []);
+
+  return { online, ...resumen };
+}
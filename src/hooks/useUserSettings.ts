@@ -1,6 +1,18 @@
 import { useEffect, useState } from 'react';
 import { envService } from '../services/envService';
 import { getSelectedCompany, updateCompanyEnvironment } from '../services/companyService';
+import { supabaseStorageService } from '../services/supabaseStorageService';
+import { loadP12Certificate } from '../services/signatureService';
+
+// Impresora de recibos de una terminal de caja
+export interface ReceiptPrinterSettings {
+  paper_width: '80' | '58';
+  // pdf: recibo angosto para el diálogo de impresión; usb, serial y bridge envían ESC/POS
+  output: 'pdf' | 'usb' | 'serial' | 'bridge';
+  bridge_url?: string;
+  baud_rate?: number;
+  print_logo: boolean;
+}
 
 // Definir la interfaz para los ajustes del usuario
 export interface UserSettings {
@@ -21,6 +33,8 @@ export interface UserSettings {
   api_password: string | null;
   api_pin: string | null;
   api_key_path: string | null;
+  // Impresora de recibos por código de terminal
+  receipt_printers?: Record<string, ReceiptPrinterSettings>;
   created_at?: string;
   updated_at?: string;
 }
@@ -90,9 +104,19 @@ export function useUserSettings() {
       // Si hay un archivo de certificado, guardarlo
       let certificatePath = updates.api_key_path;
       if (certificateFile) {
-        // En un entorno de navegador, solo almacenamos la ruta del archivo
-        certificatePath = `certificados/${certificateFile.name}`;
         console.log('Archivo de certificado seleccionado:', certificateFile.name);
+        const pin = updates.api_pin || '';
+
+        // Validar que el PIN abre el certificado antes de guardarlo
+        loadP12Certificate(await certificateFile.arrayBuffer(), pin);
+
+        // Subir el .p12 a Supabase Storage para usarlo en la firma de comprobantes
+        const companyId = getSelectedCompany()?.id || localStorage.getItem('selected_company') || 'innova';
+        const result = await supabaseStorageService.uploadCertificate(companyId, certificateFile, certificateFile.name, pin);
+        if (!result.success) {
+          throw new Error(result.error || 'Error al subir certificado');
+        }
+        certificatePath = `${companyId}/${certificateFile.name}`;
       }
 
       // Obtener la configuración actual
@@ -2,6 +2,8 @@ import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import { BrowserRouter } from 'react-router-dom';
 import App from './App';
+import UpdatePrompt from './components/UpdatePrompt';
+import { pwaService } from './services/pwaService';
 import './index.css';
 
 // Inicializar el servicio de correo electrónico
@@ -10,10 +12,14 @@ import { initEmailJS } from './services/emailService';
 // Inicializar EmailJS al cargar la aplicación
 initEmailJS();
 
+// Registrar el service worker para instalar la aplicación y arrancar sin conexión
+pwaService.register();
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <BrowserRouter>
       <App />
+      <UpdatePrompt />
     </BrowserRouter>
   </StrictMode>
 );
\ No newline at end of file
@@ -0,0 +1,369 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { ListChecks, Loader2, Download, RefreshCw, AlertTriangle, CheckCircle } from 'lucide-react';
+import { saveAs } from 'file-saver';
+import { useInvoiceHistory } from '../hooks/useInvoiceHistory';
+import { supabaseAuthService } from '../services/supabaseAuthService';
+import { supabaseGapJustificationService } from '../services/supabaseGapJustificationService';
+import { FiltroPuntoVenta, parseConsecutivo } from '../services/branchService';
+import { getCurrentEnvironment } from '../services/sequenceService';
+import {
+  AmbienteSerie,
+  JustificacionFaltante,
+  RangoFaltante,
+  SerieAuditada,
+  auditarConsecutivos,
+  auditoriaToCsv,
+  buscarJustificacion,
+  getDescripcionTipoDocumento,
+  getDocumentosAuditables
+} from '../services/consecutiveAuditService';
+import PuntoVentaFilter from '../components/PuntoVentaFilter';
+
+const nombreAmbiente = (ambiente: AmbienteSerie) => (ambiente === 'prod' ? 'Producción' : 'Pruebas');
+
+const describirRango = (rango: RangoFaltante) =>
+  rango.desde === rango.hasta ? `${rango.desde}` : `${rango.desde} – ${rango.hasta}`;
+
+const AuditoriaConsecutivos = () => {
+  const { invoices, loading: loadingInvoices } = useInvoiceHistory();
+  const companyId = localStorage.getItem('selected_company') || 'innova';
+  const usuario = supabaseAuthService.getCurrentUser();
+  // Ambiente de los documentos emitidos antes de que se registrara en el historial
+  const [ambienteSinRegistro, setAmbienteSinRegistro] = useState<AmbienteSerie>(getCurrentEnvironment(companyId));
+  const [ambiente, setAmbiente] = useState<AmbienteSerie | ''>('');
+  const [tipoDoc, setTipoDoc] = useState('');
+  const [filtroPuntoVenta, setFiltroPuntoVenta] = useState<FiltroPuntoVenta>({});
+  const [justificaciones, setJustificaciones] = useState<JustificacionFaltante[]>([]);
+  const [borradores, setBorradores] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [procesando, setProcesando] = useState(false);
+  const [mensaje, setMensaje] = useState('');
+
+  const cargarJustificaciones = useCallback(async () => {
+    setLoading(true);
+    const result = await supabaseGapJustificationService.getJustifications(companyId);
+    setJustificaciones(result.data || []);
+    setMensaje(result.error ? `Error al cargar las justificaciones: ${result.error}` : '');
+    setLoading(false);
+  }, [companyId]);
+
+  useEffect(() => {
+    cargarJustificaciones();
+  }, [cargarJustificaciones]);
+
+  const documentos = useMemo(() => getDocumentosAuditables(invoices), [invoices]);
+
+  const auditoria = useMemo(
+    () => auditarConsecutivos(documentos, ambienteSinRegistro),
+    [documentos, ambienteSinRegistro]
+  );
+
+  // La auditoría se calcula completa y los filtros solo acotan lo que se muestra y exporta
+  const resultado = useMemo(() => {
+    const coincide = (serie: Pick<SerieAuditada, 'ambiente' | 'tipoDoc' | 'sucursal' | 'terminal'>) =>
+      (!ambiente || serie.ambiente === ambiente) &&
+      (!tipoDoc || serie.tipoDoc === tipoDoc) &&
+      (!filtroPuntoVenta.sucursal || serie.sucursal === filtroPuntoVenta.sucursal) &&
+      (!filtroPuntoVenta.terminal || serie.terminal === filtroPuntoVenta.terminal);
+
+    return {
+      ...auditoria,
+      series: auditoria.series.filter(coincide),
+      inconsistencias: auditoria.inconsistencias.filter(inconsistencia => {
+        const partes = parseConsecutivo(inconsistencia.consecutivo);
+        // Los consecutivos ilegibles no pertenecen a ninguna serie y se muestran siempre
+        return !partes || coincide({ ambiente: inconsistencia.ambiente, ...partes });
+      })
+    };
+  }, [auditoria, ambiente, tipoDoc, filtroPuntoVenta]);
+
+  const tiposPresentes = useMemo(
+    () => Array.from(new Set(auditoria.series.map(serie => serie.tipoDoc))).sort(),
+    [auditoria]
+  );
+
+  const resumen = useMemo(() => {
+    const rangos = resultado.series.flatMap(serie => serie.faltantes.map(faltante => ({ serie, faltante })));
+    return {
+      series: resultado.series.length,
+      faltantes: resultado.series.reduce((total, serie) => total + serie.totalFaltantes, 0),
+      sinJustificar: rangos.filter(({ serie, faltante }) => !buscarJustificacion(serie, faltante, justificaciones)).length,
+      duplicados: resultado.series.reduce((total, serie) => total + serie.duplicados.length, 0),
+      inconsistencias: resultado.inconsistencias.length
+    };
+  }, [resultado, justificaciones]);
+
+  const getLlaveRango = (serie: SerieAuditada, faltante: RangoFaltante) => `${serie.id}:${faltante.desde}-${faltante.hasta}`;
+
+  const guardarJustificacion = async (serie: SerieAuditada, faltante: RangoFaltante) => {
+    const llave = getLlaveRango(serie, faltante);
+    const texto = (borradores[llave] || '').trim();
+    if (!texto) {
+      setMensaje('Indique el motivo por el que no se emitieron los consecutivos');
+      return;
+    }
+    setProcesando(true);
+    const result = await supabaseGapJustificationService.saveJustification({
+      ambiente: serie.ambiente,
+      tipoDoc: serie.tipoDoc,
+      sucursal: serie.sucursal,
+      terminal: serie.terminal,
+      desde: faltante.desde,
+      hasta: faltante.hasta,
+      justificacion: texto,
+      usuario: usuario?.username
+    }, companyId);
+    if (result.success && result.data) {
+      setJustificaciones(actuales => [...(result.data || []), ...actuales]);
+      setBorradores(actuales => ({ ...actuales, [llave]: '' }));
+      setMensaje(`Justificación registrada para los consecutivos ${describirRango(faltante)}`);
+    } else {
+      setMensaje(`Error al guardar la justificación: ${result.error}`);
+    }
+    setProcesando(false);
+  };
+
+  const exportar = () => {
+    const csv = auditoriaToCsv(resultado, justificaciones);
+    // BOM para que Excel respete las tildes
+    const blob = new Blob(['\uFEFF' + csv], { type: 'text/csv;charset=utf-8' });
+    saveAs(blob, `auditoria_consecutivos_${new Date().toISOString().slice(0, 10)}.csv`);
+  };
+
+  const cargando = loading || loadingInvoices;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl title-primary">Auditoría de Consecutivos</h1>
+        <div className="flex items-center space-x-2">
+          <button className="btn-ghost flex items-center" onClick={cargarJustificaciones} disabled={cargando}>
+            <RefreshCw className={`w-4 h-4 mr-1 ${cargando ? 'animate-spin' : ''}`} />
+            Actualizar
+          </button>
+          <button className="btn-primary flex items-center" onClick={exportar} disabled={cargando}>
+            <Download className="w-4 h-4 mr-1" />
+            Exportar CSV
+          </button>
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-400">
+        Revisa cada serie de consecutivos (tipo de documento, sucursal, terminal y ambiente) en busca de números
+        faltantes, números repetidos y claves que no contienen el consecutivo del documento.
+      </p>
+
+      <div className="glass-card p-4 flex flex-wrap items-end gap-3">
+        <div>
+          <label className="form-label">Ambiente</label>
+          <select className="form-select" value={ambiente} onChange={(e) => setAmbiente(e.target.value as AmbienteSerie | '')}>
+            <option value="">Todos</option>
+            <option value="prod">Producción</option>
+            <option value="test">Pruebas</option>
+          </select>
+        </div>
+        <div>
+          <label className="form-label">Tipo de documento</label>
+          <select className="form-select" value={tipoDoc} onChange={(e) => setTipoDoc(e.target.value)}>
+            <option value="">Todos</option>
+            {tiposPresentes.map(codigo => (
+              <option key={codigo} value={codigo}>{codigo} · {getDescripcionTipoDocumento(codigo)}</option>
+            ))}
+          </select>
+        </div>
+        <PuntoVentaFilter value={filtroPuntoVenta} onChange={setFiltroPuntoVenta} documentos={invoices} />
+        <div>
+          <label className="form-label">Documentos sin ambiente registrado</label>
+          <select
+            className="form-select"
+            value={ambienteSinRegistro}
+            onChange={(e) => setAmbienteSinRegistro(e.target.value as AmbienteSerie)}
+          >
+            <option value="prod">Tratar como Producción</option>
+            <option value="test">Tratar como Pruebas</option>
+          </select>
+        </div>
+      </div>
+
+      {mensaje && (
+        <div className="glass-card p-3 text-sm whitespace-pre-line">
+          {mensaje}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+        <div className="glass-card p-4">
+          <p className="text-sm text-gray-400">Series</p>
+          <p className="text-2xl font-semibold">{resumen.series}</p>
+        </div>
+        <div className="glass-card p-4">
+          <p className="text-sm text-gray-400">Consecutivos faltantes</p>
+          <p className="text-2xl font-semibold">{resumen.faltantes}</p>
+        </div>
+        <div className="glass-card p-4">
+          <p className="text-sm text-gray-400">Rangos sin justificar</p>
+          <p className={`text-2xl font-semibold ${resumen.sinJustificar > 0 ? 'text-yellow-400' : ''}`}>{resumen.sinJustificar}</p>
+        </div>
+        <div className="glass-card p-4">
+          <p className="text-sm text-gray-400">Duplicados</p>
+          <p className={`text-2xl font-semibold ${resumen.duplicados > 0 ? 'text-red-400' : ''}`}>{resumen.duplicados}</p>
+        </div>
+        <div className="glass-card p-4">
+          <p className="text-sm text-gray-400">Claves inconsistentes</p>
+          <p className={`text-2xl font-semibold ${resumen.inconsistencias > 0 ? 'text-red-400' : ''}`}>{resumen.inconsistencias}</p>
+        </div>
+      </div>
+
+      {cargando ? (
+        <div className="glass-card p-8">
+          <Loader2 className="w-6 h-6 mx-auto animate-spin text-primary-500" />
+        </div>
+      ) : resultado.series.length === 0 ? (
+        <div className="glass-card p-6 text-sm text-gray-400">
+          No hay documentos emitidos para los filtros seleccionados.
+        </div>
+      ) : (
+        resultado.series.map(serie => {
+          const correcta = serie.faltantes.length === 0 && serie.duplicados.length === 0;
+          return (
+            <div key={serie.id} className="glass-card p-4 space-y-3">
+              <div className="flex items-start justify-between">
+                <div>
+                  <h2 className="text-lg font-semibold flex items-center">
+                    <ListChecks className="w-5 h-5 mr-2" />
+                    {serie.tipoDoc} · {getDescripcionTipoDocumento(serie.tipoDoc)}
+                  </h2>
+                  <p className="text-sm text-gray-400">
+                    Sucursal {serie.sucursal} · Terminal {serie.terminal} · {nombreAmbiente(serie.ambiente)} ·
+                    {' '}{serie.documentos} documentos del {serie.primero} al {serie.ultimo}
+                  </p>
+                </div>
+                {correcta ? (
+                  <span className="flex items-center text-sm text-green-400">
+                    <CheckCircle className="w-4 h-4 mr-1" />
+                    Serie completa
+                  </span>
+                ) : (
+                  <span className="flex items-center text-sm text-yellow-400">
+                    <AlertTriangle className="w-4 h-4 mr-1" />
+                    {serie.totalFaltantes} faltantes · {serie.duplicados.length} duplicados
+                  </span>
+                )}
+              </div>
+
+              {serie.faltantes.length > 0 && (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-gray-400">
+                      <th className="text-left py-1">Faltantes</th>
+                      <th className="text-left py-1">Cantidad</th>
+                      <th className="text-left py-1">Justificación</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {serie.faltantes.map(faltante => {
+                      const llave = getLlaveRango(serie, faltante);
+                      const justificacion = buscarJustificacion(serie, faltante, justificaciones);
+                      return (
+                        <tr key={llave} className="border-t border-white/10 align-top">
+                          <td className="py-1">{describirRango(faltante)}</td>
+                          <td className="py-1">{faltante.hasta - faltante.desde + 1}</td>
+                          <td className="py-1 space-y-1">
+                            {justificacion && (
+                              <p>
+                                {justificacion.justificacion}
+                                <span className="text-gray-400">
+                                  {' '}— {justificacion.usuario || 'sin usuario'}
+                                  {justificacion.fecha ? `, ${new Date(justificacion.fecha).toLocaleString('es-CR')}` : ''}
+                                </span>
+                              </p>
+                            )}
+                            <div className="flex space-x-2">
+                              <input
+                                className="form-input"
+                                placeholder={justificacion ? 'Reemplazar justificación' : 'Motivo (anulado, error de envío, pruebas...)'}
+                                value={borradores[llave] || ''}
+                                onChange={(e) => setBorradores(actuales => ({ ...actuales, [llave]: e.target.value }))}
+                              />
+                              <button
+                                className="btn-secondary"
+                                onClick={() => guardarJustificacion(serie, faltante)}
+                                disabled={procesando || !(borradores[llave] || '').trim()}
+                              >
+                                Guardar
+                              </button>
+                            </div>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              )}
+
+              {serie.duplicados.length > 0 && (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-gray-400">
+                      <th className="text-left py-1">Duplicado</th>
+                      <th className="text-left py-1">Documentos</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {serie.duplicados.map(duplicado => (
+                      <tr key={duplicado.numero} className="border-t border-white/10 align-top">
+                        <td className="py-1">{duplicado.numero}</td>
+                        <td className="py-1">
+                          {duplicado.documentos.map(doc => (
+                            <div key={doc.id}>
+                              {doc.id}
+                              <span className="text-gray-400">
+                                {doc.fecha ? ` · ${new Date(doc.fecha).toLocaleDateString('es-CR')}` : ''}
+                                {` · ${doc.clave || 'sin clave'}`}
+                              </span>
+                            </div>
+                          ))}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          );
+        })
+      )}
+
+      {!cargando && resultado.inconsistencias.length > 0 && (
+        <div className="glass-card p-4 space-y-3">
+          <h2 className="text-lg font-semibold flex items-center">
+            <AlertTriangle className="w-5 h-5 mr-2 text-red-400" />
+            Claves y consecutivos inconsistentes
+          </h2>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-gray-400">
+                <th className="text-left py-1">Documento</th>
+                <th className="text-left py-1">Consecutivo</th>
+                <th className="text-left py-1">Clave</th>
+                <th className="text-left py-1">Motivo</th>
+              </tr>
+            </thead>
+            <tbody>
+              {resultado.inconsistencias.map(inconsistencia => (
+                <tr key={`${inconsistencia.documentoId}-${inconsistencia.consecutivo}`} className="border-t border-white/10">
+                  <td className="py-1">{inconsistencia.documentoId}</td>
+                  <td className="py-1 font-mono">{inconsistencia.consecutivo}</td>
+                  <td className="py-1 font-mono break-all">{inconsistencia.clave || '—'}</td>
+                  <td className="py-1">{inconsistencia.motivo}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AuditoriaConsecutivos;
@@ -0,0 +1,448 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Calculator, Loader2, Plus, Download, Lock, Unlock, RefreshCw } from 'lucide-react';
+import { useInvoiceHistory } from '../hooks/useInvoiceHistory';
+import { useUserSettings } from '../hooks/useUserSettings';
+import { buildEmisorFromSettings } from '../services/creditNoteService';
+import { supabaseAuthService } from '../services/supabaseAuthService';
+import { CashSessionRecord, supabaseCashSessionService } from '../services/supabaseCashSessionService';
+import {
+  CierreCaja,
+  MovimientoCaja,
+  SesionCaja,
+  buildCierreCaja,
+  calcularArqueoEsperado,
+  getDocumentosSesion,
+  getSesionCajaActiva,
+  getTerminalCaja,
+  setSesionCajaActiva
+} from '../services/cashRegisterService';
+import { getPuntoVenta } from '../services/branchService';
+import { generateCierreCajaPDF, downloadCierreCajaPDF } from '../services/pdfService';
+
+const Caja = () => {
+  const { invoices, loading: loadingInvoices } = useInvoiceHistory();
+  const { settings } = useUserSettings();
+  const companyId = localStorage.getItem('selected_company') || 'innova';
+  const usuario = supabaseAuthService.getCurrentUser();
+  const usuarioId = usuario?.id;
+  // La caja se identifica con el punto de venta del dispositivo (sucursal + terminal)
+  const puntoVenta = getPuntoVenta(companyId);
+  const terminal = getTerminalCaja(companyId);
+  const [sesion, setSesion] = useState<SesionCaja | null>(getSesionCajaActiva(companyId));
+  const [movimientos, setMovimientos] = useState<MovimientoCaja[]>([]);
+  const [cerradas, setCerradas] = useState<CashSessionRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [procesando, setProcesando] = useState(false);
+  const [mensaje, setMensaje] = useState('');
+  // Apertura
+  const [fondoInicial, setFondoInicial] = useState('');
+  const [moneda, setMoneda] = useState('CRC');
+  // Entradas y salidas de efectivo
+  const [movimiento, setMovimiento] = useState<{ tipo: 'entrada' | 'salida'; monto: string; motivo: string }>({ tipo: 'salida', monto: '', motivo: '' });
+  // Cierre
+  const [contado, setContado] = useState<Record<string, string>>({});
+  const [notas, setNotas] = useState('');
+
+  // Sincronizar la sesión de la terminal con la base de datos
+  const cargarSesion = useCallback(async () => {
+    setLoading(true);
+    const result = await supabaseCashSessionService.getOpenSession(terminal, companyId);
+    if (!result.success) {
+      setMensaje(`No se pudo consultar la sesión de caja: ${result.error}`);
+    } else if (result.data && result.data.usuarioId && usuarioId && result.data.usuarioId !== usuarioId) {
+      setMensaje(`La terminal ${terminal} tiene una sesión abierta por ${result.data.usuario}. Debe cerrarla antes de abrir otra.`);
+      setSesion(null);
+      setSesionCajaActiva(companyId, null);
+    } else {
+      setSesion(result.data || null);
+      setSesionCajaActiva(companyId, result.data || null);
+      if (result.data) {
+        const movs = await supabaseCashSessionService.getMovements(result.data.id);
+        setMovimientos(movs.data || []);
+      }
+    }
+
+    const historial = await supabaseCashSessionService.getClosedSessions(companyId, 20);
+    if (historial.success) {
+      setCerradas(historial.data || []);
+    }
+    setLoading(false);
+  }, [terminal, companyId, usuarioId]);
+
+  useEffect(() => {
+    cargarSesion();
+  }, [cargarSesion]);
+
+  const documentos = useMemo(() => (sesion ? getDocumentosSesion(invoices, sesion.id) : []), [invoices, sesion]);
+  const arqueo = useMemo(
+    () => (sesion ? calcularArqueoEsperado(sesion, movimientos, documentos) : []),
+    [sesion, movimientos, documentos]
+  );
+
+  const formatMonto = (monto: number, codigoMoneda: string) =>
+    `${codigoMoneda} ${monto.toLocaleString('es-CR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+  const abrirCaja = async () => {
+    if (!usuario) {
+      setMensaje('Inicie sesión para abrir la caja');
+      return;
+    }
+    setProcesando(true);
+    const result = await supabaseCashSessionService.openSession({
+      user_id: usuario.id,
+      username: usuario.username,
+      terminal,
+      moneda,
+      fondo_inicial: parseFloat(fondoInicial) || 0
+    }, companyId);
+    if (result.success && result.data) {
+      setSesion(result.data);
+      setSesionCajaActiva(companyId, result.data);
+      setMovimientos([]);
+      setContado({});
+      setNotas('');
+      setFondoInicial('');
+      setMensaje(`Caja abierta en la terminal ${result.data.terminal}`);
+    } else {
+      setMensaje(`Error al abrir la caja: ${result.error}`);
+    }
+    setProcesando(false);
+  };
+
+  const registrarMovimiento = async () => {
+    if (!sesion) return;
+    const monto = parseFloat(movimiento.monto);
+    if (!(monto > 0) || !movimiento.motivo.trim()) {
+      setMensaje('Indique el monto y el motivo del movimiento de efectivo');
+      return;
+    }
+    const result = await supabaseCashSessionService.addMovement({
+      session_id: sesion.id,
+      tipo: movimiento.tipo,
+      monto,
+      motivo: movimiento.motivo.trim(),
+      username: usuario?.username
+    }, companyId);
+    if (result.success && result.data) {
+      setMovimientos(prev => [...prev, ...(result.data || [])]);
+      setMovimiento({ tipo: movimiento.tipo, monto: '', motivo: '' });
+    } else {
+      setMensaje(`Error al registrar el movimiento: ${result.error}`);
+    }
+  };
+
+  const descargarCierre = (cierre: CierreCaja) => {
+    if (!settings) {
+      setMensaje('Configure los datos de la empresa antes de generar el reporte de cierre');
+      return;
+    }
+    downloadCierreCajaPDF(generateCierreCajaPDF(cierre, buildEmisorFromSettings(settings)), cierre);
+  };
+
+  const cerrarCaja = async () => {
+    if (!sesion) return;
+    const faltantes = arqueo.filter(linea => contado[`${linea.moneda}|${linea.medioPago}`] === undefined);
+    if (faltantes.length > 0) {
+      setMensaje(`Indique el monto contado de: ${faltantes.map(linea => `${linea.descripcion} (${linea.moneda})`).join(', ')}`);
+      return;
+    }
+
+    const montosContados = Object.fromEntries(Object.entries(contado).map(([key, valor]) => [key, parseFloat(valor) || 0]));
+    const cierre = buildCierreCaja(sesion, movimientos, documentos, montosContados, new Date(), notas.trim());
+    const diferencia = cierre.diferenciaTotal === 0
+      ? 'sin diferencias'
+      : `con ${cierre.diferenciaTotal < 0 ? 'faltante' : 'sobrante'} de ${formatMonto(Math.abs(cierre.diferenciaTotal), sesion.moneda)}`;
+    if (!window.confirm(`¿Cerrar la caja ${diferencia}? El cierre no se puede modificar.`)) return;
+
+    setProcesando(true);
+    const result = await supabaseCashSessionService.closeSession(cierre);
+    if (result.success) {
+      setSesionCajaActiva(companyId, null);
+      setSesion(null);
+      setMovimientos([]);
+      setContado({});
+      setNotas('');
+      setMensaje(`Caja cerrada ${diferencia}`);
+      descargarCierre(cierre);
+      const historial = await supabaseCashSessionService.getClosedSessions(companyId, 20);
+      setCerradas(historial.data || []);
+    } else {
+      setMensaje(`Error al cerrar la caja: ${result.error}`);
+    }
+    setProcesando(false);
+  };
+
+  const cargando = loading || loadingInvoices;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl title-primary">Caja</h1>
+        <div className="flex items-center space-x-2">
+          <span className="text-sm text-gray-400">
+            Sucursal {puntoVenta.sucursalNombre || puntoVenta.sucursal} · Terminal {puntoVenta.terminalNombre || puntoVenta.terminal}
+          </span>
+          <button className="btn-ghost flex items-center" onClick={cargarSesion} disabled={cargando}>
+            <RefreshCw className={`w-4 h-4 mr-1 ${cargando ? 'animate-spin' : ''}`} />
+            Actualizar
+          </button>
+        </div>
+      </div>
+
+      {mensaje && (
+        <div className="glass-card p-3 text-sm whitespace-pre-line">
+          {mensaje}
+        </div>
+      )}
+
+      {cargando ? (
+        <div className="glass-card p-8">
+          <Loader2 className="w-6 h-6 mx-auto animate-spin text-primary-500" />
+        </div>
+      ) : !sesion ? (
+        <div className="glass-card p-4 space-y-3 max-w-xl">
+          <h2 className="text-lg font-semibold flex items-center">
+            <Unlock className="w-5 h-5 mr-2" />
+            Apertura de caja
+          </h2>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="form-label">Fondo inicial</label>
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                className="form-input"
+                value={fondoInicial}
+                onChange={(e) => setFondoInicial(e.target.value)}
+              />
+            </div>
+            <div>
+              <label className="form-label">Moneda</label>
+              <select className="form-select" value={moneda} onChange={(e) => setMoneda(e.target.value)}>
+                <option value="CRC">CRC</option>
+                <option value="USD">USD</option>
+              </select>
+            </div>
+          </div>
+          <p className="text-sm text-gray-400">
+            Cajero: {usuario?.username || 'sin sesión'} · Terminal {terminal}
+          </p>
+          <button className="btn-primary flex items-center" onClick={abrirCaja} disabled={procesando}>
+            {procesando && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Abrir caja
+          </button>
+        </div>
+      ) : (
+        <>
+          <div className="glass-card p-4 grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <div>
+              <div className="text-gray-400">Terminal</div>
+              <div className="font-semibold">{sesion.terminal}</div>
+            </div>
+            <div>
+              <div className="text-gray-400">Cajero</div>
+              <div className="font-semibold">{sesion.usuario}</div>
+            </div>
+            <div>
+              <div className="text-gray-400">Apertura</div>
+              <div className="font-semibold">{new Date(sesion.fechaApertura).toLocaleString()}</div>
+            </div>
+            <div>
+              <div className="text-gray-400">Fondo inicial</div>
+              <div className="font-semibold">{formatMonto(sesion.fondoInicial, sesion.moneda)}</div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <div className="glass-card p-4 space-y-3">
+              <h2 className="text-lg font-semibold">Entradas y salidas de efectivo</h2>
+              <div className="grid grid-cols-12 gap-2 items-end">
+                <div className="col-span-3">
+                  <label className="form-label">Tipo</label>
+                  <select
+                    className="form-select"
+                    value={movimiento.tipo}
+                    onChange={(e) => setMovimiento({ ...movimiento, tipo: e.target.value as 'entrada' | 'salida' })}
+                  >
+                    <option value="entrada">Entrada</option>
+                    <option value="salida">Salida</option>
+                  </select>
+                </div>
+                <div className="col-span-3">
+                  <label className="form-label">Monto</label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    className="form-input"
+                    value={movimiento.monto}
+                    onChange={(e) => setMovimiento({ ...movimiento, monto: e.target.value })}
+                  />
+                </div>
+                <div className="col-span-5">
+                  <label className="form-label">Motivo</label>
+                  <input
+                    className="form-input"
+                    value={movimiento.motivo}
+                    onChange={(e) => setMovimiento({ ...movimiento, motivo: e.target.value })}
+                    placeholder="Retiro a bóveda, cambio, pago menor..."
+                  />
+                </div>
+                <div className="col-span-1">
+                  <button className="btn-ghost p-2" onClick={registrarMovimiento} title="Registrar movimiento">
+                    <Plus className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+              {movimientos.length > 0 ? (
+                <table className="w-full text-sm">
+                  <tbody>
+                    {movimientos.map((mov, index) => (
+                      <tr key={mov.id || index} className="border-t border-gray-700/50">
+                        <td className="py-1">{new Date(mov.fecha).toLocaleTimeString()}</td>
+                        <td className="py-1">{mov.motivo}</td>
+                        <td className={`py-1 text-right ${mov.tipo === 'salida' ? 'text-red-300' : 'text-green-300'}`}>
+                          {formatMonto(mov.tipo === 'entrada' ? mov.monto : -mov.monto, sesion.moneda)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : (
+                <p className="text-sm text-gray-400">No hay movimientos de efectivo en esta sesión.</p>
+              )}
+            </div>
+
+            <div className="glass-card p-4 space-y-3">
+              <h2 className="text-lg font-semibold flex items-center">
+                <Lock className="w-5 h-5 mr-2" />
+                Cierre de caja
+              </h2>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-gray-400 text-xs">
+                    <th className="text-left py-1">Medio de pago</th>
+                    <th className="text-right py-1">Esperado</th>
+                    <th className="text-right py-1">Contado</th>
+                    <th className="text-right py-1">Diferencia</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {arqueo.map(linea => {
+                    const key = `${linea.moneda}|${linea.medioPago}`;
+                    const diferencia = contado[key] !== undefined ? (parseFloat(contado[key]) || 0) - linea.esperado : null;
+                    return (
+                      <tr key={key} className="border-t border-gray-700/50">
+                        <td className="py-1">{linea.descripcion} ({linea.moneda})</td>
+                        <td className="py-1 text-right">{formatMonto(linea.esperado, linea.moneda)}</td>
+                        <td className="py-1 text-right">
+                          <input
+                            type="number"
+                            step="0.01"
+                            className="form-input w-32 text-right"
+                            value={contado[key] ?? ''}
+                            onChange={(e) => setContado(prev => ({ ...prev, [key]: e.target.value }))}
+                          />
+                        </td>
+                        <td className={`py-1 text-right ${diferencia && Math.abs(diferencia) >= 0.01 ? 'text-red-300' : ''}`}>
+                          {diferencia !== null ? formatMonto(diferencia, linea.moneda) : '-'}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+              <div>
+                <label className="form-label">Observaciones</label>
+                <textarea className="form-input" value={notas} onChange={(e) => setNotas(e.target.value)} />
+              </div>
+              <button className="btn-primary flex items-center" onClick={cerrarCaja} disabled={procesando}>
+                {procesando && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Cerrar caja e imprimir reporte Z
+              </button>
+            </div>
+          </div>
+
+          <div className="glass-card overflow-hidden">
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-gray-700">
+                    <th className="table-header">Hora</th>
+                    <th className="table-header">Documento</th>
+                    <th className="table-header">Cliente</th>
+                    <th className="table-header">Estado</th>
+                    <th className="table-header text-right">Total</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {documentos.length > 0 ? (
+                    documentos.map(documento => (
+                      <tr key={documento.id} className="table-row">
+                        <td className="table-cell">{new Date(documento.date).toLocaleTimeString()}</td>
+                        <td className="table-cell">{documento.numeroConsecutivo || documento.consecutive || documento.id}</td>
+                        <td className="table-cell">{documento.client}</td>
+                        <td className="table-cell">{documento.status}</td>
+                        <td className="table-cell text-right">{formatMonto(Number(documento.total) || 0, documento.moneda || 'CRC')}</td>
+                      </tr>
+                    ))
+                  ) : (
+                    <tr>
+                      <td colSpan={5} className="table-cell text-center py-8 text-gray-400">
+                        <Calculator className="w-8 h-8 mx-auto mb-2" />
+                        No se han emitido documentos en esta sesión.
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+
+      {cerradas.length > 0 && (
+        <div className="glass-card p-4 space-y-2">
+          <h2 className="text-lg font-semibold">Cierres anteriores</h2>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-gray-400 text-xs">
+                <th className="text-left py-1">Cierre</th>
+                <th className="text-left py-1">Terminal</th>
+                <th className="text-left py-1">Cajero</th>
+                <th className="text-right py-1">Diferencia</th>
+                <th className="py-1"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {cerradas.map(registro => (
+                <tr key={registro.id} className="border-t border-gray-700/50">
+                  <td className="py-1">{registro.fecha_cierre ? new Date(registro.fecha_cierre).toLocaleString() : '-'}</td>
+                  <td className="py-1">{registro.terminal}</td>
+                  <td className="py-1">{registro.username}</td>
+                  <td className={`py-1 text-right ${Number(registro.diferencia_total) < 0 ? 'text-red-300' : ''}`}>
+                    {formatMonto(Number(registro.diferencia_total) || 0, registro.moneda)}
+                  </td>
+                  <td className="py-1 text-right">
+                    {registro.cierre && (
+                      <button
+                        className="btn-ghost p-1"
+                        onClick={() => registro.cierre && descargarCierre(registro.cierre)}
+                        title="Descargar reporte Z"
+                      >
+                        <Download className="w-4 h-4" />
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Caja;
@@ -0,0 +1,545 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Landmark, RefreshCw, Loader2, Upload, Plus, Trash2, X, CheckCircle, EyeOff } from 'lucide-react';
+import { useInvoiceHistory, PagoFactura } from '../hooks/useInvoiceHistory';
+import { useUserSettings } from '../hooks/useUserSettings';
+import { buildEmisorFromSettings } from '../services/creditNoteService';
+import { aplicarPagosRegistrados } from '../services/invoicePaymentService';
+import { supabaseInvoicePaymentService } from '../services/supabaseInvoicePaymentService';
+import { registerInvoicePayment } from '../services/paymentRegistrationService';
+import { BankAccount, supabaseBankAccountService } from '../services/supabaseBankAccountService';
+import { BankTransaction, supabaseBankTransactionService } from '../services/supabaseBankTransactionService';
+import { FORMATOS_EXTRACTO, parseBankStatement } from '../services/bankStatementService';
+import {
+  AsignacionConciliacion,
+  getFacturasAbiertas,
+  sugerirConciliacion,
+  validarAsignaciones
+} from '../services/bankReconciliationService';
+
+const CUENTA_VACIA: BankAccount = { banco: 'BCR', numero_cuenta: '', moneda: 'CRC', tipo: 'Corriente', alias: '' };
+
+const ConciliacionBancaria = () => {
+  const { invoices, loading: loadingInvoices } = useInvoiceHistory();
+  const { settings } = useUserSettings();
+  const companyId = localStorage.getItem('selected_company') || 'innova';
+  const [cuentas, setCuentas] = useState<BankAccount[]>([]);
+  const [cuentaId, setCuentaId] = useState('');
+  const [movimientos, setMovimientos] = useState<BankTransaction[]>([]);
+  const [pagosPorFactura, setPagosPorFactura] = useState<Record<string, PagoFactura[]>>();
+  const [loading, setLoading] = useState(true);
+  const [importando, setImportando] = useState(false);
+  const [mensaje, setMensaje] = useState('');
+  const [nuevaCuenta, setNuevaCuenta] = useState<BankAccount | null>(null);
+  // Depósito en revisión y su reparto entre facturas
+  const [revision, setRevision] = useState<BankTransaction | null>(null);
+  const [asignaciones, setAsignaciones] = useState<{ facturaId: string; monto: string }[]>([]);
+  const [conciliando, setConciliando] = useState(false);
+
+  const cuenta = cuentas.find(c => c.id === cuentaId);
+
+  const cargarCuentas = useCallback(async () => {
+    const result = await supabaseBankAccountService.getAccounts(companyId);
+    if (result.success && result.data) {
+      const cuentasEmpresa = result.data;
+      setCuentas(cuentasEmpresa);
+      // Conservar la cuenta elegida si sigue existiendo
+      setCuentaId(actual => (cuentasEmpresa.some(c => c.id === actual) ? actual : cuentasEmpresa[0]?.id || ''));
+    } else {
+      setMensaje(`No se pudieron cargar las cuentas bancarias: ${result.error}`);
+    }
+  }, [companyId]);
+
+  // Cargar los depósitos pendientes y los pagos registrados para calcular los saldos
+  const cargarMovimientos = useCallback(async () => {
+    setLoading(true);
+    const [transacciones, pagos] = await Promise.all([
+      supabaseBankTransactionService.getTransactions(companyId, { estado: 'pendiente' }),
+      supabaseInvoicePaymentService.getPayments(companyId)
+    ]);
+    if (transacciones.success) {
+      setMovimientos(transacciones.data || []);
+    } else {
+      setMensaje(`No se pudieron cargar los movimientos: ${transacciones.error}`);
+    }
+    if (pagos.success) {
+      setPagosPorFactura(pagos.data);
+    }
+    setLoading(false);
+  }, [companyId]);
+
+  useEffect(() => {
+    cargarCuentas();
+    cargarMovimientos();
+  }, [cargarCuentas, cargarMovimientos]);
+
+  const facturas = useMemo(() => aplicarPagosRegistrados(invoices, pagosPorFactura), [invoices, pagosPorFactura]);
+  const abiertas = useMemo(
+    () => (cuenta ? getFacturasAbiertas(facturas, cuenta.moneda) : []),
+    [facturas, cuenta]
+  );
+
+  // Solo los depósitos se concilian con facturas
+  const depositos = useMemo(
+    () => movimientos
+      .filter(mov => mov.bank_account_id === cuentaId && mov.monto > 0)
+      .map(mov => ({ movimiento: mov, sugerencias: sugerirConciliacion(mov, abiertas) })),
+    [movimientos, cuentaId, abiertas]
+  );
+
+  const formatMonto = (monto: number, moneda = cuenta?.moneda || 'CRC') =>
+    `${moneda} ${monto.toLocaleString('es-CR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+  const nombreFactura = (id: string) => {
+    const documento = abiertas.find(doc => doc.factura.id === id);
+    return documento
+      ? `${documento.factura.numeroConsecutivo || documento.factura.consecutive || documento.factura.id} - ${documento.factura.client}`
+      : id;
+  };
+
+  const guardarCuenta = async () => {
+    if (!nuevaCuenta) return;
+    if (!nuevaCuenta.numero_cuenta.trim()) {
+      setMensaje('Ingrese el número de cuenta o IBAN');
+      return;
+    }
+    const result = await supabaseBankAccountService.saveAccount(nuevaCuenta, companyId);
+    if (result.success && result.data) {
+      setNuevaCuenta(null);
+      setCuentaId(result.data.id || '');
+      await cargarCuentas();
+      setMensaje(`Cuenta ${result.data.numero_cuenta} guardada`);
+    } else {
+      setMensaje(`Error al guardar la cuenta: ${result.error}`);
+    }
+  };
+
+  const desactivarCuenta = async (id: string) => {
+    if (!window.confirm('¿Desactivar la cuenta? Sus movimientos importados se conservan.')) return;
+    const result = await supabaseBankAccountService.deactivateAccount(id);
+    if (result.success) {
+      await cargarCuentas();
+    } else {
+      setMensaje(`Error al desactivar la cuenta: ${result.error}`);
+    }
+  };
+
+  const importarArchivo = async (archivo: File) => {
+    if (!cuenta?.id) {
+      setMensaje('Seleccione la cuenta bancaria del estado de cuenta');
+      return;
+    }
+    setImportando(true);
+    try {
+      const banco = FORMATOS_EXTRACTO.find(f => f.codigo === cuenta.banco)?.codigo;
+      const leidos = parseBankStatement(await archivo.text(), archivo.name, banco);
+      const result = await supabaseBankTransactionService.importTransactions(cuenta.id, leidos, archivo.name, companyId);
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+      setMensaje(`${result.importados} movimiento(s) importado(s)${result.duplicados ? `, ${result.duplicados} ya importado(s) anteriormente` : ''}`);
+      await cargarMovimientos();
+    } catch (error) {
+      setMensaje(`Error al importar el estado de cuenta: ${error instanceof Error ? error.message : 'Error desconocido'}`);
+    } finally {
+      setImportando(false);
+    }
+  };
+
+  const abrirRevision = (movimiento: BankTransaction, propuesta?: AsignacionConciliacion[]) => {
+    setRevision(movimiento);
+    setAsignaciones(
+      propuesta && propuesta.length > 0
+        ? propuesta.map(a => ({ facturaId: a.factura.id, monto: a.monto.toFixed(2) }))
+        : [{ facturaId: '', monto: movimiento.monto.toFixed(2) }]
+    );
+  };
+
+  const ignorarMovimiento = async (movimiento: BankTransaction) => {
+    if (!movimiento.id) return;
+    const result = await supabaseBankTransactionService.updateStatus(movimiento.id, 'ignorado');
+    if (result.success) {
+      setMovimientos(prev => prev.filter(mov => mov.id !== movimiento.id));
+    } else {
+      setMensaje(`Error al actualizar el movimiento: ${result.error}`);
+    }
+  };
+
+  // Registrar un pago por cada factura asignada y marcar el depósito como conciliado
+  const confirmarConciliacion = async () => {
+    if (!revision?.id || !cuenta) return;
+    setConciliando(true);
+    const registrados: string[] = [];
+    try {
+      const partes: AsignacionConciliacion[] = asignaciones.map(asignacion => {
+        const documento = abiertas.find(doc => doc.factura.id === asignacion.facturaId);
+        if (!documento) {
+          throw new Error('Seleccione la factura de cada parte del depósito');
+        }
+        return { factura: documento.factura, saldo: documento.saldo, monto: parseFloat(asignacion.monto) || 0 };
+      });
+      validarAsignaciones(revision.monto, partes);
+
+      const emisor = settings ? buildEmisorFromSettings(settings) : null;
+      for (const parte of partes) {
+        const pago: PagoFactura = {
+          fechaPago: revision.fecha,
+          monto: parte.monto,
+          medioPago: '04',
+          cuentaBancaria: cuenta.id,
+          banco: cuenta.banco,
+          referencia: revision.referencia,
+          notas: `Conciliación bancaria: ${revision.descripcion}`,
+          movimientoBancarioId: revision.id
+        };
+        const resultado = await registerInvoicePayment(parte.factura, pago, emisor, companyId, facturas);
+        if (!resultado.success) {
+          throw new Error(`${parte.factura.numeroConsecutivo || parte.factura.id}: ${resultado.error}`);
+        }
+        registrados.push(parte.factura.numeroConsecutivo || parte.factura.id);
+      }
+
+      const result = await supabaseBankTransactionService.updateStatus(revision.id, 'conciliado');
+      if (!result.success) {
+        throw new Error(`Los pagos se registraron pero el depósito no se marcó como conciliado: ${result.error}`);
+      }
+
+      setMensaje(`Depósito de ${formatMonto(revision.monto)} conciliado con ${registrados.join(', ')}`);
+      setRevision(null);
+      await cargarMovimientos();
+    } catch (error) {
+      const detalle = error instanceof Error ? error.message : 'Error desconocido';
+      setMensaje(
+        registrados.length > 0
+          ? `Se registraron los pagos de ${registrados.join(', ')}, pero la conciliación quedó incompleta: ${detalle}`
+          : `Error al conciliar el depósito: ${detalle}`
+      );
+      if (registrados.length > 0) {
+        setRevision(null);
+        await cargarMovimientos();
+      }
+    } finally {
+      setConciliando(false);
+    }
+  };
+
+  const sugerenciasRevision = useMemo(
+    () => (revision ? sugerirConciliacion(revision, abiertas) : []),
+    [revision, abiertas]
+  );
+  const totalAsignado = asignaciones.reduce((sum, a) => sum + (parseFloat(a.monto) || 0), 0);
+  const cargando = loading || loadingInvoices;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl title-primary">Conciliación Bancaria</h1>
+        <div className="flex items-center space-x-2">
+          <select
+            className="form-select"
+            value={cuentaId}
+            onChange={(e) => setCuentaId(e.target.value)}
+          >
+            {cuentas.length === 0 && <option value="">Sin cuentas registradas</option>}
+            {cuentas.map(c => (
+              <option key={c.id} value={c.id}>
+                {c.alias || c.banco} - {c.numero_cuenta} ({c.moneda})
+              </option>
+            ))}
+          </select>
+          <button className="btn-ghost flex items-center" onClick={cargarMovimientos} disabled={cargando}>
+            <RefreshCw className={`w-4 h-4 mr-1 ${cargando ? 'animate-spin' : ''}`} />
+            Actualizar
+          </button>
+        </div>
+      </div>
+
+      {mensaje && (
+        <div className="glass-card p-3 text-sm whitespace-pre-line">
+          {mensaje}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <div className="glass-card p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-semibold">Cuentas bancarias</h2>
+            <button className="btn-ghost flex items-center text-sm" onClick={() => setNuevaCuenta({ ...CUENTA_VACIA })}>
+              <Plus className="w-4 h-4 mr-1" />
+              Agregar
+            </button>
+          </div>
+          {cuentas.map(c => (
+            <div key={c.id} className="flex items-center justify-between text-sm border-b border-gray-700/50 pb-2">
+              <div>
+                <div className="font-medium">{c.alias || c.banco}</div>
+                <div className="text-xs text-gray-400">{c.banco} · {c.tipo} · {c.numero_cuenta} · {c.moneda}</div>
+              </div>
+              <button className="btn-ghost p-1" onClick={() => c.id && desactivarCuenta(c.id)} title="Desactivar cuenta">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          {nuevaCuenta && (
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="form-label">Banco</label>
+                <select
+                  className="form-select"
+                  value={nuevaCuenta.banco}
+                  onChange={(e) => setNuevaCuenta({ ...nuevaCuenta, banco: e.target.value })}
+                >
+                  {FORMATOS_EXTRACTO.map(f => (
+                    <option key={f.codigo} value={f.codigo}>{f.nombre}</option>
+                  ))}
+                  <option value="Otro">Otro</option>
+                </select>
+              </div>
+              <div>
+                <label className="form-label">Número de cuenta / IBAN</label>
+                <input
+                  className="form-input"
+                  value={nuevaCuenta.numero_cuenta}
+                  onChange={(e) => setNuevaCuenta({ ...nuevaCuenta, numero_cuenta: e.target.value })}
+                />
+              </div>
+              <div>
+                <label className="form-label">Moneda</label>
+                <select
+                  className="form-select"
+                  value={nuevaCuenta.moneda}
+                  onChange={(e) => setNuevaCuenta({ ...nuevaCuenta, moneda: e.target.value })}
+                >
+                  <option value="CRC">CRC</option>
+                  <option value="USD">USD</option>
+                  <option value="EUR">EUR</option>
+                </select>
+              </div>
+              <div>
+                <label className="form-label">Tipo</label>
+                <select
+                  className="form-select"
+                  value={nuevaCuenta.tipo}
+                  onChange={(e) => setNuevaCuenta({ ...nuevaCuenta, tipo: e.target.value as BankAccount['tipo'] })}
+                >
+                  <option value="Corriente">Corriente</option>
+                  <option value="Ahorros">Ahorros</option>
+                  <option value="Digital">Digital</option>
+                </select>
+              </div>
+              <div className="col-span-2">
+                <label className="form-label">Alias</label>
+                <input
+                  className="form-input"
+                  value={nuevaCuenta.alias || ''}
+                  onChange={(e) => setNuevaCuenta({ ...nuevaCuenta, alias: e.target.value })}
+                />
+              </div>
+              <div className="col-span-2 flex justify-end space-x-2">
+                <button className="btn-ghost" onClick={() => setNuevaCuenta(null)}>Cancelar</button>
+                <button className="btn-primary" onClick={guardarCuenta}>Guardar cuenta</button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="glass-card p-4 space-y-3">
+          <h2 className="text-lg font-semibold">Importar estado de cuenta</h2>
+          <p className="text-sm text-gray-400">
+            Archivos CSV descargados de la banca en línea de BCR, BN o BAC, o archivos OFX de cualquier banco.
+            Los movimientos ya importados se omiten.
+          </p>
+          <label className={`btn-primary inline-flex items-center cursor-pointer ${!cuenta || importando ? 'opacity-50 pointer-events-none' : ''}`}>
+            {importando ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+            Seleccionar archivo
+            <input
+              type="file"
+              accept=".csv,.txt,.ofx,.qfx"
+              className="hidden"
+              onChange={(e) => {
+                const archivo = e.target.files?.[0];
+                if (archivo) importarArchivo(archivo);
+                e.target.value = '';
+              }}
+            />
+          </label>
+        </div>
+      </div>
+
+      <div className="glass-card overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-gray-700">
+                <th className="table-header">Fecha</th>
+                <th className="table-header">Descripción</th>
+                <th className="table-header">Referencia</th>
+                <th className="table-header text-right">Monto</th>
+                <th className="table-header">Sugerencia</th>
+                <th className="table-header">Acciones</th>
+              </tr>
+            </thead>
+            <tbody>
+              {cargando ? (
+                <tr>
+                  <td colSpan={6} className="table-cell text-center py-8">
+                    <Loader2 className="w-6 h-6 mx-auto animate-spin text-primary-500" />
+                  </td>
+                </tr>
+              ) : depositos.length > 0 ? (
+                depositos.map(({ movimiento, sugerencias }) => (
+                  <tr key={movimiento.id} className="table-row">
+                    <td className="table-cell">{movimiento.fecha}</td>
+                    <td className="table-cell text-sm">{movimiento.descripcion}</td>
+                    <td className="table-cell text-sm">{movimiento.referencia || '-'}</td>
+                    <td className="table-cell text-right font-medium">{formatMonto(movimiento.monto)}</td>
+                    <td className="table-cell text-sm">
+                      {sugerencias[0] ? (
+                        <>
+                          <span className="block">
+                            {sugerencias[0].asignaciones.map(a => a.factura.numeroConsecutivo || a.factura.id).join(', ')}
+                          </span>
+                          <span className="text-xs text-gray-400">{sugerencias[0].motivos.join(' · ')}</span>
+                        </>
+                      ) : (
+                        <span className="text-gray-400">Sin coincidencias</span>
+                      )}
+                    </td>
+                    <td className="table-cell">
+                      <div className="flex space-x-2">
+                        <button
+                          className="btn-ghost flex items-center text-sm"
+                          onClick={() => abrirRevision(movimiento, sugerencias[0]?.asignaciones)}
+                          title="Revisar y conciliar"
+                        >
+                          <CheckCircle className="w-4 h-4" />
+                        </button>
+                        <button
+                          className="btn-ghost flex items-center text-sm"
+                          onClick={() => ignorarMovimiento(movimiento)}
+                          title="Ignorar: el depósito no corresponde a una factura"
+                        >
+                          <EyeOff className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))
+              ) : (
+                <tr>
+                  <td colSpan={6} className="table-cell text-center py-8 text-gray-400">
+                    <Landmark className="w-8 h-8 mx-auto mb-2" />
+                    No hay depósitos pendientes de conciliar en esta cuenta.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {revision && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-4">
+          <div className="glass-card max-w-3xl w-full p-6 space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-semibold">Conciliar depósito</h3>
+              <button type="button" className="btn-ghost p-1" onClick={() => setRevision(null)}>
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+
+            <div className="text-sm">
+              <div>{revision.fecha} · {revision.descripcion}{revision.referencia ? ` · Ref. ${revision.referencia}` : ''}</div>
+              <div className="text-xl font-semibold mt-1">{formatMonto(revision.monto)}</div>
+            </div>
+
+            {sugerenciasRevision.length > 0 && (
+              <div className="space-y-2">
+                <div className="text-sm text-gray-400">Sugerencias</div>
+                {sugerenciasRevision.map((sugerencia, index) => (
+                  <button
+                    key={index}
+                    type="button"
+                    className="w-full text-left border border-gray-700 rounded p-2 text-sm hover:bg-white/5"
+                    onClick={() => abrirRevision(revision, sugerencia.asignaciones)}
+                  >
+                    <span className="block">
+                      {sugerencia.asignaciones
+                        .map(a => `${a.factura.numeroConsecutivo || a.factura.id} (${formatMonto(a.monto)})`)
+                        .join(', ')}
+                    </span>
+                    <span className="text-xs text-gray-400">{sugerencia.motivos.join(' · ')}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <div className="text-sm text-gray-400">Facturas a las que se aplica el depósito</div>
+              {asignaciones.map((asignacion, index) => (
+                <div key={index} className="flex items-center space-x-2">
+                  <select
+                    className="form-select flex-1"
+                    value={asignacion.facturaId}
+                    onChange={(e) => setAsignaciones(prev => prev.map((a, i) => (i === index ? { ...a, facturaId: e.target.value } : a)))}
+                  >
+                    <option value="">Seleccione una factura</option>
+                    {abiertas.map(doc => (
+                      <option key={doc.factura.id} value={doc.factura.id}>
+                        {nombreFactura(doc.factura.id)} · saldo {formatMonto(doc.saldo)}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    className="form-input w-40"
+                    value={asignacion.monto}
+                    onChange={(e) => setAsignaciones(prev => prev.map((a, i) => (i === index ? { ...a, monto: e.target.value } : a)))}
+                  />
+                  <button
+                    type="button"
+                    className="btn-ghost p-1"
+                    onClick={() => setAsignaciones(prev => prev.filter((_, i) => i !== index))}
+                    title="Quitar"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              <button
+                type="button"
+                className="btn-ghost flex items-center text-sm"
+                onClick={() => setAsignaciones(prev => [
+                  ...prev,
+                  { facturaId: '', monto: Math.max(revision.monto - totalAsignado, 0).toFixed(2) }
+                ])}
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Dividir en otra factura
+              </button>
+              <div className="text-sm text-right">
+                Asignado {formatMonto(totalAsignado)} · Sin asignar {formatMonto(Math.max(revision.monto - totalAsignado, 0))}
+              </div>
+            </div>
+
+            <div className="flex justify-end space-x-2">
+              <button type="button" className="btn-ghost" onClick={() => setRevision(null)}>Cancelar</button>
+              <button
+                type="button"
+                className="btn-primary flex items-center"
+                onClick={confirmarConciliacion}
+                disabled={conciliando}
+              >
+                {conciliando && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Confirmar conciliación
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ConciliacionBancaria;
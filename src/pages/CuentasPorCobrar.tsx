@@ -0,0 +1,277 @@
+import { useState, useEffect, useCallback, useMemo, Fragment } from 'react';
+import { Wallet, RefreshCw, Loader2, ChevronDown, ChevronRight, Download, Mail } from 'lucide-react';
+import { useInvoiceHistory, PagoFactura } from '../hooks/useInvoiceHistory';
+import { useUserSettings } from '../hooks/useUserSettings';
+import { buildEmisorFromSettings } from '../services/creditNoteService';
+import { aplicarPagosRegistrados } from '../services/invoicePaymentService';
+import { supabaseInvoicePaymentService } from '../services/supabaseInvoicePaymentService';
+import {
+  AntiguedadCliente,
+  TRAMOS_ANTIGUEDAD,
+  buildAgingReport,
+  buildEstadoCuenta
+} from '../services/accountsReceivableService';
+import { generateEstadoCuentaPDF, downloadEstadoCuentaPDF, generatePdfBlob } from '../services/pdfService';
+import { sendInvoiceEmail, blobToBase64 } from '../services/emailService';
+
+const CuentasPorCobrar = () => {
+  const { invoices, loading: loadingInvoices } = useInvoiceHistory();
+  const { settings } = useUserSettings();
+  const companyId = localStorage.getItem('selected_company') || 'innova';
+  const [pagosPorFactura, setPagosPorFactura] = useState<Record<string, PagoFactura[]>>();
+  const [loading, setLoading] = useState(true);
+  const [fechaCorte, setFechaCorte] = useState(new Date().toISOString().substring(0, 10));
+  const [expandido, setExpandido] = useState<string | null>(null);
+  const [enviando, setEnviando] = useState<string | null>(null);
+  const [mensaje, setMensaje] = useState('');
+
+  // Cargar los pagos y abonos registrados para calcular los saldos
+  const cargarPagos = useCallback(async () => {
+    setLoading(true);
+    const result = await supabaseInvoicePaymentService.getPayments(companyId);
+    if (result.success) {
+      setPagosPorFactura(result.data);
+    } else {
+      setMensaje(`No se pudieron cargar los pagos: ${result.error}`);
+    }
+    setLoading(false);
+  }, [companyId]);
+
+  useEffect(() => {
+    cargarPagos();
+  }, [cargarPagos]);
+
+  const corte = useMemo(() => new Date(`${fechaCorte}T23:59:59`), [fechaCorte]);
+  const facturas = useMemo(() => aplicarPagosRegistrados(invoices, pagosPorFactura), [invoices, pagosPorFactura]);
+  const reporte = useMemo(() => buildAgingReport(facturas, corte), [facturas, corte]);
+
+  // Totales por moneda de cada tramo
+  const totalesPorMoneda = useMemo(() => {
+    const totales: Record<string, AntiguedadCliente['tramos'] & { total: number }> = {};
+    reporte.forEach(fila => {
+      if (!totales[fila.moneda]) {
+        totales[fila.moneda] = { 'corriente': 0, '1-30': 0, '31-60': 0, '61-90': 0, '90+': 0, total: 0 };
+      }
+      TRAMOS_ANTIGUEDAD.forEach(({ tramo }) => { totales[fila.moneda][tramo] += fila.tramos[tramo]; });
+      totales[fila.moneda].total += fila.total;
+    });
+    return totales;
+  }, [reporte]);
+
+  const formatMonto = (monto: number, moneda: string) =>
+    `${moneda} ${monto.toLocaleString('es-CR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+  const generarEstadoCuenta = (fila: AntiguedadCliente) => {
+    if (!settings) {
+      throw new Error('Configure los datos de la empresa antes de generar estados de cuenta');
+    }
+    const estado = buildEstadoCuenta(facturas, fila.clienteId, fila.moneda, corte);
+    return { estado, pdf: generateEstadoCuentaPDF(estado, buildEmisorFromSettings(settings)) };
+  };
+
+  const descargarEstadoCuenta = (fila: AntiguedadCliente) => {
+    try {
+      const { estado, pdf } = generarEstadoCuenta(fila);
+      downloadEstadoCuentaPDF(pdf, estado);
+    } catch (error) {
+      setMensaje(error instanceof Error ? error.message : 'Error al generar el estado de cuenta');
+    }
+  };
+
+  const enviarEstadoCuenta = async (fila: AntiguedadCliente) => {
+    if (!fila.correo) {
+      setMensaje(`El cliente ${fila.cliente} no tiene correo registrado`);
+      return;
+    }
+
+    const key = `${fila.clienteId}|${fila.moneda}`;
+    setEnviando(key);
+    try {
+      const { estado, pdf } = generarEstadoCuenta(fila);
+      const pdfBase64 = await blobToBase64(generatePdfBlob(pdf));
+      const empresa = settings?.company_name || '';
+      const result = await sendInvoiceEmail(
+        fila.correo,
+        fila.cliente,
+        `EC-${fechaCorte}`,
+        pdfBase64,
+        '',
+        undefined,
+        `Estado de cuenta al ${fechaCorte} - ${empresa}`,
+        `Adjunto encontrará su estado de cuenta en ${estado.moneda} al ${fechaCorte}. Saldo pendiente: ${formatMonto(estado.saldo, estado.moneda)}.`
+      );
+      setMensaje(result.success ? `Estado de cuenta enviado a ${fila.correo}` : `Error al enviar el estado de cuenta: ${result.message}`);
+    } catch (error) {
+      setMensaje(error instanceof Error ? error.message : 'Error al enviar el estado de cuenta');
+    } finally {
+      setEnviando(null);
+    }
+  };
+
+  const cargando = loading || loadingInvoices;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl title-primary">Cuentas por Cobrar</h1>
+        <div className="flex items-center space-x-2">
+          <label className="form-label mb-0" htmlFor="fechaCorte">Fecha de corte</label>
+          <input
+            id="fechaCorte"
+            type="date"
+            className="form-input"
+            value={fechaCorte}
+            onChange={(e) => setFechaCorte(e.target.value)}
+          />
+          <button className="btn-ghost flex items-center" onClick={cargarPagos} disabled={cargando}>
+            <RefreshCw className={`w-4 h-4 mr-1 ${cargando ? 'animate-spin' : ''}`} />
+            Actualizar
+          </button>
+        </div>
+      </div>
+
+      {mensaje && (
+        <div className="glass-card p-3 text-sm whitespace-pre-line">
+          {mensaje}
+        </div>
+      )}
+
+      {Object.keys(totalesPorMoneda).length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {Object.entries(totalesPorMoneda).map(([moneda, totales]) => (
+            <div key={moneda} className="glass-card p-4">
+              <div className="text-sm text-gray-400 mb-2">Total por cobrar en {moneda}</div>
+              <div className="text-xl font-semibold mb-3">{formatMonto(totales.total, moneda)}</div>
+              <div className="grid grid-cols-5 gap-2 text-xs">
+                {TRAMOS_ANTIGUEDAD.map(({ tramo, descripcion }) => (
+                  <div key={tramo}>
+                    <div className="text-gray-400">{descripcion}</div>
+                    <div className={tramo === 'corriente' ? '' : 'text-red-300'}>{formatMonto(totales[tramo], moneda)}</div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="glass-card overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-gray-700">
+                <th className="table-header">Cliente</th>
+                <th className="table-header">Moneda</th>
+                {TRAMOS_ANTIGUEDAD.map(({ tramo, descripcion }) => (
+                  <th key={tramo} className="table-header text-right">{descripcion}</th>
+                ))}
+                <th className="table-header text-right">Total</th>
+                <th className="table-header">Estado de cuenta</th>
+              </tr>
+            </thead>
+            <tbody>
+              {cargando ? (
+                <tr>
+                  <td colSpan={9} className="table-cell text-center py-8">
+                    <Loader2 className="w-6 h-6 mx-auto animate-spin text-primary-500" />
+                  </td>
+                </tr>
+              ) : reporte.length > 0 ? (
+                reporte.map(fila => {
+                  const key = `${fila.clienteId}|${fila.moneda}`;
+                  return (
+                    <Fragment key={key}>
+                      <tr className="table-row">
+                        <td className="table-cell">
+                          <button
+                            className="flex items-center text-left"
+                            onClick={() => setExpandido(expandido === key ? null : key)}
+                          >
+                            {expandido === key
+                              ? <ChevronDown className="w-4 h-4 mr-1" />
+                              : <ChevronRight className="w-4 h-4 mr-1" />}
+                            <span>
+                              <span className="font-medium block">{fila.cliente}</span>
+                              <span className="text-xs text-gray-400">{fila.clienteId} · {fila.documentos.length} documento(s)</span>
+                            </span>
+                          </button>
+                        </td>
+                        <td className="table-cell">{fila.moneda}</td>
+                        {TRAMOS_ANTIGUEDAD.map(({ tramo }) => (
+                          <td key={tramo} className={`table-cell text-right text-sm ${tramo !== 'corriente' && fila.tramos[tramo] > 0 ? 'text-red-300' : ''}`}>
+                            {fila.tramos[tramo] > 0 ? formatMonto(fila.tramos[tramo], fila.moneda) : '-'}
+                          </td>
+                        ))}
+                        <td className="table-cell text-right font-medium">{formatMonto(fila.total, fila.moneda)}</td>
+                        <td className="table-cell">
+                          <div className="flex space-x-2">
+                            <button
+                              className="btn-ghost flex items-center text-sm"
+                              onClick={() => descargarEstadoCuenta(fila)}
+                              title="Descargar PDF"
+                            >
+                              <Download className="w-4 h-4" />
+                            </button>
+                            <button
+                              className="btn-ghost flex items-center text-sm"
+                              onClick={() => enviarEstadoCuenta(fila)}
+                              disabled={enviando === key || !fila.correo}
+                              title={fila.correo ? `Enviar a ${fila.correo}` : 'El cliente no tiene correo registrado'}
+                            >
+                              {enviando === key ? <Loader2 className="w-4 h-4 animate-spin" /> : <Mail className="w-4 h-4" />}
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                      {expandido === key && (
+                        <tr>
+                          <td colSpan={9} className="px-6 pb-4">
+                            <table className="w-full text-sm">
+                              <thead>
+                                <tr className="text-gray-400 text-xs">
+                                  <th className="text-left py-1">Documento</th>
+                                  <th className="text-left py-1">Emisión</th>
+                                  <th className="text-left py-1">Vencimiento</th>
+                                  <th className="text-right py-1">Días vencidos</th>
+                                  <th className="text-right py-1">Total</th>
+                                  <th className="text-right py-1">Saldo</th>
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {fila.documentos.map(documento => (
+                                  <tr key={documento.factura.id} className="border-t border-gray-700/50">
+                                    <td className="py-1">{documento.factura.numeroConsecutivo || documento.factura.consecutive || documento.factura.id}</td>
+                                    <td className="py-1">{new Date(documento.factura.date).toLocaleDateString()}</td>
+                                    <td className="py-1">{documento.fechaVencimiento.toLocaleDateString()}</td>
+                                    <td className={`py-1 text-right ${documento.diasVencidos > 0 ? 'text-red-300' : ''}`}>
+                                      {documento.diasVencidos > 0 ? documento.diasVencidos : 'Al día'}
+                                    </td>
+                                    <td className="py-1 text-right">{formatMonto(Number(documento.factura.total) || 0, fila.moneda)}</td>
+                                    <td className="py-1 text-right font-medium">{formatMonto(documento.saldo, fila.moneda)}</td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  );
+                })
+              ) : (
+                <tr>
+                  <td colSpan={9} className="table-cell text-center py-8 text-gray-400">
+                    <Wallet className="w-8 h-8 mx-auto mb-2" />
+                    No hay facturas a crédito con saldo pendiente.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CuentasPorCobrar;
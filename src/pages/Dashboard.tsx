@@ -1,10 +1,15 @@
 import { FileText, DollarSign, Users, BarChart3, ArrowUpRight, ArrowRight, Loader2, AlertTriangle, PlusCircle, Calendar, History, FilePlus, PieChart, TrendingUp } from 'lucide-react';
+import { useState } from 'react';
 import { useDashboardStats } from '../hooks/useDashboardStats';
+import PuntoVentaFilter from '../components/PuntoVentaFilter';
+import { FiltroPuntoVenta } from '../services/branchService';
 import { useNavigate } from 'react-router-dom';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 
 const Dashboard = () => {
   const navigate = useNavigate();
+  // Sucursal y terminal de los documentos incluidos en las estadísticas
+  const [filtroPuntoVenta, setFiltroPuntoVenta] = useState<FiltroPuntoVenta>({});
   
   // Usar el hook personalizado para obtener estadísticas reales
   const { 
@@ -13,10 +18,11 @@ const Dashboard = () => {
     clientsCount, 
     productsCount, 
     recentInvoices,
+    documentos,
     dailySales,
     loading, 
     error 
-  } = useDashboardStats();
+  } = useDashboardStats(filtroPuntoVenta);
 
   // Función para formatear el porcentaje de cambio
   const formatPercentChange = (change: number): string => {
@@ -54,6 +60,9 @@ const Dashboard = () => {
       <div className="text-right text-xs text-gray-400 -mt-5 mb-5">
         Última actualización: {new Date().toLocaleDateString()}
       </div>
+      <div className="flex flex-wrap gap-2 mb-5">
+        <PuntoVentaFilter value={filtroPuntoVenta} onChange={setFiltroPuntoVenta} documentos={documentos} />
+      </div>
       
       {/* Mensaje de error si hay problemas al cargar los datos */}
       {error && (
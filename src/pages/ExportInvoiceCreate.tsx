@@ -0,0 +1,420 @@
+import { useState, useEffect } from 'react';
+import { Globe, Plus, Trash2, Loader2 } from 'lucide-react';
+import { useUserSettings } from '../hooks/useUserSettings';
+import { useInvoiceHistory } from '../hooks/useInvoiceHistory';
+import { Party } from '../types/invoice';
+import { buildEmisorFromSettings } from '../services/creditNoteService';
+import {
+  buildExportInvoice,
+  toStoredExportInvoice,
+  ExportInvoiceLine,
+  ExportInvoiceOptions,
+  MONEDAS_EXPORTACION
+} from '../services/exportInvoiceService';
+import { getExchangeRate } from '../services/exchangeRateService';
+import { generateSequence, getDraftSequence } from '../services/sequenceService';
+import { getPuntoVenta } from '../services/branchService';
+import { generateExportInvoiceXML, downloadXML } from '../services/xmlService';
+import { validateComprobanteXml, XsdValidationError } from '../services/xsdValidationService';
+import { signXml, loadSignatureKeys } from '../services/signatureService';
+import { sendXMLToHacienda } from '../services/haciendaApiService';
+import { generatePDF, downloadPDF } from '../services/pdfService';
+import XmlValidationErrors from '../components/XmlValidationErrors';
+
+const lineaVacia = (): ExportInvoiceLine => ({
+  codigoCabys: '',
+  partidaArancelaria: '',
+  detalle: '',
+  cantidad: 1,
+  unidadMedida: 'Unid',
+  precioUnitario: 0
+});
+
+const receptorVacio = (): Party => ({
+  nombre: '',
+  identificacion: { tipo: '', numero: '' },
+  identificacionExtranjero: '',
+  otrasSenasExtranjero: '',
+  correo: ''
+});
+
+const ExportInvoiceCreate = () => {
+  const { settings } = useUserSettings();
+  const { addInvoice, trackHaciendaStatus } = useInvoiceHistory();
+  const companyId = localStorage.getItem('selected_company') || 'innova';
+
+  const [receptor, setReceptor] = useState<Party>(receptorVacio());
+  const [lineas, setLineas] = useState<ExportInvoiceLine[]>([lineaVacia()]);
+  const [moneda, setMoneda] = useState(MONEDAS_EXPORTACION[0]);
+  const [tipoCambio, setTipoCambio] = useState(0);
+  const [cargandoTipoCambio, setCargandoTipoCambio] = useState(false);
+  const [condicionVenta, setCondicionVenta] = useState('01');
+  const [plazoCredito, setPlazoCredito] = useState(30);
+  const [medioPago, setMedioPago] = useState('04');
+  const [costosExportacion, setCostosExportacion] = useState(0);
+  const [detalleCostos, setDetalleCostos] = useState('');
+  const [xmlValidationErrors, setXmlValidationErrors] = useState<XsdValidationError[]>([]);
+  const [mensaje, setMensaje] = useState('');
+  const [procesando, setProcesando] = useState(false);
+
+  // Actualizar el tipo de cambio de Hacienda cuando cambia la moneda
+  useEffect(() => {
+    let cancelado = false;
+    setCargandoTipoCambio(true);
+    getExchangeRate(moneda).then(rate => {
+      if (!cancelado) {
+        setTipoCambio(rate);
+        setCargandoTipoCambio(false);
+      }
+    });
+    return () => {
+      cancelado = true;
+    };
+  }, [moneda]);
+
+  const actualizarLinea = (index: number, cambios: Partial<ExportInvoiceLine>) => {
+    setLineas(prev => prev.map((linea, i) => (i === index ? { ...linea, ...cambios } : linea)));
+  };
+
+  const totalVenta = lineas.reduce((sum, linea) => sum + linea.cantidad * linea.precioUnitario, 0);
+  const totalComprobante = totalVenta + (costosExportacion > 0 ? costosExportacion : 0);
+
+  const formatMonto = (monto: number) =>
+    `${moneda} ${monto.toLocaleString('es-CR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+  const handleSubmit = async () => {
+    if (!settings) {
+      setMensaje('Error: no se encontró la configuración de la empresa');
+      return;
+    }
+
+    setProcesando(true);
+    setMensaje('');
+    setXmlValidationErrors([]);
+
+    try {
+      const emisor = buildEmisorFromSettings(settings);
+      const opciones: Omit<ExportInvoiceOptions, 'sequence'> = {
+        emisor,
+        receptor,
+        lineas,
+        moneda,
+        tipoCambio,
+        costosExportacion,
+        detalleCostosExportacion: detalleCostos,
+        condicionVenta,
+        plazoCredito: condicionVenta === '02' ? plazoCredito : undefined,
+        medioPago
+      };
+
+      // La factura de exportación usa su propia serie de consecutivos (09)
+      const { terminal, sucursal } = getPuntoVenta(companyId);
+
+      // Validar el borrador y cargar la firma antes de consumir un consecutivo
+      const borrador = buildExportInvoice({ ...opciones, sequence: getDraftSequence(emisor.identificacion.numero, '09', terminal, sucursal) });
+      const validacion = validateComprobanteXml(generateExportInvoiceXML(borrador));
+      if (!validacion.valid) {
+        setXmlValidationErrors(validacion.errors);
+        setMensaje('El XML no cumple el esquema v4.4 de Hacienda. Corrija los datos indicados.');
+        return;
+      }
+      const keys = await loadSignatureKeys(companyId);
+
+      const sequence = await generateSequence(companyId, emisor.identificacion.numero, '09', terminal, sucursal);
+      const exportInvoice = buildExportInvoice({ ...opciones, sequence });
+      const xmlFirmado = await signXml(generateExportInvoiceXML(exportInvoice), keys);
+      const envio = await sendXMLToHacienda(exportInvoice, xmlFirmado);
+
+      downloadXML(xmlFirmado, exportInvoice.numeroConsecutivo);
+      // El cliente extranjero recibe la representación impresa en inglés
+      downloadPDF(generatePDF(exportInvoice, 'en'), exportInvoice.numeroConsecutivo);
+
+      const storedInvoice = toStoredExportInvoice(exportInvoice, xmlFirmado, envio.success ? 'Completada' : 'Pendiente');
+      addInvoice(storedInvoice);
+      if (envio.success) {
+        // Consultar en segundo plano si Hacienda aceptó o rechazó la factura
+        trackHaciendaStatus(storedInvoice);
+      }
+
+      setReceptor(receptorVacio());
+      setLineas([lineaVacia()]);
+      setCostosExportacion(0);
+      setDetalleCostos('');
+      setMensaje(
+        envio.success
+          ? `Factura de exportación ${exportInvoice.numeroConsecutivo} enviada a Hacienda`
+          : envio.encolado
+            ? `Factura ${exportInvoice.numeroConsecutivo} generada; Hacienda no respondió y quedó en la cola de envíos.`
+            : `Factura ${exportInvoice.numeroConsecutivo} generada, pero Hacienda la rechazó: ${envio.errorCause || envio.error}`
+      );
+    } catch (error) {
+      console.error('Error al generar la factura de exportación:', error);
+      setMensaje(`Error: ${error instanceof Error ? error.message : 'Error desconocido'}`);
+    } finally {
+      setProcesando(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl title-primary flex items-center">
+          <Globe className="w-6 h-6 mr-2" />
+          Factura de Exportación
+        </h1>
+      </div>
+
+      {mensaje && (
+        <div className="glass-card p-3 text-sm whitespace-pre-line">
+          {mensaje}
+        </div>
+      )}
+
+      <XmlValidationErrors errors={xmlValidationErrors} onClose={() => setXmlValidationErrors([])} />
+
+      <div className="glass-card p-6 space-y-4">
+        <h2 className="text-lg font-medium">Cliente extranjero</h2>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="form-label">Nombre</label>
+            <input
+              type="text"
+              className="form-input"
+              maxLength={100}
+              value={receptor.nombre}
+              onChange={(e) => setReceptor({ ...receptor, nombre: e.target.value })}
+            />
+          </div>
+          <div>
+            <label className="form-label">Identificación extranjera (pasaporte, Tax ID)</label>
+            <input
+              type="text"
+              className="form-input"
+              maxLength={20}
+              value={receptor.identificacionExtranjero || ''}
+              onChange={(e) => setReceptor({ ...receptor, identificacionExtranjero: e.target.value })}
+            />
+          </div>
+          <div>
+            <label className="form-label">Dirección en el extranjero</label>
+            <input
+              type="text"
+              className="form-input"
+              maxLength={300}
+              value={receptor.otrasSenasExtranjero || ''}
+              onChange={(e) => setReceptor({ ...receptor, otrasSenasExtranjero: e.target.value })}
+              placeholder="Dirección, ciudad y país"
+            />
+          </div>
+          <div>
+            <label className="form-label">Correo electrónico</label>
+            <input
+              type="email"
+              className="form-input"
+              value={receptor.correo || ''}
+              onChange={(e) => setReceptor({ ...receptor, correo: e.target.value })}
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className="glass-card p-6 space-y-4">
+        <h2 className="text-lg font-medium">Condiciones</h2>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div>
+            <label className="form-label">Moneda</label>
+            <select className="form-select" value={moneda} onChange={(e) => setMoneda(e.target.value)}>
+              {MONEDAS_EXPORTACION.map(codigo => (
+                <option key={codigo} value={codigo}>{codigo}</option>
+              ))}
+              <option value="CRC">CRC</option>
+            </select>
+          </div>
+          <div>
+            <label className="form-label flex items-center">
+              Tipo de cambio
+              {cargandoTipoCambio && <Loader2 className="w-3 h-3 ml-2 animate-spin" />}
+            </label>
+            <input
+              type="number"
+              className="form-input"
+              min={0}
+              step="any"
+              value={tipoCambio}
+              disabled={moneda === 'CRC'}
+              onChange={(e) => setTipoCambio(parseFloat(e.target.value) || 0)}
+            />
+          </div>
+          <div>
+            <label className="form-label">Condición de venta</label>
+            <select className="form-select" value={condicionVenta} onChange={(e) => setCondicionVenta(e.target.value)}>
+              <option value="01">Contado</option>
+              <option value="02">Crédito</option>
+            </select>
+          </div>
+          {condicionVenta === '02' ? (
+            <div>
+              <label className="form-label">Plazo de crédito (días)</label>
+              <input
+                type="number"
+                className="form-input"
+                min={1}
+                value={plazoCredito}
+                onChange={(e) => setPlazoCredito(parseInt(e.target.value) || 0)}
+              />
+            </div>
+          ) : (
+            <div>
+              <label className="form-label">Medio de pago</label>
+              <select className="form-select" value={medioPago} onChange={(e) => setMedioPago(e.target.value)}>
+                <option value="04">Transferencia – depósito bancario</option>
+                <option value="02">Tarjeta</option>
+                <option value="03">Cheque</option>
+                <option value="07">Plataforma Digital</option>
+                <option value="99">Otros</option>
+              </select>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="glass-card p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-medium">Líneas</h2>
+          <button className="btn-ghost flex items-center" onClick={() => setLineas(prev => [...prev, lineaVacia()])}>
+            <Plus className="w-4 h-4 mr-1" />
+            Agregar línea
+          </button>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-gray-700">
+                <th className="table-header">CABYS</th>
+                <th className="table-header">Partida arancelaria</th>
+                <th className="table-header">Detalle</th>
+                <th className="table-header">Cantidad</th>
+                <th className="table-header">Unidad</th>
+                <th className="table-header">Precio unitario</th>
+                <th className="table-header">Total</th>
+                <th className="table-header"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {lineas.map((linea, index) => (
+                <tr key={index} className="table-row">
+                  <td className="table-cell">
+                    <input
+                      type="text"
+                      className="form-input w-36"
+                      maxLength={13}
+                      value={linea.codigoCabys}
+                      onChange={(e) => actualizarLinea(index, { codigoCabys: e.target.value })}
+                    />
+                  </td>
+                  <td className="table-cell">
+                    <input
+                      type="text"
+                      className="form-input w-36"
+                      maxLength={12}
+                      value={linea.partidaArancelaria || ''}
+                      onChange={(e) => actualizarLinea(index, { partidaArancelaria: e.target.value })}
+                      placeholder="Solo mercancías"
+                    />
+                  </td>
+                  <td className="table-cell">
+                    <input
+                      type="text"
+                      className="form-input"
+                      maxLength={200}
+                      value={linea.detalle}
+                      onChange={(e) => actualizarLinea(index, { detalle: e.target.value })}
+                    />
+                  </td>
+                  <td className="table-cell">
+                    <input
+                      type="number"
+                      className="form-input w-24"
+                      min={0}
+                      step="any"
+                      value={linea.cantidad}
+                      onChange={(e) => actualizarLinea(index, { cantidad: parseFloat(e.target.value) || 0 })}
+                    />
+                  </td>
+                  <td className="table-cell">
+                    <input
+                      type="text"
+                      className="form-input w-20"
+                      maxLength={15}
+                      value={linea.unidadMedida}
+                      onChange={(e) => actualizarLinea(index, { unidadMedida: e.target.value })}
+                    />
+                  </td>
+                  <td className="table-cell">
+                    <input
+                      type="number"
+                      className="form-input w-32"
+                      min={0}
+                      step="any"
+                      value={linea.precioUnitario}
+                      onChange={(e) => actualizarLinea(index, { precioUnitario: parseFloat(e.target.value) || 0 })}
+                    />
+                  </td>
+                  <td className="table-cell whitespace-nowrap">{formatMonto(linea.cantidad * linea.precioUnitario)}</td>
+                  <td className="table-cell">
+                    <button
+                      className="p-1.5 bg-red-500/20 text-red-400 rounded-md hover:bg-red-500/40 transition-colors"
+                      onClick={() => setLineas(prev => prev.filter((_, i) => i !== index))}
+                      disabled={lineas.length === 1}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="form-label">Costos de exportación (otro cargo 05)</label>
+            <input
+              type="number"
+              className="form-input"
+              min={0}
+              step="any"
+              value={costosExportacion}
+              onChange={(e) => setCostosExportacion(parseFloat(e.target.value) || 0)}
+            />
+          </div>
+          <div>
+            <label className="form-label">Detalle de los costos</label>
+            <input
+              type="text"
+              className="form-input"
+              maxLength={160}
+              value={detalleCostos}
+              onChange={(e) => setDetalleCostos(e.target.value)}
+              placeholder="Flete, seguro, trámites aduaneros..."
+            />
+          </div>
+        </div>
+
+        <div className="text-right space-y-1 text-gray-300">
+          <p>Total venta: <span className="font-semibold">{formatMonto(totalVenta)}</span></p>
+          <p>Total comprobante: <span className="font-semibold">{formatMonto(totalComprobante)}</span></p>
+        </div>
+      </div>
+
+      <div className="flex justify-end">
+        <button className="btn-primary flex items-center" onClick={handleSubmit} disabled={procesando || cargandoTipoCambio}>
+          <Globe className="w-4 h-4 mr-2" />
+          {procesando ? 'Generando...' : 'Generar Factura de Exportación'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ExportInvoiceCreate;
@@ -0,0 +1,177 @@
+import { useState, useEffect } from 'react';
+import { Send, RefreshCw, Trash, Loader2, AlertTriangle, CheckCircle, Clock } from 'lucide-react';
+import { outboxService, OutboxItem } from '../services/outboxService';
+import { tiposDocumentoElectronico } from '../types/invoice';
+
+const HaciendaOutbox = () => {
+  const [items, setItems] = useState<OutboxItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [enviando, setEnviando] = useState<string | null>(null);
+  const [filtroEstado, setFiltroEstado] = useState('pendientes');
+  const [mensaje, setMensaje] = useState('');
+
+  // Cargar la cola combinando el dispositivo y Supabase
+  const cargarCola = async () => {
+    setLoading(true);
+    try {
+      setItems(await outboxService.list());
+    } catch (error) {
+      console.error('Error al cargar la cola de envíos:', error);
+      setMensaje('No se pudo cargar la cola de envíos');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    cargarCola();
+  }, []);
+
+  // Reintentar un comprobante sin esperar el próximo intento programado
+  const reintentarAhora = async (clave: string) => {
+    setEnviando(clave);
+    setMensaje('');
+    try {
+      const actualizado = await outboxService.retryNow(clave);
+      setItems(prev => prev.map(item => (item.clave === clave ? actualizado : item)));
+      setMensaje(
+        actualizado.estado === 'enviado'
+          ? `Comprobante ${clave} recibido por Hacienda`
+          : `El reintento falló: ${actualizado.ultimoError || 'Error desconocido'}`
+      );
+    } catch (error) {
+      setMensaje(`Error: ${error instanceof Error ? error.message : 'Error desconocido'}`);
+    } finally {
+      setEnviando(null);
+    }
+  };
+
+  const limpiarEnviados = async () => {
+    await outboxService.clearSent();
+    await cargarCola();
+  };
+
+  const getTipoDescripcion = (codigo: string) =>
+    tiposDocumentoElectronico.find(tipo => tipo.codigo === codigo)?.descripcion || codigo;
+
+  const itemsFiltrados = items.filter(item => {
+    if (filtroEstado === 'pendientes') return item.estado === 'pendiente';
+    if (filtroEstado === 'todos') return true;
+    return item.estado === filtroEstado;
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl title-primary">Cola de Envíos a Hacienda</h1>
+        <div className="flex space-x-2">
+          <button className="btn-ghost flex items-center" onClick={cargarCola} disabled={loading}>
+            <RefreshCw className={`w-4 h-4 mr-1 ${loading ? 'animate-spin' : ''}`} />
+            Actualizar
+          </button>
+          <button className="btn-ghost flex items-center" onClick={limpiarEnviados}>
+            <Trash className="w-4 h-4 mr-1" />
+            Limpiar enviados
+          </button>
+        </div>
+      </div>
+
+      {mensaje && (
+        <div className="glass-card p-3 text-sm">
+          {mensaje}
+        </div>
+      )}
+
+      <div className="glass-card p-4 flex items-center gap-4">
+        <label className="form-label mb-0">Estado</label>
+        <select
+          className="form-select max-w-xs"
+          value={filtroEstado}
+          onChange={(e) => setFiltroEstado(e.target.value)}
+        >
+          <option value="pendientes">Pendientes</option>
+          <option value="rechazado">Rechazados</option>
+          <option value="enviado">Enviados</option>
+          <option value="todos">Todos</option>
+        </select>
+        <span className="text-sm text-gray-400">
+          Los pendientes se reintentan automáticamente con espera creciente mientras haya conexión.
+        </span>
+      </div>
+
+      <div className="glass-card overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-gray-700">
+                <th className="table-header">Documento</th>
+                <th className="table-header">Clave</th>
+                <th className="table-header">Estado</th>
+                <th className="table-header">Intentos</th>
+                <th className="table-header">Próximo intento</th>
+                <th className="table-header">Último error</th>
+                <th className="table-header">Acciones</th>
+              </tr>
+            </thead>
+            <tbody>
+              {loading ? (
+                <tr>
+                  <td colSpan={7} className="table-cell text-center py-8">
+                    <Loader2 className="w-6 h-6 mx-auto animate-spin text-primary-500" />
+                  </td>
+                </tr>
+              ) : itemsFiltrados.length > 0 ? (
+                itemsFiltrados.map(item => (
+                  <tr key={item.clave} className="table-row">
+                    <td className="table-cell">
+                      <div className="font-medium">{item.invoiceId || getTipoDescripcion(item.tipoDocumento)}</div>
+                      <div className="text-xs text-gray-400">{new Date(item.creado).toLocaleString()}</div>
+                    </td>
+                    <td className="table-cell text-xs break-all max-w-48">{item.clave}</td>
+                    <td className="table-cell">
+                      <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
+                        item.estado === 'enviado' ? 'bg-green-500/20 text-green-400' :
+                        item.estado === 'pendiente' ? 'bg-yellow-500/20 text-yellow-400' :
+                        'bg-red-500/20 text-red-400'
+                      }`}>
+                        {item.estado === 'enviado' ? <CheckCircle className="w-3 h-3 mr-1" /> :
+                          item.estado === 'pendiente' ? <Clock className="w-3 h-3 mr-1" /> :
+                          <AlertTriangle className="w-3 h-3 mr-1" />}
+                        {item.estado}
+                      </span>
+                    </td>
+                    <td className="table-cell">{item.intentos}</td>
+                    <td className="table-cell text-sm">
+                      {item.estado === 'pendiente' ? new Date(item.proximoIntento).toLocaleString() : '-'}
+                    </td>
+                    <td className="table-cell text-xs text-red-300 max-w-64">{item.ultimoError || '-'}</td>
+                    <td className="table-cell">
+                      {item.estado !== 'enviado' && (
+                        <button
+                          className="btn-primary flex items-center text-sm"
+                          onClick={() => reintentarAhora(item.clave)}
+                          disabled={enviando === item.clave}
+                        >
+                          <Send className="w-4 h-4 mr-1" />
+                          {enviando === item.clave ? 'Enviando...' : 'Reintentar ahora'}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))
+              ) : (
+                <tr>
+                  <td colSpan={7} className="table-cell text-center py-8 text-gray-400">
+                    No hay comprobantes en la cola.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HaciendaOutbox;
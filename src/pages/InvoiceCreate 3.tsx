@@ -7,6 +7,7 @@ import { useNavigate } from 'react-router-dom';
 import { buscarContribuyente, mapearTipoIdentificacion, validarEstadoContribuyente } from '../services/haciendaService';
 import { searchByDescription } from '../services/cabysService';
 import { generatePDF, generateXML, downloadXML, sendInvoiceXML, generateInvoiceKey, generateConsecutiveNumber, sendInvoiceByEmail } from '../services/invoiceService';
+import { envService } from '../services/envService';
 import { CabysItem, Invoice, availableCurrencies } from '../types/invoice';
 import { useUserSettings } from '../hooks/useUserSettings';
 import { useClients } from '../hooks/useClients';
@@ -1017,17 +1018,10 @@ const InvoiceCreate = () => {
             invoiceStatus = 'Completada';
           } else {
             // En producción, realizar la llamada real a la API
-            const resultado = await sendInvoiceXML({
-              xmlFirmado: xmlFirmado,
-              clave: invoice.clave,
-              emisorTipo: data.emisor.identificacion.tipo,
-              emisorNumero: data.emisor.identificacion.numero,
-              token,
-              sandbox: true // Usar ambiente de pruebas
-            });
+            const resultado = await sendInvoiceXML(invoice, xmlFirmado, envService.get('HACIENDA_API_URL'), token);
             
             if (resultado.success) {
-              console.log('Factura enviada a Hacienda correctamente', resultado.data);
+              console.log('Factura enviada a Hacienda correctamente', resultado.location);
               invoiceStatus = 'Completada';
             } else {
               console.error('Error al enviar factura a Hacienda', resultado.error);
@@ -6,12 +6,24 @@ import { Plus, Trash2, Search, Save, Send, UserPlus, Package, PackagePlus, Eye,
 import { useNavigate } from 'react-router-dom';
 import { buscarContribuyente, mapearTipoIdentificacion, validarEstadoContribuyente } from '../services/haciendaService';
 import { searchByDescription } from '../services/cabysService';
-import { generatePDF, generateXML, downloadXML, sendInvoiceXML, sendInvoiceByEmail } from '../services/invoiceService';
-import { generateSequence } from '../services/sequenceService';
+import { generatePDF, generateXML, downloadXML, sendInvoiceByEmail } from '../services/invoiceService';
+import { sendXMLToHacienda } from '../services/haciendaApiService';
+import { applyContingency, getContingencyMode, setContingencyMode, ComprobanteProvisional, SituacionComprobante } from '../services/contingencyService';
+import { getSesionCajaActiva } from '../services/cashRegisterService';
+import ContingencyPanel from '../components/ContingencyPanel';
+import XmlValidationErrors from '../components/XmlValidationErrors';
+import CreditCheckPanel from '../components/CreditCheckPanel';
+import { AutorizacionCredito, EvaluacionCredito, autorizacionCubreVenta, evaluarCredito } from '../services/creditControlService';
+import { aplicarPagosRegistrados } from '../services/invoicePaymentService';
+import { supabaseInvoicePaymentService } from '../services/supabaseInvoicePaymentService';
+import { validateComprobanteXml, XsdValidationError } from '../services/xsdValidationService';
+import { signXml, loadSignatureKeys, SignatureOptions } from '../services/signatureService';
+import { generateSequence, getDraftSequence } from '../services/sequenceService';
+import { getPuntoVenta, ubicacionPuntoVenta } from '../services/branchService';
 import { CabysItem, Invoice, availableCurrencies, tiposCargos } from '../types/invoice';
 import { useUserSettings } from '../hooks/useUserSettings';
 import { useClients } from '../hooks/useClients';
-import { useInvoiceHistory, StoredInvoice } from '../hooks/useInvoiceHistory';
+import { useInvoiceHistory, StoredInvoice, PagoFactura } from '../hooks/useInvoiceHistory';
 import ProductSelectorModal from '../components/ProductSelectorModal';
 import NewProductModal from '../components/NewProductModal';
 import InvoicePreviewModal from '../components/InvoicePreviewModal';
@@ -117,8 +129,6 @@ const InvoiceCreate = () => {
   const [selectedClient, setSelectedClient] = useState<any>(null);
   const [hasDraft, setHasDraft] = useState(false);
   const [isLoadingExchangeRate, setIsLoadingExchangeRate] = useState(false);
-  // Estado para almacenar la secuencia (clave y consecutivo) y generarla solo una vez
-  const [invoiceSequence, setInvoiceSequence] = useState<{ clave: string; numeroConsecutivo: string }>({ clave: '', numeroConsecutivo: '' });
 
   // Verificar si hay un borrador guardado al cargar
   useEffect(() => {
@@ -129,36 +139,39 @@ const InvoiceCreate = () => {
   // Obtener la configuración del usuario, los clientes y el historial de facturas
   const { settings, loading: loadingSettings } = useUserSettings();
   const { clients, loading: loadingClients, addClient } = useClients();
-  const { addInvoice } = useInvoiceHistory();
+  const { addInvoice, trackHaciendaStatus, invoices } = useInvoiceHistory();
 
-  // Función para generar consecutivo y clave utilizando sequenceService
-  const generateInvoiceSequence = async (emisorId: string) => {
-    try {
-      if (!invoiceSequence.clave || !invoiceSequence.numeroConsecutivo) {
-        console.log('Generando secuencia ÚNICA para la factura...');
-        const selectedCompanyId = localStorage.getItem('selected_company') || 'innova';
-        const sequence = await generateSequence(
-          selectedCompanyId,
-          emisorId,
-          '01', // Tipo de documento: factura electrónica
-          '01', // Terminal
-          '002' // Sucursal
-        );
-        console.log('Secuencia generada exitosamente:', sequence);
-        setInvoiceSequence(sequence);
+  // Modo de contingencia (situación 2) o sin internet (situación 3)
+  const selectedCompanyIdForMode = localStorage.getItem('selected_company') || 'innova';
+  const [situacion, setSituacion] = useState<SituacionComprobante>(getContingencyMode(selectedCompanyIdForMode).situacion);
+  const [comprobanteProvisional, setComprobanteProvisional] = useState<ComprobanteProvisional>({ numero: '', fechaEmision: '' });
+  const [xmlValidationErrors, setXmlValidationErrors] = useState<XsdValidationError[]>([]);
+
+  // Control de crédito: saldos del cliente y autorización del supervisor para ventas bloqueadas
+  const [pagosPorFactura, setPagosPorFactura] = useState<Record<string, PagoFactura[]>>();
+  const [evaluacionCredito, setEvaluacionCredito] = useState<EvaluacionCredito | null>(null);
+  const [autorizacionCredito, setAutorizacionCredito] = useState<AutorizacionCredito | null>(null);
+
+  useEffect(() => {
+    supabaseInvoicePaymentService.getPayments(selectedCompanyIdForMode).then(result => {
+      if (result.success) {
+        setPagosPorFactura(result.data);
       }
-    } catch (error) {
-      console.error('Error al generar la secuencia:', error);
-    }
+    });
+  }, [selectedCompanyIdForMode]);
+
+  const handleSituacionChange = (nuevaSituacion: SituacionComprobante) => {
+    setContingencyMode(selectedCompanyIdForMode, nuevaSituacion);
+    setSituacion(nuevaSituacion);
   };
 
-  // Obtener la secuencia cuando se carguen los ajustes del usuario
-  useEffect(() => {
-    if (settings && !loadingSettings) {
-      const emisorId = settings.identification_number || '3102928079';
-      generateInvoiceSequence(emisorId);
-    }
-  }, [settings, loadingSettings]);
+  // Consecutivo provisional para la vista previa y la validación: el definitivo se asigna
+  // al emitir, cuando el XML ya pasó el esquema y se cargó el certificado de firma
+  const getBorradorSequence = (emisorId: string) => {
+    // Sucursal y terminal elegidas en este dispositivo al iniciar sesión
+    const { terminal, sucursal } = getPuntoVenta(selectedCompanyIdForMode);
+    return getDraftSequence(emisorId, '01', terminal, sucursal);
+  };
   
   // Default form values
   const defaultValues: InvoiceFormData = {
@@ -229,13 +242,13 @@ const InvoiceCreate = () => {
           numero: settings.identification_number || '',
         },
         nombreComercial: settings.commercial_name || '',
-        ubicacion: {
+        ubicacion: ubicacionPuntoVenta(getPuntoVenta(localStorage.getItem('selected_company') || 'innova'), {
           provincia: settings.province || '',
           canton: settings.canton || '',
           distrito: settings.district || '',
           barrio: '',
           otrasSenas: settings.address || '',
-        },
+        }),
         telefono: {
           codigoPais: settings.phone ? (settings.phone.split('-')[0] || '506') : '506',
           numTelefono: settings.phone ? (settings.phone.split('-')[1] || '') : '',
@@ -306,6 +319,18 @@ const InvoiceCreate = () => {
 
   const condicionVenta = watch('condicionVenta');
   const selectedCurrency = watch('moneda');
+
+  // Evaluar el crédito del cliente y sugerir su plazo al elegir una venta a crédito
+  useEffect(() => {
+    if (condicionVenta !== '02' || !selectedClient) {
+      setEvaluacionCredito(null);
+      return;
+    }
+    setEvaluacionCredito(evaluarCredito(selectedClient, aplicarPagosRegistrados(invoices, pagosPorFactura), 0));
+    if (selectedClient.default_credit_days && !getValues('plazoCredito')) {
+      setValue('plazoCredito', selectedClient.default_credit_days);
+    }
+  }, [condicionVenta, selectedClient, invoices, pagosPorFactura, getValues, setValue]);
   
   // Actualizar el tipo de cambio cuando cambia la moneda seleccionada
   useEffect(() => {
@@ -612,11 +637,6 @@ const InvoiceCreate = () => {
       return;
     }
 
-    // Generar la secuencia si aún no existe
-    if (!invoiceSequence.clave || !invoiceSequence.numeroConsecutivo) {
-      await generateInvoiceSequence(formData.emisor.identificacion.numero);
-    }
-    
     // Calcular detalles de servicio con impuestos y totales
     const detalleServicio = formData.detalleServicio.map((item, index) => {
       // Ensure 'id' is carried over for LineItem compatibility
@@ -751,8 +771,7 @@ const InvoiceCreate = () => {
       },
       otros: formData.observaciones,
       // Add required fields for Invoice type, even for preview/draft
-      clave: invoiceSequence.clave,
-      numeroConsecutivo: invoiceSequence.numeroConsecutivo
+      ...getBorradorSequence(formData.emisor.identificacion.numero)
       // fechaEmision is already defined at the start of the preview object
     };
     
@@ -911,13 +930,13 @@ const InvoiceCreate = () => {
           numero: settings.identification_number || '',
         },
         nombreComercial: settings.commercial_name || '',
-        ubicacion: {
+        ubicacion: ubicacionPuntoVenta(getPuntoVenta(selectedCompanyIdForMode), {
           provincia: settings.province || '',
           canton: settings.canton || '',
           distrito: settings.district || '',
           barrio: settings.neighborhood || '',
           otrasSenas: settings.address || '',
-        },
+        }),
         telefono: {
           codigoPais: '+506',
           numTelefono: settings.phone || '',
@@ -940,6 +959,7 @@ const InvoiceCreate = () => {
     
     // Limpiar estados adicionales
     setSelectedClient(null);
+    setAutorizacionCredito(null);
     setCabysResults([]);
     setCabysSearchTerm('');
     setCurrentLineIndex(null);
@@ -969,16 +989,23 @@ const InvoiceCreate = () => {
       return;
     }
 
-    // Generar la secuencia si aún no existe
-    if (!invoiceSequence.clave || !invoiceSequence.numeroConsecutivo) {
-      await generateInvoiceSequence(data.emisor.identificacion.numero);
+    // En contingencia se requiere el comprobante provisional que se está sustituyendo
+    if (situacion === '2' && (!comprobanteProvisional.numero.trim() || !comprobanteProvisional.fechaEmision)) {
+      alert('En modo contingencia debe indicar el número y la fecha del comprobante provisional');
+      return;
     }
-    
+
     // Declarar invoiceStatus en el ámbito correcto
     let invoiceStatus: 'Completada' | 'Pendiente' | 'Rechazada' = 'Pendiente';
     
     // Define la variable para almacenar la información del email y usarla al guardar la factura
     let emailInfo: StoredInvoice['emailInfo'] = undefined;
+    let validacionXmlFallida = false;
+    let firmaFallida = false;
+    let consecutivoFallido = false;
+    let creditoBloqueado = false;
+    let recibidoPorHacienda = false;
+    setXmlValidationErrors([]);
     
     try {
       // Calculate totals and prepare invoice data
@@ -1044,11 +1071,28 @@ const InvoiceCreate = () => {
       const totalVentaNeta = totalVenta - totalDescuentos;
       const totalImpuesto = detalleServicio.reduce((sum, item) => sum + item.impuestoNeto, 0);
       const totalComprobante = totalVentaNeta + totalImpuesto;
+
+      // Ventas a crédito: verificar el saldo del cliente más esta factura contra su límite
+      if (data.condicionVenta === '02' && selectedClient) {
+        const montoColones = data.moneda === 'CRC' ? totalComprobante : totalComprobante * (Number(data.tipoCambio) || 1);
+        const evaluacion = evaluarCredito(selectedClient, aplicarPagosRegistrados(invoices, pagosPorFactura), montoColones);
+        setEvaluacionCredito(evaluacion);
+        if (evaluacion.estado === 'bloqueado' &&
+            !autorizacionCubreVenta(autorizacionCredito, selectedClient.identification_number, montoColones)) {
+          creditoBloqueado = true;
+          alert(`Venta a crédito bloqueada: ${evaluacion.motivos.join('. ')}. Solicite la autorización de un supervisor en la sección de detalles.`);
+          return;
+        }
+        if (evaluacion.estado === 'advertencia' &&
+            !window.confirm(`Advertencia de crédito: ${evaluacion.motivos.join('. ')}. ¿Desea emitir la factura de todos modos?`)) {
+          creditoBloqueado = true;
+          return;
+        }
+      }
       
       // Create invoice object
-      const invoice: Invoice = {
-        clave: invoiceSequence.clave,
-        numeroConsecutivo: invoiceSequence.numeroConsecutivo,
+      const invoiceNormal: Invoice = {
+        ...getBorradorSequence(data.emisor.identificacion.numero),
         fechaEmision: new Date().toISOString(),
         emisor: data.emisor,
         receptor: data.receptor,
@@ -1081,14 +1125,49 @@ const InvoiceCreate = () => {
         otros: data.observaciones,
       };
       
+      // Ajustar clave y referencias cuando se emite en contingencia o sin internet
+      let invoice = await applyContingency(invoiceNormal, selectedCompanyIdForMode, situacion, comprobanteProvisional);
+      
       console.log('Factura preparada:', invoice);
       
       try {
         console.log('Iniciando generación de XML...');
         // 1. Generar XML v4.4
-        let xml;
+        let xmlFirmado: string;
         try {
-          xml = generateXML(invoice);
+          // Validar el borrador contra el esquema v4.4 antes de consumir un consecutivo; el formulario se conserva para corregirlo
+          const validacion = validateComprobanteXml(generateXML(invoice));
+          if (!validacion.valid) {
+            validacionXmlFallida = true;
+            setXmlValidationErrors(validacion.errors);
+            alert(`El XML no cumple el esquema v4.4 de Hacienda (${validacion.errors.length} error(es)). Revise la lista de errores en el formulario.`);
+            return;
+          }
+
+          // Sin certificado la venta se detiene antes de consumir un consecutivo y no se envía nada a Hacienda
+          let keys: SignatureOptions;
+          try {
+            keys = await loadSignatureKeys(selectedCompanyIdForMode);
+          } catch (firmaError) {
+            firmaFallida = true;
+            console.error('Error al cargar el certificado de firma:', firmaError);
+            alert(`No se pudo firmar la factura: ${firmaError instanceof Error ? firmaError.message : 'Error desconocido'}. Verifique el certificado de la empresa en Configuración.`);
+            return;
+          }
+
+          // Asignar el consecutivo definitivo y firmar con XAdES-EPES
+          const { terminal, sucursal } = getPuntoVenta(selectedCompanyIdForMode);
+          let sequence: { clave: string; numeroConsecutivo: string };
+          try {
+            sequence = await generateSequence(selectedCompanyIdForMode, data.emisor.identificacion.numero, '01', terminal, sucursal);
+          } catch (sequenceError) {
+            consecutivoFallido = true;
+            console.error('Error al asignar el consecutivo:', sequenceError);
+            alert(`No se pudo asignar el consecutivo de la factura: ${sequenceError instanceof Error ? sequenceError.message : 'Error desconocido'}`);
+            return;
+          }
+          invoice = await applyContingency({ ...invoiceNormal, ...sequence }, selectedCompanyIdForMode, situacion, comprobanteProvisional);
+          xmlFirmado = await signXml(generateXML(invoice), keys);
           console.log('XML generado correctamente');
           alert('XML generado correctamente');
         } catch (xmlError) {
@@ -1099,7 +1178,7 @@ const InvoiceCreate = () => {
         
         // 2. Descargar XML automáticamente
         try {
-          downloadXML(xml, invoice.numeroConsecutivo);
+          downloadXML(xmlFirmado, invoice.numeroConsecutivo);
           console.log('XML descargado correctamente');
           alert('XML descargado correctamente');
         } catch (downloadError) {
@@ -1124,15 +1203,9 @@ const InvoiceCreate = () => {
         
         // 4. Enviar XML a Hacienda
         try {
-          // Obtener token de autenticación (simulado)
-          const token = 'token_simulado'; // En producción, obtener de un servicio de autenticación
-          
-          // En un entorno real, aquí se firmaría el XML con XAdES-BES
-          const xmlFirmado = xml; // Simulamos que ya está firmado
-          
           // Debido a las restricciones de CORS, en un entorno de desarrollo local,
           // simularemos una respuesta exitosa en lugar de hacer la llamada real a la API
-          if (window.location.hostname === 'localhost') {
+          if (window.location.hostname === 'localhost' && situacion === '1') {
             console.log('Entorno de desarrollo detectado. Simulando envío a Hacienda...');
             // Simular respuesta exitosa después de un breve retraso
             await new Promise(resolve => setTimeout(resolve, 1000));
@@ -1140,20 +1213,17 @@ const InvoiceCreate = () => {
             invoiceStatus = 'Completada';
           } else {
             // En producción, realizar la llamada real a la API
-            const resultado = await sendInvoiceXML({
-              xmlFirmado: xmlFirmado,
-              clave: invoice.clave,
-              emisorTipo: data.emisor.identificacion.tipo,
-              emisorNumero: data.emisor.identificacion.numero,
-              token,
-              sandbox: true // Usar ambiente de pruebas
-            });
+            const resultado = await sendXMLToHacienda(invoice, xmlFirmado);
             
             if (resultado.success) {
-              console.log('Factura enviada a Hacienda correctamente', resultado.data);
+              console.log('Factura enviada a Hacienda correctamente', resultado.location);
               invoiceStatus = 'Completada';
+              recibidoPorHacienda = true;
             } else {
-              console.error('Error al enviar factura a Hacienda', resultado.error);
+              console.error('Error al enviar factura a Hacienda', resultado.errorCause || resultado.error);
+              if (resultado.encolado) {
+                alert('Hacienda no está disponible. El comprobante quedó en la cola de envíos y se reintentará automáticamente.');
+              }
               // Aún así, marcamos como completada para desarrollo
               invoiceStatus = 'Completada';
             }
@@ -1186,7 +1256,7 @@ const InvoiceCreate = () => {
               data.receptor.nombre || '', // Nombre del receptor
               invoice.numeroConsecutivo,
               pdfBlob,
-              xml,
+              xmlFirmado,
               undefined, // Documento de aceptación (opcional)
               `Factura Electrónica ${invoice.numeroConsecutivo} - ${data.emisor.nombre}`, // Asunto personalizado
               undefined, // Mensaje personalizado (se usa el predeterminado)
@@ -1248,17 +1318,26 @@ const InvoiceCreate = () => {
         status: invoiceStatus as 'Completada' | 'Pendiente' | 'Rechazada',
         items: data.detalleServicio.length,
         claveNumerica: invoice.clave,
+        numeroConsecutivo: invoice.numeroConsecutivo,
+        tipoDocumento: '01',
+        situacion,
+        informacionReferencia: invoice.informacionReferencia,
+        receptor: data.receptor,
         condicionVenta: data.condicionVenta,
         medioPago: data.medioPago,  // Mantener como arreglo de strings
         // Incluir moneda y tipo de cambio de forma explícita para no perder estos datos
         moneda: moneda, // Usamos la moneda del formulario (USD, EUR, CRC)
         tipoCambio: tipoCambio > 0 ? tipoCambio : undefined, // Solo incluir si es positivo
-        detalleServicio: data.detalleServicio.map(item => ({
+        // Si hay una caja abierta en la terminal, la factura entra en su cierre
+        sesionCajaId: getSesionCajaActiva(selectedCompanyIdForMode)?.id,
+        detalleServicio: detalleServicio.map(item => ({
           codigoCabys: item.codigoCabys,
           detalle: item.detalle,
           cantidad: item.cantidad,
           precioUnitario: item.precioUnitario,
-          subtotal: (item.cantidad * item.precioUnitario) - (item.descuento?.montoDescuento || 0)
+          subtotal: item.subtotal,
+          unidadMedida: item.unidadMedida,
+          tarifaImpuesto: item.impuesto.tarifa
         })),
         subtotal: totalVentaNeta,
         impuesto: totalImpuesto,
@@ -1275,6 +1354,10 @@ const InvoiceCreate = () => {
         // Llamar a addInvoice con seguimiento detallado
         addInvoice(storedInvoice);
         console.log('✅ Llamada a addInvoice completada para la factura');
+        if (recibidoPorHacienda) {
+          // Consultar en segundo plano si Hacienda aceptó o rechazó la factura
+          trackHaciendaStatus(storedInvoice);
+        }
         
         // Verificar explícitamente que se haya guardado correctamente en localStorage
         setTimeout(() => {
@@ -1352,12 +1435,15 @@ const InvoiceCreate = () => {
       console.error('Error generating invoice:', error);
       alert(`Error al generar la factura: ${error instanceof Error ? error.message : 'Error desconocido'}`);
     } finally {
-      // Siempre limpiar el formulario, incluso si ocurren errores
-      resetForm();
-      
-      // Eliminar borrador si existía
-      localStorage.removeItem('invoiceDraft');
-      setHasDraft(false);
+      // Limpiar el formulario incluso si ocurren errores, salvo cuando el XML no pasó la validación,
+      // no se pudo firmar, no se obtuvo consecutivo o la venta a crédito quedó pendiente de autorización
+      if (!validacionXmlFallida && !firmaFallida && !consecutivoFallido && !creditoBloqueado) {
+        resetForm();
+        
+        // Eliminar borrador si existía
+        localStorage.removeItem('invoiceDraft');
+        setHasDraft(false);
+      }
     }
   };
 
@@ -1368,6 +1454,15 @@ const InvoiceCreate = () => {
       </div>
       
       <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+        <ContingencyPanel
+          situacion={situacion}
+          onSituacionChange={handleSituacionChange}
+          provisional={comprobanteProvisional}
+          onProvisionalChange={setComprobanteProvisional}
+        />
+
+        <XmlValidationErrors errors={xmlValidationErrors} onClose={() => setXmlValidationErrors([])} />
+        
         {/* Tabs for different sections */}
         <div className="glass-card">
           <div className="border-b border-primary-500/30">
@@ -1579,6 +1674,9 @@ const InvoiceCreate = () => {
                         setValue('receptor.nombre', client.name, { shouldValidate: true });
                         setValue('receptor.identificacion.tipo', client.identification_type, { shouldValidate: true });
                         setValue('receptor.identificacion.numero', client.identification_number, { shouldValidate: true });
+                        if (client.default_credit_days) {
+                          setValue('plazoCredito', client.default_credit_days);
+                        }
                         
                         // Agregar el código de actividad económica del cliente para el XML
                         if (client.economic_activity_code) {
@@ -1817,6 +1915,16 @@ const InvoiceCreate = () => {
 
               </div>
 
+              {evaluacionCredito && selectedClient && (
+                <CreditCheckPanel
+                  cliente={selectedClient}
+                  evaluacion={evaluacionCredito}
+                  autorizacion={autorizacionCredito}
+                  onAutorizar={setAutorizacionCredito}
+                  companyId={selectedCompanyIdForMode}
+                />
+              )}
+
               {/* Modal de selección de productos guardados */}
               {isProductModalOpen && (
                 <ProductSelectorModal
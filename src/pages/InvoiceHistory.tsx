@@ -1,18 +1,46 @@
 import { useState, useEffect } from 'react';
-import { Search, FileText, Download, Eye, Trash, ArrowDownUp, Filter, AlertCircle, Mail, MailCheck, MailX } from 'lucide-react';
+import { Search, FileText, Download, Eye, Trash, ArrowDownUp, Filter, AlertCircle, Mail, MailCheck, MailX, FileMinus, FilePlus, RefreshCw } from 'lucide-react';
 import { useInvoiceHistory, StoredInvoice } from '../hooks/useInvoiceHistory';
+import CreditNoteModal from '../components/CreditNoteModal';
+import DebitNoteModal from '../components/DebitNoteModal';
+import { getStoredTipoDocumento } from '../services/creditNoteService';
+import PuntoVentaFilter from '../components/PuntoVentaFilter';
+import { FiltroPuntoVenta, filtrarPorPuntoVenta } from '../services/branchService';
 
 const InvoiceHistory = () => {
   const [searchTerm, setSearchTerm] = useState('');
   const [filterStatus, setFilterStatus] = useState('all');
   const [filterEmailStatus, setFilterEmailStatus] = useState('all');
+  const [filtroPuntoVenta, setFiltroPuntoVenta] = useState<FiltroPuntoVenta>({});
   const [sortField, setSortField] = useState('date');
   const [sortDirection, setSortDirection] = useState('desc');
   const [selectedInvoice, setSelectedInvoice] = useState<StoredInvoice | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [creditNoteInvoice, setCreditNoteInvoice] = useState<StoredInvoice | null>(null);
+  const [debitNoteInvoice, setDebitNoteInvoice] = useState<StoredInvoice | null>(null);
+  const [consultandoId, setConsultandoId] = useState<string | null>(null);
   
   // Usar el hook para obtener las facturas almacenadas
-  const { invoices, loading, updateInvoiceStatus, updateInvoiceEmailInfo, deleteInvoice } = useInvoiceHistory();
+  const { invoices, loading, addInvoice, updateInvoiceStatus, refreshHaciendaStatus, trackHaciendaStatus, updateInvoiceEmailInfo, deleteInvoice } = useInvoiceHistory();
+
+  // Consultar en Hacienda el estado real de un comprobante
+  const handleConsultarHacienda = async (invoiceId: string) => {
+    setConsultandoId(invoiceId);
+    try {
+      const refresh = await refreshHaciendaStatus(invoiceId);
+      if (selectedInvoice?.id === invoiceId) {
+        setSelectedInvoice(refresh.invoice);
+      }
+      if (refresh.syncError) {
+        alert(`Hacienda respondió "${refresh.invoice.haciendaEstado}", pero no se pudo guardar en la base de datos: ${refresh.syncError}`);
+      }
+    } catch (error) {
+      console.error('Error al consultar el estado en Hacienda:', error);
+      alert(`No se pudo consultar el estado en Hacienda: ${error instanceof Error ? error.message : 'Error desconocido'}`);
+    } finally {
+      setConsultandoId(null);
+    }
+  };
   
   // Añadir información de correo electrónico a las facturas existentes (solo para demostración)
   useEffect(() => {
@@ -48,7 +76,7 @@ const InvoiceHistory = () => {
   const invoiceData = invoices;
   
   // Filter and sort invoices
-  const filteredInvoices = invoiceData
+  const filteredInvoices = filtrarPorPuntoVenta(invoiceData, filtroPuntoVenta)
     .filter(invoice => {
       // Filter by search term
       const matchesSearch = 
@@ -165,6 +193,8 @@ const InvoiceHistory = () => {
                 <option value="no-enviado">No enviados</option>
               </select>
             </div>
+
+            <PuntoVentaFilter value={filtroPuntoVenta} onChange={setFiltroPuntoVenta} documentos={invoiceData} />
             
             <button className="btn-ghost">
               <ArrowDownUp className="w-4 h-4 mr-1" />
@@ -254,7 +284,14 @@ const InvoiceHistory = () => {
               {filteredInvoices.length > 0 ? (
                 filteredInvoices.map((invoice, index) => (
                   <tr key={index} className="table-row">
-                    <td className="table-cell font-medium">{invoice.id}</td>
+                    <td className="table-cell font-medium">
+                      {invoice.id}
+                      {invoice.situacion && invoice.situacion !== '1' && (
+                        <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-yellow-500/20 text-yellow-400">
+                          {invoice.situacion === '2' ? 'Contingencia' : 'Sin internet'}
+                        </span>
+                      )}
+                    </td>
                     <td className="table-cell">{invoice.client}</td>
                     <td className="table-cell">{new Date(invoice.date).toLocaleDateString()}</td>
                     <td className="table-cell">{invoice.items}</td>
@@ -267,6 +304,14 @@ const InvoiceHistory = () => {
                       }`}>
                         {invoice.status}
                       </span>
+                      {invoice.haciendaEstado && (
+                        <span
+                          className="block text-xs text-gray-400 mt-1"
+                          title={invoice.haciendaMensaje || undefined}
+                        >
+                          Hacienda: {invoice.haciendaEstado}
+                        </span>
+                      )}
                     </td>
                     <td className="table-cell">
                       {invoice.emailInfo ? (
@@ -308,6 +353,14 @@ const InvoiceHistory = () => {
                         >
                           <Eye className="w-4 h-4" />
                         </button>
+                        <button 
+                          className="p-1.5 rounded-md bg-blue-500/20 text-blue-400 hover:bg-blue-500/40 transition-colors disabled:opacity-50"
+                          title="Consultar estado en Hacienda"
+                          disabled={consultandoId === invoice.id || !invoice.claveNumerica}
+                          onClick={() => handleConsultarHacienda(invoice.id)}
+                        >
+                          <RefreshCw className={`w-4 h-4 ${consultandoId === invoice.id ? 'animate-spin' : ''}`} />
+                        </button>
                         <button 
                           className="p-1.5 rounded-md bg-secondary-500/20 text-secondary-400 hover:bg-secondary-500/40 transition-colors"
                           title="Descargar PDF"
@@ -320,6 +373,30 @@ const InvoiceHistory = () => {
                         >
                           <FileText className="w-4 h-4" />
                         </button>
+                        {['01', '04'].includes(getStoredTipoDocumento(invoice)) && (
+                          <button 
+                            className="p-1.5 rounded-md bg-orange-500/20 text-orange-400 hover:bg-orange-500/40 transition-colors"
+                            title="Crear nota de crédito"
+                            onClick={() => setCreditNoteInvoice({
+                              ...invoice,
+                              detalleServicio: invoice.detalleServicio || []
+                            })}
+                          >
+                            <FileMinus className="w-4 h-4" />
+                          </button>
+                        )}
+                        {getStoredTipoDocumento(invoice) === '01' && (
+                          <button 
+                            className="p-1.5 rounded-md bg-yellow-500/20 text-yellow-400 hover:bg-yellow-500/40 transition-colors"
+                            title="Crear nota de débito"
+                            onClick={() => setDebitNoteInvoice({
+                              ...invoice,
+                              detalleServicio: invoice.detalleServicio || []
+                            })}
+                          >
+                            <FilePlus className="w-4 h-4" />
+                          </button>
+                        )}
                         <button 
                           className="p-1.5 rounded-md bg-red-500/20 text-red-400 hover:bg-red-500/40 transition-colors"
                           title="Eliminar"
@@ -404,6 +481,22 @@ const InvoiceHistory = () => {
                         {selectedInvoice.status}
                       </span>
                     </p>
+                    {selectedInvoice.haciendaEstado && (
+                      <p><span className="text-gray-400">Estado en Hacienda:</span> {selectedInvoice.haciendaEstado}
+                        {selectedInvoice.haciendaUltimaConsulta && (
+                          <span className="text-xs text-gray-500 ml-2">
+                            ({new Date(selectedInvoice.haciendaUltimaConsulta).toLocaleString()})
+                          </span>
+                        )}
+                      </p>
+                    )}
+                    {selectedInvoice.haciendaMensaje && (
+                      <div className={`p-3 rounded-md text-sm whitespace-pre-line ${
+                        selectedInvoice.haciendaEstado === 'aceptado' ? 'bg-green-500/10 text-green-300' : 'bg-red-500/10 text-red-300'
+                      }`}>
+                        {selectedInvoice.haciendaMensaje}
+                      </div>
+                    )}
                     <p><span className="text-gray-400">Monto Total:</span> {selectedInvoice.amount}</p>
                   </div>
                 </div>
@@ -610,6 +703,27 @@ const InvoiceHistory = () => {
         </div>
       )}
       
+      {/* Credit Note Modal */}
+      {creditNoteInvoice && (
+        <CreditNoteModal
+          invoice={creditNoteInvoice}
+          invoices={invoices}
+          onClose={() => setCreditNoteInvoice(null)}
+          onCreated={addInvoice}
+          onReceived={trackHaciendaStatus}
+        />
+      )}
+      
+      {/* Debit Note Modal */}
+      {debitNoteInvoice && (
+        <DebitNoteModal
+          invoice={debitNoteInvoice}
+          onClose={() => setDebitNoteInvoice(null)}
+          onCreated={addInvoice}
+          onReceived={trackHaciendaStatus}
+        />
+      )}
+      
       {/* Loading state */}
       {loading && (
         <div className="glass-card p-8 flex flex-col items-center justify-center">
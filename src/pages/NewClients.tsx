@@ -19,6 +19,15 @@ const clientSchema = z.object({
   address: z.string().optional().nullable(),
   economic_activity_code: z.string().min(1, "El código de actividad económica es requerido"),
   economic_activity_desc: z.string().min(1, "La descripción de actividad económica es requerida"),
+  credit_limit: z.preprocess(
+    value => (value === '' || value === null || value === undefined ? null : Number(value)),
+    z.number({ invalid_type_error: "El límite de crédito debe ser un número" }).nonnegative("El límite de crédito no puede ser negativo").nullable()
+  ).optional(),
+  default_credit_days: z.preprocess(
+    value => (value === '' || value === null || value === undefined ? null : Number(value)),
+    z.number({ invalid_type_error: "El plazo debe ser un número" }).int("El plazo debe ser un número entero de días").positive("El plazo debe ser mayor a cero").nullable()
+  ).optional(),
+  credit_blocked: z.boolean().optional(),
 });
 
 type ClientFormData = z.infer<typeof clientSchema>;
@@ -144,7 +153,12 @@ const Clients = () => {
               ) : filteredClients.length > 0 ? (
                 filteredClients.map((client) => (
                   <tr key={client.id} className="table-row">
-                    <td className="table-cell font-medium">{client.name}</td>
+                    <td className="table-cell font-medium">
+                      {client.name}
+                      {client.credit_blocked && (
+                        <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-red-500/20 text-red-400">Crédito bloqueado</span>
+                      )}
+                    </td>
                     <td className="table-cell">
                       {client.identification_type} - {client.identification_number}
                     </td>
@@ -391,6 +405,29 @@ const Clients = () => {
                       </div>
                     )}
                   </div>
+
+                  <div className="md:col-span-2">
+                    <h3 className="text-lg font-semibold mb-2">Condiciones de Crédito</h3>
+                  </div>
+
+                  <div>
+                    <label className="form-label">Límite de Crédito (₡)</label>
+                    <input {...register('credit_limit')} type="number" min="0" step="0.01" className="form-input" placeholder="Sin límite" />
+                    {errors.credit_limit && <p className="form-error">{errors.credit_limit.message}</p>}
+                  </div>
+
+                  <div>
+                    <label className="form-label">Plazo de Crédito por Defecto (días)</label>
+                    <input {...register('default_credit_days')} type="number" min="1" step="1" className="form-input" placeholder="Ej: 30" />
+                    {errors.default_credit_days && <p className="form-error">{errors.default_credit_days.message}</p>}
+                  </div>
+
+                  <div className="md:col-span-2">
+                    <label className="flex items-center space-x-2 text-sm">
+                      <input {...register('credit_blocked')} type="checkbox" className="form-checkbox" />
+                      <span>Bloquear ventas a crédito (requiere autorización de un supervisor)</span>
+                    </label>
+                  </div>
                 </div>
 
                 <div className="flex justify-end space-x-3 mt-6">
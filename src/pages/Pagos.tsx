@@ -2,8 +2,16 @@ import React, { useState, useEffect, useRef } from 'react';
 import { CreditCard, Wallet, Building, ArrowDown, ArrowUp, Search, Banknote, DollarSign, Calendar, X, Loader2, AlertTriangle, FileText } from 'lucide-react';
 import { Check } from 'lucide-react';
 import { supabaseInvoiceService } from '../services/supabaseInvoiceService';
-import { StoredInvoice } from '../hooks/useInvoiceHistory';
+import { PagoFactura, StoredInvoice } from '../hooks/useInvoiceHistory';
+import { useUserSettings } from '../hooks/useUserSettings';
 import { getCompanyUuid } from '../services/uuidMappingService';
+import { buildEmisorFromSettings } from '../services/creditNoteService';
+import { aplicarPagosRegistrados, getSaldoPendiente } from '../services/invoicePaymentService';
+import { supabaseInvoicePaymentService } from '../services/supabaseInvoicePaymentService';
+import { registerInvoicePayment } from '../services/paymentRegistrationService';
+import { BankAccount, supabaseBankAccountService } from '../services/supabaseBankAccountService';
+import { downloadXML } from '../services/xmlService';
+import { generatePDF, downloadPDF } from '../services/pdfService';
 
 // Enums para agrupar tipos de medios de pago
 enum MedioPagoGrupo {
@@ -40,22 +48,14 @@ interface PlazoCredito {
   facturas: StoredInvoice[];
 }
 
-// Interface para la información bancaria
-interface CuentaBancaria {
-  id: string;
-  numero: string;
-  banco: string;
-  moneda: string;
-  tipo: 'Corriente' | 'Ahorros' | 'Digital';
-}
-
 // Interface para el formulario de pago
 interface FormularioPago {
-  pagada: boolean;
+  monto: number;
   medioPago: string;
   fechaPago: string;
   cuentaBancaria?: string;
   banco?: string;
+  referencia?: string;
   notas?: string;
 }
 
@@ -96,6 +96,8 @@ interface ResumenPagos {
 }
 
 const Pagos: React.FC = () => {
+  const { settings } = useUserSettings();
+
   // Estados para manejo de la interfaz y mensajes
   const [error, setError] = useState<string | null>(null);
   const [mensajeExito, setMensajeExito] = useState<string | null>(null);
@@ -105,6 +107,8 @@ const Pagos: React.FC = () => {
   
   // Estados para gestionar facturas y su visualización
   const [facturas, setFacturas] = useState<StoredInvoice[]>([]);
+  // Historial completo sin filtros, para descontar las notas de crédito de cada saldo
+  const [historial, setHistorial] = useState<StoredInvoice[]>([]);
   const [loading, setLoading] = useState(true);
   const [resumen, setResumen] = useState<ResumenPagos>({
     totalCRC: 0,
@@ -130,7 +134,7 @@ const Pagos: React.FC = () => {
   const [modalPagoVisible, setModalPagoVisible] = useState(false);
   const [facturaSeleccionada, setFacturaSeleccionada] = useState<StoredInvoice | null>(null);
   const [formularioPago, setFormularioPago] = useState<FormularioPago>({
-    pagada: true,
+    monto: 0,
     medioPago: '01',
     fechaPago: new Date().toISOString().split('T')[0],
   });
@@ -138,11 +142,16 @@ const Pagos: React.FC = () => {
   // Estado para controlar componente desmontado
   const isMounted = useRef(true);
   
-  // Cuentas bancarias disponibles (ejemplo)
-  const cuentasBancariasDisponibles: CuentaBancaria[] = [
-    { id: '1', numero: '123456789', banco: 'Banco Nacional', moneda: 'CRC', tipo: 'Corriente' },
-    { id: '2', numero: '987654321', banco: 'BAC', moneda: 'USD', tipo: 'Corriente' },
-  ];
+  // Cuentas bancarias de la empresa
+  const [cuentasBancarias, setCuentasBancarias] = useState<BankAccount[]>([]);
+  
+  useEffect(() => {
+    supabaseBankAccountService.getAccounts(getCompanyUuid('default')).then(result => {
+      if (result.success && isMounted.current) {
+        setCuentasBancarias(result.data || []);
+      }
+    });
+  }, []);
   
   // Calcular totales para mostrar en la interfaz
   const total = {
@@ -377,12 +386,16 @@ const Pagos: React.FC = () => {
       const companyUuid = getCompanyUuid('default');
       
       // Obtener facturas desde Supabase
-      const { invoices, error: fetchError } = await supabaseInvoiceService.getInvoicesData(companyUuid);
+      const { invoices: facturasGuardadas, error: fetchError } = await supabaseInvoiceService.getInvoicesData(companyUuid);
       
       if (fetchError) {
         throw new Error(`Error al cargar facturas: ${fetchError.message}`);
       }
       
+      // Los pagos registrados en la tabla de pagos determinan el saldo de cada factura
+      const { data: pagosPorFactura } = await supabaseInvoicePaymentService.getPayments(companyUuid);
+      const invoices = aplicarPagosRegistrados(facturasGuardadas, pagosPorFactura);
+      
       // Inicializar objeto de resumen vacío con todos los plazos
       const resumenVacio: ResumenPagos = {
         totalCRC: 0,
@@ -413,6 +426,7 @@ const Pagos: React.FC = () => {
       
       if (!invoices || invoices.length === 0) {
         setFacturas([]);
+        setHistorial([]);
         setResumen(resumenVacio);
         setLoading(false);
         return;
@@ -464,7 +478,8 @@ const Pagos: React.FC = () => {
       // Actualizar estado
       if (isMounted.current) {
         setFacturas(facturasFiltradas);
-        calcularResumen(facturasFiltradas);
+        setHistorial(invoices);
+        calcularResumen(facturasFiltradas, invoices);
       }
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Error desconocido al cargar datos';
@@ -479,7 +494,7 @@ const Pagos: React.FC = () => {
   };
 
   // Función para calcular el resumen de facturas
-  const calcularResumen = (facturas: StoredInvoice[]) => {
+  const calcularResumen = (facturas: StoredInvoice[], invoices: StoredInvoice[]) => {
     // Inicializar resumen
     const nuevoResumen: ResumenPagos = {
       totalCRC: 0,
@@ -550,6 +565,8 @@ const Pagos: React.FC = () => {
       }
       
       // Para facturas no pagadas
+      // En las facturas a crédito solo cuenta el saldo pendiente, descontando los abonos
+      const montoPendiente = condicionVentaGrupo === CondicionVentaGrupo.CREDITO ? getSaldoPendiente(factura, invoices) : monto;
       
       // Solo agregar a resumen por medio de pago si es de contado
       if (condicionVentaGrupo === CondicionVentaGrupo.CONTADO) {
@@ -564,11 +581,11 @@ const Pagos: React.FC = () => {
       
       // Sumar a resumen por condición de venta
       if (moneda === 'CRC') {
-        nuevoResumen.porCondicionVenta[condicionVentaGrupo].CRC += monto;
+        nuevoResumen.porCondicionVenta[condicionVentaGrupo].CRC += montoPendiente;
       } else if (moneda === 'USD') {
-        nuevoResumen.porCondicionVenta[condicionVentaGrupo].USD += monto;
+        nuevoResumen.porCondicionVenta[condicionVentaGrupo].USD += montoPendiente;
       } else if (moneda === 'EUR') {
-        nuevoResumen.porCondicionVenta[condicionVentaGrupo].EUR += monto;
+        nuevoResumen.porCondicionVenta[condicionVentaGrupo].EUR += montoPendiente;
       }
       
       // Inicializar plazoCodigo a 0 por defecto
@@ -583,11 +600,11 @@ const Pagos: React.FC = () => {
           
           // Sumar monto según moneda
           if (moneda === 'CRC') {
-            plazo.totalCRC += monto;
+            plazo.totalCRC += montoPendiente;
           } else if (moneda === 'USD') {
-            plazo.totalUSD += monto;
+            plazo.totalUSD += montoPendiente;
           } else if (moneda === 'EUR') {
-            plazo.totalEUR += monto;
+            plazo.totalEUR += montoPendiente;
           }
           
           // Agregar factura al plazo
@@ -619,11 +636,11 @@ const Pagos: React.FC = () => {
         
         // Sumar monto al plazo del cliente
         if (moneda === 'CRC') {
-          nuevoResumen.facturasPorCliente[clienteId].plazos[plazo.dias].totalCRC += monto;
+          nuevoResumen.facturasPorCliente[clienteId].plazos[plazo.dias].totalCRC += montoPendiente;
         } else if (moneda === 'USD') {
-          nuevoResumen.facturasPorCliente[clienteId].plazos[plazo.dias].totalUSD += monto;
+          nuevoResumen.facturasPorCliente[clienteId].plazos[plazo.dias].totalUSD += montoPendiente;
         } else if (moneda === 'EUR') {
-          nuevoResumen.facturasPorCliente[clienteId].plazos[plazo.dias].totalEUR += monto;
+          nuevoResumen.facturasPorCliente[clienteId].plazos[plazo.dias].totalEUR += montoPendiente;
         }
         
         // Agregar factura al plazo del cliente
@@ -675,7 +692,7 @@ const Pagos: React.FC = () => {
   const abrirModalPago = (factura: StoredInvoice) => {
     setFacturaSeleccionada(factura);
     setFormularioPago({
-      pagada: true,
+      monto: getSaldoPendiente(factura, historial),
       medioPago: factura.infoPago?.medioPago || '01',
       fechaPago: new Date().toISOString().split('T')[0],
     });
@@ -705,33 +722,48 @@ const Pagos: React.FC = () => {
     try {
       // Obtener UUID de la empresa
       const companyUuid = getCompanyUuid('default');
+      const cuenta = cuentasBancarias.find(c => c.id === formularioPago.cuentaBancaria);
       
-      // Preparar datos del pago
-      const datosPago = {
-        ...facturaSeleccionada,
-        infoPago: {
-          ...formularioPago,
-          fechaRegistro: new Date().toISOString(),
-        },
+      const pago: PagoFactura = {
+        fechaPago: formularioPago.fechaPago,
+        monto: formularioPago.monto,
+        medioPago: formularioPago.medioPago,
+        cuentaBancaria: formularioPago.cuentaBancaria || undefined,
+        banco: formularioPago.banco || cuenta?.banco || undefined,
+        referencia: formularioPago.referencia?.trim() || undefined,
+        notas: formularioPago.notas || undefined,
+        fechaRegistro: new Date().toISOString(),
       };
       
-      // Guardar cambios en Supabase
-      const { error: updateError } = await supabaseInvoiceService.updateInvoiceData(
+      // Emitir el recibo de pago (ventas a crédito), guardar el pago y actualizar el saldo
+      const resultado = await registerInvoicePayment(
+        facturaSeleccionada,
+        pago,
+        settings ? buildEmisorFromSettings(settings) : null,
         companyUuid,
-        facturaSeleccionada.id,
-        datosPago
+        historial
       );
-      
-      if (updateError) {
-        throw new Error(`Error al guardar el pago: ${updateError.message}`);
+      if (!resultado.success || !resultado.data) {
+        throw new Error(resultado.error);
       }
+      if (resultado.recibo) {
+        downloadXML(resultado.recibo.xmlFirmado, resultado.recibo.documento.numeroConsecutivo);
+        downloadPDF(generatePDF(resultado.recibo.documento), resultado.recibo.documento.numeroConsecutivo);
+      }
+      const datosPago = resultado.data;
       
       // Mostrar mensaje de éxito y cerrar modal
-      setMensajeExito(`Pago registrado correctamente para la factura ${facturaSeleccionada.consecutivoUnificado || facturaSeleccionada.id}`);
+      const consecutivoFactura = facturaSeleccionada.consecutivoUnificado || facturaSeleccionada.id;
+      setMensajeExito(datosPago.infoPago?.pagada
+        ? `Pago registrado correctamente; la factura ${consecutivoFactura} quedó cancelada`
+        : `Abono registrado para la factura ${consecutivoFactura}. Saldo pendiente: ${formatMoneda(datosPago.infoPago?.saldoPendiente || 0, facturaSeleccionada.moneda || 'CRC')}`);
       cerrarModalPago();
       
       // Recargar datos
       await cargarDatos();
+      if (resultado.advertencia && isMounted.current) {
+        setError(resultado.advertencia);
+      }
       
       // Limpiar mensaje de éxito después de 5 segundos
       setTimeout(() => {
@@ -801,153 +833,6 @@ const Pagos: React.FC = () => {
     <div className="container mx-auto p-4">
       <h1 className="text-2xl font-bold mb-6 text-gray-900 dark:text-white">Módulo de Pagos</h1>
       
-      {/* Modal de Registro de Pagos */}
-      {modalPagoVisible && facturaSeleccionada && (
-        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-          <div className="bg-white dark:bg-gray-800 rounded-lg w-full max-w-2xl p-6 shadow-lg">
-            <div className="flex justify-between items-center mb-4">
-              <h2 className="text-xl font-medium text-gray-800 dark:text-white flex items-center">
-                <DollarSign className="w-5 h-5 mr-2 text-green-500" />
-                Registrar Pago
-              </h2>
-              <button
-                onClick={cerrarModalPago}
-                className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
-              >
-                <X className="w-5 h-5" />
-              </button>
-            </div>
-            
-            <div className="mb-4">
-              <p className="text-gray-700 dark:text-gray-300 mb-2">
-                <strong>Cliente:</strong> {facturaSeleccionada.client || 'Sin nombre'}
-              </p>
-              <p className="text-gray-700 dark:text-gray-300 mb-2">
-                <strong>Consecutivo:</strong> {facturaSeleccionada.consecutive || facturaSeleccionada.numeroConsecutivo || 'N/A'}
-              </p>
-              <p className="text-gray-700 dark:text-gray-300 mb-2">
-                <strong>Fecha Emisión:</strong> {new Date(facturaSeleccionada.date).toLocaleDateString()}
-              </p>
-              <p className="text-gray-700 dark:text-gray-300 mb-2">
-                <strong>Monto:</strong> {formatMoneda(Number(facturaSeleccionada.total) || 0, facturaSeleccionada.moneda || 'CRC')}
-              </p>
-            </div>
-            
-            <div className="space-y-4">
-              <div className="flex items-center">
-                <input
-                  type="checkbox"
-                  id="pagada"
-                  checked={formularioPago.pagada}
-                  onChange={e => cambiarFormularioPago('pagada', e.target.checked)}
-                  className="w-4 h-4 text-primary-600 bg-gray-100 border-gray-300 rounded focus:ring-primary-500"
-                />
-                <label htmlFor="pagada" className="ml-2 text-sm font-medium text-gray-700 dark:text-gray-300">
-                  Deuda cancelada en su totalidad
-                </label>
-              </div>
-              
-              <div>
-                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                  Medio de Pago
-                </label>
-                <select
-                  value={formularioPago.medioPago}
-                  onChange={e => cambiarFormularioPago('medioPago', e.target.value)}
-                  className="block w-full p-2 text-sm border border-gray-300 rounded-md bg-white dark:bg-gray-700 text-gray-700 dark:text-white focus:ring-primary-500 focus:border-primary-500"
-                >
-                  <option value="01">Efectivo</option>
-                  <option value="02">Tarjeta</option>
-                  <option value="03">Cheque</option>
-                  <option value="04">Transferencia</option>
-                  <option value="05">Recaudado por terceros</option>
-                  <option value="06">SINPE MÓVIL</option>
-                  <option value="07">Plataforma Digital</option>
-                </select>
-              </div>
-              
-              <div>
-                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                  Fecha de Pago
-                </label>
-                <input
-                  type="date"
-                  value={formularioPago.fechaPago}
-                  onChange={e => cambiarFormularioPago('fechaPago', e.target.value)}
-                  className="block w-full p-2 text-sm border border-gray-300 rounded-md bg-white dark:bg-gray-700 text-gray-700 dark:text-white focus:ring-primary-500 focus:border-primary-500"
-                />
-              </div>
-              
-              {(formularioPago.medioPago === '04' || formularioPago.medioPago === '06') && (
-                <>
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                      Banco
-                    </label>
-                    <input
-                      type="text"
-                      value={formularioPago.banco || ''}
-                      onChange={e => cambiarFormularioPago('banco', e.target.value)}
-                      placeholder="Banco Nacional, BAC, etc."
-                      className="block w-full p-2 text-sm border border-gray-300 rounded-md bg-white dark:bg-gray-700 text-gray-700 dark:text-white focus:ring-primary-500 focus:border-primary-500"
-                    />
-                  </div>
-                  
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                      Cuenta o Referencia
-                    </label>
-                    <select
-                      id="cuentaBancaria"
-                      className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-white"
-                      value={formularioPago.cuentaBancaria || ''}
-                      onChange={(e) => cambiarFormularioPago('cuentaBancaria', e.target.value)}
-                    >
-                      <option value="">Seleccione una cuenta bancaria</option>
-                      {cuentasBancariasDisponibles.map(cuenta => (
-                        <option key={cuenta.id} value={cuenta.id}>
-                          {cuenta.banco} - {cuenta.numero} ({cuenta.moneda})
-                        </option>
-                      ))}
-                    </select>
-                  </div>
-                </>
-              )}
-              
-              <div>
-                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                  Notas adicionales
-                </label>
-                <textarea
-                  value={formularioPago.notas || ''}
-                  onChange={e => cambiarFormularioPago('notas', e.target.value)}
-                  placeholder="Información adicional sobre el pago"
-                  className="block w-full p-2 text-sm border border-gray-300 rounded-md bg-white dark:bg-gray-700 text-gray-700 dark:text-white focus:ring-primary-500 focus:border-primary-500"
-                  rows={2}
-                />
-              </div>
-            </div>
-            
-            <div className="mt-6 flex justify-end space-x-3">
-              <button
-                onClick={cerrarModalPago}
-                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none"
-              >
-                Cancelar
-              </button>
-              <button
-                onClick={guardarPago}
-                disabled={!formularioPago.pagada}
-                className={`px-4 py-2 text-sm font-medium text-white rounded-md focus:outline-none ${formularioPago.pagada ? 'bg-primary-600 hover:bg-primary-700' : 'bg-gray-400 cursor-not-allowed'}`}
-              >
-                <Check className="w-4 h-4 inline-block mr-1" />
-                Guardar Pago
-              </button>
-            </div>
-          </div>
-        </div>
-      )}
-      
       {/* Mensaje de éxito flotante */}
       {mensajeExito && (
         <div className="fixed bottom-4 right-4 bg-green-100 border border-green-400 text-green-700 px-4 py-3 rounded z-50 shadow-md">
@@ -1333,16 +1218,36 @@ const Pagos: React.FC = () => {
                   <th className="py-2 px-4 text-left text-gray-800 dark:text-white">Cliente</th>
                   <th className="py-2 px-4 text-left text-gray-800 dark:text-white">Fecha</th>
                   <th className="py-2 px-4 text-right text-gray-800 dark:text-white">Monto</th>
+                  <th className="py-2 px-4 text-right text-gray-800 dark:text-white">Saldo</th>
                   <th className="py-2 px-4 text-center text-gray-800 dark:text-white">Acciones</th>
                 </tr>
               </thead>
               <tbody>
                 {facturas.filter(f => !f.infoPago?.pagada && f.condicionVenta === '02').map(factura => (
                   <tr key={factura.id} className="border-t border-gray-200 hover:bg-gray-50">
-                    <td className="py-2 px-4 text-gray-800 dark:text-white">{factura.consecutivoUnificado || 'N/A'}</td>
+                    <td className="py-2 px-4 text-gray-800 dark:text-white">
+                      {factura.consecutivoUnificado || 'N/A'}
+                      {/* Las notas de débito aumentan el saldo del cliente sobre el documento original */}
+                      {factura.tipoDocumento === '02' && (
+                        <span
+                          className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-500/20 text-yellow-600 dark:text-yellow-400"
+                          title={factura.informacionReferencia?.[0] ? `Referencia: ${factura.informacionReferencia[0].numero}` : undefined}
+                        >
+                          Nota de débito
+                        </span>
+                      )}
+                    </td>
                     <td className="py-2 px-4 text-gray-800 dark:text-white">{factura.client || 'Sin nombre'}</td>
                     <td className="py-2 px-4 text-gray-800 dark:text-white">{new Date(factura.date).toLocaleDateString()}</td>
                     <td className="py-2 px-4 text-right text-gray-800 dark:text-white">{formatMoneda(Number(factura.total) || 0, factura.moneda || 'CRC')}</td>
+                    <td className="py-2 px-4 text-right text-gray-800 dark:text-white">
+                      {formatMoneda(getSaldoPendiente(factura, historial), factura.moneda || 'CRC')}
+                      {(factura.infoPago?.pagos || []).length > 0 && (
+                        <div className="text-xs text-gray-500 dark:text-gray-400">
+                          {factura.infoPago?.pagos?.length} abono(s)
+                        </div>
+                      )}
+                    </td>
                     <td className="py-2 px-4 text-center">
                       <button 
                         onClick={() => abrirModalPago(factura)}
@@ -1357,7 +1262,7 @@ const Pagos: React.FC = () => {
                 
                 {facturas.filter(f => !f.infoPago?.pagada && f.condicionVenta === '02').length === 0 && (
                   <tr className="border-t border-gray-200">
-                    <td colSpan={5} className="py-4 text-center text-gray-500 dark:text-gray-400">
+                    <td colSpan={6} className="py-4 text-center text-gray-500 dark:text-gray-400">
                       No hay facturas a crédito pendientes de pago en el periodo seleccionado. Cambie el filtro de tiempo para ver otros períodos.
                     </td>
                   </tr>
@@ -1394,7 +1299,14 @@ const Pagos: React.FC = () => {
               <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
                 {resumen.facturasPagadas.map(factura => (
                   <tr key={factura.id} className="hover:bg-gray-50 dark:hover:bg-gray-700">
-                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-800 dark:text-gray-200">{factura.consecutivoUnificado || factura.id}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-800 dark:text-gray-200">
+                      {factura.consecutivoUnificado || factura.id}
+                      {factura.infoPago?.pagos?.filter(pago => pago.recibo).map(pago => (
+                        <div key={pago.recibo?.clave} className="text-xs font-normal text-gray-500 dark:text-gray-400" title={pago.recibo?.clave}>
+                          REP {pago.recibo?.numeroConsecutivo} · {formatMoneda(pago.monto, factura.moneda || 'CRC')}
+                        </div>
+                      ))}
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700 dark:text-gray-300">{factura.client || 'No especificado'}</td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-700 dark:text-gray-300">
                       {formatMoneda(Number(factura.total) || 0, factura.moneda || 'CRC')}
@@ -1464,20 +1376,58 @@ const Pagos: React.FC = () => {
               <p className="text-gray-700 dark:text-gray-300 mb-2">
                 <strong>Monto:</strong> {formatMoneda(Number(facturaSeleccionada.total) || 0, facturaSeleccionada.moneda || 'CRC')}
               </p>
+              <p className="text-gray-700 dark:text-gray-300 mb-2">
+                <strong>Saldo pendiente:</strong> {formatMoneda(getSaldoPendiente(facturaSeleccionada, historial), facturaSeleccionada.moneda || 'CRC')}
+              </p>
             </div>
             
+            {/* Línea de tiempo de pagos y abonos con sus recibos electrónicos */}
+            {(facturaSeleccionada.infoPago?.pagos || []).length > 0 && (
+              <div className="mb-4">
+                <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2 flex items-center">
+                  <FileText className="w-4 h-4 mr-1 text-blue-500" />
+                  Pagos registrados
+                </h3>
+                <ol className="border-l-2 border-primary-500 pl-4 space-y-2 text-sm">
+                  {facturaSeleccionada.infoPago?.pagos?.map((pago, index) => (
+                    <li key={pago.id || index} className="text-gray-700 dark:text-gray-300">
+                      <div className="flex justify-between">
+                        <span>
+                          {new Date(`${pago.fechaPago.substring(0, 10)}T00:00:00`).toLocaleDateString()} · {getNombreMedioPago(pago.medioPago)}
+                          {pago.banco && ` · ${pago.banco}`}
+                        </span>
+                        <span className="font-medium">{formatMoneda(pago.monto, facturaSeleccionada.moneda || 'CRC')}</span>
+                      </div>
+                      <div className="text-xs text-gray-500 dark:text-gray-400">
+                        {pago.referencia && `Ref. ${pago.referencia}`}
+                        {pago.recibo && (
+                          <span className={`ml-2 ${pago.recibo.estadoEnvio === 'enviado' ? 'text-green-600' : pago.recibo.estadoEnvio === 'en_cola' || pago.recibo.estadoEnvio === 'pendiente' ? 'text-yellow-600' : 'text-red-600'}`} title={pago.recibo.error || pago.recibo.clave}>
+                            REP {pago.recibo.numeroConsecutivo} ({pago.recibo.estadoEnvio === 'enviado' ? 'Enviado' : pago.recibo.estadoEnvio === 'en_cola' ? 'En cola' : pago.recibo.estadoEnvio === 'pendiente' ? 'Sin enviar' : 'Error'})
+                          </span>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            )}
+            
             <div className="space-y-4">
-              <div className="flex items-center">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Monto del pago
+                </label>
                 <input
-                  type="checkbox"
-                  id="pagada"
-                  checked={formularioPago.pagada}
-                  onChange={e => cambiarFormularioPago('pagada', e.target.checked)}
-                  className="w-4 h-4 text-primary-600 bg-gray-100 border-gray-300 rounded focus:ring-primary-500"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={formularioPago.monto}
+                  onChange={e => cambiarFormularioPago('monto', parseFloat(e.target.value) || 0)}
+                  className="block w-full p-2 text-sm border border-gray-300 rounded-md bg-white dark:bg-gray-700 text-gray-700 dark:text-white focus:ring-primary-500 focus:border-primary-500"
                 />
-                <label htmlFor="pagada" className="ml-2 text-sm font-medium text-gray-700 dark:text-gray-300">
-                  Deuda cancelada en su totalidad
-                </label>
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  Un monto menor al saldo se registra como abono; la factura queda pagada cuando el saldo llega a cero
+                </p>
               </div>
               
               <div>
@@ -1511,6 +1461,19 @@ const Pagos: React.FC = () => {
                 />
               </div>
               
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Referencia del pago
+                </label>
+                <input
+                  type="text"
+                  value={formularioPago.referencia || ''}
+                  onChange={e => cambiarFormularioPago('referencia', e.target.value)}
+                  placeholder="Número de transferencia, cheque o comprobante"
+                  className="block w-full p-2 text-sm border border-gray-300 rounded-md bg-white dark:bg-gray-700 text-gray-700 dark:text-white focus:ring-primary-500 focus:border-primary-500"
+                />
+              </div>
+              
               {(formularioPago.medioPago === '04' || formularioPago.medioPago === '06') && (
                 <>
                   <div>
@@ -1538,9 +1501,9 @@ const Pagos: React.FC = () => {
                       disabled={formularioPago.medioPago !== '04'}
                     >
                       <option value="">Seleccione una cuenta bancaria</option>
-                      {cuentasBancariasDisponibles.map(cuenta => (
+                      {cuentasBancarias.map(cuenta => (
                         <option key={cuenta.id} value={cuenta.id}>
-                          {cuenta.banco} - {cuenta.numero} ({cuenta.moneda})
+                          {cuenta.banco} - {cuenta.numero_cuenta} ({cuenta.moneda})
                         </option>
                       ))}
                     </select>
@@ -1571,8 +1534,8 @@ const Pagos: React.FC = () => {
               </button>
               <button
                 onClick={guardarPago}
-                disabled={!formularioPago.pagada}
-                className={`px-4 py-2 text-sm font-medium text-white rounded-md focus:outline-none ${formularioPago.pagada ? 'bg-primary-600 hover:bg-primary-700' : 'bg-gray-400 cursor-not-allowed'}`}
+                disabled={formularioPago.monto <= 0}
+                className={`px-4 py-2 text-sm font-medium text-white rounded-md focus:outline-none ${formularioPago.monto > 0 ? 'bg-primary-600 hover:bg-primary-700' : 'bg-gray-400 cursor-not-allowed'}`}
               >
                 <Check className="w-4 h-4 inline-block mr-1" />
                 Guardar Pago
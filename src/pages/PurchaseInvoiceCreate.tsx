@@ -0,0 +1,493 @@
+import { useState, useEffect } from 'react';
+import { ShoppingCart, Plus, Trash2, Search, Loader2 } from 'lucide-react';
+import { useUserSettings } from '../hooks/useUserSettings';
+import { Party, availableCurrencies } from '../types/invoice';
+import { buildEmisorFromSettings } from '../services/creditNoteService';
+import {
+  applyContribuyenteToProveedor,
+  buildPurchaseInvoice,
+  toPurchaseLedgerDocument,
+  PurchaseInvoiceLine,
+  PurchaseInvoiceOptions
+} from '../services/purchaseInvoiceService';
+import { buscarContribuyente, validarEstadoContribuyente } from '../services/haciendaService';
+import { getExchangeRate } from '../services/exchangeRateService';
+import { generateSequence, getDraftSequence } from '../services/sequenceService';
+import { getPuntoVenta } from '../services/branchService';
+import { generatePurchaseInvoiceXML, downloadXML } from '../services/xmlService';
+import { validateComprobanteXml, XsdValidationError } from '../services/xsdValidationService';
+import { signXml, loadSignatureKeys } from '../services/signatureService';
+import { sendXMLToHacienda } from '../services/haciendaApiService';
+import { generatePDF, downloadPDF } from '../services/pdfService';
+import { supabaseSupplierDocumentService } from '../services/supabaseSupplierDocumentService';
+import XmlValidationErrors from '../components/XmlValidationErrors';
+
+const TARIFAS_IVA = [0, 1, 2, 4, 8, 13];
+
+const lineaVacia = (): PurchaseInvoiceLine => ({
+  codigoCabys: '',
+  detalle: '',
+  cantidad: 1,
+  unidadMedida: 'Unid',
+  precioUnitario: 0,
+  tarifa: 13,
+  esServicio: false
+});
+
+const proveedorVacio = (): Party => ({
+  nombre: '',
+  identificacion: { tipo: '01', numero: '' },
+  ubicacion: { provincia: '', canton: '', distrito: '', otrasSenas: '' },
+  correo: '',
+  actividadEconomica: ''
+});
+
+const PurchaseInvoiceCreate = () => {
+  const { settings } = useUserSettings();
+  const companyId = localStorage.getItem('selected_company') || 'innova';
+
+  const [proveedor, setProveedor] = useState<Party>(proveedorVacio());
+  const [lineas, setLineas] = useState<PurchaseInvoiceLine[]>([lineaVacia()]);
+  const [moneda, setMoneda] = useState('CRC');
+  const [tipoCambio, setTipoCambio] = useState(1);
+  const [condicionVenta, setCondicionVenta] = useState('01');
+  const [plazoCredito, setPlazoCredito] = useState(30);
+  const [medioPago, setMedioPago] = useState('01');
+  const [buscando, setBuscando] = useState(false);
+  const [avisoProveedor, setAvisoProveedor] = useState('');
+  const [xmlValidationErrors, setXmlValidationErrors] = useState<XsdValidationError[]>([]);
+  const [mensaje, setMensaje] = useState('');
+  const [procesando, setProcesando] = useState(false);
+
+  useEffect(() => {
+    let cancelado = false;
+    getExchangeRate(moneda).then(rate => {
+      if (!cancelado) setTipoCambio(rate);
+    });
+    return () => {
+      cancelado = true;
+    };
+  }, [moneda]);
+
+  const actualizarUbicacion = (campo: string, valor: string) => {
+    setProveedor(prev => ({ ...prev, ubicacion: { ...prev.ubicacion, [campo]: valor } }));
+  };
+
+  const actualizarLinea = (index: number, cambios: Partial<PurchaseInvoiceLine>) => {
+    setLineas(prev => prev.map((linea, i) => (i === index ? { ...linea, ...cambios } : linea)));
+  };
+
+  // Consultar al proveedor en Hacienda para completar nombre, tipo de identificación y actividad
+  const buscarProveedor = async () => {
+    const numero = proveedor.identificacion.numero.trim();
+    if (!numero) return;
+
+    setBuscando(true);
+    setAvisoProveedor('');
+    const contribuyente = await buscarContribuyente(numero);
+    setBuscando(false);
+
+    if (!contribuyente) {
+      setAvisoProveedor('El proveedor no aparece en Hacienda; complete sus datos manualmente.');
+      return;
+    }
+
+    setProveedor(prev => applyContribuyenteToProveedor(prev, contribuyente));
+    // La factura de compra es para proveedores no inscritos: los inscritos deben emitir su propia factura
+    const estado = validarEstadoContribuyente(contribuyente);
+    if (estado.esValido) {
+      setAvisoProveedor(
+        `El proveedor está inscrito ante Hacienda (${estado.estado}). Solicite su factura electrónica en lugar de emitir una factura de compra.`
+      );
+    } else {
+      setAvisoProveedor(`Estado del proveedor en Hacienda: ${estado.estado || 'no determinado'}`);
+    }
+  };
+
+  const totalVenta = lineas.reduce((sum, linea) => sum + linea.cantidad * linea.precioUnitario, 0);
+  const totalImpuesto = lineas.reduce((sum, linea) => sum + linea.cantidad * linea.precioUnitario * (linea.tarifa / 100), 0);
+
+  const formatMonto = (monto: number) =>
+    `${moneda} ${monto.toLocaleString('es-CR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+  const handleSubmit = async () => {
+    if (!settings) {
+      setMensaje('Error: no se encontró la configuración de la empresa');
+      return;
+    }
+
+    setProcesando(true);
+    setMensaje('');
+    setXmlValidationErrors([]);
+
+    try {
+      const empresa = buildEmisorFromSettings(settings);
+      const opciones: Omit<PurchaseInvoiceOptions, 'sequence'> = {
+        proveedor,
+        empresa,
+        lineas,
+        moneda,
+        tipoCambio,
+        condicionVenta,
+        plazoCredito: condicionVenta === '02' ? plazoCredito : undefined,
+        medioPago
+      };
+
+      // La empresa emite la factura de compra: la clave lleva su cédula y la serie propia 08
+      const { terminal, sucursal } = getPuntoVenta(companyId);
+
+      // Validar el borrador y cargar la firma antes de consumir un consecutivo
+      const borrador = buildPurchaseInvoice({ ...opciones, sequence: getDraftSequence(empresa.identificacion.numero, '08', terminal, sucursal) });
+      const validacion = validateComprobanteXml(generatePurchaseInvoiceXML(borrador));
+      if (!validacion.valid) {
+        setXmlValidationErrors(validacion.errors);
+        setMensaje('El XML no cumple el esquema v4.4 de Hacienda. Corrija los datos indicados.');
+        return;
+      }
+      const keys = await loadSignatureKeys(companyId);
+
+      const sequence = await generateSequence(companyId, empresa.identificacion.numero, '08', terminal, sucursal);
+      const purchaseInvoice = buildPurchaseInvoice({ ...opciones, sequence });
+      const xmlFirmado = await signXml(generatePurchaseInvoiceXML(purchaseInvoice), keys);
+      const envio = await sendXMLToHacienda(purchaseInvoice, xmlFirmado);
+
+      downloadXML(xmlFirmado, purchaseInvoice.numeroConsecutivo);
+      downloadPDF(generatePDF(purchaseInvoice), purchaseInvoice.numeroConsecutivo);
+
+      // Las facturas de compra van al libro de compras, no al historial de ventas
+      const guardado = await supabaseSupplierDocumentService.saveDocument(
+        toPurchaseLedgerDocument(purchaseInvoice, xmlFirmado, envio),
+        companyId
+      );
+
+      setProveedor(proveedorVacio());
+      setLineas([lineaVacia()]);
+      setAvisoProveedor('');
+      setMensaje(
+        (envio.success
+          ? `Factura de compra ${purchaseInvoice.numeroConsecutivo} enviada a Hacienda.`
+          : envio.encolado
+            ? `Factura de compra ${purchaseInvoice.numeroConsecutivo} generada; Hacienda no respondió y quedó en la cola de envíos.`
+            : `Factura de compra ${purchaseInvoice.numeroConsecutivo} generada, pero Hacienda la rechazó: ${envio.errorCause || envio.error}`) +
+        (guardado.success ? '' : `\nNo se pudo registrar en el libro de compras: ${guardado.error}`)
+      );
+    } catch (error) {
+      console.error('Error al generar la factura de compra:', error);
+      setMensaje(`Error: ${error instanceof Error ? error.message : 'Error desconocido'}`);
+    } finally {
+      setProcesando(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl title-primary flex items-center">
+          <ShoppingCart className="w-6 h-6 mr-2" />
+          Factura de Compra
+        </h1>
+      </div>
+
+      {mensaje && (
+        <div className="glass-card p-3 text-sm whitespace-pre-line">
+          {mensaje}
+        </div>
+      )}
+
+      <XmlValidationErrors errors={xmlValidationErrors} onClose={() => setXmlValidationErrors([])} />
+
+      <div className="glass-card p-6 space-y-4">
+        <h2 className="text-lg font-medium">Proveedor (emisor)</h2>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="form-label">Tipo de identificación</label>
+            <select
+              className="form-select"
+              value={proveedor.identificacion.tipo}
+              onChange={(e) => setProveedor({ ...proveedor, identificacion: { ...proveedor.identificacion, tipo: e.target.value } })}
+            >
+              <option value="01">Física</option>
+              <option value="02">Jurídica</option>
+              <option value="03">DIMEX</option>
+              <option value="04">NITE</option>
+            </select>
+          </div>
+          <div>
+            <label className="form-label">Número de identificación</label>
+            <div className="flex space-x-2">
+              <input
+                type="text"
+                className="form-input"
+                value={proveedor.identificacion.numero}
+                onChange={(e) => setProveedor({ ...proveedor, identificacion: { ...proveedor.identificacion, numero: e.target.value } })}
+              />
+              <button className="btn-ghost flex items-center" onClick={buscarProveedor} disabled={buscando}>
+                {buscando ? <Loader2 className="w-4 h-4 animate-spin" /> : <Search className="w-4 h-4" />}
+              </button>
+            </div>
+          </div>
+          <div>
+            <label className="form-label">Nombre</label>
+            <input
+              type="text"
+              className="form-input"
+              maxLength={100}
+              value={proveedor.nombre}
+              onChange={(e) => setProveedor({ ...proveedor, nombre: e.target.value })}
+            />
+          </div>
+          <div>
+            <label className="form-label">Código de actividad económica</label>
+            <input
+              type="text"
+              className="form-input"
+              maxLength={6}
+              value={proveedor.actividadEconomica || ''}
+              onChange={(e) => setProveedor({ ...proveedor, actividadEconomica: e.target.value })}
+            />
+          </div>
+          <div>
+            <label className="form-label">Correo electrónico</label>
+            <input
+              type="email"
+              className="form-input"
+              value={proveedor.correo || ''}
+              onChange={(e) => setProveedor({ ...proveedor, correo: e.target.value })}
+            />
+          </div>
+        </div>
+
+        {avisoProveedor && (
+          <p className="text-sm text-yellow-300">{avisoProveedor}</p>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div>
+            <label className="form-label">Provincia (código)</label>
+            <input
+              type="text"
+              className="form-input"
+              maxLength={1}
+              value={proveedor.ubicacion?.provincia || ''}
+              onChange={(e) => actualizarUbicacion('provincia', e.target.value)}
+            />
+          </div>
+          <div>
+            <label className="form-label">Cantón (código)</label>
+            <input
+              type="text"
+              className="form-input"
+              maxLength={2}
+              value={proveedor.ubicacion?.canton || ''}
+              onChange={(e) => actualizarUbicacion('canton', e.target.value)}
+            />
+          </div>
+          <div>
+            <label className="form-label">Distrito (código)</label>
+            <input
+              type="text"
+              className="form-input"
+              maxLength={2}
+              value={proveedor.ubicacion?.distrito || ''}
+              onChange={(e) => actualizarUbicacion('distrito', e.target.value)}
+            />
+          </div>
+          <div>
+            <label className="form-label">Otras señas</label>
+            <input
+              type="text"
+              className="form-input"
+              maxLength={250}
+              value={proveedor.ubicacion?.otrasSenas || ''}
+              onChange={(e) => actualizarUbicacion('otrasSenas', e.target.value)}
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className="glass-card p-6 space-y-4">
+        <h2 className="text-lg font-medium">Condiciones</h2>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div>
+            <label className="form-label">Moneda</label>
+            <select className="form-select" value={moneda} onChange={(e) => setMoneda(e.target.value)}>
+              {availableCurrencies.map(currency => (
+                <option key={currency.code} value={currency.code}>{currency.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="form-label">Tipo de cambio</label>
+            <input
+              type="number"
+              className="form-input"
+              min={0}
+              step="any"
+              value={tipoCambio}
+              disabled={moneda === 'CRC'}
+              onChange={(e) => setTipoCambio(parseFloat(e.target.value) || 0)}
+            />
+          </div>
+          <div>
+            <label className="form-label">Condición de venta</label>
+            <select className="form-select" value={condicionVenta} onChange={(e) => setCondicionVenta(e.target.value)}>
+              <option value="01">Contado</option>
+              <option value="02">Crédito</option>
+            </select>
+          </div>
+          {condicionVenta === '02' ? (
+            <div>
+              <label className="form-label">Plazo de crédito (días)</label>
+              <input
+                type="number"
+                className="form-input"
+                min={1}
+                value={plazoCredito}
+                onChange={(e) => setPlazoCredito(parseInt(e.target.value) || 0)}
+              />
+            </div>
+          ) : (
+            <div>
+              <label className="form-label">Medio de pago</label>
+              <select className="form-select" value={medioPago} onChange={(e) => setMedioPago(e.target.value)}>
+                <option value="01">Efectivo</option>
+                <option value="04">Transferencia – depósito bancario</option>
+                <option value="06">SINPE MOVIL</option>
+                <option value="03">Cheque</option>
+                <option value="99">Otros</option>
+              </select>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="glass-card p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-medium">Líneas</h2>
+          <button className="btn-ghost flex items-center" onClick={() => setLineas(prev => [...prev, lineaVacia()])}>
+            <Plus className="w-4 h-4 mr-1" />
+            Agregar línea
+          </button>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-gray-700">
+                <th className="table-header">CABYS</th>
+                <th className="table-header">Detalle</th>
+                <th className="table-header">Tipo</th>
+                <th className="table-header">Cantidad</th>
+                <th className="table-header">Unidad</th>
+                <th className="table-header">Precio unitario</th>
+                <th className="table-header">IVA</th>
+                <th className="table-header">Total</th>
+                <th className="table-header"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {lineas.map((linea, index) => (
+                <tr key={index} className="table-row">
+                  <td className="table-cell">
+                    <input
+                      type="text"
+                      className="form-input w-36"
+                      maxLength={13}
+                      value={linea.codigoCabys}
+                      onChange={(e) => actualizarLinea(index, { codigoCabys: e.target.value })}
+                    />
+                  </td>
+                  <td className="table-cell">
+                    <input
+                      type="text"
+                      className="form-input"
+                      maxLength={200}
+                      value={linea.detalle}
+                      onChange={(e) => actualizarLinea(index, { detalle: e.target.value })}
+                    />
+                  </td>
+                  <td className="table-cell">
+                    <select
+                      className="form-select w-32"
+                      value={linea.esServicio ? 'servicio' : 'mercancia'}
+                      onChange={(e) => actualizarLinea(index, { esServicio: e.target.value === 'servicio' })}
+                    >
+                      <option value="mercancia">Mercancía</option>
+                      <option value="servicio">Servicio</option>
+                    </select>
+                  </td>
+                  <td className="table-cell">
+                    <input
+                      type="number"
+                      className="form-input w-24"
+                      min={0}
+                      step="any"
+                      value={linea.cantidad}
+                      onChange={(e) => actualizarLinea(index, { cantidad: parseFloat(e.target.value) || 0 })}
+                    />
+                  </td>
+                  <td className="table-cell">
+                    <input
+                      type="text"
+                      className="form-input w-20"
+                      maxLength={15}
+                      value={linea.unidadMedida}
+                      onChange={(e) => actualizarLinea(index, { unidadMedida: e.target.value })}
+                    />
+                  </td>
+                  <td className="table-cell">
+                    <input
+                      type="number"
+                      className="form-input w-32"
+                      min={0}
+                      step="any"
+                      value={linea.precioUnitario}
+                      onChange={(e) => actualizarLinea(index, { precioUnitario: parseFloat(e.target.value) || 0 })}
+                    />
+                  </td>
+                  <td className="table-cell">
+                    <select
+                      className="form-select w-24"
+                      value={linea.tarifa}
+                      onChange={(e) => actualizarLinea(index, { tarifa: parseFloat(e.target.value) })}
+                    >
+                      {TARIFAS_IVA.map(tarifa => (
+                        <option key={tarifa} value={tarifa}>{tarifa}%</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="table-cell whitespace-nowrap">
+                    {formatMonto(linea.cantidad * linea.precioUnitario * (1 + linea.tarifa / 100))}
+                  </td>
+                  <td className="table-cell">
+                    <button
+                      className="p-1.5 bg-red-500/20 text-red-400 rounded-md hover:bg-red-500/40 transition-colors"
+                      onClick={() => setLineas(prev => prev.filter((_, i) => i !== index))}
+                      disabled={lineas.length === 1}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="text-right space-y-1 text-gray-300">
+          <p>Total compra: <span className="font-semibold">{formatMonto(totalVenta)}</span></p>
+          <p>Total IVA: <span className="font-semibold">{formatMonto(totalImpuesto)}</span></p>
+          <p>Total comprobante: <span className="font-semibold">{formatMonto(totalVenta + totalImpuesto)}</span></p>
+        </div>
+      </div>
+
+      <div className="flex justify-end">
+        <button className="btn-primary flex items-center" onClick={handleSubmit} disabled={procesando}>
+          <ShoppingCart className="w-4 h-4 mr-2" />
+          {procesando ? 'Generando...' : 'Generar Factura de Compra'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PurchaseInvoiceCreate;
@@ -0,0 +1,312 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Store, Loader2, Plus, RefreshCw, Pencil, Monitor } from 'lucide-react';
+import { Sucursal, Terminal, validarSucursal, validarTerminal } from '../services/branchService';
+import { DocumentSequenceRecord, supabaseBranchService } from '../services/supabaseBranchService';
+import { getCurrentEnvironment } from '../services/sequenceService';
+import { tiposDocumentoElectronico } from '../types/invoice';
+
+const sucursalVacia = (): Sucursal => ({ codigo: '', nombre: '', activa: true });
+
+const terminalVacia = (sucursalId: string): Terminal => ({ sucursalId, codigo: '', nombre: '', activa: true });
+
+const getDescripcionTipo = (codigo: string) =>
+  tiposDocumentoElectronico.find(t => t.codigo === codigo)?.descripcion || `Tipo ${codigo}`;
+
+const Sucursales = () => {
+  const companyId = localStorage.getItem('selected_company') || 'innova';
+  const ambiente = getCurrentEnvironment(companyId);
+  const [sucursales, setSucursales] = useState<Sucursal[]>([]);
+  const [terminales, setTerminales] = useState<Terminal[]>([]);
+  const [series, setSeries] = useState<DocumentSequenceRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [procesando, setProcesando] = useState(false);
+  const [mensaje, setMensaje] = useState('');
+  const [formSucursal, setFormSucursal] = useState<Sucursal | null>(null);
+  const [formTerminal, setFormTerminal] = useState<Terminal | null>(null);
+
+  const cargar = useCallback(async () => {
+    setLoading(true);
+    const [resultadoSucursales, resultadoTerminales, resultadoSeries] = await Promise.all([
+      supabaseBranchService.getBranches(companyId),
+      supabaseBranchService.getTerminals(companyId),
+      supabaseBranchService.getSequences(companyId)
+    ]);
+    setSucursales(resultadoSucursales.data || []);
+    setTerminales(resultadoTerminales.data || []);
+    setSeries((resultadoSeries.data || []).filter(serie => serie.environment === ambiente));
+
+    const error = resultadoSucursales.error || resultadoTerminales.error || resultadoSeries.error;
+    setMensaje(error ? `Error al cargar las sucursales: ${error}` : '');
+    setLoading(false);
+  }, [companyId, ambiente]);
+
+  useEffect(() => {
+    cargar();
+  }, [cargar]);
+
+  const guardarSucursal = async () => {
+    if (!formSucursal) return;
+    const error = validarSucursal(formSucursal, sucursales);
+    if (error) {
+      setMensaje(error);
+      return;
+    }
+    setProcesando(true);
+    const result = await supabaseBranchService.saveBranch(formSucursal, companyId);
+    if (result.success) {
+      setMensaje(`Sucursal ${formSucursal.codigo} guardada`);
+      setFormSucursal(null);
+      await cargar();
+    } else {
+      setMensaje(`Error al guardar la sucursal: ${result.error}`);
+    }
+    setProcesando(false);
+  };
+
+  const guardarTerminal = async () => {
+    if (!formTerminal) return;
+    const error = validarTerminal(formTerminal, terminales);
+    if (error) {
+      setMensaje(error);
+      return;
+    }
+    setProcesando(true);
+    const result = await supabaseBranchService.saveTerminal(formTerminal, companyId);
+    if (result.success) {
+      setMensaje(`Terminal ${formTerminal.codigo} guardada`);
+      setFormTerminal(null);
+      await cargar();
+    } else {
+      setMensaje(`Error al guardar la terminal: ${result.error}`);
+    }
+    setProcesando(false);
+  };
+
+  // Últimos consecutivos asignados a la terminal en el ambiente actual
+  const seriesTerminal = (sucursal: Sucursal, terminal: Terminal) =>
+    series
+      .filter(serie => serie.sucursal === sucursal.codigo && serie.terminal === terminal.codigo)
+      .sort((a, b) => a.tipo_doc.localeCompare(b.tipo_doc));
+
+  const actualizarSucursal = (campo: keyof Sucursal, valor: string | boolean) =>
+    setFormSucursal(actual => (actual ? { ...actual, [campo]: valor } : actual));
+
+  const renderFormTerminal = () => formTerminal && (
+    <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end bg-white/5 rounded-md p-3">
+      <div>
+        <label className="form-label">Código (5 dígitos)</label>
+        <input
+          className="form-input"
+          maxLength={5}
+          value={formTerminal.codigo}
+          onChange={(e) => setFormTerminal({ ...formTerminal, codigo: e.target.value.replace(/\D/g, '') })}
+          disabled={!!formTerminal.id}
+        />
+      </div>
+      <div>
+        <label className="form-label">Nombre</label>
+        <input
+          className="form-input"
+          value={formTerminal.nombre}
+          onChange={(e) => setFormTerminal({ ...formTerminal, nombre: e.target.value })}
+        />
+      </div>
+      <label className="flex items-center space-x-2 text-sm">
+        <input
+          type="checkbox"
+          checked={formTerminal.activa}
+          onChange={(e) => setFormTerminal({ ...formTerminal, activa: e.target.checked })}
+        />
+        <span>Activa</span>
+      </label>
+      <div className="flex space-x-2 justify-end">
+        <button className="btn-ghost" onClick={() => setFormTerminal(null)} disabled={procesando}>Cancelar</button>
+        <button className="btn-primary" onClick={guardarTerminal} disabled={procesando}>Guardar</button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl title-primary">Sucursales y Terminales</h1>
+        <div className="flex items-center space-x-2">
+          <button className="btn-ghost flex items-center" onClick={cargar} disabled={loading}>
+            <RefreshCw className={`w-4 h-4 mr-1 ${loading ? 'animate-spin' : ''}`} />
+            Actualizar
+          </button>
+          <button className="btn-primary flex items-center" onClick={() => setFormSucursal(sucursalVacia())}>
+            <Plus className="w-4 h-4 mr-1" />
+            Nueva sucursal
+          </button>
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-400">
+        Cada sucursal y terminal lleva su propia serie de consecutivos por tipo de documento.
+        Ambiente actual: {ambiente === 'prod' ? 'Producción' : 'Pruebas'}.
+      </p>
+
+      {mensaje && (
+        <div className="glass-card p-3 text-sm whitespace-pre-line">
+          {mensaje}
+        </div>
+      )}
+
+      {formSucursal && (
+        <div className="glass-card p-4 space-y-3">
+          <h2 className="text-lg font-semibold flex items-center">
+            <Store className="w-5 h-5 mr-2" />
+            {formSucursal.id ? `Sucursal ${formSucursal.codigo}` : 'Nueva sucursal'}
+          </h2>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div>
+              <label className="form-label">Código (3 dígitos)</label>
+              <input
+                className="form-input"
+                maxLength={3}
+                value={formSucursal.codigo}
+                onChange={(e) => actualizarSucursal('codigo', e.target.value.replace(/\D/g, ''))}
+                disabled={!!formSucursal.id}
+              />
+            </div>
+            <div className="md:col-span-2">
+              <label className="form-label">Nombre</label>
+              <input className="form-input" value={formSucursal.nombre} onChange={(e) => actualizarSucursal('nombre', e.target.value)} />
+            </div>
+            <div>
+              <label className="form-label">Provincia</label>
+              <input className="form-input" maxLength={1} value={formSucursal.provincia || ''} onChange={(e) => actualizarSucursal('provincia', e.target.value)} />
+            </div>
+            <div>
+              <label className="form-label">Cantón</label>
+              <input className="form-input" maxLength={2} value={formSucursal.canton || ''} onChange={(e) => actualizarSucursal('canton', e.target.value)} />
+            </div>
+            <div>
+              <label className="form-label">Distrito</label>
+              <input className="form-input" maxLength={2} value={formSucursal.distrito || ''} onChange={(e) => actualizarSucursal('distrito', e.target.value)} />
+            </div>
+            <div>
+              <label className="form-label">Barrio</label>
+              <input className="form-input" value={formSucursal.barrio || ''} onChange={(e) => actualizarSucursal('barrio', e.target.value)} />
+            </div>
+            <div className="md:col-span-2">
+              <label className="form-label">Otras señas</label>
+              <input className="form-input" value={formSucursal.otrasSenas || ''} onChange={(e) => actualizarSucursal('otrasSenas', e.target.value)} />
+            </div>
+            <div>
+              <label className="form-label">Teléfono</label>
+              <input className="form-input" value={formSucursal.telefono || ''} onChange={(e) => actualizarSucursal('telefono', e.target.value)} />
+            </div>
+            <div>
+              <label className="form-label">Correo</label>
+              <input className="form-input" type="email" value={formSucursal.correo || ''} onChange={(e) => actualizarSucursal('correo', e.target.value)} />
+            </div>
+            <label className="flex items-center space-x-2 text-sm">
+              <input type="checkbox" checked={formSucursal.activa} onChange={(e) => actualizarSucursal('activa', e.target.checked)} />
+              <span>Activa</span>
+            </label>
+          </div>
+          <div className="flex justify-end space-x-2">
+            <button className="btn-ghost" onClick={() => setFormSucursal(null)} disabled={procesando}>Cancelar</button>
+            <button className="btn-primary" onClick={guardarSucursal} disabled={procesando}>Guardar sucursal</button>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="glass-card p-8">
+          <Loader2 className="w-6 h-6 mx-auto animate-spin text-primary-500" />
+        </div>
+      ) : sucursales.length === 0 ? (
+        <div className="glass-card p-6 text-sm text-gray-400">
+          No hay sucursales registradas. Mientras tanto los comprobantes usan la sucursal 002 y la terminal 01.
+        </div>
+      ) : (
+        sucursales.map(sucursal => {
+          const terminalesSucursal = terminales.filter(t => t.sucursalId === sucursal.id);
+          return (
+            <div key={sucursal.id} className="glass-card p-4 space-y-3">
+              <div className="flex items-start justify-between">
+                <div>
+                  <h2 className="text-lg font-semibold flex items-center">
+                    <Store className="w-5 h-5 mr-2" />
+                    {sucursal.codigo} · {sucursal.nombre}
+                    {!sucursal.activa && <span className="ml-2 text-xs text-red-400">(inactiva)</span>}
+                  </h2>
+                  <p className="text-sm text-gray-400">
+                    {[sucursal.provincia, sucursal.canton, sucursal.distrito].filter(Boolean).join('-') || 'Sin dirección'}
+                    {sucursal.otrasSenas ? ` · ${sucursal.otrasSenas}` : ''}
+                    {sucursal.telefono ? ` · Tel. ${sucursal.telefono}` : ''}
+                  </p>
+                </div>
+                <div className="flex space-x-2">
+                  <button className="btn-ghost flex items-center" onClick={() => setFormSucursal({ ...sucursal })}>
+                    <Pencil className="w-4 h-4 mr-1" />
+                    Editar
+                  </button>
+                  <button
+                    className="btn-secondary flex items-center"
+                    onClick={() => setFormTerminal(terminalVacia(sucursal.id as string))}
+                  >
+                    <Plus className="w-4 h-4 mr-1" />
+                    Terminal
+                  </button>
+                </div>
+              </div>
+
+              {formTerminal && formTerminal.sucursalId === sucursal.id && renderFormTerminal()}
+
+              {terminalesSucursal.length === 0 ? (
+                <p className="text-sm text-gray-400">Sin terminales</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-gray-400">
+                      <th className="text-left py-1">Terminal</th>
+                      <th className="text-left py-1">Estado</th>
+                      <th className="text-left py-1">Últimos consecutivos</th>
+                      <th className="py-1"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {terminalesSucursal.map(terminal => {
+                      const seriesActuales = seriesTerminal(sucursal, terminal);
+                      return (
+                        <tr key={terminal.id} className="border-t border-white/10">
+                          <td className="py-1">
+                            <span className="flex items-center">
+                              <Monitor className="w-4 h-4 mr-1 text-gray-400" />
+                              {terminal.codigo} · {terminal.nombre}
+                            </span>
+                          </td>
+                          <td className="py-1">{terminal.activa ? 'Activa' : 'Inactiva'}</td>
+                          <td className="py-1">
+                            {seriesActuales.length === 0
+                              ? <span className="text-gray-400">Sin documentos</span>
+                              : seriesActuales.map(serie => (
+                                <div key={serie.tipo_doc} title={getDescripcionTipo(serie.tipo_doc)}>
+                                  {serie.tipo_doc} · {getDescripcionTipo(serie.tipo_doc)}: {serie.ultimo_consecutivo}
+                                </div>
+                              ))}
+                          </td>
+                          <td className="py-1 text-right">
+                            <button className="btn-ghost" onClick={() => setFormTerminal({ ...terminal })}>
+                              <Pencil className="w-4 h-4" />
+                            </button>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+};
+
+export default Sucursales;
@@ -0,0 +1,339 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Inbox, Upload, RefreshCw, Loader2, Send, X, CheckCircle, Clock, AlertTriangle } from 'lucide-react';
+import { useUserSettings } from '../hooks/useUserSettings';
+import { buildEmisorFromSettings } from '../services/creditNoteService';
+import {
+  parseSupplierXml,
+  getDefaultImpuestoAcreditar,
+  respondToSupplierDocument,
+  RespuestaReceptor
+} from '../services/mensajeReceptorService';
+import { SupplierDocument, supabaseSupplierDocumentService } from '../services/supabaseSupplierDocumentService';
+import { mensajesReceptor, condicionesImpuesto } from '../types/invoice';
+
+const SupplierInbox = () => {
+  const { settings } = useUserSettings();
+  const companyId = localStorage.getItem('selected_company') || 'innova';
+  const [documentos, setDocumentos] = useState<SupplierDocument[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [mensaje, setMensaje] = useState('');
+  const [seleccionado, setSeleccionado] = useState<SupplierDocument | null>(null);
+  const [respuesta, setRespuesta] = useState<RespuestaReceptor>({ mensaje: '1' });
+  const [enviando, setEnviando] = useState(false);
+
+  // Cargar el libro de compras de la empresa
+  const cargarDocumentos = useCallback(async () => {
+    setLoading(true);
+    const result = await supabaseSupplierDocumentService.getDocuments(companyId);
+    if (result.success) {
+      setDocumentos(result.data || []);
+    } else {
+      setMensaje(`No se pudieron cargar los comprobantes: ${result.error}`);
+    }
+    setLoading(false);
+  }, [companyId]);
+
+  useEffect(() => {
+    cargarDocumentos();
+  }, [cargarDocumentos]);
+
+  // Importar uno o varios XML de proveedores; cada uno se guarda apenas se interpreta
+  const importarArchivos = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+
+    const errores: string[] = [];
+    let importados = 0;
+
+    for (const file of Array.from(files)) {
+      try {
+        const doc = parseSupplierXml(await file.text());
+        const result = await supabaseSupplierDocumentService.saveDocument(doc, companyId);
+        if (!result.success) {
+          throw new Error(result.error);
+        }
+        importados++;
+      } catch (error) {
+        errores.push(`${file.name}: ${error instanceof Error ? error.message : 'Error desconocido'}`);
+      }
+    }
+
+    setMensaje(
+      `${importados} comprobante(s) importado(s).` +
+      (errores.length > 0 ? ` Con errores: ${errores.join('; ')}` : '')
+    );
+    await cargarDocumentos();
+  };
+
+  const abrirRespuesta = (doc: SupplierDocument) => {
+    setSeleccionado(doc);
+    setRespuesta({
+      mensaje: '1',
+      condicionImpuesto: '01',
+      montoTotalImpuestoAcreditar: doc.total_impuesto,
+      montoTotalDeGastoAplicable: doc.total_comprobante - doc.total_impuesto,
+      codigoActividad: settings?.economic_activity || undefined
+    });
+  };
+
+  const cambiarCondicion = (condicionImpuesto: string) => {
+    if (!seleccionado) return;
+    setRespuesta(prev => ({
+      ...prev,
+      condicionImpuesto,
+      montoTotalImpuestoAcreditar: getDefaultImpuestoAcreditar(condicionImpuesto, seleccionado.total_impuesto)
+    }));
+  };
+
+  // Generar, firmar y enviar el MensajeReceptor
+  const enviarRespuesta = async () => {
+    if (!seleccionado || !settings) return;
+
+    setEnviando(true);
+    const result = await respondToSupplierDocument(
+      seleccionado,
+      respuesta,
+      buildEmisorFromSettings(settings),
+      companyId
+    );
+    setEnviando(false);
+
+    if (result.success && result.data) {
+      const actualizado = result.data;
+      setDocumentos(prev => prev.map(doc => (doc.clave === actualizado.clave ? actualizado : doc)));
+      setSeleccionado(null);
+      setMensaje(
+        result.envio?.encolado
+          ? 'Hacienda no respondió; el mensaje quedó en la cola de envíos y se reenviará automáticamente.'
+          : `Mensaje ${actualizado.consecutivo_receptor} enviado a Hacienda`
+      );
+    } else {
+      setMensaje(`Error al responder el comprobante: ${result.error}`);
+    }
+  };
+
+  const getMensajeDescripcion = (codigo?: string) =>
+    mensajesReceptor.find(m => m.codigo === codigo)?.descripcion || 'Sin responder';
+
+  const formatMonto = (monto: number, moneda: string) =>
+    `${moneda} ${monto.toLocaleString('es-CR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl title-primary">Comprobantes Recibidos</h1>
+        <div className="flex space-x-2">
+          <button className="btn-ghost flex items-center" onClick={cargarDocumentos} disabled={loading}>
+            <RefreshCw className={`w-4 h-4 mr-1 ${loading ? 'animate-spin' : ''}`} />
+            Actualizar
+          </button>
+          <label className="btn-primary flex items-center cursor-pointer">
+            <Upload className="w-4 h-4 mr-1" />
+            Importar XML
+            <input
+              type="file"
+              accept=".xml"
+              multiple
+              className="hidden"
+              onChange={(e) => {
+                importarArchivos(e.target.files);
+                e.target.value = '';
+              }}
+            />
+          </label>
+        </div>
+      </div>
+
+      {mensaje && (
+        <div className="glass-card p-3 text-sm whitespace-pre-line">
+          {mensaje}
+        </div>
+      )}
+
+      <div className="glass-card overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-gray-700">
+                <th className="table-header">Proveedor</th>
+                <th className="table-header">Consecutivo</th>
+                <th className="table-header">Fecha</th>
+                <th className="table-header">Impuesto</th>
+                <th className="table-header">Total</th>
+                <th className="table-header">Respuesta</th>
+                <th className="table-header">Acciones</th>
+              </tr>
+            </thead>
+            <tbody>
+              {loading ? (
+                <tr>
+                  <td colSpan={7} className="table-cell text-center py-8">
+                    <Loader2 className="w-6 h-6 mx-auto animate-spin text-primary-500" />
+                  </td>
+                </tr>
+              ) : documentos.length > 0 ? (
+                documentos.map(doc => (
+                  <tr key={doc.clave} className="table-row">
+                    <td className="table-cell">
+                      <div className="font-medium">{doc.emisor_nombre}</div>
+                      <div className="text-xs text-gray-400">{doc.emisor_numero_identificacion}</div>
+                    </td>
+                    <td className="table-cell text-xs">{doc.numero_consecutivo}</td>
+                    <td className="table-cell text-sm">{new Date(doc.fecha_emision).toLocaleDateString()}</td>
+                    <td className="table-cell">{formatMonto(doc.total_impuesto, doc.moneda)}</td>
+                    <td className="table-cell font-medium">{formatMonto(doc.total_comprobante, doc.moneda)}</td>
+                    <td className="table-cell">
+                      <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
+                        doc.estado_envio === 'enviado' ? 'bg-green-500/20 text-green-400' :
+                        doc.estado_envio === 'error' ? 'bg-red-500/20 text-red-400' :
+                        'bg-yellow-500/20 text-yellow-400'
+                      }`}>
+                        {doc.estado_envio === 'enviado' ? <CheckCircle className="w-3 h-3 mr-1" /> :
+                          doc.estado_envio === 'error' ? <AlertTriangle className="w-3 h-3 mr-1" /> :
+                          <Clock className="w-3 h-3 mr-1" />}
+                        {doc.origen === 'emitido' ? 'Factura de compra emitida' : getMensajeDescripcion(doc.mensaje)}
+                        {doc.estado_envio === 'en_cola' && ' (en cola)'}
+                      </span>
+                      {doc.ultimo_error && (
+                        <div className="text-xs text-red-300 mt-1">{doc.ultimo_error}</div>
+                      )}
+                    </td>
+                    <td className="table-cell">
+                      {doc.origen !== 'emitido' && (doc.estado_envio === 'sin_responder' || doc.estado_envio === 'error') && (
+                        <button
+                          className="btn-primary flex items-center text-sm"
+                          onClick={() => abrirRespuesta(doc)}
+                        >
+                          <Send className="w-4 h-4 mr-1" />
+                          Responder
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))
+              ) : (
+                <tr>
+                  <td colSpan={7} className="table-cell text-center py-8 text-gray-400">
+                    <Inbox className="w-8 h-8 mx-auto mb-2" />
+                    No hay comprobantes recibidos. Importe los XML de sus proveedores.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {seleccionado && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-4">
+          <div className="glass-card max-w-2xl w-full p-6 space-y-4">
+            <div className="flex items-center justify-between">
+              <h2 className="text-xl font-semibold">Responder comprobante</h2>
+              <button className="btn-ghost p-1" onClick={() => setSeleccionado(null)}>
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="text-sm text-gray-300">
+              <div>{seleccionado.emisor_nombre} — {seleccionado.numero_consecutivo}</div>
+              <div className="text-xs text-gray-400 break-all">{seleccionado.clave}</div>
+              <div className="mt-1">
+                Impuesto {formatMonto(seleccionado.total_impuesto, seleccionado.moneda)} · Total {formatMonto(seleccionado.total_comprobante, seleccionado.moneda)}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="form-label">Mensaje</label>
+                <select
+                  className="form-select"
+                  value={respuesta.mensaje}
+                  onChange={(e) => setRespuesta({ ...respuesta, mensaje: e.target.value as RespuestaReceptor['mensaje'] })}
+                >
+                  {mensajesReceptor.map(m => (
+                    <option key={m.codigo} value={m.codigo}>{m.descripcion}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="form-label">Código de actividad</label>
+                <input
+                  type="text"
+                  className="form-input"
+                  maxLength={6}
+                  value={respuesta.codigoActividad || ''}
+                  onChange={(e) => setRespuesta({ ...respuesta, codigoActividad: e.target.value })}
+                />
+              </div>
+            </div>
+
+            {respuesta.mensaje !== '1' && (
+              <div>
+                <label className="form-label">Detalle del mensaje</label>
+                <textarea
+                  className="form-input"
+                  maxLength={160}
+                  rows={2}
+                  value={respuesta.detalleMensaje || ''}
+                  onChange={(e) => setRespuesta({ ...respuesta, detalleMensaje: e.target.value })}
+                  placeholder="Motivo de la aceptación parcial o del rechazo"
+                />
+              </div>
+            )}
+
+            {respuesta.mensaje !== '3' && (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label className="form-label">Condición del impuesto</label>
+                  <select
+                    className="form-select"
+                    value={respuesta.condicionImpuesto || '01'}
+                    onChange={(e) => cambiarCondicion(e.target.value)}
+                  >
+                    {condicionesImpuesto.map(c => (
+                      <option key={c.codigo} value={c.codigo}>{c.codigo} - {c.descripcion}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="form-label">Impuesto a acreditar</label>
+                  <input
+                    type="number"
+                    className="form-input"
+                    min={0}
+                    max={seleccionado.total_impuesto}
+                    step="0.01"
+                    value={respuesta.montoTotalImpuestoAcreditar ?? 0}
+                    onChange={(e) => setRespuesta({ ...respuesta, montoTotalImpuestoAcreditar: parseFloat(e.target.value) || 0 })}
+                  />
+                </div>
+                <div>
+                  <label className="form-label">Gasto aplicable</label>
+                  <input
+                    type="number"
+                    className="form-input"
+                    min={0}
+                    step="0.01"
+                    value={respuesta.montoTotalDeGastoAplicable ?? 0}
+                    onChange={(e) => setRespuesta({ ...respuesta, montoTotalDeGastoAplicable: parseFloat(e.target.value) || 0 })}
+                  />
+                </div>
+              </div>
+            )}
+
+            <div className="flex justify-end space-x-2">
+              <button className="btn-ghost" onClick={() => setSeleccionado(null)} disabled={enviando}>
+                Cancelar
+              </button>
+              <button className="btn-primary flex items-center" onClick={enviarRespuesta} disabled={enviando || !settings}>
+                {enviando ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Send className="w-4 h-4 mr-1" />}
+                {enviando ? 'Enviando...' : 'Firmar y enviar'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SupplierInbox;
@@ -6,6 +6,7 @@ import { Plus, Trash2, Search, Save, FileText, Send, UserPlus, PackagePlus, Eye,
 import { Button } from '../components/ui/button';
 import { searchByDescription } from '../services/cabysService';
 import { generateXML, downloadXML, generatePDF, sendInvoiceXML, sendInvoiceByEmail } from '../services/invoiceService';
+import { envService } from '../services/envService';
 import { generateSequence } from '../services/sequenceService';
 import { CabysItem, Invoice, availableCurrencies, tiposCargos } from '../types/invoice';
 import { useUserSettings } from '../hooks/useUserSettings';
@@ -1122,17 +1123,10 @@ const { loading: loadingClients } = useClients();
             invoiceStatus = 'Completada';
           } else {
             // En producción, realizar la llamada real a la API
-            const resultado = await sendInvoiceXML({
-              xmlFirmado: xmlFirmado,
-              clave: tiquete.clave,
-              emisorTipo: data.emisor.identificacion.tipo,
-              emisorNumero: data.emisor.identificacion.numero,
-              token,
-              sandbox: true // Usar ambiente de pruebas
-            });
+            const resultado = await sendInvoiceXML(tiquete, xmlFirmado, envService.get('HACIENDA_API_URL'), token);
             
             if (resultado.success) {
-              console.log('Factura enviada a Hacienda correctamente', resultado.data);
+              console.log('Factura enviada a Hacienda correctamente', resultado.location);
               invoiceStatus = 'Completada';
             } else {
               console.error('Error al enviar factura a Hacienda', resultado.error);
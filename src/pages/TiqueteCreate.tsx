@@ -1,13 +1,30 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useForm, Controller, useFieldArray } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { Plus, Trash2, Search, Save, FileText, Send, UserPlus, PackagePlus, Eye, RotateCw } from 'lucide-react';
+import { Plus, Trash2, Search, Save, FileText, Send, UserPlus, PackagePlus, Eye, RotateCw, ScanBarcode } from 'lucide-react';
 import { Button } from '../components/ui/button';
 import { searchByDescription } from '../services/cabysService';
-import { generateXML, downloadXML, generatePDF, sendInvoiceXML, sendInvoiceByEmail } from '../services/invoiceService';
-import { generateSequence } from '../services/sequenceService';
-import { CabysItem, Invoice, availableCurrencies, tiposCargos } from '../types/invoice';
+import { generateXML, downloadXML, generatePDF, sendInvoiceByEmail } from '../services/invoiceService';
+import { sendXMLToHacienda } from '../services/haciendaApiService';
+import { applyContingency, getContingencyMode, setContingencyMode, ComprobanteProvisional, SituacionComprobante } from '../services/contingencyService';
+import ContingencyPanel from '../components/ContingencyPanel';
+import XmlValidationErrors from '../components/XmlValidationErrors';
+import TenderPanel from '../components/TenderPanel';
+import FastCheckoutPanel from '../components/FastCheckoutPanel';
+import { calcularMediosPago, validarMediosPago, ResumenMediosPago } from '../services/tenderService';
+import { getSesionCajaActiva, getTerminalCaja } from '../services/cashRegisterService';
+import { getReceiptPrinter, receiptPrinterService } from '../services/receiptPrinterService';
+import { buscarLineaEscaneada, buscarProductoPorCodigo, calcularDescuentoLinea, calcularMontosLinea, getCodigoProducto, parseEntradaEscaner } from '../services/checkoutService';
+import { supabaseProductService, Product } from '../services/supabaseProductService';
+import { validateComprobanteXml, XsdValidationError } from '../services/xsdValidationService';
+import { signXml, loadSignatureKeys, SignatureOptions } from '../services/signatureService';
+import { generateSequence, getDraftSequence } from '../services/sequenceService';
+import { getPuntoVenta, ubicacionPuntoVenta } from '../services/branchService';
+import { consecutiveReservationService } from '../services/consecutiveReservationService';
+import { isOnline } from '../services/offlineCacheService';
+import { syncService } from '../services/syncService';
+import { CabysItem, Invoice, MedioPagoDetalle, availableCurrencies, tiposCargos } from '../types/invoice';
 import { useUserSettings } from '../hooks/useUserSettings';
 import { useClients } from '../hooks/useClients';
 import { useInvoiceHistory, StoredInvoice } from '../hooks/useInvoiceHistory';
@@ -61,6 +78,7 @@ const tiqueteSchema = z.object({
   detalleServicio: z.array(z.object({
     id: z.number(),
     codigoCabys: z.string().min(1, "El código CABYS es requerido"),
+    codigo: z.string().optional(), // Código de barras o SKU del producto (CodigoComercial)
     cantidad: z.number().min(0.001, "La cantidad debe ser mayor a cero"),
     unidadMedida: z.string().min(1, "La unidad de medida es requerida"),
     detalle: z.string().min(1, "El detalle es requerido"),
@@ -111,8 +129,6 @@ const TiqueteCreate = () => {
   const [selectedClient, setSelectedClient] = useState<any>(null);
   const [hasDraft, setHasDraft] = useState(false);
   const [isLoadingExchangeRate, setIsLoadingExchangeRate] = useState(false);
-  // Estado para almacenar la secuencia (clave y consecutivo) y generarla solo una vez
-  const [tiqueteSequence, setTiqueteSequence] = useState<{ clave: string; numeroConsecutivo: string }>({ clave: '', numeroConsecutivo: '' });
 
   // Verificar si hay un borrador guardado al cargar
   useEffect(() => {
@@ -120,45 +136,57 @@ const TiqueteCreate = () => {
     setHasDraft(!!draftTiquete);
   }, []);
   
-  // Generar la secuencia una sola vez al cargar el componente
-  useEffect(() => {
-    // Función asíncrona para obtener la secuencia
-    const getSequence = async () => {
-      try {
-        // Obtenemos el ID de la compañía seleccionada
-        const selectedCompanyId = localStorage.getItem('selected_company') || 'innova';
-        const userSettings = JSON.parse(localStorage.getItem('userSettings') || '{}');
-        const emisorId = userSettings?.emisor?.identificacion?.numero || '3102928079';
-        
-        // Solo generamos la secuencia si no tenemos una guardada ya
-        if (!tiqueteSequence.clave || !tiqueteSequence.numeroConsecutivo) {
-          console.log('Generando secuencia ÚNICA para el tiquete...');
-          
-          // Usamos el servicio centralizado para generar el consecutivo y la clave
-          const sequence = await generateSequence(
-            selectedCompanyId,
-            emisorId,
-            '04', // Tipo de documento: tiquete electrónico
-            '01', // Terminal
-            '002' // Sucursal
-          );
-          
-          console.log('Secuencia generada exitosamente:', sequence);
-          setTiqueteSequence(sequence);
-        }
-      } catch (error) {
-        console.error('Error al generar la secuencia:', error);
-      }
-    };
-    
-    // Ejecutar la función asíncrona
-    getSequence();
-  }, [tiqueteSequence.clave, tiqueteSequence.numeroConsecutivo]);
-  
   // Obtener la configuración del usuario, los clientes y el historial de facturas
   const { settings, loading: loadingSettings } = useUserSettings();
 const { loading: loadingClients } = useClients();
-  const { addInvoice } = useInvoiceHistory();
+  const { addInvoice, trackHaciendaStatus } = useInvoiceHistory();
+
+  // Modo de contingencia (situación 2) o sin internet (situación 3)
+  const selectedCompanyIdForMode = localStorage.getItem('selected_company') || 'innova';
+  const [situacion, setSituacion] = useState<SituacionComprobante>(getContingencyMode(selectedCompanyIdForMode).situacion);
+  const [comprobanteProvisional, setComprobanteProvisional] = useState<ComprobanteProvisional>({ numero: '', fechaEmision: '' });
+  const [xmlValidationErrors, setXmlValidationErrors] = useState<XsdValidationError[]>([]);
+  // Pagos recibidos en caja para ventas de contado
+  const [mediosPago, setMediosPago] = useState<MedioPagoDetalle[]>([{ medioPago: '01', monto: 0 }]);
+  // Caja rápida: venta con lector de código de barras y atajos de teclado
+  const [modoRapido, setModoRapido] = useState(false);
+  const [productosCaja, setProductosCaja] = useState<Product[]>([]);
+  const [multiplicador, setMultiplicador] = useState<number | null>(null);
+  const [lineaSeleccionada, setLineaSeleccionada] = useState<number | null>(null);
+  const [mensajeEscaner, setMensajeEscaner] = useState<{ texto: string; error?: boolean } | null>(null);
+  const escanerRef = useRef<HTMLInputElement>(null);
+
+  // Con conexión, reponer la reserva de consecutivos para poder vender sin internet
+  useEffect(() => {
+    if (!isOnline()) return;
+    const { terminal, sucursal } = getPuntoVenta(selectedCompanyIdForMode);
+    consecutiveReservationService.asegurarReserva(selectedCompanyIdForMode, '04', terminal, sucursal)
+      .catch(reservaError => console.warn('No se pudieron reservar consecutivos:', reservaError));
+  }, [selectedCompanyIdForMode]);
+
+  // Consecutivo provisional para la vista previa y la validación del borrador
+  const getBorradorSequence = (emisorId: string) => {
+    const { terminal, sucursal } = getPuntoVenta(selectedCompanyIdForMode);
+    return getDraftSequence(emisorId, '04', terminal, sucursal);
+  };
+
+  // Asigna el consecutivo definitivo del tiquete: con conexión se usa el servicio centralizado y se
+  // repone la reserva; sin conexión el consecutivo sale de la reserva y la clave lleva la situación 3
+  const asignarConsecutivo = async (emisorId: string): Promise<{ clave: string; numeroConsecutivo: string }> => {
+    const { terminal, sucursal } = getPuntoVenta(selectedCompanyIdForMode);
+    if (!isOnline()) {
+      return consecutiveReservationService.generateOfflineSequence(selectedCompanyIdForMode, emisorId, '04', terminal, sucursal);
+    }
+    const sequence = await generateSequence(selectedCompanyIdForMode, emisorId, '04', terminal, sucursal);
+    consecutiveReservationService.asegurarReserva(selectedCompanyIdForMode, '04', terminal, sucursal)
+      .catch(reservaError => console.warn('No se pudieron reservar consecutivos:', reservaError));
+    return sequence;
+  };
+
+  const handleSituacionChange = (nuevaSituacion: SituacionComprobante) => {
+    setContingencyMode(selectedCompanyIdForMode, nuevaSituacion);
+    setSituacion(nuevaSituacion);
+  };
   
   // Default form values
   const defaultValues: TiqueteFormData = {
@@ -274,6 +302,24 @@ const { loading: loadingClients } = useClients();
     const otrosCargos = getValues('otrosCargos');
     return otrosCargos.reduce((total, cargo) => total + (cargo.montoCargo || 0), 0);
   };
+
+  // Tarifa de IVA del producto CABYS en el catálogo local (13% si no se encuentra)
+  const getTarifaProducto = (codigoCabys?: string): number => {
+    const storedProducts = localStorage.getItem('products');
+    const products: { codigoCabys: string; impuesto?: number }[] = storedProducts ? JSON.parse(storedProducts) : [];
+    const foundProduct = codigoCabys ? products.find(p => p.codigoCabys === codigoCabys) : undefined;
+    return foundProduct && foundProduct.impuesto !== undefined ? foundProduct.impuesto : 13;
+  };
+
+  // Total del tiquete mientras se captura el cobro; usa el mismo cálculo de línea que el comprobante
+  const calcularTotalTiquete = () => {
+    const lineas = watch('detalleServicio') || [];
+    const totalLineas = lineas.reduce(
+      (sum, item) => sum + calcularMontosLinea(item, getTarifaProducto(item.codigoCabys)).montoTotalLinea,
+      0
+    );
+    return totalLineas + calcularTotalOtrosCargos();
+  };
   
   // Efecto para eliminar líneas vacías al cargar el componente o cambiar las líneas
   useEffect(() => {
@@ -307,13 +353,13 @@ const { loading: loadingClients } = useClients();
           numero: settings.identification_number || '',
         },
         nombreComercial: settings.commercial_name || '',
-        ubicacion: {
+        ubicacion: ubicacionPuntoVenta(getPuntoVenta(localStorage.getItem('selected_company') || 'innova'), {
           provincia: settings.province || '',
           canton: settings.canton || '',
           distrito: settings.district || '',
           barrio: '',
           otrasSenas: settings.address || '',
-        },
+        }),
         telefono: {
           codigoPais: settings.phone ? (settings.phone.split('-')[0] || '506') : '506',
           numTelefono: settings.phone ? (settings.phone.split('-')[1] || '') : '',
@@ -552,6 +598,7 @@ const { loading: loadingClients } = useClients();
         // If there's a currently selected line index, update that line
     if (currentLineIndex !== null) {
       setValue(`detalleServicio.${currentLineIndex}.codigoCabys`, product.codigoCabys || '9999999999999');
+      setValue(`detalleServicio.${currentLineIndex}.codigo`, product.codigo || undefined);
       setValue(`detalleServicio.${currentLineIndex}.detalle`, product.detalle || 'Producto o servicio seleccionado');
       setValue(`detalleServicio.${currentLineIndex}.cantidad`, product.cantidad || 1);
       setValue(`detalleServicio.${currentLineIndex}.unidadMedida`, product.unidadMedida || 'Sp');
@@ -607,6 +654,7 @@ const { loading: loadingClients } = useClients();
       append({
         id: fields.length + 1,
         codigoCabys: product.codigoCabys || '9999999999999',
+        ...(product.codigo ? { codigo: product.codigo } : {}),
         cantidad: product.cantidad || 1,
         unidadMedida: product.unidadMedida || 'Sp',
         detalle: product.detalle || 'Producto o servicio seleccionado',
@@ -699,13 +747,13 @@ const { loading: loadingClients } = useClients();
           numero: settings.identification_number || '',
         },
         nombreComercial: settings.commercial_name || '',
-        ubicacion: {
+        ubicacion: ubicacionPuntoVenta(getPuntoVenta(selectedCompanyIdForMode), {
           provincia: settings.province || '',
           canton: settings.canton || '',
           distrito: settings.district || '',
           barrio: '',
           otrasSenas: settings.address || '',
-        },
+        }),
         telefono: {
           codigoPais: '+506',
           numTelefono: settings.phone || '',
@@ -731,6 +779,9 @@ const { loading: loadingClients } = useClients();
     setCabysResults([]);
     setCabysSearchTerm('');
     setCurrentLineIndex(null);
+    setMediosPago([{ medioPago: '01', monto: 0 }]);
+    setMultiplicador(null);
+    setLineaSeleccionada(null);
   };
 
   // Función para generar vista previa del tiquete
@@ -756,9 +807,6 @@ const { loading: loadingClients } = useClients();
     
     // Calcular detalles de servicio con impuestos y totales
       const detalleServicio = formData.detalleServicio.map((item, index) => {
-        // Buscar el producto en localStorage para obtener el IVA de CABYS
-        let impuestoTarifa = 13; // Valor por defecto como fallback
-        
         // IMPORTANTE: Los tiquetes electrónicos NO llevan exoneraciones
         // Eliminar cualquier indicación de exoneración si existe por error
         if (item.tieneExoneracion) {
@@ -766,31 +814,10 @@ const { loading: loadingClients } = useClients();
           item.exoneracion = undefined;
         }
         
-        // Intentar obtener el porcentaje de impuesto del producto
-        if (item.codigoCabys) {
-          // Verificar si este producto existe en localStorage
-          const PRODUCTS_KEY = 'products';
-          const storedProducts = localStorage.getItem(PRODUCTS_KEY);
-          if (storedProducts) {
-            const products = JSON.parse(storedProducts);
-            // Buscar el producto por código CABYS
-            const foundProduct = products.find((p: any) => p.codigoCabys === item.codigoCabys);
-            if (foundProduct && foundProduct.impuesto !== undefined) {
-            // Usar el impuesto específico del producto CABYS
-            impuestoTarifa = foundProduct.impuesto;
-          }
-        }
-      }
-      
-      // Calcular montoTotal (precio * cantidad)
-      const montoTotal = item.cantidad * item.precioUnitario;
-      
-      // Calcular subtotal (montoTotal - descuento)
-      const montoDescuento = item.descuento?.montoDescuento || 0;
-      const subtotal = montoTotal - montoDescuento;
+        // IVA según el producto CABYS
+        const impuestoTarifa = getTarifaProducto(item.codigoCabys);
       
-      // Calcular impuesto con el porcentaje correcto
-      const impuestoMonto = subtotal * (impuestoTarifa / 100);
+      const { montoTotal, subtotal, impuestoMonto } = calcularMontosLinea(item, impuestoTarifa);
       
       // Determinar el código de tarifa según el porcentaje de impuesto
       let codigoTarifa = '08'; // Por defecto 13%
@@ -823,20 +850,22 @@ const { loading: loadingClients } = useClients();
     const totalVentaNeta = totalVenta - totalDescuentos;
     const totalImpuesto = detalleServicio.reduce((sum, item) => sum + item.impuestoNeto, 0);
     const totalComprobante = totalVentaNeta + totalImpuesto + calcularTotalOtrosCargos();
+    const cobroPreview = formData.condicionVenta === '01' ? calcularMediosPago(mediosPago, totalComprobante) : null;
     
     // Crear objeto de tiquete para la vista previa
-    // Usamos los valores pre-generados del estado para la vista previa
-    // De esta forma evitamos generar nuevas secuencias en cada vista previa
+    // La vista previa usa un consecutivo provisional; no consume números de la serie
     
     const preview: Invoice = {
-      clave: tiqueteSequence.clave,
-      numeroConsecutivo: tiqueteSequence.numeroConsecutivo,
+      ...getBorradorSequence(formData.emisor.identificacion.numero),
       fechaEmision: new Date().toISOString(),
       emisor: formData.emisor,
       receptor: formData.receptor,
       condicionVenta: formData.condicionVenta,
       plazoCredito: formData.plazoCredito ? parseInt(formData.plazoCredito.toString(), 10) : undefined,
       medioPago: Array.isArray(formData.medioPago) ? formData.medioPago : ['01'], // Asegurar que sea un array de strings
+      ...(cobroPreview && cobroPreview.medioPago.length > 0
+        ? { medioPago: cobroPreview.medioPago, totalMedioPago: cobroPreview.totalMedioPago }
+        : {}),
       detalleServicio: detalleServicio,
       resumenFactura: {
         codigoMoneda: formData.moneda,
@@ -872,6 +901,15 @@ const { loading: loadingClients } = useClients();
       alert('Debe agregar al menos un producto o servicio al tiquete');
       return;
     }
+
+    // Sin conexión se emite en situación 3 aunque no se haya activado manualmente
+    const situacionEmision: SituacionComprobante = situacion === '1' && !isOnline() ? '3' : situacion;
+
+    // En contingencia se requiere el comprobante provisional que se está sustituyendo
+    if (situacion === '2' && (!comprobanteProvisional.numero.trim() || !comprobanteProvisional.fechaEmision)) {
+      alert('En modo contingencia debe indicar el número y la fecha del comprobante provisional');
+      return;
+    }
     
     // NUEVO: Validar que cada línea tenga todos los datos requeridos con los tipos correctos
     const lineasIncompletas = data.detalleServicio.filter((item, index) => {
@@ -931,6 +969,19 @@ const { loading: loadingClients } = useClients();
     
     // Declarar invoiceStatus en el ámbito correcto
     let invoiceStatus: 'Completada' | 'Pendiente' | 'Rechazada' = 'Pendiente';
+    let validacionXmlFallida = false;
+    let firmaFallida = false;
+    let consecutivoFallido = false;
+    let cobroIncompleto = false;
+    let recibidoPorHacienda = false;
+    setXmlValidationErrors([]);
+
+    // Los tiquetes se emiten dentro de una sesión de caja abierta para cuadrar el cierre
+    const sesionCaja = getSesionCajaActiva(selectedCompanyIdForMode);
+    if (!sesionCaja) {
+      alert('No hay una sesión de caja abierta en esta terminal. Abra la caja desde el menú Caja antes de emitir tiquetes.');
+      return;
+    }
     
     try {
       // Asegurar que el receptor sea siempre Consumidor Final y use el correo del emisor
@@ -945,41 +996,11 @@ const { loading: loadingClients } = useClients();
       
       // Calculate totals and prepare invoice data
       const detalleServicio = data.detalleServicio.map((item, index) => {
-        // Buscar el producto en localStorage para obtener el IVA de CABYS
-        let impuestoTarifa = 13; // Valor por defecto como fallback
+        // IVA según el producto CABYS
+        const impuestoTarifa = getTarifaProducto(item.codigoCabys);
         
-        // Intentar obtener el porcentaje de impuesto del producto
-        if (item.codigoCabys) {
-          // Verificar si este producto existe en localStorage
-          const PRODUCTS_KEY = 'products';
-          const storedProducts = localStorage.getItem(PRODUCTS_KEY);
-          if (storedProducts) {
-            const products = JSON.parse(storedProducts);
-            // Buscar el producto por código CABYS
-            const foundProduct = products.find((p: any) => p.codigoCabys === item.codigoCabys);
-            if (foundProduct && foundProduct.impuesto !== undefined) {
-              // Usar el impuesto específico del producto CABYS
-              impuestoTarifa = foundProduct.impuesto;
-            }
-          }
-        }
-        
-        // Calcular montoTotal (precio * cantidad)
-        const montoTotal = item.cantidad * item.precioUnitario;
-        
-        // Calcular subtotal (montoTotal - descuento)
-        const montoDescuento = item.descuento?.montoDescuento || 0;
-        const subtotal = montoTotal - montoDescuento;
-        
-        // Calcular impuesto con el porcentaje correcto, considerando exoneración
-        let impuestoMonto = subtotal * (impuestoTarifa / 100);
-        let montoExoneracion = 0;
-        
-        // Si tiene exoneración, calcular el monto exonerado (siempre 100% en tiquetes)
-        if (item.tieneExoneracion) {
-          montoExoneracion = impuestoMonto; // 100% de exoneración
-          impuestoMonto = 0; // El impuesto queda en 0 con exoneración total
-        }
+        // Montos de la línea; con exoneración (siempre 100% en tiquetes) el impuesto queda en 0
+        const { montoTotal, subtotal, impuestoMonto } = calcularMontosLinea(item, impuestoTarifa);
         
         // Determinar el código de tarifa según el porcentaje de impuesto
         let codigoTarifa = '08'; // Por defecto 13%
@@ -1022,23 +1043,34 @@ const { loading: loadingClients } = useClients();
       const totalVentaNeta = totalVenta - totalDescuentos;
       const totalImpuesto = detalleServicio.reduce((sum, item) => sum + item.impuestoNeto, 0);
       const totalComprobante = totalVentaNeta + totalImpuesto + otrosCargosTotal;
+
+      // En ventas de contado el cobro debe cubrir el total; de él salen los montos por medio de pago
+      let cobro: ResumenMediosPago | null = null;
+      if (data.condicionVenta === '01') {
+        try {
+          cobro = validarMediosPago(mediosPago, totalComprobante);
+        } catch (cobroError) {
+          cobroIncompleto = true;
+          alert(cobroError instanceof Error ? cobroError.message : 'Revise los medios de pago');
+          return;
+        }
+      }
       
       // Create tiquete object
-      // Usamos los valores pre-generados del estado para la creación del tiquete
-      // De esta forma aseguramos que se use el mismo código de seguridad fijo para todos los tiquetes del usuario
-      
-      console.log('Generando tiquete con secuencia pre-generada:', tiqueteSequence);
-      
-      const tiquete: Invoice = {
-        numeroConsecutivo: tiqueteSequence.numeroConsecutivo,
-        clave: tiqueteSequence.clave,
+      // El borrador lleva un consecutivo provisional; el definitivo se asigna después de validar el XML
+      // y cargar el certificado, para no consumir números de la serie en ventas que no se emiten
+      const tiqueteNormal: Invoice = {
+        ...getBorradorSequence(data.emisor.identificacion.numero),
         fechaEmision: new Date().toISOString(),
         emisor: data.emisor,
         receptor: data.receptor,
         condicionVenta: data.condicionVenta,
         plazoCredito: data.plazoCredito ? parseInt(data.plazoCredito.toString(), 10) : undefined,
         // Asegurar que medioPago sea siempre un array de strings
-        medioPago: Array.isArray(data.medioPago) ? data.medioPago : ['01'], // Usar el valor por defecto '01' (efectivo)
+        medioPago: cobro ? cobro.medioPago : Array.isArray(data.medioPago) ? data.medioPago : ['01'], // Usar el valor por defecto '01' (efectivo)
+        totalMedioPago: cobro ? cobro.totalMedioPago : undefined,
+        mediosPagoDetalle: cobro ? mediosPago : undefined,
+        vuelto: cobro ? cobro.vuelto : undefined,
         detalleServicio: detalleServicio.map(item => ({
           ...item,
           descuento: item.descuento && item.descuento.montoDescuento > 0 ? {
@@ -1070,6 +1102,9 @@ const { loading: loadingClients } = useClients();
         otros: data.observaciones,
       };
       
+      // Ajustar clave y referencias cuando se emite en contingencia o sin internet
+      let tiquete = await applyContingency(tiqueteNormal, selectedCompanyIdForMode, situacionEmision, comprobanteProvisional);
+      
       console.log('Tiquete preparado:', tiquete);
       
       try {
@@ -1079,8 +1114,38 @@ const { loading: loadingClients } = useClients();
           console.log(' Intentando generar XML para tiquete con clave:', tiquete.clave);
           console.log(' Datos para XML:', JSON.stringify(tiquete, null, 2));
           
-          xml = generateXML(tiquete);
-          console.log(' XML generado correctamente');
+          // Validar el borrador contra el esquema v4.4 antes de consumir un consecutivo; el formulario se conserva para corregirlo
+          const validacion = validateComprobanteXml(generateXML(tiquete));
+          if (!validacion.valid) {
+            validacionXmlFallida = true;
+            setXmlValidationErrors(validacion.errors);
+            alert(`El XML no cumple el esquema v4.4 de Hacienda (${validacion.errors.length} error(es)). Revise la lista de errores en el formulario.`);
+            return;
+          }
+
+          // Sin certificado la venta se detiene antes de consumir un consecutivo y no se envía nada a Hacienda
+          let keys: SignatureOptions;
+          try {
+            keys = await loadSignatureKeys(selectedCompanyIdForMode);
+          } catch (firmaError) {
+            firmaFallida = true;
+            console.error('Error al cargar el certificado de firma:', firmaError);
+            alert(`No se pudo firmar el tiquete: ${firmaError instanceof Error ? firmaError.message : 'Error desconocido'}. Verifique el certificado de la empresa en Configuración.`);
+            return;
+          }
+
+          // Asignar el consecutivo definitivo (sin conexión, de la reserva) y firmar con XAdES-EPES
+          try {
+            const sequence = await asignarConsecutivo(data.emisor.identificacion.numero);
+            tiquete = await applyContingency({ ...tiqueteNormal, ...sequence }, selectedCompanyIdForMode, situacionEmision, comprobanteProvisional);
+          } catch (sequenceError) {
+            consecutivoFallido = true;
+            console.error('Error al asignar el consecutivo:', sequenceError);
+            alert(`No se pudo asignar el consecutivo del tiquete: ${sequenceError instanceof Error ? sequenceError.message : 'Error desconocido'}`);
+            return;
+          }
+          xml = await signXml(generateXML(tiquete), keys);
+          console.log(' XML generado y firmado correctamente');
           
           // 2. Descargar XML automáticamente
           downloadXML(xml, tiquete.numeroConsecutivo);
@@ -1091,30 +1156,35 @@ const { loading: loadingClients } = useClients();
           xml = '<e>Error al generar XML</e>'; // XML mínimo para no romper el flujo
         }
         
-        // 3. Generar y descargar PDF (el servicio ya maneja el título basado en numeroConsecutivo)
+        // 3. Generar PDF (el servicio ya maneja el título basado en numeroConsecutivo); se descarga
+        // solo si la terminal no tiene impresora de recibos, en cuyo caso se imprime el recibo térmico
+        const impresoraRecibos = getReceiptPrinter(settings, getTerminalCaja(selectedCompanyIdForMode));
         let pdf;
         try {
           console.log('🔍 Intentando generar PDF para tiquete:', tiquete.numeroConsecutivo);
           pdf = generatePDF(tiquete);
-          pdf.save(`tiquete_${tiquete.numeroConsecutivo}.pdf`);
+          if (!impresoraRecibos) {
+            pdf.save(`tiquete_${tiquete.numeroConsecutivo}.pdf`);
+          }
           console.log('✅ PDF generado y descargado correctamente');
         } catch (pdfError) {
           console.error('❌ Error al generar PDF:', pdfError);
           console.error('Detalles del error PDF:', pdfError instanceof Error ? pdfError.stack : 'Error desconocido');
           alert('Hubo un problema al generar el PDF del tiquete. Revise la consola para más detalles.');
         }
+
+        if (impresoraRecibos) {
+          const impresion = await receiptPrinterService.printReceipt(tiquete, impresoraRecibos, selectedCompanyIdForMode);
+          if (!impresion.success) {
+            alert(`No se pudo imprimir el recibo: ${impresion.error}`);
+          }
+        }
         
         // 4. Enviar XML a Hacienda
         try {
-          // Obtener token de autenticación (simulado)
-          const token = 'token_simulado'; // En producción, obtener de un servicio de autenticación
-          
-          // En un entorno real, aquí se firmaría el XML con XAdES-BES
-          const xmlFirmado = xml; // Simulamos que ya está firmado
-          
           // Debido a las restricciones de CORS, en un entorno de desarrollo local,
           // simularemos una respuesta exitosa en lugar de hacer la llamada real a la API
-          if (window.location.hostname === 'localhost') {
+          if (window.location.hostname === 'localhost' && situacionEmision === '1') {
             console.log('Entorno de desarrollo detectado. Simulando envío a Hacienda...');
             // Simular respuesta exitosa después de un breve retraso
             await new Promise(resolve => setTimeout(resolve, 1000));
@@ -1122,20 +1192,17 @@ const { loading: loadingClients } = useClients();
             invoiceStatus = 'Completada';
           } else {
             // En producción, realizar la llamada real a la API
-            const resultado = await sendInvoiceXML({
-              xmlFirmado: xmlFirmado,
-              clave: tiquete.clave,
-              emisorTipo: data.emisor.identificacion.tipo,
-              emisorNumero: data.emisor.identificacion.numero,
-              token,
-              sandbox: true // Usar ambiente de pruebas
-            });
+            const resultado = await sendXMLToHacienda(tiquete, xml);
             
             if (resultado.success) {
-              console.log('Factura enviada a Hacienda correctamente', resultado.data);
+              console.log('Factura enviada a Hacienda correctamente', resultado.location);
               invoiceStatus = 'Completada';
+              recibidoPorHacienda = true;
             } else {
-              console.error('Error al enviar factura a Hacienda', resultado.error);
+              console.error('Error al enviar factura a Hacienda', resultado.errorCause || resultado.error);
+              if (resultado.encolado) {
+                alert('Hacienda no está disponible. El comprobante quedó en la cola de envíos y se reintentará automáticamente.');
+              }
             }
           }
         } catch (apiError) {
@@ -1214,14 +1281,26 @@ const { loading: loadingClients } = useClients();
             status: invoiceStatus,
             items: data.detalleServicio.length,
             claveNumerica: tiquete.clave,
+            numeroConsecutivo: tiquete.numeroConsecutivo,
+            tipoDocumento: '04',
+            situacion: situacionEmision,
+            informacionReferencia: tiquete.informacionReferencia,
+            receptor: data.receptor,
             condicionVenta: data.condicionVenta,
-            medioPago: data.medioPago,
-            detalleServicio: data.detalleServicio.map(item => ({
+            medioPago: tiquete.medioPago,
+            totalMedioPago: tiquete.totalMedioPago,
+            mediosPagoDetalle: tiquete.mediosPagoDetalle,
+            vuelto: tiquete.vuelto,
+            moneda: data.moneda,
+            sesionCajaId: sesionCaja.id,
+            detalleServicio: detalleServicio.map(item => ({
               codigoCabys: item.codigoCabys,
               detalle: item.detalle,
               cantidad: item.cantidad,
               precioUnitario: item.precioUnitario,
-              subtotal: (item.cantidad * item.precioUnitario) - (item.descuento?.montoDescuento || 0)
+              subtotal: item.subtotal,
+              unidadMedida: item.unidadMedida,
+              tarifaImpuesto: item.impuesto.tarifa
             })),
             // Incluir otros cargos si existen
             otrosCargos: data.otrosCargos && data.otrosCargos.length > 0 ? 
@@ -1243,6 +1322,12 @@ const { loading: loadingClients } = useClients();
             // Llamar a addInvoice con seguimiento detallado
             addInvoice(storedInvoice);
             console.log('\u2705 Llamada a addInvoice completada para el tiquete');
+            if (recibidoPorHacienda) {
+              // Consultar en segundo plano si Hacienda aceptó o rechazó el tiquete
+              trackHaciendaStatus(storedInvoice);
+            }
+            syncService.registrarSalidaInventario(data.detalleServicio, storedInvoice.id)
+              .catch(stockError => console.error('No se pudo registrar la salida de inventario:', stockError));
             
             // Verificar explícitamente que se haya guardado correctamente en localStorage
             setTimeout(() => {
@@ -1288,6 +1373,9 @@ const { loading: loadingClients } = useClients();
       // No es necesario guardarlo nuevamente aquí
       
       let alertMessage = `Tiquete generado exitosamente. Estado: ${invoiceStatus}. El XML y PDF se han descargado automáticamente.`;
+      if (cobro && cobro.vuelto > 0) {
+        alertMessage += ` Vuelto: ${data.moneda} ${cobro.vuelto.toFixed(2)}.`;
+      }
       if (data.receptor.correo) {
         alertMessage += ` Además, se ha enviado por correo a ${data.receptor.correo}.`;
       }
@@ -1297,12 +1385,15 @@ const { loading: loadingClients } = useClients();
       console.error('Error generating tiquete:', error);
       alert('Error al generar el tiquete');
     } finally {
-      // Siempre limpiar el formulario, incluso si ocurren errores
-      resetForm();
-      
-      // Eliminar borrador si existía
-      localStorage.removeItem('tiqueteDraft');
-      setHasDraft(false);
+      // Limpiar el formulario incluso si ocurren errores, salvo cuando el XML no pasó la validación,
+      // no se pudo firmar o no se obtuvo consecutivo
+      if (!validacionXmlFallida && !firmaFallida && !consecutivoFallido && !cobroIncompleto) {
+        resetForm();
+        
+        // Eliminar borrador si existía
+        localStorage.removeItem('tiqueteDraft');
+        setHasDraft(false);
+      }
     }
   };
 
@@ -1328,13 +1419,193 @@ const { loading: loadingClients } = useClients();
     updateExchangeRate();
   }, [selectedCurrency, setValue, getValues]);
 
+  // Cargar el catálogo al activar la caja rápida, para que el escaneo no consulte la base en cada lectura
+  useEffect(() => {
+    if (!modoRapido || productosCaja.length > 0) return;
+    supabaseProductService.getProducts(1, 1000).then(result => {
+      if (result.success && result.data) {
+        setProductosCaja(result.data);
+      } else {
+        setMensajeEscaner({ texto: result.error || 'No se pudo cargar el catálogo de productos', error: true });
+      }
+    });
+  }, [modoRapido, productosCaja.length]);
+
+  // Línea sobre la que actúan descuento y anulación: la seleccionada o la última escaneada
+  const getLineaObjetivo = () => {
+    const total = getValues('detalleServicio')?.length || 0;
+    if (total === 0) return null;
+    return lineaSeleccionada !== null && lineaSeleccionada < total ? lineaSeleccionada : total - 1;
+  };
+
+  // Procesar lo leído por el lector (o digitado) en la caja rápida
+  const handleScan = async (entradaTexto: string) => {
+    const entrada = parseEntradaEscaner(entradaTexto);
+    if (!entrada) {
+      setMensajeEscaner(entradaTexto.trim() ? { texto: 'Cantidad no válida', error: true } : null);
+      return;
+    }
+    if (!entrada.codigo) {
+      setMultiplicador(entrada.cantidad);
+      setMensajeEscaner(null);
+      return;
+    }
+
+    const cantidad = entrada.conMultiplicador ? entrada.cantidad : (multiplicador ?? 1);
+    setMultiplicador(null);
+
+    let producto = buscarProductoPorCodigo(productosCaja, entrada.codigo);
+    if (!producto) {
+      // El producto pudo crearse después de cargar el catálogo
+      const result = await supabaseProductService.searchProducts({ barcode: entrada.codigo, limit: 1 });
+      producto = result.success ? result.data?.[0] : undefined;
+      if (producto) {
+        setProductosCaja(prev => [...prev, producto as Product]);
+      }
+    }
+    if (!producto) {
+      setMensajeEscaner({ texto: `No se encontró un producto con el código ${entrada.codigo}`, error: true });
+      return;
+    }
+
+    const codigo = getCodigoProducto(producto);
+    const lineas = getValues('detalleServicio') || [];
+    const index = buscarLineaEscaneada(lineas, codigo);
+    if (index >= 0) {
+      const nuevaCantidad = Math.round((Number(lineas[index].cantidad) + cantidad) * 1000) / 1000;
+      setValue(`detalleServicio.${index}.cantidad`, nuevaCantidad);
+      setLineaSeleccionada(index);
+    } else {
+      handleProductSelect({
+        codigo,
+        codigoCabys: producto.code,
+        detalle: producto.name,
+        cantidad,
+        unidadMedida: producto.unit_measure || 'Unid',
+        precioUnitario: producto.unit_price,
+        forma_farmaceutica: producto.forma_farmaceutica,
+        registro_medicamento: producto.registro_medicamento,
+        numero_vin_serie: producto.numero_vin_serie,
+      });
+      setLineaSeleccionada(null);
+    }
+    setMensajeEscaner({ texto: `${cantidad} x ${producto.name}` });
+  };
+
+  // F4: descuento sobre la línea seleccionada, en monto o porcentaje
+  const aplicarDescuentoRapido = () => {
+    const index = getLineaObjetivo();
+    if (index === null) return;
+    const linea = getValues(`detalleServicio.${index}`);
+    const montoLinea = (Number(linea.cantidad) || 0) * (Number(linea.precioUnitario) || 0);
+    const entrada = window.prompt(`Descuento para "${linea.detalle}" (monto o porcentaje, ej. 10%)`, '');
+    if (entrada === null || !entrada.trim()) return;
+    try {
+      const montoDescuento = calcularDescuentoLinea(entrada, montoLinea);
+      setValue(`detalleServicio.${index}.descuento`, {
+        montoDescuento,
+        naturalezaDescuento: montoDescuento > 0 ? 'Descuento comercial' : 'Sin descuento',
+      });
+      setMensajeEscaner({ texto: `Descuento de ${montoDescuento.toFixed(2)} aplicado a ${linea.detalle}` });
+    } catch (error) {
+      setMensajeEscaner({ texto: error instanceof Error ? error.message : 'Descuento no válido', error: true });
+    }
+  };
+
+  // F8: anular la línea seleccionada
+  const anularLineaRapida = () => {
+    const index = getLineaObjetivo();
+    if (index === null) return;
+    const linea = getValues(`detalleServicio.${index}`);
+    if (!window.confirm(`¿Anular la línea "${linea.detalle}"?`)) return;
+    handleRemoveLine(index);
+    setLineaSeleccionada(null);
+    setMensajeEscaner({ texto: `Línea anulada: ${linea.detalle}` });
+  };
+
+  // Acciones de las teclas de función con el estado del último render; el listener se registra una sola vez
+  const atajosRapidosRef = useRef({ aplicarDescuentoRapido, anularLineaRapida, isSubmitting, cobrar: handleSubmit(onSubmit) });
+  atajosRapidosRef.current = { aplicarDescuentoRapido, anularLineaRapida, isSubmitting, cobrar: handleSubmit(onSubmit) };
+
+  // Teclas de función de la caja rápida
+  useEffect(() => {
+    if (!modoRapido) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const atajos = atajosRapidosRef.current;
+      if (e.key === 'F2') {
+        escanerRef.current?.focus();
+      } else if (e.key === 'F4') {
+        atajos.aplicarDescuentoRapido();
+        escanerRef.current?.focus();
+      } else if (e.key === 'F8') {
+        atajos.anularLineaRapida();
+        escanerRef.current?.focus();
+      } else if (e.key === 'F9') {
+        // Ir al primer monto del cobro
+        document.querySelector<HTMLInputElement>('#cobro-tiquete input[type="number"]')?.focus();
+      } else if (e.key === 'F10') {
+        // Igual que el botón deshabilitado: una tecla sostenida o repetida no emite el mismo tiquete dos veces
+        if (!atajos.isSubmitting && !e.repeat) {
+          atajos.cobrar();
+        }
+      } else {
+        return;
+      }
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [modoRapido]);
+
+  // Volver al lector cuando termina una venta
+  useEffect(() => {
+    if (modoRapido && fields.length === 0) {
+      escanerRef.current?.focus();
+    }
+  }, [modoRapido, fields.length]);
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <h1 className="text-2xl title-primary">Crear Tiquete Electrónico</h1>
+        <button
+          type="button"
+          onClick={() => setModoRapido(!modoRapido)}
+          className={`${modoRapido ? 'btn-primary' : 'btn-ghost'} flex items-center`}
+        >
+          <ScanBarcode className="w-4 h-4 mr-2" />
+          {modoRapido ? 'Salir de caja rápida' : 'Modo caja rápida'}
+        </button>
       </div>
+
+      {modoRapido && (
+        <FastCheckoutPanel
+          inputRef={escanerRef}
+          lineas={watch('detalleServicio') || []}
+          lineaSeleccionada={getLineaObjetivo() ?? -1}
+          onSeleccionar={setLineaSeleccionada}
+          onScan={handleScan}
+          total={calcularTotalTiquete()}
+          moneda={selectedCurrency}
+          multiplicador={multiplicador}
+          onLimpiar={() => {
+            setMultiplicador(null);
+            setMensajeEscaner(null);
+          }}
+          mensaje={mensajeEscaner}
+        />
+      )}
       
       <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+        <ContingencyPanel
+          situacion={situacion}
+          onSituacionChange={handleSituacionChange}
+          provisional={comprobanteProvisional}
+          onProvisionalChange={setComprobanteProvisional}
+        />
+
+        <XmlValidationErrors errors={xmlValidationErrors} onClose={() => setXmlValidationErrors([])} />
+        
         {/* Formulario para que onSubmit se conecte correctamente */}
         {/* Tabs for different sections */}
         <div className="glass-card">
@@ -1574,23 +1845,25 @@ const { loading: loadingClients } = useClients();
                   </div>
                 )}
                 
-                <div>
-                  <label className="form-label">Medio de Pago</label>
-                  <select 
-                    {...register('medioPago.0')} 
-                    className="form-select"
-                  >
-                    <option value="01">Efectivo</option>
-                    <option value="02">Tarjeta</option>
-                    <option value="03">Cheque</option>
-                    <option value="04">Transferencia – depósito bancario</option>
-                    <option value="05">Recaudado por terceros</option>
-                    <option value="06">SINPE MOVIL</option>
-                    <option value="07">Plataforma Digital</option>
-                    <option value="99">Otros</option>
-                  </select>
-                  {errors.medioPago && <p className="form-error">{errors.medioPago.message}</p>}
-                </div>
+                {condicionVenta !== '01' && (
+                  <div>
+                    <label className="form-label">Medio de Pago</label>
+                    <select 
+                      {...register('medioPago.0')} 
+                      className="form-select"
+                    >
+                      <option value="01">Efectivo</option>
+                      <option value="02">Tarjeta</option>
+                      <option value="03">Cheque</option>
+                      <option value="04">Transferencia – depósito bancario</option>
+                      <option value="05">Recaudado por terceros</option>
+                      <option value="06">SINPE MOVIL</option>
+                      <option value="07">Plataforma Digital</option>
+                      <option value="99">Otros</option>
+                    </select>
+                    {errors.medioPago && <p className="form-error">{errors.medioPago.message}</p>}
+                  </div>
+                )}
                 <div>
                   <label className="form-label">Moneda</label>
                   <select {...register('moneda')} className="form-select">
@@ -1976,6 +2249,18 @@ const { loading: loadingClients } = useClients();
                 )}
               </div>
 
+              {/* Cobro en caja: efectivo, tarjeta, SINPE Móvil u otros medios */}
+              {condicionVenta === '01' && (
+                <div id="cobro-tiquete">
+                  <TenderPanel
+                    mediosPago={mediosPago}
+                    onChange={setMediosPago}
+                    total={calcularTotalTiquete()}
+                    moneda={selectedCurrency}
+                  />
+                </div>
+              )}
+
               {/* Observaciones */}
               <div className="p-4 glass-card">
                 <label className="form-label">Observaciones</label>
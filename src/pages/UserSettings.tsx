@@ -2,10 +2,12 @@ import { useState, useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { Save, User, MapPin, Phone, Mail, Building, Image, Trash2, Store } from 'lucide-react';
+import { Save, User, MapPin, Phone, Mail, Building, Image, Trash2, Store, Printer } from 'lucide-react';
 import { toast } from 'react-hot-toast';
 import { UserProfileAPI } from '../services/userProfileService';
-import { useUserSettings } from '../hooks/useUserSettings';
+import { useUserSettings, ReceiptPrinterSettings } from '../hooks/useUserSettings';
+import { DEFAULT_RECEIPT_PRINTER, getReceiptPrinter, receiptPrinterService } from '../services/receiptPrinterService';
+import { getTerminalCaja } from '../services/cashRegisterService';
 import { getAvailableCompanies, getSelectedCompany, selectCompany, loadCompanyEnvironment } from '../services/companyService';
 import { envService } from '../services/envService';
 
@@ -238,7 +240,30 @@ const UserSettings = () => {
   });
   
   const [certificateFile, setCertificateFile] = useState<File | null>(null);
-  const { updateSettings } = useUserSettings();
+  const [certificatePin, setCertificatePin] = useState('');
+  const { settings, updateSettings } = useUserSettings();
+
+  // Impresora de recibos de la terminal de este equipo
+  const terminalCaja = getTerminalCaja(localStorage.getItem('selected_company') || 'innova');
+  const [receiptPrinterEnabled, setReceiptPrinterEnabled] = useState(false);
+  const [receiptPrinter, setReceiptPrinter] = useState<ReceiptPrinterSettings>(DEFAULT_RECEIPT_PRINTER);
+
+  useEffect(() => {
+    const printer = getReceiptPrinter(settings, terminalCaja);
+    setReceiptPrinterEnabled(!!printer);
+    setReceiptPrinter(printer || DEFAULT_RECEIPT_PRINTER);
+  }, [settings, terminalCaja]);
+
+  const handleAuthorizePrinter = async () => {
+    const result = await receiptPrinterService.authorizePrinter(receiptPrinter.output);
+    if (result.success) {
+      setSuccessMessage('Impresora autorizada en este navegador');
+      setTimeout(() => setSuccessMessage(''), 5000);
+    } else {
+      setErrorMessage(`No se pudo autorizar la impresora: ${result.error}`);
+      setTimeout(() => setErrorMessage(''), 7000);
+    }
+  };
   
   const onSubmit = async (data: UserProfileForm) => {
     setIsSaving(true);
@@ -264,8 +289,16 @@ const UserSettings = () => {
         economic_activity: data.actividadEconomica,
         api_username: document.querySelector<HTMLInputElement>('[placeholder="Usuario de API"]')?.value || null,
         api_password: document.querySelector<HTMLInputElement>('[placeholder="••••••••••••••••••••"]')?.value || null,
-        api_pin: null, // No se está utilizando en este formulario
+        api_pin: certificatePin || null, // PIN del certificado .p12
       };
+
+      // La impresora de recibos se guarda por terminal; las de otras terminales se conservan
+      const receiptPrinters = { ...(settings?.receipt_printers || {}) };
+      if (receiptPrinterEnabled) {
+        receiptPrinters[terminalCaja] = receiptPrinter;
+      } else {
+        delete receiptPrinters[terminalCaja];
+      }
       
       // Guardar el logo en localStorage y asociarlo a la empresa si se ha cargado uno nuevo
       if (logoPreview) {
@@ -287,7 +320,7 @@ const UserSettings = () => {
       await selectCompany(selectedCompanyId);
       
       // Actualizar la configuración del usuario
-      const { error } = await updateSettings(settingsData, certificateFile || undefined);
+      const { error } = await updateSettings({ ...settingsData, receipt_printers: receiptPrinters }, certificateFile || undefined);
       
       if (error) throw error;
       
@@ -670,6 +703,109 @@ const UserSettings = () => {
                       </div>
                       <p className="text-xs text-gray-400 mt-1">Archivo de certificado digital para firmar comprobantes (.p12)</p>
                     </div>
+                    
+                    <div>
+                      <label className="form-label">PIN del certificado</label>
+                      <input 
+                        type="password"
+                        className="form-input" 
+                        placeholder="PIN de la llave criptográfica"
+                        value={certificatePin}
+                        onChange={(e) => setCertificatePin(e.target.value)}
+                      />
+                      <p className="text-xs text-gray-400 mt-1">Se usa para abrir el .p12 al firmar los comprobantes</p>
+                    </div>
+                  </div>
+
+                  {/* Impresora de recibos */}
+                  <div className="mt-8 space-y-4">
+                    <h3 className="text-lg font-medium flex items-center">
+                      <Printer className="w-5 h-5 mr-2 text-primary-400" />
+                      Impresora de recibos (terminal {terminalCaja})
+                    </h3>
+                    <label className="flex items-center space-x-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={receiptPrinterEnabled}
+                        onChange={(e) => setReceiptPrinterEnabled(e.target.checked)}
+                      />
+                      <span>Imprimir recibo térmico al emitir tiquetes en esta terminal</span>
+                    </label>
+
+                    {receiptPrinterEnabled && (
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                          <label className="form-label">Ancho del papel</label>
+                          <select
+                            className="form-select"
+                            value={receiptPrinter.paper_width}
+                            onChange={(e) => setReceiptPrinter({ ...receiptPrinter, paper_width: e.target.value as ReceiptPrinterSettings['paper_width'] })}
+                          >
+                            <option value="80">80 mm</option>
+                            <option value="58">58 mm</option>
+                          </select>
+                        </div>
+
+                        <div>
+                          <label className="form-label">Salida</label>
+                          <select
+                            className="form-select"
+                            value={receiptPrinter.output}
+                            onChange={(e) => setReceiptPrinter({ ...receiptPrinter, output: e.target.value as ReceiptPrinterSettings['output'] })}
+                          >
+                            <option value="pdf">PDF angosto (diálogo de impresión)</option>
+                            <option value="usb">ESC/POS por USB</option>
+                            <option value="serial">ESC/POS por puerto serie</option>
+                            <option value="bridge">ESC/POS por puente de impresión local</option>
+                          </select>
+                        </div>
+
+                        {receiptPrinter.output === 'bridge' && (
+                          <div className="md:col-span-2">
+                            <label className="form-label">Dirección del puente de impresión</label>
+                            <input
+                              className="form-input"
+                              placeholder="http://localhost:9100/print"
+                              value={receiptPrinter.bridge_url || ''}
+                              onChange={(e) => setReceiptPrinter({ ...receiptPrinter, bridge_url: e.target.value })}
+                            />
+                            <p className="text-xs text-gray-400 mt-1">Recibe los comandos ESC/POS por POST como application/octet-stream</p>
+                          </div>
+                        )}
+
+                        {receiptPrinter.output === 'serial' && (
+                          <div>
+                            <label className="form-label">Velocidad (baudios)</label>
+                            <select
+                              className="form-select"
+                              value={receiptPrinter.baud_rate || 9600}
+                              onChange={(e) => setReceiptPrinter({ ...receiptPrinter, baud_rate: Number(e.target.value) })}
+                            >
+                              {[9600, 19200, 38400, 115200].map(baudRate => (
+                                <option key={baudRate} value={baudRate}>{baudRate}</option>
+                              ))}
+                            </select>
+                          </div>
+                        )}
+
+                        {(receiptPrinter.output === 'usb' || receiptPrinter.output === 'serial') && (
+                          <div className="flex items-end">
+                            <button type="button" className="btn-ghost" onClick={handleAuthorizePrinter}>
+                              Autorizar impresora
+                            </button>
+                          </div>
+                        )}
+
+                        <label className="flex items-center space-x-2 text-sm md:col-span-2">
+                          <input
+                            type="checkbox"
+                            checked={receiptPrinter.print_logo}
+                            onChange={(e) => setReceiptPrinter({ ...receiptPrinter, print_logo: e.target.checked })}
+                          />
+                          <span>Imprimir el logo de la empresa</span>
+                        </label>
+                      </div>
+                    )}
                   </div>
                 </div>
               </div>
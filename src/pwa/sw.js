@@ -0,0 +1,127 @@
+/**
+ * Service worker del punto de venta.
+ * El build (plugin pwaServiceWorker en vite.config.ts) reemplaza la versión y la lista de
+ * archivos del shell; este archivo no se importa desde la aplicación.
+ *
+ * - Shell de la aplicación: precacheado en la instalación, cache-first
+ * - Navegación: red primero y, sin conexión, el index.html precacheado (la app arranca offline)
+ * - CABYS: se responde desde la caché y se actualiza en segundo plano
+ * - Tipo de cambio: red primero y, sin conexión, el último valor guardado
+ * - Supabase y Hacienda (recepción) no pasan por la caché; sin conexión los atiende la capa IndexedDB
+ */
+
+const PRECACHE_VERSION = '__PRECACHE_VERSION__';
+const PRECACHE_URLS = [/* __PRECACHE_MANIFEST__ */];
+
+const CACHE_PREFIX = 'innovai-pos-';
+const SHELL_CACHE = `${CACHE_PREFIX}shell-${PRECACHE_VERSION}`;
+const CABYS_CACHE = `${CACHE_PREFIX}cabys`;
+const TIPO_CAMBIO_CACHE = `${CACHE_PREFIX}tipo-cambio`;
+const RUNTIME_CACHES = [CABYS_CACHE, TIPO_CAMBIO_CACHE];
+
+// Búsquedas CABYS que se conservan; se eliminan las más antiguas
+const CABYS_MAX_ENTRADAS = 300;
+
+const esCabys = url => url.hostname === 'api.hacienda.go.cr' && url.pathname.startsWith('/fe/cabys');
+const esTipoCambio = url => url.hostname === 'api.hacienda.go.cr' && url.pathname.startsWith('/indicadores/tc');
+
+self.addEventListener('install', event => {
+  // La versión nueva queda en espera hasta que el usuario acepte actualizar
+  event.waitUntil(caches.open(SHELL_CACHE).then(cache => cache.addAll(PRECACHE_URLS)));
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(nombres => Promise.all(
+        nombres
+          .filter(nombre => nombre.startsWith(CACHE_PREFIX) && nombre !== SHELL_CACHE && !RUNTIME_CACHES.includes(nombre))
+          .map(nombre => caches.delete(nombre))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('message', event => {
+  if (event.data && event.data.type === 'SKIP_WAITING') {
+    self.skipWaiting();
+  }
+});
+
+const recortarCache = async (nombre, maximo) => {
+  const cache = await caches.open(nombre);
+  const llaves = await cache.keys();
+  await Promise.all(llaves.slice(0, Math.max(0, llaves.length - maximo)).map(llave => cache.delete(llave)));
+};
+
+// Navegación: la red trae el index.html más reciente; sin conexión se usa el del shell
+const atenderNavegacion = async request => {
+  try {
+    return await fetch(request);
+  } catch (error) {
+    const cache = await caches.open(SHELL_CACHE);
+    const shell = (await cache.match('/index.html')) || (await cache.match('/'));
+    if (shell) return shell;
+    throw error;
+  }
+};
+
+// Cache-first para los archivos del shell (llevan hash en el nombre)
+const atenderShell = async request => {
+  const cache = await caches.open(SHELL_CACHE);
+  const guardada = await cache.match(request);
+  return guardada || fetch(request);
+};
+
+// CABYS cambia poco: se responde de la caché y se refresca en segundo plano
+const atenderCabys = async (event, request) => {
+  const cache = await caches.open(CABYS_CACHE);
+  const guardada = await cache.match(request);
+  const actualizacion = fetch(request)
+    .then(async respuesta => {
+      if (respuesta.ok) {
+        await cache.put(request, respuesta.clone());
+        await recortarCache(CABYS_CACHE, CABYS_MAX_ENTRADAS);
+      }
+      return respuesta;
+    });
+
+  if (guardada) {
+    event.waitUntil(actualizacion.catch(() => undefined));
+    return guardada;
+  }
+  return actualizacion;
+};
+
+// Tipo de cambio: se prefiere el valor del día; sin conexión, el último obtenido
+const atenderTipoCambio = async request => {
+  const cache = await caches.open(TIPO_CAMBIO_CACHE);
+  try {
+    const respuesta = await fetch(request);
+    if (respuesta.ok) {
+      await cache.put(request, respuesta.clone());
+    }
+    return respuesta;
+  } catch (error) {
+    const guardada = await cache.match(request);
+    if (guardada) return guardada;
+    throw error;
+  }
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate' && url.origin === self.location.origin) {
+    event.respondWith(atenderNavegacion(request));
+  } else if (url.origin === self.location.origin && PRECACHE_URLS.includes(url.pathname)) {
+    event.respondWith(atenderShell(request));
+  } else if (esCabys(url)) {
+    event.respondWith(atenderCabys(event, request));
+  } else if (esTipoCambio(url)) {
+    event.respondWith(atenderTipoCambio(request));
+  }
+});
@@ -0,0 +1,268 @@
+/**
+ * accountsReceivableService.ts
+ * Antigüedad de saldos de cuentas por cobrar y estados de cuenta por cliente
+ */
+
+import { StoredInvoice } from '../hooks/useInvoiceHistory';
+import { getStoredTipoDocumento } from './creditNoteService';
+import { CONDICIONES_VENTA_CREDITO } from './paymentReceiptService';
+import { getNotasCredito, getSaldoPendiente, redondearMonto, TOLERANCIA_SALDO } from './invoicePaymentService';
+
+/**
+ * Tramos de antigüedad según los días transcurridos desde el vencimiento
+ */
+export type TramoAntiguedad = 'corriente' | '1-30' | '31-60' | '61-90' | '90+';
+
+export const TRAMOS_ANTIGUEDAD: { tramo: TramoAntiguedad; descripcion: string }[] = [
+  { tramo: 'corriente', descripcion: 'Al día' },
+  { tramo: '1-30', descripcion: '1 a 30 días' },
+  { tramo: '31-60', descripcion: '31 a 60 días' },
+  { tramo: '61-90', descripcion: '61 a 90 días' },
+  { tramo: '90+', descripcion: 'Más de 90 días' },
+];
+
+/**
+ * Tipos de comprobante que generan saldo por cobrar: factura, nota de débito y exportación
+ */
+const TIPOS_POR_COBRAR = ['01', '02', '09'];
+
+const DIA_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Documento con saldo pendiente dentro del reporte de antigüedad
+ */
+export interface DocumentoPorCobrar {
+  factura: StoredInvoice;
+  fechaVencimiento: Date;
+  diasVencidos: number;
+  tramo: TramoAntiguedad;
+  saldo: number;
+}
+
+/**
+ * Antigüedad de saldos de un cliente en una moneda
+ */
+export interface AntiguedadCliente {
+  clienteId: string;
+  cliente: string;
+  correo?: string;
+  moneda: string;
+  tramos: Record<TramoAntiguedad, number>;
+  total: number;
+  documentos: DocumentoPorCobrar[];
+}
+
+/**
+ * Movimiento del estado de cuenta: los cargos aumentan el saldo y los abonos lo disminuyen
+ */
+export interface MovimientoEstadoCuenta {
+  fecha: string;
+  tipo: 'factura' | 'nota_debito' | 'nota_credito' | 'pago';
+  documento: string;
+  descripcion: string;
+  cargo: number;
+  abono: number;
+  saldo: number;
+}
+
+/**
+ * Estado de cuenta de un cliente en una moneda
+ */
+export interface EstadoCuenta {
+  clienteId: string;
+  cliente: string;
+  correo?: string;
+  moneda: string;
+  fechaCorte: Date;
+  movimientos: MovimientoEstadoCuenta[];
+  totalCargos: number;
+  totalAbonos: number;
+  saldo: number;
+  tramos: Record<TramoAntiguedad, number>;
+}
+
+const tramosVacios = (): Record<TramoAntiguedad, number> => ({
+  'corriente': 0, '1-30': 0, '31-60': 0, '61-90': 0, '90+': 0
+});
+
+/**
+ * Identificador del cliente: su número de identificación o, en comprobantes
+ * antiguos sin receptor, el nombre registrado
+ * @param invoice Comprobante del historial
+ */
+export const getClienteId = (invoice: StoredInvoice): string =>
+  invoice.receptor?.identificacion?.numero || invoice.client || 'sin_cliente';
+
+/**
+ * Fecha de vencimiento: fecha de emisión más el plazo de crédito
+ * @param invoice Factura a crédito
+ */
+export const getFechaVencimiento = (invoice: StoredInvoice): Date => {
+  const plazo = parseInt(invoice.plazoCredito || '0', 10) || 0;
+  return new Date(new Date(invoice.date).getTime() + plazo * DIA_MS);
+};
+
+/**
+ * Tramo de antigüedad según los días vencidos
+ * @param diasVencidos Días transcurridos desde el vencimiento (negativo si aún no vence)
+ */
+export const getTramoAntiguedad = (diasVencidos: number): TramoAntiguedad => {
+  if (diasVencidos <= 0) return 'corriente';
+  if (diasVencidos <= 30) return '1-30';
+  if (diasVencidos <= 60) return '31-60';
+  if (diasVencidos <= 90) return '61-90';
+  return '90+';
+};
+
+/**
+ * Indica si el comprobante es un documento a crédito que genera saldo por cobrar
+ */
+const esPorCobrar = (invoice: StoredInvoice): boolean =>
+  CONDICIONES_VENTA_CREDITO.includes(invoice.condicionVenta) &&
+  TIPOS_POR_COBRAR.includes(getStoredTipoDocumento(invoice));
+
+/**
+ * Construye el reporte de antigüedad de saldos por cliente y moneda
+ * @param invoices Historial de comprobantes con sus pagos aplicados
+ * @param fechaCorte Fecha a la que se calcula la antigüedad
+ * @returns Una fila por cliente y moneda, ordenadas por saldo vencido
+ */
+export const buildAgingReport = (invoices: StoredInvoice[], fechaCorte: Date = new Date()): AntiguedadCliente[] => {
+  const filas: Record<string, AntiguedadCliente> = {};
+
+  invoices.filter(esPorCobrar).forEach(factura => {
+    const saldo = getSaldoPendiente(factura, invoices);
+    if (saldo <= TOLERANCIA_SALDO) return;
+
+    const fechaVencimiento = getFechaVencimiento(factura);
+    const diasVencidos = Math.floor((fechaCorte.getTime() - fechaVencimiento.getTime()) / DIA_MS);
+    const tramo = getTramoAntiguedad(diasVencidos);
+    const clienteId = getClienteId(factura);
+    const moneda = factura.moneda || 'CRC';
+    const key = `${clienteId}|${moneda}`;
+
+    if (!filas[key]) {
+      filas[key] = {
+        clienteId,
+        cliente: factura.receptor?.nombre || factura.client || 'Sin nombre',
+        correo: factura.receptor?.correo,
+        moneda,
+        tramos: tramosVacios(),
+        total: 0,
+        documentos: [],
+      };
+    }
+
+    const fila = filas[key];
+    fila.tramos[tramo] += saldo;
+    fila.total += saldo;
+    fila.correo = fila.correo || factura.receptor?.correo;
+    fila.documentos.push({ factura, fechaVencimiento, diasVencidos, tramo, saldo });
+  });
+
+  return Object.values(filas)
+    .map(fila => ({
+      ...fila,
+      documentos: fila.documentos.sort((a, b) => b.diasVencidos - a.diasVencidos),
+    }))
+    .sort((a, b) => (b.total - b.tramos['corriente']) - (a.total - a.tramos['corriente']) || b.total - a.total);
+};
+
+/**
+ * Construye el estado de cuenta de un cliente: facturas y notas de débito como cargos,
+ * pagos y notas de crédito como abonos, con el saldo acumulado después de cada movimiento
+ * @param invoices Historial de comprobantes con sus pagos aplicados
+ * @param clienteId Identificación del cliente (ver getClienteId)
+ * @param moneda Moneda del estado de cuenta
+ * @param fechaCorte Fecha de corte; se excluyen los movimientos posteriores
+ */
+export const buildEstadoCuenta = (
+  invoices: StoredInvoice[],
+  clienteId: string,
+  moneda: string,
+  fechaCorte: Date = new Date()
+): EstadoCuenta => {
+  const documentos = invoices.filter(inv =>
+    esPorCobrar(inv) && getClienteId(inv) === clienteId && (inv.moneda || 'CRC') === moneda
+  );
+  if (documentos.length === 0) {
+    throw new Error('El cliente no tiene documentos a crédito en esta moneda');
+  }
+
+  const movimientos: Omit<MovimientoEstadoCuenta, 'saldo'>[] = [];
+  documentos.forEach(doc => {
+    const consecutivo = doc.numeroConsecutivo || doc.consecutive || doc.id;
+    const esNotaDebito = getStoredTipoDocumento(doc) === '02';
+    movimientos.push({
+      fecha: doc.date,
+      tipo: esNotaDebito ? 'nota_debito' : 'factura',
+      documento: consecutivo,
+      descripcion: esNotaDebito
+        ? 'Nota de débito'
+        : `Factura a ${doc.plazoCredito || 0} días, vence ${getFechaVencimiento(doc).toISOString().substring(0, 10)}`,
+      cargo: Number(doc.total) || 0,
+      abono: 0,
+    });
+
+    const pagos = doc.infoPago?.pagos || [];
+    pagos.forEach(pago => {
+      movimientos.push({
+        fecha: pago.fechaPago,
+        tipo: 'pago',
+        documento: pago.recibo?.numeroConsecutivo || consecutivo,
+        descripcion: `Pago a ${consecutivo}${pago.referencia ? ` (ref. ${pago.referencia})` : ''}`,
+        cargo: 0,
+        abono: pago.monto,
+      });
+    });
+    // Facturas canceladas antes de registrar abonos: un único pago por el total
+    if (doc.infoPago?.pagada && pagos.length === 0) {
+      movimientos.push({
+        fecha: doc.infoPago.fechaPago || doc.date,
+        tipo: 'pago',
+        documento: consecutivo,
+        descripcion: `Pago a ${consecutivo}`,
+        cargo: 0,
+        abono: Number(doc.total) || 0,
+      });
+    }
+
+    getNotasCredito(doc, invoices).forEach(nota => {
+      movimientos.push({
+        fecha: nota.date,
+        tipo: 'nota_credito',
+        documento: nota.numeroConsecutivo || nota.id,
+        descripcion: `Nota de crédito a ${consecutivo}`,
+        cargo: 0,
+        abono: Number(nota.total) || 0,
+      });
+    });
+  });
+
+  let saldo = 0;
+  const ordenados: MovimientoEstadoCuenta[] = movimientos
+    .filter(mov => new Date(mov.fecha) <= fechaCorte)
+    .sort((a, b) => a.fecha.localeCompare(b.fecha) || b.cargo - a.cargo)
+    .map(mov => {
+      saldo = redondearMonto(saldo + mov.cargo - mov.abono);
+      return { ...mov, saldo };
+    });
+
+  const tramos = tramosVacios();
+  buildAgingReport(documentos.concat(invoices.filter(inv => getStoredTipoDocumento(inv) === '03')), fechaCorte)
+    .filter(fila => fila.clienteId === clienteId && fila.moneda === moneda)
+    .forEach(fila => TRAMOS_ANTIGUEDAD.forEach(({ tramo }) => { tramos[tramo] += fila.tramos[tramo]; }));
+
+  return {
+    clienteId,
+    cliente: documentos[0].receptor?.nombre || documentos[0].client || 'Sin nombre',
+    correo: documentos.find(doc => doc.receptor?.correo)?.receptor?.correo,
+    moneda,
+    fechaCorte,
+    movimientos: ordenados,
+    totalCargos: ordenados.reduce((sum, mov) => sum + mov.cargo, 0),
+    totalAbonos: ordenados.reduce((sum, mov) => sum + mov.abono, 0),
+    saldo,
+    tramos,
+  };
+};
@@ -0,0 +1,187 @@
+/**
+ * bankReconciliationService.ts
+ * Conciliación de depósitos bancarios con facturas pendientes de cobro:
+ * sugerencias por monto, referencia y nombre del cliente
+ */
+
+import { StoredInvoice } from '../hooks/useInvoiceHistory';
+import { buildAgingReport, DocumentoPorCobrar, getClienteId } from './accountsReceivableService';
+import { normalizarTexto } from './bankStatementService';
+import { redondearMonto, TOLERANCIA_SALDO } from './invoicePaymentService';
+
+/**
+ * Parte de un depósito aplicada a una factura
+ */
+export interface AsignacionConciliacion {
+  factura: StoredInvoice;
+  saldo: number;
+  monto: number;
+}
+
+/**
+ * Posible conciliación de un depósito con una o varias facturas
+ */
+export interface SugerenciaConciliacion {
+  asignaciones: AsignacionConciliacion[];
+  puntaje: number;
+  motivos: string[];
+}
+
+/**
+ * Datos del depósito necesarios para conciliarlo
+ */
+export interface DepositoConciliable {
+  monto: number;
+  descripcion: string;
+  referencia?: string;
+}
+
+/**
+ * Puntaje mínimo para sugerir una conciliación
+ */
+export const PUNTAJE_MINIMO_SUGERENCIA = 30;
+
+/**
+ * Palabras de las razones sociales que no identifican al cliente
+ */
+const PALABRAS_GENERICAS = ['sociedad', 'anonima', 'limitada', 'ltda', 'srl', 'responsabilidad', 'compania', 'comercial', 'servicios', 'grupo', 'del', 'de', 'la', 'los', 'las', 'y'];
+
+/**
+ * Facturas con saldo pendiente en la moneda del depósito, de la más antigua a la más reciente
+ * @param invoices Historial de comprobantes con sus pagos aplicados
+ * @param moneda Moneda de la cuenta bancaria
+ */
+export const getFacturasAbiertas = (invoices: StoredInvoice[], moneda: string): DocumentoPorCobrar[] =>
+  buildAgingReport(invoices)
+    .filter(fila => fila.moneda === moneda)
+    .flatMap(fila => fila.documentos)
+    .sort((a, b) => a.factura.date.localeCompare(b.factura.date));
+
+/**
+ * Puntaje por la identificación del cliente en la descripción del depósito
+ */
+const puntuarCliente = (factura: StoredInvoice, texto: string, digitos: string[]): { puntaje: number; motivo?: string } => {
+  const identificacion = factura.receptor?.identificacion?.numero?.replace(/\D/g, '');
+  if (identificacion && digitos.some(token => token === identificacion)) {
+    return { puntaje: 30, motivo: 'Identificación del cliente en el depósito' };
+  }
+
+  const palabras = normalizarTexto(factura.receptor?.nombre || factura.client || '')
+    .replace(/[^a-z0-9 ]/g, ' ')
+    .split(' ')
+    .filter(palabra => palabra.length >= 3 && !PALABRAS_GENERICAS.includes(palabra));
+  if (palabras.length === 0) {
+    return { puntaje: 0 };
+  }
+  const coincidencias = palabras.filter(palabra => texto.includes(palabra)).length / palabras.length;
+  return coincidencias >= 0.5
+    ? { puntaje: Math.round(25 * coincidencias), motivo: 'Nombre del cliente en el depósito' }
+    : { puntaje: 0 };
+};
+
+/**
+ * Sugiere con qué facturas conciliar un depósito. Cada factura suma puntos si su saldo es igual
+ * al monto, si la descripción o referencia menciona su consecutivo y si identifica al cliente.
+ * Cuando el depósito cubre varias facturas del mismo cliente se sugiere repartirlo entre ellas,
+ * empezando por la más antigua.
+ * @param deposito Depósito del estado de cuenta
+ * @param abiertas Facturas con saldo pendiente (ver getFacturasAbiertas)
+ * @param maximo Cantidad máxima de sugerencias
+ * @returns Sugerencias ordenadas de mayor a menor puntaje
+ */
+export const sugerirConciliacion = (
+  deposito: DepositoConciliable,
+  abiertas: DocumentoPorCobrar[],
+  maximo = 5
+): SugerenciaConciliacion[] => {
+  const texto = normalizarTexto(`${deposito.descripcion} ${deposito.referencia || ''}`);
+  const digitos = texto.split(/\D+/).filter(Boolean).map(token => token.replace(/^0+/, ''));
+  const sugerencias: SugerenciaConciliacion[] = [];
+  const puntajeCliente: Record<string, number> = {};
+
+  abiertas.forEach(({ factura, saldo }) => {
+    let puntaje = 0;
+    const motivos: string[] = [];
+
+    if (Math.abs(saldo - deposito.monto) <= TOLERANCIA_SALDO) {
+      puntaje += 50;
+      motivos.push('Monto igual al saldo de la factura');
+    }
+
+    const consecutivo = factura.numeroConsecutivo || factura.consecutive || '';
+    const numero = consecutivo.slice(-10).replace(/^0+/, '');
+    if (numero && (digitos.includes(numero) || digitos.includes(consecutivo.replace(/^0+/, '')))) {
+      puntaje += 40;
+      motivos.push(`Referencia a la factura ${consecutivo}`);
+    }
+
+    const cliente = puntuarCliente(factura, texto, digitos);
+    if (cliente.motivo) {
+      puntaje += cliente.puntaje;
+      motivos.push(cliente.motivo);
+      puntajeCliente[getClienteId(factura)] = cliente.puntaje;
+    }
+
+    if (puntaje >= PUNTAJE_MINIMO_SUGERENCIA && deposito.monto <= saldo + TOLERANCIA_SALDO) {
+      sugerencias.push({ asignaciones: [{ factura, saldo, monto: deposito.monto }], puntaje, motivos });
+    }
+  });
+
+  // Depósitos que cubren varias facturas de un cliente identificado
+  Object.entries(puntajeCliente).forEach(([clienteId, puntaje]) => {
+    let restante = deposito.monto;
+    const asignaciones: AsignacionConciliacion[] = [];
+    abiertas
+      .filter(doc => getClienteId(doc.factura) === clienteId)
+      .forEach(({ factura, saldo }) => {
+        if (restante <= TOLERANCIA_SALDO) return;
+        const monto = redondearMonto(Math.min(saldo, restante));
+        asignaciones.push({ factura, saldo, monto });
+        restante = redondearMonto(restante - monto);
+      });
+
+    if (asignaciones.length > 1 && restante <= TOLERANCIA_SALDO) {
+      const exacto = asignaciones.every(asignacion => Math.abs(asignacion.monto - asignacion.saldo) <= TOLERANCIA_SALDO);
+      sugerencias.push({
+        asignaciones,
+        puntaje: puntaje + (exacto ? 45 : 15),
+        motivos: [
+          exacto
+            ? `Cancela ${asignaciones.length} facturas del cliente`
+            : `Repartido entre ${asignaciones.length} facturas del cliente, de la más antigua a la más reciente`
+        ]
+      });
+    }
+  });
+
+  return sugerencias.sort((a, b) => b.puntaje - a.puntaje).slice(0, maximo);
+};
+
+/**
+ * Valida el reparto de un depósito entre facturas antes de registrar los pagos
+ * @param montoDeposito Monto del depósito
+ * @param asignaciones Partes del depósito asignadas a cada factura
+ * @throws Error si el reparto no es válido
+ */
+export const validarAsignaciones = (montoDeposito: number, asignaciones: AsignacionConciliacion[]): void => {
+  if (asignaciones.length === 0) {
+    throw new Error('Asigne el depósito al menos a una factura');
+  }
+  const facturas = new Set<string>();
+  asignaciones.forEach(({ factura, saldo, monto }) => {
+    if (facturas.has(factura.id)) {
+      throw new Error(`La factura ${factura.numeroConsecutivo || factura.id} está asignada más de una vez`);
+    }
+    facturas.add(factura.id);
+    if (!monto || monto <= 0) {
+      throw new Error('Cada monto asignado debe ser mayor a cero');
+    }
+    if (monto > saldo + TOLERANCIA_SALDO) {
+      throw new Error(`El monto asignado a ${factura.numeroConsecutivo || factura.id} supera su saldo (${saldo.toFixed(2)})`);
+    }
+  });
+  const total = redondearMonto(asignaciones.reduce((sum, asignacion) => sum + asignacion.monto, 0));
+  if (total > montoDeposito + TOLERANCIA_SALDO) {
+    throw new Error(`Los montos asignados (${total.toFixed(2)}) superan el depósito (${montoDeposito.toFixed(2)})`);
+  }
+};
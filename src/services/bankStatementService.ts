@@ -0,0 +1,264 @@
+/**
+ * bankStatementService.ts
+ * Lectura de estados de cuenta bancarios: CSV exportados por la banca en línea
+ * de BCR, BN y BAC, y archivos OFX
+ */
+
+/**
+ * Bancos con formato de estado de cuenta CSV reconocido
+ */
+export type BancoExtracto = 'BCR' | 'BN' | 'BAC';
+
+/**
+ * Formatos CSV por banco. Las columnas se ubican por el nombre del encabezado,
+ * por lo que el banco solo determina el separador decimal de los montos.
+ */
+export const FORMATOS_EXTRACTO: { codigo: BancoExtracto; nombre: string; separadorDecimal: ',' | '.' }[] = [
+  { codigo: 'BCR', nombre: 'Banco de Costa Rica', separadorDecimal: ',' },
+  { codigo: 'BN', nombre: 'Banco Nacional', separadorDecimal: ',' },
+  { codigo: 'BAC', nombre: 'BAC Credomatic', separadorDecimal: '.' },
+];
+
+/**
+ * Movimiento leído del estado de cuenta; los depósitos tienen monto positivo
+ */
+export interface MovimientoExtracto {
+  fecha: string; // yyyy-MM-dd
+  descripcion: string;
+  referencia?: string;
+  monto: number;
+  saldo?: number;
+  // Identificador estable del movimiento para no importarlo dos veces
+  hash: string;
+}
+
+/**
+ * Nombres de encabezado aceptados para cada columna (sin tildes y en minúscula)
+ */
+const COLUMNAS_EXTRACTO: Record<'fecha' | 'descripcion' | 'referencia' | 'debito' | 'credito' | 'monto' | 'saldo', string[]> = {
+  fecha: ['fecha', 'fecha contable', 'fecha movimiento', 'fecha de transaccion', 'fecha transaccion', 'fecha de movimiento'],
+  descripcion: ['descripcion', 'concepto', 'detalle', 'descripcion del movimiento'],
+  referencia: ['referencia', 'documento', 'numero documento', 'no. documento', 'num. documento', 'numero de referencia', 'comprobante'],
+  debito: ['debito', 'debitos', 'retiro', 'retiros', 'cargo', 'cargos'],
+  credito: ['credito', 'creditos', 'deposito', 'depositos', 'abono', 'abonos'],
+  monto: ['monto', 'importe', 'monto transaccion'],
+  saldo: ['saldo', 'balance', 'saldo disponible'],
+};
+
+/**
+ * Normaliza un texto para comparaciones: minúsculas, sin tildes ni espacios repetidos
+ */
+export const normalizarTexto = (texto: string): string =>
+  texto
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/**
+ * Divide una línea CSV respetando los campos entre comillas
+ */
+const dividirLineaCsv = (linea: string, separador: string): string[] => {
+  const campos: string[] = [];
+  let actual = '';
+  let entreComillas = false;
+
+  for (let i = 0; i < linea.length; i++) {
+    const caracter = linea[i];
+    if (caracter === '"') {
+      if (entreComillas && linea[i + 1] === '"') {
+        actual += '"';
+        i++;
+      } else {
+        entreComillas = !entreComillas;
+      }
+    } else if (caracter === separador && !entreComillas) {
+      campos.push(actual.trim());
+      actual = '';
+    } else {
+      actual += caracter;
+    }
+  }
+  campos.push(actual.trim());
+  return campos;
+};
+
+/**
+ * Convierte un monto del estado de cuenta en número. Acepta símbolos de moneda,
+ * separadores de miles y negativos entre paréntesis.
+ * @param valor Texto del monto
+ * @param separadorDecimal Separador decimal del banco cuando el texto es ambiguo
+ */
+export const parseMontoExtracto = (valor: string, separadorDecimal?: ',' | '.'): number => {
+  let texto = (valor || '').replace(/[^\d.,()-]/g, '');
+  if (!texto) return 0;
+
+  const negativo = texto.startsWith('(') || texto.startsWith('-') || texto.endsWith('-');
+  texto = texto.replace(/[()-]/g, '');
+
+  const ultimaComa = texto.lastIndexOf(',');
+  const ultimoPunto = texto.lastIndexOf('.');
+  let decimal: ',' | '.' | null = null;
+  if (ultimaComa >= 0 && ultimoPunto >= 0) {
+    decimal = ultimaComa > ultimoPunto ? ',' : '.';
+  } else if (ultimaComa >= 0) {
+    decimal = separadorDecimal === ',' || /,\d{1,2}$/.test(texto) ? ',' : null;
+  } else if (ultimoPunto >= 0) {
+    decimal = separadorDecimal === ',' && /\.\d{3}$/.test(texto) ? null : '.';
+  }
+
+  const miles = decimal === ',' ? '.' : ',';
+  texto = texto.split(miles).join('');
+  if (decimal === ',') {
+    texto = texto.replace(',', '.');
+  } else if (decimal === null) {
+    texto = texto.replace(/[.,]/g, '');
+  }
+
+  const monto = parseFloat(texto) || 0;
+  return negativo ? -monto : monto;
+};
+
+/**
+ * Convierte una fecha del estado de cuenta (dd/MM/yyyy, dd-MM-yy, yyyy-MM-dd o yyyyMMdd) a yyyy-MM-dd
+ * @returns La fecha o null si el texto no es una fecha
+ */
+export const parseFechaExtracto = (valor: string): string | null => {
+  const texto = (valor || '').trim();
+  let match = texto.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})/) || texto.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (match) {
+    return `${match[1]}-${match[2].padStart(2, '0')}-${match[3].padStart(2, '0')}`;
+  }
+  match = texto.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2,4})/);
+  if (match) {
+    const anio = match[3].length === 2 ? `20${match[3]}` : match[3];
+    return `${anio}-${match[2].padStart(2, '0')}-${match[1].padStart(2, '0')}`;
+  }
+  return null;
+};
+
+/**
+ * Asigna a cada movimiento un identificador estable; los movimientos idénticos
+ * dentro del mismo archivo se distinguen por su orden de aparición
+ */
+const asignarHashes = (movimientos: Omit<MovimientoExtracto, 'hash'>[]): MovimientoExtracto[] => {
+  const vistos: Record<string, number> = {};
+  return movimientos.map(mov => {
+    const base = `${mov.fecha}|${mov.monto.toFixed(2)}|${mov.referencia || ''}|${normalizarTexto(mov.descripcion)}`;
+    vistos[base] = (vistos[base] || 0) + 1;
+    return { ...mov, hash: vistos[base] > 1 ? `${base}|${vistos[base]}` : base };
+  });
+};
+
+/**
+ * Lee un estado de cuenta en CSV. Se ignoran las líneas de encabezado del banco
+ * anteriores a la fila de títulos y las filas sin fecha (totales, saldos iniciales).
+ * @param contenido Texto del archivo
+ * @param banco Banco emisor, para interpretar los montos
+ */
+export const parseCsvStatement = (contenido: string, banco?: BancoExtracto): MovimientoExtracto[] => {
+  const lineas = contenido.replace(/^\uFEFF/, '').split(/\r?\n/).filter(linea => linea.trim() !== '');
+  const separadorDecimal = FORMATOS_EXTRACTO.find(f => f.codigo === banco)?.separadorDecimal;
+
+  // Ubicar la fila de títulos y el separador de columnas
+  let indiceEncabezado = -1;
+  let separador = ',';
+  let columnas: Partial<Record<keyof typeof COLUMNAS_EXTRACTO, number>> = {};
+  for (let i = 0; i < lineas.length && indiceEncabezado < 0; i++) {
+    for (const candidato of [';', '\t', ',', '|']) {
+      const titulos = dividirLineaCsv(lineas[i], candidato).map(normalizarTexto);
+      const encontradas: typeof columnas = {};
+      (Object.keys(COLUMNAS_EXTRACTO) as (keyof typeof COLUMNAS_EXTRACTO)[]).forEach(columna => {
+        const indice = titulos.findIndex(titulo => COLUMNAS_EXTRACTO[columna].includes(titulo));
+        if (indice >= 0) encontradas[columna] = indice;
+      });
+      if (encontradas.fecha !== undefined && (encontradas.credito !== undefined || encontradas.monto !== undefined)) {
+        indiceEncabezado = i;
+        separador = candidato;
+        columnas = encontradas;
+        break;
+      }
+    }
+  }
+
+  if (indiceEncabezado < 0) {
+    throw new Error('No se reconoció el formato del estado de cuenta: no se encontraron las columnas de fecha y montos');
+  }
+
+  const movimientos: Omit<MovimientoExtracto, 'hash'>[] = [];
+  lineas.slice(indiceEncabezado + 1).forEach(linea => {
+    const campos = dividirLineaCsv(linea, separador);
+    const campo = (columna: keyof typeof COLUMNAS_EXTRACTO) =>
+      columnas[columna] !== undefined ? campos[columnas[columna] as number] || '' : '';
+
+    const fecha = parseFechaExtracto(campo('fecha'));
+    if (!fecha) return;
+
+    const monto = columnas.monto !== undefined
+      ? parseMontoExtracto(campo('monto'), separadorDecimal)
+      : Math.abs(parseMontoExtracto(campo('credito'), separadorDecimal)) - Math.abs(parseMontoExtracto(campo('debito'), separadorDecimal));
+    if (monto === 0) return;
+
+    movimientos.push({
+      fecha,
+      descripcion: campo('descripcion'),
+      referencia: campo('referencia') || undefined,
+      monto: Math.round(monto * 100) / 100,
+      saldo: campo('saldo') ? parseMontoExtracto(campo('saldo'), separadorDecimal) : undefined,
+    });
+  });
+
+  return asignarHashes(movimientos);
+};
+
+/**
+ * Lee un archivo OFX (SGML 1.x o XML 2.x)
+ * @param contenido Texto del archivo
+ */
+export const parseOfxStatement = (contenido: string): MovimientoExtracto[] => {
+  const etiqueta = (bloque: string, nombre: string): string | undefined => {
+    const match = bloque.match(new RegExp(`<${nombre}>([^<\\r\\n]*)`, 'i'));
+    return match ? match[1].trim() : undefined;
+  };
+
+  const bloques = contenido.split(/<STMTTRN>/i).slice(1).map(bloque => bloque.split(/<\/STMTTRN>|<\/BANKTRANLIST>/i)[0]);
+  if (bloques.length === 0) {
+    throw new Error('El archivo OFX no contiene movimientos');
+  }
+
+  const movimientos: MovimientoExtracto[] = [];
+  bloques.forEach(bloque => {
+    const fecha = parseFechaExtracto(etiqueta(bloque, 'DTPOSTED') || '');
+    const monto = parseFloat((etiqueta(bloque, 'TRNAMT') || '').replace(',', '.'));
+    if (!fecha || !monto) return;
+
+    const nombre = etiqueta(bloque, 'NAME');
+    const memo = etiqueta(bloque, 'MEMO');
+    const fitId = etiqueta(bloque, 'FITID');
+    const descripcion = [nombre, memo].filter(Boolean).join(' - ');
+
+    movimientos.push({
+      fecha,
+      descripcion,
+      referencia: etiqueta(bloque, 'CHECKNUM') || etiqueta(bloque, 'REFNUM') || fitId,
+      monto: Math.round(monto * 100) / 100,
+      hash: fitId ? `ofx|${fitId}` : `${fecha}|${monto.toFixed(2)}|${normalizarTexto(descripcion)}`,
+    });
+  });
+
+  return movimientos;
+};
+
+/**
+ * Lee un estado de cuenta según su formato (OFX o CSV)
+ * @param contenido Texto del archivo
+ * @param nombreArchivo Nombre del archivo, para reconocer los OFX
+ * @param banco Banco emisor de los CSV
+ */
+export const parseBankStatement = (contenido: string, nombreArchivo: string, banco?: BancoExtracto): MovimientoExtracto[] => {
+  if (/\.(ofx|qfx)$/i.test(nombreArchivo) || /<OFX>/i.test(contenido)) {
+    return parseOfxStatement(contenido);
+  }
+  return parseCsvStatement(contenido, banco);
+};
@@ -0,0 +1,230 @@
+/**
+ * branchService.ts
+ * Sucursales y terminales (puntos de venta) de la empresa, la terminal con la que
+ * trabaja este dispositivo y la lectura de la sucursal y terminal de cada documento
+ */
+
+import type { Location } from '../types/invoice';
+
+/**
+ * Sucursal de la empresa, con la dirección desde la que emite
+ */
+export interface Sucursal {
+  id?: string;
+  codigo: string; // 3 dígitos, forma parte del número consecutivo
+  nombre: string;
+  provincia?: string;
+  canton?: string;
+  distrito?: string;
+  barrio?: string;
+  otrasSenas?: string;
+  telefono?: string;
+  correo?: string;
+  activa: boolean;
+}
+
+/**
+ * Terminal o punto de venta de una sucursal
+ */
+export interface Terminal {
+  id?: string;
+  sucursalId: string;
+  codigo: string; // 5 dígitos, forma parte del número consecutivo
+  nombre: string;
+  activa: boolean;
+}
+
+/**
+ * Sucursal y terminal con las que emite este dispositivo
+ */
+export interface PuntoVenta {
+  sucursal: string;
+  terminal: string;
+  sucursalNombre?: string;
+  terminalNombre?: string;
+  // Dirección de la sucursal, usada como ubicación del emisor
+  ubicacion?: Location;
+}
+
+/**
+ * Filtro de reportes por sucursal y terminal; vacío incluye todas
+ */
+export interface FiltroPuntoVenta {
+  sucursal?: string;
+  terminal?: string;
+}
+
+/**
+ * Punto de venta de las empresas que aún no configuran sucursales (valores históricos)
+ */
+export const PUNTO_VENTA_PREDETERMINADO: PuntoVenta = { sucursal: '002', terminal: '00001' };
+
+const getStorageKey = (companyId: string) => `company_${companyId}_punto_venta`;
+
+// Se marca al iniciar sesión para que el usuario confirme la terminal antes de vender
+const CONFIRMAR_KEY = 'punto_venta_confirmar';
+
+/**
+ * Valida los datos de una sucursal
+ * @returns Mensaje de error o null si es válida
+ */
+export const validarSucursal = (sucursal: Sucursal, existentes: Sucursal[] = []): string | null => {
+  if (!/^\d{3}$/.test(sucursal.codigo)) {
+    return 'El código de la sucursal debe tener 3 dígitos';
+  }
+  if (!sucursal.nombre.trim()) {
+    return 'Indique el nombre de la sucursal';
+  }
+  if (existentes.some(s => s.codigo === sucursal.codigo && s.id !== sucursal.id)) {
+    return `Ya existe una sucursal con el código ${sucursal.codigo}`;
+  }
+  return null;
+};
+
+/**
+ * Valida los datos de una terminal
+ * @returns Mensaje de error o null si es válida
+ */
+export const validarTerminal = (terminal: Terminal, existentes: Terminal[] = []): string | null => {
+  if (!terminal.sucursalId) {
+    return 'Seleccione la sucursal de la terminal';
+  }
+  if (!/^\d{5}$/.test(terminal.codigo)) {
+    return 'El código de la terminal debe tener 5 dígitos';
+  }
+  if (!terminal.nombre.trim()) {
+    return 'Indique el nombre de la terminal';
+  }
+  if (existentes.some(t => t.sucursalId === terminal.sucursalId && t.codigo === terminal.codigo && t.id !== terminal.id)) {
+    return `La sucursal ya tiene una terminal con el código ${terminal.codigo}`;
+  }
+  return null;
+};
+
+/**
+ * Tipos de documento que pueden ir en un consecutivo (comprobantes 01 a 10, incluidos los
+ * mensajes de receptor 05, 06 y 07)
+ */
+const TIPOS_CONSECUTIVO = ['01', '02', '03', '04', '05', '06', '07', '08', '09', '10'];
+
+/**
+ * Lee la sucursal, la terminal, el tipo de documento y el número de un consecutivo de 20 dígitos.
+ * Los documentos emitidos antes de usar el formato de Hacienda llevan
+ * tipoDoc (2) + terminal (2) + sucursal (3) + consecutivo (13); en esos la posición del tipo
+ * queda dentro del número (ceros), así que se reconocen y se leen con ese formato
+ * @param consecutivo sucursal (3) + terminal (5) + tipoDoc (2) + consecutivo (10)
+ * @returns null si no tiene el formato esperado
+ */
+export const parseConsecutivo = (
+  consecutivo?: string
+): { tipoDoc: string; terminal: string; sucursal: string; numero: number } | null => {
+  if (!consecutivo || !/^\d{20}$/.test(consecutivo)) return null;
+  if (TIPOS_CONSECUTIVO.includes(consecutivo.slice(8, 10))) {
+    return {
+      tipoDoc: consecutivo.slice(8, 10),
+      terminal: consecutivo.slice(3, 8),
+      sucursal: consecutivo.slice(0, 3),
+      numero: Number(consecutivo.slice(10))
+    };
+  }
+  return {
+    tipoDoc: consecutivo.slice(0, 2),
+    terminal: consecutivo.slice(2, 4),
+    sucursal: consecutivo.slice(4, 7),
+    numero: Number(consecutivo.slice(7))
+  };
+};
+
+/**
+ * Número consecutivo de un documento del historial
+ */
+export const getConsecutivoDocumento = (doc: { id: string; numeroConsecutivo?: string; consecutive?: string }): string =>
+  doc.numeroConsecutivo || doc.consecutive || doc.id;
+
+/**
+ * Filtra documentos por la sucursal y terminal de su número consecutivo
+ * @param documentos Documentos del historial
+ * @param filtro Sucursal y terminal; sin valores no filtra
+ */
+export const filtrarPorPuntoVenta = <T extends { id: string; numeroConsecutivo?: string; consecutive?: string }>(
+  documentos: T[],
+  filtro: FiltroPuntoVenta
+): T[] => {
+  if (!filtro.sucursal && !filtro.terminal) return documentos;
+  return documentos.filter(doc => {
+    const partes = parseConsecutivo(getConsecutivoDocumento(doc));
+    if (!partes) return false;
+    return (!filtro.sucursal || partes.sucursal === filtro.sucursal) &&
+      (!filtro.terminal || partes.terminal === filtro.terminal);
+  });
+};
+
+/**
+ * Sucursal y terminal con las que emite este dispositivo
+ * @param companyId ID de la empresa
+ */
+export const getPuntoVenta = (companyId: string): PuntoVenta => {
+  try {
+    const stored = localStorage.getItem(getStorageKey(companyId));
+    if (stored) {
+      const puntoVenta: PuntoVenta = JSON.parse(stored);
+      if (/^\d{3}$/.test(puntoVenta.sucursal) && /^\d{5}$/.test(puntoVenta.terminal)) {
+        return puntoVenta;
+      }
+    }
+  } catch (error) {
+    console.error('Error al leer el punto de venta:', error);
+  }
+  return PUNTO_VENTA_PREDETERMINADO;
+};
+
+/**
+ * Guarda la sucursal y terminal de este dispositivo y da por confirmada la selección
+ * @param companyId ID de la empresa
+ * @param puntoVenta Sucursal y terminal elegidas
+ */
+export const setPuntoVenta = (companyId: string, puntoVenta: PuntoVenta): void => {
+  localStorage.setItem(getStorageKey(companyId), JSON.stringify(puntoVenta));
+  localStorage.removeItem(CONFIRMAR_KEY);
+};
+
+/**
+ * Indica que el usuario debe elegir o confirmar la terminal (al iniciar sesión)
+ */
+export const solicitarSeleccionPuntoVenta = (): void => {
+  localStorage.setItem(CONFIRMAR_KEY, 'true');
+};
+
+/**
+ * Indica si falta elegir o confirmar la terminal de este dispositivo
+ * @param companyId ID de la empresa
+ */
+export const requiereSeleccionPuntoVenta = (companyId: string): boolean =>
+  localStorage.getItem(CONFIRMAR_KEY) === 'true' || !localStorage.getItem(getStorageKey(companyId));
+
+/**
+ * Ubicación del emisor para los comprobantes del punto de venta: la dirección de la
+ * sucursal si está completa; si no, la de la empresa
+ * @param puntoVenta Punto de venta del dispositivo
+ * @param ubicacionEmpresa Dirección registrada de la empresa
+ */
+export const ubicacionPuntoVenta = <T extends Location>(puntoVenta: PuntoVenta, ubicacionEmpresa: T): T => {
+  const ubicacion = puntoVenta.ubicacion;
+  if (!ubicacion?.provincia || !ubicacion.canton || !ubicacion.distrito) {
+    return ubicacionEmpresa;
+  }
+  return {
+    ...ubicacionEmpresa,
+    provincia: ubicacion.provincia,
+    canton: ubicacion.canton,
+    distrito: ubicacion.distrito,
+    barrio: ubicacion.barrio || '',
+    otrasSenas: ubicacion.otrasSenas || ubicacionEmpresa.otrasSenas || ''
+  };
+};
+
+/**
+ * Texto corto del punto de venta para encabezados y reportes
+ */
+export const describirPuntoVenta = (puntoVenta: PuntoVenta): string =>
+  `${puntoVenta.sucursalNombre || `Sucursal ${puntoVenta.sucursal}`} · ${puntoVenta.terminalNombre || `Terminal ${puntoVenta.terminal}`}`;
@@ -0,0 +1,261 @@
+/**
+ * cashRegisterService.ts
+ * Sesiones de caja: apertura con fondo inicial, entradas y salidas de efectivo,
+ * arqueo por medio de pago y reporte de cierre (Z) con los documentos emitidos
+ */
+
+import { StoredInvoice } from '../hooks/useInvoiceHistory';
+import { tiposDocumentoElectronico } from '../types/invoice';
+import { getPuntoVenta } from './branchService';
+import { getStoredTipoDocumento } from './creditNoteService';
+import { MEDIOS_PAGO_CAJA } from './tenderService';
+
+/**
+ * Sesión de caja de un usuario en una terminal
+ */
+export interface SesionCaja {
+  id: string;
+  terminal: string;
+  usuario: string;
+  usuarioId?: string;
+  moneda: string;
+  fondoInicial: number;
+  fechaApertura: string;
+  fechaCierre?: string;
+  estado: 'abierta' | 'cerrada';
+}
+
+/**
+ * Entrada o salida de efectivo durante la sesión (cambio, retiros a bóveda, pagos menores)
+ */
+export interface MovimientoCaja {
+  id?: string;
+  tipo: 'entrada' | 'salida';
+  monto: number;
+  motivo: string;
+  usuario?: string;
+  fecha: string;
+}
+
+/**
+ * Línea del arqueo: lo esperado según el sistema contra lo contado por el cajero
+ */
+export interface LineaArqueo {
+  moneda: string;
+  medioPago: string;
+  descripcion: string;
+  esperado: number;
+  contado: number;
+  diferencia: number;
+}
+
+/**
+ * Documento emitido durante la sesión, con el monto cobrado por cada medio de pago
+ */
+export interface DocumentoCierre {
+  id: string;
+  tipoDocumento: string;
+  consecutivo: string;
+  fecha: string;
+  cliente: string;
+  condicionVenta: string;
+  moneda: string;
+  total: number;
+  estado: string;
+  // Los documentos rechazados y las ventas a crédito no suman al arqueo
+  cuentaEnArqueo: boolean;
+  montosPorMedio: { medioPago: string; monto: number }[];
+}
+
+/**
+ * Reporte de cierre de caja (Z)
+ */
+export interface CierreCaja {
+  sesion: SesionCaja;
+  fechaCierre: string;
+  documentos: DocumentoCierre[];
+  movimientos: MovimientoCaja[];
+  arqueo: LineaArqueo[];
+  totalesPorTipo: { tipoDocumento: string; descripcion: string; moneda: string; cantidad: number; total: number }[];
+  // Sobrante (positivo) o faltante (negativo) en la moneda de la sesión
+  diferenciaTotal: number;
+  notas?: string;
+}
+
+const redondear = (monto: number): number => Math.round(monto * 100) / 100;
+
+const getDescripcionMedioPago = (codigo: string): string =>
+  MEDIOS_PAGO_CAJA.find(m => m.codigo === codigo)?.descripcion || (codigo === '99' ? 'Otros' : `Medio ${codigo}`);
+
+const getStorageKey = (companyId: string) => `company_${companyId}_cash_session`;
+
+/**
+ * Código de la caja de este equipo: la sucursal y la terminal de su punto de venta (8 dígitos)
+ * @param companyId ID de la empresa
+ */
+export const getTerminalCaja = (companyId: string): string => {
+  const puntoVenta = getPuntoVenta(companyId);
+  return `${puntoVenta.sucursal}${puntoVenta.terminal}`;
+};
+
+/**
+ * Obtiene la sesión de caja abierta en este equipo
+ * @param companyId ID de la empresa
+ */
+export const getSesionCajaActiva = (companyId: string): SesionCaja | null => {
+  try {
+    const stored = localStorage.getItem(getStorageKey(companyId));
+    if (stored) {
+      return JSON.parse(stored);
+    }
+  } catch (error) {
+    console.error('Error al leer la sesión de caja:', error);
+  }
+  return null;
+};
+
+/**
+ * Guarda la sesión de caja abierta en este equipo; null al cerrarla
+ * @param companyId ID de la empresa
+ * @param sesion Sesión abierta
+ */
+export const setSesionCajaActiva = (companyId: string, sesion: SesionCaja | null): void => {
+  if (sesion) {
+    localStorage.setItem(getStorageKey(companyId), JSON.stringify(sesion));
+  } else {
+    localStorage.removeItem(getStorageKey(companyId));
+  }
+};
+
+/**
+ * Monto cobrado por cada medio de pago de un documento. Usa TotalMedioPago cuando existe;
+ * si no, el total se asigna al primer medio de pago. Las notas de crédito restan.
+ * @param invoice Documento del historial
+ */
+export const getMontosPorMedio = (invoice: StoredInvoice): { medioPago: string; monto: number }[] => {
+  const signo = getStoredTipoDocumento(invoice) === '03' ? -1 : 1;
+  const medios = invoice.medioPago && invoice.medioPago.length > 0 ? invoice.medioPago : ['01'];
+
+  if (invoice.totalMedioPago && invoice.totalMedioPago.length === medios.length) {
+    return medios.map((medioPago, index) => ({ medioPago, monto: signo * (invoice.totalMedioPago?.[index] || 0) }));
+  }
+  return [{ medioPago: medios[0], monto: signo * (Number(invoice.total) || 0) }];
+};
+
+/**
+ * Documentos del historial emitidos durante una sesión de caja
+ * @param invoices Historial de comprobantes
+ * @param sesionId ID de la sesión
+ */
+export const getDocumentosSesion = (invoices: StoredInvoice[], sesionId: string): StoredInvoice[] =>
+  invoices
+    .filter(invoice => invoice.sesionCajaId === sesionId)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+const toDocumentoCierre = (invoice: StoredInvoice): DocumentoCierre => ({
+  id: invoice.id,
+  tipoDocumento: getStoredTipoDocumento(invoice),
+  consecutivo: invoice.numeroConsecutivo || invoice.consecutive || invoice.id,
+  fecha: invoice.date,
+  cliente: invoice.receptor?.nombre || invoice.client,
+  condicionVenta: invoice.condicionVenta,
+  moneda: invoice.moneda || 'CRC',
+  total: Number(invoice.total) || 0,
+  estado: invoice.status,
+  cuentaEnArqueo: invoice.status !== 'Rechazada' && invoice.condicionVenta === '01',
+  montosPorMedio: getMontosPorMedio(invoice),
+});
+
+/**
+ * Calcula lo que debería haber en caja por moneda y medio de pago: el fondo inicial,
+ * las ventas de contado y las entradas y salidas de efectivo
+ * @param sesion Sesión de caja
+ * @param movimientos Entradas y salidas de efectivo
+ * @param documentos Documentos emitidos en la sesión
+ * @returns Líneas de arqueo con el monto contado en cero
+ */
+export const calcularArqueoEsperado = (
+  sesion: SesionCaja,
+  movimientos: MovimientoCaja[],
+  documentos: StoredInvoice[]
+): LineaArqueo[] => {
+  const esperado: Record<string, number> = { [`${sesion.moneda}|01`]: sesion.fondoInicial };
+
+  movimientos.forEach(mov => {
+    esperado[`${sesion.moneda}|01`] += mov.tipo === 'entrada' ? mov.monto : -mov.monto;
+  });
+
+  documentos.map(toDocumentoCierre).filter(doc => doc.cuentaEnArqueo).forEach(doc => {
+    doc.montosPorMedio.forEach(({ medioPago, monto }) => {
+      const key = `${doc.moneda}|${medioPago}`;
+      esperado[key] = (esperado[key] || 0) + monto;
+    });
+  });
+
+  return Object.entries(esperado)
+    .map(([key, monto]) => {
+      const [moneda, medioPago] = key.split('|');
+      return {
+        moneda,
+        medioPago,
+        descripcion: getDescripcionMedioPago(medioPago),
+        esperado: redondear(monto),
+        contado: 0,
+        diferencia: redondear(-monto),
+      };
+    })
+    .sort((a, b) => a.moneda.localeCompare(b.moneda) || a.medioPago.localeCompare(b.medioPago));
+};
+
+/**
+ * Construye el reporte de cierre de caja (Z)
+ * @param sesion Sesión que se cierra
+ * @param movimientos Entradas y salidas de efectivo
+ * @param documentos Documentos emitidos en la sesión
+ * @param contado Monto contado por el cajero, por clave `moneda|medioPago`
+ * @param fechaCierre Fecha y hora del cierre
+ * @param notas Observaciones del cajero
+ */
+export const buildCierreCaja = (
+  sesion: SesionCaja,
+  movimientos: MovimientoCaja[],
+  documentos: StoredInvoice[],
+  contado: Record<string, number>,
+  fechaCierre: Date = new Date(),
+  notas?: string
+): CierreCaja => {
+  const arqueo = calcularArqueoEsperado(sesion, movimientos, documentos).map(linea => {
+    const montoContado = redondear(Number(contado[`${linea.moneda}|${linea.medioPago}`]) || 0);
+    return { ...linea, contado: montoContado, diferencia: redondear(montoContado - linea.esperado) };
+  });
+
+  const documentosCierre = documentos.map(toDocumentoCierre);
+  const totales: Record<string, CierreCaja['totalesPorTipo'][number]> = {};
+  documentosCierre.filter(doc => doc.estado !== 'Rechazada').forEach(doc => {
+    const key = `${doc.tipoDocumento}|${doc.moneda}`;
+    if (!totales[key]) {
+      totales[key] = {
+        tipoDocumento: doc.tipoDocumento,
+        descripcion: tiposDocumentoElectronico.find(t => t.codigo === doc.tipoDocumento)?.descripcion || doc.tipoDocumento,
+        moneda: doc.moneda,
+        cantidad: 0,
+        total: 0,
+      };
+    }
+    totales[key].cantidad += 1;
+    totales[key].total = redondear(totales[key].total + doc.total);
+  });
+
+  return {
+    sesion: { ...sesion, estado: 'cerrada', fechaCierre: fechaCierre.toISOString() },
+    fechaCierre: fechaCierre.toISOString(),
+    documentos: documentosCierre,
+    movimientos,
+    arqueo,
+    totalesPorTipo: Object.values(totales).sort((a, b) => a.tipoDocumento.localeCompare(b.tipoDocumento)),
+    diferenciaTotal: redondear(arqueo
+      .filter(linea => linea.moneda === sesion.moneda)
+      .reduce((sum, linea) => sum + linea.diferencia, 0)),
+    notas: notas || undefined,
+  };
+};
@@ -0,0 +1,116 @@
+/**
+ * checkoutService.ts
+ * Caja rápida con lector de código de barras: interpreta lo escaneado o digitado
+ * (con multiplicadores como "3*"), busca el producto y calcula descuentos y montos de línea
+ */
+
+import type { Product } from './supabaseProductService';
+
+/**
+ * Entrada del lector: cantidad y código. Un código vacío deja el multiplicador pendiente
+ */
+export interface EntradaEscaner {
+  cantidad: number;
+  codigo: string;
+  // true cuando la cantidad viene de un multiplicador explícito ("3*")
+  conMultiplicador: boolean;
+}
+
+/**
+ * Línea del tiquete con los campos que usa la caja rápida
+ */
+export interface LineaCajaRapida {
+  codigo?: string;
+  cantidad: number;
+  precioUnitario: number;
+  descuento?: { montoDescuento: number };
+}
+
+/**
+ * Montos de una línea del tiquete
+ */
+export interface MontosLinea {
+  montoTotal: number;
+  subtotal: number;
+  impuestoMonto: number;
+  montoTotalLinea: number;
+}
+
+/**
+ * Calcula los montos de una línea. Es el mismo cálculo para el total que se cobra en caja
+ * y para el comprobante que se emite; una línea exonerada (100% en tiquetes) no lleva IVA
+ * @param linea Línea del tiquete
+ * @param tarifa Tarifa de IVA del producto (porcentaje)
+ */
+export const calcularMontosLinea = (
+  linea: LineaCajaRapida & { tieneExoneracion?: boolean },
+  tarifa: number
+): MontosLinea => {
+  const montoTotal = (Number(linea.cantidad) || 0) * (Number(linea.precioUnitario) || 0);
+  const subtotal = montoTotal - (linea.descuento?.montoDescuento || 0);
+  const impuestoMonto = linea.tieneExoneracion ? 0 : subtotal * (tarifa / 100);
+  return { montoTotal, subtotal, impuestoMonto, montoTotalLinea: subtotal + impuestoMonto };
+};
+
+/**
+ * Interpreta una entrada del lector o del teclado: "7501234567890", "3*7501234567890" o "3*"
+ * @param entrada Texto capturado hasta Enter
+ * @returns null si la entrada está vacía o la cantidad no es válida
+ */
+export const parseEntradaEscaner = (entrada: string): EntradaEscaner | null => {
+  const texto = entrada.trim();
+  if (!texto) return null;
+
+  const multiplicador = texto.match(/^(\d+(?:[.,]\d+)?)\s*\*\s*(\S*)$/);
+  if (multiplicador) {
+    const cantidad = parseFloat(multiplicador[1].replace(',', '.'));
+    return cantidad > 0 ? { cantidad, codigo: multiplicador[2], conMultiplicador: true } : null;
+  }
+  return { cantidad: 1, codigo: texto, conMultiplicador: false };
+};
+
+/**
+ * Código con el que se identifica un producto en la caja: código de barras o, si no tiene, SKU
+ */
+export const getCodigoProducto = (producto: Product): string => producto.barcode || producto.sku || '';
+
+/**
+ * Busca un producto activo por código de barras o SKU
+ * @param productos Catálogo de productos
+ * @param codigo Código escaneado
+ */
+export const buscarProductoPorCodigo = (productos: Product[], codigo: string): Product | undefined => {
+  const activos = productos.filter(p => p.is_active !== false);
+  return activos.find(p => p.barcode === codigo) || activos.find(p => p.sku === codigo);
+};
+
+/**
+ * Línea del tiquete en la que se debe sumar un producto escaneado de nuevo.
+ * Las líneas con descuento no se agrupan, para no repartir el descuento sobre más unidades
+ * @param lineas Líneas del tiquete
+ * @param codigo Código del producto
+ * @returns Índice de la línea o -1 si hay que agregar una nueva
+ */
+export const buscarLineaEscaneada = (lineas: LineaCajaRapida[], codigo: string): number =>
+  codigo ? lineas.findIndex(linea => linea.codigo === codigo && !(linea.descuento?.montoDescuento)) : -1;
+
+/**
+ * Convierte la entrada del cajero en el monto del descuento de una línea
+ * @param entrada Monto ("500") o porcentaje ("10%")
+ * @param montoLinea Cantidad por precio de la línea
+ * @throws Error si la entrada no es válida o supera el monto de la línea
+ */
+export const calcularDescuentoLinea = (entrada: string, montoLinea: number): number => {
+  const texto = entrada.trim().replace(',', '.');
+  const porcentaje = texto.endsWith('%');
+  const valor = parseFloat(porcentaje ? texto.slice(0, -1) : texto);
+  if (isNaN(valor) || valor < 0) {
+    throw new Error('Indique un monto o un porcentaje de descuento válido');
+  }
+
+  const monto = Math.round((porcentaje ? (montoLinea * valor) / 100 : valor) * 100) / 100;
+  if (monto > montoLinea) {
+    throw new Error('El descuento no puede superar el monto de la línea');
+  }
+  return monto;
+};
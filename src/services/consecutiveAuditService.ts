@@ -0,0 +1,320 @@
+/**
+ * consecutiveAuditService.ts
+ * Auditoría de las series de consecutivos: números faltantes, duplicados y claves que no
+ * corresponden al consecutivo, por tipo de documento, sucursal, terminal y ambiente
+ */
+
+import type { StoredInvoice } from '../hooks/useInvoiceHistory';
+import { tiposDocumentoElectronico } from '../types/invoice';
+import { getConsecutivoDocumento, parseConsecutivo } from './branchService';
+
+export type AmbienteSerie = 'test' | 'prod';
+
+/**
+ * Documento emitido que se revisa en la auditoría
+ */
+export interface DocumentoAuditado {
+  id: string;
+  consecutivo: string;
+  clave?: string;
+  fecha?: string;
+  ambiente?: AmbienteSerie;
+}
+
+/**
+ * Rango de números que no aparecen en la serie, ambos inclusive
+ */
+export interface RangoFaltante {
+  desde: number;
+  hasta: number;
+}
+
+/**
+ * Número de la serie usado por más de un documento
+ */
+export interface ConsecutivoDuplicado {
+  numero: number;
+  documentos: { id: string; clave?: string; fecha?: string }[];
+}
+
+/**
+ * Serie de consecutivos de un tipo de documento en una sucursal, terminal y ambiente
+ */
+export interface SerieAuditada {
+  id: string;
+  ambiente: AmbienteSerie;
+  tipoDoc: string;
+  sucursal: string;
+  terminal: string;
+  documentos: number;
+  primero: number;
+  ultimo: number;
+  faltantes: RangoFaltante[];
+  totalFaltantes: number;
+  duplicados: ConsecutivoDuplicado[];
+}
+
+/**
+ * Documento cuyo consecutivo o clave no se puede conciliar con la serie
+ */
+export interface InconsistenciaDocumento {
+  documentoId: string;
+  consecutivo: string;
+  clave?: string;
+  ambiente: AmbienteSerie;
+  motivo: string;
+}
+
+/**
+ * Resultado completo de la auditoría
+ */
+export interface ResultadoAuditoria {
+  fecha: string;
+  series: SerieAuditada[];
+  inconsistencias: InconsistenciaDocumento[];
+}
+
+/**
+ * Justificación registrada para números faltantes de una serie
+ */
+export interface JustificacionFaltante {
+  id?: string;
+  ambiente: AmbienteSerie;
+  tipoDoc: string;
+  sucursal: string;
+  terminal: string;
+  desde: number;
+  hasta: number;
+  justificacion: string;
+  usuario?: string;
+  fecha?: string;
+}
+
+const getSerieId = (ambiente: string, tipoDoc: string, sucursal: string, terminal: string) =>
+  `${ambiente}:${tipoDoc}:${sucursal}:${terminal}`;
+
+/**
+ * Descripción del tipo de documento para los reportes
+ */
+export const getDescripcionTipoDocumento = (codigo: string): string =>
+  tiposDocumentoElectronico.find(t => t.codigo === codigo)?.descripcion || `Tipo ${codigo}`;
+
+/**
+ * Documentos del historial a auditar, incluidos los recibos electrónicos de pago
+ * registrados sobre las facturas a crédito
+ * @param invoices Documentos del historial
+ */
+export const getDocumentosAuditables = (invoices: StoredInvoice[]): DocumentoAuditado[] => {
+  const documentos: DocumentoAuditado[] = [];
+  const vistos = new Set<string>();
+  const agregar = (documento: DocumentoAuditado) => {
+    // El historial puede traer el mismo documento desde Supabase y desde el navegador
+    const llave = `${documento.id}|${documento.consecutivo}`;
+    if (vistos.has(llave)) return;
+    vistos.add(llave);
+    documentos.push(documento);
+  };
+
+  invoices.forEach(invoice => {
+    agregar({
+      id: invoice.id,
+      consecutivo: getConsecutivoDocumento(invoice),
+      clave: invoice.claveNumerica || undefined,
+      fecha: invoice.date,
+      ambiente: invoice.ambiente
+    });
+    invoice.infoPago?.pagos?.forEach(pago => {
+      if (pago.recibo) {
+        agregar({
+          id: `${invoice.id}/${pago.recibo.numeroConsecutivo}`,
+          consecutivo: pago.recibo.numeroConsecutivo,
+          clave: pago.recibo.clave || undefined,
+          fecha: pago.recibo.fechaEmision,
+          ambiente: invoice.ambiente
+        });
+      }
+    });
+  });
+
+  return documentos;
+};
+
+/**
+ * Verifica que la clave de 50 dígitos contenga el consecutivo del documento
+ * (506 + fecha (6) + situación (1) + cédula (12) + consecutivo (20) + seguridad (8))
+ * @returns Motivo de la inconsistencia o null si corresponde
+ */
+export const verificarClave = (consecutivo: string, clave?: string): string | null => {
+  if (!clave) {
+    return 'El documento no tiene clave';
+  }
+  if (!/^\d{50}$/.test(clave)) {
+    return `La clave tiene ${clave.length} caracteres; debe tener 50 dígitos`;
+  }
+  const consecutivoClave = clave.slice(22, 42);
+  if (consecutivoClave !== consecutivo) {
+    return `La clave contiene el consecutivo ${consecutivoClave}`;
+  }
+  return null;
+};
+
+/**
+ * Rangos de números que faltan en una serie que debe iniciar en 1
+ * @param numeros Números usados (pueden repetirse)
+ */
+export const calcularFaltantes = (numeros: number[]): RangoFaltante[] => {
+  const faltantes: RangoFaltante[] = [];
+  let esperado = 1;
+  Array.from(new Set(numeros))
+    .sort((a, b) => a - b)
+    .forEach(numero => {
+      if (numero > esperado) {
+        faltantes.push({ desde: esperado, hasta: numero - 1 });
+      }
+      esperado = Math.max(esperado, numero + 1);
+    });
+  return faltantes;
+};
+
+/**
+ * Audita las series de consecutivos de los documentos
+ * @param documentos Documentos emitidos
+ * @param ambientePredeterminado Ambiente de los documentos que no lo registraron (emitidos antes de guardarlo)
+ */
+export const auditarConsecutivos = (
+  documentos: DocumentoAuditado[],
+  ambientePredeterminado: AmbienteSerie
+): ResultadoAuditoria => {
+  const inconsistencias: InconsistenciaDocumento[] = [];
+  const grupos = new Map<string, { ambiente: AmbienteSerie; tipoDoc: string; sucursal: string; terminal: string; docs: (DocumentoAuditado & { numero: number })[] }>();
+
+  documentos.forEach(documento => {
+    const ambiente = documento.ambiente || ambientePredeterminado;
+    const partes = parseConsecutivo(documento.consecutivo);
+    if (!partes) {
+      inconsistencias.push({
+        documentoId: documento.id,
+        consecutivo: documento.consecutivo,
+        clave: documento.clave,
+        ambiente,
+        motivo: 'El consecutivo no tiene el formato de 20 dígitos'
+      });
+      return;
+    }
+
+    const motivoClave = verificarClave(documento.consecutivo, documento.clave);
+    if (motivoClave) {
+      inconsistencias.push({ documentoId: documento.id, consecutivo: documento.consecutivo, clave: documento.clave, ambiente, motivo: motivoClave });
+    }
+
+    const id = getSerieId(ambiente, partes.tipoDoc, partes.sucursal, partes.terminal);
+    const grupo = grupos.get(id) || { ambiente, tipoDoc: partes.tipoDoc, sucursal: partes.sucursal, terminal: partes.terminal, docs: [] };
+    grupo.docs.push({ ...documento, numero: partes.numero });
+    grupos.set(id, grupo);
+  });
+
+  const series: SerieAuditada[] = Array.from(grupos.entries()).map(([id, grupo]) => {
+    const numeros = grupo.docs.map(doc => doc.numero);
+    const porNumero = new Map<number, (DocumentoAuditado & { numero: number })[]>();
+    grupo.docs.forEach(doc => porNumero.set(doc.numero, [...(porNumero.get(doc.numero) || []), doc]));
+
+    const duplicados = Array.from(porNumero.entries())
+      .filter(([, docs]) => docs.length > 1)
+      .map(([numero, docs]) => ({ numero, documentos: docs.map(doc => ({ id: doc.id, clave: doc.clave, fecha: doc.fecha })) }))
+      .sort((a, b) => a.numero - b.numero);
+    const faltantes = calcularFaltantes(numeros);
+
+    return {
+      id,
+      ambiente: grupo.ambiente,
+      tipoDoc: grupo.tipoDoc,
+      sucursal: grupo.sucursal,
+      terminal: grupo.terminal,
+      documentos: grupo.docs.length,
+      primero: Math.min(...numeros),
+      ultimo: Math.max(...numeros),
+      faltantes,
+      totalFaltantes: faltantes.reduce((total, rango) => total + rango.hasta - rango.desde + 1, 0),
+      duplicados
+    };
+  });
+
+  series.sort((a, b) =>
+    a.ambiente.localeCompare(b.ambiente) ||
+    a.sucursal.localeCompare(b.sucursal) ||
+    a.terminal.localeCompare(b.terminal) ||
+    a.tipoDoc.localeCompare(b.tipoDoc)
+  );
+
+  return { fecha: new Date().toISOString(), series, inconsistencias };
+};
+
+/**
+ * Justificación vigente de un rango faltante: la más reciente que lo cubre por completo
+ * @param serie Serie del rango
+ * @param faltante Rango faltante
+ * @param justificaciones Justificaciones registradas
+ */
+export const buscarJustificacion = (
+  serie: Pick<SerieAuditada, 'ambiente' | 'tipoDoc' | 'sucursal' | 'terminal'>,
+  faltante: RangoFaltante,
+  justificaciones: JustificacionFaltante[]
+): JustificacionFaltante | undefined =>
+  justificaciones
+    .filter(j =>
+      j.ambiente === serie.ambiente &&
+      j.tipoDoc === serie.tipoDoc &&
+      j.sucursal === serie.sucursal &&
+      j.terminal === serie.terminal &&
+      j.desde <= faltante.desde &&
+      j.hasta >= faltante.hasta
+    )
+    .sort((a, b) => new Date(b.fecha || 0).getTime() - new Date(a.fecha || 0).getTime())[0];
+
+const nombreAmbiente = (ambiente: AmbienteSerie) => (ambiente === 'prod' ? 'Producción' : 'Pruebas');
+
+const celdaCsv = (valor: string | number | undefined): string => {
+  const texto = valor === undefined ? '' : String(valor);
+  return /[",\n;]/.test(texto) ? `"${texto.replace(/"/g, '""')}"` : texto;
+};
+
+/**
+ * Exporta la auditoría completa en CSV: una fila por hallazgo (faltante, duplicado o inconsistencia)
+ * y una fila de resumen por serie
+ * @param resultado Resultado de la auditoría
+ * @param justificaciones Justificaciones registradas para los faltantes
+ */
+export const auditoriaToCsv = (resultado: ResultadoAuditoria, justificaciones: JustificacionFaltante[]): string => {
+  const filas: (string | number | undefined)[][] = [
+    ['Hallazgo', 'Ambiente', 'Tipo de documento', 'Sucursal', 'Terminal', 'Desde', 'Hasta', 'Cantidad', 'Documentos', 'Detalle', 'Justificación', 'Justificado por', 'Fecha de justificación']
+  ];
+
+  resultado.series.forEach(serie => {
+    const comunes = [nombreAmbiente(serie.ambiente), `${serie.tipoDoc} ${getDescripcionTipoDocumento(serie.tipoDoc)}`, serie.sucursal, serie.terminal];
+    filas.push(['Serie', ...comunes, serie.primero, serie.ultimo, serie.documentos, '', `${serie.totalFaltantes} faltantes, ${serie.duplicados.length} duplicados`]);
+    serie.faltantes.forEach(faltante => {
+      const justificacion = buscarJustificacion(serie, faltante, justificaciones);
+      filas.push([
+        'Faltante', ...comunes, faltante.desde, faltante.hasta, faltante.hasta - faltante.desde + 1, '', '',
+        justificacion?.justificacion, justificacion?.usuario, justificacion?.fecha
+      ]);
+    });
+    serie.duplicados.forEach(duplicado => {
+      filas.push([
+        'Duplicado', ...comunes, duplicado.numero, duplicado.numero, duplicado.documentos.length,
+        duplicado.documentos.map(doc => doc.id).join(' | '),
+        duplicado.documentos.map(doc => doc.clave || 'sin clave').join(' | ')
+      ]);
+    });
+  });
+
+  resultado.inconsistencias.forEach(inconsistencia => {
+    const partes = parseConsecutivo(inconsistencia.consecutivo);
+    filas.push([
+      'Clave o consecutivo inconsistente', nombreAmbiente(inconsistencia.ambiente), partes?.tipoDoc, partes?.sucursal, partes?.terminal,
+      partes?.numero, partes?.numero, 1, inconsistencia.documentoId, inconsistencia.motivo
+    ]);
+  });
+
+  return filas.map(fila => fila.map(celdaCsv).join(',')).join('\n');
+};
@@ -0,0 +1,166 @@
+/**
+ * consecutiveReservationService.ts
+ * Reserva de bloques de consecutivos por tipo de documento, terminal y sucursal.
+ * Con conexión se reserva en Supabase un bloque de la serie; sin conexión los comprobantes
+ * toman su consecutivo de ese bloque, de modo que nunca se repite un número
+ */
+
+import { LOCAL_STORES, updateRecord, withStore } from './localDatabase';
+import { formatConsecutiveNumber, generateInvoiceKey, reserveConsecutiveBlock } from './sequenceService';
+import { isOnline } from './offlineCacheService';
+
+/**
+ * Rango de números de la serie, ambos inclusive
+ */
+export interface RangoConsecutivos {
+  desde: number;
+  hasta: number;
+}
+
+/**
+ * Consecutivos reservados para una terminal
+ */
+export interface ReservaConsecutivos {
+  id: string;
+  companyId: string;
+  tipoDoc: string;
+  terminal: string;
+  sucursal: string;
+  rangos: RangoConsecutivos[];
+  actualizado: string;
+}
+
+// Se reserva un bloque nuevo cuando quedan menos de RESERVA_MINIMA consecutivos
+export const RESERVA_MINIMA = 20;
+export const BLOQUE_RESERVA = 50;
+
+const getReservaId = (companyId: string, tipoDoc: string, terminal: string, sucursal: string) =>
+  `${companyId}:${tipoDoc}:${terminal}:${sucursal}`;
+
+const nuevaReserva = (companyId: string, tipoDoc: string, terminal: string, sucursal: string): ReservaConsecutivos => ({
+  id: getReservaId(companyId, tipoDoc, terminal, sucursal),
+  companyId,
+  tipoDoc,
+  terminal,
+  sucursal,
+  rangos: [],
+  actualizado: new Date().toISOString()
+});
+
+/**
+ * Cantidad de consecutivos disponibles en la reserva
+ * @param reserva Reserva de la terminal
+ */
+export const contarDisponibles = (reserva: ReservaConsecutivos): number =>
+  reserva.rangos.reduce((total, rango) => total + Math.max(0, rango.hasta - rango.desde + 1), 0);
+
+/**
+ * Toma el siguiente consecutivo de la reserva (el menor disponible)
+ * @param reserva Reserva de la terminal
+ * @returns El número tomado y la reserva sin él
+ * @throws Error si la reserva está agotada
+ */
+export const tomarDeReserva = (reserva: ReservaConsecutivos): { consecutivo: number; reserva: ReservaConsecutivos } => {
+  const rangos = reserva.rangos
+    .filter(rango => rango.hasta >= rango.desde)
+    .sort((a, b) => a.desde - b.desde);
+  if (rangos.length === 0) {
+    throw new Error('No quedan consecutivos reservados para emitir sin conexión. Conéctese para reservar más');
+  }
+
+  const [primero, ...resto] = rangos;
+  const consecutivo = primero.desde;
+  const restante = consecutivo < primero.hasta ? [{ desde: consecutivo + 1, hasta: primero.hasta }, ...resto] : resto;
+  return {
+    consecutivo,
+    reserva: { ...reserva, rangos: restante, actualizado: new Date().toISOString() }
+  };
+};
+
+/**
+ * Servicio de reservas de consecutivos para emitir sin conexión
+ */
+class ConsecutiveReservationService {
+  /**
+   * Obtiene la reserva de una terminal
+   */
+  async getReserva(companyId: string, tipoDoc: string, terminal: string, sucursal: string): Promise<ReservaConsecutivos> {
+    const reserva = await withStore<ReservaConsecutivos | undefined>(
+      LOCAL_STORES.reservas,
+      'readonly',
+      store => store.get(getReservaId(companyId, tipoDoc, terminal, sucursal))
+    );
+    return reserva || nuevaReserva(companyId, tipoDoc, terminal, sucursal);
+  }
+
+  /**
+   * Reserva un bloque nuevo si quedan pocos consecutivos. Solo reserva con conexión
+   * @returns Cantidad de consecutivos disponibles después de la revisión
+   */
+  async asegurarReserva(
+    companyId: string,
+    tipoDoc: string,
+    terminal: string,
+    sucursal: string,
+    minimo = RESERVA_MINIMA,
+    bloque = BLOQUE_RESERVA
+  ): Promise<number> {
+    const actual = await this.getReserva(companyId, tipoDoc, terminal, sucursal);
+    if (contarDisponibles(actual) >= minimo || !isOnline()) {
+      return contarDisponibles(actual);
+    }
+
+    const rango = await reserveConsecutiveBlock(companyId, tipoDoc, terminal, sucursal, bloque);
+    const reserva = await updateRecord<ReservaConsecutivos>(
+      LOCAL_STORES.reservas,
+      actual.id,
+      guardada => {
+        const base = guardada || nuevaReserva(companyId, tipoDoc, terminal, sucursal);
+        return { ...base, rangos: [...base.rangos, rango], actualizado: new Date().toISOString() };
+      }
+    );
+    console.log(`Reservados los consecutivos ${rango.desde} a ${rango.hasta} para la terminal ${terminal}-${sucursal} (tipo ${tipoDoc})`);
+    return contarDisponibles(reserva);
+  }
+
+  /**
+   * Toma el siguiente consecutivo reservado de la terminal
+   * @returns Número consecutivo de 20 dígitos
+   */
+  async tomarConsecutivo(companyId: string, tipoDoc: string, terminal: string, sucursal: string): Promise<string> {
+    let consecutivo = 0;
+    await updateRecord<ReservaConsecutivos>(
+      LOCAL_STORES.reservas,
+      getReservaId(companyId, tipoDoc, terminal, sucursal),
+      guardada => {
+        const resultado = tomarDeReserva(guardada || nuevaReserva(companyId, tipoDoc, terminal, sucursal));
+        consecutivo = resultado.consecutivo;
+        return resultado.reserva;
+      }
+    );
+    return formatConsecutiveNumber(tipoDoc, terminal, sucursal, consecutivo);
+  }
+
+  /**
+   * Genera consecutivo y clave para un comprobante emitido sin internet (situación 3)
+   * @param companyId ID de la empresa
+   * @param emisorNumero Número de identificación del emisor
+   * @param tipoDoc Tipo de documento
+   * @param terminal Terminal (5 dígitos)
+   * @param sucursal Sucursal (3 dígitos)
+   */
+  async generateOfflineSequence(
+    companyId: string,
+    emisorNumero: string,
+    tipoDoc: string,
+    terminal: string,
+    sucursal: string
+  ): Promise<{ numeroConsecutivo: string; clave: string }> {
+    const numeroConsecutivo = await this.tomarConsecutivo(companyId, tipoDoc, terminal, sucursal);
+    const clave = await generateInvoiceKey(companyId, emisorNumero, tipoDoc, terminal, sucursal, numeroConsecutivo, '3');
+    return { numeroConsecutivo, clave };
+  }
+}
+
+// Exportar la instancia del servicio
+export const consecutiveReservationService = new ConsecutiveReservationService();
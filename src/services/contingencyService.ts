@@ -0,0 +1,121 @@
+/**
+ * Servicio para emitir comprobantes en contingencia (situación 2) o sin internet (situación 3)
+ * y regularizarlos ante Hacienda cuando se recupera la conexión
+ */
+import { Invoice, Reference } from '../types/invoice';
+import { parseConsecutivo } from './branchService';
+import { generateInvoiceKey } from './sequenceService';
+import { getTipoDocumento } from './xmlService';
+
+/**
+ * Situación del comprobante: 1 normal, 2 contingencia, 3 sin internet
+ */
+export type SituacionComprobante = '1' | '2' | '3';
+
+/**
+ * Modo de operación del punto de venta, persistido por empresa
+ */
+export interface ContingencyMode {
+  situacion: SituacionComprobante;
+  activadoEn?: string;
+}
+
+/**
+ * Datos del comprobante provisional (en papel) que sustituye el documento electrónico
+ */
+export interface ComprobanteProvisional {
+  numero: string;
+  fechaEmision: string;
+}
+
+const getStorageKey = (companyId: string) => `company_${companyId}_contingency_mode`;
+
+/**
+ * Obtiene el modo de operación actual de la empresa
+ * @param companyId ID de la empresa
+ */
+export const getContingencyMode = (companyId: string): ContingencyMode => {
+  try {
+    const stored = localStorage.getItem(getStorageKey(companyId));
+    if (stored) {
+      return JSON.parse(stored);
+    }
+  } catch (error) {
+    console.error('Error al leer el modo de contingencia:', error);
+  }
+  return { situacion: '1' };
+};
+
+/**
+ * Cambia el modo de operación de la empresa
+ * @param companyId ID de la empresa
+ * @param situacion Nueva situación ('1' vuelve a operación normal)
+ */
+export const setContingencyMode = (companyId: string, situacion: SituacionComprobante): ContingencyMode => {
+  const mode: ContingencyMode = situacion === '1'
+    ? { situacion }
+    : { situacion, activadoEn: new Date().toISOString() };
+
+  localStorage.setItem(getStorageKey(companyId), JSON.stringify(mode));
+  return mode;
+};
+
+/**
+ * Construye la InformacionReferencia que asocia el comprobante electrónico
+ * con el comprobante provisional emitido en contingencia (código 05)
+ * @param provisional Número y fecha del comprobante provisional
+ */
+export const buildContingencyReference = (provisional: ComprobanteProvisional): Reference => ({
+  tipoDoc: '08', // Comprobante emitido en contingencia
+  numero: provisional.numero.trim(),
+  fechaEmision: new Date(provisional.fechaEmision).toISOString(),
+  codigo: '05', // Sustituye comprobante provisional por contingencia
+  razon: 'Sustituye comprobante provisional emitido en contingencia'
+});
+
+/**
+ * Ajusta un comprobante para emitirlo en la situación indicada: regenera la clave
+ * con el dígito de situación (conservando el consecutivo) y agrega la referencia
+ * al comprobante provisional cuando se trata de contingencia
+ * @param invoice Comprobante generado en operación normal
+ * @param companyId ID de la empresa
+ * @param situacion Situación del comprobante
+ * @param provisional Comprobante provisional (obligatorio en situación 2)
+ */
+export const applyContingency = async (
+  invoice: Invoice,
+  companyId: string,
+  situacion: SituacionComprobante,
+  provisional?: ComprobanteProvisional
+): Promise<Invoice> => {
+  if (situacion === '1') {
+    return invoice;
+  }
+
+  if (situacion === '2' && (!provisional?.numero?.trim() || !provisional.fechaEmision)) {
+    throw new Error('En contingencia debe indicar el número y la fecha del comprobante provisional');
+  }
+
+  const consecutivo = invoice.numeroConsecutivo;
+  const partes = parseConsecutivo(consecutivo);
+  const clave = await generateInvoiceKey(
+    companyId,
+    invoice.emisor.identificacion.numero,
+    getTipoDocumento(consecutivo),
+    partes?.terminal,
+    partes?.sucursal,
+    consecutivo,
+    situacion
+  );
+
+  const informacionReferencia = [...(invoice.informacionReferencia || [])];
+  if (situacion === '2' && provisional) {
+    informacionReferencia.push(buildContingencyReference(provisional));
+  }
+
+  return {
+    ...invoice,
+    clave,
+    informacionReferencia: informacionReferencia.length > 0 ? informacionReferencia : undefined
+  };
+};
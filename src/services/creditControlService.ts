@@ -0,0 +1,125 @@
+/**
+ * creditControlService.ts
+ * Control del límite de crédito de los clientes al emitir facturas a crédito
+ */
+
+import { StoredInvoice } from '../hooks/useInvoiceHistory';
+import { Client } from './supabaseClientService';
+import { buildAgingReport } from './accountsReceivableService';
+import { redondearMonto } from './invoicePaymentService';
+
+/**
+ * Resultado del control de crédito: 'bloqueado' requiere la autorización de un supervisor
+ */
+export type EstadoCredito = 'aprobado' | 'advertencia' | 'bloqueado';
+
+/**
+ * Condiciones de crédito del cliente necesarias para evaluar la venta
+ */
+export type CondicionesCredito = Pick<Client, 'identification_number' | 'credit_limit' | 'credit_blocked'>;
+
+/**
+ * Evaluación del crédito de un cliente; los montos se expresan en colones
+ */
+export interface EvaluacionCredito {
+  estado: EstadoCredito;
+  motivos: string[];
+  saldoPendiente: number;
+  saldoVencido: number;
+  montoFactura: number;
+  limite?: number;
+  disponible?: number;
+}
+
+/**
+ * Autorización de un supervisor para emitir una venta a crédito bloqueada
+ */
+export interface AutorizacionCredito {
+  clienteId: string;
+  montoAutorizado: number;
+  supervisor: string;
+}
+
+/**
+ * Porcentaje del límite a partir del cual se advierte que el cliente está cerca de agotarlo
+ */
+const UMBRAL_ADVERTENCIA = 0.9;
+
+/**
+ * Convierte a colones un monto de un comprobante según su tipo de cambio
+ */
+const aColones = (monto: number, invoice: StoredInvoice): number =>
+  !invoice.moneda || invoice.moneda === 'CRC' ? monto : monto * (Number(invoice.tipoCambio) || 1);
+
+/**
+ * Evalúa una nueva venta a crédito contra el saldo pendiente y el límite del cliente.
+ * Se bloquea cuando el cliente tiene el crédito bloqueado o cuando el saldo más la
+ * nueva factura supera el límite; las facturas vencidas solo generan una advertencia.
+ * @param cliente Condiciones de crédito del cliente
+ * @param invoices Historial de comprobantes con sus pagos aplicados
+ * @param montoFactura Total de la nueva factura en colones
+ * @param fechaCorte Fecha para determinar las facturas vencidas
+ */
+export const evaluarCredito = (
+  cliente: CondicionesCredito,
+  invoices: StoredInvoice[],
+  montoFactura: number,
+  fechaCorte: Date = new Date()
+): EvaluacionCredito => {
+  let saldoPendiente = 0;
+  let saldoVencido = 0;
+  buildAgingReport(invoices, fechaCorte)
+    .filter(fila => fila.clienteId === cliente.identification_number)
+    .forEach(fila => fila.documentos.forEach(documento => {
+      const saldo = aColones(documento.saldo, documento.factura);
+      saldoPendiente += saldo;
+      if (documento.diasVencidos > 0) {
+        saldoVencido += saldo;
+      }
+    }));
+  saldoPendiente = redondearMonto(saldoPendiente);
+  saldoVencido = redondearMonto(saldoVencido);
+
+  const motivos: string[] = [];
+  let estado: EstadoCredito = 'aprobado';
+
+  if (cliente.credit_blocked) {
+    estado = 'bloqueado';
+    motivos.push('El crédito del cliente está bloqueado');
+  }
+
+  const limite = cliente.credit_limit ?? undefined;
+  const disponible = limite !== undefined ? redondearMonto(limite - saldoPendiente) : undefined;
+  if (limite !== undefined) {
+    const utilizado = saldoPendiente + montoFactura;
+    if (utilizado > limite) {
+      estado = 'bloqueado';
+      motivos.push(`El saldo pendiente más la factura (${utilizado.toFixed(2)}) supera el límite de crédito (${limite.toFixed(2)})`);
+    } else if (utilizado > limite * UMBRAL_ADVERTENCIA && estado === 'aprobado') {
+      estado = 'advertencia';
+      motivos.push('La factura deja al cliente cerca de su límite de crédito');
+    }
+  }
+
+  if (saldoVencido > 0) {
+    if (estado === 'aprobado') {
+      estado = 'advertencia';
+    }
+    motivos.push(`El cliente tiene facturas vencidas por ${saldoVencido.toFixed(2)}`);
+  }
+
+  return { estado, motivos, saldoPendiente, saldoVencido, montoFactura, limite, disponible };
+};
+
+/**
+ * Indica si una autorización del supervisor cubre la venta evaluada
+ * @param autorizacion Autorización registrada
+ * @param clienteId Identificación del cliente de la factura
+ * @param montoFactura Total de la factura en colones
+ */
+export const autorizacionCubreVenta = (
+  autorizacion: AutorizacionCredito | null,
+  clienteId: string,
+  montoFactura: number
+): boolean =>
+  !!autorizacion && autorizacion.clienteId === clienteId && montoFactura <= autorizacion.montoAutorizado + 0.005;
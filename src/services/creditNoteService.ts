@@ -0,0 +1,305 @@
+/**
+ * creditNoteService.ts
+ * Servicio para construir Notas de Crédito Electrónicas (tipo 03) a partir de
+ * comprobantes guardados en el historial
+ */
+
+import { Invoice, LineItem, OtrosCargos, Party, Reference } from '../types/invoice';
+import { StoredInvoice } from '../hooks/useInvoiceHistory';
+import { UserSettings } from '../hooks/useUserSettings';
+import { getTipoDocumento } from './xmlService';
+
+/**
+ * Línea a acreditar: índice de la línea en el documento original y cantidad a revertir
+ */
+export interface CreditNoteLine {
+  index: number;
+  cantidad: number;
+}
+
+/**
+ * Datos necesarios para construir una nota de crédito
+ */
+export interface CreditNoteOptions {
+  original: StoredInvoice;
+  emisor: Party;
+  receptor: Party;
+  lineas: CreditNoteLine[];
+  codigoReferencia: string;
+  razon: string;
+  sequence: { clave: string; numeroConsecutivo: string };
+}
+
+/**
+ * Obtiene el código de tarifa IVA (CodigoTarifa) según el porcentaje aplicado
+ * @param tarifa Porcentaje de IVA
+ */
+export const getCodigoTarifaIVA = (tarifa: number): string => {
+  if (tarifa === 0) return '10';
+  if (tarifa === 1) return '01';
+  if (tarifa === 2) return '02';
+  if (tarifa === 4) return '03';
+  if (tarifa === 8) return '04';
+  return '08';
+};
+
+/**
+ * Unidades de medida de servicios en el catálogo de Hacienda; las demás líneas son mercancías
+ */
+export const UNIDADES_SERVICIO = ['Al', 'Alc', 'Cm', 'I', 'Os', 'Sp', 'Spe', 'St'];
+
+/**
+ * Totales del resumen por servicio/mercancía y gravado/exento, calculados sobre el monto
+ * bruto de cada línea (antes de descuentos) para que TotalVenta = TotalGravado + TotalExento
+ * @param detalleServicio Líneas del comprobante
+ */
+export const calcularTotalesVenta = (detalleServicio: LineItem[]) => {
+  const sumar = (servicio: boolean, gravado: boolean) => detalleServicio
+    .filter(item => UNIDADES_SERVICIO.includes(item.unidadMedida) === servicio && (item.impuesto.tarifa > 0) === gravado)
+    .reduce((sum, item) => sum + item.montoTotal, 0);
+
+  const totalServGravados = sumar(true, true);
+  const totalServExentos = sumar(true, false);
+  const totalMercGravada = sumar(false, true);
+  const totalMercExenta = sumar(false, false);
+  const totalGravado = totalServGravados + totalMercGravada;
+  const totalExento = totalServExentos + totalMercExenta;
+
+  return {
+    totalServGravados,
+    totalServExentos,
+    totalMercGravada,
+    totalMercExenta,
+    totalGravado,
+    totalExento,
+    totalVenta: totalGravado + totalExento,
+  };
+};
+
+/**
+ * Determina el tipo de documento (01, 02, 03, 04...) de un comprobante del historial
+ * @param invoice Comprobante almacenado
+ */
+export const getStoredTipoDocumento = (invoice: StoredInvoice): string => {
+  if (invoice.tipoDocumento) return invoice.tipoDocumento;
+  if (invoice.numeroConsecutivo) return getTipoDocumento(invoice.numeroConsecutivo);
+  if (invoice.id.startsWith('T-')) return '04';
+  if (invoice.id.startsWith('ND-')) return '02';
+  if (invoice.id.startsWith('NC-')) return '03';
+  return '01';
+};
+
+/**
+ * Construye el emisor (Party) a partir de la configuración de la empresa
+ * @param settings Configuración del usuario/empresa
+ */
+export const buildEmisorFromSettings = (settings: UserSettings): Party => ({
+  nombre: settings.company_name || '',
+  identificacion: {
+    tipo: settings.identification_type || '01',
+    numero: settings.identification_number || '',
+  },
+  nombreComercial: settings.commercial_name || undefined,
+  ubicacion: {
+    provincia: settings.province || '',
+    canton: settings.canton || '',
+    distrito: settings.district || '',
+    barrio: settings.neighborhood || undefined,
+    otrasSenas: settings.address || undefined,
+  },
+  correo: settings.email || undefined,
+  actividadEconomica: settings.economic_activity || '',
+});
+
+/**
+ * Calcula las cantidades ya acreditadas por línea del documento original,
+ * sumando las notas de crédito del historial que lo referencian
+ * @param original Documento original
+ * @param invoices Historial completo de comprobantes
+ * @returns Cantidad acreditada por índice de línea
+ */
+export const getCantidadesAcreditadas = (original: StoredInvoice, invoices: StoredInvoice[]): Record<number, number> => {
+  const acreditadas: Record<number, number> = {};
+
+  invoices
+    .filter(inv => getStoredTipoDocumento(inv) === '03' && inv.documentoReferenciaId === original.id)
+    .forEach(nota => {
+      nota.detalleServicio.forEach(lineaNota => {
+        const index = original.detalleServicio.findIndex(linea =>
+          linea.codigoCabys === lineaNota.codigoCabys && linea.detalle === lineaNota.detalle
+        );
+        if (index >= 0) {
+          acreditadas[index] = (acreditadas[index] || 0) + lineaNota.cantidad;
+        }
+      });
+    });
+
+  return acreditadas;
+};
+
+/**
+ * Construye la Nota de Crédito Electrónica con la información de referencia
+ * al documento original. Permite reversión total o parcial por línea.
+ * @param options Datos de la nota de crédito
+ * @returns Comprobante listo para generar XML y PDF
+ */
+export const buildCreditNote = (options: CreditNoteOptions): Invoice => {
+  const { original, lineas, codigoReferencia, razon, sequence } = options;
+
+  const lineasValidas = lineas.filter(l => l.cantidad > 0);
+  if (lineasValidas.length === 0) {
+    throw new Error('Debe seleccionar al menos una línea a acreditar');
+  }
+
+  if (!razon.trim()) {
+    throw new Error('Debe indicar la razón de la nota de crédito');
+  }
+
+  const esTotal = original.detalleServicio.every((linea, index) => {
+    const seleccion = lineasValidas.find(l => l.index === index);
+    return seleccion && seleccion.cantidad === linea.cantidad;
+  });
+
+  // Una anulación (código 01) debe revertir todas las líneas en su totalidad
+  if (codigoReferencia === '01' && !esTotal) {
+    throw new Error('Para anular el documento (código 01) debe acreditar todas las líneas completas');
+  }
+
+  // Tarifa de respaldo para líneas antiguas que no guardaron su IVA
+  const tarifaPromedio = original.subtotal > 0
+    ? Math.round((original.impuesto / original.subtotal) * 100)
+    : 13;
+
+  const detalleServicio: LineItem[] = lineasValidas.map((seleccion, i) => {
+    const linea = original.detalleServicio[seleccion.index];
+    if (!linea) {
+      throw new Error(`La línea ${seleccion.index + 1} no existe en el documento original`);
+    }
+    if (seleccion.cantidad > linea.cantidad) {
+      throw new Error(`La cantidad a acreditar de "${linea.detalle}" supera la cantidad facturada`);
+    }
+
+    // Respetar el descuento proporcional de la línea original
+    const precioNeto = linea.cantidad > 0 ? linea.subtotal / linea.cantidad : linea.precioUnitario;
+    const montoTotal = seleccion.cantidad * linea.precioUnitario;
+    const subtotal = seleccion.cantidad * precioNeto;
+    const montoDescuento = montoTotal - subtotal;
+    const tarifa = linea.tarifaImpuesto ?? tarifaPromedio;
+    const impuestoMonto = subtotal * (tarifa / 100);
+
+    return {
+      id: i + 1,
+      codigoCabys: linea.codigoCabys,
+      cantidad: seleccion.cantidad,
+      unidadMedida: linea.unidadMedida || 'Unid',
+      detalle: linea.detalle,
+      precioUnitario: linea.precioUnitario,
+      montoTotal,
+      descuento: montoDescuento > 0.00001 ? {
+        montoDescuento,
+        naturalezaDescuento: 'Descuento del documento original'
+      } : undefined,
+      subtotal,
+      baseImponible: subtotal,
+      impuesto: {
+        codigo: '01',
+        codigoTarifa: getCodigoTarifaIVA(tarifa),
+        tarifa,
+        monto: impuestoMonto,
+      },
+      impuestoNeto: impuestoMonto,
+      montoTotalLinea: subtotal + impuestoMonto,
+    };
+  });
+
+  const totales = calcularTotalesVenta(detalleServicio);
+  const totalDescuentos = detalleServicio.reduce((sum, item) => sum + (item.descuento?.montoDescuento || 0), 0);
+  const totalVentaNeta = totales.totalVenta - totalDescuentos;
+  const totalImpuesto = detalleServicio.reduce((sum, item) => sum + item.impuestoNeto, 0);
+
+  // La reversión total también devuelve los otros cargos cobrados en el documento original
+  const otrosCargos: OtrosCargos[] = esTotal
+    ? (original.otrosCargos || []).filter(cargo => cargo.montoCargo > 0)
+    : [];
+  const totalOtrosCargos = otrosCargos.reduce((sum, cargo) => sum + cargo.montoCargo, 0);
+  const totalComprobante = totalVentaNeta + totalImpuesto + totalOtrosCargos;
+  const moneda = original.moneda || 'CRC';
+
+  const referencia: Reference = {
+    tipoDoc: getStoredTipoDocumento(original),
+    numero: original.claveNumerica,
+    fechaEmision: new Date(original.date).toISOString(),
+    codigo: codigoReferencia,
+    razon: razon.trim(),
+  };
+
+  return {
+    clave: sequence.clave,
+    numeroConsecutivo: sequence.numeroConsecutivo,
+    fechaEmision: new Date().toISOString(),
+    emisor: options.emisor,
+    receptor: options.receptor,
+    condicionVenta: original.condicionVenta || '01',
+    medioPago: original.medioPago && original.medioPago.length > 0 ? original.medioPago : ['01'],
+    moneda,
+    tipoCambio: original.tipoCambio,
+    detalleServicio,
+    otrosCargos: otrosCargos.length > 0 ? otrosCargos : undefined,
+    resumenFactura: {
+      codigoMoneda: moneda,
+      tipoCambio: moneda !== 'CRC' ? original.tipoCambio : undefined,
+      ...totales,
+      totalDescuentos,
+      totalVentaNeta,
+      totalImpuesto,
+      totalOtrosCargos: otrosCargos.length > 0 ? totalOtrosCargos : undefined,
+      totalComprobante,
+    },
+    informacionReferencia: [referencia],
+  };
+};
+
+/**
+ * Convierte una nota de crédito generada en un registro del historial
+ * @param creditNote Nota de crédito generada
+ * @param original Documento original al que hace referencia
+ * @param xmlContent XML generado de la nota
+ */
+export const toStoredCreditNote = (creditNote: Invoice, original: StoredInvoice, xmlContent: string): StoredInvoice => {
+  const moneda = creditNote.resumenFactura.codigoMoneda;
+  const monedaSymbol = moneda === 'USD' ? '$' : (moneda === 'EUR' ? '€' : '₡');
+
+  return {
+    id: `NC-${creditNote.numeroConsecutivo}`,
+    client: creditNote.receptor.nombre,
+    date: creditNote.fechaEmision,
+    amount: `${monedaSymbol}${creditNote.resumenFactura.totalComprobante.toLocaleString()}`,
+    status: 'Pendiente',
+    items: creditNote.detalleServicio.length,
+    claveNumerica: creditNote.clave,
+    numeroConsecutivo: creditNote.numeroConsecutivo,
+    tipoDocumento: '03',
+    receptor: creditNote.receptor,
+    informacionReferencia: creditNote.informacionReferencia,
+    documentoReferenciaId: original.id,
+    condicionVenta: creditNote.condicionVenta,
+    medioPago: creditNote.medioPago,
+    moneda,
+    tipoCambio: creditNote.tipoCambio,
+    detalleServicio: creditNote.detalleServicio.map(item => ({
+      codigoCabys: item.codigoCabys || '',
+      detalle: item.detalle,
+      cantidad: item.cantidad,
+      precioUnitario: item.precioUnitario,
+      subtotal: item.subtotal,
+      unidadMedida: item.unidadMedida,
+      tarifaImpuesto: item.impuesto.tarifa
+    })),
+    otrosCargos: creditNote.otrosCargos,
+    subtotal: creditNote.resumenFactura.totalVentaNeta,
+    impuesto: creditNote.resumenFactura.totalImpuesto,
+    totalOtrosCargos: creditNote.resumenFactura.totalOtrosCargos,
+    total: creditNote.resumenFactura.totalComprobante,
+    xmlContent,
+  };
+};
@@ -0,0 +1,176 @@
+/**
+ * debitNoteService.ts
+ * Servicio para construir Notas de Débito Electrónicas (tipo 02) sobre comprobantes
+ * ya emitidos: intereses moratorios, multas o ajustes de precio posteriores a la venta
+ */
+
+import { Invoice, LineItem, OtrosCargos, Party, Reference } from '../types/invoice';
+import { StoredInvoice } from '../hooks/useInvoiceHistory';
+import { calcularTotalesVenta, getCodigoTarifaIVA, getStoredTipoDocumento } from './creditNoteService';
+
+/**
+ * Ajuste de precio sobre una línea del documento original
+ */
+export interface DebitNoteAdjustment {
+  index: number; // Índice de la línea en el documento original
+  cantidad: number;
+  montoUnitario: number; // Monto adicional por unidad
+}
+
+/**
+ * Datos necesarios para construir una nota de débito
+ */
+export interface DebitNoteOptions {
+  original: StoredInvoice;
+  emisor: Party;
+  receptor: Party;
+  ajustes: DebitNoteAdjustment[];
+  cargos: OtrosCargos[];
+  codigoReferencia: string;
+  razon: string;
+  plazoCredito: number;
+  sequence: { clave: string; numeroConsecutivo: string };
+}
+
+/**
+ * Construye la Nota de Débito Electrónica con la información de referencia
+ * al documento original
+ * @param options Datos de la nota de débito
+ * @returns Comprobante listo para generar XML y PDF
+ */
+export const buildDebitNote = (options: DebitNoteOptions): Invoice => {
+  const { original, codigoReferencia, razon, sequence } = options;
+
+  const ajustes = options.ajustes.filter(a => a.cantidad > 0 && a.montoUnitario > 0);
+  const cargos = options.cargos.filter(c => c.montoCargo > 0);
+
+  if (ajustes.length === 0 && cargos.length === 0) {
+    throw new Error('Debe indicar al menos un cargo o ajuste de precio');
+  }
+
+  if (!razon.trim()) {
+    throw new Error('Debe indicar la razón de la nota de débito');
+  }
+
+  const tarifaPromedio = original.subtotal > 0
+    ? Math.round((original.impuesto / original.subtotal) * 100)
+    : 13;
+
+  const detalleServicio: LineItem[] = ajustes.map((ajuste, i) => {
+    const linea = original.detalleServicio[ajuste.index];
+    if (!linea) {
+      throw new Error(`La línea ${ajuste.index + 1} no existe en el documento original`);
+    }
+
+    const subtotal = ajuste.cantidad * ajuste.montoUnitario;
+    const tarifa = linea.tarifaImpuesto ?? tarifaPromedio;
+    const impuestoMonto = subtotal * (tarifa / 100);
+
+    return {
+      id: i + 1,
+      codigoCabys: linea.codigoCabys,
+      cantidad: ajuste.cantidad,
+      unidadMedida: linea.unidadMedida || 'Unid',
+      detalle: `Ajuste de precio: ${linea.detalle}`,
+      precioUnitario: ajuste.montoUnitario,
+      montoTotal: subtotal,
+      subtotal,
+      baseImponible: subtotal,
+      impuesto: {
+        codigo: '01',
+        codigoTarifa: getCodigoTarifaIVA(tarifa),
+        tarifa,
+        monto: impuestoMonto,
+      },
+      impuestoNeto: impuestoMonto,
+      montoTotalLinea: subtotal + impuestoMonto,
+    };
+  });
+
+  const totales = calcularTotalesVenta(detalleServicio);
+  const totalImpuesto = detalleServicio.reduce((sum, item) => sum + item.impuestoNeto, 0);
+  const totalOtrosCargos = cargos.reduce((sum, cargo) => sum + cargo.montoCargo, 0);
+  const moneda = original.moneda || 'CRC';
+
+  const referencia: Reference = {
+    tipoDoc: getStoredTipoDocumento(original),
+    numero: original.claveNumerica,
+    fechaEmision: new Date(original.date).toISOString(),
+    codigo: codigoReferencia,
+    razon: razon.trim(),
+  };
+
+  // Los cargos de la nota de débito quedan como saldo a cobrar al cliente
+  return {
+    clave: sequence.clave,
+    numeroConsecutivo: sequence.numeroConsecutivo,
+    fechaEmision: new Date().toISOString(),
+    emisor: options.emisor,
+    receptor: options.receptor,
+    condicionVenta: '02',
+    plazoCredito: options.plazoCredito,
+    medioPago: original.medioPago && original.medioPago.length > 0 ? original.medioPago : ['04'],
+    moneda,
+    tipoCambio: original.tipoCambio,
+    detalleServicio,
+    otrosCargos: cargos.length > 0 ? cargos : undefined,
+    resumenFactura: {
+      codigoMoneda: moneda,
+      tipoCambio: moneda !== 'CRC' ? original.tipoCambio : undefined,
+      ...totales,
+      totalDescuentos: 0,
+      totalVentaNeta: totales.totalVenta,
+      totalImpuesto,
+      totalOtrosCargos: cargos.length > 0 ? totalOtrosCargos : undefined,
+      totalComprobante: totales.totalVenta + totalImpuesto + totalOtrosCargos,
+    },
+    informacionReferencia: [referencia],
+  };
+};
+
+/**
+ * Convierte una nota de débito generada en un registro del historial.
+ * Se guarda como venta a crédito para que aparezca como saldo pendiente en Pagos.
+ * @param debitNote Nota de débito generada
+ * @param original Documento original al que hace referencia
+ * @param xmlContent XML generado de la nota
+ */
+export const toStoredDebitNote = (debitNote: Invoice, original: StoredInvoice, xmlContent: string): StoredInvoice => {
+  const moneda = debitNote.resumenFactura.codigoMoneda;
+  const monedaSymbol = moneda === 'USD' ? '$' : (moneda === 'EUR' ? '€' : '₡');
+
+  return {
+    id: `ND-${debitNote.numeroConsecutivo}`,
+    client: debitNote.receptor.nombre,
+    date: debitNote.fechaEmision,
+    amount: `${monedaSymbol}${debitNote.resumenFactura.totalComprobante.toLocaleString()}`,
+    status: 'Pendiente',
+    items: debitNote.detalleServicio.length,
+    claveNumerica: debitNote.clave,
+    numeroConsecutivo: debitNote.numeroConsecutivo,
+    tipoDocumento: '02',
+    receptor: debitNote.receptor,
+    informacionReferencia: debitNote.informacionReferencia,
+    documentoReferenciaId: original.id,
+    condicionVenta: debitNote.condicionVenta,
+    plazoCredito: debitNote.plazoCredito !== undefined ? String(debitNote.plazoCredito) : undefined,
+    medioPago: debitNote.medioPago,
+    moneda,
+    tipoCambio: debitNote.tipoCambio,
+    detalleServicio: debitNote.detalleServicio.map(item => ({
+      codigoCabys: item.codigoCabys || '',
+      detalle: item.detalle,
+      cantidad: item.cantidad,
+      precioUnitario: item.precioUnitario,
+      subtotal: item.subtotal,
+      unidadMedida: item.unidadMedida,
+      tarifaImpuesto: item.impuesto.tarifa
+    })),
+    otrosCargos: debitNote.otrosCargos,
+    subtotal: debitNote.resumenFactura.totalVentaNeta,
+    impuesto: debitNote.resumenFactura.totalImpuesto,
+    totalOtrosCargos: debitNote.resumenFactura.totalOtrosCargos,
+    total: debitNote.resumenFactura.totalComprobante,
+    xmlContent,
+  };
+};
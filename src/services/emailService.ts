@@ -5,6 +5,7 @@
  */
 
 import { emailConfig } from '../config/emailConfig';
+import { getTipoDocumento } from './xmlService';
 
 // Interfaz para la configuración de EmailJS
 interface EmailJSConfig {
@@ -74,7 +75,7 @@ export const sendInvoiceEmail = async (
     const emailjs = await import('@emailjs/browser');
 
     // Determinar si es un tiquete electrónico basado en el número consecutivo
-    const isTiquete = invoiceNumber.startsWith('04');
+    const isTiquete = getTipoDocumento(invoiceNumber) === '04';
     const documentType = isTiquete ? 'Tiquete Electrónico' : 'Factura Electrónica';
 
     // Preparar los datos para la plantilla
@@ -0,0 +1,211 @@
+/**
+ * exportInvoiceService.ts
+ * Servicio para construir Facturas Electrónicas de Exportación (tipo 09) dirigidas
+ * a clientes en el extranjero
+ */
+
+import { Invoice, LineItem, OtrosCargos, Party } from '../types/invoice';
+import { StoredInvoice } from '../hooks/useInvoiceHistory';
+
+/**
+ * Monedas ofrecidas por defecto para exportación (el tipo de cambio se obtiene de exchangeRateService)
+ */
+export const MONEDAS_EXPORTACION = ['USD', 'EUR'];
+
+/**
+ * Tipo de cargo de OtrosCargos para los costos de exportación
+ */
+export const CARGO_COSTOS_EXPORTACION = '05';
+
+/**
+ * Las exportaciones se gravan con tarifa 0% con derecho a crédito fiscal (CodigoTarifaIVA 01)
+ */
+const CODIGO_TARIFA_EXPORTACION = '01';
+
+/**
+ * Línea de una factura de exportación; las mercancías llevan partida arancelaria
+ */
+export interface ExportInvoiceLine {
+  codigoCabys: string;
+  partidaArancelaria?: string;
+  detalle: string;
+  cantidad: number;
+  unidadMedida: string;
+  precioUnitario: number;
+}
+
+/**
+ * Datos necesarios para construir una factura de exportación
+ */
+export interface ExportInvoiceOptions {
+  emisor: Party;
+  receptor: Party;
+  lineas: ExportInvoiceLine[];
+  moneda: string;
+  tipoCambio: number;
+  costosExportacion?: number;
+  detalleCostosExportacion?: string;
+  condicionVenta: string;
+  plazoCredito?: number;
+  medioPago: string;
+  sequence: { clave: string; numeroConsecutivo: string };
+}
+
+/**
+ * Construye la Factura Electrónica de Exportación con sus totales, incluyendo
+ * los costos de exportación como otro cargo (código 05)
+ * @param options Datos de la factura de exportación
+ * @returns Comprobante listo para generar XML y PDF
+ */
+export const buildExportInvoice = (options: ExportInvoiceOptions): Invoice => {
+  const { receptor, moneda, tipoCambio, sequence } = options;
+
+  if (!receptor.nombre.trim()) {
+    throw new Error('Debe indicar el nombre del cliente extranjero');
+  }
+  if (!receptor.identificacion?.numero && !receptor.identificacionExtranjero?.trim()) {
+    throw new Error('Debe indicar la identificación del cliente extranjero');
+  }
+  if (!receptor.otrasSenasExtranjero || receptor.otrasSenasExtranjero.trim().length < 5) {
+    throw new Error('Debe indicar la dirección del cliente en el extranjero');
+  }
+  if (!tipoCambio || tipoCambio <= 0 || (moneda === 'CRC' && tipoCambio !== 1)) {
+    throw new Error(`El tipo de cambio para ${moneda} no es válido`);
+  }
+  if (options.condicionVenta === '02' && !options.plazoCredito) {
+    throw new Error('Debe indicar el plazo de crédito');
+  }
+
+  const lineasValidas = options.lineas.filter(l => l.detalle.trim() && l.cantidad > 0);
+  if (lineasValidas.length === 0) {
+    throw new Error('Debe agregar al menos una línea con cantidad');
+  }
+
+  const detalleServicio: LineItem[] = lineasValidas.map((linea, i) => {
+    if (!/^\d{13}$/.test(linea.codigoCabys)) {
+      throw new Error(`La línea ${i + 1} requiere un código CABYS de 13 dígitos`);
+    }
+    if (linea.partidaArancelaria && !/^\d{12}$/.test(linea.partidaArancelaria)) {
+      throw new Error(`La partida arancelaria de la línea ${i + 1} debe tener 12 dígitos`);
+    }
+
+    const montoTotal = linea.cantidad * linea.precioUnitario;
+    return {
+      id: i + 1,
+      partidaArancelaria: linea.partidaArancelaria || undefined,
+      codigoCabys: linea.codigoCabys,
+      cantidad: linea.cantidad,
+      unidadMedida: linea.unidadMedida || 'Unid',
+      detalle: linea.detalle.trim(),
+      precioUnitario: linea.precioUnitario,
+      montoTotal,
+      subtotal: montoTotal,
+      baseImponible: montoTotal,
+      impuesto: {
+        codigo: '01',
+        codigoTarifa: CODIGO_TARIFA_EXPORTACION,
+        tarifa: 0,
+        monto: 0,
+      },
+      impuestoNeto: 0,
+      montoTotalLinea: montoTotal,
+    };
+  });
+
+  // Las líneas con partida arancelaria son mercancías; el resto se reporta como servicios
+  const totalMercGravada = detalleServicio
+    .filter(item => item.partidaArancelaria)
+    .reduce((sum, item) => sum + item.subtotal, 0);
+  const totalServGravados = detalleServicio
+    .filter(item => !item.partidaArancelaria)
+    .reduce((sum, item) => sum + item.subtotal, 0);
+  const totalVenta = totalMercGravada + totalServGravados;
+
+  const otrosCargos: OtrosCargos[] = options.costosExportacion && options.costosExportacion > 0
+    ? [{
+        tipoCargo: CARGO_COSTOS_EXPORTACION,
+        montoCargo: options.costosExportacion,
+        descripcionCargo: options.detalleCostosExportacion?.trim() || undefined,
+      }]
+    : [];
+  const totalOtrosCargos = otrosCargos.reduce((sum, cargo) => sum + cargo.montoCargo, 0);
+
+  return {
+    clave: sequence.clave,
+    numeroConsecutivo: sequence.numeroConsecutivo,
+    fechaEmision: new Date().toISOString(),
+    emisor: options.emisor,
+    receptor,
+    condicionVenta: options.condicionVenta,
+    plazoCredito: options.condicionVenta === '02' ? options.plazoCredito : undefined,
+    medioPago: [options.medioPago],
+    moneda,
+    tipoCambio,
+    detalleServicio,
+    otrosCargos: otrosCargos.length > 0 ? otrosCargos : undefined,
+    resumenFactura: {
+      codigoMoneda: moneda,
+      tipoCambio,
+      totalServGravados,
+      totalServExentos: 0,
+      totalMercGravada,
+      totalMercExenta: 0,
+      totalGravado: totalVenta,
+      totalExento: 0,
+      totalVenta,
+      totalDescuentos: 0,
+      totalVentaNeta: totalVenta,
+      totalImpuesto: 0,
+      totalOtrosCargos: otrosCargos.length > 0 ? totalOtrosCargos : undefined,
+      totalComprobante: totalVenta + totalOtrosCargos,
+    },
+  };
+};
+
+/**
+ * Convierte una factura de exportación generada en un registro del historial
+ * @param exportInvoice Factura de exportación generada
+ * @param xmlContent XML firmado de la factura
+ * @param status Estado del envío a Hacienda
+ */
+export const toStoredExportInvoice = (
+  exportInvoice: Invoice,
+  xmlContent: string,
+  status: StoredInvoice['status']
+): StoredInvoice => {
+  const moneda = exportInvoice.resumenFactura.codigoMoneda;
+  const monedaSymbol = moneda === 'USD' ? '$' : (moneda === 'EUR' ? '€' : '₡');
+
+  return {
+    id: `FEE-${exportInvoice.numeroConsecutivo}`,
+    client: exportInvoice.receptor.nombre,
+    date: exportInvoice.fechaEmision,
+    amount: `${monedaSymbol}${exportInvoice.resumenFactura.totalComprobante.toLocaleString()}`,
+    status,
+    items: exportInvoice.detalleServicio.length,
+    claveNumerica: exportInvoice.clave,
+    numeroConsecutivo: exportInvoice.numeroConsecutivo,
+    tipoDocumento: '09',
+    receptor: exportInvoice.receptor,
+    condicionVenta: exportInvoice.condicionVenta,
+    plazoCredito: exportInvoice.plazoCredito ? String(exportInvoice.plazoCredito) : undefined,
+    medioPago: exportInvoice.medioPago,
+    moneda,
+    tipoCambio: exportInvoice.tipoCambio,
+    detalleServicio: exportInvoice.detalleServicio.map(item => ({
+      codigoCabys: item.codigoCabys || '',
+      detalle: item.detalle,
+      cantidad: item.cantidad,
+      precioUnitario: item.precioUnitario,
+      subtotal: item.subtotal,
+      unidadMedida: item.unidadMedida,
+      tarifaImpuesto: item.impuesto.tarifa
+    })),
+    otrosCargos: exportInvoice.otrosCargos,
+    subtotal: exportInvoice.resumenFactura.totalVentaNeta,
+    impuesto: exportInvoice.resumenFactura.totalImpuesto,
+    totalOtrosCargos: exportInvoice.resumenFactura.totalOtrosCargos,
+    total: exportInvoice.resumenFactura.totalComprobante,
+    xmlContent,
+  };
+};
@@ -2,9 +2,10 @@ import { Invoice } from '../types/invoice';
 import { envService } from './envService';
 import { tokenManager, getAccessToken, refreshAccessToken } from './haciendaAuthService';
 import { generateInvoiceKey } from './invoiceService';
-import { generateXML as generateInvoiceXml } from './xmlService';
+import { generateXML as generateInvoiceXml, generateMensajeReceptorXML, getTipoDocumento } from './xmlService';
 import { signXml, loadSignatureKeys } from './signatureService';
-import { sendInvoiceXML } from './invoiceService';
+import { buildRecepcionPayload, postRecepcion, RecepcionPayload, RecepcionResult } from './invoiceService';
+import { outboxService, isRetryable } from './outboxService';
 
 /** Sube el certificado o llave criptográfica a localStorage */
 export async function uploadCertificate(file: File): Promise<boolean> {
@@ -47,7 +48,7 @@ export function createInvoiceXML(invoice: Invoice) {
   return generateInvoiceXml(invoice);
 }
 
-/** Genera un XML para mensaje de aceptación simple */
+/** Genera el XML (sin firmar) del mensaje receptor para aceptar o rechazar un comprobante recibido */
 export function createAcceptanceMessageXML(params: {
   clave: string;
   consecutivo: string;
@@ -55,8 +56,19 @@ export function createAcceptanceMessageXML(params: {
   emisor: { tipo: string; numero: string };
   receptor: { tipo: string; numero: string };
   mensaje: '1' | '2' | '3';
+  totalFactura: number;
+  detalleMensaje?: string;
 }) {
-  return `<?xml version="1.0" encoding="utf-8"?>\n<MensajeReceptor>\n  <Clave>${params.clave}</Clave>\n  <NumeroCedulaEmisor>${params.emisor.numero}</NumeroCedulaEmisor>\n  <FechaEmisionDoc>${params.fecha}</FechaEmisionDoc>\n  <Mensaje>${params.mensaje}</Mensaje>\n  <NumeroCedulaReceptor>${params.receptor.numero}</NumeroCedulaReceptor>\n  <NumeroConsecutivoReceptor>${params.consecutivo}</NumeroConsecutivoReceptor>\n</MensajeReceptor>`;
+  return generateMensajeReceptorXML({
+    clave: params.clave,
+    numeroCedulaEmisor: params.emisor.numero,
+    fechaEmisionDoc: params.fecha,
+    mensaje: params.mensaje,
+    detalleMensaje: params.detalleMensaje,
+    totalFactura: params.totalFactura,
+    numeroCedulaReceptor: params.receptor.numero,
+    numeroConsecutivoReceptor: params.consecutivo
+  });
 }
 
 /** Firma el XML proporcionado */
@@ -65,9 +77,68 @@ export async function signXML(xml: string) {
   return signXml(xml, keys);
 }
 
-/** Envía un documento XML firmado a Hacienda */
-export async function sendXMLToHacienda(xmlFirmado: string) {
-  const apiUrl = envService.get('HACIENDA_API_URL');
-  const token = await tokenManager.getValidToken();
-  return sendInvoiceXML(xmlFirmado, apiUrl, token);
+/**
+ * Publica un cuerpo de recepción ya construido (comprobante o mensaje receptor).
+ * Si Hacienda o la red no responden, queda en la cola de reintentos.
+ * @param payload Cuerpo del POST /recepcion
+ * @param tipoDocumento Tipo del documento enviado (01-09)
+ * @param invoiceId Id del documento en el historial
+ */
+export async function sendRecepcionPayload(
+  payload: RecepcionPayload,
+  tipoDocumento: string,
+  invoiceId?: string
+): Promise<RecepcionResult> {
+  let result: RecepcionResult;
+  if (typeof navigator !== 'undefined' && !navigator.onLine) {
+    // Sin conexión: el documento se encola directamente y se envía al volver la conexión
+    result = { success: false, clave: payload.clave, error: 'Sin conexión a internet' };
+  } else {
+    try {
+      const apiUrl = envService.get('HACIENDA_API_URL');
+      const token = await tokenManager.getValidToken();
+      result = await postRecepcion(payload, apiUrl, token);
+    } catch (error) {
+      result = {
+        success: false,
+        clave: payload.clave,
+        error: error instanceof Error ? error.message : 'Error desconocido'
+      };
+    }
+  }
+
+  if (isRetryable(result)) {
+    await outboxService.enqueue(payload, {
+      tipoDocumento,
+      invoiceId,
+      ultimoError: result.error
+    });
+    result.encolado = true;
+  }
+
+  return result;
+}
+
+/**
+ * Envía un documento XML firmado a Hacienda.
+ * Si Hacienda o la red no responden, el comprobante queda en la cola de reintentos.
+ */
+export async function sendXMLToHacienda(
+  invoice: Invoice,
+  xmlFirmado: string,
+  callbackUrl?: string,
+  invoiceId?: string
+): Promise<RecepcionResult> {
+  let payload: RecepcionPayload;
+  try {
+    payload = buildRecepcionPayload(invoice, xmlFirmado, callbackUrl);
+  } catch (error) {
+    return {
+      success: false,
+      clave: invoice.clave,
+      error: error instanceof Error ? error.message : 'Error desconocido'
+    };
+  }
+
+  return sendRecepcionPayload(payload, getTipoDocumento(invoice.numeroConsecutivo), invoiceId);
 }
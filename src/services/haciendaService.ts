@@ -2,7 +2,7 @@
  * Servicio para consultar la API de Hacienda
  */
 
-interface ContribuyenteResponse {
+export interface ContribuyenteResponse {
   nombre?: string;
   tipoIdentificacion?: string;
   regimen?: {
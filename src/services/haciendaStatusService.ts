@@ -0,0 +1,271 @@
+/**
+ * Servicio para consultar el estado de recepción de comprobantes en Hacienda
+ * y procesar la respuesta (MensajeHacienda)
+ */
+import axios from 'axios';
+import { create } from 'xmlbuilder2';
+import { envService } from './envService';
+import { tokenManager } from './haciendaAuthService';
+import { supabaseInvoiceService } from './supabaseInvoiceService';
+import { getCompanyUuid } from './uuidMappingService';
+import { StoredInvoice } from '../hooks/useInvoiceHistory';
+
+/**
+ * Valores de ind-estado que devuelve Hacienda
+ */
+export type HaciendaEstado = 'recibido' | 'procesando' | 'aceptado' | 'rechazado' | 'error';
+
+/**
+ * Contenido relevante del MensajeHacienda
+ */
+export interface MensajeHacienda {
+  clave: string;
+  nombreEmisor?: string;
+  numeroCedulaEmisor?: string;
+  nombreReceptor?: string;
+  numeroCedulaReceptor?: string;
+  mensaje: string; // 1 Aceptado, 2 Aceptado parcialmente, 3 Rechazado
+  detalleMensaje: string;
+  montoTotalImpuesto?: number;
+  totalFactura?: number;
+}
+
+/**
+ * Resultado de una consulta de estado
+ */
+export interface HaciendaStatusResult {
+  clave: string;
+  estado: HaciendaEstado;
+  fecha?: string;
+  respuestaXml?: string; // MensajeHacienda decodificado
+  mensaje?: MensajeHacienda;
+}
+
+/**
+ * Comprobante actualizado tras consultar Hacienda
+ */
+export interface InvoiceStatusRefresh {
+  invoice: StoredInvoice;
+  syncError?: string; // La respuesta se obtuvo pero no se pudo guardar en Supabase
+}
+
+/**
+ * Opciones del sondeo con espera exponencial
+ */
+export interface PollOptions {
+  maxAttempts?: number;
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+const ESTADOS_FINALES: HaciendaEstado[] = ['aceptado', 'rechazado', 'error'];
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Construye la URL de consulta /recepcion/{clave} a partir de la URL configurada
+ * @param clave Clave numérica de 50 dígitos
+ */
+export const buildRecepcionUrl = (clave: string): string => {
+  const apiUrl = (envService.get('HACIENDA_API_URL') || '').replace(/\/+$/, '');
+  const base = apiUrl.endsWith('/recepcion') ? apiUrl : `${apiUrl}/recepcion`;
+  return `${base}/${clave}`;
+};
+
+/**
+ * Decodifica un texto base64 respetando caracteres UTF-8 (tildes, ñ)
+ * @param base64 Texto codificado
+ */
+export const decodeBase64Utf8 = (base64: string): string => {
+  const binary = atob(base64);
+  const bytes = Uint8Array.from(binary, c => c.charCodeAt(0));
+  return new TextDecoder('utf-8').decode(bytes);
+};
+
+/**
+ * Obtiene el texto de un nodo convertido por xmlbuilder2
+ */
+export const getText = (node: unknown): string | undefined => {
+  if (node === undefined || node === null) return undefined;
+  if (typeof node === 'string') return node;
+  if (typeof node === 'object' && '#' in (node as Record<string, unknown>)) {
+    return String((node as Record<string, unknown>)['#']);
+  }
+  return undefined;
+};
+
+/**
+ * Interpreta el XML MensajeHacienda devuelto en respuesta-xml
+ * @param xml XML del MensajeHacienda (ya decodificado)
+ */
+export const parseMensajeHacienda = (xml: string): MensajeHacienda => {
+  const obj = create(xml).end({ format: 'object' }) as Record<string, Record<string, unknown>>;
+  const mensaje = obj.MensajeHacienda;
+
+  if (!mensaje) {
+    throw new Error('La respuesta de Hacienda no contiene un MensajeHacienda');
+  }
+
+  const toNumber = (value?: string) => (value !== undefined ? parseFloat(value) : undefined);
+
+  return {
+    clave: getText(mensaje.Clave) || '',
+    nombreEmisor: getText(mensaje.NombreEmisor),
+    numeroCedulaEmisor: getText(mensaje.NumeroCedulaEmisor),
+    nombreReceptor: getText(mensaje.NombreReceptor),
+    numeroCedulaReceptor: getText(mensaje.NumeroCedulaReceptor),
+    mensaje: getText(mensaje.Mensaje) || '',
+    detalleMensaje: (getText(mensaje.DetalleMensaje) || '').trim(),
+    montoTotalImpuesto: toNumber(getText(mensaje.MontoTotalImpuesto)),
+    totalFactura: toNumber(getText(mensaje.TotalFactura)),
+  };
+};
+
+/**
+ * Convierte el ind-estado de Hacienda al estado usado en el historial
+ * @param estado ind-estado reportado por Hacienda
+ */
+export const mapEstadoToInvoiceStatus = (estado: HaciendaEstado): StoredInvoice['status'] => {
+  if (estado === 'aceptado') return 'Completada';
+  if (estado === 'rechazado' || estado === 'error') return 'Rechazada';
+  return 'Pendiente';
+};
+
+/**
+ * Consulta una vez el estado de un comprobante en /recepcion/{clave}
+ * @param clave Clave numérica del comprobante
+ */
+export const fetchHaciendaStatus = async (clave: string): Promise<HaciendaStatusResult> => {
+  const token = await tokenManager.getValidToken();
+  if (!token) {
+    throw new Error('No se pudo obtener un token de Hacienda');
+  }
+
+  const response = await axios.get(buildRecepcionUrl(clave), {
+    headers: { 'Authorization': `Bearer ${token}` }
+  });
+
+  const data = response.data || {};
+  const estado = String(data['ind-estado'] || 'procesando').toLowerCase() as HaciendaEstado;
+  const result: HaciendaStatusResult = { clave, estado, fecha: data.fecha };
+
+  if (data['respuesta-xml']) {
+    result.respuestaXml = decodeBase64Utf8(data['respuesta-xml']);
+    result.mensaje = parseMensajeHacienda(result.respuestaXml);
+  }
+
+  return result;
+};
+
+/**
+ * Consulta el estado con espera exponencial hasta obtener un estado final
+ * (aceptado, rechazado o error) o agotar los intentos
+ * @param clave Clave numérica del comprobante
+ * @param options Configuración de intentos y tiempos de espera
+ */
+export const pollHaciendaStatus = async (clave: string, options: PollOptions = {}): Promise<HaciendaStatusResult> => {
+  const { maxAttempts = 6, initialDelayMs = 2000, maxDelayMs = 60000 } = options;
+  let delay = initialDelayMs;
+  let lastResult: HaciendaStatusResult = { clave, estado: 'procesando' };
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    try {
+      lastResult = await fetchHaciendaStatus(clave);
+      console.log(`Estado de ${clave} en Hacienda (intento ${attempt}): ${lastResult.estado}`);
+
+      if (ESTADOS_FINALES.includes(lastResult.estado)) {
+        return lastResult;
+      }
+    } catch (error) {
+      // Un 404 significa que Hacienda aún no registra el comprobante: reintentar
+      console.warn(`Error al consultar estado de ${clave} (intento ${attempt}):`, error);
+    }
+
+    if (attempt < maxAttempts) {
+      await sleep(delay);
+      delay = Math.min(delay * 2, maxDelayMs);
+    }
+  }
+
+  return lastResult;
+};
+
+/**
+ * Consulta el estado de un comprobante del historial, guarda la respuesta de Hacienda
+ * junto a la factura y actualiza su estado en Supabase
+ * @param invoice Comprobante del historial
+ * @param options Configuración del sondeo
+ * @returns Comprobante actualizado con el estado y la respuesta de Hacienda, y el error al guardarlos si lo hubo
+ */
+export const refreshInvoiceHaciendaStatus = async (
+  invoice: StoredInvoice,
+  options?: PollOptions
+): Promise<InvoiceStatusRefresh> => {
+  const result = await pollHaciendaStatus(invoice.claveNumerica, options);
+  const status = mapEstadoToInvoiceStatus(result.estado);
+
+  const updated: StoredInvoice = {
+    ...invoice,
+    status,
+    haciendaEstado: result.estado,
+    haciendaMensaje: result.mensaje?.detalleMensaje || invoice.haciendaMensaje,
+    respuestaHaciendaXml: result.respuestaXml || invoice.respuestaHaciendaXml,
+    haciendaUltimaConsulta: new Date().toISOString(),
+  };
+
+  const companyId = localStorage.getItem('selected_company') || 'innova';
+  const errores: string[] = [];
+
+  const resultadoData = await supabaseInvoiceService.updateInvoiceData(updated, getCompanyUuid(companyId));
+  if (!resultadoData.success) {
+    errores.push(`historial: ${resultadoData.error?.message || resultadoData.error || 'Error desconocido'}`);
+  }
+
+  // El id del historial es el consecutivo; la fila de invoices se ubica por su clave
+  const resultadoEstado = await supabaseInvoiceService.updateHaciendaStatusByKey(
+    invoice.claveNumerica,
+    status,
+    result.estado,
+    updated.haciendaMensaje,
+    updated.respuestaHaciendaXml
+  );
+  if (!resultadoEstado.success) {
+    errores.push(`facturas: ${resultadoEstado.error}`);
+  }
+
+  if (errores.length > 0) {
+    console.error(`No se pudo guardar la respuesta de Hacienda de ${invoice.claveNumerica}:`, errores);
+    return { invoice: updated, syncError: errores.join('; ') };
+  }
+
+  return { invoice: updated };
+};
+
+/**
+ * Sigue el estado de un comprobante que solo se conoce por su clave (por ejemplo, uno
+ * enviado desde la cola de reintentos): lo marca como recibido, consulta Hacienda con
+ * espera exponencial y guarda la respuesta en la factura con esa clave
+ * @param clave Clave numérica del comprobante
+ * @param options Configuración del sondeo
+ * @returns Último estado reportado por Hacienda
+ */
+export const trackHaciendaStatusByKey = async (clave: string, options?: PollOptions): Promise<HaciendaStatusResult> => {
+  const recibido = await supabaseInvoiceService.updateHaciendaStatusByKey(clave, mapEstadoToInvoiceStatus('recibido'), 'recibido');
+  if (!recibido.success) {
+    console.error(`No se pudo marcar ${clave} como recibido por Hacienda:`, recibido.error);
+  }
+
+  const result = await pollHaciendaStatus(clave, options);
+  const resultadoEstado = await supabaseInvoiceService.updateHaciendaStatusByKey(
+    clave,
+    mapEstadoToInvoiceStatus(result.estado),
+    result.estado,
+    result.mensaje?.detalleMensaje,
+    result.respuestaXml
+  );
+  if (!resultadoEstado.success) {
+    console.error(`No se pudo guardar la respuesta de Hacienda de ${clave}:`, resultadoEstado.error);
+  }
+
+  return result;
+};
@@ -0,0 +1,130 @@
+/**
+ * invoicePaymentService.ts
+ * Cálculo de saldos y registro de pagos parciales (abonos) sobre facturas a crédito
+ */
+
+import { PagoFactura, StoredInvoice } from '../hooks/useInvoiceHistory';
+import { getStoredTipoDocumento } from './creditNoteService';
+
+/**
+ * Tolerancia para considerar saldada una factura (redondeo a céntimos)
+ */
+export const TOLERANCIA_SALDO = 0.005;
+
+/**
+ * Redondea a 5 decimales, la precisión de los montos en Hacienda y en la base de datos
+ */
+export const redondearMonto = (valor: number): number => Math.round(valor * 100000) / 100000;
+
+/**
+ * Suma los pagos y abonos registrados sobre una factura
+ * @param invoice Factura a crédito
+ */
+export const getMontoPagado = (invoice: StoredInvoice): number =>
+  redondearMonto((invoice.infoPago?.pagos || []).reduce((sum, pago) => sum + pago.monto, 0));
+
+/**
+ * Notas de crédito del historial que referencian un documento
+ * @param invoice Documento a crédito
+ * @param invoices Historial completo
+ */
+export const getNotasCredito = (invoice: StoredInvoice, invoices: StoredInvoice[]): StoredInvoice[] =>
+  invoices.filter(inv => getStoredTipoDocumento(inv) === '03' && inv.documentoReferenciaId === invoice.id);
+
+/**
+ * Suma las notas de crédito aplicadas a un documento
+ */
+const getMontoAcreditado = (invoice: StoredInvoice, invoices: StoredInvoice[]): number =>
+  getNotasCredito(invoice, invoices).reduce((sum, nota) => sum + (Number(nota.total) || 0), 0);
+
+/**
+ * Calcula el saldo pendiente de una factura descontando pagos, abonos y notas de crédito.
+ * Las facturas marcadas como pagadas antes de existir los abonos (sin pagos registrados)
+ * tienen saldo cero.
+ * @param invoice Factura a crédito
+ * @param invoices Historial completo (para ubicar las notas de crédito)
+ */
+export const getSaldoPendiente = (invoice: StoredInvoice, invoices: StoredInvoice[]): number => {
+  if (invoice.infoPago?.pagada && !invoice.infoPago.pagos?.length) {
+    return 0;
+  }
+  return Math.max(0, redondearMonto((Number(invoice.total) || 0) - getMontoPagado(invoice) - getMontoAcreditado(invoice, invoices)));
+};
+
+/**
+ * Recalcula la información de pago de una factura a partir de sus pagos: el saldo,
+ * el estado "pagada" cuando el saldo llega a cero y los datos del último pago
+ * @param invoice Factura a crédito
+ * @param pagos Pagos y abonos de la factura
+ * @param invoices Historial completo (para ubicar las notas de crédito)
+ * @returns Información de pago actualizada
+ */
+export const calcularInfoPago = (invoice: StoredInvoice, pagos: PagoFactura[], invoices: StoredInvoice[]): StoredInvoice['infoPago'] => {
+  const ordenados = [...pagos].sort((a, b) =>
+    a.fechaPago.localeCompare(b.fechaPago) || (a.fechaRegistro || '').localeCompare(b.fechaRegistro || '')
+  );
+  const pagado = ordenados.reduce((sum, pago) => sum + pago.monto, 0);
+  const saldoPendiente = Math.max(0, redondearMonto((Number(invoice.total) || 0) - pagado - getMontoAcreditado(invoice, invoices)));
+  const ultimo = ordenados[ordenados.length - 1];
+
+  return {
+    pagada: ordenados.length > 0 && saldoPendiente <= TOLERANCIA_SALDO,
+    fechaPago: ultimo?.fechaPago,
+    medioPago: ultimo?.medioPago,
+    cuentaBancaria: ultimo?.cuentaBancaria,
+    banco: ultimo?.banco,
+    notas: ultimo?.notas,
+    pagos: ordenados,
+    saldoPendiente,
+  };
+};
+
+/**
+ * Aplica a cada factura los pagos registrados en la tabla de pagos, que prevalecen
+ * sobre la información de pago guardada en la factura
+ * @param invoices Historial completo de comprobantes
+ * @param pagosPorFactura Pagos agrupados por ID de factura
+ * @returns Facturas con el saldo y el estado de pago actualizados
+ */
+export const aplicarPagosRegistrados = <T extends StoredInvoice>(
+  invoices: T[],
+  pagosPorFactura: Record<string, PagoFactura[]> | undefined
+): T[] => invoices.map(invoice => {
+  const pagos = pagosPorFactura?.[invoice.id];
+  return pagos && pagos.length > 0 ? { ...invoice, infoPago: calcularInfoPago(invoice, pagos, invoices) } : invoice;
+});
+
+/**
+ * Valida un nuevo pago o abono contra el saldo pendiente de la factura
+ * @param invoice Factura a crédito
+ * @param monto Monto del pago
+ * @param invoices Historial completo (para ubicar las notas de crédito)
+ * @throws Error si el monto no es válido
+ */
+export const validarMontoPago = (invoice: StoredInvoice, monto: number, invoices: StoredInvoice[]): void => {
+  const saldo = getSaldoPendiente(invoice, invoices);
+  if (!monto || monto <= 0) {
+    throw new Error('El monto pagado debe ser mayor a cero');
+  }
+  if (saldo <= TOLERANCIA_SALDO) {
+    throw new Error('La factura no tiene saldo pendiente');
+  }
+  if (monto > saldo + TOLERANCIA_SALDO) {
+    throw new Error(`El monto pagado supera el saldo pendiente de la factura (${saldo.toFixed(2)})`);
+  }
+};
+
+/**
+ * Registra un pago o abono sobre la factura
+ * @param invoice Factura a crédito
+ * @param pago Pago a registrar
+ * @param invoices Historial completo (para ubicar las notas de crédito)
+ * @returns Factura con los pagos, el saldo y el estado actualizados
+ */
+export const registrarPago = (invoice: StoredInvoice, pago: PagoFactura, invoices: StoredInvoice[]): StoredInvoice => {
+  validarMontoPago(invoice, pago.monto, invoices);
+  return {
+    ...invoice,
+    infoPago: calcularInfoPago(invoice, [...(invoice.infoPago?.pagos || []), pago], invoices),
+  };
+};
@@ -174,32 +174,198 @@ export const downloadXML = (xmlString: string, fileName: string): void => {
 };
 
 /**
- * Envía el XML a Hacienda
+ * Identificación de emisor o receptor en el contrato de recepción de Hacienda
  */
-export const sendInvoiceXML = async (
-  xmlString: string, 
+export interface RecepcionIdentificacion {
+  tipoIdentificacion: string;
+  numeroIdentificacion: string;
+}
+
+/**
+ * Cuerpo del POST /recepcion según el contrato de Hacienda (v4.4)
+ */
+export interface RecepcionPayload {
+  clave: string;
+  fecha: string;
+  emisor: RecepcionIdentificacion;
+  receptor?: RecepcionIdentificacion;
+  callbackUrl?: string;
+  consecutivoReceptor?: string;
+  comprobanteXml: string;
+}
+
+/**
+ * Resultado estructurado del envío a Hacienda
+ */
+export interface RecepcionResult {
+  success: boolean;
+  status?: number;
+  clave: string;
+  location?: string; // URL de consulta devuelta en el encabezado Location
+  error?: string;
+  errorCause?: string; // Valor del encabezado X-Error-Cause
+  encolado?: boolean; // El comprobante quedó en la cola de reintentos
+}
+
+/**
+ * Codifica un texto en base64 respetando caracteres UTF-8 (tildes, ñ).
+ * `btoa` por sí solo falla con caracteres fuera de Latin-1.
+ * @param text Texto a codificar
+ */
+export const encodeBase64Utf8 = (text: string): string => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+};
+
+/**
+ * Construye el cuerpo del POST /recepcion a partir del comprobante
+ * @param invoice Comprobante del que se toman clave, fecha, emisor y receptor
+ * @param xmlFirmado XML firmado del comprobante
+ * @param callbackUrl URL opcional donde Hacienda notificará la respuesta
+ */
+export const buildRecepcionPayload = (
+  invoice: Invoice,
+  xmlFirmado: string,
+  callbackUrl?: string
+): RecepcionPayload => {
+  if (!invoice.clave || invoice.clave.length !== 50) {
+    throw new Error('La clave numérica debe tener 50 dígitos');
+  }
+  if (!invoice.emisor?.identificacion?.numero) {
+    throw new Error('El comprobante no tiene identificación del emisor');
+  }
+
+  const payload: RecepcionPayload = {
+    clave: invoice.clave,
+    fecha: invoice.fechaEmision,
+    emisor: {
+      tipoIdentificacion: invoice.emisor.identificacion.tipo,
+      numeroIdentificacion: invoice.emisor.identificacion.numero
+    },
+    comprobanteXml: encodeBase64Utf8(xmlFirmado)
+  };
+
+  // El receptor es opcional (por ejemplo en tiquetes sin identificación)
+  if (invoice.receptor?.identificacion?.numero) {
+    payload.receptor = {
+      tipoIdentificacion: invoice.receptor.identificacion.tipo,
+      numeroIdentificacion: invoice.receptor.identificacion.numero
+    };
+  }
+
+  if (callbackUrl) {
+    payload.callbackUrl = callbackUrl;
+  }
+
+  return payload;
+};
+
+/**
+ * Publica un cuerpo de recepción ya construido en Hacienda (POST /recepcion)
+ * Hacienda responde 202 cuando acepta el comprobante para procesamiento y
+ * 400 con el encabezado X-Error-Cause cuando lo rechaza (clave duplicada, datos inválidos, etc.)
+ * @param payload Cuerpo generado por buildRecepcionPayload
+ * @param apiUrl URL del endpoint de recepción
+ * @param apiToken Token de acceso de Hacienda
+ */
+export const postRecepcion = async (
+  payload: RecepcionPayload,
   apiUrl: string,
   apiToken: string
-): Promise<any> => {
+): Promise<RecepcionResult> => {
   try {
-    const response = await axios.post(
-      apiUrl, 
-      { xml: btoa(xmlString) },
-      {
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${apiToken}`
-        }
-      }
-    );
-    
-    return response.data;
+    const response = await axios.post(apiUrl, payload, {
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${apiToken}`
+      },
+      // Los códigos de error se interpretan abajo en lugar de lanzar excepción
+      validateStatus: () => true
+    });
+
+    const errorCause: string | undefined = response.headers?.['x-error-cause'];
+
+    if (response.status === 201 || response.status === 202) {
+      return {
+        success: true,
+        status: response.status,
+        clave: payload.clave,
+        location: response.headers?.['location']
+      };
+    }
+
+    if (response.status === 400) {
+      console.error('Hacienda rechazó el comprobante:', errorCause);
+      return {
+        success: false,
+        status: 400,
+        clave: payload.clave,
+        errorCause,
+        error: errorCause || 'Solicitud inválida'
+      };
+    }
+
+    if (response.status === 401 || response.status === 403) {
+      return {
+        success: false,
+        status: response.status,
+        clave: payload.clave,
+        errorCause,
+        error: 'Token de Hacienda inválido o vencido'
+      };
+    }
+
+    return {
+      success: false,
+      status: response.status,
+      clave: payload.clave,
+      errorCause,
+      error: errorCause || `Respuesta inesperada de Hacienda (${response.status})`
+    };
   } catch (error) {
     console.error('Error al enviar el XML a Hacienda:', error);
-    throw new Error(`Error al enviar el XML a Hacienda: ${error instanceof Error ? error.message : 'Error desconocido'}`);
+    return {
+      success: false,
+      clave: payload.clave,
+      error: `Error de comunicación con Hacienda: ${error instanceof Error ? error.message : 'Error desconocido'}`
+    };
   }
 };
 
+/**
+ * Envía el XML firmado a Hacienda construyendo el cuerpo de recepción a partir del comprobante
+ * @param invoice Comprobante enviado
+ * @param xmlFirmado XML firmado del comprobante
+ * @param apiUrl URL del endpoint de recepción
+ * @param apiToken Token de acceso de Hacienda
+ * @param callbackUrl URL opcional de notificación
+ */
+export const sendInvoiceXML = async (
+  invoice: Invoice,
+  xmlFirmado: string,
+  apiUrl: string,
+  apiToken: string,
+  callbackUrl?: string
+): Promise<RecepcionResult> => {
+  let payload: RecepcionPayload;
+  try {
+    payload = buildRecepcionPayload(invoice, xmlFirmado, callbackUrl);
+  } catch (error) {
+    return {
+      success: false,
+      clave: invoice.clave,
+      error: error instanceof Error ? error.message : 'Error desconocido'
+    };
+  }
+
+  return postRecepcion(payload, apiUrl, apiToken);
+};
+
 /**
  * Envía la factura por email
  */
@@ -320,7 +486,7 @@ export const processAndSendInvoice = async (
   success: boolean;
   xmlString?: string;
   pdfBlob?: Blob;
-  haciendaResponse?: any;
+  haciendaResponse?: RecepcionResult;
   emailSent?: boolean;
 }> => {
   try {
@@ -349,7 +515,7 @@ export const processAndSendInvoice = async (
     if (options.sendToHacienda && options.apiUrl && options.apiToken) {
       result = {
         ...result,
-        haciendaResponse: await sendInvoiceXML(xmlString, options.apiUrl, options.apiToken)
+        haciendaResponse: await sendInvoiceXML(invoiceData, xmlString, options.apiUrl, options.apiToken)
       };
     }
     
@@ -0,0 +1,112 @@
+/**
+ * Base IndexedDB local del punto de venta, compartida por la cola de envíos a Hacienda,
+ * la caché de datos para trabajar sin conexión, la cola de sincronización y las reservas de consecutivos
+ */
+
+const DB_NAME = 'innovai_pos';
+const DB_VERSION = 2;
+
+/**
+ * Almacenes de la base local y su llave primaria
+ */
+export const LOCAL_STORES = {
+  outbox: 'hacienda_outbox',
+  cache: 'offline_cache',
+  syncQueue: 'sync_queue',
+  reservas: 'consecutive_reservations'
+} as const;
+
+export type LocalStoreName = typeof LOCAL_STORES[keyof typeof LOCAL_STORES];
+
+const KEY_PATHS: Record<LocalStoreName, string> = {
+  hacienda_outbox: 'clave',
+  offline_cache: 'key',
+  sync_queue: 'id',
+  consecutive_reservations: 'id'
+};
+
+/**
+ * Abre (o crea) la base IndexedDB local, creando los almacenes que falten
+ */
+const openDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB no está disponible en este navegador'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      (Object.keys(KEY_PATHS) as LocalStoreName[]).forEach(storeName => {
+        if (!db.objectStoreNames.contains(storeName)) {
+          db.createObjectStore(storeName, { keyPath: KEY_PATHS[storeName] });
+        }
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Ejecuta una operación sobre un almacén local y devuelve su resultado
+ * @param storeName Almacén
+ * @param mode Modo de la transacción
+ * @param operation Operación a ejecutar
+ */
+export const withStore = async <T>(
+  storeName: LocalStoreName,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    transaction.oncomplete = () => db.close();
+  });
+};
+
+/**
+ * Lee y reescribe un registro en una sola transacción, para que dos pestañas
+ * no tomen el mismo valor (por ejemplo, el mismo consecutivo reservado)
+ * @param storeName Almacén
+ * @param key Llave del registro
+ * @param update Calcula el nuevo registro a partir del actual; si lanza un error, no se guarda nada
+ * @returns El registro guardado
+ */
+export const updateRecord = async <T>(
+  storeName: LocalStoreName,
+  key: IDBValidKey,
+  update: (actual: T | undefined) => T
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readwrite');
+    const store = transaction.objectStore(storeName);
+    let resultado: T;
+    let fallo: unknown;
+
+    const request = store.get(key);
+    request.onsuccess = () => {
+      try {
+        resultado = update(request.result as T | undefined);
+        store.put(resultado);
+      } catch (error) {
+        fallo = error;
+        transaction.abort();
+      }
+    };
+    transaction.oncomplete = () => {
+      db.close();
+      resolve(resultado);
+    };
+    transaction.onabort = () => {
+      db.close();
+      reject(fallo ?? transaction.error);
+    };
+  });
+};
@@ -0,0 +1,232 @@
+/**
+ * Servicio para procesar comprobantes recibidos de proveedores (FE/FEC) y responderlos
+ * ante Hacienda con el MensajeReceptor (aceptación, aceptación parcial o rechazo)
+ */
+import { create } from 'xmlbuilder2';
+import { Party, mensajesReceptor } from '../types/invoice';
+import { encodeBase64Utf8, RecepcionPayload, RecepcionResult } from './invoiceService';
+import { generateMensajeReceptorXML, MensajeReceptorData } from './xmlService';
+import { generateConsecutiveNumber, getDraftSequence } from './sequenceService';
+import { getPuntoVenta } from './branchService';
+import { signXml, loadSignatureKeys } from './signatureService';
+import { sendRecepcionPayload } from './haciendaApiService';
+import { getText } from './haciendaStatusService';
+import { validateComprobanteXml, formatXsdErrors } from './xsdValidationService';
+import { SupplierDocument, supabaseSupplierDocumentService } from './supabaseSupplierDocumentService';
+
+/**
+ * Raíces de los comprobantes de proveedor que se pueden responder
+ */
+const ROOT_ELEMENTS: Record<string, string> = {
+  FacturaElectronica: '01',
+  FacturaElectronicaCompra: '08'
+};
+
+/**
+ * Respuesta del receptor a un comprobante recibido
+ */
+export interface RespuestaReceptor {
+  mensaje: '1' | '2' | '3'; // 1 Aceptado, 2 Aceptado parcialmente, 3 Rechazado
+  detalleMensaje?: string;
+  condicionImpuesto?: string;
+  montoTotalImpuestoAcreditar?: number;
+  montoTotalDeGastoAplicable?: number;
+  codigoActividad?: string;
+}
+
+/**
+ * Resultado de responder un comprobante recibido
+ */
+export interface RespuestaReceptorResult {
+  success: boolean;
+  data?: SupplierDocument;
+  envio?: RecepcionResult;
+  error?: string;
+}
+
+/**
+ * Interpreta el XML de una factura electrónica (o de compra) recibida de un proveedor
+ * @param xml Contenido del XML del comprobante
+ * @returns Comprobante listo para guardar en el libro de compras
+ */
+export const parseSupplierXml = (xml: string): SupplierDocument => {
+  let obj: Record<string, Record<string, unknown>>;
+  try {
+    obj = create(xml).end({ format: 'object' }) as Record<string, Record<string, unknown>>;
+  } catch {
+    throw new Error('El archivo no es un XML válido');
+  }
+
+  const rootName = Object.keys(obj).find(key => key in ROOT_ELEMENTS);
+  if (!rootName) {
+    throw new Error('El XML no es una factura electrónica ni una factura electrónica de compra');
+  }
+
+  const comprobante = obj[rootName];
+  const emisor = (comprobante.Emisor || {}) as Record<string, unknown>;
+  const emisorId = (emisor.Identificacion || {}) as Record<string, unknown>;
+  const receptor = (comprobante.Receptor || {}) as Record<string, unknown>;
+  const receptorId = (receptor.Identificacion || {}) as Record<string, unknown>;
+  const resumen = (comprobante.ResumenFactura || {}) as Record<string, unknown>;
+  const moneda = (resumen.CodigoTipoMoneda || {}) as Record<string, unknown>;
+
+  const clave = getText(comprobante.Clave) || '';
+  if (!/^\d{50}$/.test(clave)) {
+    throw new Error('El comprobante no tiene una clave numérica válida de 50 dígitos');
+  }
+
+  const toNumber = (value?: string) => (value !== undefined ? parseFloat(value) : undefined);
+
+  return {
+    clave,
+    tipo_documento: ROOT_ELEMENTS[rootName],
+    numero_consecutivo: getText(comprobante.NumeroConsecutivo) || '',
+    fecha_emision: getText(comprobante.FechaEmision) || '',
+    emisor_nombre: getText(emisor.Nombre) || '',
+    emisor_tipo_identificacion: getText(emisorId.Tipo) || '',
+    emisor_numero_identificacion: getText(emisorId.Numero) || '',
+    receptor_numero_identificacion: getText(receptorId.Numero),
+    // v4.4 usa CodigoActividadEmisor; v4.3 usaba CodigoActividad
+    codigo_actividad: getText(comprobante.CodigoActividadEmisor) || getText(comprobante.CodigoActividad),
+    moneda: getText(moneda.CodigoMoneda) || 'CRC',
+    tipo_cambio: toNumber(getText(moneda.TipoCambio)),
+    total_venta_neta: toNumber(getText(resumen.TotalVentaNeta)),
+    total_impuesto: toNumber(getText(resumen.TotalImpuesto)) || 0,
+    total_comprobante: toNumber(getText(resumen.TotalComprobante)) || 0,
+    xml_original: xml,
+    estado_envio: 'sin_responder'
+  };
+};
+
+/**
+ * Monto de IVA acreditable sugerido según la condición del impuesto
+ * - 01 y 03 (crédito total o bienes de capital): todo el impuesto
+ * - 02 (crédito parcial): se aplica el factor de prorrata indicado
+ * - 04 y 05 (gasto corriente o proporcionalidad): no genera crédito
+ * @param condicionImpuesto Código de la condición del impuesto
+ * @param totalImpuesto Impuesto total del comprobante
+ * @param prorrata Factor de prorrata para crédito parcial (0 a 1)
+ */
+export const getDefaultImpuestoAcreditar = (
+  condicionImpuesto: string,
+  totalImpuesto: number,
+  prorrata = 1
+): number => {
+  switch (condicionImpuesto) {
+    case '01':
+    case '03':
+      return totalImpuesto;
+    case '02':
+      return Math.round(totalImpuesto * Math.min(Math.max(prorrata, 0), 1) * 100000) / 100000;
+    default:
+      return 0;
+  }
+};
+
+/**
+ * Construye el cuerpo del POST /recepcion para un MensajeReceptor firmado
+ * @param doc Comprobante del proveedor que se responde
+ * @param receptor Datos de la empresa que recibe el comprobante
+ * @param consecutivoReceptor Consecutivo del mensaje (serie 05, 06 o 07)
+ * @param xmlFirmado MensajeReceptor firmado
+ */
+export const buildMensajeReceptorPayload = (
+  doc: SupplierDocument,
+  receptor: Party,
+  consecutivoReceptor: string,
+  xmlFirmado: string
+): RecepcionPayload => ({
+  clave: doc.clave,
+  fecha: new Date().toISOString(),
+  emisor: {
+    tipoIdentificacion: doc.emisor_tipo_identificacion,
+    numeroIdentificacion: doc.emisor_numero_identificacion
+  },
+  receptor: {
+    tipoIdentificacion: receptor.identificacion.tipo,
+    numeroIdentificacion: receptor.identificacion.numero
+  },
+  consecutivoReceptor,
+  comprobanteXml: encodeBase64Utf8(xmlFirmado)
+});
+
+/**
+ * Genera, firma y envía el MensajeReceptor de un comprobante recibido y registra la respuesta
+ * @param doc Comprobante del proveedor
+ * @param respuesta Respuesta del receptor
+ * @param receptor Datos de la empresa que recibe el comprobante
+ * @param companyId ID de la empresa
+ */
+export const respondToSupplierDocument = async (
+  doc: SupplierDocument,
+  respuesta: RespuestaReceptor,
+  receptor: Party,
+  companyId: string
+): Promise<RespuestaReceptorResult> => {
+  try {
+    if (!receptor.identificacion?.numero) {
+      throw new Error('Configure la identificación de la empresa antes de responder comprobantes');
+    }
+    if (doc.receptor_numero_identificacion && doc.receptor_numero_identificacion !== receptor.identificacion.numero) {
+      throw new Error('El comprobante no fue emitido a nombre de esta empresa');
+    }
+
+    // Cada tipo de mensaje lleva su propia serie de consecutivos
+    const tipoMensaje = mensajesReceptor.find(m => m.codigo === respuesta.mensaje)?.tipoDocumento || '05';
+    const { terminal, sucursal } = getPuntoVenta(companyId);
+
+    const borrador: MensajeReceptorData = {
+      clave: doc.clave,
+      numeroCedulaEmisor: doc.emisor_numero_identificacion,
+      fechaEmisionDoc: doc.fecha_emision,
+      mensaje: respuesta.mensaje,
+      detalleMensaje: respuesta.detalleMensaje,
+      montoTotalImpuesto: doc.total_impuesto,
+      codigoActividad: respuesta.codigoActividad,
+      condicionImpuesto: respuesta.condicionImpuesto,
+      montoTotalImpuestoAcreditar: respuesta.montoTotalImpuestoAcreditar,
+      montoTotalDeGastoAplicable: respuesta.montoTotalDeGastoAplicable,
+      totalFactura: doc.total_comprobante,
+      numeroCedulaReceptor: receptor.identificacion.numero,
+      numeroConsecutivoReceptor: getDraftSequence(receptor.identificacion.numero, tipoMensaje, terminal, sucursal).numeroConsecutivo
+    };
+
+    // Validar el borrador y cargar la llave antes de consumir un consecutivo
+    const validacion = validateComprobanteXml(generateMensajeReceptorXML(borrador));
+    if (!validacion.valid) {
+      throw new Error(`El mensaje receptor no cumple el esquema v4.4:\n${formatXsdErrors(validacion.errors)}`);
+    }
+    const keys = await loadSignatureKeys(companyId);
+
+    const consecutivoReceptor = await generateConsecutiveNumber(companyId, tipoMensaje, terminal, sucursal);
+    const xml = generateMensajeReceptorXML({ ...borrador, numeroConsecutivoReceptor: consecutivoReceptor });
+    const xmlFirmado = await signXml(xml, keys);
+
+    const payload = buildMensajeReceptorPayload(doc, receptor, consecutivoReceptor, xmlFirmado);
+    const envio = await sendRecepcionPayload(payload, tipoMensaje, consecutivoReceptor);
+
+    const cambios: Partial<SupplierDocument> = {
+      mensaje: respuesta.mensaje,
+      detalle_mensaje: respuesta.detalleMensaje,
+      condicion_impuesto: respuesta.mensaje !== '3' ? respuesta.condicionImpuesto : undefined,
+      monto_impuesto_acreditar: respuesta.mensaje !== '3' ? respuesta.montoTotalImpuestoAcreditar : undefined,
+      monto_gasto_aplicable: respuesta.mensaje !== '3' ? respuesta.montoTotalDeGastoAplicable : undefined,
+      consecutivo_receptor: consecutivoReceptor,
+      xml_mensaje: xmlFirmado,
+      estado_envio: envio.success ? 'enviado' : envio.encolado ? 'en_cola' : 'error',
+      ultimo_error: envio.success ? undefined : envio.error
+    };
+
+    const actualizado = await supabaseSupplierDocumentService.updateDocument(doc.clave, cambios, companyId);
+
+    return {
+      success: envio.success || !!envio.encolado,
+      data: actualizado.data || { ...doc, ...cambios },
+      envio,
+      error: envio.success || envio.encolado ? undefined : envio.error
+    };
+  } catch (error) {
+    console.error('Error al responder el comprobante del proveedor:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Error desconocido' };
+  }
+};
@@ -0,0 +1,97 @@
+/**
+ * offlineCacheService.ts
+ * Caché en IndexedDB de los datos que el punto de venta necesita sin conexión:
+ * productos, clientes, configuración de la empresa y su certificado de firma
+ */
+
+import { LOCAL_STORES, withStore } from './localDatabase';
+
+/**
+ * Conjuntos de datos que se guardan en la caché
+ */
+export type OfflineDataset = 'products' | 'clients' | 'company' | 'company_settings' | 'certificate';
+
+/**
+ * Registro de la caché
+ */
+export interface OfflineCacheEntry<T> {
+  key: string;
+  data: T;
+  actualizado: string;
+}
+
+const getCacheKey = (dataset: OfflineDataset, companyId: string) => `${dataset}:${companyId}`;
+
+/**
+ * Indica si el navegador tiene conexión a internet
+ */
+export const isOnline = (): boolean => typeof navigator === 'undefined' || navigator.onLine;
+
+/**
+ * Filtra y pagina un catálogo en caché como lo haría la consulta a Supabase
+ * @param registros Registros en caché
+ * @param page Página (desde 1)
+ * @param limit Registros por página
+ * @param searchTerm Texto a buscar
+ * @param campos Campos en los que se busca el texto
+ */
+export const paginateCached = <T>(
+  registros: T[],
+  page: number,
+  limit: number,
+  searchTerm: string,
+  campos: (keyof T)[]
+): { data: T[]; total: number } => {
+  const termino = searchTerm.trim().toLowerCase();
+  const filtrados = termino
+    ? registros.filter(registro => campos.some(campo => String(registro[campo] ?? '').toLowerCase().includes(termino)))
+    : registros;
+  const inicio = (page - 1) * limit;
+  return { data: filtrados.slice(inicio, inicio + limit), total: filtrados.length };
+};
+
+/**
+ * Servicio de caché local para trabajar sin conexión
+ */
+class OfflineCacheService {
+  /**
+   * Guarda un conjunto de datos de la empresa
+   * @param dataset Conjunto de datos
+   * @param companyId ID de la empresa
+   * @param data Datos a guardar
+   */
+  async set<T>(dataset: OfflineDataset, companyId: string, data: T): Promise<void> {
+    const entry: OfflineCacheEntry<T> = {
+      key: getCacheKey(dataset, companyId),
+      data,
+      actualizado: new Date().toISOString()
+    };
+    try {
+      await withStore(LOCAL_STORES.cache, 'readwrite', store => store.put(entry));
+    } catch (error) {
+      console.warn(`No se pudo guardar ${dataset} en la caché local:`, error);
+    }
+  }
+
+  /**
+   * Obtiene un conjunto de datos de la empresa
+   * @param dataset Conjunto de datos
+   * @param companyId ID de la empresa
+   * @returns El registro de la caché o undefined si no se ha guardado
+   */
+  async get<T>(dataset: OfflineDataset, companyId: string): Promise<OfflineCacheEntry<T> | undefined> {
+    try {
+      return await withStore<OfflineCacheEntry<T> | undefined>(
+        LOCAL_STORES.cache,
+        'readonly',
+        store => store.get(getCacheKey(dataset, companyId))
+      );
+    } catch (error) {
+      console.warn(`No se pudo leer ${dataset} de la caché local:`, error);
+      return undefined;
+    }
+  }
+}
+
+// Exportar la instancia del servicio
+export const offlineCacheService = new OfflineCacheService();
@@ -0,0 +1,338 @@
+/**
+ * Cola persistente (outbox) de comprobantes firmados pendientes de envío a Hacienda.
+ * Se guarda en IndexedDB en el dispositivo y se replica en Supabase (tabla hacienda_outbox)
+ * cuando hay conexión, de modo que los envíos fallidos sobreviven a recargas y caídas de red.
+ */
+import { supabase } from '../lib/supabase';
+import { envService } from './envService';
+import { tokenManager } from './haciendaAuthService';
+import { postRecepcion, RecepcionPayload, RecepcionResult } from './invoiceService';
+import { trackHaciendaStatusByKey } from './haciendaStatusService';
+import { mensajesReceptor } from '../types/invoice';
+import { getCompanyUuid } from './uuidMappingService';
+import { LOCAL_STORES, withStore as withLocalStore } from './localDatabase';
+
+/**
+ * Estados de un elemento de la cola
+ * - pendiente: esperando el próximo intento
+ * - enviado: Hacienda lo recibió (202)
+ * - rechazado: Hacienda devolvió 400, no se reintenta automáticamente
+ */
+export type OutboxEstado = 'pendiente' | 'enviado' | 'rechazado';
+
+/**
+ * Elemento de la cola de envíos
+ */
+export interface OutboxItem {
+  clave: string;
+  invoiceId?: string; // Id del comprobante en el historial (FE-, T-, NC-...)
+  tipoDocumento: string;
+  payload: RecepcionPayload; // Cuerpo listo para POST /recepcion con el XML firmado
+  estado: OutboxEstado;
+  intentos: number;
+  ultimoError?: string;
+  proximoIntento: string;
+  creado: string;
+  actualizado: string;
+}
+
+const STORE_NAME = LOCAL_STORES.outbox;
+const TABLE_NAME = 'hacienda_outbox';
+
+// Espera base y máxima entre reintentos automáticos
+const BASE_DELAY_MS = 30 * 1000;
+const MAX_DELAY_MS = 60 * 60 * 1000;
+
+/**
+ * UUID de la empresa seleccionada, dueña de los elementos de la cola en Supabase
+ */
+const getOutboxCompanyUuid = (): string =>
+  getCompanyUuid(localStorage.getItem('selected_company') || 'innova');
+
+/**
+ * Calcula la espera antes del siguiente intento con crecimiento exponencial
+ * @param intentos Cantidad de intentos ya realizados
+ */
+export const getBackoffDelay = (intentos: number): number => {
+  const exponent = Math.max(0, intentos - 1);
+  return Math.min(BASE_DELAY_MS * Math.pow(2, exponent), MAX_DELAY_MS);
+};
+
+/**
+ * Indica si un fallo de envío amerita reintento (red caída, 5xx o token vencido).
+ * Un 400 significa que Hacienda rechazó el contenido y reenviarlo no cambiará el resultado.
+ * @param result Resultado del envío
+ */
+export const isRetryable = (result: RecepcionResult): boolean => {
+  return !result.success && result.status !== 400;
+};
+
+/**
+ * Ejecuta una operación sobre el almacén local de la cola
+ */
+const withStore = <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => withLocalStore(STORE_NAME, mode, operation);
+
+/**
+ * Convierte un registro de Supabase al formato de la cola
+ */
+const fromRow = (row: Record<string, unknown>): OutboxItem => ({
+  clave: row.clave as string,
+  invoiceId: (row.invoice_id as string) || undefined,
+  tipoDocumento: row.tipo_documento as string,
+  payload: row.payload as RecepcionPayload,
+  estado: row.estado as OutboxEstado,
+  intentos: (row.intentos as number) || 0,
+  ultimoError: (row.ultimo_error as string) || undefined,
+  proximoIntento: row.proximo_intento as string,
+  creado: row.created_at as string,
+  actualizado: row.updated_at as string
+});
+
+/**
+ * Servicio de la cola de envíos a Hacienda
+ */
+class OutboxService {
+  private processing = false;
+
+  /**
+   * Guarda un elemento en IndexedDB y lo replica en Supabase si es posible
+   */
+  private async save(item: OutboxItem): Promise<void> {
+    try {
+      await withStore('readwrite', store => store.put(item));
+    } catch (error) {
+      console.warn('No se pudo guardar en la cola local:', error);
+    }
+
+    try {
+      const { error } = await supabase
+        .from(TABLE_NAME)
+        .upsert({
+          company_id: getOutboxCompanyUuid(),
+          clave: item.clave,
+          invoice_id: item.invoiceId || null,
+          tipo_documento: item.tipoDocumento,
+          payload: item.payload,
+          estado: item.estado,
+          intentos: item.intentos,
+          ultimo_error: item.ultimoError || null,
+          proximo_intento: item.proximoIntento,
+          created_at: item.creado,
+          updated_at: item.actualizado
+        }, { onConflict: 'company_id,clave' });
+
+      if (error) {
+        console.warn('No se pudo replicar la cola en Supabase:', error.message);
+      }
+    } catch (error) {
+      console.warn('Supabase no disponible, la cola queda solo en el dispositivo:', error);
+    }
+  }
+
+  /**
+   * Agrega a la cola un comprobante cuyo envío falló
+   * @param payload Cuerpo de recepción con el XML firmado
+   * @param options Tipo de documento, id en el historial y error del primer intento
+   */
+  async enqueue(
+    payload: RecepcionPayload,
+    options: { tipoDocumento: string; invoiceId?: string; ultimoError?: string }
+  ): Promise<OutboxItem> {
+    const ahora = new Date();
+    const item: OutboxItem = {
+      clave: payload.clave,
+      invoiceId: options.invoiceId,
+      tipoDocumento: options.tipoDocumento,
+      payload,
+      estado: 'pendiente',
+      intentos: 1,
+      ultimoError: options.ultimoError,
+      proximoIntento: new Date(ahora.getTime() + getBackoffDelay(1)).toISOString(),
+      creado: ahora.toISOString(),
+      actualizado: ahora.toISOString()
+    };
+
+    await this.save(item);
+    console.log(`Comprobante ${payload.clave} agregado a la cola de envíos`);
+    return item;
+  }
+
+  /**
+   * Lista los elementos de la cola combinando IndexedDB y Supabase.
+   * Si un elemento existe en ambos, se conserva la versión actualizada más reciente.
+   */
+  async list(): Promise<OutboxItem[]> {
+    const items = new Map<string, OutboxItem>();
+
+    try {
+      const locales = await withStore<OutboxItem[]>('readonly', store => store.getAll());
+      locales.forEach(item => items.set(item.clave, item));
+    } catch (error) {
+      console.warn('No se pudo leer la cola local:', error);
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from(TABLE_NAME)
+        .select('*')
+        .eq('company_id', getOutboxCompanyUuid());
+
+      if (error) {
+        console.warn('No se pudo leer la cola en Supabase:', error.message);
+      } else {
+        (data || []).forEach(row => {
+          const remoto = fromRow(row);
+          const local = items.get(remoto.clave);
+          if (!local || new Date(remoto.actualizado) > new Date(local.actualizado)) {
+            items.set(remoto.clave, remoto);
+          }
+        });
+      }
+    } catch (error) {
+      console.warn('Supabase no disponible, mostrando solo la cola local:', error);
+    }
+
+    return Array.from(items.values())
+      .sort((a, b) => new Date(b.creado).getTime() - new Date(a.creado).getTime());
+  }
+
+  /**
+   * Intenta enviar un elemento de la cola y registra el resultado
+   * @param item Elemento a enviar
+   */
+  async send(item: OutboxItem): Promise<OutboxItem> {
+    let result: RecepcionResult;
+
+    try {
+      const token = await tokenManager.getValidToken();
+      result = await postRecepcion(item.payload, envService.get('HACIENDA_API_URL'), token);
+    } catch (error) {
+      result = {
+        success: false,
+        clave: item.clave,
+        error: error instanceof Error ? error.message : 'Error desconocido'
+      };
+    }
+
+    const ahora = new Date();
+    const intentos = item.intentos + 1;
+    const actualizado: OutboxItem = {
+      ...item,
+      intentos,
+      actualizado: ahora.toISOString()
+    };
+
+    if (result.success) {
+      actualizado.estado = 'enviado';
+      actualizado.ultimoError = undefined;
+      // Los mensajes receptor se guardan en el buzón de proveedores, no en las facturas
+      if (!mensajesReceptor.some(m => m.tipoDocumento === item.tipoDocumento)) {
+        // Igual que en un envío directo, consultar en segundo plano si Hacienda lo aceptó
+        trackHaciendaStatusByKey(item.clave)
+          .catch(error => console.error(`Error al consultar el estado de ${item.clave} en Hacienda:`, error));
+      }
+    } else if (!isRetryable(result)) {
+      actualizado.estado = 'rechazado';
+      actualizado.ultimoError = result.error;
+    } else {
+      actualizado.estado = 'pendiente';
+      actualizado.ultimoError = result.error;
+      actualizado.proximoIntento = new Date(ahora.getTime() + getBackoffDelay(intentos)).toISOString();
+    }
+
+    await this.save(actualizado);
+    return actualizado;
+  }
+
+  /**
+   * Reintenta de inmediato un elemento, sin esperar su próximo intento programado
+   * @param clave Clave del comprobante
+   */
+  async retryNow(clave: string): Promise<OutboxItem> {
+    const item = (await this.list()).find(i => i.clave === clave);
+    if (!item) {
+      throw new Error(`El comprobante ${clave} no está en la cola`);
+    }
+    return this.send(item);
+  }
+
+  /**
+   * Envía todos los elementos pendientes cuyo próximo intento ya venció
+   * @param force Enviar todos los pendientes sin esperar su próximo intento (por ejemplo, al recuperar la conexión)
+   * @returns Cantidad de comprobantes enviados correctamente
+   */
+  async processDue(force = false): Promise<number> {
+    if (this.processing) return 0;
+    if (typeof navigator !== 'undefined' && !navigator.onLine) return 0;
+
+    this.processing = true;
+    let enviados = 0;
+
+    try {
+      const ahora = Date.now();
+      const pendientes = (await this.list())
+        .filter(item => item.estado === 'pendiente' && (force || new Date(item.proximoIntento).getTime() <= ahora));
+
+      for (const item of pendientes) {
+        const resultado = await this.send(item);
+        if (resultado.estado === 'enviado') enviados++;
+      }
+    } finally {
+      this.processing = false;
+    }
+
+    return enviados;
+  }
+
+  /**
+   * Elimina de la cola los comprobantes ya recibidos por Hacienda
+   */
+  async clearSent(): Promise<void> {
+    const enviados = (await this.list()).filter(item => item.estado === 'enviado');
+
+    for (const item of enviados) {
+      try {
+        await withStore('readwrite', store => store.delete(item.clave));
+      } catch (error) {
+        console.warn('No se pudo limpiar la cola local:', error);
+      }
+    }
+
+    const { error } = await supabase
+      .from(TABLE_NAME)
+      .delete()
+      .eq('company_id', getOutboxCompanyUuid())
+      .eq('estado', 'enviado');
+
+    if (error) {
+      console.warn('No se pudo limpiar la cola en Supabase:', error.message);
+    }
+  }
+
+  /**
+   * Inicia el procesamiento periódico de la cola y al recuperar la conexión
+   * @param intervalMs Intervalo entre revisiones
+   * @returns Función para detener el procesamiento
+   */
+  startWorker(intervalMs = 60 * 1000): () => void {
+    const run = (force = false) => {
+      this.processDue(force).catch(error => console.error('Error al procesar la cola de envíos:', error));
+    };
+    // Al volver la conexión se regularizan de inmediato los comprobantes emitidos sin internet o en contingencia
+    const onOnline = () => run(true);
+
+    const timer = setInterval(run, intervalMs);
+    window.addEventListener('online', onOnline);
+    run();
+
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener('online', onOnline);
+    };
+  }
+}
+
+export const outboxService = new OutboxService();
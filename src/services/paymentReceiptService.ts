@@ -0,0 +1,160 @@
+/**
+ * paymentReceiptService.ts
+ * Servicio para construir Recibos Electrónicos de Pago (tipo 10) por los pagos o
+ * abonos recibidos sobre facturas a crédito guardadas en el historial
+ */
+
+import { Invoice, LineItem, OtrosCargos, Party, Reference } from '../types/invoice';
+import { ReciboPago, StoredInvoice } from '../hooks/useInvoiceHistory';
+import { RecepcionResult } from './invoiceService';
+import { calcularTotalesVenta, getCodigoTarifaIVA, getStoredTipoDocumento } from './creditNoteService';
+import { redondearMonto, validarMontoPago } from './invoicePaymentService';
+
+/**
+ * Condiciones de venta a crédito que requieren recibo de pago al cobrarse
+ */
+export const CONDICIONES_VENTA_CREDITO = ['02', '08', '10'];
+
+/**
+ * Datos necesarios para construir un recibo de pago
+ */
+export interface PaymentReceiptOptions {
+  original: StoredInvoice;
+  // Historial completo, para descontar del saldo las notas de crédito de la factura
+  invoices: StoredInvoice[];
+  emisor: Party;
+  monto: number;
+  medioPago: string;
+  sequence: { clave: string; numeroConsecutivo: string };
+}
+
+/**
+ * Condición de venta del recibo según la venta original: el pago de servicios
+ * al Estado (09) o el pago de venta a crédito (11)
+ * @param condicionVenta Condición de venta de la factura original
+ */
+export const getCondicionVentaRecibo = (condicionVenta: string): string =>
+  condicionVenta === '08' ? '09' : '11';
+
+/**
+ * Construye el Recibo Electrónico de Pago de un pago o abono. Las líneas y cargos de
+ * la factura original se prorratean según la proporción pagada para declarar el IVA
+ * correspondiente al monto cobrado.
+ * @param options Datos del recibo de pago
+ * @returns Comprobante listo para generar XML y PDF
+ */
+export const buildPaymentReceipt = (options: PaymentReceiptOptions): Invoice => {
+  const { original, invoices, monto, sequence } = options;
+
+  if (!CONDICIONES_VENTA_CREDITO.includes(original.condicionVenta)) {
+    throw new Error('Solo se emiten recibos de pago para ventas a crédito');
+  }
+  if (!original.claveNumerica) {
+    throw new Error('La factura no tiene clave numérica para referenciar el pago');
+  }
+  if (!original.receptor?.identificacion?.numero) {
+    throw new Error('La factura no tiene la identificación del cliente requerida en el recibo de pago');
+  }
+
+  validarMontoPago(original, monto, invoices);
+
+  const total = Number(original.total) || 0;
+  const proporcion = total > 0 ? monto / total : 0;
+
+  // Tarifa de respaldo para líneas antiguas que no guardaron su IVA
+  const tarifaPromedio = original.subtotal > 0
+    ? Math.round((original.impuesto / original.subtotal) * 100)
+    : 13;
+
+  const detalleServicio: LineItem[] = original.detalleServicio.map((linea, i) => {
+    const subtotal = redondearMonto(linea.subtotal * proporcion);
+    const tarifa = linea.tarifaImpuesto ?? tarifaPromedio;
+    const impuestoMonto = redondearMonto(subtotal * (tarifa / 100));
+
+    return {
+      id: i + 1,
+      codigoCabys: linea.codigoCabys,
+      cantidad: 1,
+      unidadMedida: linea.unidadMedida || 'Unid',
+      detalle: `Pago: ${linea.detalle}`.substring(0, 200),
+      precioUnitario: subtotal,
+      montoTotal: subtotal,
+      subtotal,
+      baseImponible: subtotal,
+      impuesto: {
+        codigo: '01',
+        codigoTarifa: getCodigoTarifaIVA(tarifa),
+        tarifa,
+        monto: impuestoMonto,
+      },
+      impuestoNeto: impuestoMonto,
+      montoTotalLinea: subtotal + impuestoMonto,
+    };
+  });
+
+  const otrosCargos: OtrosCargos[] = (original.otrosCargos || []).map(cargo => ({
+    tipoCargo: cargo.tipoCargo,
+    descripcionCargo: cargo.descripcionCargo,
+    montoCargo: redondearMonto(cargo.montoCargo * proporcion),
+  }));
+  const totalOtrosCargos = otrosCargos.reduce((sum, cargo) => sum + cargo.montoCargo, 0);
+
+  const totales = calcularTotalesVenta(detalleServicio);
+  const totalVenta = totales.totalVenta;
+  const totalImpuesto = detalleServicio.reduce((sum, item) => sum + item.impuestoNeto, 0);
+  const moneda = original.moneda || 'CRC';
+  const tipoCambio = original.tipoCambio || 1;
+
+  const referencia: Reference = {
+    tipoDoc: getStoredTipoDocumento(original),
+    numero: original.claveNumerica,
+    fechaEmision: new Date(original.date).toISOString(),
+    codigo: '04',
+    razon: `Pago de ${monto.toFixed(2)} ${moneda} sobre la factura ${original.numeroConsecutivo || original.id}`,
+  };
+
+  return {
+    clave: sequence.clave,
+    numeroConsecutivo: sequence.numeroConsecutivo,
+    fechaEmision: new Date().toISOString(),
+    emisor: options.emisor,
+    receptor: original.receptor,
+    condicionVenta: getCondicionVentaRecibo(original.condicionVenta),
+    medioPago: [options.medioPago],
+    totalMedioPago: [monto],
+    moneda,
+    tipoCambio,
+    detalleServicio,
+    otrosCargos: otrosCargos.length > 0 ? otrosCargos : undefined,
+    resumenFactura: {
+      codigoMoneda: moneda,
+      tipoCambio: moneda !== 'CRC' ? tipoCambio : undefined,
+      ...totales,
+      totalDescuentos: 0,
+      totalVentaNeta: totalVenta,
+      totalImpuesto,
+      totalOtrosCargos: otrosCargos.length > 0 ? totalOtrosCargos : undefined,
+      totalComprobante: totalVenta + totalImpuesto + totalOtrosCargos,
+    },
+    informacionReferencia: [referencia],
+  };
+};
+
+/**
+ * Convierte un recibo de pago emitido en el recibo asociado al pago de la factura
+ * @param paymentReceipt Recibo de pago generado
+ * @param xmlFirmado XML firmado del recibo
+ * @param envio Resultado del envío a Hacienda
+ */
+export const toReciboPago = (
+  paymentReceipt: Invoice,
+  xmlFirmado: string,
+  envio: RecepcionResult
+): ReciboPago => ({
+  clave: paymentReceipt.clave,
+  numeroConsecutivo: paymentReceipt.numeroConsecutivo,
+  fechaEmision: paymentReceipt.fechaEmision,
+  estadoEnvio: envio.success ? 'enviado' : envio.encolado ? 'en_cola' : 'error',
+  error: envio.success || envio.encolado ? undefined : envio.errorCause || envio.error,
+  xmlContent: xmlFirmado,
+});
@@ -0,0 +1,125 @@
+/**
+ * paymentRegistrationService.ts
+ * Registro de pagos y abonos sobre facturas: emite el Recibo Electrónico de Pago
+ * cuando la venta es a crédito, guarda el pago y actualiza el saldo de la factura
+ */
+
+import { Invoice, Party } from '../types/invoice';
+import { PagoFactura, StoredInvoice } from '../hooks/useInvoiceHistory';
+import { buildPaymentReceipt, toReciboPago, CONDICIONES_VENTA_CREDITO } from './paymentReceiptService';
+import { registrarPago, validarMontoPago } from './invoicePaymentService';
+import { supabaseInvoicePaymentService } from './supabaseInvoicePaymentService';
+import { supabaseInvoiceService } from './supabaseInvoiceService';
+import { generateSequence, getDraftSequence } from './sequenceService';
+import { getPuntoVenta } from './branchService';
+import { generatePaymentReceiptXML } from './xmlService';
+import { validateComprobanteXml, formatXsdErrors } from './xsdValidationService';
+import { signXml, loadSignatureKeys } from './signatureService';
+import { sendXMLToHacienda } from './haciendaApiService';
+
+/**
+ * Resultado del registro de un pago
+ */
+export interface PaymentRegistrationResult {
+  success: boolean;
+  // Factura con el saldo y el estado de pago actualizados
+  data?: StoredInvoice;
+  pago?: PagoFactura;
+  // Recibo electrónico emitido, para descargar su XML y PDF
+  recibo?: { documento: Invoice; xmlFirmado: string };
+  // El pago quedó registrado, pero Hacienda no recibió el recibo de pago
+  advertencia?: string;
+  error?: string;
+}
+
+/**
+ * Registra un pago o abono sobre una factura. En ventas a crédito emite y firma el
+ * Recibo Electrónico de Pago, guarda el pago con el recibo pendiente y solo entonces lo
+ * envía a Hacienda, de modo que no exista un recibo enviado sin su pago registrado.
+ * @param invoice Factura pagada
+ * @param pago Datos del pago
+ * @param emisor Datos de la empresa; requeridos para emitir el recibo de pago
+ * @param companyId ID de la empresa
+ * @param invoices Historial completo, para descontar del saldo las notas de crédito
+ */
+export const registerInvoicePayment = async (
+  invoice: StoredInvoice,
+  pago: PagoFactura,
+  emisor: Party | null,
+  companyId: string,
+  invoices: StoredInvoice[]
+): Promise<PaymentRegistrationResult> => {
+  try {
+    validarMontoPago(invoice, pago.monto, invoices);
+    const pagoRegistrado: PagoFactura = { ...pago };
+    let recibo: PaymentRegistrationResult['recibo'];
+    let advertencia: string | undefined;
+
+    // Cada pago o abono de una venta a crédito se respalda con un Recibo Electrónico de Pago
+    if (CONDICIONES_VENTA_CREDITO.includes(invoice.condicionVenta)) {
+      if (!emisor) {
+        throw new Error('No se encontró la configuración de la empresa para emitir el recibo de pago');
+      }
+      const opciones = { original: invoice, invoices, emisor, monto: pago.monto, medioPago: pago.medioPago };
+
+      // El recibo de pago usa su propia serie de consecutivos (10)
+      const { terminal, sucursal } = getPuntoVenta(companyId);
+
+      // Validar el borrador y cargar la llave antes de consumir un consecutivo
+      const borrador = buildPaymentReceipt({ ...opciones, sequence: getDraftSequence(emisor.identificacion.numero, '10', terminal, sucursal) });
+      const validacion = validateComprobanteXml(generatePaymentReceiptXML(borrador));
+      if (!validacion.valid) {
+        throw new Error(`El XML del recibo de pago no cumple el esquema v4.4 de Hacienda:\n${formatXsdErrors(validacion.errors)}`);
+      }
+      const keys = await loadSignatureKeys(companyId);
+
+      const sequence = await generateSequence(companyId, emisor.identificacion.numero, '10', terminal, sucursal);
+      const documento = buildPaymentReceipt({ ...opciones, sequence });
+      const xmlFirmado = await signXml(generatePaymentReceiptXML(documento), keys);
+
+      pagoRegistrado.recibo = {
+        clave: documento.clave,
+        numeroConsecutivo: documento.numeroConsecutivo,
+        fechaEmision: documento.fechaEmision,
+        estadoEnvio: 'pendiente',
+        xmlContent: xmlFirmado
+      };
+      recibo = { documento, xmlFirmado };
+    }
+
+    // Registrar el pago en la tabla de pagos; si falla, el recibo todavía no salió hacia Hacienda
+    const resultado = await supabaseInvoicePaymentService.savePayment(invoice, pagoRegistrado, companyId);
+    if (!resultado.success || !resultado.data) {
+      throw new Error(`Error al guardar el pago: ${resultado.error}`);
+    }
+    let pagoGuardado = resultado.data;
+
+    if (recibo && pagoGuardado.id) {
+      const envio = await sendXMLToHacienda(recibo.documento, recibo.xmlFirmado, undefined, invoice.id);
+      const reciboEnviado = toReciboPago(recibo.documento, recibo.xmlFirmado, envio);
+      if (reciboEnviado.estadoEnvio === 'error') {
+        advertencia = `Hacienda no recibió el recibo de pago ${reciboEnviado.numeroConsecutivo}: ${reciboEnviado.error || 'Error desconocido'}`;
+      }
+
+      const actualizado = await supabaseInvoicePaymentService.updateRecibo(pagoGuardado.id, reciboEnviado);
+      if (actualizado.success && actualizado.data) {
+        pagoGuardado = actualizado.data;
+      } else {
+        console.error('No se guardó el estado de envío del recibo de pago:', actualizado.error);
+        pagoGuardado = { ...pagoGuardado, recibo: reciboEnviado };
+      }
+    }
+
+    // Actualizar el saldo de la factura; queda pagada cuando el saldo llega a cero
+    const actualizada = registrarPago(invoice, pagoGuardado, invoices);
+    const { error: updateError } = await supabaseInvoiceService.updateInvoiceData(actualizada, companyId);
+    if (updateError) {
+      throw new Error(`Error al guardar el pago: ${updateError.message || updateError}`);
+    }
+
+    return { success: true, data: actualizada, pago: pagoGuardado, recibo, advertencia };
+  } catch (error) {
+    console.error('Error al registrar el pago de la factura:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Error desconocido' };
+  }
+};
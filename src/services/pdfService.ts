@@ -1,16 +1,72 @@
 import { jsPDF } from 'jspdf';
 import 'jspdf-autotable';
 import { format } from 'date-fns';
-import { Invoice } from '../types/invoice';
+import { Invoice, Party, tiposDocumentoElectronico, codigosReferencia, tiposCargos } from '../types/invoice';
 import { saveAs } from 'file-saver';
+import { EstadoCuenta, TRAMOS_ANTIGUEDAD } from './accountsReceivableService';
+import { CierreCaja } from './cashRegisterService';
+import { ANCHO_QR, COLUMNAS_PAPEL, LineaRecibo, OpcionesRecibo, ajustarTexto, alinearColumnas } from './receiptService';
+import { generarCodigoQR } from './qrCodeService';
+import { getTipoDocumento } from './xmlService';
 
 /**
  * Servicio para la generación de documentos PDF para facturación electrónica
  * Este servicio utiliza los mismos datos que el XML para garantizar consistencia.
  */
 
+/**
+ * Idioma del PDF; las facturas de exportación se entregan en inglés a clientes extranjeros
+ */
+export type PdfIdioma = 'es' | 'en';
+
+/**
+ * Textos del PDF por idioma
+ */
+const PDF_LABELS: Record<PdfIdioma, Record<string, string>> = {
+  es: {
+    clave: 'Clave', consecutivo: 'Consecutivo', fechaEmision: 'Fecha emisión', emisor: 'Emisor', receptor: 'Receptor',
+    identificacion: 'Identificación', nombreComercial: 'Nombre Comercial', direccionExtranjero: 'Dirección',
+    referencia: 'Documento de referencia', fecha: 'Fecha', codigo: 'Código', razon: 'Razón',
+    detalle: 'Detalle', cantidad: 'Cant', precioUnitario: 'P.Unit', impuesto: 'Impuesto', total: 'Total',
+    partida: 'Partida', tipo: 'Tipo', monto: 'Monto', totales: 'Totales', totalVentaNeta: 'Total Venta Neta',
+    totalImpuesto: 'Total Impuesto', totalOtrosCargos: 'Total Otros Cargos', totalComprobante: 'Total Comprobante',
+    tipoCambio: 'Tipo de cambio'
+  },
+  en: {
+    clave: 'Key', consecutivo: 'Number', fechaEmision: 'Issue date', emisor: 'Seller', receptor: 'Buyer',
+    identificacion: 'Tax ID', nombreComercial: 'Trade name', direccionExtranjero: 'Address',
+    referencia: 'Reference document', fecha: 'Date', codigo: 'Code', razon: 'Reason',
+    detalle: 'Description', cantidad: 'Qty', precioUnitario: 'Unit price', impuesto: 'Tax', total: 'Total',
+    partida: 'HS code', tipo: 'Type', monto: 'Amount', totales: 'Totals', totalVentaNeta: 'Net sale',
+    totalImpuesto: 'Total tax', totalOtrosCargos: 'Other charges', totalComprobante: 'Invoice total',
+    tipoCambio: 'Exchange rate'
+  }
+};
+
+/**
+ * Títulos en inglés de los comprobantes
+ */
+const DOCUMENT_TITLES_EN: Record<string, string> = {
+  '01': 'Electronic Invoice',
+  '02': 'Electronic Debit Note',
+  '03': 'Electronic Credit Note',
+  '04': 'Electronic Ticket',
+  '08': 'Electronic Purchase Invoice',
+  '09': 'Electronic Export Invoice',
+  '10': 'Electronic Payment Receipt'
+};
+
+/**
+ * Descripción en inglés de los otros cargos más comunes en exportación
+ */
+const CARGOS_EN: Record<string, string> = {
+  '04': 'Third-party charge',
+  '05': 'Export costs',
+  '99': 'Other charges'
+};
+
 // Helper functions
-const formatCurrency = (amount: number, currency: string = 'CRC', showSymbol: boolean = false): string => {
+const formatCurrency = (amount: number, currency: string = 'CRC', showSymbol: boolean = false, locale: string = 'es-CR'): string => {
   // Determinar el símbolo de la moneda
   let symbol = '';
   if (showSymbol) {
@@ -24,7 +80,7 @@ const formatCurrency = (amount: number, currency: string = 'CRC', showSymbol: bo
   }
   
   // Formatear el número con el formato de Costa Rica
-  const formattedNumber = new Intl.NumberFormat('es-CR', { 
+  const formattedNumber = new Intl.NumberFormat(locale, { 
     minimumFractionDigits: 2, 
     maximumFractionDigits: 2 
   }).format(amount);
@@ -59,6 +115,19 @@ const getMedioPagoText = (codigo: string): string => {
   return mediosPago[codigo] || codigo;
 };
 
+const getDocumentoTitulo = (numeroConsecutivo: string, idioma: PdfIdioma = 'es'): string => {
+  if (idioma === 'en') {
+    return DOCUMENT_TITLES_EN[getTipoDocumento(numeroConsecutivo)] || DOCUMENT_TITLES_EN['01'];
+  }
+  const tipo = tiposDocumentoElectronico.find(t => t.codigo === getTipoDocumento(numeroConsecutivo));
+  return tipo ? tipo.descripcion : 'Factura Electrónica';
+};
+
+const getDocumentoFilePrefix = (numeroConsecutivo: string): string => {
+  const prefijos: Record<string, string> = { '02': 'nota_debito', '03': 'nota_credito', '04': 'tiquete', '08': 'factura_compra', '09': 'factura_exportacion', '10': 'recibo_pago' };
+  return prefijos[getTipoDocumento(numeroConsecutivo)] || 'factura';
+};
+
 /**
  * Función para obtener el nombre completo de una institución a partir de su código
  */
@@ -114,61 +183,92 @@ const getTipoDocumentoExoneracionTexto = (tipoDocumento: string): string => {
 /**
  * Generate a PDF invoice document with enhanced visual appeal.
  * @param invoice Invoice data
+ * @param idioma Idioma de los textos del PDF (inglés para facturas de exportación)
  * @returns jsPDF document instance
  */
-export const generatePDF = (invoice: Invoice): jsPDF => {
+export const generatePDF = (invoice: Invoice, idioma: PdfIdioma = 'es'): jsPDF => {
   try {
-    // Determinar si es un tiquete electrónico basado en el número consecutivo
-    const isTiquete = invoice.numeroConsecutivo.startsWith('04');
-    console.log(`Generando PDF para ${isTiquete ? 'tiquete' : 'factura'} con consecutivo: ${invoice.numeroConsecutivo}`);
+    const t = PDF_LABELS[idioma];
+    const locale = idioma === 'en' ? 'en-US' : 'es-CR';
+    const moneda = invoice.resumenFactura.codigoMoneda;
+    const esExportacion = getTipoDocumento(invoice.numeroConsecutivo) === '09';
+    // Determinar el tipo de documento basado en el número consecutivo
+    const titulo = getDocumentoTitulo(invoice.numeroConsecutivo, idioma);
+    console.log(`Generando PDF para ${titulo} con consecutivo: ${invoice.numeroConsecutivo}`);
     
     const doc = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4', compress: true });
 
     // Encabezado simple con datos básicos
     doc.setFontSize(12);
-    doc.text(isTiquete ? 'Tiquete Electrónico' : 'Factura Electrónica', 105, 10, { align: 'center' });
+    doc.text(titulo, 105, 10, { align: 'center' });
     doc.setFontSize(9);
-    doc.text(`Clave: ${invoice.clave}`, 10, 15);
-    doc.text(`Consecutivo: ${invoice.numeroConsecutivo}`, 10, 20);
-    doc.text(`Fecha emisión: ${format(new Date(invoice.fechaEmision), 'yyyy-MM-dd HH:mm')}`, 10, 25);
+    doc.text(`${t.clave}: ${invoice.clave}`, 10, 15);
+    doc.text(`${t.consecutivo}: ${invoice.numeroConsecutivo}`, 10, 20);
+    doc.text(`${t.fechaEmision}: ${format(new Date(invoice.fechaEmision), 'yyyy-MM-dd HH:mm')}`, 10, 25);
 
     // Datos del emisor
     let posY = 32;
     doc.setFontSize(10);
-    doc.text('Emisor:', 10, posY);
+    doc.text(`${t.emisor}:`, 10, posY);
     posY += 5;
     doc.setFontSize(9);
     doc.text(`${invoice.emisor.nombre}`, 10, posY);
     posY += 4;
-    doc.text(`Identificación: ${invoice.emisor.identificacion.tipo}-${invoice.emisor.identificacion.numero}`, 10, posY);
+    doc.text(`${t.identificacion}: ${invoice.emisor.identificacion.tipo}-${invoice.emisor.identificacion.numero}`, 10, posY);
     if (invoice.emisor.nombreComercial) {
       posY += 4;
-      doc.text(`Nombre Comercial: ${invoice.emisor.nombreComercial}`, 10, posY);
+      doc.text(`${t.nombreComercial}: ${invoice.emisor.nombreComercial}`, 10, posY);
     }
 
     // Datos del receptor
     posY += 8;
     doc.setFontSize(10);
-    doc.text('Receptor:', 10, posY);
+    doc.text(`${t.receptor}:`, 10, posY);
     posY += 5;
     doc.setFontSize(9);
     doc.text(`${invoice.receptor.nombre}`, 10, posY);
     posY += 4;
-    doc.text(`Identificación: ${invoice.receptor.identificacion.tipo}-${invoice.receptor.identificacion.numero}`, 10, posY);
+    if (invoice.receptor.identificacion?.numero || !invoice.receptor.identificacionExtranjero) {
+      doc.text(`${t.identificacion}: ${invoice.receptor.identificacion.tipo}-${invoice.receptor.identificacion.numero}`, 10, posY);
+    } else {
+      doc.text(`${t.identificacion}: ${invoice.receptor.identificacionExtranjero}`, 10, posY);
+    }
+    if (invoice.receptor.otrasSenasExtranjero) {
+      posY += 4;
+      doc.text(`${t.direccionExtranjero}: ${invoice.receptor.otrasSenasExtranjero}`, 10, posY);
+    }
+
+    // Información de referencia (notas de crédito/débito)
+    if (invoice.informacionReferencia && invoice.informacionReferencia.length > 0) {
+      posY += 8;
+      doc.setFontSize(10);
+      doc.text(`${t.referencia}:`, 10, posY);
+      doc.setFontSize(9);
+      invoice.informacionReferencia.forEach(ref => {
+        const codigo = codigosReferencia.find(c => c.codigo === ref.codigo);
+        posY += 5;
+        doc.text(`${t.clave}: ${ref.numero}`, 10, posY);
+        posY += 4;
+        doc.text(`${t.fecha}: ${format(new Date(ref.fechaEmision), 'yyyy-MM-dd HH:mm')} | ${t.codigo}: ${ref.codigo} ${codigo ? `- ${codigo.descripcion}` : ''}`, 10, posY);
+        posY += 4;
+        doc.text(`${t.razon}: ${ref.razon}`, 10, posY);
+      });
+    }
 
-    // Tabla de productos/servicios
+    // Tabla de productos/servicios; la exportación muestra además la partida arancelaria
     const tableData = invoice.detalleServicio.map(item => [
       item.id.toString(),
+      ...(esExportacion ? [item.partidaArancelaria || ''] : []),
       item.detalle,
       item.cantidad.toString(),
-      formatCurrency(item.precioUnitario, invoice.resumenFactura.codigoMoneda),
-      formatCurrency(item.impuestoNeto, invoice.resumenFactura.codigoMoneda),
-      formatCurrency(item.montoTotalLinea, invoice.resumenFactura.codigoMoneda)
+      formatCurrency(item.precioUnitario, moneda, false, locale),
+      formatCurrency(item.impuestoNeto, moneda, false, locale),
+      formatCurrency(item.montoTotalLinea, moneda, false, locale)
     ]);
 
     (doc as any).autoTable({
       startY: posY + 8,
-      head: [['#', 'Detalle', 'Cant', 'P.Unit', 'Impuesto', 'Total']],
+      head: [['#', ...(esExportacion ? [t.partida] : []), t.detalle, t.cantidad, t.precioUnitario, t.impuesto, t.total]],
       body: tableData,
       theme: 'grid',
       styles: { fontSize: 8 }
@@ -176,17 +276,47 @@ export const generatePDF = (invoice: Invoice): jsPDF => {
 
     let finalY = (doc as any).lastAutoTable.finalY || posY + 8;
 
+    // Otros cargos (intereses, multas, etc.)
+    if (invoice.otrosCargos && invoice.otrosCargos.length > 0) {
+      const autoTableDoc = doc as unknown as { autoTable: (options: object) => void; lastAutoTable: { finalY: number } };
+      autoTableDoc.autoTable({
+        startY: finalY + 5,
+        head: [[t.tipo, t.detalle, t.monto]],
+        body: invoice.otrosCargos.map(cargo => {
+          const descripcion = idioma === 'en'
+            ? CARGOS_EN[cargo.tipoCargo]
+            : tiposCargos.find(tipo => tipo.codigo === cargo.tipoCargo)?.descripcion;
+          return [
+            descripcion ? `${cargo.tipoCargo} - ${descripcion}` : cargo.tipoCargo,
+            cargo.descripcionCargo || '',
+            formatCurrency(cargo.montoCargo, moneda, false, locale)
+          ];
+        }),
+        theme: 'grid',
+        styles: { fontSize: 8 }
+      });
+      finalY = autoTableDoc.lastAutoTable.finalY;
+    }
+
     // Totales
     finalY += 5;
     doc.setFontSize(10);
-    doc.text('Totales', 150, finalY);
+    doc.text(t.totales, 150, finalY);
     finalY += 4;
     doc.setFontSize(9);
-    doc.text(`Total Venta Neta: ${formatCurrency(invoice.resumenFactura.totalVentaNeta, invoice.resumenFactura.codigoMoneda)}`, 120, finalY);
+    doc.text(`${t.totalVentaNeta}: ${formatCurrency(invoice.resumenFactura.totalVentaNeta, moneda, false, locale)}`, 120, finalY);
     finalY += 4;
-    doc.text(`Total Impuesto: ${formatCurrency(invoice.resumenFactura.totalImpuesto, invoice.resumenFactura.codigoMoneda)}`, 120, finalY);
+    doc.text(`${t.totalImpuesto}: ${formatCurrency(invoice.resumenFactura.totalImpuesto, moneda, false, locale)}`, 120, finalY);
+    if (invoice.resumenFactura.totalOtrosCargos) {
+      finalY += 4;
+      doc.text(`${t.totalOtrosCargos}: ${formatCurrency(invoice.resumenFactura.totalOtrosCargos, moneda, false, locale)}`, 120, finalY);
+    }
     finalY += 4;
-    doc.text(`Total Comprobante: ${formatCurrency(invoice.resumenFactura.totalComprobante, invoice.resumenFactura.codigoMoneda)}`, 120, finalY);
+    doc.text(`${t.totalComprobante}: ${formatCurrency(invoice.resumenFactura.totalComprobante, moneda, false, locale)}`, 120, finalY);
+    if (esExportacion && invoice.resumenFactura.tipoCambio) {
+      finalY += 4;
+      doc.text(`${t.tipoCambio}: ${formatCurrency(invoice.resumenFactura.tipoCambio, 'CRC', true, locale)}`, 120, finalY);
+    }
 
     return doc;
   } catch (error) {
@@ -195,6 +325,317 @@ export const generatePDF = (invoice: Invoice): jsPDF => {
   }
 };
 
+/**
+ * Textos de los tipos de movimiento del estado de cuenta
+ */
+const MOVIMIENTOS_ESTADO_CUENTA: Record<string, string> = {
+  factura: 'Factura',
+  nota_debito: 'Nota de débito',
+  nota_credito: 'Nota de crédito',
+  pago: 'Pago'
+};
+
+/**
+ * Genera el estado de cuenta de un cliente: movimientos con saldo acumulado y antigüedad del saldo
+ * @param estado Estado de cuenta calculado con buildEstadoCuenta
+ * @param empresa Datos de la empresa emisora
+ * @returns Documento PDF
+ */
+export const generateEstadoCuentaPDF = (estado: EstadoCuenta, empresa: Party): jsPDF => {
+  try {
+    const moneda = estado.moneda;
+    const doc = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4', compress: true });
+
+    // Encabezado
+    doc.setFontSize(12);
+    doc.text('Estado de Cuenta', 105, 10, { align: 'center' });
+    doc.setFontSize(9);
+    doc.text(`${empresa.nombre}`, 10, 18);
+    doc.text(`Identificación: ${empresa.identificacion.tipo}-${empresa.identificacion.numero}`, 10, 22);
+    if (empresa.correo) {
+      doc.text(`Correo: ${empresa.correo}`, 10, 26);
+    }
+    doc.text(`Fecha de corte: ${format(estado.fechaCorte, 'yyyy-MM-dd')}`, 200, 18, { align: 'right' });
+    doc.text(`Moneda: ${getCurrencyName(moneda)}`, 200, 22, { align: 'right' });
+
+    // Datos del cliente
+    let posY = 34;
+    doc.setFontSize(10);
+    doc.text('Cliente:', 10, posY);
+    posY += 5;
+    doc.setFontSize(9);
+    doc.text(`${estado.cliente}`, 10, posY);
+    posY += 4;
+    doc.text(`Identificación: ${estado.clienteId}`, 10, posY);
+    if (estado.correo) {
+      posY += 4;
+      doc.text(`Correo: ${estado.correo}`, 10, posY);
+    }
+
+    // Movimientos con saldo acumulado
+    const autoTableDoc = doc as unknown as { autoTable: (options: object) => void; lastAutoTable: { finalY: number } };
+    autoTableDoc.autoTable({
+      startY: posY + 6,
+      head: [['Fecha', 'Tipo', 'Documento', 'Descripción', 'Cargo', 'Abono', 'Saldo']],
+      body: estado.movimientos.map(mov => [
+        format(new Date(mov.fecha), 'yyyy-MM-dd'),
+        MOVIMIENTOS_ESTADO_CUENTA[mov.tipo],
+        mov.documento,
+        mov.descripcion,
+        mov.cargo ? formatCurrency(mov.cargo, moneda) : '',
+        mov.abono ? formatCurrency(mov.abono, moneda) : '',
+        formatCurrency(mov.saldo, moneda)
+      ]),
+      theme: 'grid',
+      styles: { fontSize: 7 },
+      columnStyles: { 4: { halign: 'right' }, 5: { halign: 'right' }, 6: { halign: 'right' } }
+    });
+
+    let finalY = autoTableDoc.lastAutoTable.finalY;
+
+    // Totales
+    finalY += 5;
+    doc.setFontSize(9);
+    doc.text(`Total cargos: ${formatCurrency(estado.totalCargos, moneda, true)}`, 120, finalY);
+    finalY += 4;
+    doc.text(`Total abonos: ${formatCurrency(estado.totalAbonos, moneda, true)}`, 120, finalY);
+    finalY += 4;
+    doc.setFontSize(10);
+    doc.text(`Saldo: ${formatCurrency(estado.saldo, moneda, true)}`, 120, finalY);
+
+    // Antigüedad del saldo
+    autoTableDoc.autoTable({
+      startY: finalY + 6,
+      head: [TRAMOS_ANTIGUEDAD.map(({ descripcion }) => descripcion)],
+      body: [TRAMOS_ANTIGUEDAD.map(({ tramo }) => formatCurrency(estado.tramos[tramo], moneda))],
+      theme: 'grid',
+      styles: { fontSize: 8, halign: 'right' }
+    });
+
+    return doc;
+  } catch (error) {
+    console.error('Error al generar el estado de cuenta:', error);
+    throw new Error(`Error al generar el estado de cuenta: ${error instanceof Error ? error.message : 'Error desconocido'}`);
+  }
+};
+
+/**
+ * Genera el reporte de cierre de caja (Z): arqueo por medio de pago, movimientos de efectivo
+ * y todos los documentos emitidos en la sesión
+ * @param cierre Cierre calculado con buildCierreCaja
+ * @param empresa Datos de la empresa emisora
+ * @returns Documento PDF
+ */
+export const generateCierreCajaPDF = (cierre: CierreCaja, empresa: Party): jsPDF => {
+  try {
+    const { sesion } = cierre;
+    const doc = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4', compress: true });
+    const autoTableDoc = doc as unknown as { autoTable: (options: object) => void; lastAutoTable: { finalY: number } };
+
+    // Encabezado
+    doc.setFontSize(12);
+    doc.text('Cierre de Caja (Reporte Z)', 105, 10, { align: 'center' });
+    doc.setFontSize(9);
+    doc.text(`${empresa.nombre}`, 10, 18);
+    doc.text(`Identificación: ${empresa.identificacion.tipo}-${empresa.identificacion.numero}`, 10, 22);
+    doc.text(`Terminal: ${sesion.terminal}`, 10, 26);
+    doc.text(`Cajero: ${sesion.usuario}`, 10, 30);
+    doc.text(`Apertura: ${format(new Date(sesion.fechaApertura), 'yyyy-MM-dd HH:mm')}`, 200, 18, { align: 'right' });
+    doc.text(`Cierre: ${format(new Date(cierre.fechaCierre), 'yyyy-MM-dd HH:mm')}`, 200, 22, { align: 'right' });
+    doc.text(`Fondo inicial: ${formatCurrency(sesion.fondoInicial, sesion.moneda, true)}`, 200, 26, { align: 'right' });
+
+    // Arqueo por moneda y medio de pago
+    autoTableDoc.autoTable({
+      startY: 36,
+      head: [['Moneda', 'Medio de pago', 'Esperado', 'Contado', 'Diferencia']],
+      body: cierre.arqueo.map(linea => [
+        linea.moneda,
+        linea.descripcion,
+        formatCurrency(linea.esperado, linea.moneda),
+        formatCurrency(linea.contado, linea.moneda),
+        formatCurrency(linea.diferencia, linea.moneda)
+      ]),
+      theme: 'grid',
+      styles: { fontSize: 8 },
+      columnStyles: { 2: { halign: 'right' }, 3: { halign: 'right' }, 4: { halign: 'right' } }
+    });
+
+    let finalY = autoTableDoc.lastAutoTable.finalY + 5;
+    doc.setFontSize(10);
+    doc.text(
+      `${cierre.diferenciaTotal < 0 ? 'Faltante' : 'Sobrante'}: ${formatCurrency(Math.abs(cierre.diferenciaTotal), sesion.moneda, true)}`,
+      10,
+      finalY
+    );
+
+    // Totales por tipo de documento
+    if (cierre.totalesPorTipo.length > 0) {
+      autoTableDoc.autoTable({
+        startY: finalY + 4,
+        head: [['Tipo de documento', 'Moneda', 'Cantidad', 'Total']],
+        body: cierre.totalesPorTipo.map(total => [
+          total.descripcion,
+          total.moneda,
+          total.cantidad,
+          formatCurrency(total.total, total.moneda)
+        ]),
+        theme: 'grid',
+        styles: { fontSize: 8 },
+        columnStyles: { 2: { halign: 'right' }, 3: { halign: 'right' } }
+      });
+      finalY = autoTableDoc.lastAutoTable.finalY;
+    }
+
+    // Entradas y salidas de efectivo
+    if (cierre.movimientos.length > 0) {
+      autoTableDoc.autoTable({
+        startY: finalY + 6,
+        head: [['Hora', 'Tipo', 'Motivo', 'Usuario', 'Monto']],
+        body: cierre.movimientos.map(mov => [
+          format(new Date(mov.fecha), 'HH:mm'),
+          mov.tipo === 'entrada' ? 'Entrada' : 'Salida',
+          mov.motivo,
+          mov.usuario || '',
+          formatCurrency(mov.tipo === 'entrada' ? mov.monto : -mov.monto, sesion.moneda)
+        ]),
+        theme: 'grid',
+        styles: { fontSize: 7 },
+        columnStyles: { 4: { halign: 'right' } }
+      });
+      finalY = autoTableDoc.lastAutoTable.finalY;
+    }
+
+    // Documentos emitidos en la sesión
+    autoTableDoc.autoTable({
+      startY: finalY + 6,
+      head: [['Hora', 'Tipo', 'Consecutivo', 'Cliente', 'Condición', 'Estado', 'Total']],
+      body: cierre.documentos.map(documento => [
+        format(new Date(documento.fecha), 'HH:mm'),
+        tiposDocumentoElectronico.find(tipo => tipo.codigo === documento.tipoDocumento)?.descripcion || documento.tipoDocumento,
+        documento.consecutivo,
+        documento.cliente,
+        documento.condicionVenta === '01' ? 'Contado' : documento.condicionVenta,
+        documento.estado,
+        formatCurrency(documento.total, documento.moneda)
+      ]),
+      theme: 'grid',
+      styles: { fontSize: 7 },
+      columnStyles: { 6: { halign: 'right' } }
+    });
+    finalY = autoTableDoc.lastAutoTable.finalY;
+
+    if (cierre.notas) {
+      doc.setFontSize(8);
+      doc.text(`Observaciones: ${cierre.notas}`, 10, finalY + 6, { maxWidth: 190 });
+    }
+
+    return doc;
+  } catch (error) {
+    console.error('Error al generar el cierre de caja:', error);
+    throw new Error(`Error al generar el cierre de caja: ${error instanceof Error ? error.message : 'Error desconocido'}`);
+  }
+};
+
+/**
+ * Descarga el reporte de cierre de caja
+ * @param pdfDoc Documento PDF generado con generateCierreCajaPDF
+ * @param cierre Cierre de caja
+ * @returns Blob del PDF generado
+ */
+export const downloadCierreCajaPDF = (pdfDoc: jsPDF, cierre: CierreCaja): Blob => {
+  try {
+    const pdfBlob = pdfDoc.output('blob');
+    saveAs(pdfBlob, `cierre_caja_${cierre.sesion.terminal}_${format(new Date(cierre.fechaCierre), 'yyyyMMdd_HHmm')}.pdf`);
+    return pdfBlob;
+  } catch (error) {
+    console.error('Error al descargar el cierre de caja:', error);
+    throw new Error(`Error al descargar el cierre de caja: ${error instanceof Error ? error.message : 'Error desconocido'}`);
+  }
+};
+
+/**
+ * Genera el recibo en PDF angosto (80 mm o 58 mm) para impresoras térmicas sin ESC/POS.
+ * Usa Courier con el mismo número de columnas que la impresora para que ambas salidas coincidan
+ * @param lineas Contenido del recibo armado con construirRecibo
+ * @param opciones Ancho del papel y logo
+ * @returns Documento PDF con el alto justo del recibo
+ */
+export const generateReciboTermicoPDF = (lineas: LineaRecibo[], opciones: OpcionesRecibo): jsPDF => {
+  try {
+    const anchoPapel = Number(opciones.anchoPapel);
+    const margen = anchoPapel === 80 ? 4 : 3;
+    const anchoUtil = anchoPapel - margen * 2;
+    const columnas = COLUMNAS_PAPEL[opciones.anchoPapel];
+    // Courier mide 0,6 em de ancho por carácter; 1 pt = 0,3528 mm
+    const fontSize = anchoUtil / columnas / (0.6 * 0.3528);
+    const altoLinea = fontSize * 0.3528 * 1.25;
+    const anchoLogo = anchoUtil * 0.6;
+
+    const getRenglones = (linea: LineaRecibo): string[] => {
+      switch (linea.tipo) {
+        case 'texto':
+          return ajustarTexto(linea.texto, linea.grande ? Math.floor(columnas / 2) : columnas);
+        case 'columnas':
+          return alinearColumnas(linea.izquierda, linea.derecha, columnas);
+        case 'separador':
+          return ['-'.repeat(columnas)];
+        default:
+          return [];
+      }
+    };
+    const getAlto = (linea: LineaRecibo): number => {
+      if (linea.tipo === 'qr') return anchoUtil * ANCHO_QR + altoLinea;
+      if (linea.tipo === 'logo') return opciones.logo ? anchoLogo * (opciones.logo.alto / opciones.logo.ancho) + altoLinea : 0;
+      return getRenglones(linea).length * altoLinea * (linea.tipo === 'texto' && linea.grande ? 2 : 1);
+    };
+
+    const alto = margen * 2 + lineas.reduce((sum, linea) => sum + getAlto(linea), 0);
+    const doc = new jsPDF({ orientation: 'portrait', unit: 'mm', format: [anchoPapel, Math.max(alto, anchoPapel)], compress: true });
+    doc.setFont('courier', 'normal');
+
+    let posY = margen;
+    lineas.forEach(linea => {
+      if (linea.tipo === 'qr') {
+        // Mismos módulos que la salida ESC/POS, sin la zona de silencio que ya da el papel
+        const matriz = generarCodigoQR(linea.contenido);
+        const modulo = (anchoUtil * ANCHO_QR) / matriz.length;
+        const inicioX = (anchoPapel - modulo * matriz.length) / 2;
+        doc.setFillColor(0, 0, 0);
+        matriz.forEach((fila, y) => fila.forEach((oscuro, x) => {
+          if (oscuro) doc.rect(inicioX + x * modulo, posY + y * modulo, modulo, modulo, 'F');
+        }));
+      } else if (linea.tipo === 'logo' && opciones.logo) {
+        const altoLogo = anchoLogo * (opciones.logo.alto / opciones.logo.ancho);
+        const formato = opciones.logo.dataUrl.startsWith('data:image/png') ? 'PNG' : 'JPEG';
+        doc.addImage(opciones.logo.dataUrl, formato, (anchoPapel - anchoLogo) / 2, posY, anchoLogo, altoLogo);
+      } else {
+        const negrita = (linea.tipo === 'texto' || linea.tipo === 'columnas') && linea.negrita;
+        const grande = linea.tipo === 'texto' && linea.grande;
+        const alineacion = linea.tipo === 'texto' ? linea.alineacion : undefined;
+        doc.setFont('courier', negrita ? 'bold' : 'normal');
+        doc.setFontSize(grande ? fontSize * 2 : fontSize);
+        getRenglones(linea).forEach(renglon => {
+          posY += altoLinea * (grande ? 2 : 1);
+          if (alineacion === 'centro') {
+            doc.text(renglon, anchoPapel / 2, posY - altoLinea * 0.25, { align: 'center' });
+          } else if (alineacion === 'derecha') {
+            doc.text(renglon, anchoPapel - margen, posY - altoLinea * 0.25, { align: 'right' });
+          } else {
+            doc.text(renglon, margen, posY - altoLinea * 0.25);
+          }
+        });
+        return;
+      }
+      posY += getAlto(linea);
+    });
+
+    return doc;
+  } catch (error) {
+    console.error('Error al generar el recibo térmico:', error);
+    throw new Error(`Error al generar el recibo térmico: ${error instanceof Error ? error.message : 'Error desconocido'}`);
+  }
+};
+
 /**
  * Convierte un documento PDF en un Blob sin descargarlo.
  * @param pdfDoc Documento PDF generado
@@ -221,9 +662,8 @@ export const generatePdfBlob = (pdfDoc: jsPDF): Blob => {
  */
 export const downloadPDF = (pdfDoc: jsPDF, consecutivo: string): Blob => {
   try {
-    // Determinar si es un tiquete electrónico basado en el número consecutivo
-    const isTiquete = consecutivo.startsWith('04');
-    const filePrefix = isTiquete ? 'tiquete' : 'factura';
+    // Determinar el prefijo del archivo según el tipo de documento
+    const filePrefix = getDocumentoFilePrefix(consecutivo);
     
     // Generar el blob del PDF
     const pdfBlob = pdfDoc.output('blob');
@@ -238,3 +678,20 @@ export const downloadPDF = (pdfDoc: jsPDF, consecutivo: string): Blob => {
     throw new Error(`Error al descargar PDF: ${error instanceof Error ? error.message : 'Error desconocido'}`);
   }
 };
+
+/**
+ * Descarga el estado de cuenta de un cliente como archivo
+ * @param pdfDoc Documento PDF generado con generateEstadoCuentaPDF
+ * @param estado Estado de cuenta del cliente
+ * @returns Blob del PDF generado
+ */
+export const downloadEstadoCuentaPDF = (pdfDoc: jsPDF, estado: EstadoCuenta): Blob => {
+  try {
+    const pdfBlob = pdfDoc.output('blob');
+    saveAs(pdfBlob, `estado_cuenta_${estado.clienteId}_${estado.moneda}_${format(estado.fechaCorte, 'yyyyMMdd')}.pdf`);
+    return pdfBlob;
+  } catch (error) {
+    console.error('Error al descargar el estado de cuenta:', error);
+    throw new Error(`Error al descargar el estado de cuenta: ${error instanceof Error ? error.message : 'Error desconocido'}`);
+  }
+};
@@ -0,0 +1,202 @@
+/**
+ * purchaseInvoiceService.ts
+ * Servicio para construir Facturas Electrónicas de Compra (tipo 08) por compras a
+ * proveedores no inscritos en facturación electrónica. En este comprobante el proveedor
+ * es el emisor y la empresa es el receptor, aunque es la empresa quien lo firma y envía.
+ */
+
+import { Invoice, LineItem, Party } from '../types/invoice';
+import { ContribuyenteResponse, mapearTipoIdentificacion } from './haciendaService';
+import { RecepcionResult } from './invoiceService';
+import { getCodigoTarifaIVA } from './creditNoteService';
+import { SupplierDocument } from './supabaseSupplierDocumentService';
+
+/**
+ * Línea de una factura de compra
+ */
+export interface PurchaseInvoiceLine {
+  codigoCabys: string;
+  detalle: string;
+  cantidad: number;
+  unidadMedida: string;
+  precioUnitario: number;
+  tarifa: number; // Porcentaje de IVA
+  esServicio: boolean; // Servicio (proveedor informal) o mercancía (productor)
+}
+
+/**
+ * Datos necesarios para construir una factura de compra
+ */
+export interface PurchaseInvoiceOptions {
+  proveedor: Party;
+  empresa: Party;
+  lineas: PurchaseInvoiceLine[];
+  moneda: string;
+  tipoCambio: number;
+  condicionVenta: string;
+  plazoCredito?: number;
+  medioPago: string;
+  sequence: { clave: string; numeroConsecutivo: string };
+}
+
+/**
+ * Completa los datos del proveedor con la información del contribuyente en Hacienda
+ * @param proveedor Datos capturados del proveedor
+ * @param contribuyente Respuesta de buscarContribuyente (null si no está registrado)
+ * @returns Proveedor con nombre, tipo de identificación y actividad económica actualizados
+ */
+export const applyContribuyenteToProveedor = (
+  proveedor: Party,
+  contribuyente: ContribuyenteResponse | null
+): Party => {
+  if (!contribuyente) return proveedor;
+
+  const actividad = contribuyente.actividades?.find(a => a.estado === 'A') || contribuyente.actividades?.[0];
+  return {
+    ...proveedor,
+    nombre: contribuyente.nombre || proveedor.nombre,
+    identificacion: {
+      ...proveedor.identificacion,
+      tipo: mapearTipoIdentificacion(contribuyente.tipoIdentificacion)
+    },
+    actividadEconomica: actividad?.codigo || proveedor.actividadEconomica
+  };
+};
+
+/**
+ * Construye la Factura Electrónica de Compra con el proveedor como emisor y
+ * la empresa como receptor
+ * @param options Datos de la factura de compra
+ * @returns Comprobante listo para generar XML y PDF
+ */
+export const buildPurchaseInvoice = (options: PurchaseInvoiceOptions): Invoice => {
+  const { proveedor, empresa, moneda, tipoCambio, sequence } = options;
+
+  if (!proveedor.nombre.trim() || !proveedor.identificacion.numero) {
+    throw new Error('Debe indicar el nombre y la identificación del proveedor');
+  }
+  if (!proveedor.actividadEconomica) {
+    throw new Error('Debe indicar el código de actividad económica del proveedor');
+  }
+  if (!proveedor.ubicacion?.provincia || !proveedor.ubicacion.canton || !proveedor.ubicacion.distrito) {
+    throw new Error('Debe indicar la provincia, el cantón y el distrito del proveedor');
+  }
+  if (!empresa.identificacion.numero) {
+    throw new Error('Configure la identificación de la empresa antes de emitir facturas de compra');
+  }
+  if (proveedor.identificacion.numero === empresa.identificacion.numero) {
+    throw new Error('El proveedor no puede ser la misma empresa');
+  }
+  if (!tipoCambio || tipoCambio <= 0 || (moneda === 'CRC' && tipoCambio !== 1)) {
+    throw new Error(`El tipo de cambio para ${moneda} no es válido`);
+  }
+  if (options.condicionVenta === '02' && !options.plazoCredito) {
+    throw new Error('Debe indicar el plazo de crédito');
+  }
+
+  const lineasValidas = options.lineas.filter(l => l.detalle.trim() && l.cantidad > 0);
+  if (lineasValidas.length === 0) {
+    throw new Error('Debe agregar al menos una línea con cantidad');
+  }
+
+  const detalleServicio: LineItem[] = lineasValidas.map((linea, i) => {
+    if (!/^\d{13}$/.test(linea.codigoCabys)) {
+      throw new Error(`La línea ${i + 1} requiere un código CABYS de 13 dígitos`);
+    }
+
+    const montoTotal = linea.cantidad * linea.precioUnitario;
+    const impuestoMonto = montoTotal * (linea.tarifa / 100);
+    return {
+      id: i + 1,
+      codigoCabys: linea.codigoCabys,
+      cantidad: linea.cantidad,
+      unidadMedida: linea.unidadMedida || 'Unid',
+      detalle: linea.detalle.trim(),
+      precioUnitario: linea.precioUnitario,
+      montoTotal,
+      subtotal: montoTotal,
+      baseImponible: montoTotal,
+      impuesto: {
+        codigo: '01',
+        codigoTarifa: getCodigoTarifaIVA(linea.tarifa),
+        tarifa: linea.tarifa,
+        monto: impuestoMonto,
+      },
+      impuestoNeto: impuestoMonto,
+      montoTotalLinea: montoTotal + impuestoMonto,
+    };
+  });
+
+  const sumar = (servicio: boolean, gravado: boolean) => detalleServicio
+    .filter((item, i) => lineasValidas[i].esServicio === servicio && (item.impuesto.tarifa > 0) === gravado)
+    .reduce((sum, item) => sum + item.subtotal, 0);
+  const totalServGravados = sumar(true, true);
+  const totalServExentos = sumar(true, false);
+  const totalMercGravada = sumar(false, true);
+  const totalMercExenta = sumar(false, false);
+  const totalGravado = totalServGravados + totalMercGravada;
+  const totalExento = totalServExentos + totalMercExenta;
+  const totalVenta = totalGravado + totalExento;
+  const totalImpuesto = detalleServicio.reduce((sum, item) => sum + item.impuestoNeto, 0);
+
+  return {
+    clave: sequence.clave,
+    numeroConsecutivo: sequence.numeroConsecutivo,
+    fechaEmision: new Date().toISOString(),
+    emisor: proveedor,
+    // La actividad de la empresa se informa como CodigoActividadReceptor
+    receptor: { ...empresa, economic_activity_code: empresa.actividadEconomica },
+    condicionVenta: options.condicionVenta,
+    plazoCredito: options.condicionVenta === '02' ? options.plazoCredito : undefined,
+    medioPago: [options.medioPago],
+    moneda,
+    tipoCambio,
+    detalleServicio,
+    resumenFactura: {
+      codigoMoneda: moneda,
+      tipoCambio: moneda !== 'CRC' ? tipoCambio : undefined,
+      totalServGravados,
+      totalServExentos,
+      totalMercGravada,
+      totalMercExenta,
+      totalGravado,
+      totalExento,
+      totalVenta,
+      totalDescuentos: 0,
+      totalVentaNeta: totalVenta,
+      totalImpuesto,
+      totalComprobante: totalVenta + totalImpuesto,
+    },
+  };
+};
+
+/**
+ * Convierte una factura de compra emitida en un registro del libro de compras
+ * @param purchaseInvoice Factura de compra generada
+ * @param xmlFirmado XML firmado de la factura
+ * @param envio Resultado del envío a Hacienda
+ */
+export const toPurchaseLedgerDocument = (
+  purchaseInvoice: Invoice,
+  xmlFirmado: string,
+  envio: RecepcionResult
+): SupplierDocument => ({
+  clave: purchaseInvoice.clave,
+  tipo_documento: '08',
+  numero_consecutivo: purchaseInvoice.numeroConsecutivo,
+  fecha_emision: purchaseInvoice.fechaEmision,
+  emisor_nombre: purchaseInvoice.emisor.nombre,
+  emisor_tipo_identificacion: purchaseInvoice.emisor.identificacion.tipo,
+  emisor_numero_identificacion: purchaseInvoice.emisor.identificacion.numero,
+  receptor_numero_identificacion: purchaseInvoice.receptor.identificacion.numero,
+  codigo_actividad: purchaseInvoice.emisor.actividadEconomica,
+  moneda: purchaseInvoice.resumenFactura.codigoMoneda,
+  tipo_cambio: purchaseInvoice.tipoCambio,
+  total_venta_neta: purchaseInvoice.resumenFactura.totalVentaNeta,
+  total_impuesto: purchaseInvoice.resumenFactura.totalImpuesto,
+  total_comprobante: purchaseInvoice.resumenFactura.totalComprobante,
+  xml_original: xmlFirmado,
+  estado_envio: envio.success ? 'enviado' : envio.encolado ? 'en_cola' : 'error',
+  ultimo_error: envio.success || envio.encolado ? undefined : envio.errorCause || envio.error,
+  origen: 'emitido'
+});
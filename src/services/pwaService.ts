@@ -0,0 +1,97 @@
+/**
+ * pwaService.ts
+ * Registro del service worker y aviso de nuevas versiones de la aplicación
+ */
+
+// Cada cuánto se busca una versión nueva mientras la aplicación está abierta
+const UPDATE_CHECK_MS = 30 * 60 * 1000;
+
+/**
+ * Servicio de la aplicación instalable (PWA)
+ */
+class PwaService {
+  private registration: ServiceWorkerRegistration | null = null;
+  private listeners = new Set<(disponible: boolean) => void>();
+  private actualizando = false;
+
+  private notify(): void {
+    const disponible = this.isUpdateAvailable();
+    this.listeners.forEach(listener => listener(disponible));
+  }
+
+  private watchInstalling(worker: ServiceWorker | null): void {
+    worker?.addEventListener('statechange', () => {
+      // Solo es una actualización si ya había una versión controlando la página
+      if (worker.state === 'installed' && navigator.serviceWorker.controller) {
+        this.notify();
+      }
+    });
+  }
+
+  /**
+   * Registra el service worker. Solo en el build de producción: en desarrollo interferiría con la recarga en caliente
+   */
+  register(): void {
+    if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+    window.addEventListener('load', async () => {
+      try {
+        const registration = await navigator.serviceWorker.register('/sw.js');
+        this.registration = registration;
+        if (registration.waiting && navigator.serviceWorker.controller) {
+          this.notify();
+        }
+        registration.addEventListener('updatefound', () => this.watchInstalling(registration.installing));
+
+        const buscarActualizacion = () => {
+          if (navigator.onLine) {
+            registration.update().catch(error => console.warn('No se pudo buscar una versión nueva:', error));
+          }
+        };
+        setInterval(buscarActualizacion, UPDATE_CHECK_MS);
+        window.addEventListener('online', buscarActualizacion);
+      } catch (error) {
+        console.error('Error al registrar el service worker:', error);
+      }
+    });
+
+    // Cuando la versión nueva toma el control, recargar para usarla
+    navigator.serviceWorker.addEventListener('controllerchange', () => {
+      if (this.actualizando) {
+        window.location.reload();
+      }
+    });
+  }
+
+  /**
+   * Indica si hay una versión nueva instalada esperando
+   */
+  isUpdateAvailable(): boolean {
+    return !!this.registration?.waiting;
+  }
+
+  /**
+   * Recibe el aviso cuando hay una versión nueva disponible
+   * @returns Función para dejar de escuchar
+   */
+  onUpdateAvailable(listener: (disponible: boolean) => void): () => void {
+    this.listeners.add(listener);
+    listener(this.isUpdateAvailable());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Activa la versión nueva y recarga la aplicación
+   */
+  applyUpdate(): void {
+    const waiting = this.registration?.waiting;
+    if (!waiting) return;
+    this.actualizando = true;
+    waiting.postMessage({ type: 'SKIP_WAITING' });
+  }
+}
+
+// Exportar la instancia del servicio
+export const pwaService = new PwaService();
@@ -0,0 +1,368 @@
+/**
+ * qrCodeService.ts
+ * Codificador de códigos QR (modo byte, corrección de errores M, versiones 1 a 10)
+ * para imprimir la clave del comprobante en tiquetes y recibos sin depender de la impresora
+ */
+
+/**
+ * Bloques de corrección de errores por versión para el nivel M:
+ * [codewords de corrección por bloque, bloques del grupo 1, datos por bloque del grupo 1, bloques del grupo 2, datos por bloque del grupo 2]
+ */
+const BLOQUES_NIVEL_M: Record<number, [number, number, number, number, number]> = {
+  1: [10, 1, 16, 0, 0],
+  2: [16, 1, 28, 0, 0],
+  3: [26, 1, 44, 0, 0],
+  4: [18, 2, 32, 0, 0],
+  5: [24, 2, 43, 0, 0],
+  6: [16, 4, 27, 0, 0],
+  7: [18, 4, 31, 0, 0],
+  8: [22, 2, 38, 2, 39],
+  9: [22, 3, 36, 2, 37],
+  10: [26, 4, 43, 1, 44],
+};
+
+// Centros de los patrones de alineación por versión
+const ALINEACION: Record<number, number[]> = {
+  1: [],
+  2: [6, 18],
+  3: [6, 22],
+  4: [6, 26],
+  5: [6, 30],
+  6: [6, 34],
+  7: [6, 22, 38],
+  8: [6, 24, 42],
+  9: [6, 26, 46],
+  10: [6, 28, 50],
+};
+
+const VERSION_MAXIMA = 10;
+
+// Condiciones de las 8 máscaras (x = columna, y = fila)
+const MASCARAS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+const getCapacidadDatos = (version: number): number => {
+  const [, bloques1, datos1, bloques2, datos2] = BLOQUES_NIVEL_M[version];
+  return bloques1 * datos1 + bloques2 * datos2;
+};
+
+// Multiplicación en GF(256) con el polinomio 0x11D
+const multiplicarGF = (a: number, b: number): number => {
+  let resultado = 0;
+  for (let i = 7; i >= 0; i--) {
+    resultado = (resultado << 1) ^ ((resultado >>> 7) * 0x11d);
+    resultado ^= ((b >>> i) & 1) * a;
+  }
+  return resultado & 0xff;
+};
+
+/**
+ * Calcula los codewords de corrección Reed-Solomon de un bloque de datos
+ */
+const calcularCorreccion = (datos: number[], grado: number): number[] => {
+  const divisor = new Array<number>(grado).fill(0);
+  divisor[grado - 1] = 1;
+  let raiz = 1;
+  for (let i = 0; i < grado; i++) {
+    for (let j = 0; j < grado; j++) {
+      divisor[j] = multiplicarGF(divisor[j], raiz);
+      if (j + 1 < grado) {
+        divisor[j] ^= divisor[j + 1];
+      }
+    }
+    raiz = multiplicarGF(raiz, 0x02);
+  }
+
+  const resto = new Array<number>(grado).fill(0);
+  datos.forEach(byte => {
+    const factor = byte ^ (resto.shift() as number);
+    resto.push(0);
+    divisor.forEach((coeficiente, i) => {
+      resto[i] ^= multiplicarGF(coeficiente, factor);
+    });
+  });
+  return resto;
+};
+
+/**
+ * Arma los codewords de datos: modo byte, longitud, contenido, terminador y relleno
+ */
+const codificarDatos = (bytes: Uint8Array, version: number): number[] => {
+  const bits: number[] = [];
+  const agregar = (valor: number, longitud: number) => {
+    for (let i = longitud - 1; i >= 0; i--) {
+      bits.push((valor >>> i) & 1);
+    }
+  };
+
+  const capacidadBits = getCapacidadDatos(version) * 8;
+  agregar(0b0100, 4);
+  agregar(bytes.length, version < 10 ? 8 : 16);
+  bytes.forEach(byte => agregar(byte, 8));
+  agregar(0, Math.min(4, capacidadBits - bits.length));
+  agregar(0, (8 - (bits.length % 8)) % 8);
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+  for (let relleno = 0xec; codewords.length < capacidadBits / 8; relleno ^= 0xec ^ 0x11) {
+    codewords.push(relleno);
+  }
+  return codewords;
+};
+
+/**
+ * Divide los datos en bloques, agrega la corrección y los intercala
+ */
+const intercalarBloques = (datos: number[], version: number): number[] => {
+  const [grado, bloques1, datos1, bloques2, datos2] = BLOQUES_NIVEL_M[version];
+  const bloques: { datos: number[]; correccion: number[] }[] = [];
+  let inicio = 0;
+  [...new Array(bloques1).fill(datos1), ...new Array(bloques2).fill(datos2)].forEach((longitud: number) => {
+    const bloque = datos.slice(inicio, inicio + longitud);
+    bloques.push({ datos: bloque, correccion: calcularCorreccion(bloque, grado) });
+    inicio += longitud;
+  });
+
+  const resultado: number[] = [];
+  for (let i = 0; i < Math.max(datos1, datos2); i++) {
+    bloques.forEach(bloque => {
+      if (i < bloque.datos.length) resultado.push(bloque.datos[i]);
+    });
+  }
+  for (let i = 0; i < grado; i++) {
+    bloques.forEach(bloque => resultado.push(bloque.correccion[i]));
+  }
+  return resultado;
+};
+
+/**
+ * Matriz del código en construcción: módulos oscuros y módulos reservados para patrones de función
+ */
+class MatrizQR {
+  readonly tamano: number;
+  readonly modulos: boolean[][];
+  readonly funcion: boolean[][];
+
+  constructor(readonly version: number) {
+    this.tamano = version * 4 + 17;
+    this.modulos = Array.from({ length: this.tamano }, () => new Array<boolean>(this.tamano).fill(false));
+    this.funcion = Array.from({ length: this.tamano }, () => new Array<boolean>(this.tamano).fill(false));
+  }
+
+  private setFuncion(x: number, y: number, oscuro: boolean) {
+    this.modulos[y][x] = oscuro;
+    this.funcion[y][x] = true;
+  }
+
+  dibujarPatrones() {
+    // Patrones de temporización
+    for (let i = 0; i < this.tamano; i++) {
+      this.setFuncion(6, i, i % 2 === 0);
+      this.setFuncion(i, 6, i % 2 === 0);
+    }
+
+    // Patrones de búsqueda con su separador
+    [[3, 3], [this.tamano - 4, 3], [3, this.tamano - 4]].forEach(([cx, cy]) => {
+      for (let dy = -4; dy <= 4; dy++) {
+        for (let dx = -4; dx <= 4; dx++) {
+          const x = cx + dx;
+          const y = cy + dy;
+          const distancia = Math.max(Math.abs(dx), Math.abs(dy));
+          if (x >= 0 && x < this.tamano && y >= 0 && y < this.tamano) {
+            this.setFuncion(x, y, distancia !== 2 && distancia !== 4);
+          }
+        }
+      }
+    });
+
+    // Patrones de alineación, salvo donde coinciden con los de búsqueda
+    const posiciones = ALINEACION[this.version];
+    const ultima = posiciones.length - 1;
+    posiciones.forEach((cy, i) => {
+      posiciones.forEach((cx, j) => {
+        if ((i === 0 && j === 0) || (i === 0 && j === ultima) || (i === ultima && j === 0)) return;
+        for (let dy = -2; dy <= 2; dy++) {
+          for (let dx = -2; dx <= 2; dx++) {
+            this.setFuncion(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+          }
+        }
+      });
+    });
+
+    // Reservar la información de formato y de versión
+    this.dibujarFormato(0);
+    if (this.version >= 7) {
+      let resto = this.version;
+      for (let i = 0; i < 12; i++) {
+        resto = (resto << 1) ^ ((resto >>> 11) * 0x1f25);
+      }
+      const bits = (this.version << 12) | resto;
+      for (let i = 0; i < 18; i++) {
+        const oscuro = ((bits >>> i) & 1) !== 0;
+        const a = this.tamano - 11 + (i % 3);
+        const b = Math.floor(i / 3);
+        this.setFuncion(a, b, oscuro);
+        this.setFuncion(b, a, oscuro);
+      }
+    }
+  }
+
+  /**
+   * Información de formato: nivel M (00) y máscara, con su BCH y la máscara 0x5412
+   */
+  dibujarFormato(mascara: number) {
+    const datos = mascara;
+    let resto = datos;
+    for (let i = 0; i < 10; i++) {
+      resto = (resto << 1) ^ ((resto >>> 9) * 0x537);
+    }
+    const bits = ((datos << 10) | resto) ^ 0x5412;
+    const bit = (i: number) => ((bits >>> i) & 1) !== 0;
+
+    for (let i = 0; i <= 5; i++) this.setFuncion(8, i, bit(i));
+    this.setFuncion(8, 7, bit(6));
+    this.setFuncion(8, 8, bit(7));
+    this.setFuncion(7, 8, bit(8));
+    for (let i = 9; i < 15; i++) this.setFuncion(14 - i, 8, bit(i));
+
+    for (let i = 0; i < 8; i++) this.setFuncion(this.tamano - 1 - i, 8, bit(i));
+    for (let i = 8; i < 15; i++) this.setFuncion(8, this.tamano - 15 + i, bit(i));
+    this.setFuncion(8, this.tamano - 8, true);
+  }
+
+  /**
+   * Coloca los codewords en zigzag desde la esquina inferior derecha
+   */
+  colocarDatos(codewords: number[]) {
+    let i = 0;
+    for (let derecha = this.tamano - 1; derecha >= 1; derecha -= 2) {
+      if (derecha === 6) derecha = 5;
+      for (let vertical = 0; vertical < this.tamano; vertical++) {
+        for (let j = 0; j < 2; j++) {
+          const x = derecha - j;
+          const haciaArriba = ((derecha + 1) & 2) === 0;
+          const y = haciaArriba ? this.tamano - 1 - vertical : vertical;
+          if (!this.funcion[y][x] && i < codewords.length * 8) {
+            this.modulos[y][x] = ((codewords[i >>> 3] >>> (7 - (i & 7))) & 1) !== 0;
+            i++;
+          }
+        }
+      }
+    }
+  }
+
+  aplicarMascara(mascara: number) {
+    for (let y = 0; y < this.tamano; y++) {
+      for (let x = 0; x < this.tamano; x++) {
+        if (!this.funcion[y][x] && MASCARAS[mascara](x, y)) {
+          this.modulos[y][x] = !this.modulos[y][x];
+        }
+      }
+    }
+  }
+
+  /**
+   * Penalización de la norma (reglas N1 a N4) para escoger la mejor máscara
+   */
+  calcularPenalizacion(): number {
+    let penalizacion = 0;
+    const lineas: boolean[][] = [
+      ...this.modulos,
+      ...this.modulos.map((_, x) => this.modulos.map(fila => fila[x])),
+    ];
+
+    lineas.forEach(linea => {
+      let corrida = 1;
+      for (let i = 1; i <= linea.length; i++) {
+        if (i < linea.length && linea[i] === linea[i - 1]) {
+          corrida++;
+        } else {
+          if (corrida >= 5) penalizacion += corrida - 2;
+          corrida = 1;
+        }
+      }
+
+      const patron = linea.map(oscuro => (oscuro ? '1' : '0')).join('');
+      for (let i = 0; i + 11 <= patron.length; i++) {
+        const segmento = patron.substring(i, i + 11);
+        if (segmento === '10111010000' || segmento === '00001011101') {
+          penalizacion += 40;
+        }
+      }
+    });
+
+    let oscuros = 0;
+    for (let y = 0; y < this.tamano; y++) {
+      for (let x = 0; x < this.tamano; x++) {
+        const color = this.modulos[y][x];
+        if (color) oscuros++;
+        if (
+          x < this.tamano - 1 && y < this.tamano - 1 &&
+          color === this.modulos[y][x + 1] && color === this.modulos[y + 1][x] && color === this.modulos[y + 1][x + 1]
+        ) {
+          penalizacion += 3;
+        }
+      }
+    }
+
+    const total = this.tamano * this.tamano;
+    const k = Math.ceil(Math.abs(oscuros * 20 - total * 10) / total) - 1;
+    return penalizacion + Math.max(0, k) * 10;
+  }
+}
+
+/**
+ * Genera la matriz de un código QR con corrección de errores M
+ * @param texto Contenido del código (se codifica en UTF-8)
+ * @param mascara Máscara fija (0-7); por defecto se escoge la de menor penalización
+ * @returns Matriz de módulos, true = oscuro; no incluye la zona de silencio
+ */
+export const generarCodigoQR = (texto: string, mascara?: number): boolean[][] => {
+  const bytes = new TextEncoder().encode(texto);
+  let version = 1;
+  while (version <= VERSION_MAXIMA) {
+    const bitsRequeridos = 4 + (version < 10 ? 8 : 16) + bytes.length * 8;
+    if (bitsRequeridos <= getCapacidadDatos(version) * 8) break;
+    version++;
+  }
+  if (version > VERSION_MAXIMA) {
+    throw new Error(`El contenido del código QR es demasiado largo (${bytes.length} bytes)`);
+  }
+
+  const codewords = intercalarBloques(codificarDatos(bytes, version), version);
+
+  const construir = (numeroMascara: number): MatrizQR => {
+    const matriz = new MatrizQR(version);
+    matriz.dibujarPatrones();
+    matriz.colocarDatos(codewords);
+    matriz.aplicarMascara(numeroMascara);
+    matriz.dibujarFormato(numeroMascara);
+    return matriz;
+  };
+
+  if (mascara !== undefined) {
+    return construir(mascara).modulos;
+  }
+
+  let mejor = construir(0);
+  let menorPenalizacion = mejor.calcularPenalizacion();
+  for (let i = 1; i < MASCARAS.length; i++) {
+    const candidata = construir(i);
+    const penalizacion = candidata.calcularPenalizacion();
+    if (penalizacion < menorPenalizacion) {
+      mejor = candidata;
+      menorPenalizacion = penalizacion;
+    }
+  }
+  return mejor.modulos;
+};
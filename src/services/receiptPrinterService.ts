@@ -0,0 +1,227 @@
+/**
+ * receiptPrinterService.ts
+ * Envío de recibos a la impresora térmica de la terminal: ESC/POS por WebUSB, puerto serie
+ * o un puente de impresión local, y el PDF angosto como respaldo
+ */
+
+import { Invoice } from '../types/invoice';
+import { ReceiptPrinterSettings, UserSettings } from '../hooks/useUserSettings';
+import { AnchoPapel, LogoRecibo, PUNTOS_PAPEL, construirRecibo, generarEscPos } from './receiptService';
+import { generateReciboTermicoPDF } from './pdfService';
+
+// Tipos mínimos de WebUSB y Web Serial, que aún no están en lib.dom
+interface UsbEndpoint { endpointNumber: number; direction: 'in' | 'out'; type: string }
+interface UsbInterface { interfaceNumber: number; alternate: { endpoints: UsbEndpoint[] } }
+interface UsbDevice {
+  configuration: { interfaces: UsbInterface[] } | null;
+  open(): Promise<void>;
+  close(): Promise<void>;
+  selectConfiguration(configurationValue: number): Promise<void>;
+  claimInterface(interfaceNumber: number): Promise<void>;
+  releaseInterface(interfaceNumber: number): Promise<void>;
+  transferOut(endpointNumber: number, data: Uint8Array): Promise<unknown>;
+}
+interface SerialPort {
+  writable: WritableStream<Uint8Array> | null;
+  open(options: { baudRate: number }): Promise<void>;
+  close(): Promise<void>;
+}
+interface NavegadorConImpresoras {
+  usb?: { getDevices(): Promise<UsbDevice[]>; requestDevice(options: { filters: object[] }): Promise<UsbDevice> };
+  serial?: { getPorts(): Promise<SerialPort[]>; requestPort(): Promise<SerialPort> };
+}
+
+// Interfaz para el resultado de la impresión
+export interface ReceiptPrintResult {
+  success: boolean;
+  error?: string;
+}
+
+// Configuración por defecto: PDF de 80 mm con logo
+export const DEFAULT_RECEIPT_PRINTER: ReceiptPrinterSettings = {
+  paper_width: '80',
+  output: 'pdf',
+  baud_rate: 9600,
+  print_logo: true,
+};
+
+const getNavegador = (): NavegadorConImpresoras => navigator as unknown as NavegadorConImpresoras;
+
+/**
+ * Impresora de recibos configurada para una terminal
+ * @param settings Ajustes del usuario
+ * @param terminal Código de la terminal
+ * @returns La configuración de la terminal o undefined si no tiene impresora térmica
+ */
+export const getReceiptPrinter = (settings: UserSettings | null, terminal: string): ReceiptPrinterSettings | undefined =>
+  settings?.receipt_printers?.[terminal];
+
+/**
+ * Convierte el logo de la empresa a blanco y negro con el ancho del papel
+ * @param dataUrl Logo guardado en la configuración
+ * @param anchoPapel Ancho del papel
+ */
+export const cargarLogoRecibo = (dataUrl: string, anchoPapel: AnchoPapel): Promise<LogoRecibo> =>
+  new Promise((resolve, reject) => {
+    const imagen = new Image();
+    imagen.onload = () => {
+      const ancho = Math.min(imagen.width, Math.floor(PUNTOS_PAPEL[anchoPapel] * 0.6));
+      const alto = Math.max(1, Math.round(imagen.height * (ancho / imagen.width)));
+      const canvas = document.createElement('canvas');
+      canvas.width = ancho;
+      canvas.height = alto;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('No se pudo procesar el logo'));
+        return;
+      }
+      context.drawImage(imagen, 0, 0, ancho, alto);
+      const { data } = context.getImageData(0, 0, ancho, alto);
+      const pixeles: boolean[][] = [];
+      for (let y = 0; y < alto; y++) {
+        const fila: boolean[] = [];
+        for (let x = 0; x < ancho; x++) {
+          const i = (y * ancho + x) * 4;
+          const luminancia = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+          // Los píxeles transparentes se imprimen en blanco
+          fila.push(data[i + 3] > 127 && luminancia < 128);
+        }
+        pixeles.push(fila);
+      }
+      resolve({ dataUrl, ancho, alto, pixeles });
+    };
+    imagen.onerror = () => reject(new Error('No se pudo cargar el logo'));
+    imagen.src = dataUrl;
+  });
+
+/**
+ * Servicio para imprimir recibos en la impresora térmica de la terminal
+ */
+class ReceiptPrinterService {
+  /**
+   * Solicita al usuario la impresora USB o serie; debe llamarse desde un clic.
+   * Después el navegador recuerda el permiso y la impresión no vuelve a preguntar
+   * @param output Tipo de conexión
+   */
+  async authorizePrinter(output: ReceiptPrinterSettings['output']): Promise<ReceiptPrintResult> {
+    try {
+      const navegador = getNavegador();
+      if (output === 'usb') {
+        if (!navegador.usb) throw new Error('Este navegador no soporta WebUSB');
+        await navegador.usb.requestDevice({ filters: [] });
+      } else if (output === 'serial') {
+        if (!navegador.serial) throw new Error('Este navegador no soporta puertos serie');
+        await navegador.serial.requestPort();
+      }
+      return { success: true };
+    } catch (error) {
+      console.error('Error al autorizar la impresora:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Error desconocido' };
+    }
+  }
+
+  /**
+   * Imprime el recibo de un comprobante según la configuración de la terminal
+   * @param invoice Comprobante emitido
+   * @param printer Impresora de la terminal
+   * @param companyId ID de la empresa, para cargar su logo
+   */
+  async printReceipt(invoice: Invoice, printer: ReceiptPrinterSettings, companyId = 'innova'): Promise<ReceiptPrintResult> {
+    try {
+      const logoGuardado = printer.print_logo ? localStorage.getItem(`companyLogo_${companyId}`) : null;
+      const logo = logoGuardado
+        ? await cargarLogoRecibo(logoGuardado, printer.paper_width).catch(error => {
+            console.warn('Se imprime el recibo sin logo:', error);
+            return undefined;
+          })
+        : undefined;
+      const opciones = { anchoPapel: printer.paper_width, logo };
+      const lineas = construirRecibo(invoice, opciones);
+
+      if (printer.output === 'pdf') {
+        const pdf = generateReciboTermicoPDF(lineas, opciones);
+        pdf.autoPrint();
+        // Si el navegador bloquea la ventana, se descarga el PDF
+        if (!window.open(pdf.output('bloburl').toString(), '_blank')) {
+          pdf.save(`recibo_${invoice.numeroConsecutivo}.pdf`);
+        }
+        return { success: true };
+      }
+
+      const bytes = generarEscPos(lineas, opciones);
+      if (printer.output === 'usb') {
+        await this.sendUsb(bytes);
+      } else if (printer.output === 'serial') {
+        await this.sendSerial(bytes, printer.baud_rate || 9600);
+      } else {
+        await this.sendBridge(bytes, printer.bridge_url);
+      }
+      return { success: true };
+    } catch (error) {
+      console.error('Error al imprimir el recibo:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Error desconocido' };
+    }
+  }
+
+  private async sendUsb(bytes: Uint8Array): Promise<void> {
+    const dispositivos = (await getNavegador().usb?.getDevices()) || [];
+    const impresora = dispositivos[0];
+    if (!impresora) {
+      throw new Error('No hay una impresora USB autorizada. Autorícela en Configuración');
+    }
+    await impresora.open();
+    try {
+      if (!impresora.configuration) {
+        await impresora.selectConfiguration(1);
+      }
+      // Primera interfaz con un endpoint de salida bulk
+      const interfaz = impresora.configuration?.interfaces.find(i =>
+        i.alternate.endpoints.some(e => e.direction === 'out' && e.type === 'bulk'));
+      const endpoint = interfaz?.alternate.endpoints.find(e => e.direction === 'out' && e.type === 'bulk');
+      if (!interfaz || !endpoint) {
+        throw new Error('La impresora USB no tiene un canal de salida');
+      }
+      await impresora.claimInterface(interfaz.interfaceNumber);
+      await impresora.transferOut(endpoint.endpointNumber, bytes);
+      await impresora.releaseInterface(interfaz.interfaceNumber);
+    } finally {
+      await impresora.close();
+    }
+  }
+
+  private async sendSerial(bytes: Uint8Array, baudRate: number): Promise<void> {
+    const puertos = (await getNavegador().serial?.getPorts()) || [];
+    const puerto = puertos[0];
+    if (!puerto) {
+      throw new Error('No hay un puerto serie autorizado. Autorícelo en Configuración');
+    }
+    await puerto.open({ baudRate });
+    try {
+      const writer = puerto.writable?.getWriter();
+      if (!writer) {
+        throw new Error('No se pudo escribir en el puerto serie');
+      }
+      await writer.write(bytes);
+      writer.releaseLock();
+    } finally {
+      await puerto.close();
+    }
+  }
+
+  private async sendBridge(bytes: Uint8Array, url?: string): Promise<void> {
+    if (!url) {
+      throw new Error('Configure la dirección del puente de impresión');
+    }
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/octet-stream' },
+      body: bytes,
+    });
+    if (!response.ok) {
+      throw new Error(`El puente de impresión respondió ${response.status}`);
+    }
+  }
+}
+
+// Exportar la instancia del servicio
+export const receiptPrinterService = new ReceiptPrinterService();
@@ -0,0 +1,333 @@
+/**
+ * receiptService.ts
+ * Recibos para impresoras térmicas de 80 mm y 58 mm: arma el contenido del tiquete
+ * y lo convierte en comandos ESC/POS. El PDF angosto de respaldo se genera en pdfService
+ */
+
+import { format } from 'date-fns';
+import { Invoice, tiposDocumentoElectronico } from '../types/invoice';
+import { generarCodigoQR } from './qrCodeService';
+import { MEDIOS_PAGO_CAJA } from './tenderService';
+import { getTipoDocumento } from './xmlService';
+
+/**
+ * Ancho del papel de la impresora térmica en milímetros
+ */
+export type AnchoPapel = '80' | '58';
+
+// Caracteres por línea con la fuente A y puntos imprimibles a 203 dpi
+export const COLUMNAS_PAPEL: Record<AnchoPapel, number> = { '80': 48, '58': 32 };
+export const PUNTOS_PAPEL: Record<AnchoPapel, number> = { '80': 576, '58': 384 };
+
+/**
+ * Logo ya escalado al ancho del papel: la imagen original para el PDF y sus puntos en blanco y negro para ESC/POS
+ */
+export interface LogoRecibo {
+  dataUrl: string;
+  ancho: number;
+  alto: number;
+  pixeles: boolean[][];
+}
+
+export interface OpcionesRecibo {
+  anchoPapel: AnchoPapel;
+  logo?: LogoRecibo;
+}
+
+/**
+ * Línea del recibo, común a la salida ESC/POS y al PDF
+ */
+export type LineaRecibo =
+  | { tipo: 'texto'; texto: string; alineacion?: 'izquierda' | 'centro' | 'derecha'; negrita?: boolean; grande?: boolean }
+  | { tipo: 'columnas'; izquierda: string; derecha: string; negrita?: boolean }
+  | { tipo: 'separador' }
+  | { tipo: 'qr'; contenido: string }
+  | { tipo: 'logo' };
+
+// Fracción del ancho imprimible que ocupa el código QR
+export const ANCHO_QR = 0.5;
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+// Página de códigos 850 (ESC t 2): vocales tildadas, eñe y signos de apertura
+const CP850: Record<string, number> = {
+  'á': 0xa0, 'é': 0x82, 'í': 0xa1, 'ó': 0xa2, 'ú': 0xa3, 'ñ': 0xa4, 'Ñ': 0xa5, 'ü': 0x81, 'Ü': 0x9a,
+  'Á': 0xb5, 'É': 0x90, 'Í': 0xd6, 'Ó': 0xe0, 'Ú': 0xe9, '¿': 0xa8, '¡': 0xad, '°': 0xf8,
+};
+
+/**
+ * Formatea un monto con dos decimales; los separadores de miles de es-CR se cambian por espacios simples
+ */
+export const formatearMontoRecibo = (monto: number): string =>
+  monto.toLocaleString('es-CR', { minimumFractionDigits: 2, maximumFractionDigits: 2 }).replace(/[\u00a0\u202f]/g, ' ');
+
+/**
+ * Divide un texto en líneas de un máximo de columnas, cortando por palabras
+ * @param texto Texto a dividir
+ * @param columnas Caracteres por línea
+ */
+export const ajustarTexto = (texto: string, columnas: number): string[] => {
+  const lineas: string[] = [];
+  let actual = '';
+  texto.split(/\s+/).filter(Boolean).forEach(palabra => {
+    while (palabra.length > columnas) {
+      if (actual) {
+        lineas.push(actual);
+        actual = '';
+      }
+      lineas.push(palabra.substring(0, columnas));
+      palabra = palabra.substring(columnas);
+    }
+    if (!actual) {
+      actual = palabra;
+    } else if (actual.length + 1 + palabra.length <= columnas) {
+      actual += ` ${palabra}`;
+    } else {
+      lineas.push(actual);
+      actual = palabra;
+    }
+  });
+  if (actual || lineas.length === 0) {
+    lineas.push(actual);
+  }
+  return lineas;
+};
+
+/**
+ * Acomoda un texto a la izquierda y otro a la derecha en el ancho de la línea.
+ * Si no caben juntos, el monto pasa a la línea siguiente alineado a la derecha
+ */
+export const alinearColumnas = (izquierda: string, derecha: string, columnas: number): string[] => {
+  if (izquierda.length + 1 + derecha.length <= columnas) {
+    return [izquierda + ' '.repeat(columnas - izquierda.length - derecha.length) + derecha];
+  }
+  return [...ajustarTexto(izquierda, columnas), derecha.padStart(columnas)];
+};
+
+const getDescripcionMedioPago = (codigo: string): string =>
+  MEDIOS_PAGO_CAJA.find(m => m.codigo === codigo)?.descripcion || (codigo === '99' ? 'Otros' : `Medio ${codigo}`);
+
+/**
+ * Arma el contenido del recibo de un tiquete o factura: logo, emisor, clave, consecutivo,
+ * líneas, impuestos, medios de pago, vuelto y código QR con la clave
+ * @param invoice Comprobante emitido
+ * @param opciones Ancho del papel y logo
+ */
+export const construirRecibo = (invoice: Invoice, opciones: OpcionesRecibo): LineaRecibo[] => {
+  const moneda = invoice.resumenFactura.codigoMoneda || invoice.moneda || 'CRC';
+  const tipoDocumento = getTipoDocumento(invoice.numeroConsecutivo);
+  const titulo = tiposDocumentoElectronico.find(t => t.codigo === tipoDocumento)?.descripcion || 'Tiquete Electrónico';
+  const lineas: LineaRecibo[] = [];
+
+  if (opciones.logo) {
+    lineas.push({ tipo: 'logo' });
+  }
+
+  // Emisor
+  const emisor = invoice.emisor;
+  lineas.push({ tipo: 'texto', texto: emisor.nombreComercial || emisor.nombre, alineacion: 'centro', negrita: true });
+  if (emisor.nombreComercial) {
+    lineas.push({ tipo: 'texto', texto: emisor.nombre, alineacion: 'centro' });
+  }
+  lineas.push({ tipo: 'texto', texto: `Céd. ${emisor.identificacion.numero}`, alineacion: 'centro' });
+  if (emisor.telefono?.numTelefono) {
+    lineas.push({ tipo: 'texto', texto: `Tel. ${emisor.telefono.numTelefono}`, alineacion: 'centro' });
+  }
+  if (emisor.correo) {
+    lineas.push({ tipo: 'texto', texto: emisor.correo, alineacion: 'centro' });
+  }
+  lineas.push({ tipo: 'separador' });
+
+  // Identificación del comprobante
+  lineas.push({ tipo: 'texto', texto: titulo, alineacion: 'centro', negrita: true });
+  lineas.push({ tipo: 'texto', texto: `Consecutivo: ${invoice.numeroConsecutivo}` });
+  lineas.push({ tipo: 'texto', texto: `Fecha: ${format(new Date(invoice.fechaEmision), 'dd/MM/yyyy HH:mm')}` });
+  lineas.push({ tipo: 'texto', texto: 'Clave:' });
+  lineas.push({ tipo: 'texto', texto: invoice.clave });
+  if (invoice.receptor?.identificacion?.numero && invoice.receptor.identificacion.numero !== '000000000') {
+    lineas.push({ tipo: 'texto', texto: `Cliente: ${invoice.receptor.nombre}` });
+    lineas.push({ tipo: 'texto', texto: `Céd. ${invoice.receptor.identificacion.numero}` });
+  }
+  lineas.push({ tipo: 'texto', texto: `Moneda: ${moneda}` });
+  lineas.push({ tipo: 'separador' });
+
+  // Líneas de detalle
+  invoice.detalleServicio.forEach(item => {
+    lineas.push({ tipo: 'texto', texto: item.detalle });
+    const iva = item.impuesto ? ` IVA ${item.impuesto.tarifa}%` : '';
+    lineas.push({
+      tipo: 'columnas',
+      izquierda: `  ${item.cantidad} x ${formatearMontoRecibo(item.precioUnitario)}${iva}`,
+      derecha: formatearMontoRecibo(item.montoTotal),
+    });
+    if (item.descuento?.montoDescuento) {
+      lineas.push({ tipo: 'columnas', izquierda: '  Descuento', derecha: `-${formatearMontoRecibo(item.descuento.montoDescuento)}` });
+    }
+  });
+  lineas.push({ tipo: 'separador' });
+
+  // Totales e impuestos por tarifa
+  const resumen = invoice.resumenFactura;
+  lineas.push({ tipo: 'columnas', izquierda: 'Subtotal', derecha: formatearMontoRecibo(resumen.totalVenta) });
+  if (resumen.totalDescuentos) {
+    lineas.push({ tipo: 'columnas', izquierda: 'Descuentos', derecha: `-${formatearMontoRecibo(resumen.totalDescuentos)}` });
+  }
+  const impuestosPorTarifa = new Map<number, number>();
+  invoice.detalleServicio.forEach(item => {
+    if (item.impuesto) {
+      impuestosPorTarifa.set(item.impuesto.tarifa, (impuestosPorTarifa.get(item.impuesto.tarifa) || 0) + item.impuestoNeto);
+    }
+  });
+  [...impuestosPorTarifa.entries()].sort(([a], [b]) => a - b).forEach(([tarifa, monto]) => {
+    lineas.push({ tipo: 'columnas', izquierda: `IVA ${tarifa}%`, derecha: formatearMontoRecibo(monto) });
+  });
+  if (resumen.totalOtrosCargos) {
+    lineas.push({ tipo: 'columnas', izquierda: 'Otros cargos', derecha: formatearMontoRecibo(resumen.totalOtrosCargos) });
+  }
+  lineas.push({ tipo: 'columnas', izquierda: 'TOTAL', derecha: `${moneda} ${formatearMontoRecibo(resumen.totalComprobante)}`, negrita: true });
+  lineas.push({ tipo: 'separador' });
+
+  // Medios de pago y vuelto
+  if (invoice.mediosPagoDetalle && invoice.mediosPagoDetalle.length > 0) {
+    invoice.mediosPagoDetalle.forEach(pago => {
+      lineas.push({ tipo: 'columnas', izquierda: getDescripcionMedioPago(pago.medioPago), derecha: formatearMontoRecibo(pago.monto) });
+      const detalle = [
+        pago.autorizacion ? `Aut. ${pago.autorizacion}` : '',
+        pago.ultimosDigitos ? `****${pago.ultimosDigitos}` : '',
+        pago.referencia ? `Ref. ${pago.referencia}` : '',
+      ].filter(Boolean).join(' ');
+      if (detalle) {
+        lineas.push({ tipo: 'texto', texto: `  ${detalle}` });
+      }
+    });
+  } else {
+    invoice.medioPago.forEach((medio, index) => {
+      const monto = invoice.totalMedioPago?.[index];
+      lineas.push({
+        tipo: 'columnas',
+        izquierda: getDescripcionMedioPago(medio),
+        derecha: monto !== undefined ? formatearMontoRecibo(monto) : '',
+      });
+    });
+  }
+  if (invoice.vuelto) {
+    lineas.push({ tipo: 'columnas', izquierda: 'Vuelto', derecha: formatearMontoRecibo(invoice.vuelto), negrita: true });
+  }
+  lineas.push({ tipo: 'separador' });
+
+  lineas.push({ tipo: 'qr', contenido: invoice.clave });
+  lineas.push({ tipo: 'texto', texto: 'Autorizado mediante resolución MH-DGT-RES-0027-2024', alineacion: 'centro' });
+  lineas.push({ tipo: 'texto', texto: '¡Gracias por su compra!', alineacion: 'centro' });
+
+  return lineas;
+};
+
+/**
+ * Convierte un texto a bytes de la página de códigos 850; quita las tildes que no existen en ella
+ */
+const codificarTexto = (texto: string): number[] =>
+  [...texto].map(caracter => {
+    if (CP850[caracter] !== undefined) return CP850[caracter];
+    const codigo = caracter.charCodeAt(0);
+    if (codigo >= 0x20 && codigo < 0x7f) return codigo;
+    const sinTilde = caracter.normalize('NFD').charAt(0);
+    return sinTilde.charCodeAt(0) < 0x7f ? sinTilde.charCodeAt(0) : 0x3f;
+  });
+
+/**
+ * Imagen de mapa de bits (GS v 0) en franjas de hasta 128 filas para no saturar el búfer de la impresora
+ */
+const rasterizar = (pixeles: boolean[][]): number[] => {
+  const bytes: number[] = [];
+  const ancho = pixeles[0]?.length || 0;
+  const bytesPorFila = Math.ceil(ancho / 8);
+  for (let inicio = 0; inicio < pixeles.length; inicio += 128) {
+    const franja = pixeles.slice(inicio, inicio + 128);
+    bytes.push(GS, 0x76, 0x30, 0x00, bytesPorFila & 0xff, bytesPorFila >> 8, franja.length & 0xff, franja.length >> 8);
+    franja.forEach(fila => {
+      for (let b = 0; b < bytesPorFila; b++) {
+        let byte = 0;
+        for (let bit = 0; bit < 8; bit++) {
+          if (fila[b * 8 + bit]) byte |= 0x80 >> bit;
+        }
+        bytes.push(byte);
+      }
+    });
+  }
+  return bytes;
+};
+
+/**
+ * Escala la matriz del código QR a puntos de impresora, con la zona de silencio de 4 módulos
+ * @param contenido Texto del código
+ * @param anchoPuntos Ancho máximo en puntos
+ */
+export const escalarQR = (contenido: string, anchoPuntos: number): boolean[][] => {
+  const matriz = generarCodigoQR(contenido);
+  const conMargen = matriz.length + 8;
+  const escala = Math.max(1, Math.floor(anchoPuntos / conMargen));
+  const puntos: boolean[][] = [];
+  for (let y = 0; y < conMargen * escala; y++) {
+    const fila: boolean[] = [];
+    const my = Math.floor(y / escala) - 4;
+    for (let x = 0; x < conMargen * escala; x++) {
+      const mx = Math.floor(x / escala) - 4;
+      fila.push(my >= 0 && my < matriz.length && mx >= 0 && mx < matriz.length && matriz[my][mx]);
+    }
+    puntos.push(fila);
+  }
+  return puntos;
+};
+
+/**
+ * Genera los comandos ESC/POS del recibo, listos para enviar a la impresora
+ * @param lineas Contenido del recibo
+ * @param opciones Ancho del papel y logo
+ */
+export const generarEscPos = (lineas: LineaRecibo[], opciones: OpcionesRecibo): Uint8Array => {
+  const columnas = COLUMNAS_PAPEL[opciones.anchoPapel];
+  const bytes: number[] = [ESC, 0x40, ESC, 0x74, 0x02];
+  const alinear = (alineacion: 'izquierda' | 'centro' | 'derecha' = 'izquierda') =>
+    bytes.push(ESC, 0x61, alineacion === 'centro' ? 1 : alineacion === 'derecha' ? 2 : 0);
+  const escribir = (texto: string) => bytes.push(...codificarTexto(texto), LF);
+
+  lineas.forEach(linea => {
+    switch (linea.tipo) {
+      case 'texto':
+        alinear(linea.alineacion);
+        if (linea.negrita) bytes.push(ESC, 0x45, 1);
+        if (linea.grande) bytes.push(GS, 0x21, 0x11);
+        ajustarTexto(linea.texto, linea.grande ? Math.floor(columnas / 2) : columnas).forEach(escribir);
+        if (linea.grande) bytes.push(GS, 0x21, 0x00);
+        if (linea.negrita) bytes.push(ESC, 0x45, 0);
+        break;
+      case 'columnas':
+        alinear();
+        if (linea.negrita) bytes.push(ESC, 0x45, 1);
+        alinearColumnas(linea.izquierda, linea.derecha, columnas).forEach(escribir);
+        if (linea.negrita) bytes.push(ESC, 0x45, 0);
+        break;
+      case 'separador':
+        alinear();
+        escribir('-'.repeat(columnas));
+        break;
+      case 'qr':
+        alinear('centro');
+        bytes.push(...rasterizar(escalarQR(linea.contenido, Math.floor(PUNTOS_PAPEL[opciones.anchoPapel] * ANCHO_QR))));
+        break;
+      case 'logo':
+        if (opciones.logo) {
+          alinear('centro');
+          bytes.push(...rasterizar(opciones.logo.pixeles), LF);
+        }
+        break;
+    }
+  });
+
+  // Avanzar el papel y hacer corte parcial
+  alinear();
+  bytes.push(ESC, 0x64, 4, GS, 0x56, 0x42, 0x00);
+  return new Uint8Array(bytes);
+};
@@ -5,80 +5,123 @@
  */
 
 import { format } from 'date-fns';
+import { supabase } from '../lib/supabase';
 import { supabaseCompanyService } from './supabaseCompanyService';
+import { getCompanyUuid } from './uuidMappingService';
 
 /**
  * Estructura para almacenar la configuración de consecutivos
  */
 interface SequenceSettings {
   lastConsecutive: number;
+  // Consecutivos independientes para los demás tipos de documento (notas de crédito, débito, etc.)
+  // Facturas ('01') y tiquetes ('04') comparten lastConsecutive
+  consecutivosPorTipo?: Record<string, number>;
   environment: 'test' | 'prod';
   updatedAt: string;
 }
 
 /**
- * Genera el número consecutivo para facturas y tiquetes según el formato requerido por Hacienda
+ * Asigna consecutivos con la función next_consecutive de Supabase. La serie es por empresa,
+ * ambiente, sucursal, terminal y tipo de documento, y se incrementa en una sola transacción:
+ * dos navegadores o terminales nunca reciben el mismo número
+ * @param cantidad Cantidad de consecutivos a asignar (más de uno al reservar un bloque)
+ * @returns Primer y último número (de la serie) del bloque asignado
+ */
+const allocateConsecutives = async (
+  companyId: string,
+  tipoDoc: string,
+  terminal: string,
+  sucursal: string,
+  cantidad: number
+): Promise<{ desde: number; hasta: number }> => {
+  const { data, error } = await supabase.rpc('next_consecutive', {
+    p_company_id: getCompanyUuid(companyId),
+    p_environment: getCurrentEnvironment(companyId),
+    p_sucursal: sucursal,
+    p_terminal: terminal,
+    p_tipo_doc: tipoDoc,
+    p_cantidad: cantidad
+  });
+
+  const hasta = Number(data);
+  if (error || data === null || !Number.isInteger(hasta) || hasta < cantidad) {
+    throw new Error(`No se pudo obtener el consecutivo de la base de datos: ${error?.message || 'respuesta inválida'}`);
+  }
+  return { desde: hasta - cantidad + 1, hasta };
+};
+
+/**
+ * Genera el número consecutivo para facturas y tiquetes según el formato requerido por Hacienda.
+ * El número lo asigna Supabase; sin conexión se deben usar los consecutivos reservados
+ * (consecutiveReservationService)
  * 
  * @param companyId ID de la empresa
- * @param tipoDoc Tipo de documento ('01' para Factura, '04' para Tiquete)
- * @param terminal Terminal (2 dígitos)
+ * @param tipoDoc Tipo de documento ('01' Factura, '02' Nota de Débito, '03' Nota de Crédito, '04' Tiquete, '08' Compra, '09' Exportación)
+ * @param terminal Terminal (5 dígitos)
  * @param sucursal Sucursal (3 dígitos)
  * @returns Número consecutivo de 20 dígitos
+ * @throws Error si la base de datos no asigna el consecutivo
  */
-export const generateConsecutiveNumber = (
+export const generateConsecutiveNumber = async (
   companyId: string,
   tipoDoc: string = '01',
-  terminal: string = '01',
+  terminal: string = '00001',
   sucursal: string = '002'
-): string => {
-  try {
-    // Validar que terminal tenga 2 dígitos
-    if (terminal.length !== 2) {
-      console.warn(`Terminal debería tener 2 dígitos, se ha recibido: ${terminal}. Usando '01' como valor predeterminado.`);
-      terminal = '01';
-    }
-    
-    // Validar que sucursal tenga 3 dígitos
-    if (sucursal.length !== 3) {
-      console.warn(`Sucursal debería tener 3 dígitos, se ha recibido: ${sucursal}. Usando '002' como valor predeterminado.`);
-      sucursal = '002';
-    }
-    
-    const storageKey = `company_${companyId}_consecutive_settings`;
-    
-    // Obtener la configuración actual si existe
-    let settings: SequenceSettings = { 
-      lastConsecutive: 0,
-      environment: 'test',
-      updatedAt: new Date().toISOString()
-    };
-    
-    const settingsStr = localStorage.getItem(storageKey);
-    if (settingsStr) {
-      settings = JSON.parse(settingsStr);
-    }
-    
-    // Incrementar el consecutivo
-    settings.lastConsecutive += 1;
-    settings.updatedAt = new Date().toISOString();
-    
-    // Guardar la configuración actualizada
-    localStorage.setItem(storageKey, JSON.stringify(settings));
-    
-    // Formatear el consecutivo con ceros a la izquierda (13 dígitos)
-    // para que inicie con 0000000000001 y vaya incrementando
-    const formattedConsecutive = settings.lastConsecutive.toString().padStart(13, '0');
-    
-    // Concatenar en el formato requerido: tipoDoc + terminal + sucursal + consecutivo
-    // Esto genera un número de 20 dígitos exactos (2+2+3+13 = 20)
-    return tipoDoc + terminal + sucursal + formattedConsecutive;
-  } catch (error) {
-    console.error('Error al obtener consecutivo:', error);
-    
-    // En caso de error, generar un consecutivo aleatorio para no bloquear al usuario
-    const randomConsecutive = Math.floor(Math.random() * 10000000000).toString().padStart(10, '0');
-    return tipoDoc + terminal + sucursal + randomConsecutive.padStart(13, '0');
+): Promise<string> => {
+  // Validar que terminal tenga 5 dígitos
+  if (terminal.length !== 5) {
+    console.warn(`Terminal debería tener 5 dígitos, se ha recibido: ${terminal}. Usando '00001' como valor predeterminado.`);
+    terminal = '00001';
+  }
+  
+  // Validar que sucursal tenga 3 dígitos
+  if (sucursal.length !== 3) {
+    console.warn(`Sucursal debería tener 3 dígitos, se ha recibido: ${sucursal}. Usando '002' como valor predeterminado.`);
+    sucursal = '002';
+  }
+  
+  const { hasta } = await allocateConsecutives(companyId, tipoDoc, terminal, sucursal, 1);
+  
+  // Formato requerido: sucursal + terminal + tipoDoc + consecutivo de 10 dígitos (3+5+2+10 = 20)
+  return formatConsecutiveNumber(tipoDoc, terminal, sucursal, hasta);
+};
+
+/**
+ * Arma el número consecutivo de 20 dígitos: sucursal (3) + terminal (5) + tipoDoc (2) + consecutivo (10)
+ * @param tipoDoc Tipo de documento
+ * @param terminal Terminal (5 dígitos)
+ * @param sucursal Sucursal (3 dígitos)
+ * @param consecutivo Número de la serie
+ */
+export const formatConsecutiveNumber = (
+  tipoDoc: string,
+  terminal: string,
+  sucursal: string,
+  consecutivo: number
+): string => sucursal + terminal + tipoDoc + consecutivo.toString().padStart(10, '0');
+
+/**
+ * Reserva en Supabase un bloque de consecutivos de la serie de la terminal, para emitir
+ * sin conexión sin que otro proceso vuelva a asignarlos
+ * @param companyId ID de la empresa
+ * @param tipoDoc Tipo de documento
+ * @param terminal Terminal (5 dígitos)
+ * @param sucursal Sucursal (3 dígitos)
+ * @param cantidad Cantidad de consecutivos a reservar
+ * @returns Primer y último número (de la serie) del bloque reservado
+ */
+export const reserveConsecutiveBlock = async (
+  companyId: string,
+  tipoDoc: string,
+  terminal: string,
+  sucursal: string,
+  cantidad: number
+): Promise<{ desde: number; hasta: number }> => {
+  if (!Number.isInteger(cantidad) || cantidad < 1) {
+    throw new Error('La cantidad de consecutivos a reservar debe ser un entero positivo');
   }
+  return allocateConsecutives(companyId, tipoDoc, terminal, sucursal, cantidad);
 };
 
 /**
@@ -87,30 +130,32 @@ export const generateConsecutiveNumber = (
  * Estructura de 50 dígitos:
  * - Código país (3): 506
  * - Fecha (6): ddMMyy
- * - Situación (1): 1 (normal)
+ * - Situación (1): 1 normal, 2 contingencia, 3 sin internet
  * - Cédula emisor (12): padded con ceros
- * - Número consecutivo (20): incluye tipo (2) + terminal (2) + sucursal (3) + consecutivo (13)
+ * - Número consecutivo (20): incluye sucursal (3) + terminal (5) + tipo (2) + consecutivo (10)
  * - Código seguridad (8): fijo por usuario/compañía
  * 
  * @param companyId ID de la empresa
  * @param emisorNumero Número de identificación del emisor
  * @param tipoDocumento Tipo de documento ('01' para Factura, '04' para Tiquete)
- * @param terminal Terminal (2 dígitos)
+ * @param terminal Terminal (5 dígitos)
  * @param sucursal Sucursal (3 dígitos)
  * @param consecutivoExistente Opcional: Número consecutivo ya generado
+ * @param situacion Situación del comprobante ('1' normal, '2' contingencia, '3' sin internet)
  */
 export const generateInvoiceKey = async (
   companyId: string,
   emisorNumero: string, 
   tipoDocumento: string = '01', 
-  terminal: string = '01', 
+  terminal: string = '00001', 
   sucursal: string = '002',
-  consecutivoExistente?: string
+  consecutivoExistente?: string,
+  situacion: string = '1'
 ): Promise<string> => {
   // Verificar y formatear los parámetros de entrada
-  if (terminal.length !== 2) {
-    console.warn(`Terminal debe tener 2 dígitos. Se recibió: ${terminal}. Usando '01' como valor predeterminado.`);
-    terminal = '01';
+  if (terminal.length !== 5) {
+    console.warn(`Terminal debe tener 5 dígitos. Se recibió: ${terminal}. Usando '00001' como valor predeterminado.`);
+    terminal = '00001';
   }
 
   if (sucursal.length !== 3) {
@@ -121,7 +166,10 @@ export const generateInvoiceKey = async (
   const date = new Date();
   const countryCode = '506'; // Costa Rica (3 dígitos exactos)
   const formattedDate = format(date, 'ddMMyy'); // 6 dígitos (ddMMyy)
-  const situacion = '1'; // Normal (1 dígito)
+  if (!['1', '2', '3'].includes(situacion)) {
+    console.warn(`Situación inválida: ${situacion}. Usando '1' (normal).`);
+    situacion = '1';
+  }
   
   // Usar el consecutivo existente si se proporciona, o generar uno nuevo
   let consecutiveNumber: string;
@@ -132,7 +180,7 @@ export const generateInvoiceKey = async (
   } else {
     // Obtener el consecutivo usando la misma función
     console.log('Generando nuevo consecutivo para la clave con tipoDocumento:', tipoDocumento);
-    consecutiveNumber = generateConsecutiveNumber(companyId, tipoDocumento, terminal, sucursal);
+    consecutiveNumber = await generateConsecutiveNumber(companyId, tipoDocumento, terminal, sucursal);
   }
   
   // Verificar que el consecutivo tenga exactamente 20 dígitos
@@ -187,22 +235,24 @@ export const generateInvoiceKey = async (
  * @param companyId ID de la empresa
  * @param emisorNumero Número de identificación del emisor
  * @param tipoDocumento Tipo de documento ('01' para Factura, '04' para Tiquete)
- * @param terminal Terminal (2 dígitos)
+ * @param terminal Terminal (5 dígitos)
  * @param sucursal Sucursal (3 dígitos)
+ * @param situacion Situación del comprobante ('1' normal, '2' contingencia, '3' sin internet)
  * @returns Objeto con número consecutivo y clave
  */
 export const generateSequence = async (
   companyId: string,
   emisorNumero: string,
   tipoDocumento: string = '01',
-  terminal: string = '01',
-  sucursal: string = '002'
+  terminal: string = '00001',
+  sucursal: string = '002',
+  situacion: string = '1'
 ): Promise<{ numeroConsecutivo: string; clave: string }> => {
   // Generar primero el consecutivo
-  const numeroConsecutivo = generateConsecutiveNumber(companyId, tipoDocumento, terminal, sucursal);
+  const numeroConsecutivo = await generateConsecutiveNumber(companyId, tipoDocumento, terminal, sucursal);
   
   // Usar ese mismo consecutivo para generar la clave
-  const clave = await generateInvoiceKey(companyId, emisorNumero, tipoDocumento, terminal, sucursal, numeroConsecutivo);
+  const clave = await generateInvoiceKey(companyId, emisorNumero, tipoDocumento, terminal, sucursal, numeroConsecutivo, situacion);
   
   console.log(`Secuencia generada: { numeroConsecutivo: ${numeroConsecutivo}, clave: ${clave} }`);
   
@@ -212,6 +262,28 @@ export const generateSequence = async (
   };
 };
 
+/**
+ * Consecutivo y clave provisionales (número 0) para validar el borrador de un comprobante
+ * contra el esquema antes de pedir a Supabase el consecutivo real; si el borrador no es
+ * válido no se consume ningún número de la serie
+ * @param emisorNumero Número de identificación del emisor
+ * @param tipoDocumento Tipo de documento
+ * @param terminal Terminal (5 dígitos)
+ * @param sucursal Sucursal (3 dígitos)
+ * @param situacion Situación del comprobante ('1' normal, '2' contingencia, '3' sin internet)
+ */
+export const getDraftSequence = (
+  emisorNumero: string,
+  tipoDocumento: string,
+  terminal: string = '00001',
+  sucursal: string = '002',
+  situacion: string = '1'
+): { numeroConsecutivo: string; clave: string } => {
+  const numeroConsecutivo = formatConsecutiveNumber(tipoDocumento, terminal, sucursal, 0);
+  const clave = '506' + format(new Date(), 'ddMMyy') + situacion + emisorNumero.padStart(12, '0') + numeroConsecutivo + '00000000';
+  return { numeroConsecutivo, clave };
+};
+
 /**
  * Obtiene el código de seguridad fijo de 8 dígitos para la empresa EXCLUSIVAMENTE desde Supabase.
  * Este código DEBE ser el mismo para todas las facturas de la misma empresa y se almacena
@@ -260,9 +332,11 @@ export const resetConsecutive = (companyId: string, newEnvironment: 'test' | 'pr
           updatedAt: new Date().toISOString()
         };
     
-    // Si el ambiente es diferente, resetear el consecutivo
+    // Si el ambiente es diferente, resetear el consecutivo.
+    // En Supabase cada ambiente tiene su propia serie, que se empieza a usar desde aquí
     if (currentSettings.environment !== newEnvironment) {
       currentSettings.lastConsecutive = 0; // Reiniciar desde cero
+      currentSettings.consecutivosPorTipo = {};
       currentSettings.environment = newEnvironment;
       currentSettings.updatedAt = new Date().toISOString();
       
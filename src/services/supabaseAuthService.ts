@@ -1,6 +1,7 @@
 import { supabase } from '../lib/supabase';
 import { supabaseCompanyService } from './supabaseCompanyService';
 import { envService } from './envService';
+import { getCompanyUuid } from './uuidMappingService';
 
 // Interfaz para representar un usuario
 export interface User {
@@ -332,6 +333,45 @@ class SupabaseAuthService {
     return this.currentUser !== null;
   }
   
+  /**
+   * Verifica las credenciales de un supervisor sin cambiar la sesión actual.
+   * Solo los usuarios activos con rol 'admin' o 'supervisor' pueden autorizar.
+   */
+  async verifySupervisor(username: string, password: string): Promise<AuthResult> {
+    try {
+      const { data: users, error } = await supabase
+        .from('users')
+        .select('*')
+        .eq('username', username)
+        .eq('is_active', true)
+        .limit(1);
+
+      if (error) {
+        console.error('Error al buscar supervisor:', error);
+        return { success: false, error: 'Error al verificar el supervisor' };
+      }
+
+      const supervisor = users && users[0];
+      if (!supervisor || supervisor.password_hash !== password) {
+        return { success: false, error: 'Credenciales inválidas' };
+      }
+
+      if (supervisor.role !== 'admin' && supervisor.role !== 'supervisor') {
+        return { success: false, error: 'El usuario no tiene permisos de supervisor' };
+      }
+
+      const currentCompany = this.currentUser?.company_id;
+      if (currentCompany && supervisor.company_id && getCompanyUuid(supervisor.company_id) !== getCompanyUuid(currentCompany)) {
+        return { success: false, error: 'El supervisor no pertenece a la empresa actual' };
+      }
+
+      return { success: true, user: supervisor };
+    } catch (error) {
+      console.error('Error al verificar supervisor:', error);
+      return { success: false, error: 'Error al verificar el supervisor' };
+    }
+  }
+
   /**
    * Registra un nuevo usuario (para uso futuro)
    */
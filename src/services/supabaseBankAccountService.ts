@@ -0,0 +1,121 @@
+import { supabase } from '../lib/supabase';
+import { getCompanyUuid } from './uuidMappingService';
+
+// Interfaz para representar una cuenta bancaria de la empresa
+export interface BankAccount {
+  id?: string;
+  company_id?: string;
+  banco: string;
+  numero_cuenta: string;
+  moneda: string;
+  tipo: 'Corriente' | 'Ahorros' | 'Digital';
+  alias?: string;
+  is_active?: boolean;
+  created_at?: string;
+}
+
+// Interfaz para el resultado de operaciones con cuentas bancarias
+export interface BankAccountResult {
+  success: boolean;
+  data?: BankAccount;
+  error?: string;
+}
+
+// Interfaz para los resultados de búsqueda de cuentas bancarias
+export interface BankAccountSearchResult {
+  success: boolean;
+  data?: BankAccount[];
+  error?: string;
+}
+
+const TABLE_NAME = 'bank_accounts';
+
+/**
+ * Servicio para gestionar en Supabase las cuentas bancarias de la empresa
+ */
+class SupabaseBankAccountService {
+  /**
+   * Obtiene las cuentas bancarias activas de la empresa
+   * @param companyId ID de la empresa
+   */
+  async getAccounts(companyId = 'innova'): Promise<BankAccountSearchResult> {
+    try {
+      const { data, error } = await supabase
+        .from(TABLE_NAME)
+        .select('*')
+        .eq('company_id', getCompanyUuid(companyId))
+        .eq('is_active', true)
+        .order('banco', { ascending: true });
+
+      if (error) {
+        console.error('Error al obtener las cuentas bancarias:', error);
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data: data || [] };
+    } catch (error) {
+      console.error('Error al obtener las cuentas bancarias:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Error desconocido' };
+    }
+  }
+
+  /**
+   * Crea o actualiza una cuenta bancaria
+   * @param account Datos de la cuenta
+   * @param companyId ID de la empresa
+   */
+  async saveAccount(account: BankAccount, companyId = 'innova'): Promise<BankAccountResult> {
+    try {
+      const record = {
+        ...account,
+        numero_cuenta: account.numero_cuenta.replace(/\s/g, ''),
+        company_id: getCompanyUuid(companyId),
+        is_active: account.is_active ?? true
+      };
+
+      const { data, error } = await supabase
+        .from(TABLE_NAME)
+        .upsert(record, { onConflict: 'company_id,numero_cuenta' })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error al guardar la cuenta bancaria:', error);
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data };
+    } catch (error) {
+      console.error('Error al guardar la cuenta bancaria:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Error desconocido' };
+    }
+  }
+
+  /**
+   * Desactiva una cuenta bancaria; sus movimientos importados se conservan
+   * @param accountId ID de la cuenta
+   */
+  async deactivateAccount(accountId: string): Promise<BankAccountResult> {
+    try {
+      const { data, error } = await supabase
+        .from(TABLE_NAME)
+        .update({ is_active: false })
+        .eq('id', accountId)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error al desactivar la cuenta bancaria:', error);
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data };
+    } catch (error) {
+      console.error('Error al desactivar la cuenta bancaria:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Error desconocido' };
+    }
+  }
+}
+
+// Exportar la instancia del servicio
+export const supabaseBankAccountService = new SupabaseBankAccountService();
@@ -0,0 +1,173 @@
+import { supabase } from '../lib/supabase';
+import { getCompanyUuid } from './uuidMappingService';
+import { MovimientoExtracto } from './bankStatementService';
+
+// Estado de conciliación de un movimiento bancario
+export type EstadoMovimientoBancario = 'pendiente' | 'conciliado' | 'ignorado';
+
+// Interfaz para representar un movimiento importado del estado de cuenta
+export interface BankTransaction {
+  id?: string;
+  company_id?: string;
+  bank_account_id: string;
+  fecha: string;
+  descripcion: string;
+  referencia?: string;
+  monto: number;
+  saldo?: number;
+  import_hash: string;
+  estado: EstadoMovimientoBancario;
+  archivo?: string;
+  created_at?: string;
+}
+
+// Interfaz para el resultado de operaciones con movimientos
+export interface BankTransactionResult {
+  success: boolean;
+  data?: BankTransaction;
+  error?: string;
+}
+
+// Interfaz para los resultados de búsqueda de movimientos
+export interface BankTransactionSearchResult {
+  success: boolean;
+  data?: BankTransaction[];
+  error?: string;
+}
+
+// Interfaz para el resultado de una importación
+export interface BankTransactionImportResult {
+  success: boolean;
+  // Movimientos nuevos; los ya importados en otro archivo se omiten
+  importados?: number;
+  duplicados?: number;
+  error?: string;
+}
+
+const TABLE_NAME = 'bank_transactions';
+
+/**
+ * Servicio para gestionar en Supabase los movimientos de los estados de cuenta bancarios
+ */
+class SupabaseBankTransactionService {
+  /**
+   * Importa los movimientos de un estado de cuenta, omitiendo los ya importados
+   * @param accountId ID de la cuenta bancaria
+   * @param movimientos Movimientos leídos del archivo
+   * @param archivo Nombre del archivo importado
+   * @param companyId ID de la empresa
+   */
+  async importTransactions(
+    accountId: string,
+    movimientos: MovimientoExtracto[],
+    archivo: string,
+    companyId = 'innova'
+  ): Promise<BankTransactionImportResult> {
+    try {
+      if (movimientos.length === 0) {
+        return { success: true, importados: 0, duplicados: 0 };
+      }
+
+      const records: BankTransaction[] = movimientos.map(mov => ({
+        company_id: getCompanyUuid(companyId),
+        bank_account_id: accountId,
+        fecha: mov.fecha,
+        descripcion: mov.descripcion,
+        referencia: mov.referencia,
+        monto: mov.monto,
+        saldo: mov.saldo,
+        import_hash: mov.hash,
+        estado: 'pendiente',
+        archivo
+      }));
+
+      const { data, error } = await supabase
+        .from(TABLE_NAME)
+        .upsert(records, { onConflict: 'bank_account_id,import_hash', ignoreDuplicates: true })
+        .select('id');
+
+      if (error) {
+        console.error('Error al importar los movimientos bancarios:', error);
+        return { success: false, error: error.message };
+      }
+
+      const importados = data?.length || 0;
+      return { success: true, importados, duplicados: records.length - importados };
+    } catch (error) {
+      console.error('Error al importar los movimientos bancarios:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Error desconocido' };
+    }
+  }
+
+  /**
+   * Obtiene los movimientos importados de la empresa
+   * @param companyId ID de la empresa
+   * @param filters Cuenta bancaria y estado de conciliación
+   */
+  async getTransactions(
+    companyId = 'innova',
+    filters: { accountId?: string; estado?: EstadoMovimientoBancario } = {}
+  ): Promise<BankTransactionSearchResult> {
+    try {
+      let query = supabase
+        .from(TABLE_NAME)
+        .select('*')
+        .eq('company_id', getCompanyUuid(companyId));
+
+      if (filters.accountId) {
+        query = query.eq('bank_account_id', filters.accountId);
+      }
+      if (filters.estado) {
+        query = query.eq('estado', filters.estado);
+      }
+
+      const { data, error } = await query.order('fecha', { ascending: true });
+
+      if (error) {
+        console.error('Error al obtener los movimientos bancarios:', error);
+        return { success: false, error: error.message };
+      }
+
+      return {
+        success: true,
+        data: (data || []).map(record => ({
+          ...record,
+          monto: Number(record.monto),
+          saldo: record.saldo !== null && record.saldo !== undefined ? Number(record.saldo) : undefined
+        }))
+      };
+    } catch (error) {
+      console.error('Error al obtener los movimientos bancarios:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Error desconocido' };
+    }
+  }
+
+  /**
+   * Cambia el estado de conciliación de un movimiento
+   * @param transactionId ID del movimiento
+   * @param estado Nuevo estado
+   */
+  async updateStatus(transactionId: string, estado: EstadoMovimientoBancario): Promise<BankTransactionResult> {
+    try {
+      const { data, error } = await supabase
+        .from(TABLE_NAME)
+        .update({ estado })
+        .eq('id', transactionId)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error al actualizar el movimiento bancario:', error);
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data };
+    } catch (error) {
+      console.error('Error al actualizar el movimiento bancario:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Error desconocido' };
+    }
+  }
+}
+
+// Exportar la instancia del servicio
+export const supabaseBankTransactionService = new SupabaseBankTransactionService();
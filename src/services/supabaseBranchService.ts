@@ -0,0 +1,251 @@
+import { supabase } from '../lib/supabase';
+import { getCompanyUuid } from './uuidMappingService';
+import { Sucursal, Terminal } from './branchService';
+
+// Interfaz para representar una sucursal en la tabla branches
+export interface BranchRecord {
+  id?: string;
+  company_id?: string;
+  codigo: string;
+  nombre: string;
+  provincia?: string | null;
+  canton?: string | null;
+  distrito?: string | null;
+  barrio?: string | null;
+  otras_senas?: string | null;
+  telefono?: string | null;
+  correo?: string | null;
+  activa: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Interfaz para representar una terminal en la tabla terminals
+export interface TerminalRecord {
+  id?: string;
+  company_id?: string;
+  branch_id: string;
+  codigo: string;
+  nombre: string;
+  activa: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Interfaz para representar una serie de la tabla document_sequences
+export interface DocumentSequenceRecord {
+  environment: 'test' | 'prod';
+  sucursal: string;
+  terminal: string;
+  tipo_doc: string;
+  ultimo_consecutivo: number;
+  updated_at?: string;
+}
+
+// Interfaz para el resultado de operaciones con sucursales
+export interface BranchResult {
+  success: boolean;
+  data?: Sucursal[];
+  error?: string;
+}
+
+// Interfaz para el resultado de operaciones con terminales
+export interface TerminalResult {
+  success: boolean;
+  data?: Terminal[];
+  error?: string;
+}
+
+// Interfaz para el resultado de la consulta de series de consecutivos
+export interface DocumentSequenceResult {
+  success: boolean;
+  data?: DocumentSequenceRecord[];
+  error?: string;
+}
+
+const BRANCHES_TABLE = 'branches';
+const TERMINALS_TABLE = 'terminals';
+const SEQUENCES_TABLE = 'document_sequences';
+
+/**
+ * Convierte un registro de la tabla en la sucursal usada por la aplicación
+ */
+const toSucursal = (record: BranchRecord): Sucursal => ({
+  id: record.id,
+  codigo: record.codigo,
+  nombre: record.nombre,
+  provincia: record.provincia || undefined,
+  canton: record.canton || undefined,
+  distrito: record.distrito || undefined,
+  barrio: record.barrio || undefined,
+  otrasSenas: record.otras_senas || undefined,
+  telefono: record.telefono || undefined,
+  correo: record.correo || undefined,
+  activa: record.activa,
+});
+
+const toTerminal = (record: TerminalRecord): Terminal => ({
+  id: record.id,
+  sucursalId: record.branch_id,
+  codigo: record.codigo,
+  nombre: record.nombre,
+  activa: record.activa,
+});
+
+const fromSucursal = (sucursal: Sucursal): BranchRecord => ({
+  codigo: sucursal.codigo,
+  nombre: sucursal.nombre.trim(),
+  provincia: sucursal.provincia || null,
+  canton: sucursal.canton || null,
+  distrito: sucursal.distrito || null,
+  barrio: sucursal.barrio || null,
+  otras_senas: sucursal.otrasSenas || null,
+  telefono: sucursal.telefono || null,
+  correo: sucursal.correo || null,
+  activa: sucursal.activa,
+});
+
+/**
+ * Servicio para gestionar en Supabase las sucursales, sus terminales y las series de consecutivos
+ */
+class SupabaseBranchService {
+  /**
+   * Obtiene las sucursales de la empresa ordenadas por código
+   * @param companyId ID de la empresa
+   */
+  async getBranches(companyId = 'innova'): Promise<BranchResult> {
+    try {
+      const { data, error } = await supabase
+        .from(BRANCHES_TABLE)
+        .select('*')
+        .eq('company_id', getCompanyUuid(companyId))
+        .order('codigo', { ascending: true });
+
+      if (error) {
+        console.error('Error al obtener las sucursales:', error);
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data: (data || []).map(toSucursal) };
+    } catch (error) {
+      console.error('Error al obtener las sucursales:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Error desconocido' };
+    }
+  }
+
+  /**
+   * Crea o actualiza una sucursal
+   * @param sucursal Datos de la sucursal; con id se actualiza
+   * @param companyId ID de la empresa
+   */
+  async saveBranch(sucursal: Sucursal, companyId = 'innova'): Promise<BranchResult> {
+    try {
+      const record = { ...fromSucursal(sucursal), company_id: getCompanyUuid(companyId), updated_at: new Date().toISOString() };
+      const query = sucursal.id
+        ? supabase.from(BRANCHES_TABLE).update(record).eq('id', sucursal.id)
+        : supabase.from(BRANCHES_TABLE).insert(record);
+      const { data, error } = await query.select().single();
+
+      if (error) {
+        console.error('Error al guardar la sucursal:', error);
+        return {
+          success: false,
+          error: error.code === '23505' ? `Ya existe una sucursal con el código ${sucursal.codigo}` : error.message
+        };
+      }
+
+      return { success: true, data: [toSucursal(data)] };
+    } catch (error) {
+      console.error('Error al guardar la sucursal:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Error desconocido' };
+    }
+  }
+
+  /**
+   * Obtiene las terminales de todas las sucursales de la empresa
+   * @param companyId ID de la empresa
+   */
+  async getTerminals(companyId = 'innova'): Promise<TerminalResult> {
+    try {
+      const { data, error } = await supabase
+        .from(TERMINALS_TABLE)
+        .select('*')
+        .eq('company_id', getCompanyUuid(companyId))
+        .order('codigo', { ascending: true });
+
+      if (error) {
+        console.error('Error al obtener las terminales:', error);
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data: (data || []).map(toTerminal) };
+    } catch (error) {
+      console.error('Error al obtener las terminales:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Error desconocido' };
+    }
+  }
+
+  /**
+   * Crea o actualiza una terminal
+   * @param terminal Datos de la terminal; con id se actualiza
+   * @param companyId ID de la empresa
+   */
+  async saveTerminal(terminal: Terminal, companyId = 'innova'): Promise<TerminalResult> {
+    try {
+      const record: TerminalRecord & { company_id: string; updated_at: string } = {
+        branch_id: terminal.sucursalId,
+        codigo: terminal.codigo,
+        nombre: terminal.nombre.trim(),
+        activa: terminal.activa,
+        company_id: getCompanyUuid(companyId),
+        updated_at: new Date().toISOString()
+      };
+      const query = terminal.id
+        ? supabase.from(TERMINALS_TABLE).update(record).eq('id', terminal.id)
+        : supabase.from(TERMINALS_TABLE).insert(record);
+      const { data, error } = await query.select().single();
+
+      if (error) {
+        console.error('Error al guardar la terminal:', error);
+        return {
+          success: false,
+          error: error.code === '23505' ? `La sucursal ya tiene una terminal con el código ${terminal.codigo}` : error.message
+        };
+      }
+
+      return { success: true, data: [toTerminal(data)] };
+    } catch (error) {
+      console.error('Error al guardar la terminal:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Error desconocido' };
+    }
+  }
+
+  /**
+   * Obtiene los últimos consecutivos asignados a cada sucursal, terminal y tipo de documento
+   * @param companyId ID de la empresa
+   */
+  async getSequences(companyId = 'innova'): Promise<DocumentSequenceResult> {
+    try {
+      const { data, error } = await supabase
+        .from(SEQUENCES_TABLE)
+        .select('environment, sucursal, terminal, tipo_doc, ultimo_consecutivo, updated_at')
+        .eq('company_id', getCompanyUuid(companyId));
+
+      if (error) {
+        console.error('Error al obtener los consecutivos:', error);
+        return { success: false, error: error.message };
+      }
+
+      return {
+        success: true,
+        data: (data || []).map(record => ({ ...record, ultimo_consecutivo: Number(record.ultimo_consecutivo) }))
+      };
+    } catch (error) {
+      console.error('Error al obtener los consecutivos:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Error desconocido' };
+    }
+  }
+}
+
+// Exportar la instancia del servicio
+export const supabaseBranchService = new SupabaseBranchService();
@@ -0,0 +1,258 @@
+import { supabase } from '../lib/supabase';
+import { getCompanyUuid } from './uuidMappingService';
+import { CierreCaja, MovimientoCaja, SesionCaja } from './cashRegisterService';
+
+// Interfaz para representar una sesión en la tabla cash_sessions
+export interface CashSessionRecord {
+  id?: string;
+  company_id?: string;
+  user_id?: string;
+  username: string;
+  terminal: string;
+  moneda: string;
+  fondo_inicial: number;
+  estado: 'abierta' | 'cerrada';
+  fecha_apertura?: string;
+  fecha_cierre?: string;
+  diferencia_total?: number;
+  notas_cierre?: string;
+  cierre?: CierreCaja;
+  created_at?: string;
+}
+
+// Interfaz para representar un movimiento en la tabla cash_movements
+export interface CashMovementRecord {
+  id?: string;
+  company_id?: string;
+  session_id: string;
+  tipo: 'entrada' | 'salida';
+  monto: number;
+  motivo: string;
+  username?: string;
+  created_at?: string;
+}
+
+// Interfaz para el resultado de operaciones con sesiones de caja
+export interface CashSessionResult {
+  success: boolean;
+  data?: SesionCaja;
+  error?: string;
+}
+
+// Interfaz para los resultados de búsqueda de sesiones cerradas
+export interface CashSessionSearchResult {
+  success: boolean;
+  data?: CashSessionRecord[];
+  error?: string;
+}
+
+// Interfaz para el resultado de operaciones con movimientos de caja
+export interface CashMovementResult {
+  success: boolean;
+  data?: MovimientoCaja[];
+  error?: string;
+}
+
+const SESSIONS_TABLE = 'cash_sessions';
+const MOVEMENTS_TABLE = 'cash_movements';
+
+/**
+ * Convierte un registro de la tabla en la sesión usada por la aplicación
+ */
+const toSesionCaja = (record: CashSessionRecord): SesionCaja => ({
+  id: record.id as string,
+  terminal: record.terminal,
+  usuario: record.username,
+  usuarioId: record.user_id || undefined,
+  moneda: record.moneda,
+  fondoInicial: Number(record.fondo_inicial),
+  fechaApertura: record.fecha_apertura || record.created_at || new Date().toISOString(),
+  fechaCierre: record.fecha_cierre || undefined,
+  estado: record.estado,
+});
+
+const toMovimientoCaja = (record: CashMovementRecord): MovimientoCaja => ({
+  id: record.id,
+  tipo: record.tipo,
+  monto: Number(record.monto),
+  motivo: record.motivo,
+  usuario: record.username || undefined,
+  fecha: record.created_at || new Date().toISOString(),
+});
+
+/**
+ * Servicio para gestionar en Supabase las sesiones de caja y sus movimientos
+ */
+class SupabaseCashSessionService {
+  /**
+   * Obtiene la sesión abierta de una terminal
+   * @param terminal Código de la terminal
+   * @param companyId ID de la empresa
+   */
+  async getOpenSession(terminal: string, companyId = 'innova'): Promise<CashSessionResult> {
+    try {
+      const { data, error } = await supabase
+        .from(SESSIONS_TABLE)
+        .select('*')
+        .eq('company_id', getCompanyUuid(companyId))
+        .eq('terminal', terminal)
+        .eq('estado', 'abierta')
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error al obtener la sesión de caja:', error);
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data: data ? toSesionCaja(data) : undefined };
+    } catch (error) {
+      console.error('Error al obtener la sesión de caja:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Error desconocido' };
+    }
+  }
+
+  /**
+   * Abre una sesión de caja con su fondo inicial
+   * @param session Usuario, terminal, moneda y fondo inicial
+   * @param companyId ID de la empresa
+   */
+  async openSession(
+    session: Pick<CashSessionRecord, 'user_id' | 'username' | 'terminal' | 'moneda' | 'fondo_inicial'>,
+    companyId = 'innova'
+  ): Promise<CashSessionResult> {
+    try {
+      const { data, error } = await supabase
+        .from(SESSIONS_TABLE)
+        .insert({ ...session, company_id: getCompanyUuid(companyId), estado: 'abierta' })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error al abrir la sesión de caja:', error);
+        // Los índices únicos impiden dos sesiones abiertas en la misma terminal o del mismo usuario
+        return {
+          success: false,
+          error: error.code === '23505'
+            ? 'Ya existe una sesión de caja abierta para esta terminal o este usuario'
+            : error.message
+        };
+      }
+
+      return { success: true, data: toSesionCaja(data) };
+    } catch (error) {
+      console.error('Error al abrir la sesión de caja:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Error desconocido' };
+    }
+  }
+
+  /**
+   * Obtiene las entradas y salidas de efectivo de una sesión
+   * @param sessionId ID de la sesión
+   */
+  async getMovements(sessionId: string): Promise<CashMovementResult> {
+    try {
+      const { data, error } = await supabase
+        .from(MOVEMENTS_TABLE)
+        .select('*')
+        .eq('session_id', sessionId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error al obtener los movimientos de caja:', error);
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data: (data || []).map(toMovimientoCaja) };
+    } catch (error) {
+      console.error('Error al obtener los movimientos de caja:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Error desconocido' };
+    }
+  }
+
+  /**
+   * Registra una entrada o salida de efectivo
+   * @param movement Datos del movimiento
+   * @param companyId ID de la empresa
+   */
+  async addMovement(movement: CashMovementRecord, companyId = 'innova'): Promise<CashMovementResult> {
+    try {
+      const { data, error } = await supabase
+        .from(MOVEMENTS_TABLE)
+        .insert({ ...movement, company_id: getCompanyUuid(companyId) })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error al registrar el movimiento de caja:', error);
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data: [toMovimientoCaja(data)] };
+    } catch (error) {
+      console.error('Error al registrar el movimiento de caja:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Error desconocido' };
+    }
+  }
+
+  /**
+   * Cierra la sesión y guarda el reporte de cierre para auditoría
+   * @param cierre Reporte de cierre (Z)
+   */
+  async closeSession(cierre: CierreCaja): Promise<CashSessionResult> {
+    try {
+      const { data, error } = await supabase
+        .from(SESSIONS_TABLE)
+        .update({
+          estado: 'cerrada',
+          fecha_cierre: cierre.fechaCierre,
+          diferencia_total: cierre.diferenciaTotal,
+          notas_cierre: cierre.notas,
+          cierre
+        })
+        .eq('id', cierre.sesion.id)
+        .eq('estado', 'abierta')
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error al cerrar la sesión de caja:', error);
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data: toSesionCaja(data) };
+    } catch (error) {
+      console.error('Error al cerrar la sesión de caja:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Error desconocido' };
+    }
+  }
+
+  /**
+   * Obtiene las sesiones cerradas de la empresa, de la más reciente a la más antigua
+   * @param companyId ID de la empresa
+   * @param limit Cantidad máxima de sesiones
+   */
+  async getClosedSessions(companyId = 'innova', limit = 50): Promise<CashSessionSearchResult> {
+    try {
+      const { data, error } = await supabase
+        .from(SESSIONS_TABLE)
+        .select('*')
+        .eq('company_id', getCompanyUuid(companyId))
+        .eq('estado', 'cerrada')
+        .order('fecha_cierre', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        console.error('Error al obtener las sesiones de caja:', error);
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data: data || [] };
+    } catch (error) {
+      console.error('Error al obtener las sesiones de caja:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Error desconocido' };
+    }
+  }
+}
+
+// Exportar la instancia del servicio
+export const supabaseCashSessionService = new SupabaseCashSessionService();
@@ -1,6 +1,7 @@
 import { supabase } from '../lib/supabase';
 import { supabaseAuthService } from './supabaseAuthService';
 import { getCompanyUuid } from './uuidMappingService';
+import { isOnline, offlineCacheService, paginateCached } from './offlineCacheService';
 
 // Interfaz para representar un cliente
 export interface Client {
@@ -18,6 +19,10 @@ export interface Client {
   address?: string;
   economic_activity_code?: string;
   economic_activity_desc?: string;
+  // Condiciones de crédito: límite en colones, plazo por defecto y bloqueo manual
+  credit_limit?: number | null;
+  default_credit_days?: number | null;
+  credit_blocked?: boolean;
   is_active?: boolean;
   created_at?: string;
   updated_at?: string;
@@ -64,6 +69,12 @@ class SupabaseClientService {
       const companyUuid = getCompanyUuid(user.company_id);
       console.log(`✅ CLIENTES - Usando UUID para empresa ${user.company_id}: ${companyUuid}`);
       
+      // Sin conexión se responde desde la caché local del dispositivo
+      if (!isOnline()) {
+        console.log('CLIENTES - Sin conexión, usando la caché local');
+        return this.getCachedClients(user.company_id, page, limit, searchTerm);
+      }
+      
       // 3. Intentar una consulta simple para verificar la conexión
       const { count: testCount, error: testError } = await supabase
         .from('clients')
@@ -72,6 +83,10 @@ class SupabaseClientService {
       
       if (testError) {
         console.error('❌ CLIENTES - Error crítico de conexión con Supabase:', testError);
+        const cached = await this.getCachedClients(user.company_id, page, limit, searchTerm);
+        if (cached.success) {
+          return cached;
+        }
         return {
           success: false,
           error: `Error de conexión con la base de datos: ${testError.message}`
@@ -140,6 +155,11 @@ class SupabaseClientService {
       
       console.log(`✅ CLIENTES - Se encontraron ${cleanData.length} clientes (total: ${count || 0})`);
       
+      // Guardar el catálogo completo para poder vender sin conexión
+      if (limit > 100 && !searchTerm) {
+        await offlineCacheService.set('clients', user.company_id, cleanData);
+      }
+      
       // 7. Devolver resultado exitoso
       return {
         success: true,
@@ -156,6 +176,24 @@ class SupabaseClientService {
     }
   }
   
+  /**
+   * Obtiene los clientes guardados en la caché local, con el mismo filtro y paginación de la consulta
+   */
+  private async getCachedClients(companyId: string, page: number, limit: number, searchTerm: string): Promise<ClientSearchResult> {
+    const cached = await offlineCacheService.get<Client[]>('clients', companyId);
+    if (!cached) {
+      return {
+        success: false,
+        error: 'Sin conexión y sin clientes guardados en este dispositivo'
+      };
+    }
+    // Igual que en línea, un límite mayor a 100 trae todos los registros
+    const { data, total } = limit > 100
+      ? paginateCached(cached.data, 1, cached.data.length || 1, searchTerm, ['name', 'identification_number'])
+      : paginateCached(cached.data, page, limit, searchTerm, ['name', 'identification_number']);
+    return { success: true, data, total };
+  }
+  
   /**
    * Obtiene un cliente por su ID
    */
@@ -1,5 +1,6 @@
 import { supabase } from '../lib/supabase';
 import { envService } from './envService';
+import { offlineCacheService } from './offlineCacheService';
 
 // Tipos para la tabla de empresas
 export interface Company {
@@ -376,6 +377,7 @@ class SupabaseCompanyService {
           console.error(`Error al obtener empresa ${companyId}:`, error);
           // No lanzar el error, seguir con el fallback
         } else if (data) {
+          await offlineCacheService.set('company', companyId, data);
           return data;
         }
       } catch (error) {
@@ -384,7 +386,13 @@ class SupabaseCompanyService {
       }
     }
     
-    // Si llegamos aquí, no se encontró la empresa en Supabase
+    // Si llegamos aquí, no se encontró la empresa en Supabase (por ejemplo, sin conexión)
+    const cachedCompany = await offlineCacheService.get<Company>('company', companyId);
+    if (cachedCompany) {
+      console.log(`Usando la empresa ${companyId} guardada en la caché local`);
+      return cachedCompany.data;
+    }
+
     // Intentar usar memoria local como último recurso
     const localCompanyData = localStorage.getItem(`company_${companyId}`);
     if (localCompanyData) {
@@ -539,10 +547,19 @@ class SupabaseCompanyService {
         throw error;
       }
       
+      if (data) {
+        await offlineCacheService.set('company_settings', companyId, data);
+      }
       return data || null;
     } catch (error) {
       console.error(`Error en getCompanySettings para ${companyId}:`, error);
       
+      // Sin conexión, usar la última configuración guardada en el dispositivo
+      const cachedSettings = await offlineCacheService.get<CompanySettings>('company_settings', companyId);
+      if (cachedSettings) {
+        return cachedSettings.data;
+      }
+      
       // Compatibilidad con el sistema antiguo durante la migración
       // Si no hay datos en Supabase, intentar cargar desde el archivo .env
       try {
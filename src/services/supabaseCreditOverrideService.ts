@@ -0,0 +1,61 @@
+import { supabase } from '../lib/supabase';
+import { getCompanyUuid } from './uuidMappingService';
+
+// Interfaz para representar una autorización de venta a crédito en la tabla credit_overrides
+export interface CreditOverrideRecord {
+  id?: string;
+  company_id?: string;
+  client_id?: string;
+  client_identification: string;
+  invoice_total: number;
+  outstanding_balance: number;
+  credit_limit?: number | null;
+  reasons: string;
+  supervisor_id?: string;
+  supervisor_username: string;
+  requested_by?: string;
+  notes?: string;
+  created_at?: string;
+}
+
+// Interfaz para el resultado de operaciones con autorizaciones
+export interface CreditOverrideResult {
+  success: boolean;
+  data?: CreditOverrideRecord;
+  error?: string;
+}
+
+const TABLE_NAME = 'credit_overrides';
+
+/**
+ * Servicio para registrar en Supabase las autorizaciones de supervisor sobre ventas a crédito bloqueadas
+ */
+class SupabaseCreditOverrideService {
+  /**
+   * Registra la autorización de un supervisor
+   * @param override Datos de la venta autorizada
+   * @param companyId ID de la empresa
+   */
+  async logOverride(override: CreditOverrideRecord, companyId = 'innova'): Promise<CreditOverrideResult> {
+    try {
+      const { data, error } = await supabase
+        .from(TABLE_NAME)
+        .insert({ ...override, company_id: getCompanyUuid(companyId) })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error al registrar la autorización de crédito:', error);
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data };
+    } catch (error) {
+      console.error('Error al registrar la autorización de crédito:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Error desconocido' };
+    }
+  }
+}
+
+// Exportar la instancia del servicio
+export const supabaseCreditOverrideService = new SupabaseCreditOverrideService();
@@ -0,0 +1,110 @@
+import { supabase } from '../lib/supabase';
+import { getCompanyUuid } from './uuidMappingService';
+import { JustificacionFaltante } from './consecutiveAuditService';
+
+// Interfaz para representar una justificación en la tabla consecutive_gap_justifications
+export interface GapJustificationRecord {
+  id?: string;
+  company_id?: string;
+  environment: 'test' | 'prod';
+  tipo_doc: string;
+  sucursal: string;
+  terminal: string;
+  desde: number;
+  hasta: number;
+  justificacion: string;
+  username?: string | null;
+  created_at?: string;
+}
+
+// Interfaz para el resultado de operaciones con justificaciones
+export interface GapJustificationResult {
+  success: boolean;
+  data?: JustificacionFaltante[];
+  error?: string;
+}
+
+const JUSTIFICATIONS_TABLE = 'consecutive_gap_justifications';
+
+/**
+ * Convierte un registro de la tabla en la justificación usada por la aplicación
+ */
+const toJustificacion = (record: GapJustificationRecord): JustificacionFaltante => ({
+  id: record.id,
+  ambiente: record.environment,
+  tipoDoc: record.tipo_doc,
+  sucursal: record.sucursal,
+  terminal: record.terminal,
+  desde: Number(record.desde),
+  hasta: Number(record.hasta),
+  justificacion: record.justificacion,
+  usuario: record.username || undefined,
+  fecha: record.created_at,
+});
+
+/**
+ * Servicio para gestionar en Supabase las justificaciones de consecutivos faltantes
+ */
+class SupabaseGapJustificationService {
+  /**
+   * Obtiene las justificaciones de la empresa, de la más reciente a la más antigua
+   * @param companyId ID de la empresa
+   */
+  async getJustifications(companyId = 'innova'): Promise<GapJustificationResult> {
+    try {
+      const { data, error } = await supabase
+        .from(JUSTIFICATIONS_TABLE)
+        .select('*')
+        .eq('company_id', getCompanyUuid(companyId))
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error al obtener las justificaciones de consecutivos:', error);
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data: (data || []).map(toJustificacion) };
+    } catch (error) {
+      console.error('Error al obtener las justificaciones de consecutivos:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Error desconocido' };
+    }
+  }
+
+  /**
+   * Registra la justificación de un rango faltante; las anteriores se conservan como historial
+   * @param justificacion Serie, rango y motivo
+   * @param companyId ID de la empresa
+   */
+  async saveJustification(justificacion: JustificacionFaltante, companyId = 'innova'): Promise<GapJustificationResult> {
+    try {
+      const record: GapJustificationRecord & { company_id: string } = {
+        company_id: getCompanyUuid(companyId),
+        environment: justificacion.ambiente,
+        tipo_doc: justificacion.tipoDoc,
+        sucursal: justificacion.sucursal,
+        terminal: justificacion.terminal,
+        desde: justificacion.desde,
+        hasta: justificacion.hasta,
+        justificacion: justificacion.justificacion.trim(),
+        username: justificacion.usuario || null,
+      };
+      const { data, error } = await supabase
+        .from(JUSTIFICATIONS_TABLE)
+        .insert(record)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error al guardar la justificación:', error);
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data: [toJustificacion(data)] };
+    } catch (error) {
+      console.error('Error al guardar la justificación:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Error desconocido' };
+    }
+  }
+}
+
+export const supabaseGapJustificationService = new SupabaseGapJustificationService();
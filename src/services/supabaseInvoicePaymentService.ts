@@ -0,0 +1,199 @@
+import { supabase } from '../lib/supabase';
+import { getCompanyUuid } from './uuidMappingService';
+import { PagoFactura, ReciboPago } from '../hooks/useInvoiceHistory';
+
+// Interfaz para representar un pago o abono en la tabla invoice_payments
+export interface InvoicePaymentRecord {
+  id?: string;
+  company_id?: string;
+  invoice_id: string;
+  invoice_clave?: string;
+  fecha_pago: string;
+  monto: number;
+  moneda: string;
+  medio_pago: string;
+  cuenta_bancaria?: string;
+  banco?: string;
+  referencia?: string;
+  notas?: string;
+  // Recibo Electrónico de Pago (serie 10)
+  recibo_clave?: string;
+  recibo_consecutivo?: string;
+  recibo_fecha_emision?: string;
+  recibo_estado?: 'pendiente' | 'enviado' | 'en_cola' | 'error';
+  recibo_error?: string;
+  recibo_xml?: string;
+  bank_transaction_id?: string;
+  created_at?: string;
+}
+
+// Interfaz para el resultado de operaciones con pagos
+export interface InvoicePaymentResult {
+  success: boolean;
+  data?: PagoFactura;
+  error?: string;
+}
+
+// Interfaz para los resultados de búsqueda de pagos, agrupados por factura
+export interface InvoicePaymentSearchResult {
+  success: boolean;
+  data?: Record<string, PagoFactura[]>;
+  error?: string;
+}
+
+const TABLE_NAME = 'invoice_payments';
+
+/**
+ * Convierte un registro de la tabla en el pago usado por la aplicación
+ */
+const toPagoFactura = (record: InvoicePaymentRecord): PagoFactura => ({
+  id: record.id,
+  fechaPago: record.fecha_pago,
+  monto: Number(record.monto),
+  medioPago: record.medio_pago,
+  cuentaBancaria: record.cuenta_bancaria || undefined,
+  banco: record.banco || undefined,
+  referencia: record.referencia || undefined,
+  notas: record.notas || undefined,
+  recibo: record.recibo_clave && record.recibo_consecutivo && record.recibo_estado
+    ? {
+        clave: record.recibo_clave,
+        numeroConsecutivo: record.recibo_consecutivo,
+        fechaEmision: record.recibo_fecha_emision || record.fecha_pago,
+        estadoEnvio: record.recibo_estado,
+        error: record.recibo_error || undefined,
+        xmlContent: record.recibo_xml || undefined,
+      }
+    : undefined,
+  movimientoBancarioId: record.bank_transaction_id || undefined,
+  fechaRegistro: record.created_at,
+});
+
+/**
+ * Servicio para gestionar en Supabase los pagos y abonos de las facturas
+ */
+class SupabaseInvoicePaymentService {
+  /**
+   * Registra un pago o abono de una factura
+   * @param invoice Factura pagada (id, clave y moneda)
+   * @param pago Datos del pago y su recibo electrónico
+   * @param companyId ID de la empresa
+   */
+  async savePayment(
+    invoice: { id: string; claveNumerica?: string; moneda?: string },
+    pago: PagoFactura,
+    companyId = 'innova'
+  ): Promise<InvoicePaymentResult> {
+    try {
+      const record: InvoicePaymentRecord = {
+        company_id: getCompanyUuid(companyId),
+        invoice_id: invoice.id,
+        invoice_clave: invoice.claveNumerica,
+        fecha_pago: pago.fechaPago,
+        monto: pago.monto,
+        moneda: invoice.moneda || 'CRC',
+        medio_pago: pago.medioPago,
+        cuenta_bancaria: pago.cuentaBancaria,
+        banco: pago.banco,
+        referencia: pago.referencia,
+        notas: pago.notas,
+        recibo_clave: pago.recibo?.clave,
+        recibo_consecutivo: pago.recibo?.numeroConsecutivo,
+        recibo_fecha_emision: pago.recibo?.fechaEmision,
+        recibo_estado: pago.recibo?.estadoEnvio,
+        recibo_error: pago.recibo?.error,
+        recibo_xml: pago.recibo?.xmlContent,
+        bank_transaction_id: pago.movimientoBancarioId,
+      };
+
+      const { data, error } = await supabase
+        .from(TABLE_NAME)
+        .insert(record)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error al guardar el pago de la factura:', error);
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data: toPagoFactura(data) };
+    } catch (error) {
+      console.error('Error al guardar el pago de la factura:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Error desconocido' };
+    }
+  }
+
+  /**
+   * Actualiza el estado de envío del recibo electrónico de un pago ya registrado
+   * @param paymentId ID del pago
+   * @param recibo Recibo con el resultado del envío a Hacienda
+   */
+  async updateRecibo(paymentId: string, recibo: ReciboPago): Promise<InvoicePaymentResult> {
+    try {
+      const { data, error } = await supabase
+        .from(TABLE_NAME)
+        .update({
+          recibo_estado: recibo.estadoEnvio,
+          recibo_error: recibo.error ?? null,
+          recibo_xml: recibo.xmlContent
+        })
+        .eq('id', paymentId)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error al actualizar el recibo de pago:', error);
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data: toPagoFactura(data) };
+    } catch (error) {
+      console.error('Error al actualizar el recibo de pago:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Error desconocido' };
+    }
+  }
+
+  /**
+   * Obtiene los pagos de la empresa agrupados por factura, en orden cronológico
+   * @param companyId ID de la empresa
+   * @param invoiceId Filtrar por factura (opcional)
+   */
+  async getPayments(companyId = 'innova', invoiceId?: string): Promise<InvoicePaymentSearchResult> {
+    try {
+      let query = supabase
+        .from(TABLE_NAME)
+        .select('*')
+        .eq('company_id', getCompanyUuid(companyId));
+
+      if (invoiceId) {
+        query = query.eq('invoice_id', invoiceId);
+      }
+
+      const { data, error } = await query
+        .order('fecha_pago', { ascending: true })
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error al obtener los pagos de facturas:', error);
+        return { success: false, error: error.message };
+      }
+
+      const pagosPorFactura: Record<string, PagoFactura[]> = {};
+      (data || []).forEach((record: InvoicePaymentRecord) => {
+        if (!pagosPorFactura[record.invoice_id]) {
+          pagosPorFactura[record.invoice_id] = [];
+        }
+        pagosPorFactura[record.invoice_id].push(toPagoFactura(record));
+      });
+
+      return { success: true, data: pagosPorFactura };
+    } catch (error) {
+      console.error('Error al obtener los pagos de facturas:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Error desconocido' };
+    }
+  }
+}
+
+// Exportar la instancia del servicio
+export const supabaseInvoicePaymentService = new SupabaseInvoicePaymentService();
@@ -375,6 +375,77 @@ class SupabaseInvoiceService {
     }
   }
   
+  /**
+   * Actualiza el estado de Hacienda de una factura ubicándola por su clave numérica
+   * (el id del historial es el consecutivo, no el UUID de la tabla invoices)
+   */
+  async updateHaciendaStatusByKey(
+    keyDocument: string,
+    status: string,
+    haciendaStatus: string,
+    haciendaMessage?: string,
+    haciendaResponseXml?: string
+  ): Promise<InvoiceResult> {
+    try {
+      const user = supabaseAuthService.getCurrentUser();
+
+      if (!user || !user.company_id) {
+        return {
+          success: false,
+          error: 'Usuario no autenticado o empresa no seleccionada'
+        };
+      }
+
+      const updateData: Partial<Invoice> & { hacienda_response_xml?: string; updated_at: string } = {
+        status,
+        hacienda_status: haciendaStatus,
+        updated_at: new Date().toISOString()
+      };
+
+      if (haciendaMessage) {
+        updateData.hacienda_message = haciendaMessage;
+      }
+
+      // Guardar el MensajeHacienda recibido como respuesta
+      if (haciendaResponseXml) {
+        updateData.hacienda_response_xml = haciendaResponseXml;
+      }
+
+      const { data, error } = await supabase
+        .from('invoices')
+        .update(updateData)
+        .eq('key_document', keyDocument)
+        .eq('company_id', user.company_id)
+        .select();
+
+      if (error) {
+        console.error(`Error al actualizar el estado de Hacienda de ${keyDocument}:`, error);
+        return {
+          success: false,
+          error: `Error al actualizar el estado de Hacienda: ${error.message}`
+        };
+      }
+
+      if (!data || data.length === 0) {
+        return {
+          success: false,
+          error: `No existe una factura con la clave ${keyDocument} en la empresa actual`
+        };
+      }
+
+      return {
+        success: true,
+        data: data[0]
+      };
+    } catch (error) {
+      console.error(`Error en updateHaciendaStatusByKey para ${keyDocument}:`, error);
+      return {
+        success: false,
+        error: 'Error al actualizar el estado de Hacienda'
+      };
+    }
+  }
+
   /**
    * Actualiza el contenido XML y la ruta del PDF de una factura
    */
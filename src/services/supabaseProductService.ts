@@ -1,6 +1,7 @@
 import { supabase } from '../lib/supabase';
 import { supabaseAuthService } from './supabaseAuthService';
 import { getCompanyUuid } from './uuidMappingService';
+import { isOnline, offlineCacheService, paginateCached } from './offlineCacheService';
 
 // Interfaz para representar un producto
 export interface Product {
@@ -76,6 +77,12 @@ class SupabaseProductService {
       const companyUuid = getCompanyUuid(user.company_id);
       console.log(`✅ PRODUCTOS - Usando UUID para empresa ${user.company_id}: ${companyUuid}`);
       
+      // Sin conexión se responde desde la caché local del dispositivo
+      if (!isOnline()) {
+        console.log('PRODUCTOS - Sin conexión, usando la caché local');
+        return this.getCachedProducts(user.company_id, page, limit, searchTerm);
+      }
+      
       // 3. Intentar una consulta simple para verificar la conexión
       const { count: testCount, error: testError } = await supabase
         .from('products')
@@ -84,6 +91,10 @@ class SupabaseProductService {
       
       if (testError) {
         console.error('❌ PRODUCTOS - Error crítico de conexión con Supabase:', testError);
+        const cached = await this.getCachedProducts(user.company_id, page, limit, searchTerm);
+        if (cached.success) {
+          return cached;
+        }
         return {
           success: false,
           error: `Error de conexión con la base de datos: ${testError.message}`
@@ -152,6 +163,11 @@ class SupabaseProductService {
       
       console.log(`✅ PRODUCTOS - Se encontraron ${cleanData.length} productos (total: ${count || 0})`);
       
+      // Guardar el catálogo completo para poder vender sin conexión
+      if (limit > 100 && !searchTerm) {
+        await offlineCacheService.set('products', user.company_id, cleanData);
+      }
+      
       // 7. Devolver resultado exitoso
       return {
         success: true,
@@ -168,6 +184,24 @@ class SupabaseProductService {
     }
   }
   
+  /**
+   * Obtiene los productos guardados en la caché local, con el mismo filtro y paginación de la consulta
+   */
+  private async getCachedProducts(companyId: string, page: number, limit: number, searchTerm: string): Promise<ProductSearchResult> {
+    const cached = await offlineCacheService.get<Product[]>('products', companyId);
+    if (!cached) {
+      return {
+        success: false,
+        error: 'Sin conexión y sin productos guardados en este dispositivo'
+      };
+    }
+    // Igual que en línea, un límite mayor a 100 trae todos los registros
+    const { data, total } = limit > 100
+      ? paginateCached(cached.data, 1, cached.data.length || 1, searchTerm, ['name', 'code', 'description'])
+      : paginateCached(cached.data, page, limit, searchTerm, ['name', 'code', 'description']);
+    return { success: true, data, total };
+  }
+  
   /**
    * Obtiene un producto por su ID
    */
@@ -323,6 +323,53 @@ class SupabaseStorageService {
     }
   }
   
+  /**
+   * Obtiene el certificado de Hacienda (.p12) de una empresa junto con su PIN
+   */
+  async getCertificate(companyId: string): Promise<StorageResult> {
+    try {
+      const { data: certRecord, error: recordError } = await supabase
+        .from('certificates')
+        .select('storage_path, filename, pin')
+        .eq('company_id', companyId)
+        .maybeSingle();
+      
+      if (recordError || !certRecord) {
+        return {
+          success: false,
+          error: 'Certificado no registrado'
+        };
+      }
+      
+      const { data, error } = await supabase.storage
+        .from(this.CERT_BUCKET)
+        .download(certRecord.storage_path);
+      
+      if (error || !data) {
+        console.error(`Error al descargar certificado de empresa ${companyId}:`, error);
+        return {
+          success: false,
+          error: 'Certificado no encontrado'
+        };
+      }
+      
+      return {
+        success: true,
+        data: {
+          file: data,
+          filename: certRecord.filename,
+          pin: certRecord.pin
+        }
+      };
+    } catch (error) {
+      console.error(`Error en getCertificate para ${companyId}:`, error);
+      return {
+        success: false,
+        error: 'Error al obtener certificado'
+      };
+    }
+  }
+  
   /**
    * Registra un certificado en la base de datos
    */
@@ -0,0 +1,153 @@
+import { supabase } from '../lib/supabase';
+import { getCompanyUuid } from './uuidMappingService';
+
+// Interfaz para representar un comprobante recibido de un proveedor (libro de compras)
+export interface SupplierDocument {
+  id?: string;
+  company_id?: string;
+  clave: string;
+  tipo_documento: string; // 01 Factura electrónica, 08 Factura electrónica de compra
+  numero_consecutivo: string;
+  fecha_emision: string;
+  emisor_nombre: string;
+  emisor_tipo_identificacion: string;
+  emisor_numero_identificacion: string;
+  receptor_numero_identificacion?: string;
+  codigo_actividad?: string;
+  moneda: string;
+  tipo_cambio?: number;
+  total_venta_neta?: number;
+  total_impuesto: number;
+  total_comprobante: number;
+  xml_original: string;
+  // Respuesta del receptor (MensajeReceptor)
+  mensaje?: '1' | '2' | '3';
+  detalle_mensaje?: string;
+  condicion_impuesto?: string;
+  monto_impuesto_acreditar?: number;
+  monto_gasto_aplicable?: number;
+  consecutivo_receptor?: string;
+  xml_mensaje?: string;
+  estado_envio?: 'sin_responder' | 'enviado' | 'en_cola' | 'error';
+  // importado: XML recibido del proveedor; emitido: Factura Electrónica de Compra emitida por la empresa
+  origen?: 'importado' | 'emitido';
+  hacienda_estado?: string;
+  ultimo_error?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Interfaz para el resultado de operaciones con comprobantes de proveedores
+export interface SupplierDocumentResult {
+  success: boolean;
+  data?: SupplierDocument;
+  error?: string;
+}
+
+// Interfaz para los resultados de búsqueda de comprobantes de proveedores
+export interface SupplierDocumentSearchResult {
+  success: boolean;
+  data?: SupplierDocument[];
+  error?: string;
+}
+
+const TABLE_NAME = 'supplier_documents';
+
+/**
+ * Servicio para gestionar en Supabase los comprobantes recibidos de proveedores
+ */
+class SupabaseSupplierDocumentService {
+  /**
+   * Guarda un comprobante recibido. Si la clave ya existe para la empresa, se actualiza.
+   * @param document Comprobante del proveedor
+   * @param companyId ID de la empresa
+   */
+  async saveDocument(document: SupplierDocument, companyId = 'innova'): Promise<SupplierDocumentResult> {
+    try {
+      const { data, error } = await supabase
+        .from(TABLE_NAME)
+        .upsert({
+          ...document,
+          company_id: getCompanyUuid(companyId),
+          updated_at: new Date().toISOString()
+        }, { onConflict: 'company_id,clave' })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error al guardar comprobante del proveedor:', error);
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data };
+    } catch (error) {
+      console.error('Error al guardar comprobante del proveedor:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Error desconocido' };
+    }
+  }
+
+  /**
+   * Obtiene los comprobantes recibidos de la empresa, del más reciente al más antiguo
+   * @param companyId ID de la empresa
+   * @param tipoDocumento Filtrar por tipo de documento (opcional)
+   */
+  async getDocuments(companyId = 'innova', tipoDocumento?: string): Promise<SupplierDocumentSearchResult> {
+    try {
+      let query = supabase
+        .from(TABLE_NAME)
+        .select('*')
+        .eq('company_id', getCompanyUuid(companyId));
+
+      if (tipoDocumento) {
+        query = query.eq('tipo_documento', tipoDocumento);
+      }
+
+      const { data, error } = await query.order('fecha_emision', { ascending: false });
+
+      if (error) {
+        console.error('Error al obtener comprobantes de proveedores:', error);
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data: data || [] };
+    } catch (error) {
+      console.error('Error al obtener comprobantes de proveedores:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Error desconocido' };
+    }
+  }
+
+  /**
+   * Actualiza campos de un comprobante recibido identificado por su clave
+   * @param clave Clave del comprobante del proveedor
+   * @param changes Campos a actualizar
+   * @param companyId ID de la empresa
+   */
+  async updateDocument(
+    clave: string,
+    changes: Partial<SupplierDocument>,
+    companyId = 'innova'
+  ): Promise<SupplierDocumentResult> {
+    try {
+      const { data, error } = await supabase
+        .from(TABLE_NAME)
+        .update({ ...changes, updated_at: new Date().toISOString() })
+        .eq('company_id', getCompanyUuid(companyId))
+        .eq('clave', clave)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error al actualizar comprobante del proveedor:', error);
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data };
+    } catch (error) {
+      console.error('Error al actualizar comprobante del proveedor:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Error desconocido' };
+    }
+  }
+}
+
+// Exportar la instancia del servicio
+export const supabaseSupplierDocumentService = new SupabaseSupplierDocumentService();
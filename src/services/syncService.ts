@@ -0,0 +1,350 @@
+/**
+ * syncService.ts
+ * Cola de sincronización con Supabase para lo que el punto de venta registra sin conexión:
+ * comprobantes del historial y salidas de inventario. Se procesa al volver la conexión y
+ * deja en conflicto lo que no se puede aplicar sin revisión
+ */
+
+import { supabase } from '../lib/supabase';
+import { StoredInvoice } from '../hooks/useInvoiceHistory';
+import { LOCAL_STORES, withStore } from './localDatabase';
+import { isOnline, offlineCacheService } from './offlineCacheService';
+import { getCodigoProducto } from './checkoutService';
+import { loadSignatureKeys } from './signatureService';
+import { supabaseAuthService } from './supabaseAuthService';
+import { supabaseClientService } from './supabaseClientService';
+import { supabaseCompanyService } from './supabaseCompanyService';
+import { supabaseInvoiceService } from './supabaseInvoiceService';
+import { Product, supabaseProductService } from './supabaseProductService';
+import { getCompanyUuid } from './uuidMappingService';
+
+/**
+ * Tipo de cambio pendiente de sincronizar
+ * - factura: comprobante del historial (tabla invoice_data)
+ * - existencias: salida de inventario por una venta
+ */
+export type SyncTipo = 'factura' | 'existencias';
+
+/**
+ * Estado de un elemento de la cola
+ * - pendiente: se reintenta en la próxima sincronización
+ * - conflicto: Supabase tiene datos que no coinciden; requiere revisión
+ */
+export type SyncEstado = 'pendiente' | 'conflicto';
+
+/**
+ * Elemento de la cola de sincronización
+ */
+export interface SyncItem {
+  id: string;
+  tipo: SyncTipo;
+  companyId: string;
+  factura?: StoredInvoice;
+  productoId?: string;
+  cantidad?: number;
+  documento?: string; // Comprobante que originó la salida de inventario
+  estado: SyncEstado;
+  intentos: number;
+  ultimoError?: string;
+  creado: string;
+  actualizado: string;
+}
+
+/**
+ * Resumen de la cola para el indicador de conexión
+ */
+export interface SyncResumen {
+  pendientes: number;
+  conflictos: number;
+}
+
+/**
+ * Decide qué hacer con un comprobante que ya existe en Supabase con el mismo id.
+ * Si es el mismo documento (misma clave) ya se sincronizó; si no, dos documentos
+ * distintos comparten id y alguien debe revisarlos
+ * @param local Comprobante guardado en el dispositivo
+ * @param remoto Comprobante guardado en Supabase
+ */
+export const resolverConflictoFactura = (local: StoredInvoice, remoto: StoredInvoice): 'duplicado' | 'conflicto' =>
+  local.claveNumerica && local.claveNumerica === remoto.claveNumerica ? 'duplicado' : 'conflicto';
+
+/**
+ * Existencias después de aplicar una venta hecha sin conexión. Las salidas se aplican
+ * sobre el saldo actual de Supabase, por lo que las ventas de varias terminales se suman;
+ * si la venta supera lo disponible, el faltante se reporta como conflicto
+ * @param stockActual Existencias actuales en Supabase
+ * @param cantidadVendida Cantidad vendida
+ */
+export const calcularExistencias = (stockActual: number, cantidadVendida: number): { nuevoStock: number; faltante: number } => {
+  const resultado = stockActual - cantidadVendida;
+  return {
+    nuevoStock: Math.max(0, resultado),
+    faltante: resultado < 0 ? -resultado : 0
+  };
+};
+
+const generarId = (tipo: SyncTipo, referencia: string) =>
+  `${tipo}:${referencia}:${Date.now()}:${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Servicio de sincronización en segundo plano
+ */
+class SyncService {
+  private processing = false;
+  private listeners = new Set<(resumen: SyncResumen) => void>();
+
+  private async save(item: SyncItem): Promise<void> {
+    await withStore(LOCAL_STORES.syncQueue, 'readwrite', store => store.put(item));
+    this.notify();
+  }
+
+  private async remove(id: string): Promise<void> {
+    await withStore(LOCAL_STORES.syncQueue, 'readwrite', store => store.delete(id));
+    this.notify();
+  }
+
+  private notify(): void {
+    this.getResumen()
+      .then(resumen => this.listeners.forEach(listener => listener(resumen)))
+      .catch(error => console.warn('No se pudo leer la cola de sincronización:', error));
+  }
+
+  /**
+   * Recibe el resumen de la cola cada vez que cambia
+   * @returns Función para dejar de escuchar
+   */
+  subscribe(listener: (resumen: SyncResumen) => void): () => void {
+    this.listeners.add(listener);
+    this.notify();
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Lista los elementos de la cola, del más antiguo al más reciente
+   */
+  async list(): Promise<SyncItem[]> {
+    const items = await withStore<SyncItem[]>(LOCAL_STORES.syncQueue, 'readonly', store => store.getAll());
+    return items.sort((a, b) => new Date(a.creado).getTime() - new Date(b.creado).getTime());
+  }
+
+  /**
+   * Cantidad de elementos pendientes y en conflicto
+   */
+  async getResumen(): Promise<SyncResumen> {
+    const items = await this.list();
+    return {
+      pendientes: items.filter(item => item.estado === 'pendiente').length,
+      conflictos: items.filter(item => item.estado === 'conflicto').length
+    };
+  }
+
+  /**
+   * Agrega a la cola un comprobante que no se pudo guardar en Supabase
+   * @param factura Comprobante del historial
+   * @param companyId ID de la empresa
+   * @param ultimoError Error del intento de guardado, si lo hubo
+   */
+  async enqueueFactura(factura: StoredInvoice, companyId: string, ultimoError?: string): Promise<void> {
+    const ahora = new Date().toISOString();
+    await this.save({
+      id: generarId('factura', factura.id),
+      tipo: 'factura',
+      companyId,
+      factura,
+      estado: 'pendiente',
+      intentos: 0,
+      ultimoError,
+      creado: ahora,
+      actualizado: ahora
+    });
+  }
+
+  /**
+   * Registra la salida de inventario de las líneas vendidas cuyo producto lleva existencias.
+   * Las líneas se relacionan con el catálogo por código de barras o SKU
+   * @param lineas Líneas del comprobante
+   * @param documento Id del comprobante en el historial
+   */
+  async registrarSalidaInventario(lineas: { codigo?: string; cantidad: number }[], documento: string): Promise<void> {
+    const user = supabaseAuthService.getCurrentUser();
+    if (!user?.company_id) return;
+
+    const catalogo = await offlineCacheService.get<Product[]>('products', user.company_id);
+    const productos = catalogo?.data || [];
+    const ahora = new Date().toISOString();
+
+    for (const linea of lineas) {
+      const producto = linea.codigo ? productos.find(p => getCodigoProducto(p) === linea.codigo) : undefined;
+      if (!producto?.id || producto.tipo_producto === 'servicio' || producto.stock === undefined || producto.stock === null) {
+        continue;
+      }
+      await this.save({
+        id: generarId('existencias', producto.id),
+        tipo: 'existencias',
+        companyId: user.company_id,
+        productoId: producto.id,
+        cantidad: linea.cantidad,
+        documento,
+        estado: 'pendiente',
+        intentos: 0,
+        creado: ahora,
+        actualizado: ahora
+      });
+    }
+
+    this.processPending().catch(error => console.error('Error al sincronizar:', error));
+  }
+
+  private async syncFactura(item: SyncItem): Promise<SyncItem | null> {
+    const factura = item.factura as StoredInvoice;
+    const { success, error } = await supabaseInvoiceService.saveInvoiceData(factura, item.companyId);
+    if (success) return null;
+
+    // Ya existe un registro con el mismo id: comparar antes de descartar
+    if (error?.code === '23505') {
+      const { data, error: fetchError } = await supabase
+        .from('invoice_data')
+        .select('data')
+        .eq('id', factura.id)
+        .eq('company_id', getCompanyUuid(item.companyId))
+        .maybeSingle();
+      if (fetchError) {
+        throw new Error(fetchError.message);
+      }
+      if (!data || resolverConflictoFactura(factura, data.data as StoredInvoice) === 'duplicado') {
+        return null;
+      }
+      return {
+        ...item,
+        estado: 'conflicto',
+        ultimoError: `Supabase ya tiene otro comprobante con el id ${factura.id} (clave ${(data.data as StoredInvoice).claveNumerica || 'sin clave'})`
+      };
+    }
+
+    throw new Error(error?.message || 'No se pudo guardar el comprobante en Supabase');
+  }
+
+  private async syncExistencias(item: SyncItem): Promise<SyncItem | null> {
+    const productoId = item.productoId as string;
+    const cantidad = item.cantidad || 0;
+    if (cantidad <= 0) return null;
+
+    // La función descuenta y registra el movimiento en una sola transacción, identificada por el
+    // id del elemento: si la respuesta se pierde y se reintenta, la venta no se descuenta dos veces
+    const { data, error } = await supabase.rpc('apply_stock_sale', {
+      p_company_id: getCompanyUuid(item.companyId),
+      p_sync_id: item.id,
+      p_product_id: productoId,
+      p_cantidad: cantidad,
+      p_documento: item.documento || null
+    });
+    if (error || data === null || data === undefined) {
+      throw new Error(error?.message || 'No se pudo actualizar el inventario');
+    }
+
+    const { faltante } = calcularExistencias(Number(data), cantidad);
+    if (faltante > 0) {
+      // La venta ya ocurrió: se aplica y se deja constancia del faltante para ajustar el inventario
+      const producto = await supabaseProductService.getProductById(productoId);
+      return {
+        ...item,
+        estado: 'conflicto',
+        ultimoError: `La venta ${item.documento || ''} superó las existencias de ${producto.data?.name || productoId} en ${faltante}`
+      };
+    }
+    return null;
+  }
+
+  /**
+   * Sincroniza con Supabase los elementos pendientes de la cola
+   * @returns Cantidad de elementos sincronizados
+   */
+  async processPending(): Promise<number> {
+    if (this.processing || !isOnline()) return 0;
+
+    this.processing = true;
+    let sincronizados = 0;
+
+    try {
+      const pendientes = (await this.list()).filter(item => item.estado === 'pendiente');
+      for (const item of pendientes) {
+        try {
+          const resultado = item.tipo === 'factura' ? await this.syncFactura(item) : await this.syncExistencias(item);
+          if (resultado) {
+            await this.save({ ...resultado, intentos: item.intentos + 1, actualizado: new Date().toISOString() });
+          } else {
+            await this.remove(item.id);
+            sincronizados++;
+          }
+        } catch (error) {
+          await this.save({
+            ...item,
+            intentos: item.intentos + 1,
+            ultimoError: error instanceof Error ? error.message : 'Error desconocido',
+            actualizado: new Date().toISOString()
+          });
+        }
+      }
+    } finally {
+      this.processing = false;
+    }
+
+    return sincronizados;
+  }
+
+  /**
+   * Descarta un elemento en conflicto una vez revisado
+   * @param id Id del elemento
+   */
+  async discard(id: string): Promise<void> {
+    await this.remove(id);
+  }
+
+  /**
+   * Actualiza la caché local con los productos, clientes, la empresa y su certificado de firma
+   */
+  async refreshCache(): Promise<void> {
+    if (!isOnline()) return;
+    const companyId = localStorage.getItem('selected_company') || 'innova';
+    // Las consultas guardan su resultado en la caché al completarse
+    await Promise.all([
+      supabaseProductService.getProducts(1, 1000),
+      supabaseClientService.getClients(1, 1000),
+      supabaseCompanyService.getCompanyById(companyId),
+      loadSignatureKeys(companyId).catch(error => console.warn('No se pudo guardar el certificado en la caché local:', error))
+    ]);
+  }
+
+  /**
+   * Inicia la sincronización periódica y al recuperar la conexión
+   * @param intervalMs Intervalo entre revisiones
+   * @returns Función para detener la sincronización
+   */
+  startWorker(intervalMs = 60 * 1000): () => void {
+    const run = (refrescar = false) => {
+      const tarea = refrescar
+        ? this.processPending().then(() => this.refreshCache())
+        : this.processPending();
+      tarea.catch(error => console.error('Error al sincronizar con Supabase:', error));
+    };
+    // Al volver la conexión primero se suben las ventas y luego se actualiza la caché
+    const onOnline = () => run(true);
+    const onOffline = () => this.notify();
+
+    const timer = setInterval(() => run(), intervalMs);
+    window.addEventListener('online', onOnline);
+    window.addEventListener('offline', onOffline);
+    run(true);
+
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener('online', onOnline);
+      window.removeEventListener('offline', onOffline);
+    };
+  }
+}
+
+// Exportar la instancia del servicio
+export const syncService = new SyncService();
@@ -0,0 +1,126 @@
+/**
+ * tenderService.ts
+ * Cobro en caja: reparto de una venta entre efectivo, tarjeta, SINPE Móvil y otros medios,
+ * cálculo del vuelto y montos por medio de pago (TotalMedioPago) para el XML
+ */
+
+import { MedioPagoDetalle } from '../types/invoice';
+
+/**
+ * Medios de pago disponibles en caja y los datos que se registran con cada uno
+ */
+export const MEDIOS_PAGO_CAJA: {
+  codigo: string;
+  descripcion: string;
+  requiereReferencia?: boolean;
+  requiereAutorizacion?: boolean;
+}[] = [
+  { codigo: '01', descripcion: 'Efectivo' },
+  { codigo: '02', descripcion: 'Tarjeta', requiereAutorizacion: true },
+  { codigo: '06', descripcion: 'SINPE Móvil', requiereReferencia: true },
+  { codigo: '04', descripcion: 'Transferencia – depósito bancario' },
+  { codigo: '03', descripcion: 'Cheque' },
+  { codigo: '07', descripcion: 'Plataforma Digital' },
+];
+
+/**
+ * Cantidad máxima de medios de pago distintos por comprobante (esquema v4.4)
+ */
+export const MAX_MEDIOS_PAGO = 4;
+
+/**
+ * Resumen del cobro de una venta
+ */
+export interface ResumenMediosPago {
+  total: number;
+  recibido: number;
+  // Monto que falta por cobrar
+  pendiente: number;
+  // Vuelto a entregar; solo puede salir del efectivo
+  vuelto: number;
+  // Códigos y montos aplicados por medio de pago, en el orden en que se capturaron
+  medioPago: string[];
+  totalMedioPago: number[];
+}
+
+const aCentimos = (monto: number): number => Math.round((Number(monto) || 0) * 100);
+
+/**
+ * Calcula lo recibido, lo pendiente, el vuelto y el monto aplicado a cada medio de pago.
+ * El efectivo se aplica neto del vuelto, de modo que la suma de TotalMedioPago
+ * coincide con el total del comprobante.
+ * @param mediosPago Medios de pago capturados
+ * @param total Total del comprobante
+ */
+export const calcularMediosPago = (mediosPago: MedioPagoDetalle[], total: number): ResumenMediosPago => {
+  const totalCentimos = aCentimos(total);
+  const efectivo = mediosPago.filter(mp => mp.medioPago === '01').reduce((sum, mp) => sum + aCentimos(mp.monto), 0);
+  const otros = mediosPago.filter(mp => mp.medioPago !== '01').reduce((sum, mp) => sum + aCentimos(mp.monto), 0);
+  const recibido = efectivo + otros;
+  const vuelto = Math.min(Math.max(recibido - totalCentimos, 0), efectivo);
+
+  // Agrupar por código; el vuelto se descuenta del efectivo
+  const aplicados: Record<string, number> = {};
+  const codigos: string[] = [];
+  mediosPago.forEach(mp => {
+    if (aCentimos(mp.monto) <= 0) return;
+    if (!codigos.includes(mp.medioPago)) {
+      codigos.push(mp.medioPago);
+      aplicados[mp.medioPago] = 0;
+    }
+    aplicados[mp.medioPago] += aCentimos(mp.monto);
+  });
+  if (aplicados['01'] !== undefined) {
+    aplicados['01'] -= vuelto;
+  }
+  const medioPago = codigos.filter(codigo => aplicados[codigo] > 0);
+
+  return {
+    total: totalCentimos / 100,
+    recibido: recibido / 100,
+    pendiente: Math.max(totalCentimos - recibido, 0) / 100,
+    vuelto: vuelto / 100,
+    medioPago,
+    totalMedioPago: medioPago.map(codigo => aplicados[codigo] / 100),
+  };
+};
+
+/**
+ * Valida el cobro antes de emitir el comprobante
+ * @param mediosPago Medios de pago capturados
+ * @param total Total del comprobante
+ * @returns El resumen del cobro
+ * @throws Error si el cobro está incompleto o le faltan datos
+ */
+export const validarMediosPago = (mediosPago: MedioPagoDetalle[], total: number): ResumenMediosPago => {
+  if (mediosPago.length === 0) {
+    throw new Error('Indique al menos un medio de pago');
+  }
+
+  mediosPago.forEach((mp, index) => {
+    const medio = MEDIOS_PAGO_CAJA.find(m => m.codigo === mp.medioPago);
+    const descripcion = medio?.descripcion || mp.medioPago;
+    if (!(Number(mp.monto) > 0)) {
+      throw new Error(`Pago ${index + 1} (${descripcion}): el monto debe ser mayor a cero`);
+    }
+    if (medio?.requiereReferencia && !mp.referencia?.trim()) {
+      throw new Error(`Pago ${index + 1} (${descripcion}): indique el número de referencia`);
+    }
+    if (medio?.requiereAutorizacion && !mp.autorizacion?.trim()) {
+      throw new Error(`Pago ${index + 1} (${descripcion}): indique el código de autorización del datáfono`);
+    }
+  });
+
+  const resumen = calcularMediosPago(mediosPago, total);
+  if (resumen.pendiente > 0) {
+    throw new Error(`Falta por cobrar ${resumen.pendiente.toFixed(2)}`);
+  }
+  const otros = mediosPago.filter(mp => mp.medioPago !== '01').reduce((sum, mp) => sum + aCentimos(mp.monto), 0);
+  if (otros > aCentimos(total)) {
+    throw new Error('Los pagos con tarjeta, SINPE Móvil u otros medios superan el total; solo el efectivo puede dar vuelto');
+  }
+  if (resumen.medioPago.length > MAX_MEDIOS_PAGO) {
+    throw new Error(`Hacienda admite como máximo ${MAX_MEDIOS_PAGO} medios de pago distintos por comprobante`);
+  }
+  return resumen;
+};
@@ -1,11 +1,57 @@
 import { create } from 'xmlbuilder2';
-import { Invoice } from '../types/invoice';
+import { Invoice, tiposCargos } from '../types/invoice';
+import { parseConsecutivo } from './branchService';
 
 /**
  * Servicio para la generación de documentos XML para facturación electrónica v4.4
  * Este servicio centraliza la lógica de creación de XML siguiendo los estándares de Hacienda CR
  */
 
+export const XML_SCHEMAS_BASE = 'https://cdn.comprobanteselectronicos.go.cr/xml-schemas/v4.4';
+
+/**
+ * Elemento raíz y namespace de cada tipo de comprobante v4.4
+ */
+const DOCUMENT_SCHEMAS: Record<string, { rootElement: string; namespace: string; filePrefix: string }> = {
+  '01': { rootElement: 'FacturaElectronica', namespace: `${XML_SCHEMAS_BASE}/facturaElectronica`, filePrefix: 'factura' },
+  '02': { rootElement: 'NotaDebitoElectronica', namespace: `${XML_SCHEMAS_BASE}/notaDebitoElectronica`, filePrefix: 'nota_debito' },
+  '03': { rootElement: 'NotaCreditoElectronica', namespace: `${XML_SCHEMAS_BASE}/notaCreditoElectronica`, filePrefix: 'nota_credito' },
+  '04': { rootElement: 'TiqueteElectronico', namespace: `${XML_SCHEMAS_BASE}/tiqueteElectronico`, filePrefix: 'tiquete' },
+  '05': { rootElement: 'MensajeReceptor', namespace: `${XML_SCHEMAS_BASE}/mensajeReceptor`, filePrefix: 'mensaje_receptor' },
+  '06': { rootElement: 'MensajeReceptor', namespace: `${XML_SCHEMAS_BASE}/mensajeReceptor`, filePrefix: 'mensaje_receptor' },
+  '07': { rootElement: 'MensajeReceptor', namespace: `${XML_SCHEMAS_BASE}/mensajeReceptor`, filePrefix: 'mensaje_receptor' },
+  '08': { rootElement: 'FacturaElectronicaCompra', namespace: `${XML_SCHEMAS_BASE}/facturaElectronicaCompra`, filePrefix: 'factura_compra' },
+  '09': { rootElement: 'FacturaElectronicaExportacion', namespace: `${XML_SCHEMAS_BASE}/facturaElectronicaExportacion`, filePrefix: 'factura_exportacion' },
+  '10': { rootElement: 'ReciboElectronicoPago', namespace: `${XML_SCHEMAS_BASE}/reciboElectronicoPago`, filePrefix: 'recibo_pago' },
+};
+
+/**
+ * Datos del MensajeReceptor v4.4 con el que se acepta o rechaza un comprobante recibido
+ */
+export interface MensajeReceptorData {
+  clave: string; // Clave del comprobante del proveedor
+  numeroCedulaEmisor: string;
+  fechaEmisionDoc: string;
+  mensaje: '1' | '2' | '3'; // 1 Aceptado, 2 Aceptado parcialmente, 3 Rechazado
+  detalleMensaje?: string;
+  montoTotalImpuesto?: number;
+  codigoActividad?: string;
+  condicionImpuesto?: string;
+  montoTotalImpuestoAcreditar?: number;
+  montoTotalDeGastoAplicable?: number;
+  totalFactura: number;
+  numeroCedulaReceptor: string;
+  numeroConsecutivoReceptor: string; // Serie 05, 06 o 07 según el mensaje
+}
+
+/**
+ * Obtiene el tipo de documento (01, 02, 03, 04...) a partir del número consecutivo
+ * @param numeroConsecutivo Consecutivo de 20 dígitos (el tipo va después de la sucursal y la terminal)
+ */
+export const getTipoDocumento = (numeroConsecutivo: string): string => {
+  return parseConsecutivo(numeroConsecutivo)?.tipoDoc ?? numeroConsecutivo.substring(0, 2);
+};
+
 /**
  * Genera el XML para factura electrónica según los estándares de la versión 4.4 de Hacienda CR
  * @param invoice Datos de la factura
@@ -21,36 +67,23 @@ export const generateXML = (invoice: Invoice): string => {
       throw new Error('Datos de factura/tiquete incompletos');
     }
     
-    // Determinar si es un tiquete electrónico basado en el número consecutivo
-    const isTiquete = invoice.numeroConsecutivo.startsWith('04');
-    console.log(`Generando XML para ${isTiquete ? 'tiquete' : 'factura'} con consecutivo: ${invoice.numeroConsecutivo}`);
+    // Determinar el tipo de documento basado en el número consecutivo
+    const tipoDocumento = getTipoDocumento(invoice.numeroConsecutivo);
+    const isTiquete = tipoDocumento === '04';
+    const schema = DOCUMENT_SCHEMAS[tipoDocumento] || DOCUMENT_SCHEMAS['01'];
+    console.log(`Generando XML para ${schema.rootElement} con consecutivo: ${invoice.numeroConsecutivo}`);
     
     const doc = create({ version: '1.0', encoding: 'utf-8' });
     
-    let rootNode; // Declarar rootNode
-    
-    // Crear el elemento raíz (TiqueteElectronico o FacturaElectronica) y asignarlo a rootNode
-    if (isTiquete) {
-      rootNode = doc.ele('TiqueteElectronico', { // Asignar aquí
-        'xmlns': 'https://cdn.comprobanteselectronicos.go.cr/xml-schemas/v4.4/tiqueteElectronico',
-        'xmlns:ds': 'http://www.w3.org/2000/09/xmldsig#',
-        'xmlns:xsi': 'http://www.w3.org/2001/XMLSchema-instance',
-        'xmlns:vc': 'http://www.w3.org/2007/XMLSchema-versioning',
-        'xsi:schemaLocation': 
-          'https://cdn.comprobanteselectronicos.go.cr/xml-schemas/v4.4/tiqueteElectronico schema.xsd'
-      });
-      console.log('Creando XML para TiqueteElectronico con namespace correcto para v4.4');
-    } else {
-      rootNode = doc.ele('FacturaElectronica', { // Asignar aquí
-        'xmlns': 'https://cdn.comprobanteselectronicos.go.cr/xml-schemas/v4.4/facturaElectronica',
-        'xmlns:ds': 'http://www.w3.org/2000/09/xmldsig#',
-        'xmlns:xsi': 'http://www.w3.org/2001/XMLSchema-instance',
-        'xmlns:vc': 'http://www.w3.org/2007/XMLSchema-versioning',
-        'xsi:schemaLocation': 
-          'https://cdn.comprobanteselectronicos.go.cr/xml-schemas/v4.4/facturaElectronica schema.xsd'
-      });
-      console.log('Creando XML para FacturaElectronica con namespace correcto para v4.4');
-    }
+    // Crear el elemento raíz con el namespace correspondiente al tipo de documento
+    const rootNode = doc.ele(schema.rootElement, {
+      'xmlns': schema.namespace,
+      'xmlns:ds': 'http://www.w3.org/2000/09/xmldsig#',
+      'xmlns:xsi': 'http://www.w3.org/2001/XMLSchema-instance',
+      'xmlns:vc': 'http://www.w3.org/2007/XMLSchema-versioning',
+      'xsi:schemaLocation': `${schema.namespace} schema.xsd`
+    });
+    console.log(`Creando XML para ${schema.rootElement} con namespace correcto para v4.4`);
 
     // ---- Encabezado --------------------------------------------------
     rootNode.ele('Clave').txt(invoice.clave);
@@ -91,7 +124,7 @@ export const generateXML = (invoice: Invoice): string => {
       if (invoice.emisor.ubicacion.otrasSenas)
         ubi.ele('OtrasSenas').txt(invoice.emisor.ubicacion.otrasSenas);
     }
-    if (invoice.emisor.telefono) {
+    if (invoice.emisor.telefono?.numTelefono) {
       const tel = emisor.ele('Telefono');
       tel.ele('CodigoPais').txt(invoice.emisor.telefono.codigoPais);
       tel.ele('NumTelefono').txt(invoice.emisor.telefono.numTelefono);
@@ -103,13 +136,19 @@ export const generateXML = (invoice: Invoice): string => {
     // ---- Receptor ---------------------------------------------------
     const receptor = rootNode.ele('Receptor');
     receptor.ele('Nombre').txt(invoice.receptor.nombre);
-    const idReceptor = receptor.ele('Identificacion');
-    idReceptor.ele('Tipo').txt(invoice.receptor.identificacion.tipo);
-    idReceptor.ele('Numero').txt(invoice.receptor.identificacion.numero);
+    // Un receptor extranjero sin cédula costarricense se identifica con IdentificacionExtranjero
+    if (invoice.receptor.identificacion?.numero || !invoice.receptor.identificacionExtranjero) {
+      const idReceptor = receptor.ele('Identificacion');
+      idReceptor.ele('Tipo').txt(invoice.receptor.identificacion.tipo);
+      idReceptor.ele('Numero').txt(invoice.receptor.identificacion.numero);
+    } else {
+      receptor.ele('IdentificacionExtranjero').txt(invoice.receptor.identificacionExtranjero);
+    }
     if (invoice.receptor.nombreComercial) {
       receptor.ele('NombreComercial').txt(invoice.receptor.nombreComercial);
     }
-    if (invoice.receptor.ubicacion) {
+    // La ubicación y el teléfono del receptor son opcionales: no se emiten bloques vacíos
+    if (invoice.receptor.ubicacion?.provincia) {
       const ubiR = receptor.ele('Ubicacion');
       if (invoice.receptor.ubicacion.provincia)
         ubiR.ele('Provincia').txt(invoice.receptor.ubicacion.provincia);
@@ -122,7 +161,10 @@ export const generateXML = (invoice: Invoice): string => {
       if (invoice.receptor.ubicacion.otrasSenas)
         ubiR.ele('OtrasSenas').txt(invoice.receptor.ubicacion.otrasSenas);
     }
-    if (invoice.receptor.telefono) {
+    if (invoice.receptor.otrasSenasExtranjero) {
+      receptor.ele('OtrasSenasExtranjero').txt(invoice.receptor.otrasSenasExtranjero);
+    }
+    if (invoice.receptor.telefono?.numTelefono) {
       const telR = receptor.ele('Telefono');
       telR.ele('CodigoPais').txt(invoice.receptor.telefono.codigoPais);
       telR.ele('NumTelefono').txt(invoice.receptor.telefono.numTelefono);
@@ -145,6 +187,10 @@ export const generateXML = (invoice: Invoice): string => {
     invoice.detalleServicio.forEach(item => {
       const linea = detalleServicio.ele('LineaDetalle');
       linea.ele('NumeroLinea').txt(String(item.id));
+      // La partida arancelaria solo existe en la factura de exportación
+      if (tipoDocumento === '09' && item.partidaArancelaria) {
+        linea.ele('PartidaArancelaria').txt(item.partidaArancelaria);
+      }
       if (item.codigoCabys) {
         linea.ele('CodigoCABYS').txt(item.codigoCabys);
       }
@@ -176,46 +222,55 @@ export const generateXML = (invoice: Invoice): string => {
       if (item.descuento) {
         const d = linea.ele('Descuento');
         d.ele('MontoDescuento').txt(item.descuento.montoDescuento.toFixed(5));
+        d.ele('CodigoDescuento').txt(item.descuento.codigoDescuento || '07');
         if (item.descuento.naturalezaDescuento) {
           d.ele('NaturalezaDescuento').txt(item.descuento.naturalezaDescuento);
         }
       }
       linea.ele('SubTotal').txt(item.subtotal.toFixed(5));
-      if (item.baseImponible !== undefined) {
-        linea.ele('BaseImponible').txt(item.baseImponible.toFixed(5));
-      }
+      // BaseImponible es obligatoria en v4.4; sin cargos adicionales coincide con el subtotal
+      linea.ele('BaseImponible').txt((item.baseImponible ?? item.subtotal).toFixed(5));
       if (item.impuesto) {
         const imp = linea.ele('Impuesto');
         imp.ele('Codigo').txt(item.impuesto.codigo);
-        imp.ele('CodigoTarifa').txt(item.impuesto.codigoTarifa);
+        imp.ele('CodigoTarifaIVA').txt(item.impuesto.codigoTarifa);
         imp.ele('Tarifa').txt(item.impuesto.tarifa.toFixed(2));
         imp.ele('Monto').txt(item.impuesto.monto.toFixed(5));
         if (item.impuesto.exoneracion) {
           const exo = imp.ele('Exoneracion');
-          if (item.impuesto.exoneracion.tipoDocumento)
-            exo.ele('TipoDocumento').txt(item.impuesto.exoneracion.tipoDocumento);
-          if (item.impuesto.exoneracion.numeroDocumento)
-            exo.ele('NumeroDocumento').txt(item.impuesto.exoneracion.numeroDocumento);
-          if (item.impuesto.exoneracion.nombreInstitucion)
-            exo.ele('NombreInstitucion').txt(item.impuesto.exoneracion.nombreInstitucion);
-          if (item.impuesto.exoneracion.fechaEmision)
-            exo.ele('FechaEmision').txt(item.impuesto.exoneracion.fechaEmision);
-          if (item.impuesto.exoneracion.porcentajeExoneracion !== undefined)
-            exo.ele('PorcentajeExoneracion').txt(item.impuesto.exoneracion.porcentajeExoneracion.toString());
-          if (item.impuesto.exoneracion.montoExoneracion !== undefined)
-            exo.ele('MontoExoneracion').txt(item.impuesto.exoneracion.montoExoneracion.toFixed(5));
+          const exoneracion = item.impuesto.exoneracion;
+          if (exoneracion.tipoDocumento)
+            exo.ele('TipoDocumentoEX1').txt(exoneracion.tipoDocumento);
+          if (exoneracion.numeroDocumento)
+            exo.ele('NumeroDocumento').txt(exoneracion.numeroDocumento);
+          if (exoneracion.nombreInstitucion)
+            exo.ele('NombreInstitucion').txt(exoneracion.nombreInstitucion);
+          if (exoneracion.fechaEmision)
+            exo.ele('FechaEmisionEX').txt(exoneracion.fechaEmision);
+          // v4.4 expresa la exoneración como puntos de tarifa exonerados, no como porcentaje del impuesto
+          if (exoneracion.porcentajeExoneracion !== undefined)
+            exo.ele('TarifaExonerada').txt((item.impuesto.tarifa * exoneracion.porcentajeExoneracion / 100).toFixed(2));
+          if (exoneracion.montoExoneracion !== undefined)
+            exo.ele('MontoExoneracion').txt(exoneracion.montoExoneracion.toFixed(5));
         }
       }
       linea.ele('ImpuestoNeto').txt(item.impuestoNeto.toFixed(5));
       linea.ele('MontoTotalLinea').txt(item.montoTotalLinea.toFixed(5));
     });
+    // Las notas de débito por cargos (intereses, multas) pueden no tener líneas de detalle
+    if (invoice.detalleServicio.length === 0) {
+      detalleServicio.remove();
+    }
 
     // ---- Otros Cargos (opcional) -----------------------------------
     if (invoice.otrosCargos) {
       invoice.otrosCargos.forEach(cargo => {
         const oc = rootNode.ele('OtrosCargos');
         oc.ele('TipoDocumentoOC').txt(cargo.tipoCargo);
-        if (cargo.descripcionCargo) oc.ele('Detalle').txt(cargo.descripcionCargo);
+        // Detalle es obligatorio en v4.4; se usa la descripción del tipo de cargo si no se indicó otra
+        oc.ele('Detalle').txt(
+          cargo.descripcionCargo || tiposCargos.find(t => t.codigo === cargo.tipoCargo)?.descripcion || 'Otros cargos'
+        );
         if (cargo.porcentaje !== undefined) oc.ele('PorcentajeOC').txt(cargo.porcentaje.toString());
         oc.ele('MontoCargo').txt(cargo.montoCargo.toFixed(5));
       });
@@ -225,9 +280,8 @@ export const generateXML = (invoice: Invoice): string => {
     const resumen = rootNode.ele('ResumenFactura');
     const moneda = resumen.ele('CodigoTipoMoneda');
     moneda.ele('CodigoMoneda').txt(invoice.resumenFactura.codigoMoneda);
-    if (invoice.resumenFactura.tipoCambio !== undefined) {
-      moneda.ele('TipoCambio').txt(invoice.resumenFactura.tipoCambio.toFixed(5));
-    }
+    // TipoCambio es obligatorio en v4.4; en colones es 1
+    moneda.ele('TipoCambio').txt((invoice.resumenFactura.tipoCambio ?? 1).toFixed(5));
     resumen.ele('TotalServGravados').txt(invoice.resumenFactura.totalServGravados.toFixed(2));
     resumen.ele('TotalServExentos').txt(invoice.resumenFactura.totalServExentos.toFixed(2));
     if (invoice.resumenFactura.totalServExonerado !== undefined) {
@@ -255,15 +309,14 @@ export const generateXML = (invoice: Invoice): string => {
     resumen.ele('TotalVenta').txt(invoice.resumenFactura.totalVenta.toFixed(2));
     resumen.ele('TotalDescuentos').txt(invoice.resumenFactura.totalDescuentos.toFixed(2));
     resumen.ele('TotalVentaNeta').txt(invoice.resumenFactura.totalVentaNeta.toFixed(2));
-    if (invoice.resumenFactura.totalOtrosImpuestos !== undefined) {
-      resumen.ele('TotalOtrosImpuestos').txt(invoice.resumenFactura.totalOtrosImpuestos.toFixed(2));
-    }
     resumen.ele('TotalImpuesto').txt(invoice.resumenFactura.totalImpuesto.toFixed(2));
-    resumen.ele('TotalComprobante').txt(invoice.resumenFactura.totalComprobante.toFixed(2));
+    if (invoice.resumenFactura.totalOtrosCargos !== undefined) {
+      resumen.ele('TotalOtrosCargos').txt(invoice.resumenFactura.totalOtrosCargos.toFixed(2));
+    }
 
-    // ---- Medios de pago --------------------------------------------
+    // ---- Medios de pago (dentro de ResumenFactura en v4.4) ----------
     invoice.medioPago.forEach((mp, idx) => {
-      const mpNode = rootNode.ele('MedioPago');
+      const mpNode = resumen.ele('MedioPago');
       mpNode.ele('TipoMedioPago').txt(mp);
       if (invoice.medioPagoOtros && mp === '99') {
         mpNode.ele('MedioPagoOtros').txt(invoice.medioPagoOtros);
@@ -272,6 +325,7 @@ export const generateXML = (invoice: Invoice): string => {
         mpNode.ele('TotalMedioPago').txt(invoice.totalMedioPago[idx].toFixed(2));
       }
     });
+    resumen.ele('TotalComprobante').txt(invoice.resumenFactura.totalComprobante.toFixed(2));
 
     // ---- Información de referencia (opcional) ----------------------
     if (invoice.informacionReferencia) {
@@ -314,6 +368,168 @@ export const generateXML = (invoice: Invoice): string => {
   }
 };
 
+/**
+ * Genera el XML de una Nota de Crédito Electrónica v4.4
+ * La nota debe tener un consecutivo tipo '03' e incluir la información de referencia
+ * al comprobante que se anula o corrige.
+ * @param creditNote Datos de la nota de crédito
+ * @returns String con el contenido XML formateado
+ */
+export const generateCreditNoteXML = (creditNote: Invoice): string => {
+  if (getTipoDocumento(creditNote.numeroConsecutivo) !== '03') {
+    throw new Error('El consecutivo de una nota de crédito debe ser de la serie 03');
+  }
+  if (!creditNote.informacionReferencia || creditNote.informacionReferencia.length === 0) {
+    throw new Error('La nota de crédito requiere información de referencia');
+  }
+  return generateXML(creditNote);
+};
+
+/**
+ * Genera el XML de una Nota de Débito Electrónica v4.4
+ * Se usa para cargos posteriores a la venta (intereses, multas, ajustes de precio)
+ * sobre un comprobante ya emitido, por lo que requiere información de referencia.
+ * @param debitNote Datos de la nota de débito
+ * @returns String con el contenido XML formateado
+ */
+export const generateDebitNoteXML = (debitNote: Invoice): string => {
+  if (getTipoDocumento(debitNote.numeroConsecutivo) !== '02') {
+    throw new Error('El consecutivo de una nota de débito debe ser de la serie 02');
+  }
+  if (!debitNote.informacionReferencia || debitNote.informacionReferencia.length === 0) {
+    throw new Error('La nota de débito requiere información de referencia');
+  }
+  if (debitNote.detalleServicio.length === 0 && (!debitNote.otrosCargos || debitNote.otrosCargos.length === 0)) {
+    throw new Error('La nota de débito debe incluir al menos una línea o un cargo');
+  }
+  return generateXML(debitNote);
+};
+
+/**
+ * Genera el XML de una Factura Electrónica de Compra v4.4
+ * La emite la empresa por compras a proveedores no inscritos: el proveedor figura como
+ * emisor y la empresa como receptor.
+ * @param purchaseInvoice Datos de la factura de compra
+ * @returns String con el contenido XML formateado
+ */
+export const generatePurchaseInvoiceXML = (purchaseInvoice: Invoice): string => {
+  if (getTipoDocumento(purchaseInvoice.numeroConsecutivo) !== '08') {
+    throw new Error('El consecutivo de una factura de compra debe ser de la serie 08');
+  }
+  if (!purchaseInvoice.emisor.identificacion?.numero) {
+    throw new Error('La factura de compra requiere la identificación del proveedor');
+  }
+  if (!purchaseInvoice.receptor.identificacion?.numero) {
+    throw new Error('La factura de compra requiere la identificación de la empresa receptora');
+  }
+  return generateXML(purchaseInvoice);
+};
+
+/**
+ * Genera el XML de una Factura Electrónica de Exportación v4.4
+ * El receptor es un cliente extranjero, por lo que se exige su dirección en el exterior
+ * y una identificación (costarricense o extranjera).
+ * @param exportInvoice Datos de la factura de exportación
+ * @returns String con el contenido XML formateado
+ */
+export const generateExportInvoiceXML = (exportInvoice: Invoice): string => {
+  if (getTipoDocumento(exportInvoice.numeroConsecutivo) !== '09') {
+    throw new Error('El consecutivo de una factura de exportación debe ser de la serie 09');
+  }
+  if (!exportInvoice.receptor.identificacion?.numero && !exportInvoice.receptor.identificacionExtranjero) {
+    throw new Error('La factura de exportación requiere la identificación del receptor');
+  }
+  if (!exportInvoice.receptor.otrasSenasExtranjero) {
+    throw new Error('La factura de exportación requiere la dirección del receptor en el extranjero');
+  }
+  return generateXML(exportInvoice);
+};
+
+/**
+ * Genera el XML de un Recibo Electrónico de Pago v4.4
+ * Respalda un pago o abono sobre una venta a crédito, por lo que debe referenciar
+ * la clave del comprobante original e indicar el medio y monto pagado.
+ * @param paymentReceipt Datos del recibo de pago
+ * @returns String con el contenido XML formateado
+ */
+export const generatePaymentReceiptXML = (paymentReceipt: Invoice): string => {
+  if (getTipoDocumento(paymentReceipt.numeroConsecutivo) !== '10') {
+    throw new Error('El consecutivo de un recibo de pago debe ser de la serie 10');
+  }
+  if (!paymentReceipt.informacionReferencia || paymentReceipt.informacionReferencia.length === 0) {
+    throw new Error('El recibo de pago requiere la referencia al comprobante pagado');
+  }
+  if (!paymentReceipt.receptor.identificacion?.numero) {
+    throw new Error('El recibo de pago requiere la identificación del cliente');
+  }
+  if (!paymentReceipt.totalMedioPago || paymentReceipt.totalMedioPago.length === 0) {
+    throw new Error('El recibo de pago requiere el monto pagado por medio de pago');
+  }
+  return generateXML(paymentReceipt);
+};
+
+/**
+ * Genera el XML del MensajeReceptor v4.4 para aceptar, aceptar parcialmente o rechazar
+ * un comprobante recibido de un proveedor
+ * @param data Datos del mensaje
+ * @returns String con el contenido XML formateado (sin firmar)
+ */
+export const generateMensajeReceptorXML = (data: MensajeReceptorData): string => {
+  const tipoDocumento = getTipoDocumento(data.numeroConsecutivoReceptor);
+  const tipoEsperado = { '1': '05', '2': '06', '3': '07' }[data.mensaje];
+  if (tipoDocumento !== tipoEsperado) {
+    throw new Error(`El consecutivo del mensaje ${data.mensaje} debe ser de la serie ${tipoEsperado}`);
+  }
+  if (data.mensaje !== '1' && !data.detalleMensaje?.trim()) {
+    throw new Error('Debe indicar el detalle del mensaje para una aceptación parcial o un rechazo');
+  }
+  if (
+    data.montoTotalImpuestoAcreditar !== undefined &&
+    data.montoTotalImpuesto !== undefined &&
+    data.montoTotalImpuestoAcreditar > data.montoTotalImpuesto
+  ) {
+    throw new Error('El impuesto a acreditar no puede ser mayor que el impuesto total del comprobante');
+  }
+
+  const schema = DOCUMENT_SCHEMAS[tipoDocumento];
+  const doc = create({ version: '1.0', encoding: 'utf-8' });
+  const rootNode = doc.ele(schema.rootElement, {
+    'xmlns': schema.namespace,
+    'xmlns:ds': 'http://www.w3.org/2000/09/xmldsig#',
+    'xmlns:xsi': 'http://www.w3.org/2001/XMLSchema-instance',
+    'xsi:schemaLocation': `${schema.namespace} schema.xsd`
+  });
+
+  rootNode.ele('Clave').txt(data.clave);
+  rootNode.ele('NumeroCedulaEmisor').txt(data.numeroCedulaEmisor);
+  rootNode.ele('FechaEmisionDoc').txt(data.fechaEmisionDoc);
+  rootNode.ele('Mensaje').txt(data.mensaje);
+  if (data.detalleMensaje) {
+    rootNode.ele('DetalleMensaje').txt(data.detalleMensaje.substring(0, 160));
+  }
+  if (data.montoTotalImpuesto !== undefined) {
+    rootNode.ele('MontoTotalImpuesto').txt(data.montoTotalImpuesto.toFixed(5));
+  }
+  if (data.codigoActividad) {
+    rootNode.ele('CodigoActividad').txt(data.codigoActividad);
+  }
+  // La condición del IVA solo aplica cuando el comprobante se acepta total o parcialmente
+  if (data.mensaje !== '3' && data.condicionImpuesto) {
+    rootNode.ele('CondicionImpuesto').txt(data.condicionImpuesto);
+    if (data.montoTotalImpuestoAcreditar !== undefined) {
+      rootNode.ele('MontoTotalImpuestoAcreditar').txt(data.montoTotalImpuestoAcreditar.toFixed(5));
+    }
+    if (data.montoTotalDeGastoAplicable !== undefined) {
+      rootNode.ele('MontoTotalDeGastoAplicable').txt(data.montoTotalDeGastoAplicable.toFixed(5));
+    }
+  }
+  rootNode.ele('TotalFactura').txt(data.totalFactura.toFixed(5));
+  rootNode.ele('NumeroCedulaReceptor').txt(data.numeroCedulaReceptor);
+  rootNode.ele('NumeroConsecutivoReceptor').txt(data.numeroConsecutivoReceptor);
+
+  return doc.end({ prettyPrint: true });
+};
+
 /**
  * Validate and sanitize invoice data
  * @param invoice Invoice data
@@ -391,9 +607,8 @@ export const generateXmlString = (doc: any, shouldSign: boolean = true): Promise
  */
 export function downloadXML(xmlString: string, consecutivo: string) {
   const blob = new Blob([xmlString], { type: 'application/xml;charset=utf-8' });
-  // Determinar si es un tiquete electrónico basado en el número consecutivo
-  const isTiquete = consecutivo.startsWith('04');
-  const filePrefix = isTiquete ? 'tiquete' : 'factura';
+  // Determinar el prefijo del archivo según el tipo de documento del consecutivo
+  const filePrefix = (DOCUMENT_SCHEMAS[getTipoDocumento(consecutivo)] || DOCUMENT_SCHEMAS['01']).filePrefix;
   
   try {
     // Usar la API del navegador para descargar archivos
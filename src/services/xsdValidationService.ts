@@ -0,0 +1,558 @@
+/**
+ * Servicio de validación estructural de comprobantes electrónicos contra los esquemas XSD v4.4 de Hacienda.
+ * Las definiciones reproducen la secuencia, cardinalidad y restricciones de tipo de los XSD del anexo
+ * "ANEXOS Y ESTRUCTURAS_V4.4" para validar en el navegador antes de firmar, y reportan la ruta exacta
+ * de cada elemento con error.
+ */
+import { create } from 'xmlbuilder2';
+import { XML_SCHEMAS_BASE } from './xmlService';
+
+/**
+ * Error de validación con la ruta del elemento (por ejemplo /FacturaElectronica/DetalleServicio/LineaDetalle[2]/Cantidad)
+ */
+export interface XsdValidationError {
+  path: string;
+  message: string;
+}
+
+/**
+ * Resultado de validar un comprobante
+ */
+export interface XsdValidationResult {
+  valid: boolean;
+  rootElement?: string;
+  errors: XsdValidationError[];
+}
+
+/**
+ * Restricciones de un tipo simple (facetas XSD)
+ */
+interface XsdSimpleType {
+  pattern?: RegExp;
+  descripcion?: string; // Texto legible del formato esperado
+  minLength?: number;
+  maxLength?: number;
+  enumeration?: string[];
+  decimal?: { totalDigits: number; fractionDigits: number };
+  dateTime?: boolean;
+}
+
+/**
+ * Elemento de una secuencia XSD
+ */
+interface XsdElement {
+  name: string;
+  minOccurs?: number; // 1 por defecto
+  maxOccurs?: number; // 1 por defecto; Infinity para unbounded
+  type?: XsdSimpleType;
+  children?: XsdElement[];
+  anyContent?: boolean; // El contenido no se valida (ds:Signature, estructuras abiertas)
+}
+
+/**
+ * Nodo simplificado del documento a validar
+ */
+interface XmlNode {
+  name: string;
+  text: string;
+  children: XmlNode[];
+}
+
+// ---- Tipos simples v4.4 -------------------------------------------
+
+const texto = (minLength: number, maxLength: number): XsdSimpleType => ({ minLength, maxLength });
+const digitos = (cantidad: number): XsdSimpleType => ({
+  pattern: new RegExp(`^\\d{${cantidad}}$`),
+  descripcion: `${cantidad} dígito(s)`
+});
+
+const CLAVE = digitos(50);
+const CONSECUTIVO = digitos(20);
+const CODIGO = digitos(2);
+const ACTIVIDAD = texto(6, 6);
+const FECHA: XsdSimpleType = { dateTime: true };
+const DINERO: XsdSimpleType = { decimal: { totalDigits: 18, fractionDigits: 5 } };
+const CANTIDAD: XsdSimpleType = { decimal: { totalDigits: 16, fractionDigits: 3 } };
+const TARIFA: XsdSimpleType = { decimal: { totalDigits: 4, fractionDigits: 2 } };
+const NUMERO_IDENTIFICACION: XsdSimpleType = {
+  pattern: /^[0-9A-Za-z]{9,20}$/,
+  descripcion: 'entre 9 y 20 caracteres alfanuméricos, sin guiones'
+};
+const CEDULA: XsdSimpleType = { pattern: /^\d{9,12}$/, descripcion: 'entre 9 y 12 dígitos' };
+const CORREO: XsdSimpleType = {
+  pattern: /^\s*\w+([-+.']\w+)*@\w+([-.]\w+)*\.\w+([-.]\w+)*\s*$/,
+  descripcion: 'correo electrónico válido',
+  maxLength: 160
+};
+
+// ---- Tipos complejos compartidos ----------------------------------
+
+const IDENTIFICACION: XsdElement[] = [
+  { name: 'Tipo', type: CODIGO },
+  { name: 'Numero', type: NUMERO_IDENTIFICACION }
+];
+
+const UBICACION: XsdElement[] = [
+  { name: 'Provincia', type: { pattern: /^[1-7]$/, descripcion: 'código de provincia de 1 dígito (1-7)' } },
+  { name: 'Canton', type: { pattern: /^\d{2}$/, descripcion: 'código de cantón de 2 dígitos' } },
+  { name: 'Distrito', type: { pattern: /^\d{2}$/, descripcion: 'código de distrito de 2 dígitos' } },
+  { name: 'Barrio', minOccurs: 0, type: texto(5, 50) },
+  { name: 'OtrasSenas', type: texto(5, 250) }
+];
+
+const TELEFONO: XsdElement[] = [
+  { name: 'CodigoPais', type: { pattern: /^\d{1,3}$/, descripcion: 'hasta 3 dígitos' } },
+  { name: 'NumTelefono', type: { pattern: /^\d{8,20}$/, descripcion: 'entre 8 y 20 dígitos' } }
+];
+
+const EMISOR: XsdElement[] = [
+  { name: 'Nombre', type: texto(1, 100) },
+  { name: 'Identificacion', children: IDENTIFICACION },
+  { name: 'Registrofiscal8707', minOccurs: 0, type: texto(1, 12) },
+  { name: 'NombreComercial', minOccurs: 0, type: texto(1, 80) },
+  { name: 'Ubicacion', children: UBICACION },
+  { name: 'Telefono', minOccurs: 0, children: TELEFONO },
+  { name: 'CorreoElectronico', maxOccurs: 4, type: CORREO }
+];
+
+const RECEPTOR: XsdElement[] = [
+  { name: 'Nombre', type: texto(1, 100) },
+  { name: 'Identificacion', minOccurs: 0, children: IDENTIFICACION },
+  { name: 'IdentificacionExtranjero', minOccurs: 0, type: texto(1, 20) },
+  { name: 'NombreComercial', minOccurs: 0, type: texto(1, 80) },
+  { name: 'Ubicacion', minOccurs: 0, children: UBICACION },
+  { name: 'OtrasSenasExtranjero', minOccurs: 0, type: texto(5, 300) },
+  { name: 'Telefono', minOccurs: 0, children: TELEFONO },
+  { name: 'CorreoElectronico', minOccurs: 0, maxOccurs: 4, type: CORREO }
+];
+
+const EXONERACION: XsdElement[] = [
+  { name: 'TipoDocumentoEX1', type: CODIGO },
+  { name: 'TipoDocumentoOTRO', minOccurs: 0, type: texto(5, 100) },
+  { name: 'NumeroDocumento', type: texto(3, 40) },
+  { name: 'Articulo', minOccurs: 0, type: { pattern: /^\d{1,6}$/, descripcion: 'hasta 6 dígitos' } },
+  { name: 'Inciso', minOccurs: 0, type: { pattern: /^\d{1,6}$/, descripcion: 'hasta 6 dígitos' } },
+  { name: 'NombreInstitucion', type: { ...CODIGO, descripcion: 'código de institución de 2 dígitos' } },
+  { name: 'NombreInstitucionOtros', minOccurs: 0, type: texto(5, 160) },
+  { name: 'FechaEmisionEX', type: FECHA },
+  { name: 'TarifaExonerada', type: TARIFA },
+  { name: 'MontoExoneracion', type: DINERO }
+];
+
+const IMPUESTO: XsdElement[] = [
+  { name: 'Codigo', type: CODIGO },
+  { name: 'CodigoImpuestoOTRO', minOccurs: 0, type: texto(5, 100) },
+  { name: 'CodigoTarifaIVA', minOccurs: 0, type: CODIGO },
+  { name: 'Tarifa', minOccurs: 0, type: TARIFA },
+  { name: 'FactorCalculoIVA', minOccurs: 0, type: { decimal: { totalDigits: 5, fractionDigits: 4 } } },
+  { name: 'DatosImpuestoEspecifico', minOccurs: 0, anyContent: true },
+  { name: 'Monto', type: DINERO },
+  { name: 'Exoneracion', minOccurs: 0, children: EXONERACION }
+];
+
+const DESCUENTO: XsdElement[] = [
+  { name: 'MontoDescuento', type: DINERO },
+  { name: 'CodigoDescuento', type: CODIGO },
+  { name: 'CodigoDescuentoOTRO', minOccurs: 0, type: texto(5, 100) },
+  { name: 'NaturalezaDescuento', minOccurs: 0, type: texto(3, 80) }
+];
+
+/**
+ * Línea de detalle; la partida arancelaria solo existe en la factura de exportación
+ */
+const lineaDetalle = (partidaArancelaria: boolean): XsdElement[] => [
+  { name: 'NumeroLinea', type: { pattern: /^[1-9]\d{0,3}$/, descripcion: 'número entre 1 y 1000' } },
+  ...(partidaArancelaria ? [{ name: 'PartidaArancelaria', minOccurs: 0, type: digitos(12) }] : []),
+  { name: 'CodigoCABYS', type: { ...texto(13, 13), descripcion: '13 caracteres' } },
+  {
+    name: 'CodigoComercial',
+    minOccurs: 0,
+    maxOccurs: 5,
+    children: [
+      { name: 'Tipo', type: CODIGO },
+      { name: 'Codigo', type: texto(1, 20) }
+    ]
+  },
+  { name: 'Cantidad', type: CANTIDAD },
+  { name: 'UnidadMedida', type: texto(1, 15) },
+  { name: 'TipoTransaccion', minOccurs: 0, type: CODIGO },
+  { name: 'UnidadMedidaComercial', minOccurs: 0, type: texto(1, 20) },
+  { name: 'Detalle', type: texto(3, 200) },
+  { name: 'NumeroVINoSerie', minOccurs: 0, maxOccurs: 1000, type: texto(1, 17) },
+  { name: 'RegistroMedicamento', minOccurs: 0, type: texto(1, 100) },
+  { name: 'FormaFarmaceutica', minOccurs: 0, type: texto(1, 3) },
+  { name: 'DetalleSurtido', minOccurs: 0, anyContent: true },
+  { name: 'PrecioUnitario', type: DINERO },
+  { name: 'MontoTotal', type: DINERO },
+  { name: 'Descuento', minOccurs: 0, maxOccurs: 5, children: DESCUENTO },
+  { name: 'SubTotal', type: DINERO },
+  { name: 'IVACobradoFabrica', minOccurs: 0, type: CODIGO },
+  { name: 'BaseImponible', type: DINERO },
+  { name: 'Impuesto', minOccurs: 0, maxOccurs: 1000, children: IMPUESTO },
+  { name: 'ImpuestoAsumidoEmisorFabrica', minOccurs: 0, type: DINERO },
+  { name: 'ImpuestoNeto', type: DINERO },
+  { name: 'MontoTotalLinea', type: DINERO }
+];
+
+const OTROS_CARGOS: XsdElement[] = [
+  { name: 'TipoDocumentoOC', type: CODIGO },
+  { name: 'TipoDocumentoOTROS', minOccurs: 0, type: texto(5, 100) },
+  { name: 'IdentificacionTercero', minOccurs: 0, children: IDENTIFICACION },
+  { name: 'NombreTercero', minOccurs: 0, type: texto(1, 100) },
+  { name: 'Detalle', type: texto(1, 160) },
+  { name: 'PorcentajeOC', minOccurs: 0, type: { decimal: { totalDigits: 9, fractionDigits: 5 } } },
+  { name: 'MontoCargo', type: DINERO }
+];
+
+const RESUMEN_FACTURA: XsdElement[] = [
+  {
+    name: 'CodigoTipoMoneda',
+    minOccurs: 0,
+    children: [
+      { name: 'CodigoMoneda', type: { pattern: /^[A-Z]{3}$/, descripcion: 'código ISO 4217 de 3 letras' } },
+      { name: 'TipoCambio', type: DINERO }
+    ]
+  },
+  ...[
+    'TotalServGravados', 'TotalServExentos', 'TotalServExonerado', 'TotalServNoSujeto',
+    'TotalMercanciasGravadas', 'TotalMercanciasExentas', 'TotalMercExonerada', 'TotalMercNoSujeta',
+    'TotalGravado', 'TotalExento', 'TotalExonerado', 'TotalNoSujeto'
+  ].map(name => ({ name, minOccurs: 0, type: DINERO })),
+  { name: 'TotalVenta', type: DINERO },
+  { name: 'TotalDescuentos', minOccurs: 0, type: DINERO },
+  { name: 'TotalVentaNeta', type: DINERO },
+  {
+    name: 'TotalDesgloseImpuesto',
+    minOccurs: 0,
+    maxOccurs: 1000,
+    children: [
+      { name: 'Codigo', type: CODIGO },
+      { name: 'CodigoTarifaIVA', minOccurs: 0, type: CODIGO },
+      { name: 'TotalMontoImpuesto', type: DINERO }
+    ]
+  },
+  { name: 'TotalImpuesto', minOccurs: 0, type: DINERO },
+  { name: 'TotalImpAsumEmisorFabrica', minOccurs: 0, type: DINERO },
+  { name: 'TotalIVADevuelto', minOccurs: 0, type: DINERO },
+  { name: 'TotalOtrosCargos', minOccurs: 0, type: DINERO },
+  {
+    name: 'MedioPago',
+    minOccurs: 0,
+    maxOccurs: 4,
+    children: [
+      { name: 'TipoMedioPago', type: CODIGO },
+      { name: 'MedioPagoOtros', minOccurs: 0, type: texto(3, 100) },
+      { name: 'TotalMedioPago', minOccurs: 0, type: DINERO }
+    ]
+  },
+  { name: 'TotalComprobante', type: DINERO }
+];
+
+const INFORMACION_REFERENCIA: XsdElement[] = [
+  { name: 'TipoDocIR', type: CODIGO },
+  { name: 'TipoDocRefOTRO', minOccurs: 0, type: texto(5, 100) },
+  { name: 'Numero', minOccurs: 0, type: texto(1, 50) },
+  { name: 'FechaEmisionIR', type: FECHA },
+  { name: 'Codigo', minOccurs: 0, type: CODIGO },
+  { name: 'CodigoReferenciaOTRO', minOccurs: 0, type: texto(5, 100) },
+  { name: 'Razon', minOccurs: 0, type: texto(1, 180) }
+];
+
+const OTROS: XsdElement[] = [
+  { name: 'OtroTexto', minOccurs: 0, maxOccurs: Infinity, type: texto(1, 500) },
+  { name: 'OtroContenido', minOccurs: 0, maxOccurs: Infinity, anyContent: true }
+];
+
+const FIRMA: XsdElement = { name: 'ds:Signature', minOccurs: 0, anyContent: true };
+
+/**
+ * Estructura raíz común de los comprobantes v4.4 con las variaciones de cada tipo
+ */
+const comprobante = (opciones: {
+  actividadReceptor: boolean;
+  receptorObligatorio: boolean;
+  referenciaObligatoria: boolean;
+  partidaArancelaria: boolean;
+}): XsdElement[] => [
+  { name: 'Clave', type: CLAVE },
+  { name: 'ProveedorSistemas', type: texto(1, 20) },
+  { name: 'CodigoActividadEmisor', type: ACTIVIDAD },
+  ...(opciones.actividadReceptor ? [{ name: 'CodigoActividadReceptor', minOccurs: 0, type: ACTIVIDAD }] : []),
+  { name: 'NumeroConsecutivo', type: CONSECUTIVO },
+  { name: 'FechaEmision', type: FECHA },
+  { name: 'Emisor', children: EMISOR },
+  { name: 'Receptor', minOccurs: opciones.receptorObligatorio ? 1 : 0, children: RECEPTOR },
+  { name: 'CondicionVenta', type: CODIGO },
+  { name: 'CondicionVentaOtros', minOccurs: 0, type: texto(5, 100) },
+  { name: 'PlazoCredito', minOccurs: 0, type: { pattern: /^\d{1,5}$/, descripcion: 'número de días de hasta 5 dígitos' } },
+  {
+    name: 'DetalleServicio',
+    minOccurs: 0,
+    children: [{ name: 'LineaDetalle', maxOccurs: 1000, children: lineaDetalle(opciones.partidaArancelaria) }]
+  },
+  { name: 'OtrosCargos', minOccurs: 0, maxOccurs: 15, children: OTROS_CARGOS },
+  { name: 'ResumenFactura', children: RESUMEN_FACTURA },
+  {
+    name: 'InformacionReferencia',
+    minOccurs: opciones.referenciaObligatoria ? 1 : 0,
+    maxOccurs: 10,
+    children: INFORMACION_REFERENCIA
+  },
+  { name: 'Otros', minOccurs: 0, children: OTROS },
+  FIRMA
+];
+
+const MENSAJE_RECEPTOR: XsdElement[] = [
+  { name: 'Clave', type: CLAVE },
+  { name: 'NumeroCedulaEmisor', type: CEDULA },
+  { name: 'FechaEmisionDoc', type: FECHA },
+  { name: 'Mensaje', type: { enumeration: ['1', '2', '3'] } },
+  { name: 'DetalleMensaje', minOccurs: 0, type: texto(1, 160) },
+  { name: 'MontoTotalImpuesto', minOccurs: 0, type: DINERO },
+  { name: 'CodigoActividad', minOccurs: 0, type: ACTIVIDAD },
+  { name: 'CondicionImpuesto', minOccurs: 0, type: { enumeration: ['01', '02', '03', '04', '05'] } },
+  { name: 'MontoTotalImpuestoAcreditar', minOccurs: 0, type: DINERO },
+  { name: 'MontoTotalDeGastoAplicable', minOccurs: 0, type: DINERO },
+  { name: 'TotalFactura', type: DINERO },
+  { name: 'NumeroCedulaReceptor', type: CEDULA },
+  { name: 'NumeroConsecutivoReceptor', type: CONSECUTIVO },
+  FIRMA
+];
+
+/**
+ * Esquema de cada elemento raíz soportado, con su namespace v4.4
+ */
+const ROOT_SCHEMAS: Record<string, { namespace: string; elements: XsdElement[] }> = {
+  FacturaElectronica: {
+    namespace: `${XML_SCHEMAS_BASE}/facturaElectronica`,
+    elements: comprobante({ actividadReceptor: true, receptorObligatorio: false, referenciaObligatoria: false, partidaArancelaria: false })
+  },
+  NotaDebitoElectronica: {
+    namespace: `${XML_SCHEMAS_BASE}/notaDebitoElectronica`,
+    elements: comprobante({ actividadReceptor: true, receptorObligatorio: false, referenciaObligatoria: true, partidaArancelaria: false })
+  },
+  NotaCreditoElectronica: {
+    namespace: `${XML_SCHEMAS_BASE}/notaCreditoElectronica`,
+    elements: comprobante({ actividadReceptor: true, receptorObligatorio: false, referenciaObligatoria: true, partidaArancelaria: false })
+  },
+  TiqueteElectronico: {
+    namespace: `${XML_SCHEMAS_BASE}/tiqueteElectronico`,
+    elements: comprobante({ actividadReceptor: false, receptorObligatorio: false, referenciaObligatoria: false, partidaArancelaria: false })
+  },
+  FacturaElectronicaCompra: {
+    namespace: `${XML_SCHEMAS_BASE}/facturaElectronicaCompra`,
+    elements: comprobante({ actividadReceptor: true, receptorObligatorio: true, referenciaObligatoria: false, partidaArancelaria: false })
+  },
+  FacturaElectronicaExportacion: {
+    namespace: `${XML_SCHEMAS_BASE}/facturaElectronicaExportacion`,
+    elements: comprobante({ actividadReceptor: true, receptorObligatorio: true, referenciaObligatoria: false, partidaArancelaria: true })
+  },
+  ReciboElectronicoPago: {
+    namespace: `${XML_SCHEMAS_BASE}/reciboElectronicoPago`,
+    elements: comprobante({ actividadReceptor: true, receptorObligatorio: true, referenciaObligatoria: true, partidaArancelaria: false })
+  },
+  MensajeReceptor: {
+    namespace: `${XML_SCHEMAS_BASE}/mensajeReceptor`,
+    elements: MENSAJE_RECEPTOR
+  }
+};
+
+// ---- Validación ---------------------------------------------------
+
+const DATE_TIME_PATTERN = /^-?\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})?$/;
+
+/**
+ * Valida el valor de un tipo simple y devuelve el mensaje de error, si lo hay
+ */
+const validateSimpleValue = (value: string, type: XsdSimpleType): string | undefined => {
+  const formato = type.descripcion ? ` (${type.descripcion})` : '';
+
+  if (type.decimal) {
+    const numero = value.trim();
+    if (!/^[+-]?(\d+(\.\d*)?|\.\d+)$/.test(numero)) {
+      return `El valor "${value}" no es un número decimal válido`;
+    }
+    const [entero, fraccion = ''] = numero.replace(/^[+-]/, '').split('.');
+    const fraccionSignificativa = fraccion.replace(/0+$/, '');
+    const digitosEnteros = entero.replace(/^0+/, '').length;
+    if (fraccionSignificativa.length > type.decimal.fractionDigits) {
+      return `El valor "${value}" excede ${type.decimal.fractionDigits} decimales`;
+    }
+    if (digitosEnteros + fraccionSignificativa.length > type.decimal.totalDigits) {
+      return `El valor "${value}" excede ${type.decimal.totalDigits} dígitos en total`;
+    }
+    return undefined;
+  }
+
+  if (type.dateTime) {
+    const fecha = value.trim();
+    if (!DATE_TIME_PATTERN.test(fecha) || isNaN(Date.parse(fecha))) {
+      return `El valor "${value}" no es una fecha y hora válida (AAAA-MM-DDThh:mm:ss con zona horaria)`;
+    }
+    return undefined;
+  }
+
+  if (value.trim() === '') {
+    return 'El elemento no puede estar vacío';
+  }
+  if (type.enumeration && !type.enumeration.includes(value)) {
+    return `El valor "${value}" no está permitido. Valores válidos: ${type.enumeration.join(', ')}`;
+  }
+  if (type.minLength !== undefined && value.length < type.minLength) {
+    return `El valor "${value}" tiene ${value.length} caracteres; el mínimo es ${type.minLength}`;
+  }
+  if (type.maxLength !== undefined && value.length > type.maxLength) {
+    return `El valor tiene ${value.length} caracteres; el máximo es ${type.maxLength}`;
+  }
+  if (type.pattern && !type.pattern.test(value)) {
+    return `El valor "${value}" no cumple el formato requerido${formato}`;
+  }
+  return undefined;
+};
+
+/**
+ * Valida un elemento (simple o complejo) contra su definición
+ */
+const validateElement = (node: XmlNode, def: XsdElement, path: string, errors: XsdValidationError[]) => {
+  if (def.anyContent) return;
+
+  if (def.children) {
+    validateSequence(node.children, def.children, path, errors);
+    return;
+  }
+
+  if (node.children.length > 0) {
+    errors.push({ path, message: `El elemento ${def.name} no debe contener otros elementos` });
+    return;
+  }
+
+  if (def.type) {
+    const message = validateSimpleValue(node.text, def.type);
+    if (message) {
+      errors.push({ path, message });
+    }
+  }
+};
+
+/**
+ * Valida los hijos de un elemento contra una secuencia XSD (orden, cardinalidad y contenido)
+ */
+const validateSequence = (
+  children: XmlNode[],
+  defs: XsdElement[],
+  path: string,
+  errors: XsdValidationError[]
+) => {
+  let index = 0;
+
+  // Reporta y omite los hijos que no corresponden a ninguna definición pendiente de la secuencia
+  const skipUnexpected = (fromDef: number) => {
+    while (index < children.length && !defs.slice(fromDef).some(d => d.name === children[index].name)) {
+      const child = children[index];
+      const enEsquema = defs.some(d => d.name === child.name);
+      errors.push({
+        path: `${path}/${child.name}`,
+        message: enEsquema
+          ? `El elemento ${child.name} está fuera del orden establecido en el esquema`
+          : `El elemento ${child.name} no está definido en el esquema v4.4 en este nivel`
+      });
+      index++;
+    }
+  };
+
+  defs.forEach((def, defIndex) => {
+    const minOccurs = def.minOccurs ?? 1;
+    const maxOccurs = def.maxOccurs ?? 1;
+    let count = 0;
+
+    skipUnexpected(defIndex);
+    while (index < children.length && children[index].name === def.name) {
+      count++;
+      const childPath = maxOccurs > 1 ? `${path}/${def.name}[${count}]` : `${path}/${def.name}`;
+      if (count > maxOccurs) {
+        errors.push({ path: childPath, message: `Se permiten como máximo ${maxOccurs} elemento(s) ${def.name}` });
+      } else {
+        validateElement(children[index], def, childPath, errors);
+      }
+      index++;
+      skipUnexpected(defIndex);
+    }
+
+    if (count < minOccurs) {
+      errors.push({
+        path: `${path}/${def.name}`,
+        message: count === 0
+          ? `Falta el elemento obligatorio ${def.name}`
+          : `Se requieren al menos ${minOccurs} elemento(s) ${def.name}`
+      });
+    }
+  });
+
+  skipUnexpected(defs.length);
+};
+
+/**
+ * Convierte el XML en un árbol de nodos simplificado
+ */
+const parseXml = (xml: string): { root: XmlNode; namespace: string | null } => {
+  const rootBuilder = create(xml).root();
+  const toXmlNode = (node: typeof rootBuilder.node): XmlNode => {
+    const children: XmlNode[] = [];
+    node.childNodes.forEach(child => {
+      if (child.nodeType === 1) children.push(toXmlNode(child));
+    });
+    return { name: node.nodeName, text: children.length === 0 ? node.textContent || '' : '', children };
+  };
+  return { root: toXmlNode(rootBuilder.node), namespace: rootBuilder.node.lookupNamespaceURI(null) };
+};
+
+/**
+ * Valida un comprobante electrónico o mensaje receptor contra el esquema v4.4 de su tipo
+ * @param xml XML del comprobante (sin firmar o firmado)
+ * @returns Resultado con la lista de errores y la ruta de cada elemento
+ */
+export const validateComprobanteXml = (xml: string): XsdValidationResult => {
+  let parsed: ReturnType<typeof parseXml>;
+  try {
+    parsed = parseXml(xml);
+  } catch (error) {
+    return {
+      valid: false,
+      errors: [{ path: '/', message: `El XML no está bien formado: ${error instanceof Error ? error.message : 'Error desconocido'}` }]
+    };
+  }
+
+  const { root, namespace } = parsed;
+  const schema = ROOT_SCHEMAS[root.name];
+  if (!schema) {
+    return {
+      valid: false,
+      rootElement: root.name,
+      errors: [{ path: `/${root.name}`, message: `El elemento raíz ${root.name} no corresponde a un comprobante v4.4` }]
+    };
+  }
+
+  const errors: XsdValidationError[] = [];
+  if (namespace !== schema.namespace) {
+    errors.push({
+      path: `/${root.name}`,
+      message: `El namespace debe ser ${schema.namespace} (se recibió ${namespace || 'ninguno'})`
+    });
+  }
+  validateSequence(root.children, schema.elements, `/${root.name}`, errors);
+
+  return { valid: errors.length === 0, rootElement: root.name, errors };
+};
+
+/**
+ * Resume los errores de validación en un texto legible para mostrar o registrar
+ * @param errors Errores de validación
+ * @param max Cantidad máxima de errores a listar
+ */
+export const formatXsdErrors = (errors: XsdValidationError[], max = 10): string => {
+  const lineas = errors.slice(0, max).map(error => `• ${error.path}: ${error.message}`);
+  if (errors.length > max) {
+    lineas.push(`… y ${errors.length - max} error(es) más`);
+  }
+  return lineas.join('\n');
+};
@@ -15,6 +15,7 @@ export interface Party {
   actividadEconomica?: string; // Descripción de la actividad económica
   economic_activity_code?: string; // Código de actividad económica
   otrasSenasExtranjero?: string; // Ubicación en el extranjero (obligatorio para receptores extranjeros)
+  identificacionExtranjero?: string; // Identificación de un receptor extranjero sin cédula costarricense
 }
 
 export interface Location {
@@ -33,6 +34,7 @@ export interface Phone {
 // Línea de detalle (producto/servicio)
 export interface LineItem {
   id: number;
+  partidaArancelaria?: string; // Solo en factura de exportación: partida arancelaria de la mercancía
   codigo?: string;
   codigoCabys?: string;
   cantidad: number;
@@ -48,6 +50,7 @@ export interface LineItem {
   montoTotal: number;
   descuento?: {
     montoDescuento: number;
+    codigoDescuento?: string; // CodigoDescuento v4.4 (01-09, 99); por defecto 07 Descuento comercial
     naturalezaDescuento?: string;
   };
   subtotal: number;
@@ -121,6 +124,7 @@ export interface InvoiceSummary {
   totalVentaNeta: number;
   totalImpuesto: number;
   totalOtrosImpuestos?: number; // Total de otros impuestos (impuestos adicionales al IVA)
+  totalOtrosCargos?: number; // Total de otros cargos (OtrosCargos)
   totalComprobante: number;
 }
 
@@ -148,6 +152,15 @@ export interface Reference {
   razon: string;
 }
 
+// Pago recibido en caja con uno de los medios de pago del comprobante
+export interface MedioPagoDetalle {
+  medioPago: string; // Código de TipoMedioPago
+  monto: number; // Monto recibido; en efectivo incluye el vuelto
+  referencia?: string; // Número de comprobante SINPE Móvil, transferencia o cheque
+  autorizacion?: string; // Código de autorización del datáfono
+  ultimosDigitos?: string; // Últimos cuatro dígitos de la tarjeta
+}
+
 // Información general de la factura
 export interface Invoice {
   clave: string;
@@ -162,6 +175,8 @@ export interface Invoice {
   medioPago: string[];
   medioPagoOtros?: string; // Descripción de medio de pago cuando es 'Otros'
   totalMedioPago?: number[]; // Montos correspondientes a cada medio de pago
+  mediosPagoDetalle?: MedioPagoDetalle[]; // Pagos capturados en caja (no forman parte del XML)
+  vuelto?: number;
   detalleServicio: LineItem[];
   resumenFactura: InvoiceSummary;
   informacionReferencia?: Reference[];
@@ -205,6 +220,75 @@ export const tiposCargos = [
   { codigo: '99', descripcion: 'Otros Cargos' },
 ]
 
+// Tipos de comprobante electrónico (dígitos 9 y 10 del consecutivo, después de sucursal y terminal)
+export const tiposDocumentoElectronico = [
+  { codigo: '01', descripcion: 'Factura Electrónica' },
+  { codigo: '02', descripcion: 'Nota de Débito Electrónica' },
+  { codigo: '03', descripcion: 'Nota de Crédito Electrónica' },
+  { codigo: '04', descripcion: 'Tiquete Electrónico' },
+  { codigo: '05', descripcion: 'Confirmación de aceptación del comprobante' },
+  { codigo: '06', descripcion: 'Confirmación de aceptación parcial del comprobante' },
+  { codigo: '07', descripcion: 'Confirmación de rechazo del comprobante' },
+  { codigo: '08', descripcion: 'Factura Electrónica de Compra' },
+  { codigo: '09', descripcion: 'Factura Electrónica de Exportación' },
+  { codigo: '10', descripcion: 'Recibo Electrónico de Pago' },
+];
+
+// Tipos de documento de referencia (TipoDocIR) según v4.4
+export const tiposDocumentoReferencia = [
+  { codigo: '01', descripcion: 'Factura electrónica' },
+  { codigo: '02', descripcion: 'Nota de débito electrónica' },
+  { codigo: '03', descripcion: 'Nota de crédito electrónica' },
+  { codigo: '04', descripcion: 'Tiquete electrónico' },
+  { codigo: '05', descripcion: 'Nota de despacho' },
+  { codigo: '06', descripcion: 'Contrato' },
+  { codigo: '07', descripcion: 'Procedimiento' },
+  { codigo: '08', descripcion: 'Comprobante emitido en contingencia' },
+  { codigo: '09', descripcion: 'Devolución mercadería' },
+  { codigo: '10', descripcion: 'Comprobante rechazado por Hacienda' },
+  { codigo: '11', descripcion: 'Sustituye factura rechazada por el receptor' },
+  { codigo: '12', descripcion: 'Sustituye factura de exportación' },
+  { codigo: '13', descripcion: 'Facturación mes vencido' },
+  { codigo: '99', descripcion: 'Otros' },
+];
+
+// Códigos de referencia (Codigo en InformacionReferencia) según v4.4
+export const codigosReferencia = [
+  { codigo: '01', descripcion: 'Anula documento de referencia' },
+  { codigo: '02', descripcion: 'Corrige texto de documento de referencia' },
+  { codigo: '03', descripcion: 'Corrige monto' },
+  { codigo: '04', descripcion: 'Referencia a otro documento' },
+  { codigo: '05', descripcion: 'Sustituye comprobante provisional por contingencia' },
+  { codigo: '06', descripcion: 'Devolución de mercancía' },
+  { codigo: '07', descripcion: 'Sustituye comprobante electrónico' },
+  { codigo: '09', descripcion: 'Nota de crédito financiera' },
+  { codigo: '10', descripcion: 'Nota de débito financiera' },
+  { codigo: '99', descripcion: 'Otros' },
+];
+
+// Respuesta del receptor en MensajeReceptor y serie de consecutivo asociada
+export const mensajesReceptor = [
+  { codigo: '1', descripcion: 'Aceptado', tipoDocumento: '05' },
+  { codigo: '2', descripcion: 'Aceptado parcialmente', tipoDocumento: '06' },
+  { codigo: '3', descripcion: 'Rechazado', tipoDocumento: '07' },
+];
+
+// Condición del IVA soportado (CondicionImpuesto en MensajeReceptor v4.4)
+export const condicionesImpuesto = [
+  { codigo: '01', descripcion: 'Genera crédito IVA' },
+  { codigo: '02', descripcion: 'Genera crédito parcial del IVA' },
+  { codigo: '03', descripcion: 'Bienes de capital' },
+  { codigo: '04', descripcion: 'Gasto corriente no genera crédito' },
+  { codigo: '05', descripcion: 'Proporcionalidad' },
+];
+
+// Situación del comprobante, incluida en la clave numérica
+export const situacionesComprobante = [
+  { codigo: '1', descripcion: 'Normal' },
+  { codigo: '2', descripcion: 'Contingencia' },
+  { codigo: '3', descripcion: 'Sin internet' },
+];
+
 // Respuesta de la API de CABYS
 export interface CabysResponse {
   total?: number;
@@ -0,0 +1,13 @@
+/*
+  # Store Hacienda reception responses
+
+  1. Modified Tables
+    - `invoices`
+      - `hacienda_response_xml` (text) - MensajeHacienda decoded from `respuesta-xml`
+
+  2. Notes
+    - `hacienda_status` keeps the last `ind-estado` (recibido, procesando, aceptado, rechazado, error)
+    - `hacienda_message` keeps the DetalleMensaje text shown on rejections
+*/
+
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS hacienda_response_xml text;
@@ -0,0 +1,51 @@
+/*
+  # Create Hacienda outbox table
+
+  1. New Tables
+    - `hacienda_outbox`
+      - `id` (uuid, primary key)
+      - `company_id` (uuid, foreign key)
+      - `clave` (text) - 50-digit key of the signed document
+      - `invoice_id` (text) - id of the document in invoice history
+      - `tipo_documento` (text)
+      - `payload` (jsonb) - POST /recepcion body, including the base64 signed XML
+      - `estado` (text) - pendiente, enviado or rechazado
+      - `intentos` (integer)
+      - `ultimo_error` (text)
+      - `proximo_intento` (timestamptz)
+      - `created_at` / `updated_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on `hacienda_outbox` table
+    - Add policy so authenticated users only manage the rows of their own company
+
+  3. Notes
+    - The browser keeps a copy in IndexedDB so documents survive while Supabase is unreachable
+*/
+
+CREATE TABLE IF NOT EXISTS hacienda_outbox (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id uuid REFERENCES companies(id) NOT NULL,
+  clave text NOT NULL,
+  invoice_id text,
+  tipo_documento text NOT NULL,
+  payload jsonb NOT NULL,
+  estado text NOT NULL DEFAULT 'pendiente',
+  intentos integer NOT NULL DEFAULT 0,
+  ultimo_error text,
+  proximo_intento timestamptz DEFAULT now(),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(company_id, clave)
+);
+
+CREATE INDEX IF NOT EXISTS idx_hacienda_outbox_estado ON hacienda_outbox(company_id, estado, proximo_intento);
+
+ALTER TABLE hacienda_outbox ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their company Hacienda outbox"
+  ON hacienda_outbox
+  FOR ALL
+  TO authenticated
+  USING (company_id IN (SELECT company_id FROM users WHERE id = auth.uid()))
+  WITH CHECK (company_id IN (SELECT company_id FROM users WHERE id = auth.uid()));
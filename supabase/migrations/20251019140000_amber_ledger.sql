@@ -0,0 +1,73 @@
+/*
+  # Create supplier documents table
+
+  1. New Tables
+    - `supplier_documents`
+      - `id` (uuid, primary key)
+      - `company_id` (uuid, foreign key)
+      - `clave` (text) - 50-digit key of the supplier document
+      - `tipo_documento` (text) - 01 FE or 08 FEC
+      - `numero_consecutivo`, `fecha_emision` (text, timestamptz)
+      - `emisor_*` (text) - supplier name and identification
+      - `receptor_numero_identificacion`, `codigo_actividad` (text)
+      - `moneda`, `tipo_cambio` (text, numeric)
+      - `total_venta_neta`, `total_impuesto`, `total_comprobante` (numeric)
+      - `xml_original` (text) - XML as received from the supplier
+      - `mensaje`, `detalle_mensaje` (text) - receptor response (1, 2 or 3)
+      - `condicion_impuesto`, `monto_impuesto_acreditar`, `monto_gasto_aplicable` - VAT credit data
+      - `consecutivo_receptor`, `xml_mensaje` (text) - signed MensajeReceptor (series 05, 06 or 07)
+      - `estado_envio` (text) - sin_responder, enviado, en_cola or error
+      - `hacienda_estado`, `ultimo_error` (text)
+      - `created_at` / `updated_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on `supplier_documents` table
+    - Add policy so authenticated users only manage supplier documents of their own company
+
+  3. Notes
+    - Every imported document is kept, answered or not, so the table doubles as the purchases book
+*/
+
+CREATE TABLE IF NOT EXISTS supplier_documents (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id uuid REFERENCES companies(id) NOT NULL,
+  clave text NOT NULL,
+  tipo_documento text NOT NULL,
+  numero_consecutivo text NOT NULL,
+  fecha_emision timestamptz NOT NULL,
+  emisor_nombre text NOT NULL,
+  emisor_tipo_identificacion text NOT NULL,
+  emisor_numero_identificacion text NOT NULL,
+  receptor_numero_identificacion text,
+  codigo_actividad text,
+  moneda text NOT NULL DEFAULT 'CRC',
+  tipo_cambio numeric(18,5),
+  total_venta_neta numeric(18,5),
+  total_impuesto numeric(18,5) NOT NULL DEFAULT 0,
+  total_comprobante numeric(18,5) NOT NULL,
+  xml_original text NOT NULL,
+  mensaje text,
+  detalle_mensaje text,
+  condicion_impuesto text,
+  monto_impuesto_acreditar numeric(18,5),
+  monto_gasto_aplicable numeric(18,5),
+  consecutivo_receptor text,
+  xml_mensaje text,
+  estado_envio text NOT NULL DEFAULT 'sin_responder',
+  hacienda_estado text,
+  ultimo_error text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(company_id, clave)
+);
+
+CREATE INDEX IF NOT EXISTS idx_supplier_documents_fecha ON supplier_documents(company_id, fecha_emision);
+
+ALTER TABLE supplier_documents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their company supplier documents"
+  ON supplier_documents
+  FOR ALL
+  TO authenticated
+  USING (company_id IN (SELECT company_id FROM users WHERE id = auth.uid()))
+  WITH CHECK (company_id IN (SELECT company_id FROM users WHERE id = auth.uid()));
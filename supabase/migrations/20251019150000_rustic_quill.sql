@@ -0,0 +1,14 @@
+/*
+  # Track the origin of purchase ledger documents
+
+  1. Modified Tables
+    - `supplier_documents`
+      - `origen` (text) - `importado` for XML received from a supplier, `emitido` for a
+        Factura Electrónica de Compra (08) issued by the company on behalf of a supplier
+
+  2. Notes
+    - Issued FEC documents are not answered with a MensajeReceptor; `estado_envio` tracks
+      their own submission to Hacienda
+*/
+
+ALTER TABLE supplier_documents ADD COLUMN IF NOT EXISTS origen text NOT NULL DEFAULT 'importado';
@@ -0,0 +1,60 @@
+/*
+  # Create invoice payments table
+
+  1. New Tables
+    - `invoice_payments`
+      - `id` (uuid, primary key)
+      - `company_id` (uuid, foreign key)
+      - `invoice_id` (text) - id of the invoice in `invoice_data`
+      - `invoice_clave` (text) - 50-digit key of the paid invoice
+      - `fecha_pago` (date)
+      - `monto` (numeric) - amount paid, in the invoice currency
+      - `moneda` (text)
+      - `medio_pago` (text) - TipoMedioPago code
+      - `cuenta_bancaria`, `banco`, `referencia`, `notas` (text) - per-payment bank data and reference
+      - `recibo_clave`, `recibo_consecutivo` (text) - Recibo Electrónico de Pago (series 10)
+      - `recibo_fecha_emision` (timestamptz)
+      - `recibo_estado` (text) - pendiente, enviado, en_cola or error
+      - `recibo_error`, `recibo_xml` (text)
+      - `created_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on `invoice_payments` table
+    - Add policy so authenticated users only manage invoice payments of their own company
+
+  3. Notes
+    - An invoice can have many payments (abonos); its outstanding balance is the total minus the payments
+*/
+
+CREATE TABLE IF NOT EXISTS invoice_payments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id uuid REFERENCES companies(id) NOT NULL,
+  invoice_id text NOT NULL,
+  invoice_clave text,
+  fecha_pago date NOT NULL,
+  monto numeric(18,5) NOT NULL CHECK (monto > 0),
+  moneda text NOT NULL DEFAULT 'CRC',
+  medio_pago text NOT NULL,
+  cuenta_bancaria text,
+  banco text,
+  referencia text,
+  notas text,
+  recibo_clave text,
+  recibo_consecutivo text,
+  recibo_fecha_emision timestamptz,
+  recibo_estado text,
+  recibo_error text,
+  recibo_xml text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_payments_invoice ON invoice_payments(company_id, invoice_id, fecha_pago);
+
+ALTER TABLE invoice_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their company invoice payments"
+  ON invoice_payments
+  FOR ALL
+  TO authenticated
+  USING (company_id IN (SELECT company_id FROM users WHERE id = auth.uid()))
+  WITH CHECK (company_id IN (SELECT company_id FROM users WHERE id = auth.uid()));
@@ -0,0 +1,62 @@
+/*
+  # Client credit terms and credit override log
+
+  1. Modified Tables
+    - `clients`
+      - `credit_limit` (numeric) - maximum outstanding balance in CRC; null means no limit
+      - `default_credit_days` (integer) - plazo prefilled on credit invoices
+      - `credit_blocked` (boolean) - credit sales are blocked for the client
+
+  2. New Tables
+    - `credit_overrides`
+      - `id` (uuid, primary key)
+      - `company_id` (uuid, foreign key)
+      - `client_id` (uuid, foreign key)
+      - `client_identification` (text)
+      - `invoice_total` (numeric) - total of the new invoice in CRC
+      - `outstanding_balance` (numeric) - client balance in CRC before the invoice
+      - `credit_limit` (numeric)
+      - `reasons` (text) - why the credit check blocked the sale
+      - `supervisor_id` (uuid, foreign key) and `supervisor_username` (text) - user who authorized it
+      - `requested_by` (text) - user issuing the invoice
+      - `notes` (text) - justification entered by the supervisor
+      - `created_at` (timestamptz)
+
+  3. Security
+    - Enable RLS on `credit_overrides` table
+    - Add policy so authenticated users only manage credit overrides of their own company
+
+  4. Notes
+    - Only users with role `admin` or `supervisor` can authorize a blocked credit sale
+*/
+
+ALTER TABLE clients ADD COLUMN IF NOT EXISTS credit_limit numeric(18,5);
+ALTER TABLE clients ADD COLUMN IF NOT EXISTS default_credit_days integer;
+ALTER TABLE clients ADD COLUMN IF NOT EXISTS credit_blocked boolean DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS credit_overrides (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id uuid REFERENCES companies(id) NOT NULL,
+  client_id uuid REFERENCES clients(id),
+  client_identification text NOT NULL,
+  invoice_total numeric(18,5) NOT NULL,
+  outstanding_balance numeric(18,5) NOT NULL,
+  credit_limit numeric(18,5),
+  reasons text NOT NULL,
+  supervisor_id uuid REFERENCES users(id),
+  supervisor_username text NOT NULL,
+  requested_by text,
+  notes text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_credit_overrides_client ON credit_overrides(company_id, client_identification, created_at);
+
+ALTER TABLE credit_overrides ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their company credit overrides"
+  ON credit_overrides
+  FOR ALL
+  TO authenticated
+  USING (company_id IN (SELECT company_id FROM users WHERE id = auth.uid()))
+  WITH CHECK (company_id IN (SELECT company_id FROM users WHERE id = auth.uid()));
@@ -0,0 +1,88 @@
+/*
+  # Bank accounts and imported bank statements
+
+  1. New Tables
+    - `bank_accounts`
+      - `id` (uuid, primary key)
+      - `company_id` (uuid, foreign key)
+      - `banco` (text) - BCR, BN, BAC or other
+      - `numero_cuenta` (text) - account number or IBAN
+      - `moneda` (text)
+      - `tipo` (text) - Corriente, Ahorros or Digital
+      - `alias` (text)
+      - `is_active` (boolean)
+      - `created_at` (timestamptz)
+    - `bank_transactions`
+      - `id` (uuid, primary key)
+      - `company_id` (uuid, foreign key)
+      - `bank_account_id` (uuid, foreign key)
+      - `fecha` (date)
+      - `descripcion`, `referencia` (text)
+      - `monto` (numeric) - positive for deposits, negative for debits
+      - `saldo` (numeric) - balance reported by the bank, when present
+      - `import_hash` (text) - FITID or a hash of the line, to skip duplicates on re-import
+      - `estado` (text) - pendiente, conciliado or ignorado
+      - `archivo` (text) - imported file name
+      - `created_at` (timestamptz)
+
+  2. Modified Tables
+    - `invoice_payments`
+      - `bank_transaction_id` (uuid) - deposit reconciled with the payment
+
+  3. Security
+    - Enable RLS on `bank_accounts` and `bank_transactions`
+    - Add policies so authenticated users only manage the rows of their own company
+
+  4. Notes
+    - A deposit can be split across several invoices; each part is an invoice payment pointing to the deposit
+*/
+
+CREATE TABLE IF NOT EXISTS bank_accounts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id uuid REFERENCES companies(id) NOT NULL,
+  banco text NOT NULL,
+  numero_cuenta text NOT NULL,
+  moneda text NOT NULL DEFAULT 'CRC',
+  tipo text NOT NULL DEFAULT 'Corriente',
+  alias text,
+  is_active boolean DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(company_id, numero_cuenta)
+);
+
+CREATE TABLE IF NOT EXISTS bank_transactions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id uuid REFERENCES companies(id) NOT NULL,
+  bank_account_id uuid REFERENCES bank_accounts(id) NOT NULL,
+  fecha date NOT NULL,
+  descripcion text NOT NULL DEFAULT '',
+  referencia text,
+  monto numeric(18,5) NOT NULL,
+  saldo numeric(18,5),
+  import_hash text NOT NULL,
+  estado text NOT NULL DEFAULT 'pendiente',
+  archivo text,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(bank_account_id, import_hash)
+);
+
+ALTER TABLE invoice_payments ADD COLUMN IF NOT EXISTS bank_transaction_id uuid REFERENCES bank_transactions(id);
+
+CREATE INDEX IF NOT EXISTS idx_bank_transactions_estado ON bank_transactions(company_id, estado, fecha);
+
+ALTER TABLE bank_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bank_transactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their company bank accounts"
+  ON bank_accounts
+  FOR ALL
+  TO authenticated
+  USING (company_id IN (SELECT company_id FROM users WHERE id = auth.uid()))
+  WITH CHECK (company_id IN (SELECT company_id FROM users WHERE id = auth.uid()));
+
+CREATE POLICY "Users can manage their company bank transactions"
+  ON bank_transactions
+  FOR ALL
+  TO authenticated
+  USING (company_id IN (SELECT company_id FROM users WHERE id = auth.uid()))
+  WITH CHECK (company_id IN (SELECT company_id FROM users WHERE id = auth.uid()));
@@ -0,0 +1,85 @@
+/*
+  # Cash register sessions and Z reports
+
+  1. New Tables
+    - `cash_sessions`
+      - `id` (uuid, primary key)
+      - `company_id` (uuid, foreign key)
+      - `user_id` (uuid, foreign key) and `username` (text) - cashier who opened the session
+      - `terminal` (text) - point of sale / cash drawer code
+      - `moneda` (text) - currency of the opening float
+      - `fondo_inicial` (numeric) - opening float
+      - `estado` (text) - abierta or cerrada
+      - `fecha_apertura`, `fecha_cierre` (timestamptz)
+      - `diferencia_total` (numeric) - counted minus expected, all payment methods
+      - `notas_cierre` (text)
+      - `cierre` (jsonb) - Z report: counted vs. expected per payment method and every document issued
+      - `created_at` (timestamptz)
+    - `cash_movements`
+      - `id` (uuid, primary key)
+      - `company_id` (uuid, foreign key)
+      - `session_id` (uuid, foreign key)
+      - `tipo` (text) - entrada or salida
+      - `monto` (numeric)
+      - `motivo` (text)
+      - `username` (text)
+      - `created_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on `cash_sessions` and `cash_movements`
+    - Add policies so authenticated users only manage the rows of their own company
+
+  3. Notes
+    - Only one open session per terminal and per user
+    - Documents issued during a session store its id (`sesionCajaId`) in invoice_data
+*/
+
+CREATE TABLE IF NOT EXISTS cash_sessions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id uuid REFERENCES companies(id) NOT NULL,
+  user_id uuid REFERENCES users(id),
+  username text NOT NULL,
+  terminal text NOT NULL,
+  moneda text NOT NULL DEFAULT 'CRC',
+  fondo_inicial numeric(18,5) NOT NULL DEFAULT 0,
+  estado text NOT NULL DEFAULT 'abierta' CHECK (estado IN ('abierta', 'cerrada')),
+  fecha_apertura timestamptz DEFAULT now(),
+  fecha_cierre timestamptz,
+  diferencia_total numeric(18,5),
+  notas_cierre text,
+  cierre jsonb,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS cash_movements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id uuid REFERENCES companies(id) NOT NULL,
+  session_id uuid REFERENCES cash_sessions(id) NOT NULL,
+  tipo text NOT NULL CHECK (tipo IN ('entrada', 'salida')),
+  monto numeric(18,5) NOT NULL CHECK (monto > 0),
+  motivo text NOT NULL,
+  username text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cash_sessions_terminal_abierta ON cash_sessions(company_id, terminal) WHERE estado = 'abierta';
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cash_sessions_user_abierta ON cash_sessions(company_id, user_id) WHERE estado = 'abierta';
+CREATE INDEX IF NOT EXISTS idx_cash_sessions_fecha ON cash_sessions(company_id, fecha_apertura);
+CREATE INDEX IF NOT EXISTS idx_cash_movements_session ON cash_movements(session_id, created_at);
+
+ALTER TABLE cash_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE cash_movements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their company cash sessions"
+  ON cash_sessions
+  FOR ALL
+  TO authenticated
+  USING (company_id IN (SELECT company_id FROM users WHERE id = auth.uid()))
+  WITH CHECK (company_id IN (SELECT company_id FROM users WHERE id = auth.uid()));
+
+CREATE POLICY "Users can manage their company cash movements"
+  ON cash_movements
+  FOR ALL
+  TO authenticated
+  USING (company_id IN (SELECT company_id FROM users WHERE id = auth.uid()))
+  WITH CHECK (company_id IN (SELECT company_id FROM users WHERE id = auth.uid()));
@@ -0,0 +1,73 @@
+/*
+  # Atomic document consecutives
+
+  1. New Tables
+    - `document_sequences`
+      - `company_id` (uuid, foreign key)
+      - `environment` (text) - test or prod; each Hacienda environment has its own series
+      - `sucursal` (text) - branch code (3 digits)
+      - `terminal` (text) - terminal code (5 digits)
+      - `tipo_doc` (text) - document type (01 factura, 04 tiquete, ...)
+      - `ultimo_consecutivo` (bigint) - last number handed out
+      - `updated_at` (timestamptz)
+
+  2. Functions
+    - `next_consecutive(p_company_id, p_environment, p_sucursal, p_terminal, p_tipo_doc, p_cantidad)`
+      - Increments the series by `p_cantidad` in a single statement and returns the last
+        number of the block; concurrent callers are serialized by the row lock
+      - The number is the last 10 digits of the consecutive, so a series cannot go past 9999999999
+
+  3. Security
+    - Enable RLS on `document_sequences`
+    - Authenticated users can only read and manage the series of their own company
+*/
+
+CREATE TABLE IF NOT EXISTS document_sequences (
+  company_id uuid REFERENCES companies(id) NOT NULL,
+  environment text NOT NULL DEFAULT 'test' CHECK (environment IN ('test', 'prod')),
+  sucursal text NOT NULL CHECK (sucursal ~ '^[0-9]{3}$'),
+  terminal text NOT NULL CHECK (terminal ~ '^[0-9]{5}$'),
+  tipo_doc text NOT NULL CHECK (tipo_doc ~ '^[0-9]{2}$'),
+  ultimo_consecutivo bigint NOT NULL DEFAULT 0 CHECK (ultimo_consecutivo >= 0 AND ultimo_consecutivo <= 9999999999),
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (company_id, environment, sucursal, terminal, tipo_doc)
+);
+
+CREATE OR REPLACE FUNCTION next_consecutive(
+  p_company_id uuid,
+  p_environment text,
+  p_sucursal text,
+  p_terminal text,
+  p_tipo_doc text,
+  p_cantidad integer DEFAULT 1
+)
+RETURNS bigint
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_ultimo bigint;
+BEGIN
+  IF p_cantidad IS NULL OR p_cantidad < 1 THEN
+    RAISE EXCEPTION 'p_cantidad must be a positive integer';
+  END IF;
+
+  INSERT INTO document_sequences AS ds (company_id, environment, sucursal, terminal, tipo_doc, ultimo_consecutivo, updated_at)
+  VALUES (p_company_id, p_environment, p_sucursal, p_terminal, p_tipo_doc, p_cantidad, now())
+  ON CONFLICT (company_id, environment, sucursal, terminal, tipo_doc)
+  DO UPDATE SET
+    ultimo_consecutivo = ds.ultimo_consecutivo + p_cantidad,
+    updated_at = now()
+  RETURNING ds.ultimo_consecutivo INTO v_ultimo;
+
+  RETURN v_ultimo;
+END;
+$$;
+
+ALTER TABLE document_sequences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their company document sequences"
+  ON document_sequences
+  FOR ALL
+  TO authenticated
+  USING (company_id IN (SELECT company_id FROM users WHERE id = auth.uid()))
+  WITH CHECK (company_id IN (SELECT company_id FROM users WHERE id = auth.uid()));
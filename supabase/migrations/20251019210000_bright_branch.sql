@@ -0,0 +1,79 @@
+/*
+  # Branches (sucursales) and points of sale (terminales)
+
+  1. New Tables
+    - `branches`
+      - `id` (uuid, primary key)
+      - `company_id` (uuid, foreign key)
+      - `codigo` (text) - branch code used in the consecutive (3 digits)
+      - `nombre` (text)
+      - `provincia`, `canton`, `distrito`, `barrio`, `otras_senas` (text) - branch address
+      - `telefono`, `correo` (text)
+      - `activa` (boolean)
+      - `created_at`, `updated_at` (timestamptz)
+    - `terminals`
+      - `id` (uuid, primary key)
+      - `company_id` (uuid, foreign key)
+      - `branch_id` (uuid, foreign key)
+      - `codigo` (text) - terminal code used in the consecutive (5 digits)
+      - `nombre` (text)
+      - `activa` (boolean)
+      - `created_at`, `updated_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on `branches` and `terminals`
+    - Add policies so authenticated users only manage the rows of their own company
+
+  3. Notes
+    - Each branch and terminal pair has its own series in `document_sequences`, keyed by their codes
+    - Codes cannot be reused within the company (branches) or the branch (terminals)
+*/
+
+CREATE TABLE IF NOT EXISTS branches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id uuid REFERENCES companies(id) NOT NULL,
+  codigo text NOT NULL CHECK (codigo ~ '^[0-9]{3}$'),
+  nombre text NOT NULL,
+  provincia text,
+  canton text,
+  distrito text,
+  barrio text,
+  otras_senas text,
+  telefono text,
+  correo text,
+  activa boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (company_id, codigo)
+);
+
+CREATE TABLE IF NOT EXISTS terminals (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id uuid REFERENCES companies(id) NOT NULL,
+  branch_id uuid REFERENCES branches(id) ON DELETE CASCADE NOT NULL,
+  codigo text NOT NULL CHECK (codigo ~ '^[0-9]{5}$'),
+  nombre text NOT NULL,
+  activa boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (branch_id, codigo)
+);
+
+CREATE INDEX IF NOT EXISTS idx_terminals_company ON terminals(company_id, branch_id);
+
+ALTER TABLE branches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE terminals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their company branches"
+  ON branches
+  FOR ALL
+  TO authenticated
+  USING (company_id IN (SELECT company_id FROM users WHERE id = auth.uid()))
+  WITH CHECK (company_id IN (SELECT company_id FROM users WHERE id = auth.uid()));
+
+CREATE POLICY "Users can manage their company terminals"
+  ON terminals
+  FOR ALL
+  TO authenticated
+  USING (company_id IN (SELECT company_id FROM users WHERE id = auth.uid()))
+  WITH CHECK (company_id IN (SELECT company_id FROM users WHERE id = auth.uid()));
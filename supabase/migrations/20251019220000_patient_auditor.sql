@@ -0,0 +1,50 @@
+/*
+  # Consecutive audit: gap justifications
+
+  1. New Tables
+    - `consecutive_gap_justifications`
+      - `id` (uuid, primary key)
+      - `company_id` (uuid, foreign key)
+      - `environment` (text) - test or prod
+      - `tipo_doc` (text) - document type
+      - `sucursal` (text) - branch code (3 digits)
+      - `terminal` (text) - terminal code (5 digits)
+      - `desde`, `hasta` (bigint) - missing numbers covered by the justification, both inclusive
+      - `justificacion` (text) - why the numbers were never issued
+      - `username` (text) - who annotated the gap
+      - `created_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on `consecutive_gap_justifications`
+    - Add policy so authenticated users only manage justifications of their own company
+
+  3. Notes
+    - Justifications are kept for the audit trail; a new one for the same range supersedes the previous
+*/
+
+CREATE TABLE IF NOT EXISTS consecutive_gap_justifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id uuid REFERENCES companies(id) NOT NULL,
+  environment text NOT NULL CHECK (environment IN ('test', 'prod')),
+  tipo_doc text NOT NULL,
+  sucursal text NOT NULL,
+  terminal text NOT NULL,
+  desde bigint NOT NULL CHECK (desde > 0),
+  hasta bigint NOT NULL,
+  justificacion text NOT NULL,
+  username text,
+  created_at timestamptz DEFAULT now(),
+  CHECK (hasta >= desde)
+);
+
+CREATE INDEX IF NOT EXISTS idx_gap_justifications_serie
+  ON consecutive_gap_justifications(company_id, environment, tipo_doc, sucursal, terminal, created_at);
+
+ALTER TABLE consecutive_gap_justifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their company gap justifications"
+  ON consecutive_gap_justifications
+  FOR ALL
+  TO authenticated
+  USING (company_id IN (SELECT company_id FROM users WHERE id = auth.uid()))
+  WITH CHECK (company_id IN (SELECT company_id FROM users WHERE id = auth.uid()));
@@ -0,0 +1,107 @@
+/*
+  # Idempotent stock decrements from offline sales
+
+  1. New Tables
+    - `stock_movements`
+      - `company_id` (uuid, foreign key)
+      - `sync_id` (text) - id of the item in the device sync queue; applying it twice is a no-op
+      - `product_id` (uuid, foreign key)
+      - `cantidad` (numeric) - quantity sold
+      - `documento` (text) - document that sold the product
+      - `stock_anterior` (numeric) - stock right before this sale was applied
+      - `created_at` (timestamptz)
+
+  2. Modified Tables
+    - `products`
+      - `stock` and `min_stock` change from integer to numeric(18,3), the same precision as
+        invoice line quantities, so fractional sales (kg, litres) are decremented exactly
+        instead of being rounded on every update
+
+  3. Functions
+    - `apply_stock_sale(p_company_id, p_sync_id, p_product_id, p_cantidad, p_documento)`
+      - Locks the product row, decrements its stock (never below zero) and records the movement
+        in a single transaction, so sales from several terminals add up
+      - A sync id that was already applied returns the recorded stock without touching the
+        product again (the device lost the response and retried)
+      - Returns the stock before the sale; fails (and claims nothing) if the product does not
+        belong to the company
+
+  4. Security
+    - Enable RLS on `stock_movements`
+    - Add policy so authenticated users only manage stock movements of their own company
+*/
+
+ALTER TABLE products
+  ALTER COLUMN stock TYPE numeric(18,3),
+  ALTER COLUMN min_stock TYPE numeric(18,3);
+
+CREATE TABLE IF NOT EXISTS stock_movements (
+  company_id uuid REFERENCES companies(id) NOT NULL,
+  sync_id text NOT NULL,
+  product_id uuid REFERENCES products(id) NOT NULL,
+  cantidad numeric(18,3) NOT NULL CHECK (cantidad > 0),
+  documento text,
+  stock_anterior numeric(18,3),
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (company_id, sync_id)
+);
+
+CREATE OR REPLACE FUNCTION apply_stock_sale(
+  p_company_id uuid,
+  p_sync_id text,
+  p_product_id uuid,
+  p_cantidad numeric,
+  p_documento text DEFAULT NULL
+)
+RETURNS numeric
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_anterior numeric;
+BEGIN
+  IF p_cantidad IS NULL OR p_cantidad <= 0 THEN
+    RAISE EXCEPTION 'p_cantidad must be positive';
+  END IF;
+
+  -- Claim the sync id; a concurrent retry waits here for the first transaction
+  INSERT INTO stock_movements (company_id, sync_id, product_id, cantidad, documento)
+  VALUES (p_company_id, p_sync_id, p_product_id, p_cantidad, p_documento)
+  ON CONFLICT (company_id, sync_id) DO NOTHING;
+
+  IF NOT FOUND THEN
+    SELECT stock_anterior INTO v_anterior
+    FROM stock_movements
+    WHERE company_id = p_company_id AND sync_id = p_sync_id;
+    RETURN v_anterior;
+  END IF;
+
+  SELECT COALESCE(stock, 0) INTO v_anterior
+  FROM products
+  WHERE id = p_product_id AND company_id = p_company_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product % not found for company %', p_product_id, p_company_id;
+  END IF;
+
+  UPDATE products
+  SET stock = GREATEST(v_anterior - p_cantidad, 0),
+      updated_at = now()
+  WHERE id = p_product_id AND company_id = p_company_id;
+
+  UPDATE stock_movements
+  SET stock_anterior = v_anterior
+  WHERE company_id = p_company_id AND sync_id = p_sync_id;
+
+  RETURN v_anterior;
+END;
+$$;
+
+ALTER TABLE stock_movements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their company stock movements"
+  ON stock_movements
+  FOR ALL
+  TO authenticated
+  USING (company_id IN (SELECT company_id FROM users WHERE id = auth.uid()))
+  WITH CHECK (company_id IN (SELECT company_id FROM users WHERE id = auth.uid()));
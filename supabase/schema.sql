@@ -89,6 +89,9 @@ CREATE TABLE clients (
   canton VARCHAR(100),
   district VARCHAR(100),
   address TEXT,
+  credit_limit NUMERIC(18,5),  -- Límite de crédito en colones; NULL sin límite
+  default_credit_days INTEGER,  -- Plazo de crédito por defecto
+  credit_blocked BOOLEAN DEFAULT FALSE,
   is_active BOOLEAN DEFAULT TRUE,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
@@ -108,8 +111,8 @@ CREATE TABLE products (
   unit_measure VARCHAR(50) DEFAULT 'Unid',
   sku VARCHAR(100),
   barcode VARCHAR(100),
-  stock INTEGER DEFAULT 0,
-  min_stock INTEGER DEFAULT 0,
+  stock DECIMAL(18, 3) DEFAULT 0,  -- Misma precisión que las cantidades de las líneas (ventas por peso o volumen)
+  min_stock DECIMAL(18, 3) DEFAULT 0,
   is_active BOOLEAN DEFAULT TRUE,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
@@ -135,6 +138,7 @@ CREATE TABLE invoices (
   status VARCHAR(50) NOT NULL DEFAULT 'draft',
   hacienda_status VARCHAR(50),
   hacienda_message TEXT,
+  hacienda_response_xml TEXT,  -- MensajeHacienda recibido en /recepcion/{clave}
   xml_content TEXT,
   pdf_path VARCHAR(255),
   notes TEXT,
@@ -184,9 +188,331 @@ CREATE TABLE certificates (
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Cola de comprobantes firmados pendientes de envío a Hacienda
+CREATE TABLE hacienda_outbox (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID REFERENCES companies(id) NOT NULL,
+  clave VARCHAR(50) NOT NULL,
+  invoice_id VARCHAR(100),
+  tipo_documento VARCHAR(2) NOT NULL,
+  payload JSONB NOT NULL,  -- Cuerpo del POST /recepcion con el XML firmado en base64
+  estado VARCHAR(20) NOT NULL DEFAULT 'pendiente',  -- pendiente, enviado, rechazado
+  intentos INTEGER NOT NULL DEFAULT 0,
+  ultimo_error TEXT,
+  proximo_intento TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(company_id, clave)
+);
+
+-- Tabla de comprobantes recibidos de proveedores (libro de compras)
+CREATE TABLE supplier_documents (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID REFERENCES companies(id) NOT NULL,
+  clave VARCHAR(50) NOT NULL,
+  tipo_documento VARCHAR(2) NOT NULL,  -- 01 Factura electrónica, 08 Factura electrónica de compra
+  numero_consecutivo VARCHAR(20) NOT NULL,
+  fecha_emision TIMESTAMP WITH TIME ZONE NOT NULL,
+  emisor_nombre VARCHAR(255) NOT NULL,
+  emisor_tipo_identificacion VARCHAR(2) NOT NULL,
+  emisor_numero_identificacion VARCHAR(20) NOT NULL,
+  receptor_numero_identificacion VARCHAR(20),
+  codigo_actividad VARCHAR(6),
+  moneda VARCHAR(3) NOT NULL DEFAULT 'CRC',
+  tipo_cambio DECIMAL(18,5),
+  total_venta_neta DECIMAL(18,5),
+  total_impuesto DECIMAL(18,5) NOT NULL DEFAULT 0,
+  total_comprobante DECIMAL(18,5) NOT NULL,
+  xml_original TEXT NOT NULL,
+  mensaje VARCHAR(1),  -- 1 Aceptado, 2 Aceptado parcialmente, 3 Rechazado
+  detalle_mensaje VARCHAR(160),
+  condicion_impuesto VARCHAR(2),
+  monto_impuesto_acreditar DECIMAL(18,5),
+  monto_gasto_aplicable DECIMAL(18,5),
+  consecutivo_receptor VARCHAR(20),
+  xml_mensaje TEXT,  -- MensajeReceptor firmado
+  estado_envio VARCHAR(20) NOT NULL DEFAULT 'sin_responder',  -- sin_responder, enviado, en_cola, error
+  origen VARCHAR(10) NOT NULL DEFAULT 'importado',  -- importado (XML del proveedor), emitido (FEC propia)
+  hacienda_estado VARCHAR(20),
+  ultimo_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(company_id, clave)
+);
+
+-- Tabla de pagos y abonos sobre facturas
+CREATE TABLE invoice_payments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID REFERENCES companies(id) NOT NULL,
+  invoice_id VARCHAR(100) NOT NULL,  -- ID de la factura en invoice_data
+  invoice_clave VARCHAR(50),
+  fecha_pago DATE NOT NULL,
+  monto DECIMAL(18,5) NOT NULL CHECK (monto > 0),
+  moneda VARCHAR(3) NOT NULL DEFAULT 'CRC',
+  medio_pago VARCHAR(2) NOT NULL,
+  cuenta_bancaria VARCHAR(50),
+  banco VARCHAR(100),
+  referencia VARCHAR(100),  -- Número de transferencia, cheque o comprobante
+  notas TEXT,
+  recibo_clave VARCHAR(50),  -- Recibo Electrónico de Pago (serie 10)
+  recibo_consecutivo VARCHAR(20),
+  recibo_fecha_emision TIMESTAMP WITH TIME ZONE,
+  recibo_estado VARCHAR(20),  -- pendiente, enviado, en_cola, error
+  recibo_error TEXT,
+  recibo_xml TEXT,
+  bank_transaction_id UUID,  -- Depósito conciliado con el pago
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Tabla de autorizaciones de venta a crédito por encima del límite o con cliente bloqueado
+CREATE TABLE credit_overrides (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID REFERENCES companies(id) NOT NULL,
+  client_id UUID REFERENCES clients(id),
+  client_identification VARCHAR(50) NOT NULL,
+  invoice_total NUMERIC(18,5) NOT NULL,
+  outstanding_balance NUMERIC(18,5) NOT NULL,
+  credit_limit NUMERIC(18,5),
+  reasons TEXT NOT NULL,
+  supervisor_id UUID REFERENCES users(id),
+  supervisor_username VARCHAR(255) NOT NULL,
+  requested_by VARCHAR(255),
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Tabla de cuentas bancarias de la empresa
+CREATE TABLE bank_accounts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID REFERENCES companies(id) NOT NULL,
+  banco VARCHAR(50) NOT NULL,
+  numero_cuenta VARCHAR(50) NOT NULL,  -- Número de cuenta o IBAN
+  moneda VARCHAR(3) NOT NULL DEFAULT 'CRC',
+  tipo VARCHAR(20) NOT NULL DEFAULT 'Corriente',
+  alias VARCHAR(100),
+  is_active BOOLEAN DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(company_id, numero_cuenta)
+);
+
+-- Tabla de movimientos importados de los estados de cuenta bancarios
+CREATE TABLE bank_transactions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID REFERENCES companies(id) NOT NULL,
+  bank_account_id UUID REFERENCES bank_accounts(id) NOT NULL,
+  fecha DATE NOT NULL,
+  descripcion TEXT NOT NULL DEFAULT '',
+  referencia VARCHAR(100),
+  monto NUMERIC(18,5) NOT NULL,  -- Positivo para depósitos, negativo para débitos
+  saldo NUMERIC(18,5),
+  import_hash VARCHAR(255) NOT NULL,  -- Evita duplicados al reimportar un extracto
+  estado VARCHAR(20) NOT NULL DEFAULT 'pendiente',  -- pendiente, conciliado, ignorado
+  archivo VARCHAR(255),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(bank_account_id, import_hash)
+);
+
+-- Tabla de sesiones de caja (apertura y cierre) por usuario y terminal
+CREATE TABLE cash_sessions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID REFERENCES companies(id) NOT NULL,
+  user_id UUID REFERENCES users(id),
+  username VARCHAR(255) NOT NULL,
+  terminal VARCHAR(20) NOT NULL,
+  moneda VARCHAR(3) NOT NULL DEFAULT 'CRC',
+  fondo_inicial NUMERIC(18,5) NOT NULL DEFAULT 0,
+  estado VARCHAR(20) NOT NULL DEFAULT 'abierta',  -- abierta, cerrada
+  fecha_apertura TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  fecha_cierre TIMESTAMP WITH TIME ZONE,
+  diferencia_total NUMERIC(18,5),  -- Contado menos esperado
+  notas_cierre TEXT,
+  cierre JSONB,  -- Reporte de cierre (Z): arqueo por medio de pago y documentos emitidos
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Tabla de entradas y salidas de efectivo durante una sesión de caja
+CREATE TABLE cash_movements (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID REFERENCES companies(id) NOT NULL,
+  session_id UUID REFERENCES cash_sessions(id) NOT NULL,
+  tipo VARCHAR(10) NOT NULL,  -- entrada, salida
+  monto NUMERIC(18,5) NOT NULL CHECK (monto > 0),
+  motivo TEXT NOT NULL,
+  username VARCHAR(255),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Tabla de sucursales de la empresa; el código forma parte del número consecutivo
+CREATE TABLE branches (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID REFERENCES companies(id) NOT NULL,
+  codigo VARCHAR(3) NOT NULL,
+  nombre VARCHAR(255) NOT NULL,
+  provincia VARCHAR(1),
+  canton VARCHAR(2),
+  distrito VARCHAR(2),
+  barrio VARCHAR(100),
+  otras_senas TEXT,
+  telefono VARCHAR(20),
+  correo VARCHAR(255),
+  activa BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(company_id, codigo)
+);
+
+-- Tabla de terminales (puntos de venta) de cada sucursal
+CREATE TABLE terminals (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID REFERENCES companies(id) NOT NULL,
+  branch_id UUID REFERENCES branches(id) ON DELETE CASCADE NOT NULL,
+  codigo VARCHAR(5) NOT NULL,
+  nombre VARCHAR(255) NOT NULL,
+  activa BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(branch_id, codigo)
+);
+
+-- Tabla de consecutivos por empresa, ambiente, sucursal, terminal y tipo de documento
+-- Se asignan con la función next_consecutive para que dos terminales nunca repitan un número
+CREATE TABLE document_sequences (
+  company_id UUID REFERENCES companies(id) NOT NULL,
+  environment VARCHAR(4) NOT NULL DEFAULT 'test',  -- test, prod
+  sucursal VARCHAR(3) NOT NULL,
+  terminal VARCHAR(5) NOT NULL,
+  tipo_doc VARCHAR(2) NOT NULL,
+  ultimo_consecutivo BIGINT NOT NULL DEFAULT 0,  -- Último número entregado (hasta 10 dígitos)
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (company_id, environment, sucursal, terminal, tipo_doc)
+);
+
+-- Tabla de justificaciones de consecutivos faltantes (auditoría de la serie)
+CREATE TABLE consecutive_gap_justifications (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID REFERENCES companies(id) NOT NULL,
+  environment VARCHAR(4) NOT NULL,  -- test, prod
+  tipo_doc VARCHAR(2) NOT NULL,
+  sucursal VARCHAR(3) NOT NULL,
+  terminal VARCHAR(5) NOT NULL,
+  desde BIGINT NOT NULL,  -- Primer número faltante justificado
+  hasta BIGINT NOT NULL,  -- Último número faltante justificado
+  justificacion TEXT NOT NULL,
+  username VARCHAR(255),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Tabla de salidas de inventario por ventas sincronizadas desde el punto de venta
+-- El id de sincronización evita aplicar dos veces la misma venta (función apply_stock_sale)
+CREATE TABLE stock_movements (
+  company_id UUID REFERENCES companies(id) NOT NULL,
+  sync_id VARCHAR(255) NOT NULL,  -- Id del elemento en la cola de sincronización del dispositivo
+  product_id UUID REFERENCES products(id) NOT NULL,
+  cantidad DECIMAL(18, 3) NOT NULL,
+  documento VARCHAR(255),  -- Comprobante que originó la salida
+  stock_anterior DECIMAL(18, 3),  -- Existencias antes de aplicar la venta
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (company_id, sync_id)
+);
+
 -- Índices para mejorar el rendimiento
 CREATE INDEX idx_clients_company_id ON clients(company_id);
 CREATE INDEX idx_products_company_id ON products(company_id);
 CREATE INDEX idx_invoices_company_id ON invoices(company_id);
 CREATE INDEX idx_invoices_client_id ON invoices(client_id);
 CREATE INDEX idx_invoice_lines_invoice_id ON invoice_lines(invoice_id);
+CREATE INDEX idx_hacienda_outbox_estado ON hacienda_outbox(company_id, estado, proximo_intento);
+CREATE INDEX idx_supplier_documents_fecha ON supplier_documents(company_id, fecha_emision);
+CREATE INDEX idx_invoice_payments_invoice ON invoice_payments(company_id, invoice_id, fecha_pago);
+CREATE INDEX idx_credit_overrides_client ON credit_overrides(company_id, client_identification, created_at);
+CREATE INDEX idx_bank_transactions_estado ON bank_transactions(company_id, estado, fecha);
+CREATE UNIQUE INDEX idx_cash_sessions_terminal_abierta ON cash_sessions(company_id, terminal) WHERE estado = 'abierta';
+CREATE UNIQUE INDEX idx_cash_sessions_user_abierta ON cash_sessions(company_id, user_id) WHERE estado = 'abierta';
+CREATE INDEX idx_cash_sessions_fecha ON cash_sessions(company_id, fecha_apertura);
+CREATE INDEX idx_cash_movements_session ON cash_movements(session_id, created_at);
+CREATE INDEX idx_terminals_company ON terminals(company_id, branch_id);
+CREATE INDEX idx_gap_justifications_serie ON consecutive_gap_justifications(company_id, environment, tipo_doc, sucursal, terminal, created_at);
+
+-- Incrementa la serie en una sola sentencia y devuelve el último número del bloque
+CREATE OR REPLACE FUNCTION next_consecutive(
+  p_company_id UUID,
+  p_environment VARCHAR,
+  p_sucursal VARCHAR,
+  p_terminal VARCHAR,
+  p_tipo_doc VARCHAR,
+  p_cantidad INTEGER DEFAULT 1
+)
+RETURNS BIGINT
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_ultimo BIGINT;
+BEGIN
+  IF p_cantidad IS NULL OR p_cantidad < 1 THEN
+    RAISE EXCEPTION 'p_cantidad must be a positive integer';
+  END IF;
+
+  INSERT INTO document_sequences AS ds (company_id, environment, sucursal, terminal, tipo_doc, ultimo_consecutivo, updated_at)
+  VALUES (p_company_id, p_environment, p_sucursal, p_terminal, p_tipo_doc, p_cantidad, NOW())
+  ON CONFLICT (company_id, environment, sucursal, terminal, tipo_doc)
+  DO UPDATE SET
+    ultimo_consecutivo = ds.ultimo_consecutivo + p_cantidad,
+    updated_at = NOW()
+  RETURNING ds.ultimo_consecutivo INTO v_ultimo;
+
+  RETURN v_ultimo;
+END;
+$$;
+
+-- Descuenta una venta de las existencias con el producto bloqueado y registra el movimiento.
+-- Un sync_id ya aplicado devuelve las existencias registradas sin volver a descontar.
+-- Devuelve las existencias antes de la venta
+CREATE OR REPLACE FUNCTION apply_stock_sale(
+  p_company_id UUID,
+  p_sync_id VARCHAR,
+  p_product_id UUID,
+  p_cantidad NUMERIC,
+  p_documento VARCHAR DEFAULT NULL
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_anterior NUMERIC;
+BEGIN
+  IF p_cantidad IS NULL OR p_cantidad <= 0 THEN
+    RAISE EXCEPTION 'p_cantidad must be positive';
+  END IF;
+
+  INSERT INTO stock_movements (company_id, sync_id, product_id, cantidad, documento)
+  VALUES (p_company_id, p_sync_id, p_product_id, p_cantidad, p_documento)
+  ON CONFLICT (company_id, sync_id) DO NOTHING;
+
+  IF NOT FOUND THEN
+    SELECT stock_anterior INTO v_anterior
+    FROM stock_movements
+    WHERE company_id = p_company_id AND sync_id = p_sync_id;
+    RETURN v_anterior;
+  END IF;
+
+  SELECT COALESCE(stock, 0) INTO v_anterior
+  FROM products
+  WHERE id = p_product_id AND company_id = p_company_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product % not found for company %', p_product_id, p_company_id;
+  END IF;
+
+  UPDATE products
+  SET stock = GREATEST(v_anterior - p_cantidad, 0),
+      updated_at = NOW()
+  WHERE id = p_product_id AND company_id = p_company_id;
+
+  UPDATE stock_movements
+  SET stock_anterior = v_anterior
+  WHERE company_id = p_company_id AND sync_id = p_sync_id;
+
+  RETURN v_anterior;
+END;
+$$;
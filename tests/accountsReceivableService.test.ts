@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { buildAgingReport, buildEstadoCuenta } from '../src/services/accountsReceivableService.ts';
+import { StoredInvoice } from '../src/hooks/useInvoiceHistory.ts';
+
+const receptor = {
+  nombre: 'Ferretería Central S.A.',
+  identificacion: { tipo: '02', numero: '3101987654' },
+  correo: 'cxp@ferreteriacentral.cr'
+};
+
+const factura = (id: string, date: string, total: number, plazoCredito = '30'): StoredInvoice => ({
+  id,
+  client: receptor.nombre,
+  date,
+  amount: `₡${total}`,
+  status: 'Completada',
+  items: 1,
+  numeroConsecutivo: id.substring(2),
+  receptor,
+  condicionVenta: '02',
+  plazoCredito,
+  medioPago: ['04'],
+  moneda: 'CRC',
+  detalleServicio: [],
+  subtotal: total,
+  impuesto: 0,
+  total
+});
+
+const invoices: StoredInvoice[] = [
+  {
+    ...factura('F-00100001010000000040', '2025-06-01T12:00:00.000Z', 100000),
+    infoPago: { pagada: false, pagos: [{ fechaPago: '2025-07-15', monto: 40000, medioPago: '04' }] }
+  },
+  factura('F-00100001010000000041', '2025-09-20T12:00:00.000Z', 50000),
+  {
+    ...factura('NC-00100001030000000005', '2025-10-05T12:00:00.000Z', 10000),
+    condicionVenta: '01',
+    tipoDocumento: '03',
+    documentoReferenciaId: 'F-00100001010000000041'
+  }
+];
+
+describe('accountsReceivableService', () => {
+  const fechaCorte = new Date('2025-10-15T23:59:59');
+
+  it('groups outstanding balances by client, currency and aging bucket', () => {
+    const [fila] = buildAgingReport(invoices, fechaCorte);
+
+    expect(fila.clienteId).toBe('3101987654');
+    expect(fila.tramos['90+']).toBe(60000);
+    expect(fila.tramos['corriente']).toBe(40000);
+    expect(fila.total).toBe(100000);
+    expect(fila.documentos.map(doc => doc.saldo)).toEqual([60000, 40000]);
+  });
+
+  it('lists charges, payments and credit notes with a running balance', () => {
+    const estado = buildEstadoCuenta(invoices, '3101987654', 'CRC', fechaCorte);
+
+    expect(estado.movimientos.map(mov => [mov.tipo, mov.saldo])).toEqual([
+      ['factura', 100000],
+      ['pago', 60000],
+      ['factura', 110000],
+      ['nota_credito', 100000]
+    ]);
+    expect(estado.saldo).toBe(100000);
+  });
+});
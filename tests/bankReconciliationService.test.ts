@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { getFacturasAbiertas, sugerirConciliacion, validarAsignaciones } from '../src/services/bankReconciliationService.ts';
+import { StoredInvoice } from '../src/hooks/useInvoiceHistory.ts';
+
+const factura = (id: string, consecutivo: string, date: string, total: number, extra: Partial<StoredInvoice> = {}): StoredInvoice => ({
+  id,
+  client: 'Constructora del Norte',
+  date,
+  amount: `₡${total}`,
+  status: 'Completada',
+  items: 1,
+  claveNumerica: '',
+  numeroConsecutivo: consecutivo,
+  tipoDocumento: '01',
+  receptor: { nombre: 'Constructora del Norte S.A.', identificacion: { tipo: '02', numero: '3101555444' } },
+  condicionVenta: '02',
+  plazoCredito: '30',
+  medioPago: ['04'],
+  moneda: 'CRC',
+  detalleServicio: [],
+  subtotal: total,
+  impuesto: 0,
+  total,
+  ...extra
+});
+
+const invoices: StoredInvoice[] = [
+  factura('F-1', '00100001010000000123', '2025-09-01T12:00:00.000Z', 100000),
+  factura('F-2', '00100001010000000124', '2025-09-15T12:00:00.000Z', 50000),
+  factura('F-3', '00100001010000000125', '2025-09-20T12:00:00.000Z', 50000, {
+    client: 'Ferretería Central',
+    receptor: { nombre: 'Ferretería Central Ltda', identificacion: { tipo: '02', numero: '3102777888' } }
+  })
+];
+
+describe('bankReconciliationService', () => {
+  const abiertas = getFacturasAbiertas(invoices, 'CRC');
+
+  it('ranks invoices by amount, consecutive reference and client name', () => {
+    const porReferencia = sugerirConciliacion({ monto: 50000, descripcion: 'SINPE FE 124 CONSTRUCTORA NORTE' }, abiertas);
+    expect(porReferencia[0].asignaciones.map(a => a.factura.id)).toEqual(['F-2']);
+
+    const porNombre = sugerirConciliacion({ monto: 50000, descripcion: 'TRANSF FERRETERIA CENTRAL' }, abiertas);
+    expect(porNombre[0].asignaciones.map(a => a.factura.id)).toEqual(['F-3']);
+
+    expect(sugerirConciliacion({ monto: 12345, descripcion: 'DEPOSITO EFECTIVO' }, abiertas)).toHaveLength(0);
+  });
+
+  it('suggests splitting a deposit across the oldest invoices of the client and validates the split', () => {
+    const [sugerencia] = sugerirConciliacion({ monto: 150000, descripcion: 'PAGO 3101555444' }, abiertas);
+    expect(sugerencia.asignaciones.map(a => [a.factura.id, a.monto])).toEqual([['F-1', 100000], ['F-2', 50000]]);
+    expect(() => validarAsignaciones(150000, sugerencia.asignaciones)).not.toThrow();
+
+    const [f1] = abiertas;
+    expect(() => validarAsignaciones(150000, [{ ...f1, monto: 120000 }])).toThrow(/supera su saldo/);
+    expect(() => validarAsignaciones(50000, [{ ...f1, monto: 60000 }])).toThrow(/superan el depósito/);
+  });
+});
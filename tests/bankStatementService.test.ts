@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { parseBankStatement, parseMontoExtracto } from '../src/services/bankStatementService.ts';
+
+describe('bankStatementService', () => {
+  it('reads a BCR CSV with bank header lines, debit/credit columns and decimal commas', () => {
+    const csv = [
+      'Banco de Costa Rica;;;;;',
+      'Cuenta;CR05015201001026284066;;;;',
+      'Fecha;Número Documento;Descripción;Débito;Crédito;Saldo',
+      '02/10/2025;123456;SINPE CONSTRUCTORA DEL NORTE FE 0000000123;;150.000,50;1.250.000,50',
+      '03/10/2025;123457;COMISION;2.500,00;;1.247.500,50',
+      'Saldo final;;;;;1.247.500,50'
+    ].join('\r\n');
+
+    const movimientos = parseBankStatement(csv, 'bcr.csv', 'BCR');
+    expect(movimientos).toHaveLength(2);
+    expect(movimientos[0]).toMatchObject({ fecha: '2025-10-02', referencia: '123456', monto: 150000.5, saldo: 1250000.5 });
+    expect(movimientos[1].monto).toBe(-2500);
+    expect(parseMontoExtracto('$1,234.56', '.')).toBe(1234.56);
+    expect(parseMontoExtracto('(1.000)', ',')).toBe(-1000);
+  });
+
+  it('reads OFX transactions and uses FITID to detect re-imports', () => {
+    const ofx = `OFXHEADER:100
+<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><BANKTRANLIST>
+<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20251005120000<TRNAMT>500.00<FITID>ABC1<NAME>Transferencia<MEMO>Pago factura 45
+</STMTTRN>
+<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20251006<TRNAMT>-20.00<FITID>ABC2<NAME>Cargo
+</STMTTRN>
+</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>`;
+
+    const movimientos = parseBankStatement(ofx, 'bac.ofx');
+    expect(movimientos).toHaveLength(2);
+    expect(movimientos[0]).toMatchObject({ fecha: '2025-10-05', monto: 500, descripcion: 'Transferencia - Pago factura 45', hash: 'ofx|ABC1' });
+    expect(movimientos[1].monto).toBe(-20);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  filtrarPorPuntoVenta,
+  getPuntoVenta,
+  parseConsecutivo,
+  requiereSeleccionPuntoVenta,
+  setPuntoVenta,
+  solicitarSeleccionPuntoVenta,
+  ubicacionPuntoVenta,
+  validarTerminal
+} from '../src/services/branchService.ts';
+
+function mockLocalStorage() {
+  const store: Record<string, string> = {};
+  Object.defineProperty(globalThis, 'localStorage', {
+    value: {
+      getItem: (key: string) => (key in store ? store[key] : null),
+      setItem: (key: string, value: string) => {
+        store[key] = String(value);
+      },
+      removeItem: (key: string) => {
+        delete store[key];
+      },
+      clear: () => {
+        for (const k in store) delete store[k];
+      }
+    },
+    configurable: true
+  });
+}
+
+describe('branchService', () => {
+  beforeEach(() => {
+    mockLocalStorage();
+  });
+
+  it('lee la sucursal y terminal del consecutivo y filtra los documentos', () => {
+    expect(parseConsecutivo('00300002040000000151')).toEqual({ tipoDoc: '04', terminal: '00002', sucursal: '003', numero: 151 });
+    expect(parseConsecutivo('10100001100000000003')).toEqual({ tipoDoc: '10', terminal: '00001', sucursal: '101', numero: 3 });
+    // Documentos emitidos con el formato anterior: tipo (2) + terminal (2) + sucursal (3) + número (13)
+    expect(parseConsecutivo('04020030000000000151')).toEqual({ tipoDoc: '04', terminal: '02', sucursal: '003', numero: 151 });
+    expect(parseConsecutivo('FAC-001')).toBeNull();
+
+    const documentos = [
+      { id: 'a', numeroConsecutivo: '00200001040000000001' },
+      { id: 'b', numeroConsecutivo: '00300002040000000001' },
+      { id: 'c', consecutive: '00300001010000000007' },
+      { id: 'sin-consecutivo' }
+    ];
+    expect(filtrarPorPuntoVenta(documentos, {})).toHaveLength(4);
+    expect(filtrarPorPuntoVenta(documentos, { sucursal: '003' }).map(d => d.id)).toEqual(['b', 'c']);
+    expect(filtrarPorPuntoVenta(documentos, { sucursal: '003', terminal: '00001' }).map(d => d.id)).toEqual(['c']);
+  });
+
+  it('guarda la terminal por dispositivo y pide confirmarla al iniciar sesión', () => {
+    expect(getPuntoVenta('innova')).toEqual({ sucursal: '002', terminal: '00001' });
+    expect(requiereSeleccionPuntoVenta('innova')).toBe(true);
+
+    setPuntoVenta('innova', { sucursal: '003', terminal: '00002', sucursalNombre: 'Escazú' });
+    expect(getPuntoVenta('innova').sucursal).toBe('003');
+    expect(requiereSeleccionPuntoVenta('innova')).toBe(false);
+
+    solicitarSeleccionPuntoVenta();
+    expect(requiereSeleccionPuntoVenta('innova')).toBe(true);
+    // La selección anterior se conserva para preseleccionarla
+    expect(getPuntoVenta('innova').terminal).toBe('00002');
+  });
+
+  it('usa la dirección de la sucursal como ubicación del emisor cuando está completa', () => {
+    const empresa = { provincia: '1', canton: '01', distrito: '01', barrio: '', otrasSenas: 'Oficinas centrales' };
+    const conDireccion = { sucursal: '003', terminal: '00001', ubicacion: { provincia: '1', canton: '02', distrito: '03', otrasSenas: 'Plaza Escazú' } };
+    const sinDireccion = { sucursal: '004', terminal: '00001', ubicacion: { provincia: '2' } };
+
+    expect(ubicacionPuntoVenta(conDireccion, empresa)).toEqual({ provincia: '1', canton: '02', distrito: '03', barrio: '', otrasSenas: 'Plaza Escazú' });
+    expect(ubicacionPuntoVenta(sinDireccion, empresa)).toBe(empresa);
+  });
+
+  it('no permite repetir el código de terminal dentro de la sucursal', () => {
+    const existentes = [{ id: 't1', sucursalId: 's1', codigo: '00001', nombre: 'Caja 1', activa: true }];
+    expect(validarTerminal({ sucursalId: 's1', codigo: '00001', nombre: 'Caja nueva', activa: true }, existentes))
+      .toBe('La sucursal ya tiene una terminal con el código 00001');
+    expect(validarTerminal({ sucursalId: 's2', codigo: '00001', nombre: 'Caja 1', activa: true }, existentes)).toBeNull();
+    expect(validarTerminal({ sucursalId: 's1', codigo: '01', nombre: 'Caja', activa: true }, existentes))
+      .toBe('El código de la terminal debe tener 5 dígitos');
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { buildCierreCaja, calcularArqueoEsperado, getDocumentosSesion, SesionCaja } from '../src/services/cashRegisterService.ts';
+import { StoredInvoice } from '../src/hooks/useInvoiceHistory.ts';
+
+const sesion: SesionCaja = {
+  id: 'ses-1',
+  terminal: '00001',
+  usuario: 'cajero',
+  moneda: 'CRC',
+  fondoInicial: 50000,
+  fechaApertura: '2025-10-19T08:00:00.000Z',
+  estado: 'abierta'
+};
+
+const documento = (id: string, overrides: Partial<StoredInvoice>): StoredInvoice => ({
+  id,
+  client: 'Consumidor Final',
+  date: '2025-10-19T10:00:00.000Z',
+  amount: '',
+  status: 'Completada',
+  items: 1,
+  claveNumerica: '',
+  tipoDocumento: '04',
+  condicionVenta: '01',
+  medioPago: ['01'],
+  moneda: 'CRC',
+  sesionCajaId: 'ses-1',
+  detalleServicio: [],
+  subtotal: 0,
+  impuesto: 0,
+  total: 0,
+  ...overrides
+});
+
+const invoices: StoredInvoice[] = [
+  documento('T-1', { total: 20000, medioPago: ['02', '01'], totalMedioPago: [12000, 8000] }),
+  documento('T-2', { total: 5000, medioPago: ['06'] }),
+  // Crédito, rechazado y de otra sesión: no suman al arqueo
+  documento('F-3', { tipoDocumento: '01', total: 30000, condicionVenta: '02' }),
+  documento('T-4', { total: 7000, status: 'Rechazada' }),
+  documento('T-5', { total: 9000, sesionCajaId: 'ses-0' }),
+  // La devolución en efectivo resta
+  documento('NC-6', { tipoDocumento: '03', total: 3000 })
+];
+
+describe('cashRegisterService', () => {
+  it('computes expected cash per payment method from float, movements and cash sales', () => {
+    const documentos = getDocumentosSesion(invoices, 'ses-1');
+    expect(documentos.map(doc => doc.id)).not.toContain('T-5');
+
+    const arqueo = calcularArqueoEsperado(sesion, [
+      { tipo: 'entrada', monto: 10000, motivo: 'Cambio', fecha: '2025-10-19T09:00:00.000Z' },
+      { tipo: 'salida', monto: 25000, motivo: 'Retiro a bóveda', fecha: '2025-10-19T12:00:00.000Z' }
+    ], documentos);
+
+    expect(arqueo.map(linea => [linea.medioPago, linea.esperado])).toEqual([
+      ['01', 40000],
+      ['02', 12000],
+      ['06', 5000]
+    ]);
+  });
+
+  it('builds the Z report with counted vs expected and totals per document type', () => {
+    const documentos = getDocumentosSesion(invoices, 'ses-1');
+    const cierre = buildCierreCaja(sesion, [], documentos, { 'CRC|01': 54500, 'CRC|02': 12000, 'CRC|06': 5000 },
+      new Date('2025-10-19T18:00:00.000Z'), 'Billete dañado');
+
+    expect(cierre.arqueo.find(linea => linea.medioPago === '01')).toMatchObject({ esperado: 55000, contado: 54500, diferencia: -500 });
+    expect(cierre.diferenciaTotal).toBe(-500);
+    expect(cierre.documentos).toHaveLength(5);
+    expect(cierre.totalesPorTipo.map(t => [t.tipoDocumento, t.cantidad, t.total])).toEqual([
+      ['01', 1, 30000],
+      ['03', 1, 3000],
+      ['04', 2, 25000]
+    ]);
+    expect(cierre.sesion.estado).toBe('cerrada');
+  });
+});
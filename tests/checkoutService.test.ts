@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buscarLineaEscaneada,
+  buscarProductoPorCodigo,
+  calcularDescuentoLinea,
+  calcularMontosLinea,
+  parseEntradaEscaner
+} from '../src/services/checkoutService.ts';
+import type { Product } from '../src/services/supabaseProductService.ts';
+
+const producto = (code: string, overrides: Partial<Product>): Product => ({
+  company_id: 'innova',
+  code,
+  name: `Producto ${code}`,
+  unit_price: 1000,
+  tax_rate: 13,
+  ...overrides
+});
+
+describe('checkoutService', () => {
+  it('interpreta códigos, multiplicadores y multiplicadores pendientes', () => {
+    expect(parseEntradaEscaner(' 7501234567890 ')).toEqual({ cantidad: 1, codigo: '7501234567890', conMultiplicador: false });
+    expect(parseEntradaEscaner('3*7501234567890')).toEqual({ cantidad: 3, codigo: '7501234567890', conMultiplicador: true });
+    expect(parseEntradaEscaner('1,5*')).toEqual({ cantidad: 1.5, codigo: '', conMultiplicador: true });
+    expect(parseEntradaEscaner('0*123')).toBeNull();
+    expect(parseEntradaEscaner('')).toBeNull();
+  });
+
+  it('busca productos por código de barras o SKU y agrupa líneas sin descuento', () => {
+    const productos = [
+      producto('1', { barcode: '111', sku: 'A-1' }),
+      producto('2', { sku: '111', barcode: '222' }),
+      producto('3', { barcode: '333', is_active: false })
+    ];
+    expect(buscarProductoPorCodigo(productos, '111')?.code).toBe('1');
+    expect(buscarProductoPorCodigo(productos, 'A-1')?.code).toBe('1');
+    expect(buscarProductoPorCodigo(productos, '333')).toBeUndefined();
+
+    const lineas = [
+      { codigo: '111', cantidad: 1, precioUnitario: 1000, descuento: { montoDescuento: 100 } },
+      { codigo: '222', cantidad: 2, precioUnitario: 500 },
+      { codigo: '111', cantidad: 1, precioUnitario: 1000, descuento: { montoDescuento: 0 } }
+    ];
+    expect(buscarLineaEscaneada(lineas, '111')).toBe(2);
+    expect(buscarLineaEscaneada(lineas, '222')).toBe(1);
+    expect(buscarLineaEscaneada(lineas, '999')).toBe(-1);
+    expect(buscarLineaEscaneada(lineas, '')).toBe(-1);
+  });
+
+  it('calcula descuentos en monto o porcentaje sin superar la línea', () => {
+    expect(calcularDescuentoLinea('10%', 2500)).toBe(250);
+    expect(calcularDescuentoLinea('300,50', 2500)).toBe(300.5);
+    expect(() => calcularDescuentoLinea('abc', 2500)).toThrow('válido');
+    expect(() => calcularDescuentoLinea('3000', 2500)).toThrow('superar');
+  });
+
+  it('calcula los montos de la línea con descuento y sin IVA cuando está exonerada', () => {
+    const linea = { cantidad: 3, precioUnitario: 1000, descuento: { montoDescuento: 500 } };
+    expect(calcularMontosLinea(linea, 13)).toEqual({ montoTotal: 3000, subtotal: 2500, impuestoMonto: 325, montoTotalLinea: 2825 });
+    expect(calcularMontosLinea({ ...linea, tieneExoneracion: true }, 13)).toEqual({ montoTotal: 3000, subtotal: 2500, impuestoMonto: 0, montoTotalLinea: 2500 });
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import {
+  auditarConsecutivos,
+  auditoriaToCsv,
+  buscarJustificacion,
+  calcularFaltantes,
+  DocumentoAuditado,
+  verificarClave
+} from '../src/services/consecutiveAuditService.ts';
+
+// Clave de 50 dígitos: 506 + fecha + situación + cédula + consecutivo + código de seguridad
+const claveDe = (consecutivo: string) => '506191025' + '1' + '000310123456' + consecutivo + '12345678';
+
+const documento = (id: string, consecutivo: string, ambiente?: 'test' | 'prod'): DocumentoAuditado => ({
+  id,
+  consecutivo,
+  clave: claveDe(consecutivo),
+  ambiente
+});
+
+describe('consecutiveAuditService', () => {
+  it('agrupa por serie y detecta faltantes y duplicados', () => {
+    const resultado = auditarConsecutivos([
+      documento('a', '00200001040000000001', 'prod'),
+      documento('b', '00200001040000000002', 'prod'),
+      documento('c', '00200001040000000005', 'prod'),
+      documento('d', '00200001040000000005', 'prod'),
+      // Otra terminal y otro ambiente llevan su propia serie
+      documento('e', '00200002040000000001', 'prod'),
+      documento('f', '00200001040000000003')
+    ], 'test');
+
+    expect(resultado.series.map(serie => serie.id)).toEqual(['prod:04:002:00001', 'prod:04:002:00002', 'test:04:002:00001']);
+    const [principal, otraTerminal, pruebas] = resultado.series;
+    expect(principal.faltantes).toEqual([{ desde: 3, hasta: 4 }]);
+    expect(principal.totalFaltantes).toBe(2);
+    expect(principal.duplicados).toEqual([
+      { numero: 5, documentos: [expect.objectContaining({ id: 'c' }), expect.objectContaining({ id: 'd' })] }
+    ]);
+    expect(otraTerminal.faltantes).toEqual([]);
+    expect(pruebas.faltantes).toEqual([{ desde: 1, hasta: 2 }]);
+    expect(resultado.inconsistencias).toEqual([]);
+
+    expect(calcularFaltantes([7, 2, 2, 3])).toEqual([{ desde: 1, hasta: 1 }, { desde: 4, hasta: 6 }]);
+  });
+
+  it('reporta claves que no contienen el consecutivo del documento', () => {
+    const consecutivo = '00200001010000000010';
+    expect(verificarClave(consecutivo, claveDe(consecutivo))).toBeNull();
+    expect(verificarClave(consecutivo, claveDe('00200001010000000011'))).toBe('La clave contiene el consecutivo 00200001010000000011');
+    expect(verificarClave(consecutivo, undefined)).toBe('El documento no tiene clave');
+
+    const resultado = auditarConsecutivos([
+      { id: 'x', consecutivo, clave: claveDe('00200001010000000011'), ambiente: 'prod' },
+      { id: 'y', consecutivo: 'FAC-001', ambiente: 'prod' }
+    ], 'prod');
+    expect(resultado.inconsistencias.map(i => i.documentoId)).toEqual(['x', 'y']);
+    // Un consecutivo ilegible no se puede ubicar en ninguna serie
+    expect(resultado.series).toHaveLength(1);
+  });
+
+  it('aplica la justificación más reciente que cubre el rango y la exporta', () => {
+    const resultado = auditarConsecutivos([
+      documento('a', '00200001040000000001', 'prod'),
+      documento('b', '00200001040000000004', 'prod')
+    ], 'prod');
+    const serie = resultado.series[0];
+    const justificaciones = [
+      { ambiente: 'prod' as const, tipoDoc: '04', sucursal: '002', terminal: '00001', desde: 2, hasta: 3, justificacion: 'Anulados', fecha: '2025-10-01T10:00:00Z' },
+      { ambiente: 'prod' as const, tipoDoc: '04', sucursal: '002', terminal: '00001', desde: 1, hasta: 5, justificacion: 'Caída de red; "reintentos"', usuario: 'ana', fecha: '2025-10-02T10:00:00Z' },
+      { ambiente: 'test' as const, tipoDoc: '04', sucursal: '002', terminal: '00001', desde: 2, hasta: 3, justificacion: 'Pruebas', fecha: '2025-10-03T10:00:00Z' }
+    ];
+
+    expect(buscarJustificacion(serie, serie.faltantes[0], justificaciones)?.justificacion).toBe('Caída de red; "reintentos"');
+    expect(buscarJustificacion(serie, { desde: 2, hasta: 6 }, justificaciones)).toBeUndefined();
+
+    const filas = auditoriaToCsv(resultado, justificaciones).split('\n');
+    expect(filas).toHaveLength(3);
+    expect(filas[2]).toBe('Faltante,Producción,04 Tiquete Electrónico,002,00001,2,3,2,,,"Caída de red; ""reintentos""",ana,2025-10-02T10:00:00Z');
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect, vi } from 'vitest';
+import { contarDisponibles, tomarDeReserva, ReservaConsecutivos } from '../src/services/consecutiveReservationService.ts';
+import { formatConsecutiveNumber } from '../src/services/sequenceService.ts';
+
+vi.mock('../src/services/supabaseCompanyService.ts', () => ({
+  supabaseCompanyService: {
+    getCompanySecurityCode: vi.fn().mockResolvedValue('12345678')
+  }
+}));
+
+const reserva = (rangos: ReservaConsecutivos['rangos']): ReservaConsecutivos => ({
+  id: 'innova:04:00001:002',
+  companyId: 'innova',
+  tipoDoc: '04',
+  terminal: '00001',
+  sucursal: '002',
+  rangos,
+  actualizado: '2025-10-19T08:00:00.000Z'
+});
+
+describe('consecutiveReservationService', () => {
+  it('toma los consecutivos reservados en orden, pasando de un bloque al siguiente', () => {
+    let actual = reserva([{ desde: 151, hasta: 200 }, { desde: 101, hasta: 102 }]);
+    expect(contarDisponibles(actual)).toBe(52);
+
+    const tomados: number[] = [];
+    for (let i = 0; i < 3; i++) {
+      const resultado = tomarDeReserva(actual);
+      tomados.push(resultado.consecutivo);
+      actual = resultado.reserva;
+    }
+
+    expect(tomados).toEqual([101, 102, 151]);
+    expect(actual.rangos).toEqual([{ desde: 152, hasta: 200 }]);
+    expect(contarDisponibles(actual)).toBe(49);
+    expect(formatConsecutiveNumber('04', '00001', '002', tomados[2])).toBe('00200001040000000151');
+  });
+
+  it('no emite sin conexión cuando la reserva está agotada', () => {
+    const agotada = tomarDeReserva(reserva([{ desde: 7, hasta: 7 }])).reserva;
+    expect(contarDisponibles(agotada)).toBe(0);
+    expect(() => tomarDeReserva(agotada)).toThrow('No quedan consecutivos reservados');
+  });
+});
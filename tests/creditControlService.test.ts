@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { autorizacionCubreVenta, evaluarCredito } from '../src/services/creditControlService.ts';
+import { StoredInvoice } from '../src/hooks/useInvoiceHistory.ts';
+
+const factura = (id: string, date: string, total: number, extra: Partial<StoredInvoice> = {}): StoredInvoice => ({
+  id,
+  client: 'Constructora del Norte',
+  date,
+  amount: `₡${total}`,
+  status: 'Completada',
+  items: 1,
+  receptor: { nombre: 'Constructora del Norte S.A.', identificacion: { tipo: '02', numero: '3101555444' } },
+  condicionVenta: '02',
+  plazoCredito: '30',
+  medioPago: ['04'],
+  moneda: 'CRC',
+  detalleServicio: [],
+  subtotal: total,
+  impuesto: 0,
+  total,
+  ...extra
+});
+
+const invoices: StoredInvoice[] = [
+  factura('F-1', '2025-10-01T12:00:00.000Z', 300000),
+  factura('F-2', '2025-10-10T12:00:00.000Z', 1000, { moneda: 'USD', tipoCambio: 500 })
+];
+
+describe('creditControlService', () => {
+  const fechaCorte = new Date('2025-10-20T12:00:00.000Z');
+  const cliente = { identification_number: '3101555444', credit_limit: 1000000, credit_blocked: false };
+
+  it('blocks a sale that takes the balance in colones over the credit limit', () => {
+    expect(evaluarCredito(cliente, invoices, 100000, fechaCorte).estado).toBe('aprobado');
+
+    const evaluacion = evaluarCredito(cliente, invoices, 250000, fechaCorte);
+    expect(evaluacion.saldoPendiente).toBe(800000);
+    expect(evaluacion.disponible).toBe(200000);
+    expect(evaluacion.estado).toBe('bloqueado');
+
+    const autorizacion = { clienteId: '3101555444', montoAutorizado: 250000, supervisor: 'supervisor' };
+    expect(autorizacionCubreVenta(autorizacion, '3101555444', 250000)).toBe(true);
+    expect(autorizacionCubreVenta(autorizacion, '3101555444', 260000)).toBe(false);
+  });
+
+  it('warns about overdue invoices and blocks clients flagged by credit', () => {
+    const vencida = evaluarCredito(cliente, invoices, 0, new Date('2025-11-05T12:00:00.000Z'));
+    expect(vencida.estado).toBe('advertencia');
+    expect(vencida.saldoVencido).toBe(300000);
+
+    expect(evaluarCredito({ ...cliente, credit_limit: null, credit_blocked: true }, [], 1000, fechaCorte).estado).toBe('bloqueado');
+  });
+});
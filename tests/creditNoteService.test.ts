@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { buildCreditNote, CreditNoteOptions } from '../src/services/creditNoteService.ts';
+import { generateCreditNoteXML } from '../src/services/xmlService.ts';
+import { validateComprobanteXml } from '../src/services/xsdValidationService.ts';
+import { StoredInvoice } from '../src/hooks/useInvoiceHistory.ts';
+
+const original: StoredInvoice = {
+  id: 'F-00200001010000000042',
+  client: 'Distribuidora del Valle',
+  date: '2025-10-01T15:00:00.000Z',
+  amount: '₡127,000',
+  status: 'Completada',
+  items: 3,
+  claveNumerica: '50601102510031011234560020000101000000004212345678',
+  numeroConsecutivo: '00200001010000000042',
+  receptor: {
+    nombre: 'Distribuidora del Valle S.A.',
+    identificacion: { tipo: '02', numero: '3101654321' },
+    correo: 'compras@delvalle.cr'
+  },
+  condicionVenta: '01',
+  medioPago: ['01'],
+  moneda: 'CRC',
+  detalleServicio: [
+    // Servicio gravado con 10% de descuento
+    { codigoCabys: '8399000000000', detalle: 'Servicio de consultoría', cantidad: 2, precioUnitario: 50000, subtotal: 90000, unidadMedida: 'Sp', tarifaImpuesto: 13 },
+    // Mercancía gravada
+    { codigoCabys: '4321000000000', detalle: 'Cable de red', cantidad: 4, precioUnitario: 2500, subtotal: 10000, unidadMedida: 'Unid', tarifaImpuesto: 13 },
+    // Mercancía exenta (canasta básica)
+    { codigoCabys: '0111100000000', detalle: 'Arroz', cantidad: 5, precioUnitario: 1000, subtotal: 5000, unidadMedida: 'kg', tarifaImpuesto: 0 }
+  ],
+  otrosCargos: [
+    { tipoCargo: '06', descripcionCargo: 'Impuesto de servicio 10%', porcentaje: 10, montoCargo: 9000 }
+  ],
+  subtotal: 105000,
+  impuesto: 13000,
+  totalOtrosCargos: 9000,
+  total: 127000
+};
+
+const options: CreditNoteOptions = {
+  original,
+  emisor: {
+    nombre: 'Consultores S.A.',
+    identificacion: { tipo: '02', numero: '3101123456' },
+    ubicacion: { provincia: '1', canton: '01', distrito: '01', otrasSenas: 'Avenida central' },
+    correo: 'facturas@consultores.cr',
+    actividadEconomica: '721001'
+  },
+  receptor: original.receptor!,
+  lineas: [
+    { index: 0, cantidad: 2 },
+    { index: 1, cantidad: 4 },
+    { index: 2, cantidad: 5 }
+  ],
+  codigoReferencia: '01',
+  razon: 'Anulación de la factura',
+  sequence: {
+    clave: '50619102510031011234560020000103000000000712345678',
+    numeroConsecutivo: '00200001030000000007'
+  }
+};
+
+describe('creditNoteService', () => {
+  it('clasifica las líneas por servicio/mercancía y gravado/exento sobre el monto bruto', () => {
+    const nota = buildCreditNote(options);
+    const resumen = nota.resumenFactura;
+
+    expect(resumen.totalServGravados).toBe(100000);
+    expect(resumen.totalMercGravada).toBe(10000);
+    expect(resumen.totalMercExenta).toBe(5000);
+    expect(resumen.totalServExentos).toBe(0);
+    expect(resumen.totalVenta).toBe(115000);
+    expect(resumen.totalGravado + resumen.totalExento).toBe(resumen.totalVenta);
+    expect(resumen.totalDescuentos).toBe(10000);
+    expect(resumen.totalVentaNeta).toBe(105000);
+    expect(resumen.totalImpuesto).toBe(13000);
+  });
+
+  it('devuelve los otros cargos solo en la reversión total', () => {
+    const total = buildCreditNote(options);
+    expect(total.otrosCargos).toEqual(original.otrosCargos);
+    expect(total.resumenFactura.totalOtrosCargos).toBe(9000);
+    expect(total.resumenFactura.totalComprobante).toBe(original.total);
+
+    const parcial = buildCreditNote({
+      ...options,
+      codigoReferencia: '03',
+      razon: 'Devolución de mercancía',
+      lineas: [{ index: 1, cantidad: 2 }]
+    });
+    expect(parcial.otrosCargos).toBeUndefined();
+    expect(parcial.resumenFactura.totalMercGravada).toBe(5000);
+    expect(parcial.resumenFactura.totalComprobante).toBe(5650);
+  });
+
+  it('genera un XML de nota de crédito válido según el esquema v4.4', () => {
+    const xml = generateCreditNoteXML(buildCreditNote(options));
+    const validacion = validateComprobanteXml(xml);
+    expect(validacion.errors).toEqual([]);
+    expect(validacion.valid).toBe(true);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { buildDebitNote, DebitNoteOptions } from '../src/services/debitNoteService.ts';
+import { generateDebitNoteXML } from '../src/services/xmlService.ts';
+import { validateComprobanteXml } from '../src/services/xsdValidationService.ts';
+import { StoredInvoice } from '../src/hooks/useInvoiceHistory.ts';
+
+const original: StoredInvoice = {
+  id: 'F-00200001010000000042',
+  client: 'Distribuidora del Valle',
+  date: '2025-10-01T15:00:00.000Z',
+  amount: '₡129,300',
+  status: 'Completada',
+  items: 3,
+  claveNumerica: '50601102510031011234560020000101000000004212345678',
+  numeroConsecutivo: '00200001010000000042',
+  receptor: {
+    nombre: 'Distribuidora del Valle S.A.',
+    identificacion: { tipo: '02', numero: '3101654321' },
+    correo: 'compras@delvalle.cr'
+  },
+  condicionVenta: '02',
+  plazoCredito: '30',
+  medioPago: ['04'],
+  moneda: 'CRC',
+  detalleServicio: [
+    { codigoCabys: '8399000000000', detalle: 'Servicio de consultoría', cantidad: 1, precioUnitario: 100000, subtotal: 100000, unidadMedida: 'Sp', tarifaImpuesto: 13 },
+    { codigoCabys: '4321000000000', detalle: 'Cable de red', cantidad: 4, precioUnitario: 2500, subtotal: 10000, unidadMedida: 'Unid', tarifaImpuesto: 13 },
+    { codigoCabys: '0111100000000', detalle: 'Arroz', cantidad: 5, precioUnitario: 1000, subtotal: 5000, unidadMedida: 'kg', tarifaImpuesto: 0 }
+  ],
+  subtotal: 115000,
+  impuesto: 14300,
+  total: 129300
+};
+
+const options: DebitNoteOptions = {
+  original,
+  emisor: {
+    nombre: 'Consultores S.A.',
+    identificacion: { tipo: '02', numero: '3101123456' },
+    ubicacion: { provincia: '1', canton: '01', distrito: '01', otrasSenas: 'Avenida central' },
+    correo: 'facturas@consultores.cr',
+    actividadEconomica: '721001'
+  },
+  receptor: original.receptor!,
+  ajustes: [
+    { index: 0, cantidad: 1, montoUnitario: 10000 },
+    { index: 1, cantidad: 4, montoUnitario: 500 },
+    { index: 2, cantidad: 5, montoUnitario: 100 }
+  ],
+  cargos: [],
+  codigoReferencia: '04',
+  razon: 'Ajuste de precios acordado',
+  plazoCredito: 30,
+  sequence: {
+    clave: '50619102510031011234560020000102000000000312345678',
+    numeroConsecutivo: '00200001020000000003'
+  }
+};
+
+describe('debitNoteService', () => {
+  it('clasifica los ajustes por servicio/mercancía y gravado/exento', () => {
+    const resumen = buildDebitNote(options).resumenFactura;
+
+    expect(resumen.totalServGravados).toBe(10000);
+    expect(resumen.totalMercGravada).toBe(2000);
+    expect(resumen.totalMercExenta).toBe(500);
+    expect(resumen.totalServExentos).toBe(0);
+    expect(resumen.totalGravado).toBe(12000);
+    expect(resumen.totalExento).toBe(500);
+    expect(resumen.totalVenta).toBe(12500);
+    expect(resumen.totalImpuesto).toBe(1560);
+    expect(resumen.totalComprobante).toBe(14060);
+  });
+
+  it('genera un XML de nota de débito válido según el esquema v4.4', () => {
+    const validacion = validateComprobanteXml(generateDebitNoteXML(buildDebitNote(options)));
+    expect(validacion.errors).toEqual([]);
+    expect(validacion.valid).toBe(true);
+  });
+});
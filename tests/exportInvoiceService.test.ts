@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { buildExportInvoice, ExportInvoiceOptions } from '../src/services/exportInvoiceService.ts';
+import { generateExportInvoiceXML } from '../src/services/xmlService.ts';
+import { validateComprobanteXml } from '../src/services/xsdValidationService.ts';
+
+const options: ExportInvoiceOptions = {
+  emisor: {
+    nombre: 'Exportadora S.A.',
+    identificacion: { tipo: '02', numero: '3101123456' },
+    ubicacion: { provincia: '2', canton: '01', distrito: '01', otrasSenas: 'Zona industrial, bodega 3' },
+    correo: 'ventas@exportadora.cr',
+    actividadEconomica: '011301'
+  },
+  receptor: {
+    nombre: 'Fresh Imports LLC',
+    identificacion: { tipo: '', numero: '' },
+    identificacionExtranjero: 'US-84-1234567',
+    otrasSenasExtranjero: '200 Harbor Blvd, Miami, FL, USA'
+  },
+  lineas: [
+    { codigoCabys: '0111200000000', partidaArancelaria: '080300110000', detalle: 'Banano fresco', cantidad: 100, unidadMedida: 'kg', precioUnitario: 2.5 },
+    { codigoCabys: '8399000000000', detalle: 'Servicio de empaque', cantidad: 1, unidadMedida: 'Sp', precioUnitario: 50 }
+  ],
+  moneda: 'USD',
+  tipoCambio: 505.5,
+  costosExportacion: 30,
+  condicionVenta: '01',
+  medioPago: '04',
+  sequence: {
+    clave: '50601012510031011234560010000109000000000112345678',
+    numeroConsecutivo: '00100001090000000001'
+  }
+};
+
+describe('exportInvoiceService', () => {
+  it('builds a schema-valid export invoice with export costs as charge 05', () => {
+    const invoice = buildExportInvoice(options);
+
+    expect(invoice.resumenFactura.totalMercGravada).toBe(250);
+    expect(invoice.resumenFactura.totalServGravados).toBe(50);
+    expect(invoice.resumenFactura.totalComprobante).toBe(330);
+    expect(invoice.otrosCargos).toEqual([{ tipoCargo: '05', montoCargo: 30, descripcionCargo: undefined }]);
+
+    const xml = generateExportInvoiceXML(invoice);
+    expect(xml).toContain('<PartidaArancelaria>080300110000</PartidaArancelaria>');
+    expect(xml).toContain('<IdentificacionExtranjero>US-84-1234567</IdentificacionExtranjero>');
+    expect(validateComprobanteXml(xml).errors).toEqual([]);
+  });
+
+  it('requires the foreign address of the receptor', () => {
+    expect(() => buildExportInvoice({
+      ...options,
+      receptor: { ...options.receptor, otrasSenasExtranjero: '' }
+    })).toThrow('dirección del cliente en el extranjero');
+  });
+});
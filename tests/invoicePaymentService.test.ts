@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { getSaldoPendiente, registrarPago } from '../src/services/invoicePaymentService.ts';
+import { StoredInvoice } from '../src/hooks/useInvoiceHistory.ts';
+
+const factura: StoredInvoice = {
+  id: 'F-00100001010000000030',
+  client: 'Ferretería Central',
+  date: '2025-09-01T15:00:00.000Z',
+  amount: '₡50,000',
+  status: 'Completada',
+  items: 1,
+  claveNumerica: '50601092510031011234560010000101000000003012345678',
+  condicionVenta: '02',
+  plazoCredito: '60',
+  medioPago: ['04'],
+  detalleServicio: [],
+  subtotal: 44247.79,
+  impuesto: 5752.21,
+  total: 50000
+};
+
+describe('invoicePaymentService', () => {
+  it('keeps a running balance and marks the invoice paid when it reaches zero', () => {
+    const primerAbono = registrarPago(factura, {
+      fechaPago: '2025-09-15', monto: 20000, medioPago: '04', banco: 'BCR', referencia: 'TRF-1001'
+    }, [factura]);
+    expect(primerAbono.infoPago?.pagada).toBe(false);
+    expect(primerAbono.infoPago?.saldoPendiente).toBe(30000);
+
+    const cancelada = registrarPago(primerAbono, { fechaPago: '2025-10-01', monto: 30000, medioPago: '06' }, [primerAbono]);
+    expect(cancelada.infoPago?.pagada).toBe(true);
+    expect(cancelada.infoPago?.medioPago).toBe('06');
+    expect(cancelada.infoPago?.pagos?.map(pago => pago.monto)).toEqual([20000, 30000]);
+    expect(getSaldoPendiente(cancelada, [cancelada])).toBe(0);
+
+    expect(() => registrarPago(cancelada, { fechaPago: '2025-10-02', monto: 1, medioPago: '01' }, [cancelada]))
+      .toThrow('no tiene saldo pendiente');
+  });
+
+  it('deducts credit notes from the balance and marks the invoice paid at the net amount', () => {
+    const notaCredito: StoredInvoice = {
+      ...factura,
+      id: 'NC-00100001030000000004',
+      numeroConsecutivo: '00100001030000000004',
+      documentoReferenciaId: factura.id,
+      subtotal: 8849.56,
+      impuesto: 1150.44,
+      total: 10000
+    };
+    const historial = [factura, notaCredito];
+
+    expect(getSaldoPendiente(factura, historial)).toBe(40000);
+    expect(() => registrarPago(factura, { fechaPago: '2025-09-15', monto: 45000, medioPago: '04' }, historial))
+      .toThrow('supera el saldo pendiente de la factura (40000.00)');
+
+    const cancelada = registrarPago(factura, { fechaPago: '2025-09-15', monto: 40000, medioPago: '04' }, historial);
+    expect(cancelada.infoPago?.pagada).toBe(true);
+    expect(cancelada.infoPago?.saldoPendiente).toBe(0);
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { buildRecepcionPayload, encodeBase64Utf8 } from '../src/services/invoiceService.ts';
+import { Invoice } from '../src/types/invoice.ts';
+
+const XML = '<FacturaElectronica><Detalle>Diseño gráfico — señalización</Detalle></FacturaElectronica>';
+
+const invoice = {
+  clave: '50601012500310123456700100001010000000001100000001',
+  numeroConsecutivo: '00100001010000000001',
+  fechaEmision: '2025-01-01T12:00:00-06:00',
+  emisor: { nombre: 'Emisor S.A.', identificacion: { tipo: '02', numero: '3101123456' } },
+  receptor: { nombre: 'Cliente', identificacion: { tipo: '01', numero: '112340567' } },
+  condicionVenta: '01',
+  medioPago: ['01'],
+  detalleServicio: [],
+  resumenFactura: {}
+} as unknown as Invoice;
+
+describe('invoiceService recepcion payload', () => {
+  it('encodeBase64Utf8 keeps accented characters', () => {
+    const encoded = encodeBase64Utf8(XML);
+    expect(Buffer.from(encoded, 'base64').toString('utf-8')).toBe(XML);
+  });
+
+  it('buildRecepcionPayload maps the Hacienda contract', () => {
+    const payload = buildRecepcionPayload(invoice, XML, 'https://example.com/callback');
+    expect(payload.clave).toBe(invoice.clave);
+    expect(payload.fecha).toBe(invoice.fechaEmision);
+    expect(payload.emisor).toEqual({ tipoIdentificacion: '02', numeroIdentificacion: '3101123456' });
+    expect(payload.receptor).toEqual({ tipoIdentificacion: '01', numeroIdentificacion: '112340567' });
+    expect(payload.callbackUrl).toBe('https://example.com/callback');
+    expect(Buffer.from(payload.comprobanteXml, 'base64').toString('utf-8')).toBe(XML);
+  });
+
+  it('buildRecepcionPayload omits a receptor without identification', () => {
+    const tiquete = { ...invoice, receptor: { nombre: 'Cliente contado', identificacion: { tipo: '01', numero: '' } } } as Invoice;
+    const payload = buildRecepcionPayload(tiquete, XML);
+    expect(payload.receptor).toBeUndefined();
+    expect(payload.callbackUrl).toBeUndefined();
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, vi } from 'vitest';
+import { getDefaultImpuestoAcreditar, parseSupplierXml } from '../src/services/mensajeReceptorService.ts';
+import { generateMensajeReceptorXML, generateXML, MensajeReceptorData } from '../src/services/xmlService.ts';
+import { validateComprobanteXml } from '../src/services/xsdValidationService.ts';
+import { Invoice } from '../src/types/invoice.ts';
+
+vi.mock('../src/lib/supabase.ts', () => ({ supabase: {} }));
+vi.mock('../src/services/supabaseCompanyService.ts', () => ({ supabaseCompanyService: {} }));
+vi.mock('../src/services/signatureService.ts', () => ({ signXml: vi.fn(), loadSignatureKeys: vi.fn() }));
+
+// Factura electrónica que un proveedor emitió a nombre de la empresa
+const facturaProveedor: Invoice = {
+  clave: '50618102510031016543210010000101000000008712345678',
+  numeroConsecutivo: '00100001010000000087',
+  fechaEmision: '2025-10-18T09:30:00-06:00',
+  emisor: {
+    nombre: 'Suministros del Valle S.A.',
+    identificacion: { tipo: '02', numero: '3101654321' },
+    ubicacion: { provincia: '1', canton: '01', distrito: '01', otrasSenas: 'Zona industrial, bodega 3' },
+    correo: 'facturas@delvalle.cr',
+    actividadEconomica: '523901'
+  },
+  receptor: {
+    nombre: 'Consultores S.A.',
+    identificacion: { tipo: '02', numero: '3101123456' },
+    correo: 'compras@consultores.cr'
+  },
+  condicionVenta: '01',
+  medioPago: ['04'],
+  totalMedioPago: [11300],
+  detalleServicio: [{
+    id: 1,
+    codigoCabys: '4321000000000',
+    cantidad: 4,
+    unidadMedida: 'Unid',
+    detalle: 'Cable de red',
+    precioUnitario: 2500,
+    montoTotal: 10000,
+    subtotal: 10000,
+    impuesto: { codigo: '01', codigoTarifa: '08', tarifa: 13, monto: 1300 },
+    impuestoNeto: 1300,
+    montoTotalLinea: 11300
+  }],
+  resumenFactura: {
+    codigoMoneda: 'CRC',
+    tipoCambio: 1,
+    totalServGravados: 0,
+    totalServExentos: 0,
+    totalMercGravada: 10000,
+    totalMercExenta: 0,
+    totalGravado: 10000,
+    totalExento: 0,
+    totalVenta: 10000,
+    totalDescuentos: 0,
+    totalVentaNeta: 10000,
+    totalImpuesto: 1300,
+    totalComprobante: 11300
+  }
+} as Invoice;
+
+const mensajeDe = (doc: ReturnType<typeof parseSupplierXml>, parcial: Partial<MensajeReceptorData>): MensajeReceptorData => ({
+  clave: doc.clave,
+  numeroCedulaEmisor: doc.emisor_numero_identificacion,
+  fechaEmisionDoc: doc.fecha_emision,
+  mensaje: '1',
+  montoTotalImpuesto: doc.total_impuesto,
+  totalFactura: doc.total_comprobante,
+  numeroCedulaReceptor: '3101123456',
+  numeroConsecutivoReceptor: '00200001050000000001',
+  ...parcial
+});
+
+describe('mensajeReceptorService', () => {
+  it('lee la clave, el emisor, el receptor y los totales de la factura del proveedor', () => {
+    const doc = parseSupplierXml(generateXML(facturaProveedor));
+
+    expect(doc).toMatchObject({
+      clave: facturaProveedor.clave,
+      tipo_documento: '01',
+      numero_consecutivo: '00100001010000000087',
+      fecha_emision: '2025-10-18T09:30:00-06:00',
+      emisor_nombre: 'Suministros del Valle S.A.',
+      emisor_tipo_identificacion: '02',
+      emisor_numero_identificacion: '3101654321',
+      receptor_numero_identificacion: '3101123456',
+      codigo_actividad: '523901',
+      moneda: 'CRC',
+      total_venta_neta: 10000,
+      total_impuesto: 1300,
+      total_comprobante: 11300,
+      estado_envio: 'sin_responder'
+    });
+  });
+
+  it('rechaza archivos que no son una factura de proveedor con clave válida', () => {
+    expect(() => parseSupplierXml('no es xml <')).toThrow('El archivo no es un XML válido');
+    expect(() => parseSupplierXml('<TiqueteElectronico><Clave>1</Clave></TiqueteElectronico>'))
+      .toThrow('El XML no es una factura electrónica ni una factura electrónica de compra');
+    expect(() => parseSupplierXml(generateXML({ ...facturaProveedor, clave: '506123' })))
+      .toThrow('El comprobante no tiene una clave numérica válida de 50 dígitos');
+  });
+
+  it('sugiere el IVA acreditable según la condición del impuesto', () => {
+    expect(getDefaultImpuestoAcreditar('01', 1300)).toBe(1300);
+    expect(getDefaultImpuestoAcreditar('03', 1300)).toBe(1300);
+    expect(getDefaultImpuestoAcreditar('02', 1300, 0.6)).toBe(780);
+    // La prorrata se limita al rango de 0 a 1
+    expect(getDefaultImpuestoAcreditar('02', 1300, 1.5)).toBe(1300);
+    expect(getDefaultImpuestoAcreditar('04', 1300)).toBe(0);
+    expect(getDefaultImpuestoAcreditar('05', 1300)).toBe(0);
+  });
+
+  it('usa la serie 05, 06 o 07 según el mensaje', () => {
+    const doc = parseSupplierXml(generateXML(facturaProveedor));
+
+    expect(() => generateMensajeReceptorXML(mensajeDe(doc, { mensaje: '3', detalleMensaje: 'Precio incorrecto' })))
+      .toThrow('El consecutivo del mensaje 3 debe ser de la serie 07');
+    expect(() => generateMensajeReceptorXML(mensajeDe(doc, { mensaje: '2', numeroConsecutivoReceptor: '00200001060000000001' })))
+      .toThrow('Debe indicar el detalle del mensaje para una aceptación parcial o un rechazo');
+    expect(() => generateMensajeReceptorXML(mensajeDe(doc, { condicionImpuesto: '01', montoTotalImpuestoAcreditar: 1500 })))
+      .toThrow('El impuesto a acreditar no puede ser mayor que el impuesto total del comprobante');
+  });
+
+  it('genera un MensajeReceptor válido según el esquema v4.4 para la factura recibida', () => {
+    const doc = parseSupplierXml(generateXML(facturaProveedor));
+
+    const aceptacion = generateMensajeReceptorXML(mensajeDe(doc, {
+      codigoActividad: '721001',
+      condicionImpuesto: '01',
+      montoTotalImpuestoAcreditar: getDefaultImpuestoAcreditar('01', doc.total_impuesto)
+    }));
+    const validacion = validateComprobanteXml(aceptacion);
+    expect(validacion.errors).toEqual([]);
+    expect(validacion.valid).toBe(true);
+
+    const rechazo = generateMensajeReceptorXML(mensajeDe(doc, {
+      mensaje: '3',
+      detalleMensaje: 'Mercadería no recibida',
+      numeroConsecutivoReceptor: '00200001070000000001'
+    }));
+    expect(validateComprobanteXml(rechazo).valid).toBe(true);
+    expect(rechazo).not.toContain('CondicionImpuesto');
+  });
+});
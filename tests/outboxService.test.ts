@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { getBackoffDelay, isRetryable, outboxService, OutboxItem } from '../src/services/outboxService.ts';
+import { RecepcionResult } from '../src/services/invoiceService.ts';
+
+const postRecepcion = vi.fn();
+const upsert = vi.fn();
+const trackHaciendaStatusByKey = vi.fn();
+
+vi.mock('../src/services/invoiceService.ts', () => ({
+  postRecepcion: (...args: unknown[]) => postRecepcion(...args)
+}));
+
+vi.mock('../src/services/haciendaStatusService.ts', () => ({
+  trackHaciendaStatusByKey: (...args: unknown[]) => trackHaciendaStatusByKey(...args)
+}));
+
+vi.mock('../src/services/haciendaAuthService.ts', () => ({
+  tokenManager: { getValidToken: vi.fn().mockResolvedValue('token') }
+}));
+
+vi.mock('../src/services/envService.ts', () => ({
+  envService: { get: () => 'https://api.hacienda.test/recepcion/v1/' }
+}));
+
+// Sin IndexedDB en las pruebas: la cola solo se replica en Supabase
+vi.mock('../src/services/localDatabase.ts', () => ({
+  LOCAL_STORES: { outbox: 'outbox' },
+  withStore: vi.fn().mockRejectedValue(new Error('IndexedDB no disponible'))
+}));
+
+vi.mock('../src/lib/supabase.ts', () => ({
+  supabase: { from: () => ({ upsert: (...args: unknown[]) => upsert(...args) }) }
+}));
+
+const CLAVE = '50619102510031011234560001004010000000001112345678';
+
+const item: OutboxItem = {
+  clave: CLAVE,
+  invoiceId: 'T-0001',
+  tipoDocumento: '04',
+  payload: {
+    clave: CLAVE,
+    fecha: '2025-10-19T10:00:00-06:00',
+    emisor: { tipoIdentificacion: '02', numeroIdentificacion: '3101123456' },
+    comprobanteXml: 'PFRpcXVldGVFbGVjdHJvbmljbz4='
+  },
+  estado: 'pendiente',
+  intentos: 1,
+  ultimoError: 'fetch failed',
+  proximoIntento: '2025-10-19T10:00:30.000Z',
+  creado: '2025-10-19T10:00:00.000Z',
+  actualizado: '2025-10-19T10:00:00.000Z'
+};
+
+const resultado = (parcial: Partial<RecepcionResult>): RecepcionResult => ({ success: false, clave: CLAVE, ...parcial });
+
+describe('outboxService', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    postRecepcion.mockReset();
+    upsert.mockReset().mockResolvedValue({ error: null });
+    trackHaciendaStatusByKey.mockReset().mockResolvedValue({ clave: CLAVE, estado: 'aceptado' });
+    Object.defineProperty(globalThis, 'localStorage', {
+      value: { getItem: () => 'innova' },
+      configurable: true
+    });
+  });
+
+  it('duplica la espera en cada intento hasta el máximo de una hora', () => {
+    expect(getBackoffDelay(0)).toBe(30 * 1000);
+    expect(getBackoffDelay(1)).toBe(30 * 1000);
+    expect(getBackoffDelay(2)).toBe(60 * 1000);
+    expect(getBackoffDelay(4)).toBe(4 * 60 * 1000);
+    expect(getBackoffDelay(20)).toBe(60 * 60 * 1000);
+  });
+
+  it('reintenta fallos de red, 5xx y token vencido, pero no un 400', () => {
+    expect(isRetryable(resultado({ error: 'fetch failed' }))).toBe(true);
+    expect(isRetryable(resultado({ status: 503 }))).toBe(true);
+    expect(isRetryable(resultado({ status: 401 }))).toBe(true);
+    expect(isRetryable(resultado({ status: 400, errorCause: 'El comprobante ya fue recibido' }))).toBe(false);
+    expect(isRetryable(resultado({ success: true, status: 202 }))).toBe(false);
+  });
+
+  it('marca como enviado lo que Hacienda recibe y lo replica en Supabase', async () => {
+    postRecepcion.mockResolvedValue(resultado({ success: true, status: 202 }));
+
+    const enviado = await outboxService.send(item);
+
+    expect(enviado.estado).toBe('enviado');
+    expect(enviado.intentos).toBe(2);
+    expect(enviado.ultimoError).toBeUndefined();
+    expect(upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ clave: CLAVE, estado: 'enviado', intentos: 2, ultimo_error: null }),
+      { onConflict: 'company_id,clave' }
+    );
+    // Igual que un envío directo: se actualiza la factura y se consulta su estado en Hacienda
+    expect(trackHaciendaStatusByKey).toHaveBeenCalledWith(CLAVE);
+  });
+
+  it('no busca una factura para los mensajes receptor recibidos desde la cola', async () => {
+    postRecepcion.mockResolvedValue(resultado({ success: true, status: 202 }));
+
+    const enviado = await outboxService.send({ ...item, tipoDocumento: '05' });
+
+    expect(enviado.estado).toBe('enviado');
+    expect(trackHaciendaStatusByKey).not.toHaveBeenCalled();
+  });
+
+  it('deja como rechazado un 400 sin programar otro intento', async () => {
+    postRecepcion.mockResolvedValue(resultado({ status: 400, error: 'XML inválido' }));
+
+    const rechazado = await outboxService.send(item);
+
+    expect(rechazado.estado).toBe('rechazado');
+    expect(rechazado.ultimoError).toBe('XML inválido');
+    expect(rechazado.proximoIntento).toBe(item.proximoIntento);
+    expect(trackHaciendaStatusByKey).not.toHaveBeenCalled();
+  });
+
+  it('mantiene pendiente un fallo de red y programa el intento con la espera exponencial', async () => {
+    postRecepcion.mockRejectedValue(new Error('fetch failed'));
+    const antes = Date.now();
+
+    const pendiente = await outboxService.send({ ...item, intentos: 3 });
+
+    expect(pendiente.estado).toBe('pendiente');
+    expect(pendiente.intentos).toBe(4);
+    expect(pendiente.ultimoError).toBe('fetch failed');
+    const espera = new Date(pendiente.proximoIntento).getTime() - antes;
+    expect(espera).toBeGreaterThanOrEqual(getBackoffDelay(4));
+    expect(espera).toBeLessThan(getBackoffDelay(4) + 5000);
+  });
+});
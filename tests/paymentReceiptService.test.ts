@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { buildPaymentReceipt, PaymentReceiptOptions } from '../src/services/paymentReceiptService.ts';
+import { getSaldoPendiente } from '../src/services/invoicePaymentService.ts';
+import { generatePaymentReceiptXML } from '../src/services/xmlService.ts';
+import { validateComprobanteXml } from '../src/services/xsdValidationService.ts';
+import { StoredInvoice } from '../src/hooks/useInvoiceHistory.ts';
+
+const original: StoredInvoice = {
+  id: 'F-00100001010000000025',
+  client: 'Distribuidora del Valle',
+  date: '2025-10-01T15:00:00.000Z',
+  amount: '₡113,000',
+  status: 'Completada',
+  items: 1,
+  claveNumerica: '50601102510031011234560010000101000000002512345678',
+  numeroConsecutivo: '00100001010000000025',
+  receptor: {
+    nombre: 'Distribuidora del Valle S.A.',
+    identificacion: { tipo: '02', numero: '3101654321' },
+    correo: 'pagos@delvalle.cr'
+  },
+  condicionVenta: '02',
+  plazoCredito: '30',
+  medioPago: ['04'],
+  moneda: 'CRC',
+  detalleServicio: [
+    { codigoCabys: '8399000000000', detalle: 'Servicio de consultoría', cantidad: 1, precioUnitario: 100000, subtotal: 100000, tarifaImpuesto: 13 }
+  ],
+  subtotal: 100000,
+  impuesto: 13000,
+  total: 113000
+};
+
+const options: PaymentReceiptOptions = {
+  original,
+  invoices: [original],
+  emisor: {
+    nombre: 'Consultores S.A.',
+    identificacion: { tipo: '02', numero: '3101123456' },
+    ubicacion: { provincia: '1', canton: '01', distrito: '01', otrasSenas: 'Avenida central' },
+    correo: 'facturas@consultores.cr',
+    actividadEconomica: '702001'
+  },
+  monto: 56500,
+  medioPago: '04',
+  sequence: {
+    clave: '50615102500310112345600100001100000000001112345678',
+    numeroConsecutivo: '00100001100000000001'
+  }
+};
+
+describe('paymentReceiptService', () => {
+  it('builds a schema-valid receipt for a partial payment with proportional IVA', () => {
+    const receipt = buildPaymentReceipt(options);
+
+    expect(receipt.condicionVenta).toBe('11');
+    expect(receipt.resumenFactura.totalImpuesto).toBe(6500);
+    expect(receipt.resumenFactura.totalComprobante).toBe(56500);
+    expect(receipt.informacionReferencia?.[0].numero).toBe(original.claveNumerica);
+
+    const xml = generatePaymentReceiptXML(receipt);
+    expect(xml).toContain('<TotalMedioPago>56500.00</TotalMedioPago>');
+    expect(validateComprobanteXml(xml).errors).toEqual([]);
+  });
+
+  it('splits the totals between services and merchandise, taxed and exempt', () => {
+    const mixta: StoredInvoice = {
+      ...original,
+      detalleServicio: [
+        { codigoCabys: '8399000000000', detalle: 'Instalación', cantidad: 1, precioUnitario: 40000, subtotal: 40000, unidadMedida: 'Sp', tarifaImpuesto: 13 },
+        { codigoCabys: '4321000000000', detalle: 'Cable de red', cantidad: 10, precioUnitario: 5000, subtotal: 50000, unidadMedida: 'Unid', tarifaImpuesto: 13 },
+        { codigoCabys: '0111200000000', detalle: 'Canasta básica', cantidad: 1, precioUnitario: 10000, subtotal: 10000, unidadMedida: 'kg', tarifaImpuesto: 0 }
+      ],
+      subtotal: 100000,
+      impuesto: 11700,
+      total: 111700
+    };
+
+    const receipt = buildPaymentReceipt({ ...options, original: mixta, invoices: [mixta], monto: 111700 });
+
+    expect(receipt.resumenFactura).toMatchObject({
+      totalServGravados: 40000,
+      totalServExentos: 0,
+      totalMercGravada: 50000,
+      totalMercExenta: 10000,
+      totalGravado: 90000,
+      totalExento: 10000,
+      totalVenta: 100000,
+      totalImpuesto: 11700,
+      totalComprobante: 111700
+    });
+    expect(validateComprobanteXml(generatePaymentReceiptXML(receipt)).errors).toEqual([]);
+  });
+
+  it('rejects payments above the outstanding balance', () => {
+    const abonada: StoredInvoice = {
+      ...original,
+      infoPago: {
+        pagada: false,
+        pagos: [{ fechaPago: '2025-10-15', monto: 100000, medioPago: '04' }]
+      }
+    };
+
+    expect(getSaldoPendiente(abonada, [abonada])).toBe(13000);
+    expect(() => buildPaymentReceipt({ ...options, original: abonada, invoices: [abonada] })).toThrow('supera el saldo pendiente');
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { registerInvoicePayment } from '../src/services/paymentRegistrationService.ts';
+import { PagoFactura, StoredInvoice } from '../src/hooks/useInvoiceHistory.ts';
+import { Party } from '../src/types/invoice.ts';
+
+const llamadas: string[] = [];
+const savePayment = vi.fn();
+const updateRecibo = vi.fn();
+const sendXMLToHacienda = vi.fn();
+
+vi.mock('../src/lib/supabase.ts', () => ({ supabase: {} }));
+vi.mock('../src/services/supabaseCompanyService.ts', () => ({ supabaseCompanyService: {} }));
+
+vi.mock('../src/services/supabaseInvoicePaymentService.ts', () => ({
+  supabaseInvoicePaymentService: {
+    savePayment: (...args: unknown[]) => { llamadas.push('guardar'); return savePayment(...args); },
+    updateRecibo: (...args: unknown[]) => { llamadas.push('actualizar'); return updateRecibo(...args); }
+  }
+}));
+
+vi.mock('../src/services/supabaseInvoiceService.ts', () => ({
+  supabaseInvoiceService: { updateInvoiceData: vi.fn().mockResolvedValue({ error: null }) }
+}));
+
+vi.mock('../src/services/haciendaApiService.ts', () => ({
+  sendXMLToHacienda: (...args: unknown[]) => { llamadas.push('enviar'); return sendXMLToHacienda(...args); }
+}));
+
+vi.mock('../src/services/signatureService.ts', () => ({
+  loadSignatureKeys: vi.fn().mockResolvedValue({}),
+  signXml: vi.fn().mockResolvedValue('<ReciboElectronicoPago>firmado</ReciboElectronicoPago>')
+}));
+
+vi.mock('../src/services/sequenceService.ts', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/services/sequenceService.ts')>()),
+  generateSequence: vi.fn().mockResolvedValue({
+    clave: '50615102500310112345600200001100000000000112345678',
+    numeroConsecutivo: '00200001100000000001'
+  })
+}));
+
+vi.mock('../src/services/branchService.ts', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/services/branchService.ts')>()),
+  getPuntoVenta: () => ({ sucursal: '002', terminal: '00001' })
+}));
+
+const factura: StoredInvoice = {
+  id: 'F-00100001010000000025',
+  client: 'Distribuidora del Valle',
+  date: '2025-10-01T15:00:00.000Z',
+  amount: '₡113,000',
+  status: 'Completada',
+  items: 1,
+  claveNumerica: '50601102510031011234560010000101000000002512345678',
+  numeroConsecutivo: '00100001010000000025',
+  receptor: {
+    nombre: 'Distribuidora del Valle S.A.',
+    identificacion: { tipo: '02', numero: '3101654321' },
+    correo: 'pagos@delvalle.cr'
+  },
+  condicionVenta: '02',
+  plazoCredito: '30',
+  medioPago: ['04'],
+  moneda: 'CRC',
+  detalleServicio: [
+    { codigoCabys: '8399000000000', detalle: 'Servicio de consultoría', cantidad: 1, precioUnitario: 100000, subtotal: 100000, tarifaImpuesto: 13 }
+  ],
+  subtotal: 100000,
+  impuesto: 13000,
+  total: 113000
+};
+
+const emisor: Party = {
+  nombre: 'Consultores S.A.',
+  identificacion: { tipo: '02', numero: '3101123456' },
+  ubicacion: { provincia: '1', canton: '01', distrito: '01', otrasSenas: 'Avenida central' },
+  correo: 'facturas@consultores.cr',
+  actividadEconomica: '702001'
+};
+
+const pago: PagoFactura = { fechaPago: '2025-10-15', monto: 56500, medioPago: '04' };
+
+describe('paymentRegistrationService', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    llamadas.length = 0;
+    savePayment.mockReset().mockImplementation(async (_invoice, pagoGuardado: PagoFactura) => ({
+      success: true,
+      data: { ...pagoGuardado, id: 'pago-1' }
+    }));
+    updateRecibo.mockReset().mockImplementation(async (id: string, recibo) => ({
+      success: true,
+      data: { ...pago, id, recibo }
+    }));
+    sendXMLToHacienda.mockReset();
+  });
+
+  it('guarda el pago con el recibo pendiente antes de enviarlo a Hacienda', async () => {
+    sendXMLToHacienda.mockResolvedValue({ success: true, clave: 'x', status: 202 });
+
+    const resultado = await registerInvoicePayment(factura, pago, emisor, 'innova', [factura]);
+
+    expect(resultado.success).toBe(true);
+    expect(llamadas).toEqual(['guardar', 'enviar', 'actualizar']);
+    expect(savePayment.mock.calls[0][1].recibo.estadoEnvio).toBe('pendiente');
+    expect(updateRecibo).toHaveBeenCalledWith('pago-1', expect.objectContaining({ estadoEnvio: 'enviado' }));
+    expect(resultado.pago?.recibo?.estadoEnvio).toBe('enviado');
+    expect(resultado.advertencia).toBeUndefined();
+  });
+
+  it('no envía el recibo si el pago no se pudo guardar', async () => {
+    savePayment.mockResolvedValue({ success: false, error: 'sin conexión' });
+
+    const resultado = await registerInvoicePayment(factura, pago, emisor, 'innova', [factura]);
+
+    expect(resultado.success).toBe(false);
+    expect(resultado.error).toBe('Error al guardar el pago: sin conexión');
+    expect(sendXMLToHacienda).not.toHaveBeenCalled();
+  });
+
+  it('guarda el error cuando Hacienda no recibe el recibo', async () => {
+    sendXMLToHacienda.mockResolvedValue({ success: false, clave: 'x', status: 400, errorCause: 'Clave duplicada' });
+
+    const resultado = await registerInvoicePayment(factura, pago, emisor, 'innova', [factura]);
+
+    expect(resultado.success).toBe(true);
+    expect(updateRecibo).toHaveBeenCalledWith('pago-1', expect.objectContaining({ estadoEnvio: 'error', error: 'Clave duplicada' }));
+    expect(resultado.advertencia).toBe('Hacienda no recibió el recibo de pago 00200001100000000001: Clave duplicada');
+  });
+});
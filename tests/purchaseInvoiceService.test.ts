@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { buildPurchaseInvoice, PurchaseInvoiceOptions } from '../src/services/purchaseInvoiceService.ts';
+import { generatePurchaseInvoiceXML } from '../src/services/xmlService.ts';
+import { validateComprobanteXml } from '../src/services/xsdValidationService.ts';
+
+const options: PurchaseInvoiceOptions = {
+  // Productor no inscrito: es el emisor del comprobante
+  proveedor: {
+    nombre: 'Juan Pérez Mora',
+    identificacion: { tipo: '01', numero: '203450678' },
+    ubicacion: { provincia: '2', canton: '06', distrito: '01', otrasSenas: 'Finca La Esperanza' },
+    correo: 'jperez@correo.cr',
+    actividadEconomica: '011301'
+  },
+  empresa: {
+    nombre: 'Consultores S.A.',
+    identificacion: { tipo: '02', numero: '3101123456' },
+    ubicacion: { provincia: '1', canton: '01', distrito: '01', otrasSenas: 'Avenida central' },
+    correo: 'compras@consultores.cr',
+    actividadEconomica: '721001'
+  },
+  lineas: [
+    { codigoCabys: '0111200000000', detalle: 'Banano', cantidad: 50, unidadMedida: 'kg', precioUnitario: 400, tarifa: 1, esServicio: false },
+    { codigoCabys: '8399000000000', detalle: 'Transporte', cantidad: 1, unidadMedida: 'Sp', precioUnitario: 15000, tarifa: 13, esServicio: true },
+    { codigoCabys: '0111100000000', detalle: 'Línea vacía', cantidad: 0, unidadMedida: 'kg', precioUnitario: 100, tarifa: 0, esServicio: false }
+  ],
+  moneda: 'CRC',
+  tipoCambio: 1,
+  condicionVenta: '02',
+  plazoCredito: 15,
+  medioPago: '04',
+  sequence: {
+    clave: '50619102510031011234560020000108000000000412345678',
+    numeroConsecutivo: '00200001080000000004'
+  }
+};
+
+describe('purchaseInvoiceService', () => {
+  it('emite a nombre del proveedor con la empresa como receptor', () => {
+    const factura = buildPurchaseInvoice(options);
+
+    expect(factura.emisor.identificacion.numero).toBe('203450678');
+    expect(factura.receptor.identificacion.numero).toBe('3101123456');
+    expect(factura.detalleServicio).toHaveLength(2);
+    expect(factura.resumenFactura.totalMercGravada).toBe(20000);
+    expect(factura.resumenFactura.totalServGravados).toBe(15000);
+    expect(factura.resumenFactura.totalImpuesto).toBe(2150);
+    expect(factura.resumenFactura.totalComprobante).toBe(37150);
+
+    expect(() => buildPurchaseInvoice({ ...options, proveedor: { ...options.proveedor, identificacion: options.empresa.identificacion } }))
+      .toThrow('El proveedor no puede ser la misma empresa');
+  });
+
+  it('genera un XML de factura de compra válido según el esquema v4.4', () => {
+    const xml = generatePurchaseInvoiceXML(buildPurchaseInvoice(options));
+    const validacion = validateComprobanteXml(xml);
+    expect(validacion.errors).toEqual([]);
+    expect(validacion.valid).toBe(true);
+
+    expect(xml).toContain('<FacturaElectronicaCompra');
+    expect(xml).toMatch(/<Emisor>\s*<Nombre>Juan Pérez Mora<\/Nombre>\s*<Identificacion>\s*<Tipo>01<\/Tipo>\s*<Numero>203450678<\/Numero>/);
+    expect(xml).toMatch(/<Receptor>\s*<Nombre>Consultores S\.A\.<\/Nombre>\s*<Identificacion>\s*<Tipo>02<\/Tipo>\s*<Numero>3101123456<\/Numero>/);
+    expect(xml).toContain('<CodigoActividadEmisor>011301</CodigoActividadEmisor>');
+    expect(xml).toContain('<CodigoActividadReceptor>721001</CodigoActividadReceptor>');
+  });
+});
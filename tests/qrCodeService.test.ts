@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { generarCodigoQR } from '../src/services/qrCodeService.ts';
+
+const CLAVE = '50619102500310292807900100001040000000123100000001';
+
+describe('qrCodeService', () => {
+  it('picks the smallest version and draws finder and timing patterns', () => {
+    expect(generarCodigoQR('HELLO')).toHaveLength(21);
+    const matriz = generarCodigoQR(CLAVE);
+    expect(matriz).toHaveLength(33);
+
+    const finder = [0, 1, 2, 3, 4, 5, 6].map(y => [0, 1, 2, 3, 4, 5, 6].map(x => matriz[y][x]));
+    expect(finder[0].every(Boolean)).toBe(true);
+    expect(finder[1]).toEqual([true, false, false, false, false, false, true]);
+    expect(finder[3]).toEqual([true, false, true, true, true, false, true]);
+    expect(matriz[6].slice(8, 25)).toEqual([...Array(17)].map((_, i) => i % 2 === 0));
+    // Módulo oscuro fijo junto al patrón inferior izquierdo
+    expect(matriz[33 - 8][8]).toBe(true);
+  });
+
+  it('writes the same format information in both copies and rejects oversized content', () => {
+    const matriz = generarCodigoQR(CLAVE, 3);
+    const copia1 = [0, 1, 2, 3, 4, 5, 7, 8].map(y => matriz[y][8]);
+    const copia2 = [0, 1, 2, 3, 4, 5, 6, 7].map(i => matriz[8][matriz.length - 1 - i]);
+    expect(copia1).toEqual(copia2);
+    expect(() => generarCodigoQR('x'.repeat(300))).toThrow(/demasiado largo/);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { COLUMNAS_PAPEL, construirRecibo, generarEscPos, LineaRecibo } from '../src/services/receiptService.ts';
+import { Invoice } from '../src/types/invoice.ts';
+
+const tiquete = {
+  clave: '50619102500310292807900100001040000000123100000001',
+  numeroConsecutivo: '00200001040000000123',
+  fechaEmision: '2025-10-19T15:30:00.000Z',
+  emisor: { nombre: 'Panadería La Espiga S.A.', nombreComercial: 'La Espiga', identificacion: { tipo: '02', numero: '3101123456' } },
+  receptor: { nombre: 'Consumidor Final', identificacion: { tipo: '01', numero: '000000000' } },
+  condicionVenta: '01',
+  medioPago: ['02', '01'],
+  totalMedioPago: [2000, 825],
+  mediosPagoDetalle: [
+    { medioPago: '02', monto: 2000, autorizacion: '123456', ultimosDigitos: '4321' },
+    { medioPago: '01', monto: 1000 }
+  ],
+  vuelto: 175,
+  detalleServicio: [
+    {
+      id: 1, codigoCabys: '2399100000000', cantidad: 2, unidadMedida: 'Unid', detalle: 'Pan baguette artesanal de masa madre con semillas',
+      precioUnitario: 1250, montoTotal: 2500, subtotal: 2500,
+      impuesto: { codigo: '01', codigoTarifa: '08', tarifa: 13, monto: 325 }, impuestoNeto: 325, montoTotalLinea: 2825
+    }
+  ],
+  resumenFactura: {
+    codigoMoneda: 'CRC', totalServGravados: 0, totalServExentos: 0, totalMercGravada: 2500, totalMercExenta: 0,
+    totalGravado: 2500, totalExento: 0, totalVenta: 2500, totalDescuentos: 0, totalVentaNeta: 2500,
+    totalImpuesto: 325, totalComprobante: 2825
+  }
+} as Invoice;
+
+const texto = (lineas: LineaRecibo[]) =>
+  lineas.map(linea => (linea.tipo === 'texto' ? linea.texto : linea.tipo === 'columnas' ? `${linea.izquierda} ${linea.derecha}` : '')).join('\n');
+
+describe('receiptService', () => {
+  it('lists clave, consecutive, taxes, tenders, change and QR', () => {
+    const lineas = construirRecibo(tiquete, { anchoPapel: '80' });
+    const contenido = texto(lineas);
+
+    expect(contenido).toContain('Tiquete Electrónico');
+    expect(contenido).toContain('00200001040000000123');
+    expect(contenido).toContain(tiquete.clave);
+    expect(contenido).toMatch(/IVA 13% 325,00/);
+    expect(contenido).toContain('Aut. 123456 ****4321');
+    expect(contenido).toMatch(/Vuelto 175,00/);
+    expect(lineas).toContainEqual({ tipo: 'qr', contenido: tiquete.clave });
+    expect(contenido).not.toContain('Consumidor Final');
+  });
+
+  it('encodes ESC/POS within the 58 mm line width using code page 850', () => {
+    const bytes = generarEscPos(construirRecibo(tiquete, { anchoPapel: '58' }), { anchoPapel: '58' });
+    expect([...bytes.slice(0, 5)]).toEqual([0x1b, 0x40, 0x1b, 0x74, 0x02]);
+    expect([...bytes.slice(-4)]).toEqual([0x1d, 0x56, 0x42, 0x00]);
+    // "Electrónico" con la ó de la página 850
+    expect(Buffer.from(bytes).includes(Buffer.from([0x45, 0x6c, 0x65, 0x63, 0x74, 0x72, 0xa2, 0x6e]))).toBe(true);
+
+    // Sin los comandos de alineación, negrita y tamaño
+    const sinComandos: number[] = [];
+    for (let i = 0; i < bytes.length; i++) {
+      if (bytes[i] === 0x1b) {
+        i += bytes[i + 1] === 0x40 ? 1 : 2;
+      } else if (bytes[i] === 0x1d && bytes[i + 1] === 0x21) {
+        i += 2;
+      } else {
+        sinComandos.push(bytes[i]);
+      }
+    }
+    const textoPlano = Buffer.from(sinComandos).toString('latin1');
+    const renglones = textoPlano.split('\n').filter(renglon => /^[ -~]+$/.test(renglon));
+    expect(renglones.length).toBeGreaterThan(10);
+    renglones.forEach(renglon => expect(renglon.length).toBeLessThanOrEqual(COLUMNAS_PAPEL['58']));
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { generateConsecutiveNumber, generateInvoiceKey } from '../src/services/sequenceService.ts';
+import { generateConsecutiveNumber, generateInvoiceKey, generateSequence, reserveConsecutiveBlock } from '../src/services/sequenceService.ts';
 
 vi.mock('../src/services/supabaseCompanyService.ts', () => ({
   supabaseCompanyService: {
@@ -7,6 +7,28 @@ vi.mock('../src/services/supabaseCompanyService.ts', () => ({
   }
 }));
 
+// Simula la función next_consecutive: una serie por empresa, ambiente, sucursal, terminal y tipo
+interface NextConsecutiveParams {
+  p_company_id: string;
+  p_environment: string;
+  p_sucursal: string;
+  p_terminal: string;
+  p_tipo_doc: string;
+  p_cantidad: number;
+}
+
+const series = new Map<string, number>();
+const rpc = vi.fn(async (_fn: string, params: NextConsecutiveParams): Promise<{ data: number | null; error: { message: string } | null }> => {
+  const llave = [params.p_company_id, params.p_environment, params.p_sucursal, params.p_terminal, params.p_tipo_doc].join(':');
+  const ultimo = (series.get(llave) ?? 0) + params.p_cantidad;
+  series.set(llave, ultimo);
+  return { data: ultimo, error: null };
+});
+
+vi.mock('../src/lib/supabase.ts', () => ({
+  supabase: { rpc: (fn: string, params: NextConsecutiveParams) => rpc(fn, params) }
+}));
+
 function mockLocalStorage() {
   const store: Record<string, string> = {};
   Object.defineProperty(globalThis, 'localStorage', {
@@ -29,11 +51,22 @@ function mockLocalStorage() {
 describe('sequenceService', () => {
   beforeEach(() => {
     mockLocalStorage();
+    series.clear();
+    rpc.mockClear();
+  });
+
+  it('generateConsecutiveNumber returns 20 digits', async () => {
+    const num = await generateConsecutiveNumber('company1');
+    expect(num).toBe('00200001010000000001');
   });
 
-  it('generateConsecutiveNumber returns 20 digits', () => {
-    const num = generateConsecutiveNumber('company1');
-    expect(num).toHaveLength(20);
+  it('credit and debit notes use their own series', async () => {
+    await generateConsecutiveNumber('company1', '01');
+    await generateConsecutiveNumber('company1', '01');
+    const debito = await generateConsecutiveNumber('company1', '02');
+    const credito = await generateConsecutiveNumber('company1', '03');
+    expect(debito).toBe('00200001020000000001');
+    expect(credito).toBe('00200001030000000001');
   });
 
   it('generateInvoiceKey returns 50 digits starting with 506', async () => {
@@ -41,5 +74,47 @@ describe('sequenceService', () => {
     expect(key).toHaveLength(50);
     expect(key.startsWith('506')).toBe(true);
   });
-});
 
+  it('generateSequence places the situación digit in the clave', async () => {
+    const normal = await generateSequence('company1', '123456789', '04');
+    const sinInternet = await generateSequence('company1', '123456789', '04', '00001', '002', '3');
+    expect(normal.clave.charAt(9)).toBe('1');
+    expect(sinInternet.clave.charAt(9)).toBe('3');
+    expect(sinInternet.clave).toHaveLength(50);
+    expect(sinInternet.clave.slice(22, 42)).toBe(sinInternet.numeroConsecutivo);
+  });
+
+  it('each terminal and branch has its own database series', async () => {
+    localStorage.setItem('company_company1_consecutive_settings', JSON.stringify({
+      lastConsecutive: 41,
+      environment: 'prod',
+      updatedAt: '2025-10-19T08:00:00.000Z'
+    }));
+
+    const primero = await generateConsecutiveNumber('company1', '04', '00001', '002');
+    const segundo = await generateConsecutiveNumber('company1', '04', '00001', '002');
+    const otraTerminal = await generateConsecutiveNumber('company1', '04', '00002', '002');
+
+    // Formato de Hacienda: sucursal (3) + terminal (5) + tipo (2) + número (10)
+    expect(primero).toBe('00200001040000000001');
+    expect(segundo).toBe('00200001040000000002');
+    expect(otraTerminal).toBe('00200002040000000001');
+    expect(await generateConsecutiveNumber('company1', '04', '00001', '003')).toBe('00300001040000000001');
+    expect(rpc).toHaveBeenCalledWith('next_consecutive', expect.objectContaining({
+      p_environment: 'prod',
+      p_terminal: '00001',
+      p_sucursal: '002',
+      p_tipo_doc: '04',
+      p_cantidad: 1
+    }));
+  });
+
+  it('reserves blocks from the same series and fails instead of inventing numbers', async () => {
+    await generateConsecutiveNumber('company1', '04');
+    expect(await reserveConsecutiveBlock('company1', '04', '00001', '002', 50)).toEqual({ desde: 2, hasta: 51 });
+    expect(await generateConsecutiveNumber('company1', '04')).toBe('00200001040000000052');
+
+    rpc.mockResolvedValueOnce({ data: null, error: { message: 'fetch failed' } });
+    await expect(generateConsecutiveNumber('company1', '04')).rejects.toThrow('fetch failed');
+  });
+});
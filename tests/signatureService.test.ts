@@ -0,0 +1,175 @@
+import { describe, it, expect, vi, beforeAll } from 'vitest';
+import forge from 'node-forge';
+import { loadP12Certificate, loadSignatureKeys, signXml, verifyXmlSignature, HACIENDA_SIGNATURE_POLICY } from '../src/services/signatureService.ts';
+import { consecutiveReservationService, ReservaConsecutivos } from '../src/services/consecutiveReservationService.ts';
+import { generateXML } from '../src/services/xmlService.ts';
+import { validateComprobanteXml } from '../src/services/xsdValidationService.ts';
+import { Invoice } from '../src/types/invoice.ts';
+
+const getCertificate = vi.fn().mockResolvedValue({ success: false, error: 'Certificado no registrado' });
+vi.mock('../src/services/supabaseStorageService.ts', () => ({
+  supabaseStorageService: {
+    getCertificate: (...args: unknown[]) => getCertificate(...args)
+  }
+}));
+
+vi.mock('../src/lib/supabase.ts', () => ({ supabase: {} }));
+vi.mock('../src/services/supabaseCompanyService.ts', () => ({
+  supabaseCompanyService: {
+    getCompanySecurityCode: vi.fn().mockResolvedValue('12345678')
+  }
+}));
+
+// Base local en memoria en lugar de IndexedDB
+const almacenes = new Map<string, Map<IDBValidKey, unknown>>();
+const almacen = (nombre: string) => {
+  if (!almacenes.has(nombre)) almacenes.set(nombre, new Map());
+  return almacenes.get(nombre)!;
+};
+vi.mock('../src/services/localDatabase.ts', () => ({
+  LOCAL_STORES: { cache: 'offline_cache', reservas: 'consecutive_reservations' },
+  withStore: async (nombre: string, _mode: string, operation: (store: unknown) => unknown) => operation({
+    get: (key: IDBValidKey) => almacen(nombre).get(key),
+    put: (registro: { key?: string; id?: string }) => almacen(nombre).set((registro.key ?? registro.id)!, registro)
+  }),
+  updateRecord: async (nombre: string, key: IDBValidKey, update: (actual: unknown) => unknown) => {
+    const registro = update(almacen(nombre).get(key));
+    almacen(nombre).set(key, registro);
+    return registro;
+  }
+}));
+
+const setOnline = (onLine: boolean) =>
+  Object.defineProperty(globalThis, 'navigator', { value: { onLine }, configurable: true });
+
+const PIN = '1234';
+
+const XML = `<?xml version="1.0" encoding="utf-8"?>
+<FacturaElectronica xmlns="https://cdn.comprobanteselectronicos.go.cr/xml-schemas/v4.4/facturaElectronica">
+  <Clave>50601012500310123456700100001010000000001100000001</Clave>
+  <NumeroConsecutivo>00100001010000000001</NumeroConsecutivo>
+  <ResumenFactura>
+    <TotalComprobante>1130.00</TotalComprobante>
+  </ResumenFactura>
+</FacturaElectronica>`;
+
+/**
+ * Genera un certificado autofirmado y lo empaqueta en un .p12 protegido con PIN
+ */
+function createTestP12(): Uint8Array {
+  const keys = forge.pki.rsa.generateKeyPair(2048);
+  const cert = forge.pki.createCertificate();
+  cert.publicKey = keys.publicKey;
+  cert.serialNumber = '01';
+  cert.validity.notBefore = new Date();
+  cert.validity.notAfter = new Date(Date.now() + 365 * 24 * 60 * 60 * 1000);
+  const attrs = [
+    { name: 'commonName', value: 'EMPRESA DE PRUEBA S.A.' },
+    { name: 'countryName', value: 'CR' },
+    { shortName: 'OU', value: 'CPJ-3-101-123456' }
+  ];
+  cert.setSubject(attrs);
+  cert.setIssuer(attrs);
+  cert.sign(keys.privateKey, forge.md.sha256.create());
+
+  const asn1 = forge.pkcs12.toPkcs12Asn1(keys.privateKey, [cert], PIN, { algorithm: '3des' });
+  const der = forge.asn1.toDer(asn1).getBytes();
+  return Uint8Array.from(der, c => c.charCodeAt(0));
+}
+
+describe('signatureService', () => {
+  let p12: Uint8Array;
+
+  beforeAll(() => {
+    p12 = createTestP12();
+  });
+
+  it('loadP12Certificate rejects a wrong PIN', () => {
+    expect(() => loadP12Certificate(p12, '0000')).toThrow(/PIN/);
+  });
+
+  it('signs with XAdES-EPES and verifies the round trip', async () => {
+    const keyData = loadP12Certificate(p12, PIN);
+    const signed = await signXml(XML, { keyData, signingTime: new Date('2025-01-01T12:00:00Z') });
+
+    expect(signed).toContain('SignaturePolicyIdentifier');
+    expect(signed).toContain(HACIENDA_SIGNATURE_POLICY.identifier);
+    expect(signed).toContain('SigningCertificate');
+    expect(signed).toContain('SigningTime');
+
+    const result = await verifyXmlSignature(signed);
+    expect(result.error).toBeUndefined();
+    expect(result.valid).toBe(true);
+    expect(result.policyIdentifier).toBe(HACIENDA_SIGNATURE_POLICY.identifier);
+  }, 30000);
+
+  it('issues a tiquete offline with a reserved consecutive and the cached certificate', async () => {
+    // Con conexión se descarga el certificado y queda en la caché local
+    setOnline(true);
+    getCertificate.mockResolvedValueOnce({ success: true, data: { file: new Blob([p12]), filename: 'firma.p12', pin: PIN } });
+    await loadSignatureKeys('innova');
+
+    const reserva: ReservaConsecutivos = {
+      id: 'innova:04:00001:002',
+      companyId: 'innova',
+      tipoDoc: '04',
+      terminal: '00001',
+      sucursal: '002',
+      rangos: [{ desde: 151, hasta: 200 }],
+      actualizado: '2025-10-19T08:00:00.000Z'
+    };
+    almacen('consecutive_reservations').set(reserva.id, reserva);
+
+    // Sin conexión: el consecutivo sale de la reserva y la firma, del certificado en caché
+    setOnline(false);
+    getCertificate.mockClear();
+    try {
+      const sequence = await consecutiveReservationService.generateOfflineSequence('innova', '3101123456', '04', '00001', '002');
+      expect(sequence.numeroConsecutivo).toBe('00200001040000000151');
+      expect(sequence.clave.charAt(9)).toBe('3');
+
+      const tiquete = {
+        ...sequence,
+        fechaEmision: '2025-10-19T15:30:00-06:00',
+        emisor: {
+          nombre: 'Panadería La Espiga S.A.',
+          identificacion: { tipo: '02', numero: '3101123456' },
+          ubicacion: { provincia: '1', canton: '01', distrito: '01', otrasSenas: 'Frente al parque' },
+          correo: 'ventas@laespiga.cr',
+          actividadEconomica: '107101'
+        },
+        receptor: { nombre: 'Consumidor Final', identificacion: { tipo: '01', numero: '000000000' } },
+        condicionVenta: '01',
+        medioPago: ['01'],
+        detalleServicio: [{
+          id: 1, codigoCabys: '2399100000000', cantidad: 2, unidadMedida: 'Unid', detalle: 'Pan baguette',
+          precioUnitario: 1250, montoTotal: 2500, subtotal: 2500,
+          impuesto: { codigo: '01', codigoTarifa: '08', tarifa: 13, monto: 325 }, impuestoNeto: 325, montoTotalLinea: 2825
+        }],
+        resumenFactura: {
+          codigoMoneda: 'CRC', totalServGravados: 0, totalServExentos: 0, totalMercGravada: 2500, totalMercExenta: 0,
+          totalGravado: 2500, totalExento: 0, totalVenta: 2500, totalDescuentos: 0, totalVentaNeta: 2500,
+          totalImpuesto: 325, totalComprobante: 2825
+        }
+      } as Invoice;
+
+      const xml = generateXML(tiquete);
+      expect(validateComprobanteXml(xml).errors).toEqual([]);
+
+      const signed = await signXml(xml, await loadSignatureKeys('innova'));
+      expect(getCertificate).not.toHaveBeenCalled();
+      expect((await verifyXmlSignature(signed)).valid).toBe(true);
+    } finally {
+      setOnline(true);
+    }
+  }, 30000);
+
+  it('detects a tampered document', async () => {
+    const keyData = loadP12Certificate(p12, PIN);
+    const signed = await signXml(XML, { keyData });
+    const tampered = signed.replace('1130.00', '1.00');
+
+    const result = await verifyXmlSignature(tampered);
+    expect(result.valid).toBe(false);
+  }, 30000);
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect, vi } from 'vitest';
+import { calcularExistencias, resolverConflictoFactura, syncService, SyncItem } from '../src/services/syncService.ts';
+import { StoredInvoice } from '../src/hooks/useInvoiceHistory.ts';
+
+vi.mock('../src/services/supabaseCompanyService.ts', () => ({
+  supabaseCompanyService: {
+    getCompanySecurityCode: vi.fn().mockResolvedValue('12345678')
+  }
+}));
+
+vi.mock('../src/services/supabaseProductService.ts', () => ({
+  supabaseProductService: {
+    getProductById: vi.fn().mockResolvedValue({ success: true, data: { name: 'Arroz 1 kg' } })
+  }
+}));
+
+const rpc = vi.fn();
+vi.mock('../src/lib/supabase.ts', () => ({
+  supabase: { rpc: (...args: unknown[]) => rpc(...args) }
+}));
+
+// Cola de sincronización en memoria en lugar de IndexedDB
+const cola = new Map<string, SyncItem>();
+vi.mock('../src/services/localDatabase.ts', () => ({
+  LOCAL_STORES: { syncQueue: 'sync_queue', cache: 'offline_cache' },
+  withStore: async (_store: string, _mode: string, operation: (store: unknown) => unknown) => operation({
+    getAll: () => Array.from(cola.values()),
+    put: (item: SyncItem) => cola.set(item.id, item),
+    delete: (id: string) => cola.delete(id)
+  })
+}));
+
+const factura = (claveNumerica: string): StoredInvoice => ({
+  id: 'T-0001',
+  client: 'Consumidor Final',
+  date: '2025-10-19T10:00:00.000Z',
+  amount: '',
+  status: 'Completada',
+  items: 1,
+  claveNumerica,
+  condicionVenta: '01',
+  medioPago: ['01'],
+  detalleServicio: [],
+  subtotal: 1000,
+  impuesto: 130,
+  total: 1130
+});
+
+describe('syncService', () => {
+  it('descarta el reenvío del mismo comprobante y marca en conflicto un id repetido con otra clave', () => {
+    expect(resolverConflictoFactura(factura('50619102500'), factura('50619102500'))).toBe('duplicado');
+    expect(resolverConflictoFactura(factura('50619102500'), factura('50619102599'))).toBe('conflicto');
+    expect(resolverConflictoFactura(factura(''), factura(''))).toBe('conflicto');
+  });
+
+  it('aplica las ventas sin conexión sobre las existencias actuales y reporta el faltante', () => {
+    expect(calcularExistencias(10, 3)).toEqual({ nuevoStock: 7, faltante: 0 });
+    expect(calcularExistencias(2, 5)).toEqual({ nuevoStock: 0, faltante: 3 });
+  });
+
+  it('descuenta las existencias con el id del elemento para que un reintento no las descuente dos veces', async () => {
+    const salida: SyncItem = {
+      id: 'existencias:prod-1:1760870000000:abc123',
+      tipo: 'existencias',
+      companyId: 'innova',
+      productoId: 'prod-1',
+      cantidad: 5,
+      documento: 'T-0001',
+      estado: 'pendiente',
+      intentos: 0,
+      creado: '2025-10-19T10:00:00.000Z',
+      actualizado: '2025-10-19T10:00:00.000Z'
+    };
+    cola.set(salida.id, salida);
+
+    // Primer intento: se perdió la respuesta
+    rpc.mockResolvedValueOnce({ data: null, error: { message: 'fetch failed' } });
+    expect(await syncService.processPending()).toBe(0);
+    expect(cola.get(salida.id)).toMatchObject({ estado: 'pendiente', intentos: 1, ultimoError: 'fetch failed' });
+
+    // El reintento usa el mismo id; la función devuelve las existencias previas a la venta
+    rpc.mockResolvedValueOnce({ data: 3, error: null });
+    expect(await syncService.processPending()).toBe(0);
+    expect(rpc).toHaveBeenCalledTimes(2);
+    expect(rpc.mock.calls.map(([, params]) => params.p_sync_id)).toEqual([salida.id, salida.id]);
+    expect(rpc).toHaveBeenLastCalledWith('apply_stock_sale', expect.objectContaining({ p_product_id: 'prod-1', p_cantidad: 5, p_documento: 'T-0001' }));
+    expect(cola.get(salida.id)).toMatchObject({
+      estado: 'conflicto',
+      ultimoError: 'La venta T-0001 superó las existencias de Arroz 1 kg en 2'
+    });
+  });
+});
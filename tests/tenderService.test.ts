@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { calcularMediosPago, validarMediosPago } from '../src/services/tenderService.ts';
+
+describe('tenderService', () => {
+  it('splits a sale across card, SINPE Móvil and cash with change taken from cash', () => {
+    const resumen = validarMediosPago([
+      { medioPago: '02', monto: 10000, autorizacion: '123456', ultimosDigitos: '4321' },
+      { medioPago: '06', monto: 5000, referencia: '2025100512345678' },
+      { medioPago: '01', monto: 10000 }
+    ], 22350.5);
+
+    expect(resumen.vuelto).toBe(2649.5);
+    expect(resumen.medioPago).toEqual(['02', '06', '01']);
+    expect(resumen.totalMedioPago).toEqual([10000, 5000, 7350.5]);
+    expect(resumen.totalMedioPago.reduce((sum, monto) => sum + monto, 0)).toBe(22350.5);
+  });
+
+  it('rejects incomplete payments, missing references and change from non-cash tenders', () => {
+    expect(calcularMediosPago([{ medioPago: '01', monto: 5000 }], 8000).pendiente).toBe(3000);
+    expect(() => validarMediosPago([{ medioPago: '01', monto: 5000 }], 8000)).toThrow(/Falta por cobrar/);
+    expect(() => validarMediosPago([{ medioPago: '06', monto: 8000 }], 8000)).toThrow(/referencia/);
+    expect(() => validarMediosPago([{ medioPago: '02', monto: 8000 }], 8000)).toThrow(/autorización/);
+    expect(() => validarMediosPago([{ medioPago: '02', monto: 9000, autorizacion: '1' }], 8000)).toThrow(/superan el total/);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { generateXML } from '../src/services/xmlService.ts';
+import { validateComprobanteXml } from '../src/services/xsdValidationService.ts';
+import { Invoice } from '../src/types/invoice.ts';
+
+const invoice: Invoice = {
+  clave: '50601012510031012345670010000101000000000110000001',
+  numeroConsecutivo: '01000010010000000001',
+  fechaEmision: '2025-01-01T12:00:00-06:00',
+  emisor: {
+    nombre: 'Emisor S.A.',
+    identificacion: { tipo: '02', numero: '3101123456' },
+    ubicacion: { provincia: '1', canton: '01', distrito: '01', otrasSenas: 'Avenida central, local 4' },
+    correo: 'facturas@emisor.cr',
+    actividadEconomica: '741203'
+  },
+  receptor: {
+    nombre: 'Cliente',
+    identificacion: { tipo: '01', numero: '112340567' },
+    correo: 'cliente@correo.cr'
+  },
+  condicionVenta: '01',
+  medioPago: ['01'],
+  totalMedioPago: [1130],
+  detalleServicio: [{
+    id: 1,
+    codigoCabys: '8399000000000',
+    cantidad: 1,
+    unidadMedida: 'Sp',
+    detalle: 'Servicio de diseño',
+    precioUnitario: 1000,
+    montoTotal: 1000,
+    subtotal: 1000,
+    impuesto: { codigo: '01', codigoTarifa: '08', tarifa: 13, monto: 130 },
+    impuestoNeto: 130,
+    montoTotalLinea: 1130
+  }],
+  resumenFactura: {
+    codigoMoneda: 'CRC',
+    tipoCambio: 1,
+    totalServGravados: 1000,
+    totalServExentos: 0,
+    totalMercGravada: 0,
+    totalMercExenta: 0,
+    totalGravado: 1000,
+    totalExento: 0,
+    totalVenta: 1000,
+    totalDescuentos: 0,
+    totalVentaNeta: 1000,
+    totalImpuesto: 130,
+    totalComprobante: 1130
+  }
+} as Invoice;
+
+describe('xsdValidationService', () => {
+  it('accepts a generated v4.4 factura', () => {
+    const result = validateComprobanteXml(generateXML(invoice));
+    expect(result.errors).toEqual([]);
+    expect(result.valid).toBe(true);
+  });
+
+  it('reports element paths for invalid values and missing elements', () => {
+    const xml = generateXML({
+      ...invoice,
+      emisor: { ...invoice.emisor, ubicacion: { provincia: 'San José', canton: '01', distrito: '01', otrasSenas: 'Avenida central' } },
+      detalleServicio: [{ ...invoice.detalleServicio[0], codigoCabys: undefined }]
+    });
+    const result = validateComprobanteXml(xml);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors.map(e => e.path)).toEqual([
+      '/FacturaElectronica/Emisor/Ubicacion/Provincia',
+      '/FacturaElectronica/DetalleServicio/LineaDetalle[1]/CodigoCABYS'
+    ]);
+  });
+
+  it('flags elements out of sequence order', () => {
+    const xml = generateXML(invoice).replace(
+      /(<NumeroConsecutivo>\d+<\/NumeroConsecutivo>)(\s*)(<FechaEmision>[^<]+<\/FechaEmision>)/,
+      '$3$2$1'
+    );
+    const result = validateComprobanteXml(xml);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors[0].path).toBe('/FacturaElectronica/NumeroConsecutivo');
+  });
+});
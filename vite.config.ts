@@ -1,9 +1,43 @@
-import { defineConfig } from 'vite';
+import { readFileSync } from 'node:fs';
+import { createHash } from 'node:crypto';
+import { defineConfig, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Archivos del shell que no salen del bundle de Rollup: el HTML y lo copiado de public/
+const SHELL_FILES = [
+  '/index.html',
+  '/manifest.webmanifest',
+  '/icons/icon.svg',
+  '/icons/icon-192.png',
+  '/icons/icon-512.png',
+];
+
+// Genera /sw.js a partir de src/pwa/sw.js con la lista de archivos del build a precachear.
+// La versión cambia con los hashes de los archivos, lo que dispara el aviso de actualización
+const pwaServiceWorker = (): Plugin => ({
+  name: 'innovai-pwa-service-worker',
+  apply: 'build',
+  generateBundle(_options, bundle) {
+    const archivos = Object.keys(bundle)
+      .filter(fileName => !fileName.endsWith('.map'))
+      .map(fileName => `/${fileName}`);
+    const precache = Array.from(new Set([...archivos, ...SHELL_FILES]));
+    const version = createHash('sha256').update(precache.join('\n')).digest('hex').slice(0, 12);
+    const plantilla = readFileSync(new URL('./src/pwa/sw.js', import.meta.url), 'utf-8');
+
+    this.emitFile({
+      type: 'asset',
+      fileName: 'sw.js',
+      source: plantilla
+        .replace("'__PRECACHE_VERSION__'", JSON.stringify(version))
+        .replace('[/* __PRECACHE_MANIFEST__ */]', JSON.stringify(precache)),
+    });
+  },
+});
+
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), pwaServiceWorker()],
   optimizeDeps: {
     exclude: ['lucide-react'],
   },